@@ -29,6 +29,7 @@ import { format } from "date-fns";
 import { CostOverview } from "@/components/analytics/cost-overview";
 import { CostTrends } from "@/components/analytics/cost-trends";
 import { UserCostBreakdown } from "@/components/analytics/user-cost-breakdown";
+import { SttProviderStats } from "@/components/analytics/stt-provider-stats";
 
 export default function AnalyticsPage() {
   const { toast } = useToast();
@@ -67,6 +68,20 @@ export default function AnalyticsPage() {
     })
   );
 
+  // Fetch speech-to-text provider stats
+  const sttInput = {
+    days: Number.parseInt(selectedPeriod, 10),
+    ...queryDateRange,
+  };
+
+  const { data: sttComparison, isLoading: sttComparisonLoading } = useQuery(
+    trpc.sttAnalytics.getProviderComparison.queryOptions(sttInput)
+  );
+
+  const { data: sttTrends, isLoading: sttTrendsLoading } = useQuery(
+    trpc.sttAnalytics.getProviderTrends.queryOptions(sttInput)
+  );
+
   const handleExport = async () => {
     try {
       let exportParams: { from?: string; to?: string } = {};
@@ -325,6 +340,7 @@ export default function AnalyticsPage() {
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="trends">Cost Trends</TabsTrigger>
           <TabsTrigger value="users">User Breakdown</TabsTrigger>
+          <TabsTrigger value="stt">Speech-to-Text</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
@@ -351,6 +367,27 @@ export default function AnalyticsPage() {
         <TabsContent value="users" className="space-y-6">
           <UserCostBreakdown />
         </TabsContent>
+
+        <TabsContent value="stt" className="space-y-6">
+          <div className="flex items-center space-x-4 mb-6">
+            <Select value={selectedPeriod} onValueChange={setSelectedPeriod}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Select period" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">Last 7 days</SelectItem>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="60">Last 60 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <SttProviderStats
+            comparison={sttComparison ?? []}
+            trends={sttTrends ?? []}
+            loading={sttComparisonLoading || sttTrendsLoading}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
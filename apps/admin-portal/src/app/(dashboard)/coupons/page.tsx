@@ -0,0 +1,739 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useForm, type SubmitHandler } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useTRPC } from "@/trpc/client";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@imaginecalendar/ui/card";
+import { Button } from "@imaginecalendar/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@imaginecalendar/ui/table";
+import { Badge } from "@imaginecalendar/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@imaginecalendar/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@imaginecalendar/ui/form";
+import { Input } from "@imaginecalendar/ui/input";
+import { Label } from "@imaginecalendar/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@imaginecalendar/ui/select";
+import { Switch } from "@imaginecalendar/ui/switch";
+import { Checkbox } from "@imaginecalendar/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@imaginecalendar/ui/dropdown-menu";
+import { useToast } from "@imaginecalendar/ui/use-toast";
+import { cn } from "@imaginecalendar/ui/cn";
+import {
+  Archive,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  RefreshCw,
+  RotateCw,
+  TicketPercent,
+} from "lucide-react";
+import { format } from "date-fns";
+import type { RouterOutputs } from "@api/trpc/routers/_app";
+
+type CouponDto = NonNullable<RouterOutputs["admin"]["coupons"]["list"][number]>;
+
+const formatAmount = (cents: number) => `R${(cents / 100).toFixed(2)}`;
+
+const describeDiscount = (coupon: CouponDto) => {
+  const amount = coupon.discountType === "percent"
+    ? `${coupon.percentOff ?? 0}% off`
+    : `${formatAmount(coupon.amountOffCents ?? 0)} off`;
+
+  switch (coupon.duration) {
+    case "forever":
+      return `${amount} every payment`;
+    case "repeating":
+      return `${amount} for ${coupon.durationInCycles ?? 1} payments`;
+    default:
+      return `${amount} the first payment`;
+  }
+};
+
+const couponFormBaseSchema = z.object({
+  code: z.string().trim().min(3).max(64).regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, dashes and underscores only"),
+  description: z.string().max(300),
+  discountType: z.enum(["percent", "fixed"]),
+  percentOff: z.number().int().min(1).max(100).nullable(),
+  amountOffCents: z.number().int().min(1).nullable(),
+  duration: z.enum(["once", "repeating", "forever"]),
+  durationInCycles: z.number().int().min(1).max(120).nullable(),
+  maxRedemptions: z.number().int().min(1).nullable(),
+  expiresOn: z.string(), // yyyy-MM-dd; empty never expires
+  planIds: z.array(z.string()), // Empty applies to every plan
+  isActive: z.boolean(),
+});
+
+const couponFormSchema = couponFormBaseSchema.superRefine((data, ctx) => {
+  if (data.discountType === "percent" && !data.percentOff) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Percent off is required for percentage discounts",
+      path: ["percentOff"],
+    });
+  }
+
+  if (data.discountType === "fixed" && !data.amountOffCents) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Amount off is required for fixed discounts",
+      path: ["amountOffCents"],
+    });
+  }
+
+  if (data.duration === "repeating" && !data.durationInCycles) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Number of payments is required for repeating coupons",
+      path: ["durationInCycles"],
+    });
+  }
+});
+
+type CouponFormValues = z.infer<typeof couponFormSchema>;
+
+function CouponStatusBadge({ coupon }: { coupon: CouponDto }) {
+  const isExpired = !!coupon.expiresAt && new Date(coupon.expiresAt) <= new Date();
+  const isExhausted = coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions;
+  const status = !coupon.isActive ? "inactive" : isExpired ? "expired" : isExhausted ? "used up" : "active";
+
+  const variantMap: Record<string, string> = {
+    active: "bg-emerald-100 text-emerald-800",
+    inactive: "bg-gray-100 text-gray-700",
+    expired: "bg-amber-100 text-amber-800",
+    "used up": "bg-amber-100 text-amber-800",
+  };
+
+  return <Badge className={cn("px-2", variantMap[status])}>{status}</Badge>;
+}
+
+interface CouponFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialCoupon?: CouponDto;
+}
+
+function CouponFormDialog({ open, onOpenChange, initialCoupon }: CouponFormDialogProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const plansQuery = useQuery(trpc.admin.plans.list.queryOptions());
+  const plans = plansQuery.data ?? [];
+
+  const defaultValues = useMemo<CouponFormValues>(() => {
+    if (!initialCoupon) {
+      return {
+        code: "",
+        description: "",
+        discountType: "percent",
+        percentOff: null,
+        amountOffCents: null,
+        duration: "once",
+        durationInCycles: null,
+        maxRedemptions: null,
+        expiresOn: "",
+        planIds: [],
+        isActive: true,
+      };
+    }
+
+    return {
+      code: initialCoupon.code,
+      description: initialCoupon.description ?? "",
+      discountType: initialCoupon.discountType,
+      percentOff: initialCoupon.percentOff,
+      amountOffCents: initialCoupon.amountOffCents,
+      duration: initialCoupon.duration,
+      durationInCycles: initialCoupon.durationInCycles,
+      maxRedemptions: initialCoupon.maxRedemptions,
+      expiresOn: initialCoupon.expiresAt ? format(new Date(initialCoupon.expiresAt), "yyyy-MM-dd") : "",
+      planIds: initialCoupon.planIds ?? [],
+      isActive: initialCoupon.isActive,
+    };
+  }, [initialCoupon]);
+
+  const form = useForm<CouponFormValues>({
+    resolver: zodResolver(couponFormSchema),
+    defaultValues,
+  });
+
+  const { control, handleSubmit, watch, reset } = form;
+  const discountType = watch("discountType");
+  const duration = watch("duration");
+  // The discount is fixed once a coupon exists; only its limits and availability change
+  const isEditing = Boolean(initialCoupon);
+
+  useEffect(() => {
+    reset(defaultValues);
+  }, [defaultValues, reset]);
+
+  const invalidateCoupons = async () => {
+    await queryClient.invalidateQueries({
+      queryKey: trpc.admin.coupons.list.queryOptions().queryKey,
+    });
+  };
+
+  const createCouponMutation = useMutation(
+    trpc.admin.coupons.create.mutationOptions({
+      onSuccess: async () => {
+        await invalidateCoupons();
+        toast({ title: "Coupon created", description: "The promo code can now be used at checkout." });
+        onOpenChange(false);
+        reset(defaultValues);
+      },
+      onError: (error) => {
+        toast({
+          title: "Failed to create coupon",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    })
+  );
+
+  const updateCouponMutation = useMutation(
+    trpc.admin.coupons.update.mutationOptions({
+      onSuccess: async () => {
+        await invalidateCoupons();
+        toast({ title: "Coupon updated", description: "The coupon has been updated." });
+        onOpenChange(false);
+      },
+      onError: (error) => {
+        toast({
+          title: "Failed to update coupon",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    })
+  );
+
+  const onSubmit: SubmitHandler<CouponFormValues> = (values) => {
+    const settings = {
+      description: values.description.trim() || null,
+      maxRedemptions: values.maxRedemptions,
+      // Usable until the end of the chosen day
+      expiresAt: values.expiresOn ? new Date(`${values.expiresOn}T23:59:59`) : null,
+      planIds: values.planIds.length > 0 ? values.planIds : null,
+      isActive: values.isActive,
+    };
+
+    if (initialCoupon) {
+      updateCouponMutation.mutate({ id: initialCoupon.id, ...settings });
+    } else {
+      createCouponMutation.mutate({
+        ...settings,
+        code: values.code.trim().toUpperCase(),
+        discountType: values.discountType,
+        percentOff: values.percentOff,
+        amountOffCents: values.amountOffCents,
+        duration: values.duration,
+        durationInCycles: values.durationInCycles,
+      });
+    }
+  };
+
+  const isSubmitting = createCouponMutation.isPending || updateCouponMutation.isPending;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) {
+          onOpenChange(false);
+          reset(defaultValues);
+        } else {
+          onOpenChange(true);
+        }
+      }}
+    >
+      <DialogContent className="max-h-[85vh] overflow-y-auto max-w-2xl p-6">
+        <DialogHeader>
+          <DialogTitle>{initialCoupon ? "Edit Coupon" : "Create Coupon"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code</FormLabel>
+                    <FormControl>
+                      <Input placeholder="LAUNCH20" {...field} disabled={isEditing} className="uppercase" />
+                    </FormControl>
+                    <FormDescription>What users type at checkout</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Launch campaign" {...field} />
+                    </FormControl>
+                    <FormDescription>For admins only</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={control}
+                name="discountType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Discount</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={isEditing}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select discount type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="percent">Percentage</SelectItem>
+                        <SelectItem value="fixed">Fixed amount</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {discountType === "percent" ? (
+                <FormField
+                  control={control}
+                  name="percentOff"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Percent Off</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={100}
+                          value={field.value ?? ""}
+                          disabled={isEditing}
+                          onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={control}
+                  name="amountOffCents"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount Off (cents)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          step={100}
+                          value={field.value ?? ""}
+                          disabled={isEditing}
+                          onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormDescription>VAT-inclusive (e.g., 5000 = R50)</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={control}
+                name="duration"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Duration</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={isEditing}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select duration" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="once">First payment only</SelectItem>
+                        <SelectItem value="repeating">Several payments</SelectItem>
+                        <SelectItem value="forever">Every payment</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {duration === "repeating" && (
+                <FormField
+                  control={control}
+                  name="durationInCycles"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Number of Payments</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={120}
+                          value={field.value ?? ""}
+                          disabled={isEditing}
+                          onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormDescription>Including the first one</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={control}
+                name="maxRedemptions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Redemption Limit</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        placeholder="Unlimited"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name="expiresOn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expires On</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave empty to never expire</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={control}
+              name="planIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Plans</FormLabel>
+                  <FormDescription>Leave all unticked to allow every plan</FormDescription>
+                  <div className="grid gap-2 md:grid-cols-2">
+                    {plans
+                      .filter((plan) => plan.amountCents > 0)
+                      .map((plan) => (
+                        <div key={plan.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            id={`coupon-plan-${plan.id}`}
+                            checked={field.value.includes(plan.id)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, plan.id]
+                                  : field.value.filter((id) => id !== plan.id)
+                              )
+                            }
+                          />
+                          <Label htmlFor={`coupon-plan-${plan.id}`} className="font-normal">
+                            {plan.name}{" "}
+                            <span className="text-muted-foreground">{formatAmount(plan.amountCents)}</span>
+                          </Label>
+                        </div>
+                      ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center gap-3 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Active</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : initialCoupon ? "Save Changes" : "Create Coupon"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function CouponsPage() {
+  const trpc = useTRPC();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [editCoupon, setEditCoupon] = useState<CouponDto | null>(null);
+
+  const couponsQuery = useQuery(trpc.admin.coupons.list.queryOptions());
+  const plansQuery = useQuery(trpc.admin.plans.list.queryOptions());
+
+  const planNames = useMemo(
+    () => new Map((plansQuery.data ?? []).map((plan) => [plan.id, plan.name])),
+    [plansQuery.data]
+  );
+
+  const setActiveMutation = useMutation(
+    trpc.admin.coupons.setActive.mutationOptions({
+      onSuccess: async () => {
+        await queryClient.invalidateQueries({
+          queryKey: trpc.admin.coupons.list.queryOptions().queryKey,
+        });
+      },
+      onError: (error) => {
+        toast({
+          title: "Failed to update coupon",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    })
+  );
+
+  const coupons = couponsQuery.data ?? [];
+
+  if (couponsQuery.isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Coupons</h1>
+        </div>
+        <Card>
+          <CardContent className="flex items-center justify-center py-12">
+            <RefreshCw className="h-6 w-6 animate-spin" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (couponsQuery.error) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Coupons</h1>
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-destructive">Failed to load coupons</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Coupons</h1>
+          <p className="text-muted-foreground">Manage promo codes for plan checkout</p>
+        </div>
+        <Button onClick={() => setCreateOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Create Coupon
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <TicketPercent className="h-5 w-5" />
+            Promo Codes
+          </CardTitle>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => couponsQuery.refetch()}
+            disabled={couponsQuery.isRefetching}
+          >
+            {couponsQuery.isRefetching ? (
+              <>
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                Refreshing
+              </>
+            ) : (
+              <>
+                <RotateCw className="mr-2 h-4 w-4" />
+                Refresh
+              </>
+            )}
+          </Button>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Plans</TableHead>
+                <TableHead>Redemptions</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-[80px] text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {coupons.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No coupons created yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                coupons.map((coupon) => (
+                  <TableRow key={coupon.id}>
+                    <TableCell>
+                      <div className="font-mono text-sm font-medium">{coupon.code}</div>
+                      {coupon.description && (
+                        <div className="text-sm text-muted-foreground">{coupon.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{describeDiscount(coupon)}</TableCell>
+                    <TableCell className="max-w-xs text-sm">
+                      {coupon.planIds
+                        ? coupon.planIds.map((planId) => planNames.get(planId) ?? planId).join(", ")
+                        : "All plans"}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {coupon.redemptionCount}
+                      {coupon.maxRedemptions !== null && ` / ${coupon.maxRedemptions}`}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {coupon.expiresAt ? format(new Date(coupon.expiresAt), "yyyy-MM-dd") : "Never"}
+                    </TableCell>
+                    <TableCell>
+                      <CouponStatusBadge coupon={coupon} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end">
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon">
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                            <DropdownMenuItem onClick={() => setEditCoupon(coupon)}>
+                              <Pencil className="mr-2 h-4 w-4" />
+                              Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              onClick={() => setActiveMutation.mutate({ id: coupon.id, isActive: !coupon.isActive })}
+                              disabled={setActiveMutation.isPending}
+                            >
+                              <Archive className="mr-2 h-4 w-4" />
+                              {coupon.isActive ? "Deactivate" : "Activate"}
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <CouponFormDialog open={createOpen} onOpenChange={setCreateOpen} />
+      {editCoupon && (
+        <CouponFormDialog
+          open={true}
+          onOpenChange={(open) => {
+            if (!open) {
+              setEditCoupon(null);
+            }
+          }}
+          initialCoupon={editCoupon}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+"use client";
+
+import { useState } from "react";
+import { useTRPC } from "@/trpc/client";
+import { useQuery, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@imaginecalendar/ui/card";
+import { Button } from "@imaginecalendar/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@imaginecalendar/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@imaginecalendar/ui/table";
+import { Badge } from "@imaginecalendar/ui/badge";
+import { Download, RefreshCw } from "lucide-react";
+import { useToast } from "@imaginecalendar/ui/use-toast";
+import { format } from "date-fns";
+
+type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "—";
+  return String(value);
+};
+
+export default function IntentFeedbackPage() {
+  const { toast } = useToast();
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const [statusFilter, setStatusFilter] = useState<"all" | "corrected" | "pending" | "cancelled">("all");
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const { data, isLoading, error } = useQuery({
+    ...trpc.intentFeedback.list.queryOptions({
+      page: currentPage,
+      limit: 25,
+      status: statusFilter,
+    }),
+    placeholderData: keepPreviousData,
+  });
+
+  const handleExportDataset = async () => {
+    try {
+      const examples = await queryClient.fetchQuery(
+        trpc.intentFeedback.exportDataset.queryOptions({})
+      );
+
+      if (examples.length === 0) {
+        toast({
+          title: "No data to export",
+          description: "No corrected transcripts yet",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // One evaluation example per line
+      const jsonl = examples.map((example) => JSON.stringify(example)).join("\n");
+
+      const blob = new Blob([`${jsonl}\n`], { type: "application/x-ndjson;charset=utf-8;" });
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+      link.setAttribute("href", url);
+      link.setAttribute("download", `intent-corrections-${format(new Date(), "yyyy-MM-dd")}.jsonl`);
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      toast({
+        title: "Export successful",
+        description: `Exported ${examples.length} corrections`,
+      });
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: "Failed to export corrections",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Intent Corrections</h1>
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex justify-center">
+              <RefreshCw className="h-6 w-6 animate-spin" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Intent Corrections</h1>
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-destructive">Failed to load intent corrections</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Intent Corrections</h1>
+        <Button onClick={handleExportDataset} variant="outline">
+          <Download className="mr-2 h-4 w-4" />
+          Export JSONL
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Misparsed Transcripts</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Select
+              value={statusFilter}
+              onValueChange={(val) => {
+                setStatusFilter(val as typeof statusFilter);
+                setCurrentPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="All" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="corrected">Corrected</SelectItem>
+                <SelectItem value="pending">Not corrected</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Transcript</TableHead>
+                  <TableHead>User Said</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Reported</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!data?.items || data.items.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No corrections found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data.items.map((item) => {
+                    const changes = (item.correctedIntent as { changes?: FieldChanges } | null)?.changes;
+
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell className="max-w-xs align-top">
+                          <p className="text-sm">{item.transcribedText}</p>
+                        </TableCell>
+                        <TableCell className="max-w-xs align-top">
+                          <p className="text-sm text-muted-foreground">
+                            {item.userFeedback || (item.feedbackAt ? "Cancelled" : "Awaiting reply")}
+                          </p>
+                        </TableCell>
+                        <TableCell className="align-top">
+                          {changes && Object.keys(changes).length > 0 ? (
+                            <div className="space-y-1 text-sm">
+                              {Object.entries(changes).map(([field, change]) => (
+                                <div key={field}>
+                                  <span className="font-medium">{field}: </span>
+                                  <span className="text-red-600 line-through">{formatValue(change.from)}</span>
+                                  {" → "}
+                                  <span className="text-green-600">{formatValue(change.to)}</span>
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <Badge variant="outline">Not applied</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="align-top text-sm text-muted-foreground">
+                          {item.userEmail || "Unknown"}
+                        </TableCell>
+                        <TableCell className="align-top text-sm">
+                          {format(new Date(item.createdAt), "yyyy-MM-dd HH:mm")}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          {data?.pagination && data.pagination.totalCount > 0 && (
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-muted-foreground">
+                Showing {((data.pagination.page - 1) * data.pagination.limit) + 1} to{" "}
+                {Math.min(data.pagination.page * data.pagination.limit, data.pagination.totalCount)} of{" "}
+                {data.pagination.totalCount} corrections
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage - 1)}
+                  disabled={!data.pagination.hasPreviousPage}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage + 1)}
+                  disabled={!data.pagination.hasNextPage}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
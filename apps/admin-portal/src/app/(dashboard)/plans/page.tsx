@@ -95,6 +95,26 @@ const payfastFrequencyOptions = [
 
 const featureSchema = z.object({ label: z.string().min(1).max(160).trim() });
 
+// Empty limits are unlimited
+const entitlementsSchema = z.object({
+  voiceNotesPerMonth: z.number().int().min(0).nullable(),
+  audioMinutesPerMonth: z.number().int().min(0).nullable(),
+  calendarConnections: z.number().int().min(1).nullable(),
+  multiEvent: z.boolean(),
+  reminders: z.boolean(),
+});
+
+const entitlementLimitFields = [
+  { name: "entitlements.voiceNotesPerMonth", label: "Voice Notes / Month", min: 0 },
+  { name: "entitlements.audioMinutesPerMonth", label: "Audio Minutes / Month", min: 0 },
+  { name: "entitlements.calendarConnections", label: "Calendar Connections", min: 1 },
+] as const;
+
+const entitlementToggleFields = [
+  { name: "entitlements.multiEvent", label: "Several requests per message" },
+  { name: "entitlements.reminders", label: "WhatsApp event reminders" },
+] as const;
+
 const planFormBaseSchema = z.object({
   id: z.string().min(1).max(64).regex(/^[a-z0-9_-]+$/),
   name: z.string().min(1).max(160).trim(),
@@ -108,6 +128,7 @@ const planFormBaseSchema = z.object({
   features: z.array(featureSchema).min(1).max(20),
   payfastRecurring: z.boolean(),
   payfastFrequency: z.string().nullable(),
+  entitlements: entitlementsSchema,
 });
 
 const planFormSchema = planFormBaseSchema.superRefine((data, ctx) => {
@@ -185,6 +206,13 @@ function PlanFormDialog({ open, onOpenChange, initialPlan }: PlanFormDialogProps
         features: [{ label: "" }],
         payfastRecurring: false,
         payfastFrequency: null,
+        entitlements: {
+          voiceNotesPerMonth: null,
+          audioMinutesPerMonth: null,
+          calendarConnections: null,
+          multiEvent: true,
+          reminders: true,
+        },
       };
     }
 
@@ -206,6 +234,7 @@ function PlanFormDialog({ open, onOpenChange, initialPlan }: PlanFormDialogProps
           : [{ label: "" }],
       payfastRecurring: payfast.recurring,
       payfastFrequency: payfast.frequency != null ? String(payfast.frequency) : null,
+      entitlements: initialPlan.entitlements,
     };
   }, [initialPlan]);
 
@@ -287,6 +316,7 @@ function PlanFormDialog({ open, onOpenChange, initialPlan }: PlanFormDialogProps
             ? Number(values.payfastFrequency)
             : null,
       },
+      entitlements: values.entitlements,
       features: values.features.map((feature, index) => ({
         label: feature.label.trim(),
         position: index,
@@ -534,6 +564,53 @@ function PlanFormDialog({ open, onOpenChange, initialPlan }: PlanFormDialogProps
                 />
               )}
             </div>
+            <div className="rounded-lg border border-border bg-muted/30 p-5 space-y-4">
+              <div>
+                <h3 className="text-base font-semibold">Entitlements</h3>
+                <p className="text-sm text-muted-foreground mt-1">Limits enforced on WhatsApp each month; leave a limit empty for unlimited</p>
+              </div>
+              <div className="grid gap-4 md:grid-cols-3">
+                {entitlementLimitFields.map((limit) => (
+                  <FormField
+                    key={limit.name}
+                    control={control}
+                    name={limit.name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{limit.label}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={limit.min}
+                            placeholder="Unlimited"
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                {entitlementToggleFields.map((toggle) => (
+                  <FormField
+                    key={toggle.name}
+                    control={control}
+                    name={toggle.name}
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center gap-3 space-y-0">
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                        <FormLabel className="text-sm font-medium">{toggle.label}</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <div>
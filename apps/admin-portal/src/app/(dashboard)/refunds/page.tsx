@@ -0,0 +1,428 @@
+"use client";
+
+import { useState } from "react";
+import { useTRPC } from "@/trpc/client";
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@imaginecalendar/ui/card";
+import { Button } from "@imaginecalendar/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@imaginecalendar/ui/dialog";
+import { Label } from "@imaginecalendar/ui/label";
+import { Textarea } from "@imaginecalendar/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@imaginecalendar/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@imaginecalendar/ui/table";
+import { Badge } from "@imaginecalendar/ui/badge";
+import { Check, RefreshCw, X } from "lucide-react";
+import { useToast } from "@imaginecalendar/ui/use-toast";
+import { format } from "date-fns";
+
+type RefundStatus = "requested" | "approved" | "payout_unknown" | "payout_unrecorded" | "processed" | "rejected";
+
+const PAGE_SIZE = 25;
+
+const formatAmount = (cents: number) => `R${(cents / 100).toFixed(2)}`;
+
+const statusVariant = (status: RefundStatus) => {
+  switch (status) {
+    case "processed":
+      return "default" as const;
+    case "rejected":
+    case "payout_unknown":
+    case "payout_unrecorded":
+      return "destructive" as const;
+    case "approved":
+      return "secondary" as const;
+    default:
+      return "outline" as const;
+  }
+};
+
+export default function RefundsPage() {
+  const { toast } = useToast();
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const [statusFilter, setStatusFilter] = useState<"all" | RefundStatus>("requested");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [rejecting, setRejecting] = useState<{ id: string; email: string } | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  const { data, isLoading, error } = useQuery({
+    ...trpc.admin.getRefundRequests.queryOptions({
+      page: currentPage,
+      limit: PAGE_SIZE,
+      status: statusFilter === "all" ? undefined : statusFilter,
+    }),
+    placeholderData: keepPreviousData,
+  });
+
+  const invalidateRefunds = async () => {
+    await queryClient.invalidateQueries({
+      queryKey: trpc.admin.getRefundRequests.queryKey(),
+    });
+  };
+
+  const approveMutation = useMutation(
+    trpc.admin.approveRefundRequest.mutationOptions({
+      onSuccess: async (result) => {
+        await invalidateRefunds();
+        toast({
+          title: "Refund processed",
+          description: `Refunded ${formatAmount(result.refundAmount)} under credit note ${result.creditNoteNumber}.`,
+        });
+      },
+      onError: async (error) => {
+        // A declined refund is kept with its failure reason, so show it in the queue
+        await invalidateRefunds();
+        toast({
+          title: "Refund failed",
+          description: error.message || "Failed to process refund",
+          variant: "destructive",
+        });
+      },
+    })
+  );
+
+  const resolveUnconfirmedMutation = useMutation(
+    trpc.admin.resolveUnconfirmedRefund.mutationOptions({
+      onSuccess: async (result) => {
+        await invalidateRefunds();
+        toast({
+          title: result.paidOut ? "Refund recorded" : "Refund released",
+          description: result.paidOut
+            ? `Recorded under credit note ${result.creditNoteNumber}.`
+            : "The refund was not paid out and can be retried.",
+        });
+      },
+      onError: async (error) => {
+        await invalidateRefunds();
+        toast({
+          title: "Update failed",
+          description: error.message || "Failed to update refund",
+          variant: "destructive",
+        });
+      },
+    })
+  );
+
+  const rejectMutation = useMutation(
+    trpc.admin.rejectRefundRequest.mutationOptions({
+      onSuccess: async () => {
+        await invalidateRefunds();
+        toast({
+          title: "Refund rejected",
+          description: "The refund request has been rejected.",
+        });
+        setRejecting(null);
+        setRejectionReason("");
+      },
+      onError: (error) => {
+        toast({
+          title: "Rejection failed",
+          description: error.message || "Failed to reject refund request",
+          variant: "destructive",
+        });
+      },
+    })
+  );
+
+  const totalPages = data ? Math.max(Math.ceil(data.total / PAGE_SIZE), 1) : 1;
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Refunds</h1>
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex justify-center">
+              <RefreshCw className="h-6 w-6 animate-spin" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Refunds</h1>
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-destructive">Failed to load refund requests</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Refunds</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Refund Requests</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Select
+              value={statusFilter}
+              onValueChange={(val) => {
+                setStatusFilter(val as typeof statusFilter);
+                setCurrentPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Awaiting review" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="requested">Awaiting review</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="payout_unknown">Unconfirmed</SelectItem>
+                <SelectItem value="payout_unrecorded">Not recorded</SelectItem>
+                <SelectItem value="processed">Processed</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!data?.requests || data.requests.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No refund requests found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data.requests.map((request) => {
+                    const isRetry = request.status === "approved" && !!request.failureReason;
+                    const isUnrecorded = request.status === "payout_unrecorded";
+                    const isUnconfirmed = request.status === "payout_unknown";
+                    const canApprove = request.status === "requested" || isRetry || isUnrecorded;
+                    const isBusy =
+                      (approveMutation.isPending && approveMutation.variables?.requestId === request.id) ||
+                      (resolveUnconfirmedMutation.isPending &&
+                        resolveUnconfirmedMutation.variables?.requestId === request.id) ||
+                      (rejectMutation.isPending && rejectMutation.variables?.requestId === request.id);
+
+                    return (
+                      <TableRow key={request.id}>
+                        <TableCell className="align-top text-sm">
+                          {request.user?.email || "Unknown"}
+                        </TableCell>
+                        <TableCell className="align-top text-sm">
+                          <div>{request.payment.invoiceNumber}</div>
+                          <div className="text-muted-foreground">
+                            of {formatAmount(request.payment.totalAmount)}
+                          </div>
+                        </TableCell>
+                        <TableCell className="align-top text-sm font-medium">
+                          {formatAmount(request.amount)}
+                        </TableCell>
+                        <TableCell className="max-w-xs align-top">
+                          <p className="text-sm">{request.reason}</p>
+                          {request.failureReason && (
+                            <p className="text-sm text-destructive">
+                              {isUnrecorded
+                                ? request.failureReason
+                                : isUnconfirmed
+                                  ? `No answer from PayFast: ${request.failureReason}. Check the PayFast dashboard.`
+                                  : `PayFast: ${request.failureReason}`}
+                            </p>
+                          )}
+                          {request.rejectionReason && (
+                            <p className="text-sm text-muted-foreground">Rejected: {request.rejectionReason}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <Badge variant={statusVariant(request.status)}>{request.status}</Badge>
+                          {request.creditNoteNumber && (
+                            <div className="mt-1 text-xs text-muted-foreground">{request.creditNoteNumber}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="align-top text-sm">
+                          {format(new Date(request.createdAt), "yyyy-MM-dd HH:mm")}
+                        </TableCell>
+                        <TableCell className="align-top text-right">
+                          <div className="flex justify-end gap-2">
+                            {canApprove && (
+                              <Button
+                                size="sm"
+                                onClick={() => approveMutation.mutate({ requestId: request.id })}
+                                disabled={isBusy}
+                              >
+                                <Check className="mr-1 h-4 w-4" />
+                                {isUnrecorded ? "Record" : isRetry ? "Retry" : "Approve"}
+                              </Button>
+                            )}
+                            {isUnconfirmed && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  onClick={() =>
+                                    resolveUnconfirmedMutation.mutate({ requestId: request.id, paidOut: true })
+                                  }
+                                  disabled={isBusy}
+                                >
+                                  <Check className="mr-1 h-4 w-4" />
+                                  Paid out
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() =>
+                                    resolveUnconfirmedMutation.mutate({ requestId: request.id, paidOut: false })
+                                  }
+                                  disabled={isBusy}
+                                >
+                                  <X className="mr-1 h-4 w-4" />
+                                  Not paid out
+                                </Button>
+                              </>
+                            )}
+                            {request.status === "requested" && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setRejecting({ id: request.id, email: request.user?.email || "this user" })}
+                                disabled={isBusy}
+                              >
+                                <X className="mr-1 h-4 w-4" />
+                                Reject
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          {data && data.total > 0 && (
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-muted-foreground">
+                Showing {((currentPage - 1) * PAGE_SIZE) + 1} to{" "}
+                {Math.min(currentPage * PAGE_SIZE, data.total)} of{" "}
+                {data.total} refund requests
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage - 1)}
+                  disabled={currentPage <= 1}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage + 1)}
+                  disabled={currentPage >= totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={!!rejecting}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejecting(null);
+            setRejectionReason("");
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Reject Refund Request</DialogTitle>
+            <DialogDescription>
+              Explain why the refund for {rejecting?.email} is being rejected.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="rejection-reason">Reason *</Label>
+            <Textarea
+              id="rejection-reason"
+              placeholder="e.g., Outside the refund window, service already used..."
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              className="min-h-[80px]"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setRejecting(null)}
+              disabled={rejectMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => rejecting && rejectMutation.mutate({
+                requestId: rejecting.id,
+                reason: rejectionReason.trim(),
+              })}
+              disabled={rejectMutation.isPending || !rejectionReason.trim()}
+            >
+              {rejectMutation.isPending ? "Rejecting..." : "Reject Refund"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
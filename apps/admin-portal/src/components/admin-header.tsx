@@ -1,7 +1,7 @@
 "use client";
 
 import { UserButton } from "@clerk/nextjs";
-import { Users, BarChart3, Home, Layers } from "lucide-react";
+import { Users, BarChart3, Home, Layers, MessageSquareWarning, ReceiptText, TicketPercent } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@imaginecalendar/ui/cn";
@@ -12,6 +12,9 @@ const navigation = [
   { name: "Users", href: "/users", icon: Users },
   { name: "Plans", href: "/plans", icon: Layers },
   { name: "Analytics", href: "/analytics", icon: BarChart3 },
+  { name: "Corrections", href: "/intent-feedback", icon: MessageSquareWarning },
+  { name: "Refunds", href: "/refunds", icon: ReceiptText },
+  { name: "Coupons", href: "/coupons", icon: TicketPercent },
 ];
 
 export function AdminHeader() {
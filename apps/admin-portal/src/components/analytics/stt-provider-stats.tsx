@@ -0,0 +1,272 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@imaginecalendar/ui/card";
+import { Badge } from "@imaginecalendar/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@imaginecalendar/ui/table";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, DollarSign, Mic, Timer } from "lucide-react";
+
+interface ProviderTotals {
+  providerName: string;
+  totalRequests: number;
+  successfulRequests: number;
+  failedRequests: number;
+  fallbackCount: number;
+  failureRate: number;
+  avgDurationMs: number | null;
+  totalAudioMinutes: number;
+  totalCost: number;
+  costPerMinute: number;
+}
+
+interface SttProviderStatsProps {
+  comparison: ProviderTotals[];
+  trends: Array<ProviderTotals & { date: string }>;
+  loading?: boolean;
+}
+
+const PROVIDER_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#06b6d4"];
+
+type Metric = "avgDurationMs" | "failureRate" | "totalCost";
+
+export function SttProviderStats({ comparison, trends, loading }: SttProviderStatsProps) {
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex justify-center items-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!comparison || comparison.length === 0) {
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex flex-col items-center justify-center h-64 space-y-2">
+              <Mic className="h-12 w-12 text-muted-foreground" />
+              <p className="text-muted-foreground">No transcription data available</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const providers = comparison.map((item) => item.providerName);
+
+  // One row per day with a column per provider, for the given metric
+  const buildChartData = (metric: Metric) => {
+    const rows = new Map<string, Record<string, string | number | null>>();
+
+    for (const item of trends) {
+      const row = rows.get(item.date) ?? {
+        formattedDate: format(parseISO(item.date), "MMM dd"),
+      };
+      row[item.providerName] = metric === "failureRate" ? item.failureRate * 100 : item[metric];
+      rows.set(item.date, row);
+    }
+
+    return Array.from(rows.values());
+  };
+
+  const totalRequests = comparison.reduce((sum, item) => sum + item.totalRequests, 0);
+  const totalFailed = comparison.reduce((sum, item) => sum + item.failedRequests, 0);
+  const totalCost = comparison.reduce((sum, item) => sum + item.totalCost, 0);
+  const totalFallbacks = comparison.reduce((sum, item) => sum + item.fallbackCount, 0);
+
+  const charts: Array<{ metric: Metric; title: string; description: string; unit: string; icon: typeof Timer }> = [
+    {
+      metric: "avgDurationMs",
+      title: "Average Latency",
+      description: "Mean transcription time per request (ms)",
+      unit: "ms",
+      icon: Timer,
+    },
+    {
+      metric: "failureRate",
+      title: "Failure Rate",
+      description: "Share of requests that failed (%)",
+      unit: "%",
+      icon: AlertTriangle,
+    },
+    {
+      metric: "totalCost",
+      title: "Daily Cost",
+      description: "Estimated transcription spend per day (USD)",
+      unit: "USD",
+      icon: DollarSign,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Requests</CardTitle>
+            <Mic className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totalRequests.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">across {providers.length} providers</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Failure Rate</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {totalRequests > 0 ? ((totalFailed / totalRequests) * 100).toFixed(1) : "0.0"}%
+            </div>
+            <p className="text-xs text-muted-foreground">{totalFailed.toLocaleString()} failed requests</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Fallbacks</CardTitle>
+            <Timer className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totalFallbacks.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">requests sent to the fallback provider</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Period Cost</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">${totalCost.toFixed(2)}</div>
+            <p className="text-xs text-muted-foreground">estimated USD</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Provider Comparison */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Provider Comparison</CardTitle>
+          <CardDescription>
+            Latency, reliability and cost per speech-to-text provider for the selected period
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Provider</TableHead>
+                <TableHead className="text-right">Requests</TableHead>
+                <TableHead className="text-right">Failure Rate</TableHead>
+                <TableHead className="text-right">As Fallback</TableHead>
+                <TableHead className="text-right">Avg Latency</TableHead>
+                <TableHead className="text-right">Audio</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+                <TableHead className="text-right">Cost / min</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.map((item) => (
+                <TableRow key={item.providerName}>
+                  <TableCell className="font-medium">{item.providerName}</TableCell>
+                  <TableCell className="text-right">{item.totalRequests.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant={item.failureRate > 0.05 ? "destructive" : "secondary"}>
+                      {(item.failureRate * 100).toFixed(1)}%
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{item.fallbackCount.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    {item.avgDurationMs !== null ? `${item.avgDurationMs.toLocaleString()} ms` : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">{item.totalAudioMinutes.toFixed(1)} min</TableCell>
+                  <TableCell className="text-right">${item.totalCost.toFixed(4)}</TableCell>
+                  <TableCell className="text-right">${item.costPerMinute.toFixed(4)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Per-provider trend charts */}
+      {charts.map(({ metric, title, description, unit, icon: Icon }) => (
+        <Card key={metric}>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Icon className="h-5 w-5" />
+              <span>{title}</span>
+            </CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={buildChartData(metric)} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis
+                    dataKey="formattedDate"
+                    className="text-xs"
+                    tick={{ fontSize: 12 }}
+                  />
+                  <YAxis
+                    className="text-xs"
+                    tick={{ fontSize: 12 }}
+                  />
+                  <Tooltip
+                    formatter={(value: number) =>
+                      unit === "USD" ? `$${value.toFixed(4)}` : `${value.toFixed(unit === "%" ? 1 : 0)} ${unit}`
+                    }
+                  />
+                  <Legend />
+                  {providers.map((provider, index) => (
+                    <Line
+                      key={provider}
+                      type="monotone"
+                      dataKey={provider}
+                      stroke={PROVIDER_COLORS[index % PROVIDER_COLORS.length]}
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                      connectNulls
+                      name={provider}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
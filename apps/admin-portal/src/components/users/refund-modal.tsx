@@ -61,7 +61,7 @@ export function RefundModal({
       onSuccess: (data) => {
         toast({
           title: "Refund processed",
-          description: `Refund of R${(data.refundAmount / 100).toFixed(2)} has been processed successfully.`,
+          description: `Refund of R${(data.refundAmount / 100).toFixed(2)} has been processed under credit note ${data.creditNoteNumber}.`,
         });
         setSelectedPayment("");
         setRefundType("full");
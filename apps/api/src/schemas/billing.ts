@@ -11,6 +11,14 @@ export const updateSubscriptionSchema = z.object({
   cancelAtPeriodEnd: z.boolean().optional(),
 });
 
+export const previewPlanChangeSchema = z.object({
+  plan: planIdSchema,
+});
+
+export const previewCouponSchema = z.object({
+  code: z.string().trim().min(1).max(64),
+});
+
 export const subscriptionSchema = z.object({
   id: z.string(),
   userId: z.string(),
@@ -9,11 +9,25 @@ export const connectCalendarSchema = z.object({
 export const updateCalendarSchema = z.object({
   id: z.string(),
   name: z.string().optional(),
+  label: z.string().trim().max(50).nullable().optional(),
   color: z.string().optional(),
   isPrimary: z.boolean().optional(),
   syncEnabled: z.boolean().optional(),
 });
 
+export const setDefaultCalendarSchema = z.object({
+  id: z.string().nullable(),
+});
+
+export const addRoutingRuleSchema = z.object({
+  calendarId: z.string(),
+  keyword: z.string().trim().min(2).max(50),
+});
+
+export const removeRoutingRuleSchema = z.object({
+  id: z.string(),
+});
+
 export const calendarSchema = z.object({
   id: z.string(),
   userId: z.string(),
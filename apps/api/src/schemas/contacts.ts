@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+export const addContactAliasSchema = z.object({
+  alias: z.string().trim().min(2).max(50),
+  email: z.string().trim().email(),
+  name: z.string().trim().max(100).nullable().optional(),
+});
+
+export const removeContactAliasSchema = z.object({
+  id: z.string(),
+});
+
+export const savedContactSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  email: z.string().trim().email(),
+});
+
+export const updateSavedContactSchema = savedContactSchema.extend({
+  id: z.string(),
+});
+
+export const removeSavedContactSchema = z.object({
+  id: z.string(),
+});
+
+export const writeBackSavedContactSchema = z.object({
+  id: z.string(),
+  calendarConnectionId: z.string(),
+});
+
+export const allowContactWriteSchema = z.object({
+  calendarConnectionId: z.string(),
+  code: z.string(),
+  redirectUri: z.string().url(),
+});
@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+// Input schemas for query parameters
+export const intentFeedbackListInputSchema = z.object({
+  page: z.number().min(1).default(1),
+  limit: z.number().min(1).max(100).default(25),
+  status: z.enum(["all", "corrected", "pending", "cancelled"]).default("all"),
+});
+
+export const intentFeedbackExportInputSchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
@@ -6,7 +6,7 @@ export const paymentSchema = z.object({
   subscriptionId: z.string().nullable(),
   amount: z.number(),
   currency: z.string(),
-  status: z.enum(["pending", "completed", "failed", "refunded"]),
+  status: z.enum(["pending", "processing", "completed", "failed", "refunded", "partially_refunded", "disputed"]),
   invoiceNumber: z.string(),
   description: z.string(),
   vatAmount: z.number(),
@@ -17,5 +17,7 @@ export const paymentSchema = z.object({
 });
 
 export const refundRequestSchema = z.object({
+  paymentId: z.string(),
+  amount: z.number().int().positive().optional(), // Partial refund in cents; defaults to what is left to refund
   reason: z.string().min(10).max(500),
 });
\ No newline at end of file
@@ -12,6 +12,23 @@ export const updatePreferencesSchema = z.object({
     defaultCalendarId: z.string().nullable().optional(),
   }).optional(),
 
+  workingHours: z.object({
+    start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM"),
+    end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM"),
+  }).refine((hours) => hours.start < hours.end, {
+    message: "Working hours must end after they start",
+    path: ["end"],
+  }).optional(),
+
+  dailyDigest: z.object({
+    enabled: z.boolean(),
+    time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM"),
+  }).optional(),
+
+  meetings: z.object({
+    alwaysAddMeetingLink: z.boolean(),
+  }).optional(),
+
   locale: z.object({
     timezone: z.string().optional(),
     dateFormat: z.enum(["DD/MM/YYYY", "MM/DD/YYYY", "YYYY-MM-DD"]).optional(),
@@ -26,7 +43,12 @@ export const preferencesSchema = z.object({
   reminderNotifications: z.boolean(),
   reminderMinutes: z.number(),
   defaultCalendarId: z.string().nullable(),
-  timezone: z.string(),
+  workingHoursStart: z.string(),
+  workingHoursEnd: z.string(),
+  dailyDigestEnabled: z.boolean(),
+  dailyDigestTime: z.string(),
+  alwaysAddMeetingLink: z.boolean(),
+  timezone: z.string().nullable(),
   dateFormat: z.enum(["DD/MM/YYYY", "MM/DD/YYYY", "YYYY-MM-DD"]),
   timeFormat: z.enum(["12h", "24h"]),
 });
\ No newline at end of file
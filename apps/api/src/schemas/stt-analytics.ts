@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+// Input schemas for query parameters
+export const sttProviderStatsInputSchema = z.object({
+  days: z.number().min(1).max(365).default(30),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
@@ -25,6 +25,32 @@ export const whatsappMessageDocumentSchema = z.object({
   caption: z.string().optional(),
 });
 
+export const whatsappMessageLocationSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  name: z.string().optional(),
+  address: z.string().optional(),
+  url: z.string().optional(),
+});
+
+// A contact card shared from the phone's address book
+export const whatsappMessageContactSchema = z.object({
+  name: z.object({
+    formatted_name: z.string(),
+    first_name: z.string().optional(),
+    last_name: z.string().optional(),
+  }),
+  emails: z.array(z.object({
+    email: z.string().optional(),
+    type: z.string().optional(),
+  })).optional(),
+  phones: z.array(z.object({
+    phone: z.string().optional(),
+    wa_id: z.string().optional(),
+    type: z.string().optional(),
+  })).optional(),
+});
+
 export const whatsappInteractiveListReplySchema = z.object({
   id: z.string(),
   title: z.string(),
@@ -59,6 +85,8 @@ export const whatsappMessageSchema = z.object({
   voice: whatsappMessageAudioSchema.optional(),
   image: whatsappMessageImageSchema.optional(),
   document: whatsappMessageDocumentSchema.optional(),
+  contacts: z.array(whatsappMessageContactSchema).optional(),
+  location: whatsappMessageLocationSchema.optional(),
   interactive: whatsappInteractiveSchema.optional(),
 });
 
@@ -4,12 +4,15 @@ import { adminRouter } from "./admin";
 import { authRouter } from "./auth";
 import { billingRouter } from "./billing";
 import { calendarRouter } from "./calendar";
+import { contactsRouter } from "./contacts";
 import { invoicesRouter } from "./invoices";
 import { paymentsRouter } from "./payments";
 import { preferencesRouter } from "./preferences";
 import { userRouter } from "./user";
 import { devRouter } from "./dev";
 import { whatsappAnalyticsRouter } from "./whatsapp-analytics";
+import { sttAnalyticsRouter } from "./stt-analytics";
+import { intentFeedbackRouter } from "./intent-feedback";
 import { whatsappRouter } from "./whatsapp";
 import { voiceTestingRouter } from "./voice-testing";
 import { plansRouter } from "./plans";
@@ -20,11 +23,14 @@ export const appRouter = createTRPCRouter({
   user: userRouter,
   billing: billingRouter,
   calendar: calendarRouter,
+  contacts: contactsRouter,
   invoices: invoicesRouter,
   payments: paymentsRouter,
   preferences: preferencesRouter,
   whatsapp: whatsappRouter,
   whatsappAnalytics: whatsappAnalyticsRouter,
+  sttAnalytics: sttAnalyticsRouter,
+  intentFeedback: intentFeedbackRouter,
   voiceTesting: voiceTestingRouter,
   dev: devRouter,
   plans: plansRouter,
@@ -19,7 +19,24 @@ import {
   updatePlan,
   setPlanStatus,
   reorderPlans,
+  createRefundRequest,
+  getRefundRequestById,
+  getRefundRequests,
+  getRefundableAmount,
+  claimRefundRequestForProcessing,
+  rejectRefundRequest,
+  failRefundRequest,
+  completeRefundRequest,
+  markRefundPayoutUnrecorded,
+  markRefundPayoutUnknown,
+  markRefundNotPaidOut,
+  getCoupons,
+  getCouponByCode,
+  createCoupon,
+  updateCoupon,
+  setCouponActive,
 } from "@imaginecalendar/database/queries";
+import type { Database } from "@imaginecalendar/database/client";
 import { PayFastService } from "@imaginecalendar/payments";
 import { logger } from "@imaginecalendar/logger";
 
@@ -91,6 +108,15 @@ const payfastConfigSchema = z
     }
   });
 
+// Monthly limits; null means unlimited
+const planEntitlementsSchema = z.object({
+  voiceNotesPerMonth: z.number().int().min(0).nullable(),
+  audioMinutesPerMonth: z.number().int().min(0).nullable(),
+  calendarConnections: z.number().int().min(1).nullable(),
+  multiEvent: z.boolean(),
+  reminders: z.boolean(),
+});
+
 const planPayloadSchema = z.object({
   name: z.string().min(1).max(160).trim(),
   description: z.string().min(1).max(600).trim(),
@@ -103,6 +129,7 @@ const planPayloadSchema = z.object({
   sortOrder: z.number().int().min(0).optional(),
   metadata: z.record(z.string(), z.any()).nullable().optional(),
   payfastConfig: payfastConfigSchema,
+  entitlements: planEntitlementsSchema.optional(),
   features: z.array(planFeatureSchema).min(1).max(20),
 });
 
@@ -205,6 +232,7 @@ const adminPlansRouter = createTRPCRouter({
           sortOrder: input.sortOrder,
           metadata: input.metadata ?? null,
           payfastConfig: input.payfastConfig,
+          entitlements: input.entitlements,
           features: input.features.map((feature, index) => ({
             label: feature.label.trim(),
             position: feature.position ?? index,
@@ -249,6 +277,7 @@ const adminPlansRouter = createTRPCRouter({
           sortOrder: input.sortOrder,
           metadata: input.metadata ?? null,
           payfastConfig: input.payfastConfig,
+          entitlements: input.entitlements,
           features: input.features.map((feature, index) => ({
             label: feature.label.trim(),
             position: feature.position ?? index,
@@ -337,8 +366,199 @@ const adminPlansRouter = createTRPCRouter({
     }),
 });
 
+const couponCodeSchema = z
+  .string()
+  .trim()
+  .min(3)
+  .max(64)
+  .regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, dashes and underscores only");
+
+// What can still change once a coupon is out there
+const couponSettingsSchema = z.object({
+  description: z.string().trim().max(300).nullable().optional(),
+  maxRedemptions: z.number().int().min(1).nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  planIds: z.array(planIdSchema).min(1).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const createCouponInputSchema = couponSettingsSchema
+  .extend({
+    code: couponCodeSchema,
+    discountType: z.enum(["percent", "fixed"]),
+    percentOff: z.number().int().min(1).max(100).nullable().optional(),
+    amountOffCents: z.number().int().min(1).max(5_000_000_00).nullable().optional(),
+    duration: z.enum(["once", "repeating", "forever"]),
+    durationInCycles: z.number().int().min(1).max(120).nullable().optional(),
+  })
+  .superRefine((value, ctx) => {
+    if (value.discountType === "percent" && !value.percentOff) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["percentOff"],
+        message: "Percent off is required for percentage discounts",
+      });
+    }
+
+    if (value.discountType === "fixed" && !value.amountOffCents) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["amountOffCents"],
+        message: "Amount off is required for fixed discounts",
+      });
+    }
+
+    if (value.duration === "repeating" && !value.durationInCycles) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["durationInCycles"],
+        message: "Number of payments is required for repeating coupons",
+      });
+    }
+  });
+
+const updateCouponInputSchema = couponSettingsSchema.extend({
+  id: z.string().uuid(),
+});
+
+const adminCouponsRouter = createTRPCRouter({
+  list: adminProcedure.query(async ({ ctx }) => {
+    const { db, adminUser } = ctx;
+
+    try {
+      return await getCoupons(db);
+    } catch (error) {
+      logger.error(
+        { error, adminUserId: adminUser.id },
+        "Failed to list coupons"
+      );
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to fetch coupons",
+      });
+    }
+  }),
+  create: adminProcedure
+    .input(createCouponInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { db, adminUser } = ctx;
+
+      try {
+        const existing = await getCouponByCode(db, input.code);
+
+        if (existing) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "A coupon with this code already exists",
+          });
+        }
+
+        const coupon = await createCoupon(db, {
+          code: input.code,
+          description: input.description ?? null,
+          discountType: input.discountType,
+          percentOff: input.discountType === "percent" ? input.percentOff : null,
+          amountOffCents: input.discountType === "fixed" ? input.amountOffCents : null,
+          duration: input.duration,
+          durationInCycles: input.duration === "repeating" ? input.durationInCycles : null,
+          maxRedemptions: input.maxRedemptions ?? null,
+          expiresAt: input.expiresAt ?? null,
+          planIds: input.planIds ?? null,
+          isActive: input.isActive ?? true,
+          createdBy: adminUser.id,
+        });
+
+        logger.info(
+          {
+            adminUserId: adminUser.id,
+            couponId: coupon?.id,
+            code: coupon?.code,
+          },
+          "Coupon created"
+        );
+
+        return coupon;
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        logger.error(
+          { error, adminUserId: adminUser.id, input },
+          "Failed to create coupon"
+        );
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create coupon",
+        });
+      }
+    }),
+  update: adminProcedure
+    .input(updateCouponInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { db, adminUser } = ctx;
+      const { id, ...settings } = input;
+
+      try {
+        const coupon = await updateCoupon(db, id, settings);
+
+        logger.info(
+          {
+            adminUserId: adminUser.id,
+            couponId: id,
+          },
+          "Coupon updated"
+        );
+
+        return coupon;
+      } catch (error) {
+        logger.error(
+          { error, adminUserId: adminUser.id, input },
+          "Failed to update coupon"
+        );
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to update coupon",
+        });
+      }
+    }),
+  setActive: adminProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      isActive: z.boolean(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, adminUser } = ctx;
+
+      try {
+        const coupon = await setCouponActive(db, input.id, input.isActive);
+
+        logger.info(
+          {
+            adminUserId: adminUser.id,
+            couponId: input.id,
+            isActive: input.isActive,
+          },
+          "Coupon status updated"
+        );
+
+        return coupon;
+      } catch (error) {
+        logger.error(
+          { error, adminUserId: adminUser.id, input },
+          "Failed to update coupon status"
+        );
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to update coupon status",
+        });
+      }
+    }),
+});
+
 export const adminRouter = createTRPCRouter({
   plans: adminPlansRouter,
+  coupons: adminCouponsRouter,
   // Dashboard metrics
   getDashboardMetrics: adminProcedure.query(async ({ ctx }) => {
     const { db } = ctx;
@@ -560,13 +780,13 @@ export const adminRouter = createTRPCRouter({
       }
     }),
 
-  // Process refund
+  // Refund a payment directly; the request is approved by the admin who makes it
   refundPayment: adminProcedure
     .input(
       z.object({
         paymentId: z.string(),
-        amount: z.number().optional(), // Partial refund amount in cents
-        reason: z.string(),
+        amount: z.number().int().positive().optional(), // Partial refund amount in cents
+        reason: z.string().min(1).max(500),
       })
     )
     .mutation(async ({ input, ctx }) => {
@@ -583,48 +803,45 @@ export const adminRouter = createTRPCRouter({
           });
         }
 
-        if (payment.status !== "completed") {
+        if (payment.status !== "completed" && payment.status !== "partially_refunded") {
           throw new TRPCError({
             code: "BAD_REQUEST",
             message: "Only completed payments can be refunded",
           });
         }
 
-        const refundAmount = amount || payment.totalAmount;
+        const refundableAmount = await getRefundableAmount(db, paymentId);
+        const refundAmount = amount ?? refundableAmount;
 
-        if (refundAmount > payment.totalAmount) {
+        if (refundAmount <= 0 || refundAmount > refundableAmount) {
           throw new TRPCError({
             code: "BAD_REQUEST",
-            message: "Refund amount cannot exceed payment amount",
+            message: `Refund amount cannot exceed the R${(refundableAmount / 100).toFixed(2)} still refundable on this payment`,
           });
         }
 
-        // Process refund with PayFast (mock implementation for now)
-        // TODO: Implement actual PayFast refund API
-        const refundSuccess = true; // Mock success
+        const request = await createRefundRequest(db, {
+          paymentId,
+          userId: payment.userId,
+          amount: refundAmount,
+          reason,
+          requestedBy: adminUser.id,
+        });
 
-        if (!refundSuccess) {
+        if (!request || !(await claimRefundRequestForProcessing(db, request.id, adminUser.id))) {
           throw new TRPCError({
             code: "INTERNAL_SERVER_ERROR",
-            message: "Failed to process refund with payment provider",
+            message: "Failed to record refund",
           });
         }
 
-        logger.info(
-          {
-            adminUserId: adminUser.id,
-            paymentId,
-            userId: payment.userId,
-            refundAmount,
-            reason,
-          },
-          "Payment refund processed by admin"
-        );
+        const processed = await sendRefundToPayFast(db, request.id, payment, adminUser.id);
 
         return {
           success: true,
           refundAmount,
-          refundId: `refund_${Date.now()}`,
+          refundId: processed.id,
+          creditNoteNumber: processed.creditNoteNumber,
         };
       } catch (error) {
         logger.error(
@@ -635,6 +852,183 @@ export const adminRouter = createTRPCRouter({
       }
     }),
 
+  // Refund requests awaiting review, or filtered by status
+  getRefundRequests: adminProcedure
+    .input(
+      z.object({
+        status: z.enum(["requested", "approved", "payout_unknown", "payout_unrecorded", "processed", "rejected"]).optional(),
+        page: z.number().min(1).default(1),
+        limit: z.number().min(1).max(100).default(50),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const { db } = ctx;
+
+      try {
+        return await getRefundRequests(db, {
+          status: input.status,
+          limit: input.limit,
+          offset: (input.page - 1) * input.limit,
+        });
+      } catch (error) {
+        logger.error({ error, input }, "Failed to fetch refund requests");
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch refund requests",
+        });
+      }
+    }),
+
+  // Approve a refund request and pay it out; also retries an approved refund PayFast declined,
+  // or the recording of one PayFast paid out that we failed to record
+  approveRefundRequest: adminProcedure
+    .input(z.object({ requestId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const { db, adminUser } = ctx;
+      const { requestId } = input;
+
+      try {
+        const request = await getRefundRequestById(db, requestId);
+
+        if (!request) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Refund request not found",
+          });
+        }
+
+        // Already paid out, so only record it; sending it to PayFast again would refund twice
+        if (request.status === "payout_unrecorded") {
+          const processed = await recordRefundPayout(db, requestId, request.payment, adminUser.id);
+
+          return {
+            success: true,
+            refundAmount: processed.amount,
+            creditNoteNumber: processed.creditNoteNumber,
+          };
+        }
+
+        // PayFast may have paid it out, so it has to be checked before it can be sent again
+        if (request.status === "payout_unknown") {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "PayFast never confirmed this refund. Check the PayFast dashboard and mark it as paid out or not paid out first.",
+          });
+        }
+
+        if (request.amount > request.payment.totalAmount - (request.payment.refundAmount ?? 0)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "This payment has already been refunded",
+          });
+        }
+
+        const claimed = await claimRefundRequestForProcessing(db, requestId, adminUser.id);
+
+        if (!claimed) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `This refund request is already ${request.status === "approved" ? "being processed" : request.status}`,
+          });
+        }
+
+        const processed = await sendRefundToPayFast(db, requestId, request.payment, adminUser.id);
+
+        return {
+          success: true,
+          refundAmount: processed.amount,
+          creditNoteNumber: processed.creditNoteNumber,
+        };
+      } catch (error) {
+        logger.error(
+          { error, adminUserId: adminUser.id, requestId },
+          "Failed to approve refund request"
+        );
+        throw error;
+      }
+    }),
+
+  // Settle a refund PayFast gave no answer for, after checking the PayFast dashboard: record it if it
+  // was paid out, otherwise release it so it can be retried
+  resolveUnconfirmedRefund: adminProcedure
+    .input(
+      z.object({
+        requestId: z.string(),
+        paidOut: z.boolean(),
+        payfastRefundId: z.string().trim().min(1).max(100).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { db, adminUser } = ctx;
+      const { requestId, paidOut, payfastRefundId } = input;
+
+      const request = await getRefundRequestById(db, requestId);
+
+      if (!request || request.status !== "payout_unknown") {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Only refunds PayFast never confirmed can be settled this way",
+        });
+      }
+
+      if (paidOut) {
+        const processed = await recordRefundPayout(db, requestId, request.payment, adminUser.id, payfastRefundId);
+
+        return {
+          success: true,
+          paidOut,
+          creditNoteNumber: processed.creditNoteNumber,
+        };
+      }
+
+      const released = await markRefundNotPaidOut(db, requestId, "Not paid out by PayFast");
+
+      if (!released) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "This refund was settled by another admin",
+        });
+      }
+
+      logger.info(
+        { adminUserId: adminUser.id, requestId, paymentId: released.paymentId },
+        "Unconfirmed refund marked as not paid out by admin"
+      );
+
+      return { success: true, paidOut, creditNoteNumber: null };
+    }),
+
+  rejectRefundRequest: adminProcedure
+    .input(
+      z.object({
+        requestId: z.string(),
+        reason: z.string().min(1).max(500),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { db, adminUser } = ctx;
+      const { requestId, reason } = input;
+
+      const rejected = await rejectRefundRequest(db, requestId, {
+        reviewedBy: adminUser.id,
+        rejectionReason: reason,
+      });
+
+      if (!rejected) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Only refund requests awaiting review can be rejected",
+        });
+      }
+
+      logger.info(
+        { adminUserId: adminUser.id, requestId, paymentId: rejected.paymentId, reason },
+        "Refund request rejected by admin"
+      );
+
+      return { success: true };
+    }),
+
   // Export users data
   exportUsers: adminProcedure
     .input(
@@ -766,4 +1160,103 @@ export const adminRouter = createTRPCRouter({
     }),
 });
 
+/**
+ * Pay out an approved refund through PayFast. A declined refund stays approved with the reason, so it can be retried.
+ */
+async function sendRefundToPayFast(
+  db: Database,
+  requestId: string,
+  payment: { id: string; userId: string; payfastPaymentId: string | null },
+  adminUserId: string
+) {
+  const request = await getRefundRequestById(db, requestId);
+
+  if (!request) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Refund request not found",
+    });
+  }
+
+  if (!payment.payfastPaymentId) {
+    await failRefundRequest(db, requestId, "Payment has no PayFast reference");
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "This payment has no PayFast reference, so it can only be refunded from the PayFast dashboard",
+    });
+  }
+
+  const payfast = new PayFastService();
+  const result = await payfast.refundPayment(payment.payfastPaymentId, {
+    amountCents: request.amount,
+    reason: request.reason,
+  });
+
+  // Without an answer the refund may have gone through, so it is held until someone checks PayFast
+  if (!result.success && result.outcomeUnknown) {
+    await markRefundPayoutUnknown(db, requestId, result.error ?? "No answer from PayFast");
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "PayFast did not confirm the refund. Check the PayFast dashboard before retrying so it isn't paid out twice.",
+    });
+  }
+
+  if (!result.success) {
+    await failRefundRequest(db, requestId, result.error ?? "Refund declined by PayFast");
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `PayFast could not process the refund: ${result.error ?? "unknown error"}`,
+    });
+  }
+
+  return recordRefundPayout(db, requestId, payment, adminUserId, result.refundId);
+}
+
+/**
+ * Record a refund PayFast paid out. If that fails the request is kept as payout_unrecorded with
+ * PayFast's refund ID, so recording can be retried without paying out again.
+ */
+async function recordRefundPayout(
+  db: Database,
+  requestId: string,
+  payment: { id: string; userId: string },
+  adminUserId: string,
+  payfastRefundId?: string
+) {
+  let processed: Awaited<ReturnType<typeof completeRefundRequest>>;
+
+  try {
+    processed = await completeRefundRequest(db, requestId, { payfastRefundId });
+  } catch (error) {
+    logger.error({ error, requestId, paymentId: payment.id, payfastRefundId }, "Failed to record refund paid out by PayFast");
+    processed = undefined;
+  }
+
+  if (!processed) {
+    await markRefundPayoutUnrecorded(db, requestId, {
+      payfastRefundId,
+      failureReason: "Paid out by PayFast but not recorded",
+    });
+
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Refund was paid out by PayFast but could not be recorded. Retry to record it.",
+    });
+  }
+
+  logger.info(
+    {
+      adminUserId,
+      requestId,
+      paymentId: payment.id,
+      userId: payment.userId,
+      refundAmount: processed.amount,
+      creditNoteNumber: processed.creditNoteNumber,
+    },
+    "Payment refund processed by admin"
+  );
+
+  return processed;
+}
+
 export type AdminRouter = typeof adminRouter;
\ No newline at end of file
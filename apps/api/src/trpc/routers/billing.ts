@@ -1,4 +1,10 @@
-import { createSubscriptionSchema, updateSubscriptionSchema, updateSubscriptionResponseSchema } from "@api/schemas/billing";
+import {
+  createSubscriptionSchema,
+  previewCouponSchema,
+  previewPlanChangeSchema,
+  updateSubscriptionSchema,
+  updateSubscriptionResponseSchema,
+} from "@api/schemas/billing";
 import { createTRPCRouter, protectedProcedure } from "@api/trpc/init";
 import {
   getUserSubscription,
@@ -7,9 +13,20 @@ import {
   cancelSubscription,
   reactivateSubscription,
   getPlanById,
+  getPlans,
+  getUserUsage,
+  createPayment,
+  updatePaymentStatus,
+  getPaymentByMPaymentId,
+  completePlanChange,
+  logActivity,
+  validateCoupon,
+  endCouponRedemptions,
+  getUserCouponRedemptions,
 } from "@imaginecalendar/database/queries";
 import type { PlanRecord } from "@imaginecalendar/database/queries";
-import { PayFastService } from "@imaginecalendar/payments";
+import type { Database } from "@imaginecalendar/database/client";
+import { PayFastService, calculateCouponDiscount, calculateProration, describeCoupon } from "@imaginecalendar/payments";
 import { logger } from "@imaginecalendar/logger";
 import { TRPCError } from "@trpc/server";
 
@@ -59,11 +76,206 @@ function isTrialPlan(plan: PlanRecord) {
   return !plan.payfastConfig.recurring && plan.trialDays > 0;
 }
 
+type SubscriptionRecord = NonNullable<Awaited<ReturnType<typeof getUserSubscription>>>;
+
+// PayFast expects run dates as YYYY-MM-DD
+function toRunDate(date: Date) {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Load and check both plans of a requested change
+ */
+async function getPlanChange(db: Database, subscription: SubscriptionRecord, planId: string) {
+  const normalizedPlanId = planId.trim().toLowerCase();
+
+  if (subscription.plan === normalizedPlanId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "You already have this plan",
+    });
+  }
+
+  const [currentPlanRecord, newPlanRecord] = await Promise.all([
+    getPlanById(db, subscription.plan),
+    getPlanById(db, normalizedPlanId),
+  ]);
+
+  if (!newPlanRecord || newPlanRecord.status !== "active") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Invalid plan",
+    });
+  }
+
+  if (!currentPlanRecord) {
+    logger.error({
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      planId: subscription.plan,
+    }, "Current subscription plan not found in database");
+
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Unable to load current subscription plan",
+    });
+  }
+
+  if (isTrialPlan(newPlanRecord)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Cannot switch to a trial plan",
+    });
+  }
+
+  return { currentPlanRecord, newPlanRecord };
+}
+
+/**
+ * Coupon discounts on the current plan: what came off the period already paid for, and what comes
+ * off the next renewal. A redemption that ran out on the renewal starting this period still
+ * discounted it; one ended early by a plan change did not.
+ */
+async function getCouponDiscounts(db: Database, subscription: SubscriptionRecord) {
+  const redemptions = await getUserCouponRedemptions(db, subscription.userId, subscription.plan);
+  const active = redemptions.find((redemption) => redemption.status === "active");
+  const lastDiscounted = active ?? redemptions.find((redemption) =>
+    redemption.chargesRemaining === 0 && redemption.updatedAt >= subscription.currentPeriodStart
+  );
+
+  return {
+    periodDiscountCents: lastDiscounted?.discountCents ?? 0,
+    renewalDiscountCents: active?.discountCents ?? 0,
+  };
+}
+
+/**
+ * Credit and charge for moving a paid subscription to another paid plan today. The credit is for what
+ * was actually paid for the current period, so less any coupon discount on it.
+ */
+function prorate(
+  subscription: SubscriptionRecord,
+  currentPlanRecord: PlanRecord,
+  newPlanRecord: PlanRecord,
+  periodDiscountCents = 0
+) {
+  const currentFrequency = currentPlanRecord.payfastConfig.frequency;
+  const newFrequency = newPlanRecord.payfastConfig.frequency;
+
+  if (!currentPlanRecord.payfastConfig.recurring || !newPlanRecord.payfastConfig.recurring || !currentFrequency || !newFrequency) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Plan change requires recurring billing information",
+    });
+  }
+
+  if (subscription.status !== "active") {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "Please settle your outstanding payment before changing plans",
+    });
+  }
+
+  return calculateProration({
+    currentPlan: {
+      ...currentPlanRecord,
+      amountCents: Math.max(0, currentPlanRecord.amountCents - periodDiscountCents),
+      frequency: currentFrequency,
+    },
+    newPlan: { ...newPlanRecord, frequency: newFrequency },
+    periodStart: subscription.currentPeriodStart,
+    periodEnd: subscription.currentPeriodEnd,
+    creditBalanceCents: subscription.creditBalanceCents,
+  });
+}
+
 export const billingRouter = createTRPCRouter({
   getSubscription: protectedProcedure.query(async ({ ctx: { db, session } }) => {
     return getUserSubscription(db, session.user.id);
   }),
 
+  // This month's usage against the plan's limits, for the billing page meter
+  getUsage: protectedProcedure.query(async ({ ctx: { db, session } }) => {
+    return getUserUsage(db, session.user.id);
+  }),
+
+  // What a plan change would cost today, with the credit for unused time, before the user confirms it
+  previewPlanChange: protectedProcedure
+    .input(previewPlanChangeSchema)
+    .query(async ({ ctx: { db, session }, input }) => {
+      const subscription = await getUserSubscription(db, session.user.id);
+
+      if (!subscription) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "No subscription found",
+        });
+      }
+
+      const { currentPlanRecord, newPlanRecord } = await getPlanChange(db, subscription, input.plan);
+
+      // Trial users pay the full price at checkout
+      if (isTrialPlan(currentPlanRecord)) {
+        return {
+          type: "requiresPayment" as const,
+          plan: newPlanRecord.id,
+          planName: newPlanRecord.name,
+          amountDueCents: newPlanRecord.amountCents,
+        };
+      }
+
+      const { periodDiscountCents } = await getCouponDiscounts(db, subscription);
+
+      return {
+        type: "proration" as const,
+        currentPlanName: currentPlanRecord.name,
+        newPlanName: newPlanRecord.name,
+        ...prorate(subscription, currentPlanRecord, newPlanRecord, periodDiscountCents),
+      };
+    }),
+
+  // What a promo code takes off each plan it can be used on, before the user checks out with it
+  previewCoupon: protectedProcedure
+    .input(previewCouponSchema)
+    .query(async ({ ctx: { db, session }, input }) => {
+      const plans = await getPlans(db, { status: "active" });
+      const validations = await Promise.all(
+        plans.map(async (plan) => ({
+          plan,
+          validation: await validateCoupon(db, { code: input.code, planId: plan.id, userId: session.user.id }),
+        }))
+      );
+
+      const discounts = validations.flatMap(({ plan, validation }) => {
+        if (!validation.valid) {
+          return [];
+        }
+
+        const discountCents = calculateCouponDiscount(plan.amountCents, validation.coupon);
+
+        return discountCents > 0
+          ? [{ planId: plan.id, discountCents, amountDueCents: plan.amountCents - discountCents }]
+          : [];
+      });
+
+      const coupon = validations.find(({ validation }) => validation.valid)?.validation;
+
+      if (!coupon?.valid || discounts.length === 0) {
+        const rejection = validations.find(({ validation }) => !validation.valid)?.validation;
+
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: rejection && !rejection.valid ? rejection.message : "That promo code isn't valid",
+        });
+      }
+
+      return {
+        code: coupon.coupon.code,
+        description: describeCoupon(coupon.coupon),
+        discounts,
+      };
+    }),
+
   createSubscription: protectedProcedure
     .input(createSubscriptionSchema)
     .mutation(async ({ ctx: { db, session }, input }) => {
@@ -131,42 +343,8 @@ export const billingRouter = createTRPCRouter({
       }
 
       if (input.plan) {
-        const normalizedPlanId = input.plan.trim().toLowerCase();
-
-        if (subscription.plan === normalizedPlanId) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "You already have this plan",
-          });
-        }
-
-        const [currentPlanRecord, newPlanRecord] = await Promise.all([
-          getPlanById(db, subscription.plan),
-          getPlanById(db, normalizedPlanId),
-        ]);
-
-        if (!newPlanRecord || newPlanRecord.status !== "active") {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Invalid plan",
-          });
-        }
-
-        if (!currentPlanRecord) {
-          logger.error({
-            userId: session.user.id,
-            subscriptionId: subscription.id,
-            planId: subscription.plan,
-          }, "Current subscription plan not found in database");
-
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Unable to load current subscription plan",
-          });
-        }
-
+        const { currentPlanRecord, newPlanRecord } = await getPlanChange(db, subscription, input.plan);
         const currentPlanIsTrial = isTrialPlan(currentPlanRecord);
-        const newPlanIsTrial = isTrialPlan(newPlanRecord);
 
         logger.info({
           userId: session.user.id,
@@ -175,16 +353,8 @@ export const billingRouter = createTRPCRouter({
           newPlan: newPlanRecord.id,
           hasPayfastToken: !!subscription.payfastToken,
           currentPlanIsTrial,
-          newPlanIsTrial,
         }, 'Processing plan change request');
 
-        if (newPlanIsTrial) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Cannot switch to a trial plan",
-          });
-        }
-
         // Trial → Paid: Redirect to PayFast for new subscription creation
         if (currentPlanIsTrial) {
           logger.info({
@@ -207,127 +377,178 @@ export const billingRouter = createTRPCRouter({
           });
         }
 
+        const { periodDiscountCents, renewalDiscountCents } = await getCouponDiscounts(db, subscription);
+        const proration = prorate(subscription, currentPlanRecord, newPlanRecord, periodDiscountCents);
         const payfast = new PayFastService();
+        const payfastToken = subscription.payfastToken;
 
-        const currentFrequency = currentPlanRecord.payfastConfig.frequency;
-        const newFrequency = newPlanRecord.payfastConfig.frequency;
+        logger.info({
+          userId: session.user.id,
+          unusedCredit: proration.unusedCreditCents,
+          newPlanCharge: proration.newPlanChargeCents,
+          amountDue: proration.amountDueCents,
+          creditCarried: proration.creditCarriedCents,
+          nextBillingDate: proration.nextBillingDate,
+        }, 'Calculated prorated plan change');
+
+        const mPaymentId = `plan-change-${subscription.id}-${Date.now()}`;
+
+        // Invoice the change, including ones where only credit moved, so the line items explain it.
+        // It's written before PayFast is touched, so a charge always has a payment to settle.
+        const pendingPayment = await createPayment(db, {
+          userId: session.user.id,
+          subscriptionId: subscription.id,
+          amount: proration.amountDueCents,
+          currency: "ZAR",
+          status: "pending",
+          description: `Plan change from ${currentPlanRecord.name} to ${newPlanRecord.name}`,
+          billingPeriodStart: proration.periodStart,
+          billingPeriodEnd: proration.periodEnd,
+          payfastMPaymentId: mPaymentId,
+          lineItems: proration.lineItems,
+        });
 
-        if (!currentPlanRecord.payfastConfig.recurring || !newPlanRecord.payfastConfig.recurring || !currentFrequency || !newFrequency) {
+        if (!pendingPayment) {
           throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Plan change requires recurring billing information",
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to update subscription",
           });
         }
 
-        // Apply billing rules based on plan change type
-        if (currentFrequency === 3 && newFrequency === 6) {
-          // Monthly → Annual: Immediate upgrade with credit calculation
-          const daysIntoMonth = Math.floor(
-            (new Date().getTime() - subscription.currentPeriodStart.getTime()) / (1000 * 60 * 60 * 24)
-          );
-          const daysRemainingInMonth = Math.max(0, 30 - daysIntoMonth);
-          const currentPlanPrice = currentPlanRecord.amountCents / 100;
-          const newPlanPrice = newPlanRecord.amountCents / 100;
-          const unusedCredit = (currentPlanPrice / 30) * daysRemainingInMonth;
-          const chargeAmount = newPlanPrice - unusedCredit;
+        // Move the renewal first, so nothing is charged if PayFast won't take the new plan
+        const scheduleUpdated = await payfast.updateSubscription(payfastToken, {
+          amount: proration.nextChargeCents,
+          frequency: newPlanRecord.payfastConfig.frequency ?? undefined,
+          run_date: toRunDate(proration.nextBillingDate),
+        });
 
-          logger.info({
+        if (!scheduleUpdated) {
+          await updatePaymentStatus(db, pendingPayment.id, "failed", { failedAt: new Date() });
+
+          logger.error({
             userId: session.user.id,
-            daysIntoMonth,
-            daysRemainingInMonth,
-            unusedCredit,
-            chargeAmount
-          }, 'Calculating prorated upgrade charge');
-
-          // Set next run date to tomorrow for immediate billing of prorated amount
-          const nextRunDate = new Date();
-          nextRunDate.setDate(nextRunDate.getDate() + 1);
-
-          const updateSuccess = await payfast.updateSubscription(subscription.payfastToken, {
-            amount: newPlanRecord.amountCents,
-            frequency: newFrequency,
-            // run_date: nextRunDate.toISOString().split('T')[0] // Commented out to test immediate billing
+            payfastToken
+          }, 'Failed to update subscription via PayFast API');
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to update subscription with payment provider",
+          });
+        }
+
+        let pfPaymentId: string | undefined;
+
+        if (proration.amountDueCents > 0) {
+          const charge = await payfast.chargeAdhoc(payfastToken, {
+            amountCents: proration.amountDueCents,
+            itemName: `Change to ${newPlanRecord.name}`,
+            mPaymentId,
           });
 
-          if (!updateSuccess) {
+          if (!charge.success) {
+            // Put the renewal back the way it was, coupon discount included
+            const restored = await payfast.updateSubscription(payfastToken, {
+              amount: currentPlanRecord.amountCents - renewalDiscountCents - subscription.creditBalanceCents,
+              frequency: currentPlanRecord.payfastConfig.frequency ?? undefined,
+              run_date: toRunDate(subscription.currentPeriodEnd),
+            });
+
+            await updatePaymentStatus(db, pendingPayment.id, "failed", { failedAt: new Date() });
+
             logger.error({
               userId: session.user.id,
-              payfastToken: subscription.payfastToken
-            }, 'Failed to update subscription via PayFast API');
+              error: charge.error,
+              scheduleRestored: restored,
+            }, 'Plan change charge failed');
 
             throw new TRPCError({
-              code: "INTERNAL_SERVER_ERROR",
-              message: "Failed to update subscription with payment provider",
+              code: "BAD_REQUEST",
+              message: "Your card could not be charged for the plan change. Please update your card and try again.",
             });
           }
 
-          // Update local subscription record - new annual cycle starts immediately
-        const now = new Date();
-        const annualPeriodEnd = new Date();
-        annualPeriodEnd.setFullYear(annualPeriodEnd.getFullYear() + 1);
+          pfPaymentId = charge.pfPaymentId;
+        }
 
-        const updatedSubscription = await updateSubscription(db, subscription.id, {
+        const planChange = {
+          mPaymentId,
+          payfastPaymentId: pfPaymentId,
+          subscriptionId: subscription.id,
           plan: newPlanRecord.id,
-            currentPeriodStart: now,
-            currentPeriodEnd: annualPeriodEnd,
-          });
-
-          if (!updatedSubscription) {
-            throw new TRPCError({
-              code: "INTERNAL_SERVER_ERROR",
-              message: "Failed to update subscription",
-            });
-          }
+          currentPeriodStart: proration.periodStart,
+          currentPeriodEnd: proration.nextBillingDate,
+          creditBalanceCents: newPlanRecord.amountCents - proration.nextChargeCents,
+        };
 
-          logger.info({
-            userId: session.user.id,
-            subscriptionId: subscription.id,
-            oldPlan: subscription.plan,
-            newPlan: newPlanRecord.id,
-            newPeriodEnd: annualPeriodEnd
-          }, 'Monthly to annual upgrade completed successfully');
+        let completed: Awaited<ReturnType<typeof completePlanChange>> | undefined;
 
-          return {
-            type: "success" as const,
-            subscription: updatedSubscription
-          };
+        try {
+          completed = await completePlanChange(db, planChange);
+        } catch (error) {
+          logger.error({ error, userId: session.user.id, mPaymentId }, 'Failed to record plan change, reconciling');
         }
-        else if (currentFrequency === 6 && newFrequency === 3) {
-          // Annual → Monthly: Scheduled downgrade - no immediate PayFast changes
-          logger.info({
-            userId: session.user.id,
-            currentPeriodEnd: subscription.currentPeriodEnd
-          }, 'Scheduling downgrade to monthly at period end');
 
-          // Just set flag to change plan at period end - no PayFast API call needed
-          const updatedSubscription = await updateSubscription(db, subscription.id, {
-            cancelAtPeriodEnd: true,
-          });
+        // PayFast has been paid, so settle by the charge's m_payment_id: finish the change if it's still
+        // pending, or pick up the result if it was recorded before the error
+        if (!completed) {
+          const payment = await getPaymentByMPaymentId(db, mPaymentId);
 
-          if (!updatedSubscription) {
-            throw new TRPCError({
-              code: "INTERNAL_SERVER_ERROR",
-              message: "Failed to update subscription",
-            });
+          if (payment?.status === "pending") {
+            completed = await completePlanChange(db, planChange).catch(() => undefined);
+          } else if (payment?.status === "completed") {
+            const current = await getUserSubscription(db, session.user.id);
+            completed = current ? { payment, subscription: current } : undefined;
           }
+        }
 
-          logger.info({
+        if (!completed) {
+          logger.error({
             userId: session.user.id,
             subscriptionId: subscription.id,
-            scheduledChangeDate: subscription.currentPeriodEnd
-          }, 'Annual to monthly downgrade scheduled successfully');
+            mPaymentId,
+            pfPaymentId,
+          }, 'Plan change charged but not recorded');
 
-          return {
-            type: "success" as const,
-            subscription: updatedSubscription
-          };
-        }
-        else {
           throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Invalid plan change combination",
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Your payment went through but the plan change couldn't be saved. Please contact support, quoting ${mPaymentId}.`,
           });
         }
+
+        const { payment, subscription: updatedSubscription } = completed;
+
+        // Coupons were for the old plan; the schedule above already charges the new plan in full
+        await endCouponRedemptions(db, session.user.id);
+
+        await logActivity(db, {
+          userId: session.user.id,
+          action: proration.newPlanChargeCents >= proration.unusedCreditCents
+            ? "subscription.upgraded"
+            : "subscription.downgraded",
+          entityType: "subscription",
+          entityId: subscription.id,
+          metadata: {
+            from: currentPlanRecord.id,
+            to: newPlanRecord.id,
+            amountDueCents: proration.amountDueCents,
+            creditCarriedCents: proration.creditCarriedCents,
+            paymentId: payment.id,
+          },
+        });
+
+        logger.info({
+          userId: session.user.id,
+          subscriptionId: subscription.id,
+          oldPlan: subscription.plan,
+          newPlan: newPlanRecord.id,
+          paymentId: payment.id,
+          nextBillingDate: proration.nextBillingDate,
+        }, 'Plan change completed successfully');
+
+        return {
+          type: "success" as const,
+          subscription: updatedSubscription
+        };
       }
 
       return {
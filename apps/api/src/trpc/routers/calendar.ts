@@ -1,4 +1,10 @@
-import { connectCalendarSchema, updateCalendarSchema } from "@api/schemas/calendar";
+import {
+  addRoutingRuleSchema,
+  connectCalendarSchema,
+  removeRoutingRuleSchema,
+  setDefaultCalendarSchema,
+  updateCalendarSchema,
+} from "@api/schemas/calendar";
 import { createTRPCRouter, protectedProcedure } from "@api/trpc/init";
 import {
   getUserCalendars,
@@ -7,6 +13,13 @@ import {
   updateCalendarConnection,
   deleteCalendarConnection,
   setPrimaryCalendar,
+  getUserPreferences,
+  setDefaultCalendar,
+  getCalendarRoutingRules,
+  upsertCalendarRoutingRule,
+  deleteCalendarRoutingRule,
+  getActiveCalendars,
+  getUserEntitlements,
 } from "@imaginecalendar/database/queries";
 import { createCalendarProvider } from "@imaginecalendar/calendar-integrations";
 import { logger } from "@imaginecalendar/logger";
@@ -36,6 +49,18 @@ export const calendarRouter = createTRPCRouter({
   connect: protectedProcedure
     .input(connectCalendarSchema)
     .mutation(async ({ ctx: { db, session }, input }) => {
+      const [{ entitlements }, activeCalendars] = await Promise.all([
+        getUserEntitlements(db, session.user.id),
+        getActiveCalendars(db, session.user.id),
+      ]);
+
+      if (entitlements.calendarConnections !== null && activeCalendars.length >= entitlements.calendarConnections) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `Your plan includes ${entitlements.calendarConnections} connected calendar${entitlements.calendarConnections === 1 ? "" : "s"}. Upgrade your plan or disconnect a calendar to add another.`,
+        });
+      }
+
       try {
         logger.info({ 
           userId: session.user.id, 
@@ -156,6 +181,10 @@ export const calendarRouter = createTRPCRouter({
         updateData.isActive = input.syncEnabled;
       }
 
+      if (input.label !== undefined) {
+        updateData.label = input.label || null;
+      }
+
       // Note: color is not in our schema, would need to add if needed
       // isPrimary is handled separately above
 
@@ -174,9 +203,78 @@ export const calendarRouter = createTRPCRouter({
         });
       }
 
+      // Don't leave the default pointing at a calendar that no longer exists
+      const preferences = await getUserPreferences(db, session.user.id);
+      if (preferences?.defaultCalendarId === input.id) {
+        await setDefaultCalendar(db, session.user.id, null);
+      }
+
       return deleteCalendarConnection(db, input.id);
     }),
 
+  routing: protectedProcedure.query(async ({ ctx: { db, session } }) => {
+    const [preferences, rules] = await Promise.all([
+      getUserPreferences(db, session.user.id),
+      getCalendarRoutingRules(db, session.user.id),
+    ]);
+
+    return {
+      defaultCalendarId: preferences?.defaultCalendarId ?? null,
+      rules,
+    };
+  }),
+
+  setDefault: protectedProcedure
+    .input(setDefaultCalendarSchema)
+    .mutation(async ({ ctx: { db, session }, input }) => {
+      if (input.id) {
+        const calendar = await getCalendarById(db, input.id);
+
+        if (!calendar || calendar.userId !== session.user.id) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Calendar not found",
+          });
+        }
+      }
+
+      return setDefaultCalendar(db, session.user.id, input.id);
+    }),
+
+  addRoutingRule: protectedProcedure
+    .input(addRoutingRuleSchema)
+    .mutation(async ({ ctx: { db, session }, input }) => {
+      const calendar = await getCalendarById(db, input.calendarId);
+
+      if (!calendar || calendar.userId !== session.user.id) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Calendar not found",
+        });
+      }
+
+      return upsertCalendarRoutingRule(db, {
+        userId: session.user.id,
+        calendarConnectionId: input.calendarId,
+        keyword: input.keyword,
+      });
+    }),
+
+  removeRoutingRule: protectedProcedure
+    .input(removeRoutingRuleSchema)
+    .mutation(async ({ ctx: { db, session }, input }) => {
+      const deleted = await deleteCalendarRoutingRule(db, session.user.id, input.id);
+
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Routing rule not found",
+        });
+      }
+
+      return deleted;
+    }),
+
   testConnection: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx: { db, session }, input }) => {
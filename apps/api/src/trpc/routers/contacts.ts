@@ -0,0 +1,318 @@
+import {
+  addContactAliasSchema,
+  allowContactWriteSchema,
+  removeContactAliasSchema,
+  removeSavedContactSchema,
+  savedContactSchema,
+  updateSavedContactSchema,
+  writeBackSavedContactSchema,
+} from "@api/schemas/contacts";
+import { createTRPCRouter, protectedProcedure } from "@api/trpc/init";
+import type { Database } from "@imaginecalendar/database/client";
+import {
+  getCalendarById,
+  getContactAliases,
+  getContactDirectory,
+  getPersonalContactById,
+  getPersonalContacts,
+  getUserCalendars,
+  savePersonalContact,
+  setPersonalContactWriteBack,
+  updateCalendarConnection,
+  updatePersonalContact,
+  upsertContactAlias,
+  deleteContactAlias,
+  deletePersonalContact,
+} from "@imaginecalendar/database/queries";
+import { createCalendarProvider } from "@imaginecalendar/calendar-integrations";
+import type { CalendarProvider, OAuthTokens } from "@imaginecalendar/calendar-integrations";
+import { logger } from "@imaginecalendar/logger";
+import { TRPCError } from "@trpc/server";
+
+export const contactsRouter = createTRPCRouter({
+  // Synced contacts, used to pick who an alias points at
+  list: protectedProcedure.query(async ({ ctx: { db, session } }) => {
+    const contacts = await getContactDirectory(db, session.user.id);
+
+    return contacts.map((contact) => ({
+      id: contact.id,
+      name: contact.name,
+      email: contact.email,
+      meetingCount: contact.meetingCount,
+    }));
+  }),
+
+  aliases: protectedProcedure.query(async ({ ctx: { db, session } }) => {
+    return getContactAliases(db, session.user.id);
+  }),
+
+  addAlias: protectedProcedure
+    .input(addContactAliasSchema)
+    .mutation(async ({ ctx: { db, session }, input }) => {
+      return upsertContactAlias(db, {
+        userId: session.user.id,
+        alias: input.alias,
+        email: input.email,
+        name: input.name ?? null,
+      });
+    }),
+
+  removeAlias: protectedProcedure
+    .input(removeContactAliasSchema)
+    .mutation(async ({ ctx: { db, session }, input }) => {
+      const deleted = await deleteContactAlias(db, session.user.id, input.id);
+
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Alias not found",
+        });
+      }
+
+      return deleted;
+    }),
+
+  // Contacts the user saved themselves, from WhatsApp or this page
+  saved: protectedProcedure.query(async ({ ctx: { db, session } }) => {
+    const contacts = await getPersonalContacts(db, session.user.id);
+
+    return contacts.map((contact) => ({
+      id: contact.id,
+      name: contact.name,
+      email: contact.email,
+      source: contact.source,
+      createdAt: contact.createdAt,
+      writtenBackTo: contact.calendarConnection && contact.providerContactId
+        ? {
+            calendarConnectionId: contact.calendarConnection.id,
+            provider: contact.calendarConnection.provider,
+            email: contact.calendarConnection.email,
+          }
+        : null,
+    }));
+  }),
+
+  addSaved: protectedProcedure
+    .input(savedContactSchema)
+    .mutation(async ({ ctx: { db, session }, input }) => {
+      return savePersonalContact(db, {
+        userId: session.user.id,
+        name: input.name,
+        email: input.email,
+        source: "manual",
+      });
+    }),
+
+  updateSaved: protectedProcedure
+    .input(updateSavedContactSchema)
+    .mutation(async ({ ctx: { db, session }, input }) => {
+      const contact = await getPersonalContactById(db, session.user.id, input.id);
+
+      if (!contact) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Contact not found",
+        });
+      }
+
+      // Keep the provider copy in step; if that fails nothing is changed here either
+      if (contact.calendarConnectionId && contact.providerContactId) {
+        const providerContactId = contact.providerContactId;
+
+        await withContactProvider(db, session.user.id, contact.calendarConnectionId, (provider, accessToken) =>
+          provider.updateContact(accessToken, providerContactId, { name: input.name, email: input.email }, contact.email)
+        );
+      }
+
+      try {
+        return await updatePersonalContact(db, session.user.id, input.id, {
+          name: input.name,
+          email: input.email,
+        });
+      } catch (error: any) {
+        if (error.code === "23505") {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "You already saved a contact with this email",
+          });
+        }
+
+        throw error;
+      }
+    }),
+
+  // Removes the contact here only; a copy saved to Google or Outlook stays there
+  removeSaved: protectedProcedure
+    .input(removeSavedContactSchema)
+    .mutation(async ({ ctx: { db, session }, input }) => {
+      const deleted = await deletePersonalContact(db, session.user.id, input.id);
+
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Contact not found",
+        });
+      }
+
+      return deleted;
+    }),
+
+  writeBack: protectedProcedure
+    .input(writeBackSavedContactSchema)
+    .mutation(async ({ ctx: { db, session }, input }) => {
+      const contact = await getPersonalContactById(db, session.user.id, input.id);
+
+      if (!contact) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Contact not found",
+        });
+      }
+
+      if (contact.providerContactId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Contact has already been saved to your account",
+        });
+      }
+
+      const created = await withContactProvider(db, session.user.id, input.calendarConnectionId, (provider, accessToken) =>
+        provider.createContact(accessToken, { name: contact.name, email: contact.email })
+      );
+
+      return setPersonalContactWriteBack(db, session.user.id, contact.id, {
+        calendarConnectionId: input.calendarConnectionId,
+        providerContactId: created.id,
+      });
+    }),
+
+  // Finish the consent screen that adds contact write access to an account that is already connected
+  allowWrite: protectedProcedure
+    .input(allowContactWriteSchema)
+    .mutation(async ({ ctx: { db, session }, input }) => {
+      const calendar = await getCalendarById(db, input.calendarConnectionId);
+
+      if (!calendar || calendar.userId !== session.user.id) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Calendar not found",
+        });
+      }
+
+      const provider = createCalendarProvider(calendar.provider);
+      let tokens: OAuthTokens;
+      let accountEmail: string;
+
+      try {
+        tokens = await provider.exchangeCodeForTokens(input.code, input.redirectUri);
+        accountEmail = (await provider.getUserInfo(tokens.accessToken)).email;
+      } catch (error: any) {
+        logger.error({
+          userId: session.user.id,
+          calendarId: calendar.id,
+          provider: calendar.provider,
+          error: error.message,
+        }, "Failed to allow contact writes");
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to update your account permissions. Please try again.",
+        });
+      }
+
+      if (accountEmail.toLowerCase() !== calendar.email.toLowerCase()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Sign in as ${calendar.email} to allow saving contacts to that account`,
+        });
+      }
+
+      // Every calendar connected from this account shares its tokens
+      const accountCalendars = (await getUserCalendars(db, session.user.id)).filter(
+        (connection) =>
+          connection.provider === calendar.provider &&
+          connection.email.toLowerCase() === calendar.email.toLowerCase()
+      );
+
+      await Promise.all(
+        accountCalendars.map((connection) =>
+          updateCalendarConnection(db, connection.id, {
+            accessToken: tokens.accessToken,
+            refreshToken: tokens.refreshToken,
+            expiresAt: tokens.expiresAt,
+          })
+        )
+      );
+
+      return { provider: calendar.provider, email: calendar.email };
+    }),
+});
+
+/**
+ * Run a contact write against one of the user's connections, refreshing the access token once if it has expired
+ */
+async function withContactProvider<T>(
+  db: Database,
+  userId: string,
+  calendarConnectionId: string,
+  operation: (provider: CalendarProvider, accessToken: string) => Promise<T>
+): Promise<T> {
+  const calendar = await getCalendarById(db, calendarConnectionId);
+
+  if (!calendar || calendar.userId !== userId) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Calendar not found",
+    });
+  }
+
+  if (!calendar.accessToken || !calendar.isActive) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "Calendar is not connected or active",
+    });
+  }
+
+  const provider = createCalendarProvider(calendar.provider);
+
+  try {
+    try {
+      return await operation(provider, calendar.accessToken);
+    } catch (error: any) {
+      const isAuthError = error.status === 401 || error.statusCode === 401 || error.message?.includes("authentication");
+
+      if (!calendar.refreshToken || !isAuthError) {
+        throw error;
+      }
+
+      logger.info({ userId, calendarId: calendar.id, provider: calendar.provider }, "Access token failed during contact write, attempting refresh");
+
+      const refreshedTokens = await provider.refreshTokens(calendar.refreshToken);
+
+      await updateCalendarConnection(db, calendar.id, {
+        accessToken: refreshedTokens.accessToken,
+        refreshToken: refreshedTokens.refreshToken,
+        expiresAt: refreshedTokens.expiresAt,
+      });
+
+      return await operation(provider, refreshedTokens.accessToken);
+    }
+  } catch (error: any) {
+    logger.error({
+      userId,
+      calendarId: calendar.id,
+      provider: calendar.provider,
+      error: error.message,
+    }, "Failed to write contact to provider");
+
+    // Connections only carry read access until the user allows saving contacts to the account
+    const isPermissionError = error.status === 403 || error.statusCode === 403;
+
+    throw new TRPCError({
+      code: isPermissionError ? "FORBIDDEN" : "INTERNAL_SERVER_ERROR",
+      message: isPermissionError
+        ? `Allow saving contacts to your ${calendar.provider === "google" ? "Google" : "Microsoft"} account first`
+        : "Failed to save the contact to your account",
+    });
+  }
+}
@@ -0,0 +1,104 @@
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "../init";
+import {
+  getIntentFeedbackList,
+  getIntentFeedbackExportData,
+  checkUserAdminStatus,
+  type IntentFieldChanges,
+} from "@imaginecalendar/database/queries";
+import { logger } from "@imaginecalendar/logger";
+import {
+  intentFeedbackListInputSchema,
+  intentFeedbackExportInputSchema,
+} from "../../schemas/intent-feedback";
+
+// Admin middleware - extends protectedProcedure to check admin status
+const adminProcedure = protectedProcedure.use(async (opts) => {
+  const { session, db } = opts.ctx;
+
+  const user = await checkUserAdminStatus(db, session.user.id);
+
+  if (!user?.isAdmin) {
+    logger.warn(
+      { userId: session.user.id, email: session.user.email },
+      "Unauthorized admin access attempt to intent feedback"
+    );
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Admin access required",
+    });
+  }
+
+  return opts.next({
+    ctx: {
+      session,
+      adminUser: user,
+    },
+  });
+});
+
+export const intentFeedbackRouter = createTRPCRouter({
+  // Misparsed transcripts with what the user corrected
+  list: adminProcedure
+    .input(intentFeedbackListInputSchema)
+    .query(async ({ input, ctx }) => {
+      const { db } = ctx;
+
+      try {
+        logger.info({ page: input.page, status: input.status }, "Fetching intent feedback");
+
+        return await getIntentFeedbackList(db, input);
+      } catch (error) {
+        logger.error({ error, input }, "Failed to fetch intent feedback");
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch intent feedback",
+        });
+      }
+    }),
+
+  // Corrections as evaluation examples, one per JSONL line on the client
+  exportDataset: adminProcedure
+    .input(intentFeedbackExportInputSchema)
+    .query(async ({ input, ctx }) => {
+      const { db } = ctx;
+
+      try {
+        logger.info({ from: input.from, to: input.to }, "Exporting intent feedback dataset");
+
+        let dateRange: { from: Date; to: Date } | undefined;
+        if (input.from && input.to) {
+          dateRange = {
+            from: new Date(input.from),
+            to: new Date(input.to),
+          };
+        }
+
+        const rows = await getIntentFeedbackExportData(db, dateRange);
+
+        const examples = rows.map((row) => {
+          const corrected = row.correctedIntent as { intent: unknown; changes: IntentFieldChanges };
+
+          return {
+            id: row.id,
+            transcript: row.transcribedText,
+            correction: row.userFeedback,
+            predicted: row.originalIntent,
+            expected: corrected.intent,
+            changes: corrected.changes,
+            createdAt: row.createdAt.toISOString(),
+          };
+        });
+
+        logger.info({ recordCount: examples.length }, "Intent feedback dataset export completed");
+
+        return examples;
+      } catch (error) {
+        logger.error({ error, input }, "Failed to export intent feedback dataset");
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to export intent feedback dataset",
+        });
+      }
+    }),
+});
@@ -6,7 +6,8 @@ import {
   getInvoiceByNumber,
   getUserInvoiceStats,
   getInvoicesForExport,
-  validateInvoiceAccess
+  validateInvoiceAccess,
+  getRefundRequestById,
 } from "@imaginecalendar/database/queries";
 import { TRPCError } from "@trpc/server";
 
@@ -196,14 +197,16 @@ export const invoicesRouter = createTRPCRouter({
         },
         
         // Line items - subscription.plan is an enum value, not a relation
-        lineItems: [
-          {
-            description: invoice.description || `${invoice.subscription?.plan || "Subscription"} - ${formatBillingPeriod(invoice.billingPeriodStart, invoice.billingPeriodEnd)}`,
-            quantity: 1,
-            unitPrice: invoice.amount,
-            total: invoice.amount,
-          },
-        ],
+        lineItems: invoice.lineItems?.length
+          ? toExclusiveLineItems(invoice.lineItems, invoice.amount, Number.parseFloat(invoice.vatRate || "0"))
+          : [
+              {
+                description: invoice.description || `${invoice.subscription?.plan || "Subscription"} - ${formatBillingPeriod(invoice.billingPeriodStart, invoice.billingPeriodEnd)}`,
+                quantity: 1,
+                unitPrice: invoice.amount,
+                total: invoice.amount,
+              },
+            ],
         
         // Totals
         totals: {
@@ -230,8 +233,105 @@ export const invoicesRouter = createTRPCRouter({
           : "Please contact support if you have any questions.",
       };
     }),
+
+  // Credit note for a processed refund, in the same shape as an invoice PDF
+  getCreditNoteForPdf: protectedProcedure
+    .input(z.object({
+      id: z.string(), // Refund request ID
+    }))
+    .query(async ({ ctx: { db, session }, input }) => {
+      const refund = await getRefundRequestById(db, input.id);
+
+      if (!refund || refund.userId !== session.user.id || refund.status !== "processed" || !refund.creditNoteNumber) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Credit note not found",
+        });
+      }
+
+      const { payment, user } = refund;
+      const vatRate = Number.parseFloat(payment.vatRate || "0");
+      // Split the VAT-inclusive refund the same way the original invoice was
+      const vatAmount = Math.round(refund.amount * vatRate / (100 + vatRate));
+
+      return {
+        company: {
+          name: "CrackOn",
+          address: "",
+          email: "support@crackon.ai",
+          phone: "",
+          taxNumber: "",
+          logo: "/logo.png",
+        },
+
+        invoice: {
+          type: "credit_note" as const,
+          number: refund.creditNoteNumber,
+          date: refund.processedAt,
+          dueDate: null,
+          status: "refunded",
+          originalNumber: payment.invoiceNumber,
+        },
+
+        customer: {
+          name: user?.name || "Customer",
+          email: user?.email || "",
+          company: user?.company || "",
+          phone: user?.phone || "",
+        },
+
+        lineItems: [
+          {
+            description: `Refund against ${payment.invoiceNumber} - ${refund.reason}`,
+            quantity: 1,
+            unitPrice: refund.amount - vatAmount,
+            total: refund.amount - vatAmount,
+          },
+        ],
+
+        totals: {
+          subtotal: refund.amount - vatAmount,
+          vatRate,
+          vatAmount,
+          total: refund.amount,
+          currency: payment.currency,
+        },
+
+        payment: {
+          method: payment.paymentMethod || "Card",
+          status: "refunded",
+          paidAt: refund.processedAt,
+          reference: refund.payfastRefundId || refund.id,
+        },
+
+        notes: "This credit note has been refunded to your original payment method.",
+      };
+    }),
 });
 
+// Stored line items include VAT; the PDF lists them excluding it, so take VAT off each line and
+// let the first line absorb rounding so the lines still add up to the subtotal
+function toExclusiveLineItems(
+  lineItems: Array<{ description: string; amount: number }>,
+  subtotal: number,
+  vatRate: number
+) {
+  const items = lineItems.map((item) => {
+    const total = item.amount - Math.round(item.amount * vatRate / (100 + vatRate));
+    return { description: item.description, quantity: 1, unitPrice: total, total };
+  });
+
+  const difference = subtotal - items.reduce((sum, item) => sum + item.total, 0);
+  const [first] = items;
+
+  if (first && difference !== 0) {
+    first.unitPrice += difference;
+    first.total += difference;
+  }
+
+  return items;
+}
+
 // Helper function to format billing period
 function formatBillingPeriod(start: Date | null, end: Date | null): string {
   if (!start || !end) return "Current Period";
@@ -5,6 +5,9 @@ import {
   getPaymentById,
   getPaymentByInvoiceNumber,
   getCompletedPayments,
+  createRefundRequest,
+  getRefundableAmount,
+  getUserRefundRequests,
 } from "@imaginecalendar/database/queries";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
@@ -71,12 +74,7 @@ export const paymentsRouter = createTRPCRouter({
     }),
 
   requestRefund: protectedProcedure
-    .input(
-      z.object({
-        paymentId: z.string(),
-        reason: z.string().min(10).max(500),
-      })
-    )
+    .input(refundRequestSchema)
     .mutation(async ({ ctx: { db, session }, input }) => {
       const payment = await getPaymentById(db, input.paymentId);
       
@@ -87,24 +85,65 @@ export const paymentsRouter = createTRPCRouter({
         });
       }
 
-      if (payment.status !== "completed") {
+      if (payment.status !== "completed" && payment.status !== "partially_refunded") {
         throw new TRPCError({
           code: "BAD_REQUEST",
           message: "Only completed payments can be refunded",
         });
       }
 
-      // Already checked in the previous condition, remove duplicate check
+      const existingRequests = await getUserRefundRequests(db, session.user.id);
+      const hasOpenRequest = existingRequests.some(
+        (request) => request.paymentId === payment.id && request.status === "requested"
+      );
+
+      if (hasOpenRequest) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "A refund request for this payment is already awaiting review",
+        });
+      }
+
+      const refundableAmount = await getRefundableAmount(db, payment.id);
+      const amount = input.amount ?? refundableAmount;
+
+      if (amount <= 0 || amount > refundableAmount) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: refundableAmount > 0
+            ? `You can request a refund of up to R${(refundableAmount / 100).toFixed(2)} on this payment`
+            : "This payment has already been refunded",
+        });
+      }
+
+      // Refunds are paid out once an admin approves the request
+      const request = await createRefundRequest(db, {
+        paymentId: payment.id,
+        userId: session.user.id,
+        amount,
+        reason: input.reason,
+        requestedBy: session.user.id,
+      });
+
+      if (!request) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to submit refund request",
+        });
+      }
 
-      // TODO: Process refund with PayFast
-      // For now, just return success
       return {
         success: true,
         message: "Refund request submitted",
-        refundId: `refund_${Date.now()}`,
+        refundId: request.id,
       };
     }),
 
+  getRefundRequests: protectedProcedure
+    .query(async ({ ctx: { db, session } }) => {
+      return getUserRefundRequests(db, session.user.id);
+    }),
+
   getCompletedPayments: protectedProcedure
     .query(async ({ ctx: { db, session } }) => {
       return getCompletedPayments(db, session.user.id);
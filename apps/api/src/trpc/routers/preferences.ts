@@ -7,6 +7,9 @@ import {
   updateLocaleSettings,
   resetPreferencesToDefault,
   setDefaultCalendar,
+  updateWorkingHours,
+  updateDailyDigestSettings,
+  updateMeetingLinkSettings,
 } from "@imaginecalendar/database/queries";
 import { TRPCError } from "@trpc/server";
 
@@ -55,6 +58,30 @@ export const preferencesRouter = createTRPCRouter({
         }
       }
 
+      if (input.workingHours) {
+        promises.push(
+          updateWorkingHours(db, session.user.id, {
+            workingHoursStart: input.workingHours.start,
+            workingHoursEnd: input.workingHours.end,
+          })
+        );
+      }
+
+      if (input.dailyDigest) {
+        promises.push(
+          updateDailyDigestSettings(db, session.user.id, {
+            dailyDigestEnabled: input.dailyDigest.enabled,
+            dailyDigestTime: input.dailyDigest.time,
+          })
+        );
+      }
+
+      if (input.meetings) {
+        promises.push(
+          updateMeetingLinkSettings(db, session.user.id, input.meetings)
+        );
+      }
+
       if (input.locale) {
         promises.push(
           updateLocaleSettings(db, session.user.id, input.locale)
@@ -0,0 +1,85 @@
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "../init";
+import {
+  getSttProviderComparison,
+  getSttProviderTrends,
+  checkUserAdminStatus,
+} from "@imaginecalendar/database/queries";
+import { logger } from "@imaginecalendar/logger";
+import { sttProviderStatsInputSchema } from "../../schemas/stt-analytics";
+
+// Admin middleware - extends protectedProcedure to check admin status
+const adminProcedure = protectedProcedure.use(async (opts) => {
+  const { session, db } = opts.ctx;
+
+  const user = await checkUserAdminStatus(db, session.user.id);
+
+  if (!user?.isAdmin) {
+    logger.warn(
+      { userId: session.user.id, email: session.user.email },
+      "Unauthorized admin access attempt to STT analytics"
+    );
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Admin access required",
+    });
+  }
+
+  return opts.next({
+    ctx: {
+      session,
+      adminUser: user,
+    },
+  });
+});
+
+// An explicit range wins over "last N days"
+function resolveDateRange(input: { days: number; from?: string; to?: string }) {
+  if (input.from && input.to) {
+    return { from: new Date(input.from), to: new Date(input.to) };
+  }
+
+  const to = new Date();
+  const from = new Date(to.getTime() - (input.days - 1) * 24 * 60 * 60 * 1000);
+  return { from, to };
+}
+
+export const sttAnalyticsRouter = createTRPCRouter({
+  // Per-provider totals: latency, failure rate and cost
+  getProviderComparison: adminProcedure
+    .input(sttProviderStatsInputSchema)
+    .query(async ({ input, ctx }) => {
+      const { db } = ctx;
+
+      try {
+        logger.info({ days: input.days, from: input.from, to: input.to }, "Fetching STT provider comparison");
+
+        return await getSttProviderComparison(db, resolveDateRange(input));
+      } catch (error) {
+        logger.error({ error, input }, "Failed to fetch STT provider comparison");
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch STT provider comparison",
+        });
+      }
+    }),
+
+  // Daily per-provider figures for charts
+  getProviderTrends: adminProcedure
+    .input(sttProviderStatsInputSchema)
+    .query(async ({ input, ctx }) => {
+      const { db } = ctx;
+
+      try {
+        logger.info({ days: input.days, from: input.from, to: input.to }, "Fetching STT provider trends");
+
+        return await getSttProviderTrends(db, resolveDateRange(input));
+      } catch (error) {
+        logger.error({ error, input }, "Failed to fetch STT provider trends");
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch STT provider trends",
+        });
+      }
+    }),
+});
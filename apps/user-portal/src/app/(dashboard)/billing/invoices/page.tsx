@@ -15,14 +15,16 @@ import {
 } from "@imaginecalendar/ui/table";
 import { Badge } from "@imaginecalendar/ui/badge";
 import { useToast } from "@imaginecalendar/ui/use-toast";
-import { Download, FileText, Loader2, Receipt } from "lucide-react";
+import { Download, FileText, Loader2, Receipt, RotateCcw } from "lucide-react";
 import { format } from "date-fns";
+import { RefundRequestDialog } from "@/components/refund-request-dialog";
 
 export default function InvoicesPage() {
   const trpc = useTRPC();
   const { toast } = useToast();
   const [downloadingId, setDownloadingId] = useState<string | null>(null);
   const [page, setPage] = useState(1);
+  const [refundInvoice, setRefundInvoice] = useState<{ id: string; invoiceNumber: string } | null>(null);
   
   // Fetch invoices
   const { data, isLoading, error } = useQuery(
@@ -37,6 +39,15 @@ export default function InvoicesPage() {
     trpc.invoices.stats.queryOptions()
   );
 
+  const { data: refundRequests } = useQuery(
+    trpc.payments.getRefundRequests.queryOptions()
+  );
+
+  // Only one request per payment can wait for review at a time
+  const awaitingReview = new Set(
+    refundRequests?.filter((request) => request.status === "requested").map((request) => request.paymentId)
+  );
+
   const handleDownload = async (invoiceId: string, invoiceNumber: string) => {
     try {
       setDownloadingId(invoiceId);
@@ -66,6 +77,10 @@ export default function InvoicesPage() {
     window.open(url, '_blank');
   };
 
+  const handleCreditNoteDownload = (refundId: string) => {
+    window.open(`/api/download/credit-note?id=${refundId}`, '_blank');
+  };
+
   const formatCurrency = (amount: number, currency: string) => {
     const symbol = currency === 'ZAR' ? 'R' : 
                    currency === 'USD' ? '$' : 
@@ -84,11 +99,27 @@ export default function InvoicesPage() {
         return <Badge className="bg-red-100 text-red-800">Failed</Badge>;
       case 'refunded':
         return <Badge className="bg-purple-100 text-purple-800">Refunded</Badge>;
+      case 'partially_refunded':
+        return <Badge className="bg-purple-100 text-purple-800">Partly refunded</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
   };
 
+  // Admin-side states (unconfirmed or unrecorded payouts) are all still being processed for the user
+  const getRefundStatusBadge = (status: string) => {
+    switch (status) {
+      case 'requested':
+        return <Badge className="bg-yellow-100 text-yellow-800">Under review</Badge>;
+      case 'processed':
+        return <Badge className="bg-green-100 text-green-800">Refunded</Badge>;
+      case 'rejected':
+        return <Badge className="bg-red-100 text-red-800">Declined</Badge>;
+      default:
+        return <Badge className="bg-blue-100 text-blue-800">Processing</Badge>;
+    }
+  };
+
   if (error) {
     return (
       <div className="text-center py-12">
@@ -228,6 +259,17 @@ export default function InvoicesPage() {
                         </TableCell>
                         <TableCell className="text-right">
                           <div className="flex items-center justify-end gap-2">
+                            {(invoice.status === 'completed' || invoice.status === 'partially_refunded') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={awaitingReview.has(invoice.id)}
+                                onClick={() => setRefundInvoice({ id: invoice.id, invoiceNumber: invoice.invoiceNumber })}
+                              >
+                                <RotateCcw className="mr-1 h-4 w-4" />
+                                {awaitingReview.has(invoice.id) ? "Refund requested" : "Request refund"}
+                              </Button>
+                            )}
                             <Button
                               variant="ghost"
                               size="sm"
@@ -285,6 +327,74 @@ export default function InvoicesPage() {
           )}
         </CardContent>
       </Card>
+
+      {/* Refund Requests */}
+      {!!refundRequests?.length && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Refunds</CardTitle>
+            <CardDescription>
+              Refunds you've requested and their credit notes
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Requested</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Credit note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {refundRequests.map((request) => (
+                    <TableRow key={request.id}>
+                      <TableCell className="font-medium">
+                        {request.payment.invoiceNumber}
+                      </TableCell>
+                      <TableCell>
+                        {format(new Date(request.createdAt), "MMM dd, yyyy")}
+                      </TableCell>
+                      <TableCell>
+                        {formatCurrency(request.amount, request.payment.currency)}
+                      </TableCell>
+                      <TableCell>
+                        {getRefundStatusBadge(request.status)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {request.status === 'processed' && request.creditNoteNumber ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleCreditNoteDownload(request.id)}
+                          >
+                            <Download className="mr-1 h-4 w-4" />
+                            {request.creditNoteNumber}
+                          </Button>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <RefundRequestDialog
+        invoice={refundInvoice}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRefundInvoice(null);
+          }
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
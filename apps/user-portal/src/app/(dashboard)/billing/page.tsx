@@ -3,6 +3,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@imaginecalendar/ui/card";
 import { Badge } from "@imaginecalendar/ui/badge";
 import { Button } from "@imaginecalendar/ui/button";
+import { Input } from "@imaginecalendar/ui/input";
 import { useToast } from "@imaginecalendar/ui/use-toast";
 import {
   CreditCard,
@@ -12,16 +13,19 @@ import {
   ArrowRight,
   Settings,
   Loader2,
-  AlertCircle
+  AlertCircle,
+  TicketPercent
 } from "lucide-react";
 import Link from "next/link";
 import { useTRPC } from "@/trpc/client";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { formatDistanceToNow, format } from "date-fns";
 import { useSearchParams, useRouter } from "next/navigation";
-import { useEffect, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { FALLBACK_PLANS, getFallbackPlanById, toDisplayPlan } from "@/utils/plans";
 import type { DisplayPlan, PlanRecordLike } from "@/utils/plans";
+import { UsageMeter } from "@/components/usage-meter";
+import { PlanChangeDialog } from "@/components/plan-change-dialog";
 
 function getStatusBadgeProps(status: string) {
   switch (status) {
@@ -78,6 +82,24 @@ export default function BillingPage() {
 
   const planMap = useMemo(() => new Map(plans.map((plan) => [plan.id, plan])), [plans]);
 
+  // Paid plan changes are previewed with their proration before they are confirmed
+  const [pendingPlanId, setPendingPlanId] = useState<string | null>(null);
+
+  // A promo code is checked against every plan before checkout, and sent along with the chosen one
+  const [couponInput, setCouponInput] = useState("");
+  const [appliedCouponCode, setAppliedCouponCode] = useState<string | null>(null);
+
+  const couponQuery = useQuery({
+    ...trpc.billing.previewCoupon.queryOptions({ code: appliedCouponCode ?? "" }),
+    enabled: !!appliedCouponCode,
+    retry: false,
+  });
+
+  const couponDiscounts = useMemo(
+    () => new Map((couponQuery.data?.discounts ?? []).map((discount) => [discount.planId, discount])),
+    [couponQuery.data]
+  );
+
   const {
     data: subscription,
     isLoading: isLoadingSubscription,
@@ -113,6 +135,14 @@ export default function BillingPage() {
           billingFlowInput.value = 'true';
           form.appendChild(billingFlowInput);
 
+          if (couponQuery.data && couponDiscounts.has(result.plan)) {
+            const couponField = document.createElement('input');
+            couponField.type = 'hidden';
+            couponField.name = 'coupon';
+            couponField.value = couponQuery.data.code;
+            form.appendChild(couponField);
+          }
+
           document.body.appendChild(form);
           form.submit();
           return;
@@ -120,6 +150,7 @@ export default function BillingPage() {
 
         // Handle successful plan updates for existing subscribers
         if (result.type === "success") {
+          setPendingPlanId(null);
           toast({
             title: "Plan Updated",
             description: "Your plan has been updated successfully.",
@@ -199,12 +230,25 @@ export default function BillingPage() {
   const handlePlanChange = (newPlanId: string) => {
     if (!subscription || updateSubscriptionMutation.isPending) return;
 
-    // Use tRPC for all plan changes - it will handle the different scenarios
+    // Trial users go straight to checkout; paid changes show what they cost first
+    if (!isOnTrial) {
+      setPendingPlanId(newPlanId);
+      return;
+    }
+
     updateSubscriptionMutation.mutate({
       plan: newPlanId as any,
     });
   };
 
+  const handleConfirmPlanChange = (newPlanId: string) => {
+    if (updateSubscriptionMutation.isPending) return;
+
+    updateSubscriptionMutation.mutate({
+      plan: newPlanId,
+    });
+  };
+
   const handleCancelSubscription = () => {
     if (!subscription || cancelSubscriptionMutation.isPending) return;
     cancelSubscriptionMutation.mutate();
@@ -469,6 +513,9 @@ export default function BillingPage() {
         </CardContent>
       </Card>
 
+      {/* Usage against plan limits */}
+      <UsageMeter />
+
       {/* Upgrade Section */}
       <Card className="mb-6">
         <CardHeader>
@@ -489,6 +536,36 @@ export default function BillingPage() {
             </div>
           )}
 
+          {isOnTrial && (
+            <div className="mb-6 space-y-2">
+              <form
+                className="flex gap-2 max-w-sm"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  setAppliedCouponCode(couponInput.trim() || null);
+                }}
+              >
+                <Input
+                  placeholder="Promo code"
+                  value={couponInput}
+                  onChange={(event) => setCouponInput(event.target.value)}
+                  className="uppercase"
+                />
+                <Button type="submit" variant="outline" disabled={!couponInput.trim() || couponQuery.isFetching}>
+                  {couponQuery.isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+                </Button>
+              </form>
+              {couponQuery.data ? (
+                <p className="flex items-center gap-2 text-sm text-green-600">
+                  <TicketPercent className="h-4 w-4" />
+                  {couponQuery.data.code}: {couponQuery.data.description}
+                </p>
+              ) : couponQuery.error ? (
+                <p className="text-sm text-destructive">{couponQuery.error.message}</p>
+              ) : null}
+            </div>
+          )}
+
           {isLoadingPlans ? (
             <div className="text-muted-foreground mb-6">Loading available plans...</div>
           ) : upgradePlans.length === 0 ? (
@@ -500,6 +577,7 @@ export default function BillingPage() {
                 const isHighlighted = plan.id === "monthly" || plan.sortOrder === 2;
                 const isUpgrade = currentPlan ? plan.amountCents > (currentPlan.amountCents ?? 0) : false;
                 const buttonLabel = isUpgrade ? `Upgrade to ${plan.name}` : `Switch to ${plan.name}`;
+                const couponDiscount = isOnTrial ? couponDiscounts.get(plan.id) : undefined;
 
                 return (
                   <div key={plan.id} className="border rounded-lg p-4 relative">
@@ -510,7 +588,12 @@ export default function BillingPage() {
                     )}
                     <h4 className="font-semibold text-lg mb-2">{plan.name}</h4>
                     <div className="mb-3">
-                      <span className="text-3xl font-bold">{plan.displayPrice}</span>
+                      <span className={couponDiscount ? "text-xl text-muted-foreground line-through mr-2" : "text-3xl font-bold"}>
+                        {plan.displayPrice}
+                      </span>
+                      {couponDiscount && (
+                        <span className="text-3xl font-bold">{formatCurrency(couponDiscount.amountDueCents)}</span>
+                      )}
                       <span className="text-muted-foreground">/{plan.billingPeriod}</span>
                     </div>
                     <ul className="space-y-2 text-sm mb-4">
@@ -599,6 +682,15 @@ export default function BillingPage() {
         </CardContent>
       </Card>
 
+      <PlanChangeDialog
+        planId={pendingPlanId}
+        onOpenChange={(open) => {
+          if (!open) setPendingPlanId(null);
+        }}
+        onConfirm={handleConfirmPlanChange}
+        isConfirming={updateSubscriptionMutation.isPending}
+      />
+
       {/* Payment History Quick Link */}
       <Card>
         <CardContent className="p-6">
@@ -28,6 +28,8 @@ import {
 import { formatDistanceToNow } from "date-fns";
 import Link from "next/link";
 import { CalendarSelectionDialog } from "@/components/calendar-selection-dialog";
+import { CalendarRoutingSettings } from "@/components/calendar-routing-settings";
+import { ContactAliasSettings } from "@/components/contact-alias-settings";
 
 export default function CalendarsPage() {
   const trpc = useTRPC();
@@ -108,12 +110,23 @@ export default function CalendarsPage() {
         const redirectUri = `${window.location.origin}/api/calendars/callback`;
         console.log("[CALENDAR_PAGE_DEBUG] Using redirectUri:", redirectUri);
 
-        // Process the OAuth callback
-        connectCalendarMutation.mutate({
-          provider: callbackData.provider,
-          code: callbackData.code,
-          redirectUri,
-        });
+        // The contacts page asks for write access with "<provider>:<userId>:contacts:<connectionId>"
+        const [, , grant, calendarConnectionId] = String(callbackData.state ?? "").split(":");
+
+        if (grant === "contacts" && calendarConnectionId) {
+          allowContactWriteMutation.mutate({
+            calendarConnectionId,
+            code: callbackData.code,
+            redirectUri,
+          });
+        } else {
+          // Process the OAuth callback
+          connectCalendarMutation.mutate({
+            provider: callbackData.provider,
+            code: callbackData.code,
+            redirectUri,
+          });
+        }
 
         // Clean up cookie
         deleteCookie('oauth_callback');
@@ -188,6 +201,28 @@ export default function CalendarsPage() {
     })
   );
 
+  // Finish granting contact write access started from the contacts page
+  const allowContactWriteMutation = useMutation(
+    trpc.contacts.allowWrite.mutationOptions({
+      onSuccess: (account) => {
+        toast({
+          title: "Contacts access updated",
+          description: `You can now save contacts to ${account.email}.`,
+          variant: "success",
+        });
+        router.push("/settings/contacts");
+      },
+      onError: (error) => {
+        toast({
+          title: "Permission update failed",
+          description: error.message || "Failed to allow saving contacts. Please try again.",
+          variant: "error",
+          duration: 3500,
+        });
+      },
+    })
+  );
+
   // Disconnect calendar mutation
   const disconnectCalendarMutation = useMutation(
     trpc.calendar.disconnect.mutationOptions({
@@ -464,7 +499,7 @@ export default function CalendarsPage() {
                     <div className="min-w-0">
                       <CardTitle className="text-lg sm:text-xl break-words">
                         <div className="flex items-center gap-2 flex-wrap">
-                          {calendar.calendarName || `${calendar.provider} Calendar`}
+                          {calendar.label || calendar.calendarName || `${calendar.provider} Calendar`}
                           {calendar.isPrimary && (
                             <Star className="h-4 w-4 fill-yellow-400 text-yellow-400 flex-shrink-0" />
                           )}
@@ -592,6 +627,10 @@ export default function CalendarsPage() {
               </CardContent>
             </Card>
           ))}
+
+          <CalendarRoutingSettings calendars={calendars} onCalendarsChange={refetch} />
+
+          <ContactAliasSettings />
         </div>
       ) : (
         <Card>
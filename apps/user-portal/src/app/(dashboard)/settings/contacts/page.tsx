@@ -0,0 +1,33 @@
+"use client";
+
+import Link from "next/link";
+import { Home, ChevronLeft } from "lucide-react";
+import { SavedContactsSettings } from "@/components/saved-contacts-settings";
+
+export default function ContactsSettingsPage() {
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb Navigation */}
+      <div className="flex items-center gap-2 text-sm">
+        <Link
+          href="/dashboard"
+          className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <Home className="h-4 w-4" />
+          Dashboard
+        </Link>
+        <ChevronLeft className="h-4 w-4 rotate-180 text-muted-foreground" />
+        <span className="font-medium">Contacts</span>
+      </div>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight text-primary">Contacts</h1>
+        <p className="text-muted-foreground mt-2">
+          People we can invite to your events by name
+        </p>
+      </div>
+
+      <SavedContactsSettings />
+    </div>
+  );
+}
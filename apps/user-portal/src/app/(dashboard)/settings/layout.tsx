@@ -3,7 +3,7 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@imaginecalendar/ui/cn";
-import { Settings, User, Bell, ChevronLeft, Home, Calendar } from "lucide-react";
+import { Settings, User, Bell, ChevronLeft, Home, Calendar, Users } from "lucide-react";
 
 const settingsNavItems = [
   {
@@ -21,6 +21,11 @@ const settingsNavItems = [
     href: "/settings/calendars",
     icon: Calendar,
   },
+  {
+    title: "Contacts",
+    href: "/settings/contacts",
+    icon: Users,
+  },
 ];
 
 export default function SettingsLayout({
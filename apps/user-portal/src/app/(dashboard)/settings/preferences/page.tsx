@@ -20,6 +20,14 @@ const preferencesSchema = z.object({
   marketingEmails: z.boolean(),
   reminderNotifications: z.boolean(),
   reminderMinutes: z.number().min(1).max(1440),
+  workingHoursStart: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Invalid time"),
+  workingHoursEnd: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Invalid time"),
+  dailyDigestEnabled: z.boolean(),
+  dailyDigestTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Invalid time"),
+  alwaysAddMeetingLink: z.boolean(),
+}).refine((values) => values.workingHoursStart < values.workingHoursEnd, {
+  message: "Working hours must end after they start",
+  path: ["workingHoursEnd"],
 });
 
 export default function PreferencesPage() {
@@ -39,6 +47,11 @@ export default function PreferencesPage() {
       marketingEmails: false,
       reminderNotifications: true,
       reminderMinutes: 10,
+      workingHoursStart: "09:00",
+      workingHoursEnd: "17:00",
+      dailyDigestEnabled: false,
+      dailyDigestTime: "07:00",
+      alwaysAddMeetingLink: false,
     },
   });
 
@@ -53,6 +66,8 @@ export default function PreferencesPage() {
 
   // Watch form values
   const reminderNotifications = watch("reminderNotifications");
+  const dailyDigestEnabled = watch("dailyDigestEnabled");
+  const alwaysAddMeetingLink = watch("alwaysAddMeetingLink");
 
   // Update form when preferences are loaded
   useEffect(() => {
@@ -61,6 +76,11 @@ export default function PreferencesPage() {
         marketingEmails: preferences.marketingEmails,
         reminderNotifications: preferences.reminderNotifications,
         reminderMinutes: preferences.reminderMinutes,
+        workingHoursStart: preferences.workingHoursStart,
+        workingHoursEnd: preferences.workingHoursEnd,
+        dailyDigestEnabled: preferences.dailyDigestEnabled,
+        dailyDigestTime: preferences.dailyDigestTime,
+        alwaysAddMeetingLink: preferences.alwaysAddMeetingLink,
       });
     }
   }, [preferences, reset]);
@@ -99,6 +119,17 @@ export default function PreferencesPage() {
       reminders: {
         reminderMinutes: values.reminderMinutes,
       },
+      workingHours: {
+        start: values.workingHoursStart,
+        end: values.workingHoursEnd,
+      },
+      dailyDigest: {
+        enabled: values.dailyDigestEnabled,
+        time: values.dailyDigestTime,
+      },
+      meetings: {
+        alwaysAddMeetingLink: values.alwaysAddMeetingLink,
+      },
     });
   }
 
@@ -218,6 +249,111 @@ export default function PreferencesPage() {
           </CardContent>
         </Card>
 
+        {/* Daily Agenda */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Daily Agenda</CardTitle>
+            <CardDescription>
+              Start your day with a WhatsApp summary of today's events from all your calendars
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between space-x-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="daily-digest" className="text-base">
+                  Send me a daily agenda
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Includes overlapping events and free time between meetings
+                </p>
+              </div>
+              <Switch
+                id="daily-digest"
+                checked={dailyDigestEnabled}
+                onCheckedChange={(checked) => setValue("dailyDigestEnabled", checked)}
+              />
+            </div>
+
+            {/* Delivery time (only show when enabled) */}
+            {dailyDigestEnabled && (
+              <div className="space-y-2 pl-2 border-l-2 border-muted ml-2">
+                <Label htmlFor="daily-digest-time">Delivery time</Label>
+                <Input
+                  id="daily-digest-time"
+                  type="time"
+                  {...register("dailyDigestTime")}
+                  className={errors.dailyDigestTime ? "border-red-500 w-32" : "w-32"}
+                />
+                {errors.dailyDigestTime && (
+                  <p className="text-sm text-red-500">{errors.dailyDigestTime.message || "Invalid value"}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Sent every day at this time in your timezone
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Meeting Links */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Meeting Links</CardTitle>
+            <CardDescription>
+              Video calls get a Google Meet or Microsoft Teams link, depending on the calendar they're created in
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between space-x-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="always-add-meeting-link" className="text-base">
+                  Always add a meeting link
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Add a link to every new event, even when you don't mention a call. All-day events never get one.
+                </p>
+              </div>
+              <Switch
+                id="always-add-meeting-link"
+                checked={alwaysAddMeetingLink}
+                onCheckedChange={(checked) => setValue("alwaysAddMeetingLink", checked)}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Working Hours */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Working Hours</CardTitle>
+            <CardDescription>
+              When you ask us to find a free slot, we suggest times within these hours on weekdays
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Input
+                id="working-hours-start"
+                type="time"
+                {...register("workingHoursStart")}
+                className={errors.workingHoursStart ? "border-red-500 w-32" : "w-32"}
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                id="working-hours-end"
+                type="time"
+                {...register("workingHoursEnd")}
+                className={errors.workingHoursEnd ? "border-red-500 w-32" : "w-32"}
+              />
+            </div>
+            {(errors.workingHoursStart || errors.workingHoursEnd) && (
+              <p className="text-sm text-red-500">
+                {errors.workingHoursStart?.message || errors.workingHoursEnd?.message || "Invalid value"}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Save Button */}
         <div className="flex justify-end">
           <Button
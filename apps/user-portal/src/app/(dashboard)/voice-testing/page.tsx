@@ -660,6 +660,7 @@ function JobStatusBadge({ status }: { status: string }) {
     creating_event: "secondary",
     updating_event: "secondary",
     deleting_event: "secondary",
+    querying_events: "secondary",
     completed: "default",
     failed: "destructive",
   };
@@ -8,6 +8,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const provider = searchParams.get("provider") as "google" | "microsoft";
     const state = searchParams.get("state");
+    const contactsWrite = searchParams.get("contacts") === "write";
 
     if (!provider || !["google", "microsoft"].includes(provider)) {
       return NextResponse.json(
@@ -31,11 +32,12 @@ export async function GET(request: NextRequest) {
 
     logger.info({
       provider,
-      redirectUri
+      redirectUri,
+      contactsWrite
     }, "Generating OAuth authorization URL");
 
     const calendarProvider = createCalendarProvider(provider);
-    const authUrl = calendarProvider.getAuthUrl(redirectUri, state || undefined);
+    const authUrl = calendarProvider.getAuthUrl(redirectUri, state || undefined, { contactsWrite });
 
     logger.info({ 
       provider,
@@ -3,7 +3,8 @@ import { auth, currentUser } from '@clerk/nextjs/server';
 import { PayFastService } from '@imaginecalendar/payments';
 import { logger } from '@imaginecalendar/logger';
 import { connectDb } from '@imaginecalendar/database/client';
-import { getPlanById } from '@imaginecalendar/database/queries';
+import { getPlanById, validateCoupon } from '@imaginecalendar/database/queries';
+import type { CouponRecord } from '@imaginecalendar/database/queries';
 
 export async function POST(req: NextRequest) {
   logger.info('Payment redirect endpoint called');
@@ -28,18 +29,21 @@ export async function POST(req: NextRequest) {
     
     let planId: string;
     let isBillingFlow = false;
+    let couponCode = '';
 
     if (contentType.includes('application/x-www-form-urlencoded')) {
       // Parse form data (from HTML form submission)
       const formData = await req.formData();
       planId = String(formData.get('plan') || '').trim();
       isBillingFlow = formData.get('isBillingFlow') === 'true';
+      couponCode = String(formData.get('coupon') || '').trim();
       logger.info({ userId, planId, isBillingFlow, source: 'formData' }, 'Plan and flow type extracted from form');
     } else {
       // Parse JSON data
       const body = await req.json();
       planId = typeof body.plan === 'string' ? body.plan.trim() : '';
       isBillingFlow = body.isBillingFlow === true;
+      couponCode = typeof body.coupon === 'string' ? body.coupon.trim() : '';
       logger.info({ userId, planId, isBillingFlow, source: 'json' }, 'Plan and flow type extracted from JSON');
     }
 
@@ -64,6 +68,22 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    let coupon: CouponRecord | undefined;
+
+    if (couponCode) {
+      const validation = await validateCoupon(db, { code: couponCode, planId: planRecord.id, userId });
+
+      if (!validation.valid) {
+        logger.warn({ userId, plan: planRecord.id, couponCode, reason: validation.reason }, 'Coupon rejected at checkout');
+        return NextResponse.json(
+          { error: validation.message },
+          { status: 400 }
+        );
+      }
+
+      coupon = validation.coupon;
+    }
+
     // Get user details from Clerk
     logger.info({ userId }, 'Fetching user from Clerk');
     const clerkUser = await currentUser();
@@ -116,6 +136,7 @@ export async function POST(req: NextRequest) {
       userEmail,
       userName: userEmail || 'Customer', // Use email as name or fallback to 'Customer'
       isBillingFlow, // Pass billing flow flag to use correct return/cancel URLs
+      coupon,
     });
     
     logger.info({ 
@@ -128,7 +149,9 @@ export async function POST(req: NextRequest) {
     logger.info({ 
       userId, 
       plan: planRecord.id,
-      paymentId: paymentData.fields.m_payment_id 
+      paymentId: paymentData.fields.m_payment_id,
+      coupon: coupon?.code,
+      amount: paymentData.fields.amount
     }, 'PayFast payment form generated');
 
     // Return HTML form that auto-submits to PayFast
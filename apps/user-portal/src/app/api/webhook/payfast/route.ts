@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PayFastService } from '@imaginecalendar/payments';
+import { PayFastService, calculateCouponDiscount, describeCoupon, getCouponRenewalCharges } from '@imaginecalendar/payments';
 import { connectDb } from '@imaginecalendar/database/client';
 import { 
   createPayment, 
@@ -9,6 +9,11 @@ import {
   createSubscription,
   getPaymentByMPaymentId,
   getPlanById,
+  logActivity,
+  getCouponByCode,
+  getCouponRedemption,
+  redeemCoupon,
+  consumeCouponCharge,
 } from '@imaginecalendar/database/queries';
 import type { PlanRecord } from '@imaginecalendar/database/queries';
 import { z } from 'zod';
@@ -70,6 +75,7 @@ const itnSchema = z.object({
   amount_net: z.string().optional(),
   custom_str1: z.string(), // userId
   custom_str2: z.string(), // plan
+  custom_str3: z.string().optional(), // Coupon code
   token: z.string().optional(), // Subscription token for recurring payments
   signature: z.string(),
 });
@@ -145,7 +151,28 @@ export async function POST(req: NextRequest) {
       return new Response('OK', { status: 200 });
     }
 
-    const expectedAmount = planRecord.amountCents / 100;
+    // A renewal after a plan change is discounted by the credit left over from the change
+    const existingSubscription = await getUserSubscription(db, result.data.custom_str1);
+    const renewalCreditCents = existingSubscription?.plan === planRecord.id && existingSubscription.payfastToken
+      ? existingSubscription.creditBalanceCents
+      : 0;
+
+    // Checkouts with a coupon carry its code, and renewals stay discounted while the coupon lasts
+    const coupon = result.data.custom_str3 ? await getCouponByCode(db, result.data.custom_str3) : undefined;
+    const couponRedemption = coupon
+      ? await getCouponRedemption(db, coupon.id, result.data.custom_str1)
+      : undefined;
+    const isCouponCheckout = !!coupon
+      && (!couponRedemption || couponRedemption.payfastMPaymentId === result.data.m_payment_id);
+    const couponDiscountCents = !coupon
+      ? 0
+      : isCouponCheckout
+        ? calculateCouponDiscount(planRecord.amountCents, coupon)
+        : couponRedemption?.status === 'active' && couponRedemption.planId === planRecord.id
+          ? couponRedemption.discountCents
+          : 0;
+
+    const expectedAmount = (planRecord.amountCents - couponDiscountCents - renewalCreditCents) / 100;
 
     // Validate ITN with all 4 PayFast security checks
     const isValid = await payfast.validateITN(payload, remoteIp, expectedAmount);
@@ -228,6 +255,7 @@ export async function POST(req: NextRequest) {
         } else {
           // Update existing subscription
           const { currentPeriodStart, currentPeriodEnd } = computeSubscriptionPeriods(planRecord);
+          const previousStatus = subscription.status;
 
           await updateSubscription(db, subscription.id, {
             status: 'active',
@@ -238,9 +266,47 @@ export async function POST(req: NextRequest) {
             currentPeriodEnd,
             // Clear trial end date if upgrading from trial
             trialEndsAt: null,
+            // A payment ends any failed-renewal reminders
+            pastDueSince: null,
+            dunningRemindersSent: 0,
+            creditBalanceCents: 0,
+          });
+
+          // The credit has been used, so later renewals are charged in full again
+          if (renewalCreditCents > 0 && token) {
+            const restored = await payfast.updateSubscription(token, {
+              amount: planRecord.amountCents,
+            });
+
+            if (!restored) {
+              logger.error({ userId, subscriptionId: subscription.id }, 'Failed to restore full renewal amount after applying plan change credit');
+            }
+          }
+
+          if (previousStatus === 'past_due' || previousStatus === 'paused') {
+            await logActivity(db, {
+              userId,
+              action: 'subscription.renewed',
+              entityType: 'subscription',
+              entityId: subscription.id,
+              metadata: { previousStatus, payfastPaymentId: pf_payment_id },
+            });
+          }
+        }
+
+        const lineItems = [{ description: `${planRecord.name} subscription`, amount: planRecord.amountCents }];
+
+        if (coupon && couponDiscountCents > 0) {
+          lineItems.push({
+            description: `Coupon ${coupon.code} (${describeCoupon(coupon)})`,
+            amount: -couponDiscountCents,
           });
         }
 
+        if (renewalCreditCents > 0) {
+          lineItems.push({ description: 'Credit from your plan change', amount: -renewalCreditCents });
+        }
+
         // Create payment record with auto-generated invoice
         const payment = await createPayment(db, {
           userId,
@@ -254,6 +320,7 @@ export async function POST(req: NextRequest) {
           payfastPaymentId: pf_payment_id,
           payfastPaymentUuid: token,
           payfastMPaymentId: result.data.m_payment_id,
+          lineItems: lineItems.length > 1 ? lineItems : undefined,
         });
 
         if (!payment) {
@@ -265,6 +332,51 @@ export async function POST(req: NextRequest) {
           paidAt: new Date(),
         });
 
+        if (coupon && couponDiscountCents > 0) {
+          if (!couponRedemption) {
+            const renewalCharges = getCouponRenewalCharges(coupon);
+            const redemption = await redeemCoupon(db, {
+              couponId: coupon.id,
+              userId,
+              subscriptionId: subscription.id,
+              paymentId: payment.id,
+              planId: planRecord.id,
+              payfastMPaymentId: result.data.m_payment_id,
+              discountCents: couponDiscountCents,
+              chargesRemaining: renewalCharges,
+            });
+
+            // Other checkouts took the last redemptions first. This charge stays discounted,
+            // but renewals, which checkout set at the discounted price, go back to full price.
+            if (!redemption.redeemed && redemption.reason === 'exhausted') {
+              logger.warn({ userId, subscriptionId: subscription.id, coupon: coupon.code }, 'Coupon ran out before this checkout was recorded');
+
+              if (renewalCharges !== 0 && token) {
+                const restored = await payfast.updateSubscription(token, {
+                  amount: planRecord.amountCents,
+                });
+
+                if (!restored) {
+                  logger.error({ userId, subscriptionId: subscription.id, coupon: coupon.code }, 'Failed to restore full renewal amount after coupon ran out');
+                }
+              }
+            }
+          } else if (!isCouponCheckout && couponRedemption.chargesRemaining !== null) {
+            const redemption = await consumeCouponCharge(db, couponRedemption.id);
+
+            // That was the last discounted renewal, so later ones are charged in full
+            if (redemption?.status === 'ended' && token) {
+              const restored = await payfast.updateSubscription(token, {
+                amount: planRecord.amountCents,
+              });
+
+              if (!restored) {
+                logger.error({ userId, subscriptionId: subscription.id, coupon: coupon.code }, 'Failed to restore full renewal amount after coupon ended');
+              }
+            }
+          }
+        }
+
         logger.info({ 
           userId, 
           paymentId: payment.id,
@@ -279,11 +391,22 @@ export async function POST(req: NextRequest) {
           payfastPaymentId: pf_payment_id 
         }, 'Processing failed payment');
 
-        // Update subscription status if it was pending
+        // Update subscription status if it was pending. The billing worker reminds the user from here
+        // and pauses the subscription once the grace period runs out.
         const subscription = await getUserSubscription(db, userId);
         if (subscription && subscription.status === 'active') {
           await updateSubscription(db, subscription.id, {
             status: 'past_due',
+            pastDueSince: new Date(),
+            dunningRemindersSent: 0,
+          });
+
+          await logActivity(db, {
+            userId,
+            action: 'subscription.past_due',
+            entityType: 'subscription',
+            entityId: subscription.id,
+            metadata: { payfastPaymentId: pf_payment_id },
           });
         }
         break;
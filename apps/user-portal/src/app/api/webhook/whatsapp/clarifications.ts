@@ -12,9 +12,11 @@ import {
 } from '@imaginecalendar/database/queries';
 import { getQueue, QUEUE_NAMES } from '@/lib/queues';
 import { logger } from '@imaginecalendar/logger';
+import { formatLocationLabel, type WhatsAppLocation } from '@imaginecalendar/whatsapp';
 import type { WebhookProcessingSummary, InteractiveSelectionContext } from './types';
 import { getVoiceMessageJob } from '@imaginecalendar/database/queries';
 import { VOICE_STAGE_SEQUENCE } from '@imaginecalendar/database/constants/voice-timing';
+import { extractEmailAddress, offerToSaveContact } from './contacts';
 
 interface EnqueueContext {
   messageId?: string;
@@ -87,9 +89,100 @@ export async function processTextClarification(options: {
     senderPhone: message.from,
   });
 
+  if (targetField === 'attendee') {
+    const email = extractEmailAddress(messageText);
+    const name = email ? findAskedAttendee(prompts) : null;
+
+    if (email && name) {
+      await offerToSaveContact({
+        db,
+        message,
+        whatsappNumberId,
+        userId: pendingIntent.userId,
+        name,
+        email,
+      });
+    }
+  }
+
   return true;
 }
 
+/**
+ * Use a location shared on WhatsApp as the answer for the event being clarified. The pin is kept as the
+ * value so the coordinates reach the event description; when location wasn't one of the open questions
+ * it is only recorded and used once the other answers are in.
+ */
+export async function processLocationClarification(options: {
+  db: Database;
+  message: any;
+  location: WhatsAppLocation;
+  whatsappNumberId: string;
+  summary: WebhookProcessingSummary;
+}): Promise<PendingIntentRecord | null> {
+  const { db, message, location, whatsappNumberId, summary } = options;
+
+  const pendingIntent = await getActivePendingIntentByWhatsappNumber(db, whatsappNumberId);
+
+  if (!pendingIntent) {
+    return null;
+  }
+
+  const plan = pendingIntent.clarificationPlan as Record<string, unknown> | null;
+  const pendingFields = Array.isArray(plan?.pendingFields)
+    ? (plan!.pendingFields as string[])
+    : [];
+  const isLocationQuestion = pendingFields.includes('location');
+
+  const { latitude, longitude, name, address } = location;
+  const label = formatLocationLabel(location);
+  const updatedPlan = mergeClarificationPlan(
+    plan,
+    { location: { value: { latitude, longitude, name, address }, label } },
+    'location'
+  );
+
+  await updatePendingIntent(db, pendingIntent.id, {
+    clarificationPlan: updatedPlan,
+    ...(isLocationQuestion && { status: 'awaiting_processing' }),
+  });
+
+  summary.pendingIntentUpdates.push(pendingIntent.id);
+
+  if (isLocationQuestion) {
+    await safeRecordClarificationTiming({
+      db,
+      jobId: pendingIntent.jobId,
+      field: 'location',
+      source: 'location',
+      value: label,
+      timestamp: message.timestamp,
+    });
+
+    await enqueuePendingIntentReprocess(db, pendingIntent, summary, {
+      messageId: message.id,
+      senderPhone: message.from,
+    });
+  }
+
+  logger.info(
+    { pendingIntentId: pendingIntent.id, isLocationQuestion },
+    'Recorded shared location for pending intent'
+  );
+
+  return pendingIntent;
+}
+
+/**
+ * The person the "What's their email address?" question was about, as recorded on the latest attendee prompt
+ */
+function findAskedAttendee(prompts: Array<Record<string, unknown>>): string | null {
+  const prompt = [...prompts].reverse().find((entry) => entry?.field === 'attendee');
+  const name = typeof prompt?.attendeeName === 'string' ? prompt.attendeeName.trim() : '';
+
+  return name || null;
+}
+
 export async function processFlowSubmission(
   message: any,
   db: Database,
@@ -378,7 +471,7 @@ async function safeRecordClarificationTiming(options: {
   db: Database;
   jobId: string;
   field: string;
-  source: 'flow' | 'interactive' | 'text';
+  source: 'flow' | 'interactive' | 'text' | 'location';
   value: unknown;
   timestamp?: unknown;
 }) {
@@ -429,7 +522,7 @@ function parseWhatsAppTimestamp(value: unknown): Date {
 function mergeClarificationPlan(
   plan: unknown,
   responses: Record<string, { value: unknown; label?: string }>,
-  source: 'flow' | 'interactive' | 'text'
+  source: 'flow' | 'interactive' | 'text' | 'location'
 ): Record<string, unknown> {
   const base =
     plan && typeof plan === 'object' && !Array.isArray(plan)
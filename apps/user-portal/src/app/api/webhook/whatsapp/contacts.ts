@@ -0,0 +1,135 @@
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  hasContactEmail,
+  logOutgoingWhatsAppMessage,
+  savePersonalContact,
+} from '@imaginecalendar/database/queries';
+import { logger } from '@imaginecalendar/logger';
+import { WhatsAppService } from '@imaginecalendar/whatsapp';
+import type { WebhookProcessingSummary } from './types';
+
+// Buttons sent after someone answers "What's their email address?"
+export const SAVE_CONTACT_BUTTON_PREFIX = 'contact_save_';
+export const SKIP_CONTACT_BUTTON_ID = 'contact_skip';
+
+// WhatsApp rejects reply button ids longer than this
+const MAX_BUTTON_ID_LENGTH = 256;
+
+const EMAIL_PATTERN = /[^\s<>()"',;:]+@[^\s<>()"',;:]+\.[a-z]{2,}/i;
+
+interface ContactOfferContext {
+  db: Database;
+  message: any;
+  whatsappNumberId: string;
+  userId: string;
+}
+
+/**
+ * Pull the email out of a reply like "it's thabo@acme.com"
+ */
+export function extractEmailAddress(text: string): string | null {
+  const match = text.match(EMAIL_PATTERN);
+  return match ? match[0].toLowerCase() : null;
+}
+
+/**
+ * Ask whether to keep a name → email pair learned during a clarification, unless it is already known
+ */
+export async function offerToSaveContact(
+  context: ContactOfferContext & { name: string; email: string }
+): Promise<void> {
+  const { db, message, whatsappNumberId, userId, name, email } = context;
+
+  try {
+    if (await hasContactEmail(db, userId, email)) {
+      return;
+    }
+
+    const payload = Buffer.from(`${name}\n${email}`, 'utf8').toString('base64url');
+    const saveId = `${SAVE_CONTACT_BUTTON_PREFIX}${payload}`;
+
+    // The pair travels in the button id so nothing needs storing until the user says yes
+    if (saveId.length > MAX_BUTTON_ID_LENGTH) {
+      logger.info({ userId, nameLength: name.length }, 'Contact too long to offer saving from WhatsApp');
+      return;
+    }
+
+    const whatsappService = new WhatsAppService();
+    const response = await whatsappService.sendReplyButtonMessage(message.from, {
+      bodyText: `Want me to remember ${name} as ${email} for next time?`,
+      buttons: [
+        { id: saveId, title: 'Save contact' },
+        { id: SKIP_CONTACT_BUTTON_ID, title: 'Not now' },
+      ],
+    });
+
+    await logOutgoingWhatsAppMessage(db, {
+      whatsappNumberId,
+      userId,
+      messageId: response?.messages?.[0]?.id,
+      messageType: 'interactive',
+      isFreeMessage: true,
+    });
+  } catch (error) {
+    logger.error(
+      { error, messageId: message.id, senderPhone: message.from },
+      'Failed to offer saving contact'
+    );
+  }
+}
+
+/**
+ * Handle a tap on "Save contact" or "Not now"
+ */
+export async function processSaveContactButton(
+  context: ContactOfferContext & { selectionId: string; summary: WebhookProcessingSummary }
+): Promise<boolean> {
+  const { db, message, whatsappNumberId, userId, selectionId, summary } = context;
+
+  if (selectionId === SKIP_CONTACT_BUTTON_ID) {
+    return true;
+  }
+
+  const [name, email] = Buffer.from(selectionId.slice(SAVE_CONTACT_BUTTON_PREFIX.length), 'base64url')
+    .toString('utf8')
+    .split('\n');
+
+  if (!name?.trim() || !email || !extractEmailAddress(email)) {
+    logger.warn({ selectionId, userId }, 'Save contact button carried an invalid contact');
+    return false;
+  }
+
+  const contact = await savePersonalContact(db, {
+    userId,
+    name,
+    email,
+    source: 'clarification',
+  });
+
+  if (contact) {
+    summary.contactUpdates.push(contact.id);
+  }
+
+  try {
+    const whatsappService = new WhatsAppService();
+    const response = await whatsappService.sendTextMessage(
+      message.from,
+      `Saved ${name.trim()} (${email}). You can edit your contacts in Settings → Contacts.`
+    );
+
+    await logOutgoingWhatsAppMessage(db, {
+      whatsappNumberId,
+      userId,
+      messageId: response?.messages?.[0]?.id,
+      messageType: 'text',
+      isFreeMessage: true,
+    });
+  } catch (error) {
+    logger.error(
+      { error, messageId: message.id, senderPhone: message.from },
+      'Failed to confirm saved contact'
+    );
+  }
+
+  return true;
+}
@@ -0,0 +1,180 @@
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  getLatestCreatedEventJob,
+  getOpenIntentFeedbackByWhatsappNumber,
+  getVoiceMessageJob,
+  logOutgoingWhatsAppMessage,
+  recordIntentFeedbackReply,
+  startIntentFeedback,
+} from '@imaginecalendar/database/queries';
+import { getQueue, QUEUE_NAMES } from '@/lib/queues';
+import { logger } from '@imaginecalendar/logger';
+import { WhatsAppService } from '@imaginecalendar/whatsapp';
+import type { WebhookProcessingSummary } from './types';
+
+// Matches the "Fix it" button sent with every event confirmation
+export const FIX_EVENT_BUTTON_PREFIX = 'fix_';
+
+const CORRECTION_TRIGGER_PATTERN = /^(wrong|that'?s wrong|it'?s wrong|fix it|fix that)[.!]*$/i;
+const CORRECTION_CANCEL_PATTERN = /^(cancel|never ?mind|it'?s fine|leave it)[.!]*$/i;
+
+// How long we treat the next message as the answer to "what should I change?"
+const CORRECTION_REPLY_WINDOW_MS = 15 * 60 * 1000;
+
+// "wrong" only refers to events created in the last day
+const CORRECTABLE_EVENT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface CorrectionContext {
+  db: Database;
+  message: any;
+  whatsappNumberId: string;
+  userId: string;
+  summary: WebhookProcessingSummary;
+}
+
+/**
+ * Handle "wrong" replies and the follow-up describing the fix. Returns true when the text was consumed.
+ */
+export async function processCorrectionText(
+  context: CorrectionContext & { messageText: string }
+): Promise<boolean> {
+  const { db, message, messageText, whatsappNumberId, userId, summary } = context;
+  const isTrigger = CORRECTION_TRIGGER_PATTERN.test(messageText);
+
+  const openFeedback = await getOpenIntentFeedbackByWhatsappNumber(
+    db,
+    whatsappNumberId,
+    new Date(Date.now() - CORRECTION_REPLY_WINDOW_MS)
+  );
+
+  if (openFeedback && !isTrigger) {
+    if (CORRECTION_CANCEL_PATTERN.test(messageText)) {
+      await recordIntentFeedbackReply(db, openFeedback.id, null);
+      await sendCorrectionMessage(context, "OK, I've left the event as it is.");
+      summary.correctionUpdates.push(openFeedback.id);
+      return true;
+    }
+
+    await recordIntentFeedbackReply(db, openFeedback.id, messageText);
+
+    try {
+      const queue = getQueue(QUEUE_NAMES.APPLY_CORRECTION);
+      await queue.add(
+        'apply-correction',
+        {
+          feedbackId: openFeedback.id,
+          voiceJobId: openFeedback.voiceJobId,
+          userId,
+          correctionText: messageText,
+        },
+        {
+          jobId: `correction-${openFeedback.id}`,
+        }
+      );
+
+      logger.info(
+        { feedbackId: openFeedback.id, voiceJobId: openFeedback.voiceJobId, userId },
+        'Enqueued event correction'
+      );
+    } catch (error) {
+      logger.error(
+        { error, feedbackId: openFeedback.id, voiceJobId: openFeedback.voiceJobId },
+        'Failed to enqueue event correction'
+      );
+    }
+
+    summary.correctionUpdates.push(openFeedback.id);
+    return true;
+  }
+
+  if (!isTrigger) {
+    return false;
+  }
+
+  const voiceJob = await getLatestCreatedEventJob(
+    db,
+    whatsappNumberId,
+    new Date(Date.now() - CORRECTABLE_EVENT_WINDOW_MS)
+  );
+
+  if (!voiceJob) {
+    await sendCorrectionMessage(context, "I couldn't find an event I created recently to fix.");
+    return true;
+  }
+
+  return startCorrection(context, voiceJob);
+}
+
+/**
+ * Handle a tap on the "Fix it" button of an event confirmation
+ */
+export async function processFixEventButton(
+  context: CorrectionContext & { selectionId: string }
+): Promise<boolean> {
+  const { db, selectionId, whatsappNumberId } = context;
+  const voiceJobId = selectionId.slice(FIX_EVENT_BUTTON_PREFIX.length);
+
+  const voiceJob = voiceJobId ? await getVoiceMessageJob(db, voiceJobId) : null;
+
+  if (!voiceJob || voiceJob.whatsappNumberId !== whatsappNumberId || !voiceJob.calendarEventId) {
+    logger.warn({ selectionId, whatsappNumberId }, 'Fix button did not match an event created from this number');
+    return false;
+  }
+
+  return startCorrection(context, voiceJob);
+}
+
+async function startCorrection(
+  context: CorrectionContext,
+  voiceJob: NonNullable<Awaited<ReturnType<typeof getVoiceMessageJob>>>
+): Promise<boolean> {
+  const feedback = await startIntentFeedback(context.db, {
+    voiceJobId: voiceJob.id,
+    transcribedText: voiceJob.transcribedText ?? '',
+    originalIntent: voiceJob.intentSnapshot ?? voiceJob.intentAnalysis ?? {},
+  });
+
+  if (!feedback) {
+    return false;
+  }
+
+  const title = (voiceJob.intentSnapshot as { title?: string | null } | null)?.title
+    ?? (voiceJob.intentAnalysis as { title?: string } | null)?.title;
+
+  await sendCorrectionMessage(
+    context,
+    `Sorry about that! What should I change${title ? ` about "${title}"` : ''}?\n\nFor example: "it's at 3pm, not 2pm" or "the location is the Main Street office". Reply "cancel" to leave it as it is.`
+  );
+
+  context.summary.correctionUpdates.push(feedback.id);
+
+  logger.info(
+    { feedbackId: feedback.id, voiceJobId: voiceJob.id },
+    'Started event correction'
+  );
+
+  return true;
+}
+
+async function sendCorrectionMessage(context: CorrectionContext, text: string): Promise<void> {
+  const { db, message, whatsappNumberId, userId } = context;
+
+  try {
+    const whatsappService = new WhatsAppService();
+    const response = await whatsappService.sendTextMessage(message.from, text);
+
+    await logOutgoingWhatsAppMessage(db, {
+      whatsappNumberId,
+      userId,
+      messageId: response?.messages?.[0]?.id,
+      messageType: 'text',
+      // The user just wrote to us, so this reply is inside the free window
+      isFreeMessage: true,
+    });
+  } catch (error) {
+    logger.error(
+      { error, messageId: message.id, senderPhone: message.from },
+      'Failed to send correction message'
+    );
+  }
+}
@@ -10,6 +10,7 @@ import { getQueue, QUEUE_NAMES } from '@/lib/queues';
 import { logger } from '@imaginecalendar/logger';
 import { WhatsAppService } from '@imaginecalendar/whatsapp';
 import type { WebhookProcessingSummary } from '../types';
+import { enforceUsageQuota, recordMessageUsage } from '../quota';
 import { VOICE_STAGE_SEQUENCE } from '@imaginecalendar/database/constants/voice-timing';
 
 export async function handleAudioMessage(
@@ -56,6 +57,15 @@ export async function handleAudioMessage(
     );
   }
 
+  const quota = await enforceUsageQuota(
+    { db, message, whatsappNumberId: whatsappNumber.id, userId: whatsappNumber.userId },
+    'voice_note'
+  );
+
+  if (!quota.allowed) {
+    return;
+  }
+
   if (message.id && message.from) {
     try {
       const whatsappService = new WhatsAppService();
@@ -129,6 +139,8 @@ export async function handleAudioMessage(
         },
         'Enqueued download audio job'
       );
+
+      await recordMessageUsage(db, whatsappNumber.userId, 'voice_note', quota.period);
     } catch (queueError) {
       logger.error(
         {
@@ -0,0 +1,124 @@
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  getVerifiedWhatsappNumberByPhone,
+  logIncomingWhatsAppMessage,
+  logOutgoingWhatsAppMessage,
+  savePersonalContact,
+} from '@imaginecalendar/database/queries';
+import { logger } from '@imaginecalendar/logger';
+import { WhatsAppService, formatSavedContactsMessage } from '@imaginecalendar/whatsapp';
+import type { WebhookProcessingSummary } from '../types';
+import { extractEmailAddress } from '../contacts';
+
+/**
+ * Handle contacts shared from the phone's address book. People with an email address are saved to
+ * the user's contacts so they can be invited by name; the rest are listed as skipped.
+ */
+export async function handleContactsMessage(
+  message: any,
+  db: Database,
+  summary: WebhookProcessingSummary
+): Promise<void> {
+  const sharedContacts: any[] = message.contacts ?? [];
+
+  if (!sharedContacts.length) {
+    logger.warn({ messageId: message.id }, 'Contacts message missing contacts payload');
+    return;
+  }
+
+  const whatsappNumber = await getVerifiedWhatsappNumberByPhone(db, message.from);
+
+  if (!whatsappNumber || !whatsappNumber.isVerified) {
+    logger.info(
+      {
+        senderPhone: message.from,
+        found: !!whatsappNumber,
+        verified: whatsappNumber?.isVerified,
+      },
+      'Ignoring contacts from unverified number'
+    );
+    return;
+  }
+
+  try {
+    await logIncomingWhatsAppMessage(db, {
+      whatsappNumberId: whatsappNumber.id,
+      userId: whatsappNumber.userId,
+      messageId: message.id,
+      messageType: 'contacts',
+    });
+  } catch (error) {
+    logger.error(
+      {
+        error,
+        messageId: message.id,
+        senderPhone: message.from,
+      },
+      'Failed to log incoming contacts message'
+    );
+  }
+
+  const savedNames: string[] = [];
+  const skippedNames: string[] = [];
+
+  for (const sharedContact of sharedContacts) {
+    const name: string = sharedContact.name?.formatted_name?.trim()
+      || [sharedContact.name?.first_name, sharedContact.name?.last_name].filter(Boolean).join(' ');
+    const email = (sharedContact.emails ?? [])
+      .map((entry: { email?: string }) => (entry.email ? extractEmailAddress(entry.email) : null))
+      .find(Boolean) as string | undefined;
+
+    if (!name) {
+      continue;
+    }
+
+    // Only people with an email address can be invited to events
+    if (!email) {
+      skippedNames.push(name);
+      continue;
+    }
+
+    try {
+      const contact = await savePersonalContact(db, {
+        userId: whatsappNumber.userId,
+        name,
+        email,
+        source: 'vcard',
+      });
+
+      if (contact) {
+        summary.contactUpdates.push(contact.id);
+      }
+
+      savedNames.push(name);
+    } catch (error) {
+      logger.error({ error, messageId: message.id, userId: whatsappNumber.userId }, 'Failed to save shared contact');
+    }
+  }
+
+  logger.info(
+    { messageId: message.id, savedCount: savedNames.length, skippedCount: skippedNames.length },
+    'Shared contacts processed'
+  );
+
+  const reply = formatSavedContactsMessage(savedNames, skippedNames)
+    || "I couldn't read that contact. You can add people in Settings → Contacts.";
+
+  try {
+    const whatsappService = new WhatsAppService();
+    const response = await whatsappService.sendTextMessage(message.from, reply);
+
+    await logOutgoingWhatsAppMessage(db, {
+      whatsappNumberId: whatsappNumber.id,
+      userId: whatsappNumber.userId,
+      messageId: response?.messages?.[0]?.id,
+      messageType: 'text',
+      isFreeMessage: true,
+    });
+  } catch (error) {
+    logger.error(
+      { error, messageId: message.id, senderPhone: message.from },
+      'Failed to confirm shared contacts'
+    );
+  }
+}
@@ -7,6 +7,18 @@ import {
   processFlowSubmission,
   processInteractiveSelection,
 } from '../clarifications';
+import { FIX_EVENT_BUTTON_PREFIX, processFixEventButton } from '../corrections';
+import {
+  SAVE_CONTACT_BUTTON_PREFIX,
+  SKIP_CONTACT_BUTTON_ID,
+  processSaveContactButton,
+} from '../contacts';
+import { UNDO_BUTTON_PREFIX, processUndoButton } from '../undo';
+import {
+  IMPORT_EVENTS_BUTTON_PREFIX,
+  SKIP_IMPORT_BUTTON_PREFIX,
+  processImportButton,
+} from '../imports';
 
 export async function handleInteractiveMessage(
   message: any,
@@ -83,6 +95,74 @@ export async function handleInteractiveMessage(
       return;
     }
 
+    if (selectionId.startsWith(FIX_EVENT_BUTTON_PREFIX)) {
+      const handled = await processFixEventButton({
+        db,
+        message,
+        selectionId,
+        whatsappNumberId: whatsappNumber.id,
+        userId: whatsappNumber.userId,
+        summary,
+      });
+
+      if (!handled) {
+        logger.warn({ messageId: message.id, selectionId }, 'Fix button could not start a correction');
+      }
+
+      return;
+    }
+
+    if (selectionId.startsWith(UNDO_BUTTON_PREFIX)) {
+      const handled = await processUndoButton({
+        db,
+        message,
+        selectionId,
+        whatsappNumberId: whatsappNumber.id,
+        userId: whatsappNumber.userId,
+        summary,
+      });
+
+      if (!handled) {
+        logger.warn({ messageId: message.id, selectionId }, 'Undo button could not be handled');
+      }
+
+      return;
+    }
+
+    if (selectionId.startsWith(IMPORT_EVENTS_BUTTON_PREFIX) || selectionId.startsWith(SKIP_IMPORT_BUTTON_PREFIX)) {
+      const handled = await processImportButton({
+        db,
+        message,
+        selectionId,
+        whatsappNumberId: whatsappNumber.id,
+        userId: whatsappNumber.userId,
+        summary,
+      });
+
+      if (!handled) {
+        logger.warn({ messageId: message.id, selectionId }, 'Import button could not be handled');
+      }
+
+      return;
+    }
+
+    if (selectionId.startsWith(SAVE_CONTACT_BUTTON_PREFIX) || selectionId === SKIP_CONTACT_BUTTON_ID) {
+      const handled = await processSaveContactButton({
+        db,
+        message,
+        selectionId,
+        whatsappNumberId: whatsappNumber.id,
+        userId: whatsappNumber.userId,
+        summary,
+      });
+
+      if (!handled) {
+        logger.warn({ messageId: message.id, selectionId }, 'Save contact button could not be handled');
+      }
+
+      return;
+    }
+
     const handled = await processInteractiveSelection({
       message,
       interactive,
@@ -0,0 +1,161 @@
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  getLatestUndoableOperation,
+  getVerifiedWhatsappNumberByPhone,
+  logIncomingWhatsAppMessage,
+  logOutgoingWhatsAppMessage,
+} from '@imaginecalendar/database/queries';
+import { getQueue, QUEUE_NAMES } from '@/lib/queues';
+import { logger } from '@imaginecalendar/logger';
+import { WhatsAppService, formatLocationLabel, type WhatsAppLocation } from '@imaginecalendar/whatsapp';
+import type { WebhookProcessingSummary } from '../types';
+import { processLocationClarification } from '../clarifications';
+
+// A location shared this long after an event was created is added to that event
+const ATTACH_LOCATION_WINDOW_MINUTES = 15;
+
+/**
+ * Handle a location shared from WhatsApp. While an event is being clarified the location answers its
+ * location question; shortly after an event was created it is added to that event.
+ */
+export async function handleLocationMessage(
+  message: any,
+  db: Database,
+  summary: WebhookProcessingSummary
+): Promise<void> {
+  const location = message.location as WhatsAppLocation | undefined;
+
+  if (!Number.isFinite(location?.latitude) || !Number.isFinite(location?.longitude)) {
+    logger.warn({ messageId: message.id }, 'Location message missing coordinates');
+    return;
+  }
+
+  const whatsappNumber = await getVerifiedWhatsappNumberByPhone(db, message.from);
+
+  if (!whatsappNumber || !whatsappNumber.isVerified) {
+    logger.info(
+      {
+        senderPhone: message.from,
+        found: !!whatsappNumber,
+        verified: whatsappNumber?.isVerified,
+      },
+      'Ignoring location from unverified number'
+    );
+    return;
+  }
+
+  try {
+    await logIncomingWhatsAppMessage(db, {
+      whatsappNumberId: whatsappNumber.id,
+      userId: whatsappNumber.userId,
+      messageId: message.id,
+      messageType: 'location',
+    });
+  } catch (error) {
+    logger.error(
+      {
+        error,
+        messageId: message.id,
+        senderPhone: message.from,
+      },
+      'Failed to log incoming location message'
+    );
+  }
+
+  const sharedLocation = location!;
+  const label = formatLocationLabel(sharedLocation);
+  const context = { db, message, whatsappNumberId: whatsappNumber.id, userId: whatsappNumber.userId };
+
+  const pendingIntent = await processLocationClarification({
+    db,
+    message,
+    location: sharedLocation,
+    whatsappNumberId: whatsappNumber.id,
+    summary,
+  });
+
+  if (pendingIntent) {
+    const plan = pendingIntent.clarificationPlan as { pendingFields?: string[] } | null;
+
+    // The reprocessed event confirms the location itself; otherwise say it was kept for later
+    if (!plan?.pendingFields?.includes('location')) {
+      await sendLocationMessage(context, `📍 Got it, I'll add ${label} to the event once the rest is sorted.`);
+    }
+    return;
+  }
+
+  const operation = await getLatestUndoableOperation(
+    db,
+    whatsappNumber.id,
+    new Date(Date.now() - ATTACH_LOCATION_WINDOW_MINUTES * 60 * 1000)
+  );
+
+  if (!operation || operation.action !== 'CREATE') {
+    await sendLocationMessage(
+      context,
+      'To add a location to an event, send me the event first and then share the location right after it.'
+    );
+    return;
+  }
+
+  try {
+    const queue = getQueue(QUEUE_NAMES.ATTACH_LOCATION);
+    await queue.add(
+      'attach-location',
+      {
+        operationId: operation.id,
+        userId: whatsappNumber.userId,
+        senderPhone: message.from,
+        location: {
+          latitude: sharedLocation.latitude,
+          longitude: sharedLocation.longitude,
+          name: sharedLocation.name,
+          address: sharedLocation.address,
+        },
+      },
+      {
+        jobId: `attach-location-${message.id}`,
+      }
+    );
+
+    logger.info(
+      { operationId: operation.id, voiceJobId: operation.voiceJobId, eventId: operation.eventId },
+      'Enqueued shared location for created event'
+    );
+  } catch (error) {
+    logger.error(
+      { error, operationId: operation.id, senderPhone: message.from },
+      'Failed to enqueue shared location'
+    );
+
+    await sendLocationMessage(context, `Sorry, I couldn't add that location to "${operation.eventTitle}". Please try again in a minute.`);
+    return;
+  }
+
+  summary.locationUpdates.push(operation.id);
+}
+
+async function sendLocationMessage(
+  context: { db: Database; message: any; whatsappNumberId: string; userId: string },
+  text: string
+): Promise<void> {
+  const { db, message, whatsappNumberId, userId } = context;
+
+  try {
+    const whatsappService = new WhatsAppService();
+    const response = await whatsappService.sendTextMessage(message.from, text);
+
+    await logOutgoingWhatsAppMessage(db, {
+      whatsappNumberId,
+      userId,
+      messageId: response?.messages?.[0]?.id,
+      messageType: 'text',
+      isFreeMessage: true,
+    });
+  } catch (error) {
+    logger.error(
+      { error, messageId: message.id, senderPhone: message.from },
+      'Failed to send location message'
+    );
+  }
+}
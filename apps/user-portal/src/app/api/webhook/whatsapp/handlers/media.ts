@@ -0,0 +1,298 @@
+import { randomUUID } from 'node:crypto';
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  createVoiceMessageJob,
+  getVerifiedWhatsappNumberByPhone,
+  recordVoiceJobTiming,
+  logIncomingWhatsAppMessage,
+  logOutgoingWhatsAppMessage,
+} from '@imaginecalendar/database/queries';
+import { getQueue, QUEUE_NAMES } from '@/lib/queues';
+import { logger } from '@imaginecalendar/logger';
+import { WhatsAppService } from '@imaginecalendar/whatsapp';
+import type { WebhookProcessingSummary } from '../types';
+import { enforceUsageQuota, recordMessageUsage } from '../quota';
+import { VOICE_STAGE_SEQUENCE } from '@imaginecalendar/database/constants/voice-timing';
+
+// Documents are only read when they are PDFs or images sent as files
+function isReadableMimeType(mimeType: string): boolean {
+  return mimeType === 'application/pdf' || mimeType.startsWith('image/');
+}
+
+// Calendar invites and contact cards are imported as they are instead of being read by a model.
+// Phones often send them as application/octet-stream, so the file extension counts too.
+function getAttachmentKind(mimeType: string, filename?: string): 'icalendar' | 'vcard' | null {
+  const extension = filename?.toLowerCase().split('.').pop();
+
+  if (mimeType === 'text/calendar' || mimeType === 'application/ics' || extension === 'ics') {
+    return 'icalendar';
+  }
+
+  if (mimeType === 'text/vcard' || mimeType === 'text/x-vcard' || extension === 'vcf') {
+    return 'vcard';
+  }
+
+  return null;
+}
+
+/**
+ * Handle a forwarded image or document (flyer, invitation, screenshot, school notice). The media is
+ * read for event details by the voice worker, which then processes them like a typed message.
+ * Calendar invites (.ics) and contact cards (.vcf) are imported instead.
+ */
+export async function handleMediaMessage(
+  message: any,
+  db: Database,
+  summary: WebhookProcessingSummary
+): Promise<void> {
+  const messageType: 'image' | 'document' = message.type === 'document' ? 'document' : 'image';
+  const mediaData = message.image ?? message.document;
+
+  if (!mediaData?.id) {
+    logger.warn({ messageId: message.id, messageType }, 'Media message missing media payload');
+    return;
+  }
+
+  const whatsappNumber = await getVerifiedWhatsappNumberByPhone(db, message.from);
+
+  if (!whatsappNumber || !whatsappNumber.isVerified) {
+    logger.info(
+      {
+        senderPhone: message.from,
+        found: !!whatsappNumber,
+        verified: whatsappNumber?.isVerified,
+      },
+      'Ignoring media from unverified number'
+    );
+    return;
+  }
+
+  try {
+    await logIncomingWhatsAppMessage(db, {
+      whatsappNumberId: whatsappNumber.id,
+      userId: whatsappNumber.userId,
+      messageId: message.id,
+      messageType,
+    });
+  } catch (error) {
+    logger.error(
+      {
+        error,
+        messageId: message.id,
+        senderPhone: message.from,
+      },
+      'Failed to log incoming media message'
+    );
+  }
+
+  const mimeType: string = mediaData.mime_type ?? (messageType === 'image' ? 'image/jpeg' : 'application/octet-stream');
+
+  const attachmentKind = messageType === 'document' ? getAttachmentKind(mimeType, mediaData.filename) : null;
+
+  if (!attachmentKind && !isReadableMimeType(mimeType)) {
+    logger.info({ messageId: message.id, mimeType }, 'Ignoring document that is not a PDF, image, invite or contact card');
+    await sendMediaMessage(
+      db,
+      message,
+      whatsappNumber,
+      "I can read event details from images, PDF documents and calendar invites (.ics), and save contact cards. Send me one of those, or type the event details."
+    );
+    return;
+  }
+
+  const quota = await enforceUsageQuota(
+    { db, message, whatsappNumberId: whatsappNumber.id, userId: whatsappNumber.userId },
+    'media_message'
+  );
+
+  if (!quota.allowed) {
+    return;
+  }
+
+  if (message.id && message.from) {
+    try {
+      const whatsappService = new WhatsAppService();
+      await whatsappService.sendTypingIndicator(message.from, message.id);
+    } catch (error) {
+      logger.warn(
+        {
+          error,
+          messageId: message.id,
+          senderPhone: message.from,
+        },
+        'Failed to send typing indicator for media message'
+      );
+    }
+  }
+
+  const intentJobId = randomUUID();
+
+  try {
+    const voiceJob = await createVoiceMessageJob(db, {
+      userId: whatsappNumber.userId,
+      whatsappNumberId: whatsappNumber.id,
+      messageId: message.id,
+      mediaId: mediaData.id,
+      senderPhone: message.from,
+      mimeType,
+      isTestJob: false,
+      testConfiguration: {
+        source: 'webhook',
+        messageType,
+      },
+      intentJobId,
+    });
+
+    if (!voiceJob) {
+      throw new Error('Failed to create voice job - no job returned');
+    }
+
+    await recordWebhookTiming(db, voiceJob.id, message.timestamp, {
+      messageType,
+      mediaId: mediaData.id,
+    });
+
+    logger.info(
+      {
+        voiceJobId: voiceJob.id,
+        intentJobId,
+        userId: whatsappNumber.userId,
+        messageId: message.id,
+        messageType,
+      },
+      'Created voice message job for media intent'
+    );
+
+    try {
+      if (attachmentKind) {
+        const queue = getQueue(QUEUE_NAMES.IMPORT_ATTACHMENT);
+        await queue.add(
+          'import-attachment',
+          {
+            voiceJobId: voiceJob.id,
+            mediaId: mediaData.id,
+            mimeType,
+            kind: attachmentKind,
+          },
+          {
+            jobId: `import-attachment-${voiceJob.id}`,
+          }
+        );
+      } else {
+        const queue = getQueue(QUEUE_NAMES.EXTRACT_MEDIA);
+        await queue.add(
+          'extract-media',
+          {
+            voiceJobId: voiceJob.id,
+            mediaId: mediaData.id,
+            mimeType,
+            caption: mediaData.caption,
+            filename: mediaData.filename,
+          },
+          {
+            jobId: `extract-${voiceJob.id}`,
+          }
+        );
+      }
+
+      logger.info(
+        {
+          voiceJobId: voiceJob.id,
+          intentJobId,
+          attachmentKind,
+        },
+        attachmentKind ? 'Enqueued import attachment job' : 'Enqueued extract media job'
+      );
+
+      await recordMessageUsage(db, whatsappNumber.userId, 'media_message', quota.period);
+    } catch (queueError) {
+      logger.error(
+        {
+          error: queueError,
+          voiceJobId: voiceJob.id,
+          intentJobId,
+        },
+        'Failed to enqueue media job'
+      );
+    }
+
+    summary.voiceJobIds.push(voiceJob.id);
+  } catch (error) {
+    logger.error(
+      {
+        error,
+        messageId: message.id,
+        senderPhone: message.from,
+      },
+      'Failed to create voice job for media message'
+    );
+  }
+}
+
+async function sendMediaMessage(
+  db: Database,
+  message: any,
+  whatsappNumber: { id: string; userId: string },
+  text: string
+): Promise<void> {
+  try {
+    const whatsappService = new WhatsAppService();
+    const response = await whatsappService.sendTextMessage(message.from, text);
+
+    await logOutgoingWhatsAppMessage(db, {
+      whatsappNumberId: whatsappNumber.id,
+      userId: whatsappNumber.userId,
+      messageId: response?.messages?.[0]?.id,
+      messageType: 'text',
+      isFreeMessage: true,
+    });
+  } catch (error) {
+    logger.error(
+      { error, messageId: message.id, senderPhone: message.from },
+      'Failed to send media message reply'
+    );
+  }
+}
+
+async function recordWebhookTiming(
+  db: Database,
+  jobId: string,
+  timestamp: unknown,
+  metadata: Record<string, unknown>
+) {
+  const sequence = VOICE_STAGE_SEQUENCE.webhook_received ?? 5;
+  const startedAt = parseWhatsAppTimestamp(timestamp);
+
+  try {
+    await recordVoiceJobTiming(db, {
+      jobId,
+      stage: 'webhook_received',
+      startedAt,
+      completedAt: new Date(),
+      sequence,
+      metadata,
+    });
+  } catch (error) {
+    logger.warn({ error, jobId }, 'Failed to record webhook timing');
+  }
+}
+
+function parseWhatsAppTimestamp(value: unknown): Date {
+  if (typeof value === 'string') {
+    const numeric = Number(value);
+    if (!Number.isNaN(numeric) && value.trim() !== '') {
+      return new Date(numeric * 1000);
+    }
+
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed)) {
+      return new Date(parsed);
+    }
+  }
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value * 1000);
+  }
+
+  return new Date();
+}
@@ -13,6 +13,9 @@ import { logger } from '@imaginecalendar/logger';
 import { WhatsAppService } from '@imaginecalendar/whatsapp';
 import type { WebhookProcessingSummary } from '../types';
 import { processTextClarification } from '../clarifications';
+import { processCorrectionText } from '../corrections';
+import { processUndoText } from '../undo';
+import { enforceUsageQuota, recordMessageUsage } from '../quota';
 import { VOICE_STAGE_SEQUENCE } from '@imaginecalendar/database/constants/voice-timing';
 
 const verificationCodePattern = /\b\d{6}\b/;
@@ -87,6 +90,33 @@ export async function handleTextMessage(
     }
   }
 
+  // Checked before corrections so "undo" isn't taken as the description of a fix
+  const undoHandled = await processUndoText({
+    db,
+    message,
+    messageText,
+    whatsappNumberId: whatsappNumber.id,
+    userId: whatsappNumber.userId,
+    summary,
+  });
+
+  if (undoHandled) {
+    return;
+  }
+
+  const correctionHandled = await processCorrectionText({
+    db,
+    message,
+    messageText,
+    whatsappNumberId: whatsappNumber.id,
+    userId: whatsappNumber.userId,
+    summary,
+  });
+
+  if (correctionHandled) {
+    return;
+  }
+
   const clarificationHandled = await processTextClarification({
     db,
     message,
@@ -99,6 +129,16 @@ export async function handleTextMessage(
     return;
   }
 
+  // Replies to questions, fixes and undos above finish earlier requests, so only new requests are limited
+  const quota = await enforceUsageQuota(
+    { db, message, whatsappNumberId: whatsappNumber.id, userId: whatsappNumber.userId },
+    'text_message'
+  );
+
+  if (!quota.allowed) {
+    return;
+  }
+
   const intentJobId = randomUUID();
 
   try {
@@ -161,6 +201,8 @@ export async function handleTextMessage(
         },
         'Enqueued text intent for processing'
       );
+
+      await recordMessageUsage(db, whatsappNumber.userId, 'text_message', quota.period);
     } catch (queueError) {
       logger.error(
         {
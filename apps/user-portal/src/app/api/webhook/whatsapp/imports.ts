@@ -0,0 +1,118 @@
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  getVoiceMessageJob,
+  logOutgoingWhatsAppMessage,
+  transitionVoiceMessageJobStatus,
+} from '@imaginecalendar/database/queries';
+import { getQueue, QUEUE_NAMES } from '@/lib/queues';
+import { logger } from '@imaginecalendar/logger';
+import { WhatsAppService } from '@imaginecalendar/whatsapp';
+import type { WebhookProcessingSummary } from './types';
+
+// Match the "Add to calendar" and "Skip" buttons sent with a forwarded calendar invite
+export const IMPORT_EVENTS_BUTTON_PREFIX = 'import_add_';
+export const SKIP_IMPORT_BUTTON_PREFIX = 'import_skip_';
+
+interface ImportContext {
+  db: Database;
+  message: any;
+  whatsappNumberId: string;
+  userId: string;
+  summary: WebhookProcessingSummary;
+}
+
+/**
+ * Handle a tap on "Add to calendar" or "Skip" for a forwarded calendar invite
+ */
+export async function processImportButton(
+  context: ImportContext & { selectionId: string }
+): Promise<boolean> {
+  const { db, message, selectionId, whatsappNumberId, userId, summary } = context;
+  const isSkip = selectionId.startsWith(SKIP_IMPORT_BUTTON_PREFIX);
+  const voiceJobId = selectionId.slice(
+    (isSkip ? SKIP_IMPORT_BUTTON_PREFIX : IMPORT_EVENTS_BUTTON_PREFIX).length
+  );
+
+  const voiceJob = voiceJobId ? await getVoiceMessageJob(db, voiceJobId) : null;
+
+  if (!voiceJob || voiceJob.whatsappNumberId !== whatsappNumberId) {
+    logger.warn({ selectionId, whatsappNumberId }, 'Import button did not match an invite sent from this number');
+    return false;
+  }
+
+  // Moving the job out of "awaiting_import" first means a double tap only acts once
+  const claimed = await transitionVoiceMessageJobStatus(
+    db,
+    voiceJob.id,
+    'awaiting_import',
+    isSkip ? 'completed' : 'importing',
+    isSkip ? new Date() : undefined
+  );
+
+  if (!claimed) {
+    await sendImportMessage(
+      context,
+      voiceJob.status === 'completed' || voiceJob.status === 'importing'
+        ? "I've already handled that invite."
+        : "That invite can't be added any more. Please forward it again."
+    );
+    return true;
+  }
+
+  if (isSkip) {
+    logger.info({ voiceJobId: voiceJob.id, userId }, 'Calendar invite import skipped');
+    await sendImportMessage(context, "Okay, I won't add it.");
+    return true;
+  }
+
+  try {
+    const queue = getQueue(QUEUE_NAMES.IMPORT_EVENTS);
+    await queue.add(
+      'import-events',
+      {
+        voiceJobId: voiceJob.id,
+      },
+      {
+        jobId: `import-events-${voiceJob.id}`,
+        attempts: 1,
+      }
+    );
+
+    logger.info({ voiceJobId: voiceJob.id, userId }, 'Enqueued calendar invite import');
+  } catch (error) {
+    logger.error(
+      { error, voiceJobId: voiceJob.id, senderPhone: message.from },
+      'Failed to enqueue calendar invite import'
+    );
+
+    // Let the user tap the button again
+    await transitionVoiceMessageJobStatus(db, voiceJob.id, 'importing', 'awaiting_import');
+    await sendImportMessage(context, "Sorry, I couldn't add that invite right now. Please tap the button again in a minute.");
+    return true;
+  }
+
+  summary.importRequests.push(voiceJob.id);
+  return true;
+}
+
+async function sendImportMessage(context: ImportContext, text: string): Promise<void> {
+  const { db, message, whatsappNumberId, userId } = context;
+
+  try {
+    const whatsappService = new WhatsAppService();
+    const response = await whatsappService.sendTextMessage(message.from, text);
+
+    await logOutgoingWhatsAppMessage(db, {
+      whatsappNumberId,
+      userId,
+      messageId: response?.messages?.[0]?.id,
+      messageType: 'text',
+      isFreeMessage: true,
+    });
+  } catch (error) {
+    logger.error(
+      { error, messageId: message.id, senderPhone: message.from },
+      'Failed to send import message'
+    );
+  }
+}
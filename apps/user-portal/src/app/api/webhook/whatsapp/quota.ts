@@ -0,0 +1,126 @@
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  checkUsageQuota,
+  claimLimitNotification,
+  logOutgoingWhatsAppMessage,
+  recordUsage,
+  type UsageKind,
+  type UsageLimitReason,
+  type UsagePeriod,
+} from '@imaginecalendar/database/queries';
+import { logger } from '@imaginecalendar/logger';
+import { WhatsAppService, getWhatsAppConfig } from '@imaginecalendar/whatsapp';
+
+interface QuotaContext {
+  db: Database;
+  message: any;
+  whatsappNumberId: string;
+  userId: string;
+}
+
+const LIMIT_BUTTON_TEXT: Record<UsageLimitReason, string> = {
+  no_plan: 'Choose a plan',
+  paused: 'Manage plan',
+  voice_notes: 'Upgrade',
+  audio_minutes: 'Upgrade',
+};
+
+function getLimitMessage(reason: UsageLimitReason, periodEnd: Date): string {
+  const resetDate = periodEnd.toLocaleDateString('en-ZA', { day: 'numeric', month: 'long' });
+
+  switch (reason) {
+    case 'voice_notes':
+      return `You've used all the voice notes in your plan for this month 🎙️\n\nUpgrade to keep sending them, or type your request instead. Your allowance resets on ${resetDate}.`;
+    case 'audio_minutes':
+      return `You've used all the voice note minutes in your plan for this month 🎙️\n\nUpgrade to keep sending them, or type your request instead. Your allowance resets on ${resetDate}.`;
+    case 'paused':
+      return 'Your CrackOn subscription is paused, so I can\'t manage your calendar for you right now.\n\nResume your plan to pick up where you left off.';
+    default:
+      return 'Your CrackOn plan has ended, so I can\'t manage your calendar for you right now.\n\nChoose a plan to pick up where you left off.';
+  }
+}
+
+/**
+ * Check the sender's plan allows this message before it is queued. When it doesn't, the user gets an
+ * upgrade button (at most once a day) and the message is dropped. Returns the usage period to record
+ * the message against when it may be processed.
+ */
+export async function enforceUsageQuota(
+  context: QuotaContext,
+  kind: UsageKind
+): Promise<{ allowed: boolean; period?: UsagePeriod }> {
+  const { db, message, whatsappNumberId, userId } = context;
+
+  let quota: Awaited<ReturnType<typeof checkUsageQuota>>;
+
+  try {
+    quota = await checkUsageQuota(db, userId, kind);
+  } catch (error) {
+    // Never drop a message because usage couldn't be read
+    logger.error({ error, userId, messageId: message.id, kind }, 'Failed to check usage quota');
+    return { allowed: true };
+  }
+
+  if (quota.allowed) {
+    return { allowed: true, period: quota.period };
+  }
+
+  logger.info(
+    { userId, messageId: message.id, kind, reason: quota.reason, periodEnd: quota.period.end },
+    'Message blocked by plan limit'
+  );
+
+  try {
+    const shouldNotify = await claimLimitNotification(db, userId, quota.period);
+
+    if (shouldNotify) {
+      const whatsappService = new WhatsAppService();
+      const response = await whatsappService.sendCTAButtonMessage(message.from, {
+        bodyText: getLimitMessage(quota.reason, quota.period.end),
+        buttonText: LIMIT_BUTTON_TEXT[quota.reason],
+        buttonUrl: getWhatsAppConfig().upgradeButtonUrl,
+      });
+
+      await logOutgoingWhatsAppMessage(db, {
+        whatsappNumberId,
+        userId,
+        messageId: response?.messages?.[0]?.id,
+        messageType: 'interactive',
+        isFreeMessage: true,
+      });
+    }
+  } catch (error) {
+    logger.error(
+      { error, userId, messageId: message.id, reason: quota.reason },
+      'Failed to send plan limit message'
+    );
+  }
+
+  return { allowed: false };
+}
+
+/**
+ * Count a queued message against the user's plan
+ */
+export async function recordMessageUsage(
+  db: Database,
+  userId: string,
+  kind: UsageKind,
+  period: UsagePeriod | undefined
+): Promise<void> {
+  if (!period) {
+    return;
+  }
+
+  try {
+    await recordUsage(db, {
+      userId,
+      period,
+      voiceNotes: kind === 'voice_note' ? 1 : 0,
+      textMessages: kind === 'text_message' ? 1 : 0,
+      mediaMessages: kind === 'media_message' ? 1 : 0,
+    });
+  } catch (error) {
+    logger.warn({ error, userId, kind }, 'Failed to record message usage');
+  }
+}
@@ -8,6 +8,9 @@ import type { WebhookProcessingSummary } from './types';
 import { handleAudioMessage } from './handlers/audio';
 import { handleTextMessage } from './handlers/text';
 import { handleInteractiveMessage } from './handlers/interactive';
+import { handleMediaMessage } from './handlers/media';
+import { handleContactsMessage } from './handlers/contacts';
+import { handleLocationMessage } from './handlers/location';
 import { handleVerificationMessage } from './verification';
 
 // WhatsApp webhook verification for development
@@ -109,6 +112,11 @@ export async function POST(req: NextRequest) {
       flowResponses: [],
       pendingIntentUpdates: [],
       processIntentRequeues: [],
+      correctionUpdates: [],
+      contactUpdates: [],
+      undoRequests: [],
+      importRequests: [],
+      locationUpdates: [],
     };
 
     for (const entry of result.data.entry) {
@@ -143,6 +151,16 @@ export async function POST(req: NextRequest) {
             case 'interactive':
               await handleInteractiveMessage(message, db, summary);
               break;
+            case 'image':
+            case 'document':
+              await handleMediaMessage(message, db, summary);
+              break;
+            case 'contacts':
+              await handleContactsMessage(message, db, summary);
+              break;
+            case 'location':
+              await handleLocationMessage(message, db, summary);
+              break;
             default:
               logger.warn({
                 messageId: message.id,
@@ -170,6 +188,11 @@ export async function POST(req: NextRequest) {
       summary.flowResponses.length > 0 ||
       summary.pendingIntentUpdates.length > 0 ||
       summary.processIntentRequeues.length > 0 ||
+      summary.correctionUpdates.length > 0 ||
+      summary.contactUpdates.length > 0 ||
+      summary.undoRequests.length > 0 ||
+      summary.importRequests.length > 0 ||
+      summary.locationUpdates.length > 0 ||
       summary.verificationSuccess.length > 0 ||
       summary.verificationFailures.length > 0;
 
@@ -189,6 +212,11 @@ export async function POST(req: NextRequest) {
         flowResponsesHandled: summary.flowResponses,
         pendingIntentUpdates: summary.pendingIntentUpdates,
         processIntentRequeues: summary.processIntentRequeues,
+        correctionUpdates: summary.correctionUpdates,
+        contactUpdates: summary.contactUpdates,
+        undoRequests: summary.undoRequests,
+        importRequests: summary.importRequests,
+        locationUpdates: summary.locationUpdates,
         verificationCodeSuccess: summary.verificationSuccess,
         verificationCodeFailures: summary.verificationFailures,
       },
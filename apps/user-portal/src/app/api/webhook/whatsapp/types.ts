@@ -8,6 +8,11 @@ export interface WebhookProcessingSummary {
   flowResponses: string[];
   pendingIntentUpdates: string[];
   processIntentRequeues: string[];
+  correctionUpdates: string[];
+  contactUpdates: string[];
+  undoRequests: string[];
+  importRequests: string[];
+  locationUpdates: string[];
 }
 
 export interface InteractiveSelectionContext {
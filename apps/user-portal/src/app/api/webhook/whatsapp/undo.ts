@@ -0,0 +1,172 @@
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  claimEventOperationUndo,
+  failEventOperationUndo,
+  getEventOperationById,
+  getLatestUndoableOperation,
+  logOutgoingWhatsAppMessage,
+} from '@imaginecalendar/database/queries';
+import { getQueue, QUEUE_NAMES } from '@/lib/queues';
+import { logger } from '@imaginecalendar/logger';
+import { WhatsAppService } from '@imaginecalendar/whatsapp';
+import type { WebhookProcessingSummary } from './types';
+
+// Matches the "Undo" button sent with create, update and delete confirmations
+export const UNDO_BUTTON_PREFIX = 'undo_';
+
+const UNDO_TEXT_PATTERN = /^(undo|undo (it|that)|revert( it| that)?)[.!]*$/i;
+
+// Changes older than this can no longer be undone; set UNDO_WINDOW_MINUTES to change it
+const DEFAULT_UNDO_WINDOW_MINUTES = 30;
+
+interface UndoContext {
+  db: Database;
+  message: any;
+  whatsappNumberId: string;
+  userId: string;
+  summary: WebhookProcessingSummary;
+}
+
+type EventOperation = NonNullable<Awaited<ReturnType<typeof getEventOperationById>>>;
+
+function getUndoWindowMs(): number {
+  const minutes = Number(process.env.UNDO_WINDOW_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_UNDO_WINDOW_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Handle an "undo" reply, which reverts the latest change made from this number. Returns true when the text was consumed.
+ */
+export async function processUndoText(
+  context: UndoContext & { messageText: string }
+): Promise<boolean> {
+  const { db, messageText, whatsappNumberId } = context;
+
+  if (!UNDO_TEXT_PATTERN.test(messageText)) {
+    return false;
+  }
+
+  const operation = await getLatestUndoableOperation(
+    db,
+    whatsappNumberId,
+    new Date(Date.now() - getUndoWindowMs())
+  );
+
+  if (!operation) {
+    await sendUndoMessage(context, "There's no recent calendar change for me to undo.");
+    return true;
+  }
+
+  return startUndo(context, operation);
+}
+
+/**
+ * Handle a tap on the "Undo" button of a confirmation
+ */
+export async function processUndoButton(
+  context: UndoContext & { selectionId: string }
+): Promise<boolean> {
+  const { db, selectionId, whatsappNumberId } = context;
+  const operationId = selectionId.slice(UNDO_BUTTON_PREFIX.length);
+
+  const operation = operationId ? await getEventOperationById(db, operationId) : null;
+
+  if (!operation || operation.whatsappNumberId !== whatsappNumberId) {
+    logger.warn({ selectionId, whatsappNumberId }, 'Undo button did not match a change made from this number');
+    return false;
+  }
+
+  if (operation.status === 'undo_failed') {
+    await sendUndoMessage(
+      context,
+      `I couldn't undo the change to "${operation.eventTitle}" earlier. Please fix it in your calendar.`
+    );
+    return true;
+  }
+
+  if (operation.status === 'undoing') {
+    await sendUndoMessage(context, `I'm still undoing the change to "${operation.eventTitle}".`);
+    return true;
+  }
+
+  if (operation.status !== 'applied') {
+    await sendUndoMessage(context, `I've already undone the change to "${operation.eventTitle}".`);
+    return true;
+  }
+
+  if (operation.createdAt.getTime() < Date.now() - getUndoWindowMs()) {
+    await sendUndoMessage(
+      context,
+      `That change to "${operation.eventTitle}" is too old to undo here. You can still edit the event in your calendar.`
+    );
+    return true;
+  }
+
+  return startUndo(context, operation);
+}
+
+async function startUndo(context: UndoContext, operation: EventOperation): Promise<boolean> {
+  const { db, message, userId, summary } = context;
+
+  // Claiming first means a double tap or a button tap plus "undo" only reverts once
+  const claimed = await claimEventOperationUndo(db, operation.id);
+
+  if (!claimed) {
+    await sendUndoMessage(context, `I've already undone the change to "${operation.eventTitle}".`);
+    return true;
+  }
+
+  try {
+    const queue = getQueue(QUEUE_NAMES.UNDO_OPERATION);
+    await queue.add(
+      'undo-operation',
+      {
+        operationId: operation.id,
+        userId,
+        senderPhone: message.from,
+      },
+      {
+        jobId: `undo-${operation.id}`,
+      }
+    );
+
+    logger.info(
+      { operationId: operation.id, voiceJobId: operation.voiceJobId, action: operation.action },
+      'Enqueued undo of calendar change'
+    );
+  } catch (error) {
+    logger.error(
+      { error, operationId: operation.id, voiceJobId: operation.voiceJobId },
+      'Failed to enqueue undo of calendar change'
+    );
+
+    await failEventOperationUndo(db, operation.id, 'Could not enqueue undo');
+    await sendUndoMessage(context, "Sorry, I couldn't undo that right now. Please try again from your calendar.");
+    return true;
+  }
+
+  summary.undoRequests.push(operation.id);
+  return true;
+}
+
+async function sendUndoMessage(context: UndoContext, text: string): Promise<void> {
+  const { db, message, whatsappNumberId, userId } = context;
+
+  try {
+    const whatsappService = new WhatsAppService();
+    const response = await whatsappService.sendTextMessage(message.from, text);
+
+    await logOutgoingWhatsAppMessage(db, {
+      whatsappNumberId,
+      userId,
+      messageId: response?.messages?.[0]?.id,
+      messageType: 'text',
+      isFreeMessage: true,
+    });
+  } catch (error) {
+    logger.error(
+      { error, messageId: message.id, senderPhone: message.from },
+      'Failed to send undo message'
+    );
+  }
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTRPC } from "@/trpc/client";
+import { Button } from "@imaginecalendar/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@imaginecalendar/ui/card";
+import { Input } from "@imaginecalendar/ui/input";
+import { Label } from "@imaginecalendar/ui/label";
+import { Badge } from "@imaginecalendar/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@imaginecalendar/ui/select";
+import { useToast } from "@imaginecalendar/ui/use-toast";
+import { Route, Plus, Trash2 } from "lucide-react";
+
+// Select items can't have an empty value, so "no default" is stored under a sentinel
+const PRIMARY_CALENDAR_VALUE = "__primary__";
+
+interface RoutableCalendar {
+  id: string;
+  provider: string;
+  email: string;
+  calendarName: string | null;
+  label: string | null;
+  isPrimary: boolean;
+  isActive: boolean;
+}
+
+interface CalendarRoutingSettingsProps {
+  calendars: RoutableCalendar[];
+  onCalendarsChange?: () => void;
+}
+
+export function CalendarRoutingSettings({
+  calendars,
+  onCalendarsChange,
+}: CalendarRoutingSettingsProps) {
+  const trpc = useTRPC();
+  const { toast } = useToast();
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [keyword, setKeyword] = useState("");
+  const [ruleCalendarId, setRuleCalendarId] = useState<string>("");
+
+  const { data: routing, refetch } = useQuery(
+    trpc.calendar.routing.queryOptions()
+  );
+
+  const getCalendarDisplayName = (calendar: RoutableCalendar) =>
+    calendar.label || calendar.calendarName || `${calendar.provider} Calendar`;
+
+  const onError = (error: { message: string }) => {
+    toast({
+      title: "Update failed",
+      description: error.message || "Failed to update event routing. Please try again.",
+      variant: "error",
+      duration: 3500,
+    });
+  };
+
+  // Set default calendar mutation
+  const setDefaultMutation = useMutation(
+    trpc.calendar.setDefault.mutationOptions({
+      onSuccess: () => {
+        toast({
+          title: "Default calendar updated",
+          description: "New events will go to this calendar unless a rule matches.",
+          variant: "success",
+        });
+        refetch();
+      },
+      onError,
+    })
+  );
+
+  // Calendar label mutation
+  const updateLabelMutation = useMutation(
+    trpc.calendar.update.mutationOptions({
+      onSuccess: () => {
+        toast({
+          title: "Calendar name saved",
+          description: "You can now mention this calendar by name in your voice notes.",
+          variant: "success",
+        });
+        onCalendarsChange?.();
+      },
+      onError,
+    })
+  );
+
+  // Routing rule mutations
+  const addRuleMutation = useMutation(
+    trpc.calendar.addRoutingRule.mutationOptions({
+      onSuccess: () => {
+        setKeyword("");
+        refetch();
+      },
+      onError,
+    })
+  );
+
+  const removeRuleMutation = useMutation(
+    trpc.calendar.removeRoutingRule.mutationOptions({
+      onSuccess: () => refetch(),
+      onError,
+    })
+  );
+
+  const handleDefaultChange = (value: string) => {
+    setDefaultMutation.mutate({
+      id: value === PRIMARY_CALENDAR_VALUE ? null : value,
+    });
+  };
+
+  const handleLabelSave = (calendar: RoutableCalendar) => {
+    const label = labels[calendar.id];
+
+    if (label === undefined || label.trim() === (calendar.label ?? "")) {
+      return;
+    }
+
+    updateLabelMutation.mutate({
+      id: calendar.id,
+      label: label.trim() || null,
+    });
+  };
+
+  const handleAddRule = () => {
+    if (!keyword.trim() || !ruleCalendarId) {
+      toast({
+        title: "Incomplete rule",
+        description: "Enter a keyword and choose a calendar for it.",
+        variant: "error",
+        duration: 3500,
+      });
+      return;
+    }
+
+    addRuleMutation.mutate({
+      keyword: keyword.trim(),
+      calendarId: ruleCalendarId,
+    });
+  };
+
+  const calendarsById = new Map(calendars.map((calendar) => [calendar.id, calendar]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Route className="h-5 w-5" />
+          Event Routing
+        </CardTitle>
+        <CardDescription>
+          Choose which calendar new events from WhatsApp go into
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {/* Default calendar */}
+        <div className="space-y-2">
+          <Label htmlFor="default-calendar">Default calendar</Label>
+          <Select
+            value={routing?.defaultCalendarId ?? PRIMARY_CALENDAR_VALUE}
+            onValueChange={handleDefaultChange}
+            disabled={setDefaultMutation.isPending}
+          >
+            <SelectTrigger id="default-calendar" className="w-full sm:w-80">
+              <SelectValue placeholder="Primary calendar" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={PRIMARY_CALENDAR_VALUE}>Primary calendar</SelectItem>
+              {calendars.map((calendar) => (
+                <SelectItem key={calendar.id} value={calendar.id}>
+                  {getCalendarDisplayName(calendar)} ({calendar.email})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            Used when you don't name a calendar and no keyword rule matches.
+          </p>
+        </div>
+
+        {/* Calendar names */}
+        <div className="space-y-3">
+          <div>
+            <Label>Calendar names</Label>
+            <p className="text-sm text-muted-foreground">
+              Give each calendar a short name so you can say things like "put it in my work calendar".
+            </p>
+          </div>
+          {calendars.map((calendar) => (
+            <div key={calendar.id} className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <span className="text-sm sm:w-64 truncate">
+                {calendar.calendarName || `${calendar.provider} Calendar`}
+                <span className="text-muted-foreground"> · {calendar.email}</span>
+              </span>
+              <Input
+                className="sm:w-48"
+                placeholder="e.g. Work"
+                maxLength={50}
+                value={labels[calendar.id] ?? calendar.label ?? ""}
+                onChange={(e) => setLabels((prev) => ({ ...prev, [calendar.id]: e.target.value }))}
+                onBlur={() => handleLabelSave(calendar)}
+                disabled={updateLabelMutation.isPending}
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* Keyword rules */}
+        <div className="space-y-3">
+          <div>
+            <Label>Keyword rules</Label>
+            <p className="text-sm text-muted-foreground">
+              Events whose title, description or location mention a keyword go to its calendar.
+            </p>
+          </div>
+
+          {routing?.rules.length ? (
+            <div className="space-y-2">
+              {routing.rules.map((rule) => {
+                const calendar = calendarsById.get(rule.calendarConnectionId);
+                return (
+                  <div
+                    key={rule.id}
+                    className="flex items-center justify-between gap-2 rounded-md border px-3 py-2"
+                  >
+                    <div className="flex items-center gap-2 text-sm min-w-0">
+                      <Badge variant="secondary">{rule.keyword}</Badge>
+                      <span className="text-muted-foreground">→</span>
+                      <span className="truncate">
+                        {calendar ? getCalendarDisplayName(calendar) : "Disconnected calendar"}
+                      </span>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeRuleMutation.mutate({ id: rule.id })}
+                      disabled={removeRuleMutation.isPending}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No keyword rules yet.</p>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              className="sm:w-48"
+              placeholder="e.g. gym"
+              maxLength={50}
+              value={keyword}
+              onChange={(e) => setKeyword(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleAddRule();
+              }}
+            />
+            <Select value={ruleCalendarId} onValueChange={setRuleCalendarId}>
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue placeholder="Choose calendar" />
+              </SelectTrigger>
+              <SelectContent>
+                {calendars.map((calendar) => (
+                  <SelectItem key={calendar.id} value={calendar.id}>
+                    {getCalendarDisplayName(calendar)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={handleAddRule}
+              disabled={addRuleMutation.isPending}
+              className="flex items-center gap-1"
+            >
+              <Plus className="h-4 w-4" />
+              Add rule
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTRPC } from "@/trpc/client";
+import { Button } from "@imaginecalendar/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@imaginecalendar/ui/card";
+import { Input } from "@imaginecalendar/ui/input";
+import { Label } from "@imaginecalendar/ui/label";
+import { Badge } from "@imaginecalendar/ui/badge";
+import { useToast } from "@imaginecalendar/ui/use-toast";
+import { Users, Plus, Trash2 } from "lucide-react";
+
+export function ContactAliasSettings() {
+  const trpc = useTRPC();
+  const { toast } = useToast();
+  const [alias, setAlias] = useState("");
+  const [email, setEmail] = useState("");
+
+  const { data: aliases, refetch } = useQuery(trpc.contacts.aliases.queryOptions());
+  const { data: contacts } = useQuery(trpc.contacts.list.queryOptions());
+
+  const onError = (error: { message: string }) => {
+    toast({
+      title: "Update failed",
+      description: error.message || "Failed to update your aliases. Please try again.",
+      variant: "error",
+      duration: 3500,
+    });
+  };
+
+  const addAliasMutation = useMutation(
+    trpc.contacts.addAlias.mutationOptions({
+      onSuccess: () => {
+        setAlias("");
+        setEmail("");
+        refetch();
+      },
+      onError,
+    })
+  );
+
+  const removeAliasMutation = useMutation(
+    trpc.contacts.removeAlias.mutationOptions({
+      onSuccess: () => refetch(),
+      onError,
+    })
+  );
+
+  const contactsByEmail = new Map((contacts ?? []).map((contact) => [contact.email, contact]));
+
+  const handleAddAlias = () => {
+    if (!alias.trim() || !email.trim()) {
+      toast({
+        title: "Incomplete alias",
+        description: "Enter a name you use and the email address it stands for.",
+        variant: "error",
+        duration: 3500,
+      });
+      return;
+    }
+
+    const contact = contactsByEmail.get(email.trim().toLowerCase());
+
+    addAliasMutation.mutate({
+      alias: alias.trim(),
+      email: email.trim(),
+      name: contact?.name ?? null,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          People Aliases
+        </CardTitle>
+        <CardDescription>
+          Names you use for people in voice notes, like "my boss" or "the accountant"
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {aliases?.length ? (
+          <div className="space-y-2">
+            {aliases.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between gap-2 rounded-md border px-3 py-2"
+              >
+                <div className="flex items-center gap-2 text-sm min-w-0">
+                  <Badge variant="secondary">{entry.alias}</Badge>
+                  <span className="text-muted-foreground">→</span>
+                  <span className="truncate">
+                    {entry.name ? `${entry.name} · ${entry.email}` : entry.email}
+                  </span>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => removeAliasMutation.mutate({ id: entry.id })}
+                  disabled={removeAliasMutation.isPending}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No aliases yet.</p>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="contact-alias" className="sr-only">Alias</Label>
+            <Input
+              id="contact-alias"
+              className="sm:w-48"
+              placeholder="e.g. my boss"
+              maxLength={50}
+              value={alias}
+              onChange={(e) => setAlias(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="contact-alias-email" className="sr-only">Email</Label>
+            <Input
+              id="contact-alias-email"
+              className="sm:w-64"
+              type="email"
+              placeholder="jane@company.com"
+              list="contact-alias-suggestions"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleAddAlias();
+              }}
+            />
+            <datalist id="contact-alias-suggestions">
+              {(contacts ?? []).map((contact) => (
+                <option key={contact.id} value={contact.email}>
+                  {contact.name}
+                </option>
+              ))}
+            </datalist>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleAddAlias}
+            disabled={addAliasMutation.isPending}
+            className="flex items-center gap-1"
+          >
+            <Plus className="h-4 w-4" />
+            Add alias
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,6 +9,7 @@ import {
   User,
   Settings,
   Calendar,
+  Users,
   CreditCard,
   FileText,
   Menu,
@@ -30,6 +31,7 @@ const navigation = [
   { name: "Profile", href: "/settings/profile", icon: User },
   { name: "Preferences", href: "/settings/preferences", icon: Settings },
   { name: "Calendars", href: "/settings/calendars", icon: Calendar },
+  { name: "Contacts", href: "/settings/contacts", icon: Users },
   { name: "Subscription", href: "/billing", icon: CreditCard },
   { name: "Invoices", href: "/billing/invoices", icon: FileText },
 ];
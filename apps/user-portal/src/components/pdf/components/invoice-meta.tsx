@@ -88,6 +88,8 @@ interface InvoiceMetaProps {
     date: Date | null;
     dueDate?: Date | null;
     status: string;
+    type?: 'receipt' | 'credit_note';
+    originalNumber?: string;
   };
   totals: {
     total: number;
@@ -145,21 +147,23 @@ export const InvoiceMeta: React.FC<InvoiceMetaProps> = ({ invoice, totals, payme
   };
 
   const statusStyle = getStatusStyle();
+  const isCreditNote = invoice.type === 'credit_note';
 
   return (
     <View style={styles.container}>
       <Text style={styles.invoiceNumber}>
-        Receipt # {invoice.number}
+        {isCreditNote ? 'Credit Note' : 'Receipt'} # {invoice.number}
+        {isCreditNote && invoice.originalNumber ? ` (against Receipt # ${invoice.originalNumber})` : ''}
       </Text>
       
       <View style={styles.metaGrid}>
         <View style={styles.metaColumn}>
-          <Text style={styles.metaLabel}>Amount Paid</Text>
+          <Text style={styles.metaLabel}>{isCreditNote ? 'Amount Refunded' : 'Amount Paid'}</Text>
           <Text style={styles.metaValue}>{formatCurrency(totals.total)}</Text>
         </View>
 
         <View style={styles.metaColumn}>
-          <Text style={styles.metaLabel}>Receipt Date</Text>
+          <Text style={styles.metaLabel}>{isCreditNote ? 'Credit Note Date' : 'Receipt Date'}</Text>
           <Text style={styles.metaValue}>{formatDate(invoice.date)}</Text>
         </View>
 
@@ -88,9 +88,10 @@ interface SummaryProps {
     paidAt?: Date | null;
     reference?: string;
   };
+  isCreditNote?: boolean;
 }
 
-export const Summary: React.FC<SummaryProps> = ({ totals, payment }) => {
+export const Summary: React.FC<SummaryProps> = ({ totals, payment, isCreditNote }) => {
   const formatCurrency = (amount: number) => {
     const symbol = totals.currency === 'ZAR' ? 'R' : 
                    totals.currency === 'USD' ? '$' : 
@@ -116,15 +117,15 @@ export const Summary: React.FC<SummaryProps> = ({ totals, payment }) => {
         <View style={styles.divider} />
         
         <View style={styles.totalRow}>
-          <Text style={styles.totalLabel}>Amount Paid</Text>
+          <Text style={styles.totalLabel}>{isCreditNote ? 'Amount Refunded' : 'Amount Paid'}</Text>
           <Text style={styles.totalValue}>{formatCurrency(totals.total)}</Text>
         </View>
       </View>
       
-      {payment.status === 'completed' && (
+      {(payment.status === 'completed' || isCreditNote) && (
         <View style={styles.paymentInfo}>
           <Text style={styles.paymentText}>
-            Payment processed successfully on {payment.paidAt ? new Date(payment.paidAt).toLocaleDateString() : 'N/A'}
+            {isCreditNote ? 'Refund processed' : 'Payment processed successfully'} on {payment.paidAt ? new Date(payment.paidAt).toLocaleDateString() : 'N/A'}
           </Text>
           {payment.reference && (
             <Text style={styles.paymentText}>
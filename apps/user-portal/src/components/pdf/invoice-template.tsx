@@ -53,6 +53,8 @@ export interface InvoiceData {
     date: Date | null;
     dueDate?: Date | null;
     status: string;
+    type?: 'receipt' | 'credit_note';
+    originalNumber?: string; // Receipt a credit note was issued against
   };
   customer: {
     name: string;
@@ -112,7 +114,11 @@ export const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ data }) => {
           <View style={styles.divider} />
           
           {/* Summary with totals */}
-          <Summary totals={data.totals} payment={data.payment} />
+          <Summary
+            totals={data.totals}
+            payment={data.payment}
+            isCreditNote={data.invoice.type === 'credit_note'}
+          />
           
           
         </View>
@@ -0,0 +1,121 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useTRPC } from "@/trpc/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@imaginecalendar/ui/dialog";
+import { Button } from "@imaginecalendar/ui/button";
+import { cn } from "@imaginecalendar/ui/cn";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface PlanChangeDialogProps {
+  planId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (planId: string) => void;
+  isConfirming: boolean;
+}
+
+function formatAmount(cents: number): string {
+  const sign = cents < 0 ? "-" : "";
+  return `${sign}R${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+export function PlanChangeDialog({
+  planId,
+  onOpenChange,
+  onConfirm,
+  isConfirming,
+}: PlanChangeDialogProps) {
+  const trpc = useTRPC();
+
+  const { data: preview, isLoading, error } = useQuery({
+    ...trpc.billing.previewPlanChange.queryOptions({ plan: planId ?? "" }),
+    enabled: !!planId,
+  });
+
+  const proration = preview?.type === "proration" ? preview : null;
+
+  return (
+    <Dialog open={!!planId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>
+            {proration ? `Switch to ${proration.newPlanName}` : "Change plan"}
+          </DialogTitle>
+          <DialogDescription>
+            You get credit for the unused time on your current plan.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {error.message || "We couldn't work out the cost of this change."}
+          </p>
+        ) : proration ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {proration.lineItems.map((item) => (
+                <div key={item.description} className="flex items-start justify-between gap-4 text-sm">
+                  <span className="text-muted-foreground">{item.description}</span>
+                  <span className={cn("whitespace-nowrap", item.amount < 0 && "text-green-600")}>
+                    {formatAmount(item.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between border-t pt-3 font-semibold">
+              <span>Due today</span>
+              <span>{formatAmount(proration.amountDueCents)}</span>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Your next payment of {formatAmount(proration.nextChargeCents)} is on{" "}
+              {format(new Date(proration.nextBillingDate), "PPP")}
+              {proration.creditCarriedCents > 0 ? ", with your leftover credit taken off." : "."}
+            </p>
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isConfirming}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="blue-primary"
+            onClick={() => planId && onConfirm(planId)}
+            disabled={!proration || isConfirming}
+          >
+            {isConfirming ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Updating...
+              </>
+            ) : proration && proration.amountDueCents > 0 ? (
+              `Pay ${formatAmount(proration.amountDueCents)} and switch`
+            ) : (
+              "Confirm change"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTRPC } from "@/trpc/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@imaginecalendar/ui/dialog";
+import { Button } from "@imaginecalendar/ui/button";
+import { Label } from "@imaginecalendar/ui/label";
+import { Textarea } from "@imaginecalendar/ui/textarea";
+import { useToast } from "@imaginecalendar/ui/use-toast";
+import { Loader2 } from "lucide-react";
+
+// Matches the minimum the API accepts for a refund reason
+const MIN_REASON_LENGTH = 10;
+
+interface RefundRequestDialogProps {
+  invoice: { id: string; invoiceNumber: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RefundRequestDialog({ invoice, onOpenChange }: RefundRequestDialogProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  const close = () => {
+    setReason("");
+    onOpenChange(false);
+  };
+
+  const requestRefundMutation = useMutation(
+    trpc.payments.requestRefund.mutationOptions({
+      onSuccess: async () => {
+        await queryClient.invalidateQueries({
+          queryKey: trpc.payments.getRefundRequests.queryKey(),
+        });
+        toast({
+          title: "Refund requested",
+          description: "We'll review your request and let you know once it's been processed.",
+        });
+        close();
+      },
+      onError: (error) => {
+        toast({
+          title: "Refund request failed",
+          description: error.message || "Failed to submit your refund request. Please try again.",
+          variant: "error",
+        });
+      },
+    })
+  );
+
+  const trimmedReason = reason.trim();
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={(open) => (open ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Request a refund</DialogTitle>
+          <DialogDescription>
+            Tell us why you'd like a refund for invoice {invoice?.invoiceNumber}. Approved refunds are paid back to the card you paid with.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="refund-reason">Reason</Label>
+          <Textarea
+            id="refund-reason"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            placeholder="What went wrong?"
+            maxLength={500}
+            rows={4}
+          />
+          {trimmedReason.length > 0 && trimmedReason.length < MIN_REASON_LENGTH && (
+            <p className="text-xs text-muted-foreground">
+              Please give a little more detail ({MIN_REASON_LENGTH} characters or more).
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={close}
+            disabled={requestRefundMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="blue-primary"
+            onClick={() => invoice && requestRefundMutation.mutate({ paymentId: invoice.id, reason: trimmedReason })}
+            disabled={trimmedReason.length < MIN_REASON_LENGTH || requestRefundMutation.isPending}
+          >
+            {requestRefundMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              "Request refund"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,312 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTRPC } from "@/trpc/client";
+import { useUser } from "@clerk/nextjs";
+import { Button } from "@imaginecalendar/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@imaginecalendar/ui/card";
+import { Input } from "@imaginecalendar/ui/input";
+import { Label } from "@imaginecalendar/ui/label";
+import { Badge } from "@imaginecalendar/ui/badge";
+import { useToast } from "@imaginecalendar/ui/use-toast";
+import { Users, Plus, Trash2, Pencil, Check, X, Upload, KeyRound } from "lucide-react";
+
+const PROVIDER_LABELS: Record<string, string> = {
+  google: "Google",
+  microsoft: "Outlook",
+};
+
+export function SavedContactsSettings() {
+  const trpc = useTRPC();
+  const { toast } = useToast();
+  const { user } = useUser();
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [editing, setEditing] = useState<{ id: string; name: string; email: string } | null>(null);
+  // Accounts that turned down a write because they were only connected with read access to contacts
+  const [readOnlyAccountIds, setReadOnlyAccountIds] = useState<string[]>([]);
+
+  const { data: contacts, isLoading, refetch } = useQuery(trpc.contacts.saved.queryOptions());
+  const { data: calendars = [] } = useQuery(trpc.calendar.list.queryOptions());
+
+  // One write-back target per account, even when several of its calendars are connected
+  const accounts = Array.from(
+    new Map(
+      calendars
+        .filter((calendar) => calendar.isActive)
+        .map((calendar) => [`${calendar.provider}:${calendar.email}`, calendar])
+    ).values()
+  );
+
+  const onError = (error: { message: string }) => {
+    toast({
+      title: "Update failed",
+      description: error.message || "Failed to update your contacts. Please try again.",
+      variant: "error",
+      duration: 3500,
+    });
+  };
+
+  const addMutation = useMutation(
+    trpc.contacts.addSaved.mutationOptions({
+      onSuccess: () => {
+        setName("");
+        setEmail("");
+        refetch();
+      },
+      onError,
+    })
+  );
+
+  const updateMutation = useMutation(
+    trpc.contacts.updateSaved.mutationOptions({
+      onSuccess: () => {
+        setEditing(null);
+        refetch();
+      },
+      onError,
+    })
+  );
+
+  const removeMutation = useMutation(
+    trpc.contacts.removeSaved.mutationOptions({
+      onSuccess: () => refetch(),
+      onError,
+    })
+  );
+
+  const writeBackMutation = useMutation(
+    trpc.contacts.writeBack.mutationOptions({
+      onSuccess: () => {
+        toast({
+          title: "Contact saved",
+          description: "The contact was added to your account.",
+          variant: "success",
+          duration: 3000,
+        });
+        refetch();
+      },
+      onError: (error, variables) => {
+        if (error.data?.code === "FORBIDDEN") {
+          setReadOnlyAccountIds((ids) =>
+            ids.includes(variables.calendarConnectionId) ? ids : [...ids, variables.calendarConnectionId]
+          );
+        }
+
+        onError(error);
+      },
+    })
+  );
+
+  // Send the user through the provider's consent screen again, this time asking to edit contacts
+  const handleAllowWrite = async (account: { id: string; provider: string }) => {
+    if (!user) {
+      return;
+    }
+
+    try {
+      const state = `${account.provider}:${user.id}:contacts:${account.id}`;
+      const response = await fetch(
+        `/api/calendars/auth?provider=${account.provider}&contacts=write&state=${encodeURIComponent(state)}`
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to get authorization URL");
+      }
+
+      const { authUrl } = await response.json();
+      window.location.href = authUrl;
+    } catch (error: any) {
+      onError(error);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!name.trim() || !email.trim()) {
+      toast({
+        title: "Incomplete contact",
+        description: "Enter the person's name and email address.",
+        variant: "error",
+        duration: 3500,
+      });
+      return;
+    }
+
+    addMutation.mutate({ name: name.trim(), email: email.trim() });
+  };
+
+  const handleSaveEdit = () => {
+    if (!editing || !editing.name.trim() || !editing.email.trim()) {
+      return;
+    }
+
+    updateMutation.mutate({
+      id: editing.id,
+      name: editing.name.trim(),
+      email: editing.email.trim(),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Saved Contacts
+        </CardTitle>
+        <CardDescription>
+          People you added yourself or saved from WhatsApp. We use them to invite the right person when you mention them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading contacts...</p>
+        ) : contacts?.length ? (
+          <div className="space-y-2">
+            {contacts.map((contact) =>
+              editing?.id === contact.id ? (
+                <div
+                  key={contact.id}
+                  className="flex flex-col sm:flex-row sm:items-center gap-2 rounded-md border px-3 py-2"
+                >
+                  <Input
+                    className="sm:w-48"
+                    maxLength={100}
+                    value={editing.name}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  />
+                  <Input
+                    className="sm:w-64"
+                    type="email"
+                    value={editing.email}
+                    onChange={(e) => setEditing({ ...editing, email: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleSaveEdit();
+                    }}
+                  />
+                  <div className="flex gap-1">
+                    <Button size="sm" variant="ghost" onClick={handleSaveEdit} disabled={updateMutation.isPending}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div
+                  key={contact.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md border px-3 py-2"
+                >
+                  <div className="flex items-center gap-2 text-sm min-w-0">
+                    <span className="font-medium truncate">{contact.name}</span>
+                    <span className="text-muted-foreground truncate">{contact.email}</span>
+                    {(contact.source === "clarification" || contact.source === "vcard") && (
+                      <Badge variant="secondary">WhatsApp</Badge>
+                    )}
+                    {contact.writtenBackTo && (
+                      <Badge variant="outline">
+                        In {PROVIDER_LABELS[contact.writtenBackTo.provider] ?? contact.writtenBackTo.provider}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {!contact.writtenBackTo &&
+                      accounts.map((account) =>
+                        readOnlyAccountIds.includes(account.id) ? (
+                          <Button
+                            key={account.id}
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleAllowWrite(account)}
+                            title={account.email}
+                            className="flex items-center gap-1"
+                          >
+                            <KeyRound className="h-4 w-4" />
+                            Allow saving to {PROVIDER_LABELS[account.provider] ?? account.provider}
+                          </Button>
+                        ) : (
+                          <Button
+                            key={account.id}
+                            size="sm"
+                            variant="outline"
+                            onClick={() =>
+                              writeBackMutation.mutate({ id: contact.id, calendarConnectionId: account.id })
+                            }
+                            disabled={writeBackMutation.isPending}
+                            title={account.email}
+                            className="flex items-center gap-1"
+                          >
+                            <Upload className="h-4 w-4" />
+                            Save to {PROVIDER_LABELS[account.provider] ?? account.provider}
+                          </Button>
+                        )
+                      )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setEditing({ id: contact.id, name: contact.name, email: contact.email })}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeMutation.mutate({ id: contact.id })}
+                      disabled={removeMutation.isPending}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No saved contacts yet. When you give us someone's email on WhatsApp, we'll offer to save it here.
+          </p>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="saved-contact-name" className="sr-only">Name</Label>
+            <Input
+              id="saved-contact-name"
+              className="sm:w-48"
+              placeholder="e.g. Thabo"
+              maxLength={100}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="saved-contact-email" className="sr-only">Email</Label>
+            <Input
+              id="saved-contact-email"
+              className="sm:w-64"
+              type="email"
+              placeholder="thabo@company.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleAdd();
+              }}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleAdd}
+            disabled={addMutation.isPending}
+            className="flex items-center gap-1"
+          >
+            <Plus className="h-4 w-4" />
+            Add contact
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
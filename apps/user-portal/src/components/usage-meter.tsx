@@ -0,0 +1,82 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useTRPC } from "@/trpc/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@imaginecalendar/ui/card";
+import { Progress } from "@imaginecalendar/ui/progress";
+import { cn } from "@imaginecalendar/ui/cn";
+import { Gauge } from "lucide-react";
+import { format } from "date-fns";
+
+function UsageRow({ label, used, limit, unit }: {
+  label: string;
+  used: number;
+  limit: number | null;
+  unit?: string;
+}) {
+  const percent = limit ? Math.min(100, Math.round((used / limit) * 100)) : 0;
+  const suffix = unit ? ` ${unit}` : "";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        <span className={cn("text-muted-foreground", limit !== null && used >= limit && "text-destructive font-medium")}>
+          {limit === null ? `${used}${suffix} used · Unlimited` : `${used} of ${limit}${suffix}`}
+        </span>
+      </div>
+      {limit !== null && (
+        <Progress
+          value={percent}
+          className={cn("h-2 rounded-full", percent >= 100 && "[&>div]:bg-destructive")}
+        />
+      )}
+    </div>
+  );
+}
+
+export function UsageMeter() {
+  const trpc = useTRPC();
+  const { data, isLoading } = useQuery(trpc.billing.getUsage.queryOptions());
+
+  if (isLoading || !data) {
+    return null;
+  }
+
+  const { entitlements, usage, period } = data;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Usage This Month
+        </CardTitle>
+        <CardDescription>
+          {data.hasPlan
+            ? `Resets on ${format(new Date(period.end), "PPP")}`
+            : data.isPaused
+              ? "Your subscription is paused. Resume it to keep using CrackOn on WhatsApp"
+              : "Choose a plan below to keep using CrackOn on WhatsApp"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <UsageRow label="Voice notes" used={usage.voiceNotes} limit={entitlements.voiceNotesPerMonth} />
+        <UsageRow
+          label="Voice note minutes"
+          used={Math.ceil(usage.audioSeconds / 60)}
+          limit={entitlements.audioMinutesPerMonth}
+          unit="min"
+        />
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">Typed messages</span>
+          <span className="text-muted-foreground">{usage.textMessages}</span>
+        </div>
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">Images and documents</span>
+          <span className="text-muted-foreground">{usage.mediaMessages}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
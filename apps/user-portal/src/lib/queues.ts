@@ -10,6 +10,12 @@ export const QUEUE_NAMES = {
   PROCESS_INTENT: 'voice-process-intent',
   CREATE_EVENT: 'voice-create-event',
   SEND_NOTIFICATION: 'voice-send-notification',
+  APPLY_CORRECTION: 'voice-apply-correction',
+  UNDO_OPERATION: 'voice-undo-operation',
+  EXTRACT_MEDIA: 'voice-extract-media',
+  IMPORT_ATTACHMENT: 'voice-import-attachment',
+  IMPORT_EVENTS: 'voice-import-events',
+  ATTACH_LOCATION: 'voice-attach-location',
 } as const;
 
 // Queue instances cache
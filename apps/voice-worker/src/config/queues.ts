@@ -14,8 +14,41 @@ export const QUEUE_NAMES = {
   DELETE_EVENT: 'voice-delete-event',
   CLARIFICATION_WATCHDOG: 'voice-clarification-watchdog',
   SEND_NOTIFICATION: 'voice-send-notification',
+  EVENT_REMINDER_SCHEDULER: 'voice-event-reminder-scheduler',
+  SEND_EVENT_REMINDER: 'voice-send-event-reminder',
+  DAILY_DIGEST_SCHEDULER: 'voice-daily-digest-scheduler',
+  SEND_DAILY_DIGEST: 'voice-send-daily-digest',
+  QUERY_EVENTS: 'voice-query-events',
+  APPLY_CORRECTION: 'voice-apply-correction',
+  UNDO_OPERATION: 'voice-undo-operation',
+  EXTRACT_MEDIA: 'voice-extract-media',
+  IMPORT_ATTACHMENT: 'voice-import-attachment',
+  IMPORT_EVENTS: 'voice-import-events',
+  ATTACH_LOCATION: 'voice-attach-location',
+  BILLING_SCHEDULER: 'voice-billing-scheduler',
 } as const;
 
+// How often the reminder scheduler polls connected calendars
+export const EVENT_REMINDER_POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+// How often the daily digest scheduler checks for users whose digest time has arrived
+export const DAILY_DIGEST_POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+// A digest that couldn't go out within this long after its time is skipped for the day
+export const DAILY_DIGEST_SEND_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+// How often the billing scheduler checks trials and failed renewals
+export const BILLING_POLL_INTERVAL_MS = 60 * 60 * 1000;
+
+// Days before a trial ends that the user is reminded to choose a plan
+export const TRIAL_REMINDER_DAYS = [3, 1];
+
+// Days after a PayFast renewal failed that the user is asked to update their payment details
+export const DUNNING_REMINDER_DAYS = [0, 3, 6];
+
+// Days a failed renewal is left unpaid before the subscription is paused
+export const DUNNING_GRACE_PERIOD_DAYS = 7;
+
 // Job data types for each queue
 export interface DownloadAudioJobData {
   voiceJobId: string;
@@ -29,6 +62,28 @@ export interface TranscribeAudioJobData {
   mimeType: string;
 }
 
+// Images and PDF documents are read for event details instead of transcribed
+export interface ExtractMediaJobData {
+  voiceJobId: string;
+  mediaId: string;
+  mimeType: string;
+  caption?: string;
+  filename?: string;
+}
+
+// Calendar invites (.ics) and contact cards (.vcf) are read as they are, without a model
+export interface ImportAttachmentJobData {
+  voiceJobId: string;
+  mediaId: string;
+  mimeType: string;
+  kind: 'icalendar' | 'vcard';
+}
+
+// Sent when the user taps "Add to calendar" on an invite they forwarded
+export interface ImportEventsJobData {
+  voiceJobId: string;
+}
+
 export interface AnalyzeIntentJobData {
   voiceJobId: string;
   transcribedText: string;
@@ -45,19 +100,65 @@ export interface ProcessIntentJobData {
   senderPhone: string;
 }
 
+// A location pin shared on WhatsApp; its coordinates and a maps link go into the event description
+export interface SharedLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+}
+
 export interface CreateEventJobData {
   voiceJobId: string;
   userId: string;
+  sharedLocation?: SharedLocation;
+}
+
+// The event picked when several matched an UPDATE/DELETE, so the worker doesn't search again
+export interface TargetEventRef {
+  eventId: string;
+  calendarConnectionId: string;
+  title: string;
+  start: string; // ISO
+  end: string; // ISO
 }
 
 export interface UpdateEventJobData {
   voiceJobId: string;
   userId: string;
+  targetEvent?: TargetEventRef;
 }
 
 export interface DeleteEventJobData {
   voiceJobId: string;
   userId: string;
+  targetEvent?: TargetEventRef;
+}
+
+export interface QueryEventsJobData {
+  voiceJobId: string;
+  userId: string;
+}
+
+export interface ApplyCorrectionJobData {
+  feedbackId: string;
+  voiceJobId: string; // Job that created the event being corrected
+  userId: string;
+  correctionText: string;
+}
+
+export interface UndoOperationJobData {
+  operationId: string;
+  userId: string;
+  senderPhone: string;
+}
+
+// Sent when a location is shared shortly after an event was created
+export interface AttachLocationJobData {
+  operationId: string; // Logged creation of the event the location is added to
+  userId: string;
+  senderPhone: string;
+  location: SharedLocation;
 }
 
 export interface ClarificationWatchdogJobData {
@@ -69,9 +170,53 @@ export interface SendNotificationJobData {
   senderPhone: string;
   success: boolean;
   eventId?: string;
+  meetingUrl?: string; // Join link of the Meet/Teams call added to the event
+  reminderMinutes?: number; // Reminder set on the event, in minutes before the start
+  operationId?: string; // Logged change the "Undo" button reverts
   errorMessage?: string;
 }
 
+export interface EventReminderSchedulerJobData {
+  triggeredAt: string;
+}
+
+export interface SendEventReminderJobData {
+  eventReminderId: string;
+  userId: string;
+  whatsappNumberId: string;
+  senderPhone: string;
+  reminderMinutes: number;
+  timezone: string;
+  event: {
+    id: string;
+    title: string;
+    start: string;
+    end: string;
+    location?: string;
+    provider: 'google' | 'microsoft';
+    htmlLink?: string;
+    webLink?: string;
+  };
+}
+
+export interface DailyDigestSchedulerJobData {
+  triggeredAt: string;
+}
+
+export interface BillingSchedulerJobData {
+  triggeredAt: string;
+}
+
+export interface SendDailyDigestJobData {
+  userId: string;
+  whatsappNumberId: string;
+  senderPhone: string;
+  date: string; // YYYY-MM-DD in the user's timezone
+  timezone: string;
+  dateFormat: 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+  timeFormat: '12h' | '24h';
+}
+
 // Default job options per queue
 export const JOB_OPTIONS = {
   [QUEUE_NAMES.DOWNLOAD_AUDIO]: {
@@ -127,6 +272,75 @@ export const JOB_OPTIONS = {
     removeOnComplete: { age: 3600, count: 50 },
     removeOnFail: false,
   },
+  [QUEUE_NAMES.EVENT_REMINDER_SCHEDULER]: {
+    attempts: 1,
+    removeOnComplete: { age: 600, count: 10 },
+    removeOnFail: false,
+  },
+  [QUEUE_NAMES.SEND_EVENT_REMINDER]: {
+    attempts: 3,
+    backoff: { type: 'exponential' as const, delay: 10000 },
+    removeOnComplete: { age: 86400, count: 500 },
+    removeOnFail: false,
+  },
+  [QUEUE_NAMES.DAILY_DIGEST_SCHEDULER]: {
+    attempts: 1,
+    removeOnComplete: { age: 600, count: 10 },
+    removeOnFail: false,
+  },
+  [QUEUE_NAMES.SEND_DAILY_DIGEST]: {
+    attempts: 3,
+    backoff: { type: 'exponential' as const, delay: 10000 },
+    removeOnComplete: { age: 86400, count: 500 },
+    removeOnFail: false,
+  },
+  [QUEUE_NAMES.QUERY_EVENTS]: {
+    attempts: 3,
+    backoff: { type: 'exponential' as const, delay: 5000 },
+    removeOnComplete: { age: 3600, count: 100 },
+    removeOnFail: false,
+  },
+  [QUEUE_NAMES.APPLY_CORRECTION]: {
+    attempts: 3,
+    backoff: { type: 'exponential' as const, delay: 5000 },
+    removeOnComplete: { age: 3600, count: 100 },
+    removeOnFail: false,
+  },
+  [QUEUE_NAMES.UNDO_OPERATION]: {
+    attempts: 3,
+    backoff: { type: 'exponential' as const, delay: 5000 },
+    removeOnComplete: { age: 3600, count: 100 },
+    removeOnFail: false,
+  },
+  [QUEUE_NAMES.EXTRACT_MEDIA]: {
+    attempts: 3,
+    backoff: { type: 'exponential' as const, delay: 5000 },
+    removeOnComplete: { age: 3600, count: 100 },
+    removeOnFail: false,
+  },
+  [QUEUE_NAMES.IMPORT_ATTACHMENT]: {
+    attempts: 3,
+    backoff: { type: 'exponential' as const, delay: 5000 },
+    removeOnComplete: { age: 3600, count: 100 },
+    removeOnFail: false,
+  },
+  // Some events may already be in the calendar when a run fails, so it is never repeated
+  [QUEUE_NAMES.IMPORT_EVENTS]: {
+    attempts: 1,
+    removeOnComplete: { age: 3600, count: 100 },
+    removeOnFail: false,
+  },
+  [QUEUE_NAMES.ATTACH_LOCATION]: {
+    attempts: 3,
+    backoff: { type: 'exponential' as const, delay: 5000 },
+    removeOnComplete: { age: 3600, count: 100 },
+    removeOnFail: false,
+  },
+  [QUEUE_NAMES.BILLING_SCHEDULER]: {
+    attempts: 1,
+    removeOnComplete: { age: 86400, count: 24 },
+    removeOnFail: false,
+  },
 } as const;
 
 // Worker concurrency settings
@@ -140,4 +354,16 @@ export const WORKER_CONCURRENCY = {
   [QUEUE_NAMES.DELETE_EVENT]: 3,
   [QUEUE_NAMES.CLARIFICATION_WATCHDOG]: 1,
   [QUEUE_NAMES.SEND_NOTIFICATION]: 5,
+  [QUEUE_NAMES.EVENT_REMINDER_SCHEDULER]: 1,
+  [QUEUE_NAMES.SEND_EVENT_REMINDER]: 5,
+  [QUEUE_NAMES.DAILY_DIGEST_SCHEDULER]: 1,
+  [QUEUE_NAMES.SEND_DAILY_DIGEST]: 5,
+  [QUEUE_NAMES.QUERY_EVENTS]: 3,
+  [QUEUE_NAMES.APPLY_CORRECTION]: 3,
+  [QUEUE_NAMES.UNDO_OPERATION]: 3,
+  [QUEUE_NAMES.EXTRACT_MEDIA]: 3,
+  [QUEUE_NAMES.IMPORT_ATTACHMENT]: 3,
+  [QUEUE_NAMES.IMPORT_EVENTS]: 3,
+  [QUEUE_NAMES.ATTACH_LOCATION]: 3,
+  [QUEUE_NAMES.BILLING_SCHEDULER]: 1,
 } as const;
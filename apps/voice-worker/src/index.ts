@@ -16,6 +16,18 @@ import {
   processDeleteEvent,
   processClarificationWatchdog,
   processSendNotification,
+  processEventReminderScheduler,
+  processSendEventReminder,
+  processDailyDigestScheduler,
+  processSendDailyDigest,
+  processQueryEvents,
+  processApplyCorrection,
+  processUndoOperation,
+  processExtractMedia,
+  processImportAttachment,
+  processImportEvents,
+  processAttachLocation,
+  processBillingScheduler,
 } from './processors';
 
 async function main() {
@@ -134,6 +146,138 @@ async function main() {
     );
     workers.push(notificationWorker);
 
+    // 10. Event Reminder Scheduler Worker
+    const reminderSchedulerWorker = new Worker(
+      QUEUE_NAMES.EVENT_REMINDER_SCHEDULER,
+      async (job) => processEventReminderScheduler(job, db, queueManager),
+      {
+        connection,
+        concurrency: WORKER_CONCURRENCY[QUEUE_NAMES.EVENT_REMINDER_SCHEDULER],
+      }
+    );
+    workers.push(reminderSchedulerWorker);
+
+    // 11. Send Event Reminder Worker
+    const eventReminderWorker = new Worker(
+      QUEUE_NAMES.SEND_EVENT_REMINDER,
+      async (job) => processSendEventReminder(job, db),
+      {
+        connection,
+        concurrency: WORKER_CONCURRENCY[QUEUE_NAMES.SEND_EVENT_REMINDER],
+      }
+    );
+    workers.push(eventReminderWorker);
+
+    // 12. Daily Digest Scheduler Worker
+    const digestSchedulerWorker = new Worker(
+      QUEUE_NAMES.DAILY_DIGEST_SCHEDULER,
+      async (job) => processDailyDigestScheduler(job, db, queueManager),
+      {
+        connection,
+        concurrency: WORKER_CONCURRENCY[QUEUE_NAMES.DAILY_DIGEST_SCHEDULER],
+      }
+    );
+    workers.push(digestSchedulerWorker);
+
+    // 13. Send Daily Digest Worker
+    const dailyDigestWorker = new Worker(
+      QUEUE_NAMES.SEND_DAILY_DIGEST,
+      async (job) => processSendDailyDigest(job, db),
+      {
+        connection,
+        concurrency: WORKER_CONCURRENCY[QUEUE_NAMES.SEND_DAILY_DIGEST],
+      }
+    );
+    workers.push(dailyDigestWorker);
+
+    // 14. Query Events Worker
+    const queryEventsWorker = new Worker(
+      QUEUE_NAMES.QUERY_EVENTS,
+      async (job) => processQueryEvents(job, db),
+      {
+        connection,
+        concurrency: WORKER_CONCURRENCY[QUEUE_NAMES.QUERY_EVENTS],
+      }
+    );
+    workers.push(queryEventsWorker);
+
+    // 15. Apply Correction Worker
+    const applyCorrectionWorker = new Worker(
+      QUEUE_NAMES.APPLY_CORRECTION,
+      async (job) => processApplyCorrection(job, db),
+      {
+        connection,
+        concurrency: WORKER_CONCURRENCY[QUEUE_NAMES.APPLY_CORRECTION],
+      }
+    );
+    workers.push(applyCorrectionWorker);
+
+    // 16. Undo Operation Worker
+    const undoOperationWorker = new Worker(
+      QUEUE_NAMES.UNDO_OPERATION,
+      async (job) => processUndoOperation(job, db),
+      {
+        connection,
+        concurrency: WORKER_CONCURRENCY[QUEUE_NAMES.UNDO_OPERATION],
+      }
+    );
+    workers.push(undoOperationWorker);
+
+    // 17. Extract Media Worker
+    const extractMediaWorker = new Worker(
+      QUEUE_NAMES.EXTRACT_MEDIA,
+      async (job) => processExtractMedia(job, db, queueManager),
+      {
+        connection,
+        concurrency: WORKER_CONCURRENCY[QUEUE_NAMES.EXTRACT_MEDIA],
+      }
+    );
+    workers.push(extractMediaWorker);
+
+    // 18. Import Attachment Worker
+    const importAttachmentWorker = new Worker(
+      QUEUE_NAMES.IMPORT_ATTACHMENT,
+      async (job) => processImportAttachment(job, db, queueManager),
+      {
+        connection,
+        concurrency: WORKER_CONCURRENCY[QUEUE_NAMES.IMPORT_ATTACHMENT],
+      }
+    );
+    workers.push(importAttachmentWorker);
+
+    // 19. Import Events Worker
+    const importEventsWorker = new Worker(
+      QUEUE_NAMES.IMPORT_EVENTS,
+      async (job) => processImportEvents(job, db),
+      {
+        connection,
+        concurrency: WORKER_CONCURRENCY[QUEUE_NAMES.IMPORT_EVENTS],
+      }
+    );
+    workers.push(importEventsWorker);
+
+    // 20. Attach Location Worker
+    const attachLocationWorker = new Worker(
+      QUEUE_NAMES.ATTACH_LOCATION,
+      async (job) => processAttachLocation(job, db),
+      {
+        connection,
+        concurrency: WORKER_CONCURRENCY[QUEUE_NAMES.ATTACH_LOCATION],
+      }
+    );
+    workers.push(attachLocationWorker);
+
+    // 21. Billing Scheduler Worker
+    const billingSchedulerWorker = new Worker(
+      QUEUE_NAMES.BILLING_SCHEDULER,
+      async (job) => processBillingScheduler(job, db),
+      {
+        connection,
+        concurrency: WORKER_CONCURRENCY[QUEUE_NAMES.BILLING_SCHEDULER],
+      }
+    );
+    workers.push(billingSchedulerWorker);
+
     // Set up event handlers for all workers
     workers.forEach((worker, index) => {
       const queueName = Object.values(QUEUE_NAMES)[index];
@@ -0,0 +1,334 @@
+// Apply correction processor - fixes an event the user says was created wrong and records what changed
+
+import type { Job } from 'bullmq';
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  getIntentFeedbackById,
+  getLatestIntentCorrection,
+  getVoiceMessageJob,
+  saveIntentFeedbackCorrection,
+  type IntentFieldChanges,
+} from '@imaginecalendar/database/queries';
+import { logger } from '@imaginecalendar/logger';
+import {
+  ContactResolver,
+  IntentAnalysisService,
+  calendarIntentSchema,
+  zonedTimeToUtc,
+  type CalendarIntent,
+  type IntentSnapshot,
+} from '@imaginecalendar/ai-services';
+import { CalendarService } from '../services/calendar-service';
+import { NotificationService } from '../services/notification';
+import { ErrorHandler } from '../utils/error-handler';
+import type { ApplyCorrectionJobData } from '../config/queues';
+import { withStageTiming } from '../utils/timing';
+
+// Fields a correction can change, compared between the created and the corrected intent
+const CORRECTABLE_FIELDS = [
+  'title',
+  'startDate',
+  'startTime',
+  'duration',
+  'isAllDay',
+  'location',
+  'attendees',
+  'description',
+] as const;
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+export async function processApplyCorrection(
+  job: Job<ApplyCorrectionJobData>,
+  db: Database
+): Promise<void> {
+  const { feedbackId, voiceJobId, userId, correctionText } = job.data;
+
+  try {
+    logger.info({ feedbackId, voiceJobId, userId }, 'Applying event correction');
+
+    const [feedback, voiceJob] = await Promise.all([
+      getIntentFeedbackById(db, feedbackId),
+      getVoiceMessageJob(db, voiceJobId),
+    ]);
+
+    if (!feedback || !voiceJob) {
+      throw new Error('Correction or voice job not found');
+    }
+
+    if (!voiceJob.calendarEventId) {
+      throw new Error('No event was created for this voice job');
+    }
+
+    const original = extractCalendarIntent(voiceJob);
+
+    if (!original) {
+      throw new Error('Original CREATE intent not found for this job');
+    }
+
+    // An event corrected before no longer matches the original intent, so work from the last correction
+    const latestCorrection = await getLatestIntentCorrection(db, voiceJobId);
+    const current = (latestCorrection?.correctedIntent as { intent?: CalendarIntent } | null)?.intent ?? original;
+
+    const calendarService = new CalendarService(db);
+    const timezone = await calendarService.getUserTimezone(userId);
+    const notificationService = new NotificationService(timezone);
+    const logContext = {
+      db,
+      whatsappNumberId: voiceJob.whatsappNumberId,
+      userId: voiceJob.userId,
+    };
+
+    const correctionResult = await withStageTiming(db, {
+      jobId: voiceJobId,
+      stage: 'event_correction',
+      metadata: ({ result }) => ({
+        feedbackId,
+        changedFields: result ? Object.keys(result.changes) : [],
+        eventId: result?.event?.id,
+      }),
+      errorMetadata: (error) => ({
+        feedbackId,
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    }, async () => {
+      const intentService = new IntentAnalysisService();
+      const corrected = await intentService.correctCalendarIntent(current, correctionText, {
+        userId,
+        timezone,
+        currentDate: new Date(),
+      });
+
+      const changes = diffIntents(current, corrected);
+
+      if (Object.keys(changes).length === 0) {
+        return { corrected, changes, event: null };
+      }
+
+      const updateIntent = await buildUpdateIntent(calendarService, userId, voiceJob, corrected, changes);
+      const result = await calendarService.updateEventById(
+        userId,
+        {
+          eventId: voiceJob.calendarEventId!,
+          calendarConnectionId: voiceJob.calendarConnectionId,
+          start: zonedTimeToUtc(current.startDate!, current.startTime, timezone),
+        },
+        updateIntent
+      );
+
+      if (!result.success || !result.event) {
+        throw new Error(result.message || 'Failed to update calendar event');
+      }
+
+      return { corrected, changes, event: result.event };
+    });
+
+    if (!correctionResult.event) {
+      await notificationService.sendError(
+        voiceJob.senderPhone,
+        'I couldn\'t tell what to change. Reply "wrong" and describe the fix, e.g. "it\'s at 3pm, not 2pm".',
+        logContext
+      );
+      return;
+    }
+
+    await saveIntentFeedbackCorrection(db, feedbackId, {
+      intent: correctionResult.corrected,
+      changes: correctionResult.changes,
+    });
+
+    await notificationService.sendCorrectionSuccess(
+      voiceJob.senderPhone,
+      correctionResult.event,
+      Object.keys(correctionResult.changes),
+      logContext
+    );
+  } catch (error) {
+    const classifiedError = ErrorHandler.classify(error);
+    ErrorHandler.log(classifiedError, { feedbackId, voiceJobId, userId });
+
+    if (classifiedError.isRetryable) {
+      throw classifiedError.originalError;
+    }
+
+    const voiceJob = await getVoiceMessageJob(db, voiceJobId);
+    if (voiceJob?.senderPhone) {
+      const notificationService = new NotificationService();
+      await notificationService.sendError(
+        voiceJob.senderPhone,
+        ErrorHandler.getUserMessage(classifiedError),
+        {
+          db,
+          whatsappNumberId: voiceJob.whatsappNumberId,
+          userId: voiceJob.userId,
+        }
+      );
+    }
+  }
+}
+
+/**
+ * Only send what changed; start and end always travel together so the event keeps its length
+ */
+async function buildUpdateIntent(
+  calendarService: CalendarService,
+  userId: string,
+  voiceJob: any,
+  corrected: CalendarIntent,
+  changes: IntentFieldChanges
+): Promise<CalendarIntent> {
+  const updateIntent: CalendarIntent = {
+    action: 'UPDATE',
+    confidence: corrected.confidence,
+    missingFields: [],
+  };
+
+  if (changes.title) updateIntent.title = corrected.title;
+  if (changes.location) updateIntent.location = corrected.location;
+  if (changes.description) updateIntent.description = corrected.description;
+
+  if (changes.startDate || changes.startTime || changes.duration || changes.isAllDay) {
+    updateIntent.startDate = corrected.startDate;
+    updateIntent.startTime = corrected.startTime;
+    updateIntent.isAllDay = corrected.isAllDay;
+    updateIntent.duration = corrected.duration ?? DEFAULT_DURATION_MINUTES;
+  }
+
+  if (changes.attendees) {
+    updateIntent.attendees = await resolveAttendeeEmails(calendarService, userId, voiceJob, corrected.attendees ?? []);
+  }
+
+  return updateIntent;
+}
+
+/**
+ * Keep the emails of people already on the event and look up anyone new in the user's contacts
+ */
+async function resolveAttendeeEmails(
+  calendarService: CalendarService,
+  userId: string,
+  voiceJob: any,
+  names: string[]
+): Promise<string[]> {
+  const snapshot = voiceJob.intentSnapshot as IntentSnapshot | null;
+  const knownEmails = new Map<string, string>();
+
+  for (const attendee of snapshot?.attendees ?? []) {
+    if (attendee.name && attendee.email) {
+      knownEmails.set(attendee.name.trim().toLowerCase(), attendee.email);
+    }
+  }
+
+  const emails: string[] = [];
+  const unknown: string[] = [];
+
+  for (const name of names) {
+    const email = knownEmails.get(name.trim().toLowerCase());
+    if (email) {
+      emails.push(email);
+    } else {
+      unknown.push(name);
+    }
+  }
+
+  if (unknown.length > 0) {
+    const resolution = await new ContactResolver(calendarService).resolve(userId, unknown);
+    emails.push(...Object.values(resolution.resolved));
+
+    if (resolution.notFound.length > 0 || resolution.ambiguous.length > 0) {
+      logger.warn(
+        {
+          userId,
+          notFound: resolution.notFound,
+          ambiguous: resolution.ambiguous.map((entry) => entry.name),
+        },
+        'Some corrected attendees could not be resolved'
+      );
+    }
+  }
+
+  return emails;
+}
+
+function diffIntents(original: CalendarIntent, corrected: CalendarIntent): IntentFieldChanges {
+  const changes: IntentFieldChanges = {};
+
+  for (const field of CORRECTABLE_FIELDS) {
+    const from = normalizeValue(original[field]);
+    const to = normalizeValue(corrected[field]);
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from: original[field] ?? null, to: corrected[field] ?? null };
+    }
+  }
+
+  return changes;
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed.length ? trimmed.toLowerCase() : null;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => String(item).trim().toLowerCase()).sort();
+    return items.length ? items : null;
+  }
+
+  // An all-day flag of false means the same as no flag
+  if (value === false) {
+    return null;
+  }
+
+  return value ?? null;
+}
+
+function extractCalendarIntent(voiceJob: any): CalendarIntent | null {
+  if (voiceJob.intentAnalysis?.action === 'CREATE') {
+    return voiceJob.intentAnalysis as CalendarIntent;
+  }
+
+  if (!voiceJob.intentSnapshot) {
+    return null;
+  }
+
+  try {
+    const snapshot = voiceJob.intentSnapshot as IntentSnapshot;
+
+    if (snapshot.action !== 'CREATE') {
+      return null;
+    }
+
+    const { iso } = snapshot.datetime ?? {};
+    const startDate = iso ? iso.slice(0, 10) : undefined;
+    const timeSegment = iso ? iso.split('T')[1] : undefined;
+    const startTime = timeSegment ? timeSegment.slice(0, 5) : undefined;
+
+    // Names only: the correction prompt works with what the user said, emails are matched afterwards
+    const attendees = snapshot.attendees
+      ?.map((attendee) => attendee.name?.trim())
+      .filter((name): name is string => Boolean(name && name.length > 0));
+
+    const payload: Record<string, unknown> = {
+      action: snapshot.action,
+      title: snapshot.title ?? undefined,
+      startDate,
+      startTime,
+      duration: snapshot.durationMinutes ?? undefined,
+      location: snapshot.location?.value ?? undefined,
+      attendees: attendees?.length ? attendees : undefined,
+      confidence: snapshot.confidence,
+      missingFields: [] as string[],
+    };
+
+    if (snapshot.datetime?.precision === 'date') {
+      payload.isAllDay = true;
+    }
+
+    return calendarIntentSchema.parse(payload);
+  } catch (error) {
+    logger.error({ error, voiceJobId: voiceJob.id }, 'Failed to convert intent snapshot for correction');
+    return null;
+  }
+}
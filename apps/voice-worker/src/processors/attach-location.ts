@@ -0,0 +1,85 @@
+// Attach location processor - adds a location shared on WhatsApp to the event that was just created
+
+import type { Job } from 'bullmq';
+import type { Database } from '@imaginecalendar/database/client';
+import { getEventOperationById } from '@imaginecalendar/database/queries';
+import { logger } from '@imaginecalendar/logger';
+import { formatLocationDetails, formatLocationLabel } from '@imaginecalendar/whatsapp';
+import { CalendarService } from '../services/calendar-service';
+import { NotificationService } from '../services/notification';
+import { ErrorHandler } from '../utils/error-handler';
+import { recordUndoableOperation } from '../utils/event-operations';
+import type { AttachLocationJobData } from '../config/queues';
+import { withStageTiming } from '../utils/timing';
+
+export async function processAttachLocation(
+  job: Job<AttachLocationJobData>,
+  db: Database
+): Promise<void> {
+  const { operationId, userId, senderPhone, location } = job.data;
+
+  const operation = await getEventOperationById(db, operationId);
+
+  if (!operation) {
+    logger.warn({ operationId, userId }, 'Event operation for shared location not found');
+    return;
+  }
+
+  const logContext = {
+    db,
+    whatsappNumberId: operation.whatsappNumberId,
+    userId: operation.userId,
+  };
+
+  try {
+    logger.info({ operationId, voiceJobId: operation.voiceJobId, eventId: operation.eventId }, 'Attaching shared location');
+
+    const calendarService = new CalendarService(db);
+    const timezone = await calendarService.getUserTimezone(userId);
+
+    const result = await withStageTiming(db, {
+      jobId: operation.voiceJobId,
+      stage: 'location_attach',
+      metadata: ({ result }) => ({
+        operationId,
+        eventId: result?.event?.id,
+        named: Boolean(location.name || location.address),
+      }),
+      errorMetadata: (error) => ({
+        operationId,
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    }, () => calendarService.attachLocation(
+      userId,
+      { eventId: operation.eventId, calendarConnectionId: operation.calendarConnectionId },
+      { label: formatLocationLabel(location), details: formatLocationDetails(location) }
+    ));
+
+    if (!result.event) {
+      throw new Error(result.message || 'Failed to add the location to the event');
+    }
+
+    const undoOperationId = await recordUndoableOperation(
+      db,
+      { id: operation.voiceJobId, userId: operation.userId, whatsappNumberId: operation.whatsappNumberId },
+      result
+    );
+
+    const notificationService = new NotificationService(timezone);
+    await notificationService.sendLocationAttached(senderPhone, result.event, logContext, undoOperationId);
+  } catch (error) {
+    const classifiedError = ErrorHandler.classify(error);
+    ErrorHandler.log(classifiedError, { operationId, voiceJobId: operation.voiceJobId, userId });
+
+    if (classifiedError.isRetryable) {
+      throw classifiedError.originalError;
+    }
+
+    const notificationService = new NotificationService();
+    await notificationService.sendError(
+      senderPhone,
+      `Sorry, I couldn't add that location to "${operation.eventTitle}". ${ErrorHandler.getUserMessage(classifiedError)}`,
+      logContext
+    );
+  }
+}
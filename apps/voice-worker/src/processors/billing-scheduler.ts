@@ -0,0 +1,271 @@
+// Billing scheduler - reminds trial users before their trial ends, expires trials that ran out, and walks
+// failed PayFast renewals through payment reminders and a grace period before pausing the subscription
+
+import type { Job } from 'bullmq';
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  claimDunningReminder,
+  claimTrialReminder,
+  expireTrialSubscription,
+  getEndedTrials,
+  getExpiringTrials,
+  getPastDueSubscriptions,
+  getUserWhatsAppNumbers,
+  logActivity,
+  pauseSubscription,
+} from '@imaginecalendar/database/queries';
+import { getWhatsAppConfig } from '@imaginecalendar/whatsapp';
+import { logger } from '@imaginecalendar/logger';
+import { TRIAL_REMINDER_DAYS, type BillingSchedulerJobData } from '../config/queues';
+import { CalendarService } from '../services/calendar-service';
+import { EmailService } from '../services/email';
+import { NotificationService } from '../services/notification';
+import { getDunningStep } from '../utils/dunning';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type BillingSubscription = Awaited<ReturnType<typeof getPastDueSubscriptions>>[number];
+
+interface BillingNotice {
+  subject: string;
+  message: string;
+  buttonText: string;
+}
+
+interface BillingContext {
+  db: Database;
+  now: Date;
+  calendarService: CalendarService;
+  emailService: EmailService;
+}
+
+/**
+ * Send a notice on WhatsApp (to the user's primary verified number) and by email.
+ * Returns the channels it reached.
+ */
+async function notifyUser(
+  context: BillingContext,
+  subscription: BillingSubscription,
+  notice: BillingNotice
+): Promise<string[]> {
+  const { db, calendarService, emailService } = context;
+  const channels: string[] = [];
+
+  const numbers = await getUserWhatsAppNumbers(db, subscription.userId);
+  const number = numbers.find((candidate) => candidate.isVerified && candidate.isActive);
+
+  if (number) {
+    const timezone = await calendarService.getUserTimezone(subscription.userId);
+    const sent = await new NotificationService(timezone).sendBillingNotice(number.phoneNumber, notice, {
+      db,
+      whatsappNumberId: number.id,
+      userId: subscription.userId,
+    });
+
+    if (sent) {
+      channels.push('whatsapp');
+    }
+  }
+
+  const name = subscription.user.firstName || subscription.user.name;
+  const emailed = await emailService.send({
+    to: subscription.user.email,
+    subject: notice.subject,
+    text: `${name ? `Hi ${name},` : 'Hi,'}\n\n${notice.message}\n\n${notice.buttonText}: ${getWhatsAppConfig().upgradeButtonUrl}\n\nThe CrackOn team`,
+  });
+
+  if (emailed) {
+    channels.push('email');
+  }
+
+  return channels;
+}
+
+async function formatDay(context: BillingContext, userId: string, date: Date): Promise<string> {
+  const timeZone = await context.calendarService.getUserTimezone(userId);
+  return date.toLocaleDateString('en-ZA', { weekday: 'long', day: 'numeric', month: 'long', timeZone });
+}
+
+async function sendTrialReminders(context: BillingContext): Promise<number> {
+  const { db, now } = context;
+  const longestNotice = Math.max(...TRIAL_REMINDER_DAYS);
+  const trials = await getExpiringTrials(db, new Date(now.getTime() + longestNotice * DAY_MS));
+
+  let sent = 0;
+
+  for (const subscription of trials) {
+    if (!subscription.trialEndsAt) {
+      continue;
+    }
+
+    const daysLeft = Math.max(1, Math.ceil((subscription.trialEndsAt.getTime() - now.getTime()) / DAY_MS));
+    // A trial found late only gets the latest reminder that applies, not every one it missed
+    const reminderNumber = TRIAL_REMINDER_DAYS.filter((days) => daysLeft <= days).length;
+
+    if (reminderNumber <= subscription.trialRemindersSent) {
+      continue;
+    }
+
+    try {
+      const claimed = await claimTrialReminder(db, subscription.id, reminderNumber);
+
+      if (!claimed) {
+        continue;
+      }
+
+      const endsOn = await formatDay(context, subscription.userId, subscription.trialEndsAt);
+      const when = daysLeft === 1 ? 'tomorrow' : `in ${daysLeft} days`;
+      const channels = await notifyUser(context, subscription, {
+        subject: `Your CrackOn trial ends ${when}`,
+        message: `Your CrackOn free trial ends ${when}, on ${endsOn} ⏳\n\nChoose a plan to keep managing your calendar from WhatsApp.`,
+        buttonText: 'Choose a plan',
+      });
+
+      await logActivity(db, {
+        userId: subscription.userId,
+        action: 'subscription.trial_reminder_sent',
+        entityType: 'subscription',
+        entityId: subscription.id,
+        metadata: { reminderNumber, daysLeft, trialEndsAt: subscription.trialEndsAt, channels },
+      });
+      sent++;
+    } catch (error) {
+      logger.error({ error, subscriptionId: subscription.id, reminderNumber }, 'Failed to send trial reminder');
+    }
+  }
+
+  return sent;
+}
+
+async function expireEndedTrials(context: BillingContext): Promise<number> {
+  const { db } = context;
+  const trials = await getEndedTrials(db);
+
+  let expired = 0;
+
+  for (const subscription of trials) {
+    try {
+      const updated = await expireTrialSubscription(db, subscription.id);
+
+      // Paid for in the meantime
+      if (!updated) {
+        continue;
+      }
+
+      const channels = await notifyUser(context, subscription, {
+        subject: 'Your CrackOn trial has ended',
+        message: "Your CrackOn free trial has ended, so I can't manage your calendar for you anymore.\n\nChoose a plan to pick up where you left off.",
+        buttonText: 'Choose a plan',
+      });
+
+      await logActivity(db, {
+        userId: subscription.userId,
+        action: 'subscription.expired',
+        entityType: 'subscription',
+        entityId: subscription.id,
+        metadata: { plan: subscription.plan, trialEndsAt: subscription.trialEndsAt, channels },
+      });
+      expired++;
+    } catch (error) {
+      logger.error({ error, subscriptionId: subscription.id }, 'Failed to expire trial');
+    }
+  }
+
+  return expired;
+}
+
+async function runDunning(context: BillingContext): Promise<{ reminded: number; paused: number }> {
+  const { db, now } = context;
+  const subscriptions = await getPastDueSubscriptions(db);
+
+  let reminded = 0;
+  let paused = 0;
+
+  for (const subscription of subscriptions) {
+    // Recorded by the webhook and backfilled for older rows; updatedAt moves with every reminder, so
+    // the missed renewal date is the fallback
+    const pastDueSince = subscription.pastDueSince ?? subscription.currentPeriodEnd;
+    const step = getDunningStep(pastDueSince, subscription.dunningRemindersSent, now);
+    const { daysPastDue } = step;
+
+    try {
+      if (step.action === 'pause') {
+        const updated = await pauseSubscription(db, subscription.id);
+
+        if (!updated) {
+          continue;
+        }
+
+        const channels = await notifyUser(context, subscription, {
+          subject: 'Your CrackOn subscription is paused',
+          message: "We still couldn't take your CrackOn payment, so your subscription is paused and I can't manage your calendar for you right now.\n\nUpdate your payment details to pick up where you left off.",
+          buttonText: 'Update payment',
+        });
+
+        await logActivity(db, {
+          userId: subscription.userId,
+          action: 'subscription.paused',
+          entityType: 'subscription',
+          entityId: subscription.id,
+          metadata: { pastDueSince, daysPastDue, channels },
+        });
+        paused++;
+        continue;
+      }
+
+      if (step.action !== 'remind') {
+        continue;
+      }
+
+      const { reminderNumber, isFinal } = step;
+      const claimed = await claimDunningReminder(db, subscription.id, reminderNumber);
+
+      if (!claimed) {
+        continue;
+      }
+
+      const pausesOn = await formatDay(context, subscription.userId, step.pausesAt);
+      const channels = await notifyUser(context, subscription, {
+        subject: isFinal ? 'Last reminder: update your CrackOn payment details' : "We couldn't take your CrackOn payment",
+        message: `${isFinal ? 'Last reminder: we' : 'We'} couldn't take your CrackOn payment 💳\n\nPlease update your payment details by ${pausesOn}, or your subscription will be paused.`,
+        buttonText: 'Update payment',
+      });
+
+      await logActivity(db, {
+        userId: subscription.userId,
+        action: 'subscription.dunning_reminder_sent',
+        entityType: 'subscription',
+        entityId: subscription.id,
+        metadata: { reminderNumber, pastDueSince, daysPastDue, channels },
+      });
+      reminded++;
+    } catch (error) {
+      logger.error({ error, subscriptionId: subscription.id, daysPastDue }, 'Failed to process past-due subscription');
+    }
+  }
+
+  return { reminded, paused };
+}
+
+export async function processBillingScheduler(
+  _job: Job<BillingSchedulerJobData>,
+  db: Database
+): Promise<void> {
+  const context: BillingContext = {
+    db,
+    now: new Date(),
+    calendarService: new CalendarService(db),
+    emailService: new EmailService(),
+  };
+
+  const trialReminders = await sendTrialReminders(context);
+  const expiredTrials = await expireEndedTrials(context);
+  const { reminded, paused } = await runDunning(context);
+
+  if (trialReminders || expiredTrials || reminded || paused) {
+    logger.info(
+      { trialReminders, expiredTrials, dunningReminders: reminded, paused },
+      'Billing scheduler run complete'
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import type { Job } from 'bullmq';
 import type { Database } from '@imaginecalendar/database/client';
 import {
+  expireStaleEventOperationUndos,
   getActivePendingIntents,
   updatePendingIntent,
   getVoiceMessageJob,
@@ -11,6 +12,9 @@ import type { QueueManager } from '../utils/queue-manager';
 import type { ClarificationWatchdogJobData } from '../config/queues';
 import { NotificationService } from '../services/notification';
 
+// An undo still running after this long was lost, e.g. the worker restarted mid-job
+const UNDO_TIMEOUT_MS = 10 * 60 * 1000;
+
 interface ClarificationPlanShape {
   pendingFields?: string[];
   prompts?: unknown[];
@@ -28,6 +32,8 @@ export async function processClarificationWatchdog(
   const now = new Date();
   const notificationService = new NotificationService();
 
+  await expireStuckUndos(db, notificationService, now);
+
   const pendingIntents = await getActivePendingIntents(db, 200);
 
   if (!pendingIntents.length) {
@@ -102,6 +108,29 @@ export async function processClarificationWatchdog(
   }
 }
 
+/**
+ * Give up on undos that never finished and tell the user, so they know to fix the event themselves
+ */
+async function expireStuckUndos(db: Database, notificationService: NotificationService, now: Date): Promise<void> {
+  const expired = await expireStaleEventOperationUndos(db, new Date(now.getTime() - UNDO_TIMEOUT_MS));
+
+  for (const operation of expired) {
+    logger.warn({ operationId: operation.id, voiceJobId: operation.voiceJobId }, 'Undo timed out');
+
+    const voiceJob = await getVoiceMessageJob(db, operation.voiceJobId);
+
+    if (!voiceJob?.senderPhone) {
+      continue;
+    }
+
+    await notificationService.sendError(
+      voiceJob.senderPhone,
+      `Sorry, I couldn't undo the change to "${operation.eventTitle}". Please fix it in your calendar.`,
+      { db, whatsappNumberId: operation.whatsappNumberId, userId: operation.userId }
+    );
+  }
+}
+
 function normalizePlan(raw: unknown): ClarificationPlanShape {
   if (!raw || typeof raw !== 'object') {
     return {};
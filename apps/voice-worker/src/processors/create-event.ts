@@ -15,11 +15,14 @@ import {
   updateVoiceMessageJobPause,
 } from '@imaginecalendar/database/queries';
 import { logger } from '@imaginecalendar/logger';
+import { formatLocationDetails, formatLocationLabel } from '@imaginecalendar/whatsapp';
 import { CalendarService } from '../services/calendar-service';
 import { NotificationService } from '../services/notification';
 import { ErrorHandler } from '../utils/error-handler';
 import type { QueueManager } from '../utils/queue-manager';
 import type { CreateEventJobData } from '../config/queues';
+import { recordUndoableOperation } from '../utils/event-operations';
+import { settleBatchChild } from '../utils/intent-batch';
 import { withStageTiming } from '../utils/timing';
 
 export async function processCreateEvent(
@@ -27,7 +30,7 @@ export async function processCreateEvent(
   db: Database,
   queueManager: QueueManager
 ): Promise<void> {
-  const { voiceJobId, userId } = job.data;
+  const { voiceJobId, userId, sharedLocation } = job.data;
 
   try {
     logger.info({ voiceJobId, userId }, 'Starting calendar event creation');
@@ -52,6 +55,12 @@ export async function processCreateEvent(
       throw new Error('Intent analysis not found or invalid for CREATE action');
     }
 
+    // A location pin shared while the event was being clarified keeps its exact spot in the description
+    if (sharedLocation) {
+      intent.location = intent.location ?? formatLocationLabel(sharedLocation);
+      intent.description = [intent.description, formatLocationDetails(sharedLocation)].filter(Boolean).join('\n\n');
+    }
+
     // Update status
     await updateVoiceMessageJobStatus(db, voiceJobId, 'creating_event');
 
@@ -85,8 +94,11 @@ export async function processCreateEvent(
     await updateVoiceMessageJobCalendarEvent(db, voiceJobId, {
       calendarEventId: event.id,
       calendarProvider: event.provider,
+      calendarConnectionId: creationResult.calendarConnectionId,
     });
 
+    const operationId = await recordUndoableOperation(db, voiceJob, creationResult);
+
     logger.info({ voiceJobId, eventId: event.id, provider: event.provider }, 'Calendar event created');
 
     // Check if we should pause after this stage (for testing)
@@ -107,6 +119,9 @@ export async function processCreateEvent(
       senderPhone: voiceJob.senderPhone,
       success: true,
       eventId: event.id,
+      meetingUrl: event.meetingUrl,
+      reminderMinutes: event.reminderMinutes,
+      operationId,
     });
   } catch (error) {
     const classifiedError = ErrorHandler.classify(error);
@@ -119,6 +134,8 @@ export async function processCreateEvent(
       retryCount: job.attemptsMade,
     });
 
+    await settleBatchChild(db, voiceJobId);
+
     // Rethrow if retryable
     if (classifiedError.isRetryable) {
       throw classifiedError.originalError;
@@ -176,7 +193,25 @@ function extractCalendarIntent(
       startTime,
       duration: snapshot.durationMinutes ?? undefined,
       location: snapshot.location?.value ?? undefined,
+      isVirtual: snapshot.location?.type === 'virtual' ? true : undefined,
       attendees: attendees && attendees.length ? attendees : undefined,
+      recurrence: snapshot.recurrence
+        ? {
+            frequency: snapshot.recurrence.frequency,
+            interval: snapshot.recurrence.interval ?? undefined,
+            byDay: snapshot.recurrence.byDay ?? undefined,
+            count: snapshot.recurrence.count ?? undefined,
+            until: snapshot.recurrence.until ?? undefined,
+          }
+        : undefined,
+      reminder: snapshot.reminder
+        ? {
+            minutesBefore: snapshot.reminder.minutesBefore ?? undefined,
+            daysBefore: snapshot.reminder.daysBefore ?? undefined,
+            time: snapshot.reminder.time ?? undefined,
+          }
+        : undefined,
+      calendarName: snapshot.calendar ?? undefined,
       confidence: snapshot.confidence,
       missingFields: [] as string[],
     };
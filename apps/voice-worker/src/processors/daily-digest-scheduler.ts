@@ -0,0 +1,85 @@
+// Daily digest scheduler - queues each opted-in user's agenda once their local digest time arrives
+
+import type { Job } from 'bullmq';
+import type { Database } from '@imaginecalendar/database/client';
+import { claimDailyDigest, getDailyDigestRecipients, releaseDailyDigest } from '@imaginecalendar/database/queries';
+import { formatDateToLocalIso, zonedTimeToUtc } from '@imaginecalendar/ai-services';
+import { logger } from '@imaginecalendar/logger';
+import type { QueueManager } from '../utils/queue-manager';
+import {
+  DAILY_DIGEST_SEND_WINDOW_MS,
+  type DailyDigestSchedulerJobData,
+} from '../config/queues';
+import { CalendarService } from '../services/calendar-service';
+
+export async function processDailyDigestScheduler(
+  _job: Job<DailyDigestSchedulerJobData>,
+  db: Database,
+  queueManager: QueueManager
+): Promise<void> {
+  const now = new Date();
+  const calendarService = new CalendarService(db);
+
+  const recipients = await getDailyDigestRecipients(db);
+
+  if (!recipients.length) {
+    return;
+  }
+
+  let queued = 0;
+
+  for (const recipient of recipients) {
+    const timezone = await calendarService.getUserTimezone(recipient.userId);
+    const today = formatDateToLocalIso(now, timezone).slice(0, 10);
+
+    if (recipient.dailyDigestLastSentOn && recipient.dailyDigestLastSentOn >= today) {
+      continue;
+    }
+
+    // Don't send a morning briefing in the evening just because the worker was down or the user
+    // switched the digest on late in the day
+    const dueAt = zonedTimeToUtc(today, recipient.dailyDigestTime, timezone);
+    const overdueMs = now.getTime() - dueAt.getTime();
+
+    if (overdueMs < 0 || overdueMs > DAILY_DIGEST_SEND_WINDOW_MS) {
+      continue;
+    }
+
+    const claimed = await claimDailyDigest(db, recipient.userId, today);
+
+    // Already claimed by an earlier poll
+    if (!claimed) {
+      continue;
+    }
+
+    try {
+      await queueManager.enqueueSendDailyDigest({
+        userId: recipient.userId,
+        whatsappNumberId: recipient.whatsappNumberId,
+        senderPhone: recipient.phoneNumber,
+        date: today,
+        timezone,
+        dateFormat: recipient.dateFormat,
+        timeFormat: recipient.timeFormat,
+      });
+      queued++;
+    } catch (error) {
+      logger.error(
+        { error, userId: recipient.userId, date: today },
+        'Failed to enqueue daily digest'
+      );
+
+      // The job id is fixed per user and date, so a retry by the next poll can't queue it twice
+      await releaseDailyDigest(db, recipient.userId, today, recipient.dailyDigestLastSentOn).catch((releaseError) => {
+        logger.error(
+          { error: releaseError, userId: recipient.userId, date: today },
+          'Failed to release daily digest claim'
+        );
+      });
+    }
+  }
+
+  if (queued > 0) {
+    logger.info({ queued, recipients: recipients.length }, 'Daily digests scheduled');
+  }
+}
@@ -16,6 +16,8 @@ import { NotificationService } from '../services/notification';
 import { ErrorHandler } from '../utils/error-handler';
 import type { QueueManager } from '../utils/queue-manager';
 import type { DeleteEventJobData } from '../config/queues';
+import { recordUndoableOperation } from '../utils/event-operations';
+import { confirmInBatch, settleBatchChild } from '../utils/intent-batch';
 import { withStageTiming } from '../utils/timing';
 
 export async function processDeleteEvent(
@@ -23,7 +25,7 @@ export async function processDeleteEvent(
   db: Database,
   _queueManager: QueueManager
 ): Promise<void> {
-  const { voiceJobId, userId } = job.data;
+  const { voiceJobId, userId, targetEvent } = job.data;
 
   try {
     logger.info({ voiceJobId, userId }, 'Starting calendar event deletion');
@@ -42,6 +44,8 @@ export async function processDeleteEvent(
 
     await updateVoiceMessageJobStatus(db, voiceJobId, 'deleting_event');
 
+    const calendarService = new CalendarService(db);
+
     const deletionResult = await withStageTiming(db, {
       jobId: voiceJobId,
       stage: 'event_delete',
@@ -53,8 +57,15 @@ export async function processDeleteEvent(
         error: error instanceof Error ? error.message : String(error),
       }),
     }, async () => {
-      const calendarService = new CalendarService(db);
-      const result = await calendarService.delete(userId, intent);
+      const result = targetEvent
+        ? await calendarService.deleteEventById(userId, {
+          eventId: targetEvent.eventId,
+          calendarConnectionId: targetEvent.calendarConnectionId,
+          title: targetEvent.title,
+          start: new Date(targetEvent.start),
+          end: new Date(targetEvent.end),
+        })
+        : await calendarService.delete(userId, intent);
 
       if (!result.success || !result.event) {
         throw new Error(result.message || 'Failed to delete calendar event');
@@ -68,9 +79,25 @@ export async function processDeleteEvent(
       throw new Error('Calendar service did not return event details after deletion');
     }
 
+    const operationId = await recordUndoableOperation(db, voiceJob, deletionResult);
+
+    const confirmedInBatch = await confirmInBatch(db, voiceJob, {
+      action: 'DELETE',
+      eventId: deletedEvent.id,
+      title: deletedEvent.title,
+      start: deletedEvent.start.toISOString(),
+      allDay: deletedEvent.allDay,
+      operationId,
+    });
+
+    if (confirmedInBatch) {
+      return;
+    }
+
     await updateVoiceMessageJobStatus(db, voiceJobId, 'completed', new Date());
 
-    const notificationService = new NotificationService();
+    const timezone = await calendarService.getUserTimezone(userId);
+    const notificationService = new NotificationService(timezone);
     await notificationService.sendDeleteSuccess(
       voiceJob.senderPhone,
       deletedEvent,
@@ -79,7 +106,8 @@ export async function processDeleteEvent(
         db,
         whatsappNumberId: voiceJob.whatsappNumberId,
         userId: voiceJob.userId,
-      }
+      },
+      operationId
     );
   } catch (error) {
     const classifiedError = ErrorHandler.classify(error);
@@ -91,6 +119,8 @@ export async function processDeleteEvent(
       retryCount: job.attemptsMade,
     });
 
+    await settleBatchChild(db, voiceJobId);
+
     if (classifiedError.isRetryable) {
       throw classifiedError.originalError;
     }
@@ -8,9 +8,11 @@ import {
   updateVoiceMessageJobAudio,
   updateVoiceMessageJobError,
   updateVoiceMessageJobPause,
+  getUserEntitlements,
+  recordUsage,
 } from '@imaginecalendar/database/queries';
 import { logger } from '@imaginecalendar/logger';
-import { AudioDownloader } from '../services/audio-downloader';
+import { MediaDownloader } from '../services/media-downloader';
 import { FileManager } from '../utils/file-manager';
 import { ErrorHandler } from '../utils/error-handler';
 import type { QueueManager } from '../utils/queue-manager';
@@ -52,8 +54,8 @@ export async function processDownloadAudio(
         mediaId,
       }),
     }, async () => {
-      const audioDownloader = new AudioDownloader();
-      const audioData = await audioDownloader.download(mediaId);
+      const mediaDownloader = new MediaDownloader();
+      const audioData = await mediaDownloader.download(mediaId, mimeType ?? 'audio/ogg');
 
       const fileManager = new FileManager();
       const audioFilePath = await fileManager.saveTemp(audioData.buffer, audioData.mimeType);
@@ -81,6 +83,20 @@ export async function processDownloadAudio(
       'Audio download completed'
     );
 
+    // Minutes are only known once the note is downloaded, so they count from here
+    if (voiceJob && !voiceJob.isTestJob && downloadResult?.duration) {
+      try {
+        const { period } = await getUserEntitlements(db, voiceJob.userId);
+        await recordUsage(db, {
+          userId: voiceJob.userId,
+          period,
+          audioSeconds: downloadResult.duration,
+        });
+      } catch (error) {
+        logger.warn({ error, voiceJobId }, 'Failed to record audio usage');
+      }
+    }
+
     // Check if we should pause after this stage (for testing)
     const updatedVoiceJob = await getVoiceMessageJob(db, voiceJobId);
     const testConfig = updatedVoiceJob?.testConfiguration as { pauseAfterStage?: string } | null;
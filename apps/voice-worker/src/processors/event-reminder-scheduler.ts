@@ -0,0 +1,113 @@
+// Event reminder scheduler - polls connected calendars and queues reminders that fall due
+
+import type { Job } from 'bullmq';
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  claimEventReminder,
+  getReminderRecipients,
+  getUserEntitlements,
+  markEventReminderFailed,
+} from '@imaginecalendar/database/queries';
+import { logger } from '@imaginecalendar/logger';
+import type { QueueManager } from '../utils/queue-manager';
+import {
+  EVENT_REMINDER_POLL_INTERVAL_MS,
+  type EventReminderSchedulerJobData,
+} from '../config/queues';
+import { CalendarService } from '../services/calendar-service';
+
+export async function processEventReminderScheduler(
+  _job: Job<EventReminderSchedulerJobData>,
+  db: Database,
+  queueManager: QueueManager
+): Promise<void> {
+  const now = new Date();
+  const calendarService = new CalendarService(db);
+
+  const recipients = await getReminderRecipients(db);
+
+  if (!recipients.length) {
+    return;
+  }
+
+  let queued = 0;
+
+  for (const recipient of recipients) {
+    const { entitlements } = await getUserEntitlements(db, recipient.userId);
+
+    if (!entitlements.reminders) {
+      continue;
+    }
+
+    // Look far enough ahead that every reminder due before the next poll gets queued now
+    const windowEnd = new Date(
+      now.getTime() + recipient.reminderMinutes * 60 * 1000 + EVENT_REMINDER_POLL_INTERVAL_MS
+    );
+
+    const timezone = await calendarService.getUserTimezone(recipient.userId);
+    const events = await calendarService.getUpcomingEvents(recipient.userId, {
+      from: now,
+      to: windowEnd,
+    });
+
+    for (const event of events) {
+      const remindAt = new Date(event.start.getTime() - recipient.reminderMinutes * 60 * 1000);
+
+      const reminder = await claimEventReminder(db, {
+        userId: recipient.userId,
+        whatsappNumberId: recipient.whatsappNumberId,
+        calendarConnectionId: event.calendarConnectionId,
+        eventId: event.id,
+        eventTitle: event.title,
+        eventStart: event.start,
+        reminderMinutes: recipient.reminderMinutes,
+        remindAt,
+      });
+
+      // Already claimed by an earlier poll
+      if (!reminder) {
+        continue;
+      }
+
+      try {
+        await queueManager.enqueueSendEventReminder(
+          {
+            eventReminderId: reminder.id,
+            userId: recipient.userId,
+            whatsappNumberId: recipient.whatsappNumberId,
+            senderPhone: recipient.phoneNumber,
+            reminderMinutes: recipient.reminderMinutes,
+            timezone,
+            event: {
+              id: event.id,
+              title: event.title,
+              start: event.start.toISOString(),
+              end: event.end.toISOString(),
+              location: event.location,
+              provider: event.provider,
+              htmlLink: event.htmlLink,
+              webLink: event.webLink,
+            },
+          },
+          remindAt.getTime() - now.getTime()
+        );
+        queued++;
+      } catch (error) {
+        logger.error(
+          { error, eventReminderId: reminder.id, userId: recipient.userId },
+          'Failed to enqueue event reminder'
+        );
+        await markEventReminderFailed(
+          db,
+          reminder.id,
+          'failed',
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+  }
+
+  if (queued > 0) {
+    logger.info({ queued, recipients: recipients.length }, 'Event reminders scheduled');
+  }
+}
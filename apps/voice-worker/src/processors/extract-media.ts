@@ -0,0 +1,147 @@
+// Extract media processor - reads event details from forwarded images and PDF documents
+
+import { randomUUID } from 'node:crypto';
+import type { Job } from 'bullmq';
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  getVoiceMessageJob,
+  updateVoiceMessageJobStatus,
+  updateVoiceMessageJobTranscription,
+  updateVoiceMessageJobError,
+  updateVoiceMessageJobSnapshot,
+} from '@imaginecalendar/database/queries';
+import { logger } from '@imaginecalendar/logger';
+import { MediaExtractionService } from '@imaginecalendar/ai-services';
+import { MediaDownloader } from '../services/media-downloader';
+import { NotificationService } from '../services/notification';
+import { ErrorHandler } from '../utils/error-handler';
+import type { QueueManager } from '../utils/queue-manager';
+import type { ExtractMediaJobData } from '../config/queues';
+import { withStageTiming } from '../utils/timing';
+
+export async function processExtractMedia(
+  job: Job<ExtractMediaJobData>,
+  db: Database,
+  queueManager: QueueManager
+): Promise<void> {
+  const { voiceJobId, mediaId, mimeType, caption, filename } = job.data;
+
+  try {
+    logger.info({ voiceJobId, mediaId, mimeType }, 'Starting media extraction');
+
+    const voiceJob = await getVoiceMessageJob(db, voiceJobId);
+
+    if (!voiceJob) {
+      throw new Error('Voice job not found');
+    }
+
+    await updateVoiceMessageJobStatus(db, voiceJobId, 'downloading');
+
+    const media = await withStageTiming(db, {
+      jobId: voiceJobId,
+      stage: 'media_download',
+      metadata: ({ result }) => ({
+        sizeBytes: result?.size,
+        mimeType: result?.mimeType,
+      }),
+      errorMetadata: (error) => ({
+        error: error instanceof Error ? error.message : String(error),
+        mediaId,
+      }),
+    }, () => new MediaDownloader().download(mediaId, mimeType));
+
+    await updateVoiceMessageJobStatus(db, voiceJobId, 'extracting');
+
+    const extraction = await withStageTiming(db, {
+      jobId: voiceJobId,
+      stage: 'media_extraction',
+      metadata: ({ result }) => ({
+        provider: result?.provider,
+        hasEventDetails: result?.hasEventDetails,
+        textLength: result?.text.length ?? 0,
+      }),
+      errorMetadata: (error) => ({
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    }, async () => {
+      // WhatsApp's declared type is more specific than the CDN's content type
+      const extractionService = new MediaExtractionService();
+      const result = await extractionService.extract(media.buffer, { mimeType, caption, filename });
+
+      await updateVoiceMessageJobTranscription(db, voiceJobId, {
+        transcribedText: result.text,
+        sttProvider: result.provider,
+      });
+
+      return result;
+    });
+
+    if (!extraction.hasEventDetails) {
+      logger.info({ voiceJobId, mimeType }, 'No event details found in media');
+
+      await updateVoiceMessageJobStatus(db, voiceJobId, 'completed', new Date());
+
+      const notificationService = new NotificationService();
+      await notificationService.sendError(
+        voiceJob.senderPhone,
+        `I couldn't find any event details in that ${mimeType.startsWith('image/') ? 'image' : 'document'}. Send me a message with the event and I'll add it.`,
+        {
+          db,
+          whatsappNumberId: voiceJob.whatsappNumberId,
+          userId: voiceJob.userId,
+        }
+      );
+      return;
+    }
+
+    logger.info(
+      { voiceJobId, textLength: extraction.text.length, provider: extraction.provider },
+      'Event details extracted from media'
+    );
+
+    await updateVoiceMessageJobStatus(db, voiceJobId, 'transcribed');
+
+    const intentJobId = voiceJob.intentJobId ?? randomUUID();
+
+    if (!voiceJob.intentJobId) {
+      await updateVoiceMessageJobSnapshot(db, voiceJobId, {
+        intentJobId,
+      });
+    }
+
+    // From here the extracted details are handled like a typed message, clarifications included
+    await queueManager.enqueueProcessIntent({
+      jobId: voiceJobId,
+      voiceJobId,
+      intentJobId,
+      userId: voiceJob.userId,
+      whatsappNumberId: voiceJob.whatsappNumberId,
+      transcribedText: extraction.text,
+      senderPhone: voiceJob.senderPhone,
+    });
+  } catch (error) {
+    const classifiedError = ErrorHandler.classify(error);
+    ErrorHandler.log(classifiedError, { voiceJobId, mediaId });
+
+    await updateVoiceMessageJobError(db, voiceJobId, {
+      errorMessage: classifiedError.message,
+      errorStage: 'extracting',
+      retryCount: job.attemptsMade,
+    });
+
+    if (classifiedError.isRetryable) {
+      throw classifiedError.originalError;
+    }
+
+    const voiceJob = await getVoiceMessageJob(db, voiceJobId);
+
+    if (voiceJob) {
+      await queueManager.enqueueSendNotification({
+        voiceJobId,
+        senderPhone: voiceJob.senderPhone,
+        success: false,
+        errorMessage: ErrorHandler.getUserMessage(classifiedError),
+      });
+    }
+  }
+}
@@ -0,0 +1,164 @@
+// Import attachment processor - reads forwarded calendar invites (.ics) and contact cards (.vcf)
+
+import type { Job } from 'bullmq';
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  getVoiceMessageJob,
+  savePersonalContact,
+  updateVoiceMessageJobStatus,
+  updateVoiceMessageJobTranscription,
+  updateVoiceMessageJobError,
+} from '@imaginecalendar/database/queries';
+import { parseICalendar } from '@imaginecalendar/calendar-integrations/icalendar';
+import { parseVCards } from '@imaginecalendar/calendar-integrations/vcard';
+import { logger } from '@imaginecalendar/logger';
+import { CalendarService } from '../services/calendar-service';
+import { MediaDownloader } from '../services/media-downloader';
+import { NotificationService } from '../services/notification';
+import { ErrorHandler } from '../utils/error-handler';
+import type { QueueManager } from '../utils/queue-manager';
+import type { ImportAttachmentJobData } from '../config/queues';
+import { withStageTiming } from '../utils/timing';
+
+// Larger files are calendar exports rather than invites, and belong in the calendar app's own import
+const MAX_IMPORT_EVENTS = 20;
+
+export async function processImportAttachment(
+  job: Job<ImportAttachmentJobData>,
+  db: Database,
+  queueManager: QueueManager
+): Promise<void> {
+  const { voiceJobId, mediaId, mimeType, kind } = job.data;
+
+  try {
+    logger.info({ voiceJobId, mediaId, mimeType, kind }, 'Starting attachment import');
+
+    const voiceJob = await getVoiceMessageJob(db, voiceJobId);
+
+    if (!voiceJob) {
+      throw new Error('Voice job not found');
+    }
+
+    const logContext = {
+      db,
+      whatsappNumberId: voiceJob.whatsappNumberId,
+      userId: voiceJob.userId,
+    };
+
+    await updateVoiceMessageJobStatus(db, voiceJobId, 'downloading');
+
+    const media = await withStageTiming(db, {
+      jobId: voiceJobId,
+      stage: 'media_download',
+      metadata: ({ result }) => ({
+        sizeBytes: result?.size,
+        mimeType: result?.mimeType,
+      }),
+      errorMetadata: (error) => ({
+        error: error instanceof Error ? error.message : String(error),
+        mediaId,
+      }),
+    }, () => new MediaDownloader().download(mediaId, mimeType));
+
+    const content = media.buffer.toString('utf8');
+
+    if (kind === 'vcard') {
+      const contacts = parseVCards(content);
+      const savedNames: string[] = [];
+      const skippedNames: string[] = [];
+
+      for (const contact of contacts) {
+        const [email] = contact.emails;
+
+        // Only people with an email address can be invited to events
+        if (!email) {
+          skippedNames.push(contact.name);
+          continue;
+        }
+
+        await savePersonalContact(db, {
+          userId: voiceJob.userId,
+          name: contact.name,
+          email,
+          source: 'vcard',
+        });
+        savedNames.push(contact.name);
+      }
+
+      await updateVoiceMessageJobStatus(db, voiceJobId, 'completed', new Date());
+
+      logger.info(
+        { voiceJobId, savedCount: savedNames.length, skippedCount: skippedNames.length },
+        'Contacts imported from contact card'
+      );
+
+      const notificationService = new NotificationService();
+
+      if (!contacts.length) {
+        await notificationService.sendError(
+          voiceJob.senderPhone,
+          "I couldn't read any contacts from that card. You can add people in Settings → Contacts.",
+          logContext
+        );
+        return;
+      }
+
+      await notificationService.sendContactsImported(voiceJob.senderPhone, savedNames, skippedNames, logContext);
+      return;
+    }
+
+    const timezone = await new CalendarService(db).getUserTimezone(voiceJob.userId);
+    const events = parseICalendar(content, { defaultTimeZone: timezone });
+
+    // The invite is parsed again when the user confirms, so only its text is kept
+    await updateVoiceMessageJobTranscription(db, voiceJobId, {
+      transcribedText: content,
+      sttProvider: 'icalendar',
+    });
+
+    const notificationService = new NotificationService(timezone);
+
+    if (!events.length || events.length > MAX_IMPORT_EVENTS) {
+      logger.info({ voiceJobId, eventCount: events.length }, 'Calendar file has no events to import here');
+
+      await updateVoiceMessageJobStatus(db, voiceJobId, 'completed', new Date());
+      await notificationService.sendError(
+        voiceJob.senderPhone,
+        events.length
+          ? `That calendar file has ${events.length} events. I can add up to ${MAX_IMPORT_EVENTS} at a time, so please import it in your calendar app instead.`
+          : "I couldn't find any events to add in that calendar file.",
+        logContext
+      );
+      return;
+    }
+
+    await updateVoiceMessageJobStatus(db, voiceJobId, 'awaiting_import');
+    await notificationService.sendImportPreview(voiceJob.senderPhone, voiceJobId, events, logContext);
+
+    logger.info({ voiceJobId, eventCount: events.length }, 'Calendar invite awaiting confirmation');
+  } catch (error) {
+    const classifiedError = ErrorHandler.classify(error);
+    ErrorHandler.log(classifiedError, { voiceJobId, mediaId });
+
+    await updateVoiceMessageJobError(db, voiceJobId, {
+      errorMessage: classifiedError.message,
+      errorStage: 'importing',
+      retryCount: job.attemptsMade,
+    });
+
+    if (classifiedError.isRetryable) {
+      throw classifiedError.originalError;
+    }
+
+    const voiceJob = await getVoiceMessageJob(db, voiceJobId);
+
+    if (voiceJob) {
+      await queueManager.enqueueSendNotification({
+        voiceJobId,
+        senderPhone: voiceJob.senderPhone,
+        success: false,
+        errorMessage: ErrorHandler.getUserMessage(classifiedError),
+      });
+    }
+  }
+}
@@ -0,0 +1,126 @@
+// Import events processor - adds the events of a forwarded calendar invite once the user confirmed it
+
+import type { Job } from 'bullmq';
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  getVoiceMessageJob,
+  updateVoiceMessageJobCalendarEvent,
+  updateVoiceMessageJobStatus,
+  updateVoiceMessageJobError,
+} from '@imaginecalendar/database/queries';
+import { parseICalendar } from '@imaginecalendar/calendar-integrations/icalendar';
+import { logger } from '@imaginecalendar/logger';
+import { CalendarService } from '../services/calendar-service';
+import { NotificationService, type ImportedEvent } from '../services/notification';
+import { ErrorHandler } from '../utils/error-handler';
+import { recordUndoableOperation } from '../utils/event-operations';
+import type { ImportEventsJobData } from '../config/queues';
+import { withStageTiming } from '../utils/timing';
+
+export async function processImportEvents(
+  job: Job<ImportEventsJobData>,
+  db: Database
+): Promise<void> {
+  const { voiceJobId } = job.data;
+
+  const voiceJob = await getVoiceMessageJob(db, voiceJobId);
+
+  if (!voiceJob) {
+    logger.warn({ voiceJobId }, 'Voice job for calendar import not found');
+    return;
+  }
+
+  // The webhook moves the job to "importing" before queueing, so anything else was already handled
+  if (voiceJob.status !== 'importing') {
+    logger.info({ voiceJobId, status: voiceJob.status }, 'Voice job not awaiting import, skipping');
+    return;
+  }
+
+  const logContext = {
+    db,
+    whatsappNumberId: voiceJob.whatsappNumberId,
+    userId: voiceJob.userId,
+  };
+
+  try {
+    const calendarService = new CalendarService(db);
+    const timezone = await calendarService.getUserTimezone(voiceJob.userId);
+    const events = parseICalendar(voiceJob.transcribedText ?? '', { defaultTimeZone: timezone });
+
+    const { imported, failedCount } = await withStageTiming(db, {
+      jobId: voiceJobId,
+      stage: 'event_import',
+      metadata: ({ result }) => ({
+        eventCount: events.length,
+        importedCount: result?.imported.length,
+        failedCount: result?.failedCount,
+      }),
+      errorMetadata: (error) => ({
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    }, async () => {
+      const imported: ImportedEvent[] = [];
+      let failedCount = 0;
+
+      // Events are created one by one and never retried as a whole, so a retry can't add duplicates
+      for (const event of events) {
+        try {
+          const result = await calendarService.importEvent(voiceJob.userId, event);
+
+          if (!result.event) {
+            throw new Error(result.message || 'Failed to import calendar event');
+          }
+
+          if (!imported.length) {
+            await updateVoiceMessageJobCalendarEvent(db, voiceJobId, {
+              calendarEventId: result.event.id,
+              calendarProvider: result.event.provider,
+              calendarConnectionId: result.calendarConnectionId,
+            });
+          }
+
+          const operationId = await recordUndoableOperation(db, voiceJob, result);
+
+          imported.push({
+            title: result.event.title,
+            start: result.event.start,
+            allDay: result.event.allDay,
+            operationId,
+          });
+        } catch (error) {
+          failedCount++;
+          logger.error({ error, voiceJobId, uid: event.uid }, 'Failed to import calendar event');
+        }
+      }
+
+      return { imported, failedCount };
+    });
+
+    if (!imported.length) {
+      throw new Error('None of the events in the invite could be added');
+    }
+
+    await updateVoiceMessageJobStatus(db, voiceJobId, 'completed', new Date());
+
+    logger.info({ voiceJobId, importedCount: imported.length, failedCount }, 'Calendar invite imported');
+
+    const notificationService = new NotificationService(timezone);
+    await notificationService.sendImportSuccess(voiceJob.senderPhone, imported, failedCount, logContext);
+  } catch (error) {
+    const classifiedError = ErrorHandler.classify(error);
+    ErrorHandler.log(classifiedError, { voiceJobId, userId: voiceJob.userId });
+
+    await updateVoiceMessageJobError(db, voiceJobId, {
+      errorMessage: classifiedError.message,
+      errorStage: 'importing',
+      retryCount: job.attemptsMade,
+    });
+
+    const notificationService = new NotificationService();
+    await notificationService.sendError(
+      voiceJob.senderPhone,
+      `Sorry, I couldn't add that invite to your calendar. ${ErrorHandler.getUserMessage(classifiedError)}`,
+      logContext
+    );
+  }
+}
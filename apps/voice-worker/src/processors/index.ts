@@ -7,5 +7,17 @@ export { processProcessIntent } from './process-intent';
 export { processCreateEvent } from './create-event';
 export { processUpdateEvent } from './update-event';
 export { processDeleteEvent } from './delete-event';
+export { processQueryEvents } from './query-events';
 export { processSendNotification } from './send-notification';
 export { processClarificationWatchdog } from './clarification-watchdog';
+export { processEventReminderScheduler } from './event-reminder-scheduler';
+export { processSendEventReminder } from './send-event-reminder';
+export { processDailyDigestScheduler } from './daily-digest-scheduler';
+export { processSendDailyDigest } from './send-daily-digest';
+export { processApplyCorrection } from './apply-correction';
+export { processUndoOperation } from './undo-operation';
+export { processExtractMedia } from './extract-media';
+export { processImportAttachment } from './import-attachment';
+export { processImportEvents } from './import-events';
+export { processAttachLocation } from './attach-location';
+export { processBillingScheduler } from './billing-scheduler';
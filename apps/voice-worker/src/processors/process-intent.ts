@@ -1,7 +1,9 @@
+import { randomUUID } from 'node:crypto';
 import type { Job } from 'bullmq';
 import type { Database } from '@imaginecalendar/database/client';
 import {
   getVoiceMessageJob,
+  createChildVoiceMessageJobs,
   updateVoiceMessageJobStatus,
   updateVoiceMessageJobError,
   updateVoiceMessageJobSnapshot,
@@ -11,51 +13,91 @@ import {
   deletePendingIntent,
   createInteractivePrompt,
   recordIntentPipelinePayload,
+  getUserEntitlements,
+  getUserPreferences,
 } from '@imaginecalendar/database/queries';
 import type { PendingIntentRecord } from '@imaginecalendar/database/queries';
 import { logger } from '@imaginecalendar/logger';
 import {
+  CalendarResolver,
+  ConflictDetector,
+  EventMatcher,
+  ResolutionPipeline,
+  formatDateToLocalDisplay,
+  formatDateToLocalIso,
   runIntentPipeline,
+  zonedTimeToUtc,
+  type CalendarIntent,
+  type ConflictInfo,
   type IntentPipelineResult,
   type IntentPromptContext,
 } from '@imaginecalendar/ai-services';
 import { CalendarService } from '../services/calendar-service';
-import { NotificationService } from '../services/notification';
+import { NotificationService, type DisplayFormatOptions } from '../services/notification';
 import type { QueueManager } from '../utils/queue-manager';
-import type { ProcessIntentJobData } from '../config/queues';
+import type { ProcessIntentJobData, SharedLocation, TargetEventRef } from '../config/queues';
 import { ErrorHandler } from '../utils/error-handler';
+import { settleBatchChild } from '../utils/intent-batch';
 import { metrics } from '../utils/metrics';
 import { withStageTiming } from '../utils/timing';
 
-const TIMEZONE = 'Africa/Johannesburg';
 const CLARIFICATION_EXPIRY_MS = 5 * 60 * 1000;
 
 type ClarificationPlan = {
   pendingFields: string[];
   prompts: ClarificationPrompt[];
   responses: Record<string, ClarificationResponse>;
+  eventCandidates?: EventCandidate[];
+  calendarCandidates?: CalendarCandidate[];
 };
 
 type ClarificationPrompt = {
   field: string;
   channel: 'text' | 'buttons' | 'list';
   question: string;
-  options: Array<{ id: string; label: string; value: string }>;
+  options: Array<{ id: string; label: string; value: string; description?: string }>;
   whatsappMessageId?: string | null;
   createdAt: string;
+  attendeeName?: string | null; // Who an attendee question asks the email of, for saving them as a contact
 };
 
+// A shared WhatsApp location ("location" source) keeps the pin as its value and the place as its label
 type ClarificationResponse = {
-  value: string;
+  value: string | SharedLocation;
   label?: string;
-  source: 'text' | 'interactive' | 'flow';
+  source: 'text' | 'interactive' | 'flow' | 'location';
   respondedAt: string;
 };
 
+// An event offered when an UPDATE/DELETE matched several; the option value is its key
+type EventCandidate = TargetEventRef & {
+  key: string;
+  when: string; // e.g. "Tue 21 Oct, 14:30" in the user's timezone
+};
+
+// A calendar offered when the one named in the message couldn't be pinned down; the option value is its id
+type CalendarCandidate = {
+  id: string;
+  name: string;
+};
+
+type DetectedConflict = {
+  conflict: NonNullable<IntentPipelineResult['snapshot']['conflict']>;
+  otherCount: number;
+  freeFrom?: string;
+};
+
 type IntentFollowUpEntry = IntentPipelineResult['snapshot']['followUp'][number];
 
 const CONFLICT_FIELD = 'conflict';
 const MOVE_NEW_EVENT_FIELD = 'time';
+const SLOT_FIELD = 'slot';
+const EVENT_FIELD = 'event';
+const CALENDAR_FIELD = 'calendar';
+const ATTENDEE_FIELD = 'attendee';
+// WhatsApp lists hold at most ten rows
+const MAX_CALENDAR_OPTIONS = 10;
+const DEFAULT_EVENT_DURATION_MINUTES = 60;
 
 function parseClarificationPlan(plan: unknown): ClarificationPlan {
   if (!plan || typeof plan !== 'object') {
@@ -75,6 +117,8 @@ function parseClarificationPlan(plan: unknown): ClarificationPlan {
     pendingFields: Array.isArray(parsed.pendingFields) ? [...parsed.pendingFields] : [],
     prompts: Array.isArray(parsed.prompts) ? [...parsed.prompts] : [],
     responses: parsed.responses && typeof parsed.responses === 'object' ? { ...parsed.responses } : {},
+    eventCandidates: Array.isArray(parsed.eventCandidates) ? [...parsed.eventCandidates] : undefined,
+    calendarCandidates: Array.isArray(parsed.calendarCandidates) ? [...parsed.calendarCandidates] : undefined,
   };
 }
 
@@ -91,9 +135,373 @@ function getClarificationResponse(plan: ClarificationPlan | null, field: string)
   return response as ClarificationResponse;
 }
 
-function buildConflictQuestion(conflict: IntentPipelineResult['snapshot']['conflict']): string {
+function buildConflictQuestion(
+  conflict: IntentPipelineResult['snapshot']['conflict'],
+  details?: { otherCount: number; freeFrom?: string }
+): string {
+  // Free/busy clashes carry no event details, only the calendar they came from
+  if (conflict && !conflict.existingEventId) {
+    return `Heads up: ${conflict.summary} is already busy at that time. What should I do?`;
+  }
+
   const title = conflict?.summary ? `"${conflict.summary}"` : 'another event';
-  return `Heads up: you already have ${title} at that time. What should I do?`;
+  const others = details?.otherCount
+    ? ` and ${details.otherCount} other event${details.otherCount === 1 ? '' : 's'}`
+    : '';
+  const freeFrom = details?.freeFrom ? ` You're free from ${details.freeFrom}.` : '';
+
+  return `Heads up: you already have ${title}${others} at that time.${freeFrom} What should I do?`;
+}
+
+/**
+ * Check the requested slot against events in every connected calendar. The model only sees
+ * recent events from the primary calendar, so this catches clashes in the user's other calendars.
+ * An UPDATE is checked once its event is known and only when it moves it to a new exact time.
+ */
+async function detectCalendarConflict(
+  db: Database,
+  userId: string,
+  snapshot: IntentPipelineResult['snapshot'],
+  timezone: string,
+  targetEvent: TargetEventRef | null
+): Promise<DetectedConflict | null> {
+  const iso = snapshot.datetime?.iso;
+
+  if (!iso || snapshot.datetime?.precision !== 'exact') {
+    return null;
+  }
+
+  if (snapshot.action === 'UPDATE') {
+    return targetEvent ? detectMoveConflict(db, userId, iso, snapshot.durationMinutes, timezone, targetEvent) : null;
+  }
+
+  if (snapshot.action !== 'CREATE') {
+    return null;
+  }
+
+  try {
+    const pipeline = new ResolutionPipeline(
+      undefined,
+      undefined,
+      undefined,
+      new ConflictDetector(new CalendarService(db))
+    );
+    const resolution = await pipeline.resolve(toResolutionIntent(snapshot), {
+      userId,
+      timezone,
+      currentDate: new Date(),
+    });
+
+    return toDetectedConflict(userId, resolution.conflicts, timezone);
+  } catch (error) {
+    logger.warn({ error, userId }, 'Failed to check calendars for conflicts');
+    return null;
+  }
+}
+
+/**
+ * The pipeline only knows the event being moved from its own event match, so an UPDATE whose event
+ * was picked beforehand goes to the detector directly, keeping the event's length
+ */
+async function detectMoveConflict(
+  db: Database,
+  userId: string,
+  iso: string,
+  durationMinutes: number | null,
+  timezone: string,
+  targetEvent: TargetEventRef
+): Promise<DetectedConflict | null> {
+  const start = zonedTimeToUtc(iso.slice(0, 10), iso.slice(11, 16), timezone);
+  const currentStart = new Date(targetEvent.start);
+
+  // Same start as now, so the event isn't being moved
+  if (start.getTime() === currentStart.getTime()) {
+    return null;
+  }
+
+  const lengthMs = durationMinutes
+    ? durationMinutes * 60 * 1000
+    : new Date(targetEvent.end).getTime() - currentStart.getTime();
+
+  try {
+    const conflicts = await new ConflictDetector(new CalendarService(db)).detect(
+      userId,
+      // The event being moved can't clash with itself
+      { start, end: new Date(start.getTime() + lengthMs), excludeEventId: targetEvent.eventId },
+      timezone
+    );
+
+    return toDetectedConflict(userId, conflicts, timezone);
+  } catch (error) {
+    logger.warn({ error, userId }, 'Failed to check calendars for conflicts');
+    return null;
+  }
+}
+
+function toDetectedConflict(
+  userId: string,
+  conflicts: ConflictInfo | undefined,
+  timezone: string
+): DetectedConflict | null {
+  const [clash, ...others] = conflicts?.conflicts ?? [];
+
+  if (!clash) {
+    return null;
+  }
+
+  logger.info(
+    { userId, eventId: clash.eventId, conflictCount: others.length + 1 },
+    'Calendar conflict detected'
+  );
+
+  const suggestedStart = conflicts?.suggestedStart;
+
+  return {
+    conflict: {
+      summary: clash.title,
+      existingEventId: clash.eventId,
+    },
+    otherCount: others.length,
+    freeFrom: suggestedStart ? formatDateToLocalIso(suggestedStart, timezone).slice(11, 16) : undefined,
+  };
+}
+
+/**
+ * Work out which existing event an UPDATE/DELETE refers to. A confident match or the user's pick
+ * becomes the job's target; several plausible matches become a list question.
+ */
+async function resolveTargetEvent(options: {
+  db: Database;
+  userId: string;
+  snapshot: IntentPipelineResult['snapshot'];
+  existingPlan: ClarificationPlan | null;
+  answer?: ClarificationAnswer;
+  timezone: string;
+}): Promise<{ target: TargetEventRef | null; candidates?: EventCandidate[]; followUp?: IntentFollowUpEntry }> {
+  const { db, userId, snapshot, existingPlan, answer, timezone } = options;
+  const offered = existingPlan?.eventCandidates ?? [];
+
+  if (offered.length > 0) {
+    if (answer) {
+      const picked = resolveEventAnswer(offered, answer);
+
+      if (!picked) {
+        logger.warn({ userId, answer: answer.value }, 'Reply did not match any of the offered events');
+      }
+
+      return { target: picked ? toTargetEventRef(picked) : null };
+    }
+
+    // Keep offering the events already sent so the list the user sees stays valid
+    const existingPrompt = existingPlan?.prompts.find((prompt) => prompt.field === EVENT_FIELD);
+
+    return {
+      target: null,
+      candidates: offered,
+      followUp: {
+        field: EVENT_FIELD,
+        reason: 'event_match',
+        question: existingPrompt?.question ?? 'Which event do you mean?',
+        options: offered.map((candidate) => candidate.key),
+      },
+    };
+  }
+
+  try {
+    const pipeline = new ResolutionPipeline(
+      undefined,
+      undefined,
+      new EventMatcher(new CalendarService(db))
+    );
+    const resolution = await pipeline.resolve(toResolutionIntent(snapshot), {
+      userId,
+      timezone,
+      currentDate: new Date(),
+    });
+
+    const matches = resolution.eventMatch?.matches ?? [];
+
+    // Nothing found: the update/delete job reports it with its usual message
+    if (matches.length === 0) {
+      return { target: null };
+    }
+
+    const candidates: EventCandidate[] = matches.map((match, index) => ({
+      key: String(index + 1),
+      eventId: match.id,
+      calendarConnectionId: match.calendarId,
+      title: match.title,
+      start: match.start.toISOString(),
+      end: match.end.toISOString(),
+      when: formatDateToLocalDisplay(match.start, timezone),
+    }));
+
+    if (!resolution.eventMatch?.needsClarification) {
+      return { target: toTargetEventRef(candidates[0]!) };
+    }
+
+    const clarification = resolution.pendingClarifications.find((item) => item.type === 'event_match');
+
+    return {
+      target: null,
+      candidates,
+      followUp: {
+        field: EVENT_FIELD,
+        reason: 'event_match',
+        question: clarification?.question ?? 'Which event do you mean?',
+        options: candidates.map((candidate) => candidate.key),
+      },
+    };
+  } catch (error) {
+    logger.warn({ error, userId }, 'Failed to match the event to change');
+    return { target: null };
+  }
+}
+
+function resolveEventAnswer(candidates: EventCandidate[], answer: ClarificationAnswer): EventCandidate | null {
+  const raw = coerceClarificationString(answer.value) ?? coerceClarificationString(answer.label);
+
+  if (!raw) {
+    return null;
+  }
+
+  const normalized = raw.toLowerCase();
+  const index = Number.parseInt(normalized, 10);
+
+  return candidates.find((candidate) => candidate.key === raw)
+    ?? (Number.isInteger(index) ? candidates[index - 1] : undefined)
+    ?? candidates.find((candidate) => normalized.includes(candidate.title.toLowerCase()))
+    ?? null;
+}
+
+/**
+ * Work out which calendar a new event goes into when the message names one. A name that matches
+ * several calendars, or none, becomes a question; the user's pick is carried as the calendar id.
+ */
+async function resolveTargetCalendar(options: {
+  db: Database;
+  userId: string;
+  snapshot: IntentPipelineResult['snapshot'];
+  existingPlan: ClarificationPlan | null;
+  answer?: ClarificationAnswer;
+  timezone: string;
+}): Promise<{ calendarId: string | null; candidates?: CalendarCandidate[]; followUp?: IntentFollowUpEntry }> {
+  const { db, userId, snapshot, existingPlan, answer, timezone } = options;
+  const offered = existingPlan?.calendarCandidates ?? [];
+
+  if (offered.length > 0) {
+    if (answer) {
+      const picked = resolveCalendarAnswer(offered, answer);
+
+      if (!picked) {
+        logger.warn({ userId, answer: answer.value }, 'Reply did not match any of the offered calendars');
+      }
+
+      return { calendarId: picked?.id ?? null };
+    }
+
+    // Keep offering the calendars already sent so the options the user sees stay valid
+    const existingPrompt = existingPlan?.prompts.find((prompt) => prompt.field === CALENDAR_FIELD);
+
+    return {
+      calendarId: null,
+      candidates: offered,
+      followUp: {
+        field: CALENDAR_FIELD,
+        reason: 'calendar_choice',
+        question: existingPrompt?.question ?? 'Which calendar should I use?',
+        options: offered.map((candidate) => candidate.id),
+      },
+    };
+  }
+
+  // Without a named calendar the event is routed by rules, the default or the primary calendar
+  if (!snapshot.calendar) {
+    return { calendarId: null };
+  }
+
+  try {
+    const calendarService = new CalendarService(db);
+    const pipeline = new ResolutionPipeline(undefined, new CalendarResolver(calendarService));
+    const resolution = await pipeline.resolve(
+      { ...toResolutionIntent(snapshot), calendarName: snapshot.calendar },
+      { userId, timezone, currentDate: new Date() }
+    );
+
+    const selection = resolution.calendarSelection;
+
+    // Resolved to a single calendar: the create job routes the same name to it
+    if (!selection?.needsClarification || !selection.availableCalendars?.length) {
+      return { calendarId: null };
+    }
+
+    const candidates: CalendarCandidate[] = selection.availableCalendars
+      .slice(0, MAX_CALENDAR_OPTIONS)
+      .map((calendar) => ({ id: calendar.id, name: calendar.name }));
+
+    return {
+      calendarId: null,
+      candidates,
+      followUp: {
+        field: CALENDAR_FIELD,
+        reason: 'calendar_choice',
+        question: `I couldn't tell which calendar you meant by "${snapshot.calendar}". Which one should I use?`,
+        options: candidates.map((candidate) => candidate.id),
+      },
+    };
+  } catch (error) {
+    logger.warn({ error, userId }, 'Failed to resolve the named calendar');
+    return { calendarId: null };
+  }
+}
+
+function resolveCalendarAnswer(candidates: CalendarCandidate[], answer: ClarificationAnswer): CalendarCandidate | null {
+  const raw = coerceClarificationString(answer.value) ?? coerceClarificationString(answer.label);
+
+  if (!raw) {
+    return null;
+  }
+
+  const normalized = raw.toLowerCase();
+  const index = Number.parseInt(normalized, 10);
+
+  return candidates.find((candidate) => candidate.id === raw)
+    ?? (Number.isInteger(index) ? candidates[index - 1] : undefined)
+    ?? candidates.find((candidate) => candidate.name.toLowerCase() === normalized)
+    ?? candidates.find((candidate) => normalized.includes(candidate.name.toLowerCase()))
+    ?? null;
+}
+
+function toTargetEventRef(candidate: EventCandidate): TargetEventRef {
+  return {
+    eventId: candidate.eventId,
+    calendarConnectionId: candidate.calendarConnectionId,
+    title: candidate.title,
+    start: candidate.start,
+    end: candidate.end,
+  };
+}
+
+/**
+ * The resolvers work on CalendarIntent; build one from the snapshot's date, time and people
+ */
+function toResolutionIntent(snapshot: IntentPipelineResult['snapshot']): CalendarIntent {
+  const iso = snapshot.datetime?.iso;
+  const attendees = snapshot.attendees
+    .map((attendee) => attendee.email ?? attendee.name)
+    .filter((value): value is string => Boolean(value));
+
+  return {
+    action: snapshot.action,
+    title: snapshot.title ?? undefined,
+    startDate: iso ? iso.slice(0, 10) : undefined,
+    startTime: iso && snapshot.datetime?.precision === 'exact' ? iso.slice(11, 16) : undefined,
+    duration: snapshot.durationMinutes ?? undefined,
+    isAllDay: snapshot.datetime?.precision === 'date' ? true : undefined,
+    attendees: attendees.length ? attendees : undefined,
+    confidence: snapshot.confidence,
+    missingFields: [],
+  };
 }
 
 export async function processProcessIntent(
@@ -138,19 +546,20 @@ export async function processProcessIntent(
     const conflictResponse = getClarificationResponse(existingPlan, CONFLICT_FIELD);
     const moveTimeResponse = getClarificationResponse(existingPlan, MOVE_NEW_EVENT_FIELD);
 
-    const { contactRoster, recentEvents } = await withStageTiming(db, {
+    const { contactRoster, recentEvents, timezone } = await withStageTiming(db, {
       jobId: voiceJobId,
       stage: 'intent_build_context',
       metadata: ({ result }) => ({
         contactCount: result?.contactRoster.length ?? 0,
         recentEventCount: result?.recentEvents.length ?? 0,
+        timezone: result?.timezone,
       }),
       errorMetadata: (error) => ({
         error: error instanceof Error ? error.message : String(error),
       }),
     }, async () => {
       const calendarService = new CalendarService(db);
-      const [contacts, events] = await Promise.all([
+      const [contacts, events, userTimezone] = await Promise.all([
         calendarService.getContacts(userId).catch((error) => {
           logger.warn({ userId, error: error.message }, 'Failed to fetch contacts for intent analysis');
           return [];
@@ -159,11 +568,13 @@ export async function processProcessIntent(
           logger.warn({ userId, error: error.message }, 'Failed to fetch recent events for conflict detection');
           return [];
         }),
+        calendarService.getUserTimezone(userId),
       ]);
 
       return {
         contactRoster: contacts,
         recentEvents: events,
+        timezone: userTimezone,
       };
     });
 
@@ -175,7 +586,7 @@ export async function processProcessIntent(
     }, 'Fetched calendar context for intent analysis');
 
     const promptContext: IntentPromptContext = {
-      timezone: TIMEZONE,
+      timezone,
       currentTime: new Date(),
       contactRoster: contactRoster.slice(0, 20).map((contact) => ({
         name: contact.name,
@@ -193,6 +604,12 @@ export async function processProcessIntent(
 
     const clarificationAnswers = collectClarificationAnswers(existingPendingIntent, promptContext.clarifications);
 
+    // Typed replies to slot suggestions ("2", "Tue 21 Oct, 14:30") map back to the offered slot
+    const slotAnswer = clarificationAnswers[SLOT_FIELD];
+    if (slotAnswer) {
+      clarificationAnswers[SLOT_FIELD] = resolveSlotAnswer(existingPlan, slotAnswer);
+    }
+
     let payloadSequence = 0;
     const recordPayload = async (entry: {
       type: 'prompt' | 'response' | 'context';
@@ -219,13 +636,14 @@ export async function processProcessIntent(
       }
     };
 
-    const pipelineResult = await withStageTiming(db, {
+    const pipelineResults = await withStageTiming(db, {
       jobId: voiceJobId,
       stage: 'intent_request',
       metadata: ({ result }) => ({
-        action: result?.snapshot?.action,
-        followUpCount: result?.snapshot?.followUp?.length ?? 0,
-        confidence: result?.snapshot?.confidence,
+        action: result?.[0]?.snapshot?.action,
+        followUpCount: result?.[0]?.snapshot?.followUp?.length ?? 0,
+        confidence: result?.[0]?.snapshot?.confidence,
+        intentCount: result?.length ?? 0,
       }),
       errorMetadata: (error) => ({
         error: error instanceof Error ? error.message : String(error),
@@ -239,16 +657,130 @@ export async function processProcessIntent(
       })
     );
 
-    const snapshotWithClarifications = applyClarificationAnswers(pipelineResult.snapshot, clarificationAnswers);
+    // Child jobs and clarification replies are about a single request, so only a new message is split
+    const isNewMultiRequest = pipelineResults.length > 1 && !voiceJob.parentJobId && !existingPendingIntent;
+
+    if (isNewMultiRequest) {
+      const { entitlements } = await getUserEntitlements(db, userId);
+
+      if (entitlements.multiEvent) {
+        await handleMultipleIntents({
+          db,
+          queueManager,
+          voiceJobId,
+          userId,
+          whatsappNumberId,
+          senderPhone,
+          pipelineResults,
+        });
+        return;
+      }
+
+      logger.info(
+        { voiceJobId, intentCount: pipelineResults.length },
+        'Plan does not include several requests per message, keeping the first'
+      );
+
+      const notificationService = new NotificationService();
+      await notificationService.sendMultiEventUnavailable(senderPhone, pipelineResults.length - 1, messageLogContext);
+    }
+
+    const [pipelineResult] = pipelineResults;
+
+    if (!pipelineResult) {
+      throw new Error('Intent pipeline returned no intents');
+    }
+
+    if (pipelineResults.length > 1 && !isNewMultiRequest) {
+      logger.warn(
+        { voiceJobId, intentCount: pipelineResults.length },
+        'Several requests found while resolving a single one, keeping the first'
+      );
+    }
+
+    let snapshotWithClarifications = applyClarificationAnswers(pipelineResult.snapshot, clarificationAnswers);
 
     let followUps = [...(snapshotWithClarifications.followUp ?? [])];
-    const conflictInfo = snapshotWithClarifications.conflict;
+
+    if (snapshotWithClarifications.action === 'SCHEDULE' && !clarificationAnswers[SLOT_FIELD]) {
+      const slotFollowUp = await buildSlotFollowUp({
+        db,
+        userId,
+        snapshot: snapshotWithClarifications,
+        existingPlan,
+        timezone,
+      });
+
+      if (!slotFollowUp) {
+        await handleNoFreeSlots({
+          db,
+          existingPendingIntent,
+          voiceJobId,
+          userId,
+          whatsappNumberId,
+          senderPhone,
+        });
+        return;
+      }
+
+      followUps.push(slotFollowUp);
+    }
+
+    let targetEvent: TargetEventRef | null = null;
+    let eventCandidates: EventCandidate[] | undefined;
+
+    if (snapshotWithClarifications.action === 'UPDATE' || snapshotWithClarifications.action === 'DELETE') {
+      const eventResolution = await resolveTargetEvent({
+        db,
+        userId,
+        snapshot: snapshotWithClarifications,
+        existingPlan,
+        answer: clarificationAnswers[EVENT_FIELD],
+        timezone,
+      });
+
+      targetEvent = eventResolution.target;
+      eventCandidates = eventResolution.candidates;
+
+      if (eventResolution.followUp) {
+        followUps.push(eventResolution.followUp);
+      }
+    }
+
+    let calendarCandidates: CalendarCandidate[] | undefined;
+
+    if (snapshotWithClarifications.action === 'CREATE') {
+      const calendarResolution = await resolveTargetCalendar({
+        db,
+        userId,
+        snapshot: snapshotWithClarifications,
+        existingPlan,
+        answer: clarificationAnswers[CALENDAR_FIELD],
+        timezone,
+      });
+
+      calendarCandidates = calendarResolution.candidates;
+
+      // The create job matches calendar ids exactly, so the picked calendar can't be ambiguous again
+      if (calendarResolution.calendarId) {
+        snapshotWithClarifications = { ...snapshotWithClarifications, calendar: calendarResolution.calendarId };
+      }
+
+      if (calendarResolution.followUp) {
+        followUps.push(calendarResolution.followUp);
+      }
+    }
+
+    const detectedConflict = snapshotWithClarifications.conflict || conflictResponse
+      ? null
+      : await detectCalendarConflict(db, userId, snapshotWithClarifications, timezone, targetEvent);
+    const conflictInfo = snapshotWithClarifications.conflict ?? detectedConflict?.conflict ?? null;
 
     if (conflictInfo && !conflictResponse) {
       followUps.push({
         field: CONFLICT_FIELD,
         reason: 'calendar_conflict',
-        question: buildConflictQuestion(conflictInfo),
+        question: buildConflictQuestion(conflictInfo, detectedConflict ?? undefined),
         options: ['Keep both', 'Move new event', 'Cancel'],
       });
     }
@@ -282,8 +814,14 @@ export async function processProcessIntent(
       }
     }
 
+    // Calendar questions are answered with whatever was asked, so there is nothing to clarify
+    if (snapshotWithClarifications.action === 'QUERY') {
+      followUps = [];
+    }
+
     const snapshotWithOverrides: IntentPipelineResult['snapshot'] = {
       ...snapshotWithClarifications,
+      conflict: conflictInfo,
       followUp: followUps,
     };
 
@@ -313,6 +851,7 @@ export async function processProcessIntent(
         senderPhone,
         pipelineResult: pipelineState,
         existingPendingIntent,
+        targetEvent,
       });
       return;
     }
@@ -327,6 +866,9 @@ export async function processProcessIntent(
       pipelineResult: pipelineState,
       followUps: pipelineState.snapshot.followUp,
       existingPendingIntent,
+      targetEvent,
+      eventCandidates,
+      calendarCandidates,
     });
   } catch (error) {
     const classified = ErrorHandler.classify(error);
@@ -357,6 +899,57 @@ export async function processProcessIntent(
     if (classified.isRetryable) {
       throw classified.originalError;
     }
+  } finally {
+    // A question or failure here settles this request of a multi-request message
+    await settleBatchChild(db, voiceJobId);
+  }
+}
+
+/**
+ * Split a message with several requests into one child job per request. Each child is processed from
+ * its own wording like any other message, so it is resolved, clarified, fixed and undone on its own.
+ */
+async function handleMultipleIntents(options: {
+  db: Database;
+  queueManager: QueueManager;
+  voiceJobId: string;
+  userId: string;
+  whatsappNumberId: string;
+  senderPhone: string;
+  pipelineResults: IntentPipelineResult[];
+}): Promise<void> {
+  const { db, queueManager, voiceJobId, userId, whatsappNumberId, senderPhone, pipelineResults } = options;
+
+  const childJobs = await createChildVoiceMessageJobs(
+    db,
+    voiceJobId,
+    pipelineResults.map((result) => ({
+      transcribedText: result.sourceText,
+      intentJobId: randomUUID(),
+    }))
+  );
+
+  logger.info(
+    {
+      voiceJobId,
+      childJobIds: childJobs.map((child) => child.id),
+      actions: pipelineResults.map((result) => result.snapshot.action),
+    },
+    'Message contains several requests, processing each as its own job'
+  );
+
+  metrics.increment('intent.split', { count: childJobs.length });
+
+  for (const childJob of childJobs) {
+    await queueManager.enqueueProcessIntent({
+      jobId: childJob.id,
+      voiceJobId: childJob.id,
+      intentJobId: childJob.intentJobId ?? randomUUID(),
+      userId,
+      whatsappNumberId,
+      transcribedText: childJob.transcribedText ?? '',
+      senderPhone,
+    });
   }
 }
 
@@ -369,8 +962,9 @@ async function handleCompleteIntent(options: {
   senderPhone: string;
   pipelineResult: IntentPipelineResult;
   existingPendingIntent: PendingIntentRecord | null;
+  targetEvent?: TargetEventRef | null;
 }): Promise<void> {
-  const { db, queueManager, voiceJobId, userId, whatsappNumberId, senderPhone, pipelineResult, existingPendingIntent } = options;
+  const { db, queueManager, voiceJobId, userId, whatsappNumberId, senderPhone, pipelineResult, existingPendingIntent, targetEvent } = options;
 
   const messageLogContext = {
     db,
@@ -378,6 +972,8 @@ async function handleCompleteIntent(options: {
     userId,
   };
 
+  const sharedLocation = getSharedLocation(existingPendingIntent);
+
   if (existingPendingIntent) {
     await deletePendingIntent(db, existingPendingIntent.id);
   }
@@ -398,32 +994,42 @@ async function handleCompleteIntent(options: {
       await queueManager.enqueueCreateEvent({
         voiceJobId,
         userId,
+        sharedLocation,
       });
       break;
     case 'UPDATE':
       await queueManager.enqueueUpdateEvent({
         voiceJobId,
         userId,
+        targetEvent: targetEvent ?? undefined,
       });
       break;
     case 'DELETE':
       await queueManager.enqueueDeleteEvent({
         voiceJobId,
         userId,
+        targetEvent: targetEvent ?? undefined,
       });
       break;
-    case 'QUERY':
-      logger.warn({ voiceJobId, action: pipelineResult.snapshot.action }, 'Intent action QUERY not supported yet');
+    case 'SCHEDULE':
+      // Only reached when a reply to the slot suggestions couldn't be matched to a slot
+      logger.warn({ voiceJobId }, 'Schedule intent completed without a chosen slot');
       if (senderPhone) {
         const notificationService = new NotificationService();
         await notificationService.sendError(
           senderPhone,
-          "I'm still learning how to check your calendar. Please open your calendar app to review events.",
+          "I couldn't match that to one of the suggested times. Send me a new message with the time you'd like.",
           messageLogContext
         );
       }
       await updateVoiceMessageJobStatus(db, voiceJobId, 'completed');
       break;
+    case 'QUERY':
+      await queueManager.enqueueQueryEvents({
+        voiceJobId,
+        userId,
+      });
+      break;
     default:
       throw new Error(`Unsupported intent action: ${pipelineResult.snapshot.action}`);
   }
@@ -439,12 +1045,30 @@ async function handleClarifications(options: {
   pipelineResult: IntentPipelineResult;
   existingPendingIntent: PendingIntentRecord | null;
   followUps: IntentFollowUpEntry[];
+  targetEvent?: TargetEventRef | null;
+  eventCandidates?: EventCandidate[];
+  calendarCandidates?: CalendarCandidate[];
 }): Promise<void> {
-  const { db, queueManager, voiceJobId, whatsappNumberId, userId, senderPhone, pipelineResult, existingPendingIntent, followUps } = options;
+  const {
+    db,
+    queueManager,
+    voiceJobId,
+    whatsappNumberId,
+    userId,
+    senderPhone,
+    pipelineResult,
+    existingPendingIntent,
+    followUps,
+    targetEvent,
+    eventCandidates,
+    calendarCandidates,
+  } = options;
 
   const plan = mergeClarificationPlan(
     existingPendingIntent?.clarificationPlan,
-    followUps
+    followUps,
+    eventCandidates,
+    calendarCandidates
   );
 
   // If all clarifications are already answered, proceed to create event
@@ -466,6 +1090,7 @@ async function handleClarifications(options: {
       senderPhone,
       pipelineResult,
       existingPendingIntent,
+      targetEvent,
     });
     return;
   }
@@ -554,6 +1179,127 @@ async function handleConflictCancellation(options: {
   logger.info({ voiceJobId, userId }, 'Intent cancelled due to conflict response');
 }
 
+async function handleNoFreeSlots(options: {
+  db: Database;
+  existingPendingIntent: PendingIntentRecord | null;
+  voiceJobId: string;
+  userId: string;
+  whatsappNumberId: string;
+  senderPhone: string;
+}): Promise<void> {
+  const { db, existingPendingIntent, voiceJobId, userId, whatsappNumberId, senderPhone } = options;
+
+  if (existingPendingIntent) {
+    await deletePendingIntent(db, existingPendingIntent.id);
+  }
+
+  await updateVoiceMessageJobStatus(db, voiceJobId, 'completed', new Date());
+
+  if (senderPhone) {
+    const notificationService = new NotificationService();
+    await notificationService.sendError(
+      senderPhone,
+      "I couldn't find a free slot in that time range. Try a different day or a shorter meeting.",
+      {
+        db,
+        whatsappNumberId,
+        userId,
+      }
+    );
+  }
+
+  logger.info({ voiceJobId, userId }, 'No free slots found for schedule request');
+}
+
+/**
+ * Build the slot suggestion follow-up for a SCHEDULE intent. Returns null when nothing is free.
+ */
+async function buildSlotFollowUp(options: {
+  db: Database;
+  userId: string;
+  snapshot: IntentPipelineResult['snapshot'];
+  existingPlan: ClarificationPlan | null;
+  timezone: string;
+}): Promise<IntentFollowUpEntry | null> {
+  const { db, userId, snapshot, existingPlan, timezone } = options;
+  const durationMinutes = snapshot.durationMinutes ?? DEFAULT_EVENT_DURATION_MINUTES;
+  const subject = snapshot.title ? `"${snapshot.title}"` : 'your meeting';
+  const question = `Here are the next free ${formatDurationLabel(durationMinutes)} slots for ${subject}. Which one works?`;
+
+  // Keep offering the slots already sent so the buttons the user sees stay valid
+  const existingPrompt = existingPlan?.prompts.find((prompt) => prompt.field === SLOT_FIELD);
+  if (existingPrompt?.options.length) {
+    return {
+      field: SLOT_FIELD,
+      reason: 'schedule_slot',
+      question: existingPrompt.question,
+      options: existingPrompt.options.map((option) => option.value),
+    };
+  }
+
+  const slots = await new CalendarService(db).findFreeSlots(userId, {
+    startDate: snapshot.availability?.startDate,
+    endDate: snapshot.availability?.endDate,
+    partOfDay: snapshot.availability?.partOfDay,
+    durationMinutes,
+  });
+
+  if (slots.length === 0) {
+    return null;
+  }
+
+  return {
+    field: SLOT_FIELD,
+    reason: 'schedule_slot',
+    question,
+    // Slots use the same local wall-clock ISO format as datetime.iso
+    options: slots.map((slot) => formatDateToLocalIso(slot.start, timezone)),
+  };
+}
+
+function resolveSlotAnswer(plan: ClarificationPlan | null, answer: ClarificationAnswer): ClarificationAnswer {
+  const raw = coerceClarificationString(answer.value);
+
+  if (!raw || isSlotValue(raw)) {
+    return answer;
+  }
+
+  const options = plan?.prompts.find((prompt) => prompt.field === SLOT_FIELD)?.options ?? [];
+  const normalized = raw.toLowerCase();
+  const index = Number.parseInt(normalized, 10);
+
+  const match = (Number.isInteger(index) ? options[index - 1] : undefined) ??
+    options.find((option) => normalized.includes(option.label.toLowerCase()));
+
+  return match ? { ...answer, value: match.value, label: match.label } : answer;
+}
+
+function isSlotValue(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value);
+}
+
+function formatSlotLabel(value: string, timeFormat: DisplayFormatOptions['timeFormat']): string {
+  // Slot values are local wall-clock times with a Z suffix, so format them as UTC
+  return new Date(value).toLocaleString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: timeFormat === '12h' ? 'numeric' : '2-digit',
+    minute: '2-digit',
+    hourCycle: timeFormat === '12h' ? 'h12' : 'h23',
+    timeZone: 'UTC',
+  });
+}
+
+function formatDurationLabel(minutes: number): string {
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return hours === 1 ? '1-hour' : `${hours}-hour`;
+  }
+
+  return `${minutes}-minute`;
+}
+
 type ClarificationAnswer = {
   value: unknown;
   label?: string;
@@ -561,6 +1307,24 @@ type ClarificationAnswer = {
   respondedAt?: string | Date | null;
 };
 
+/**
+ * The location pin shared on WhatsApp while this intent was being clarified, if any
+ */
+function getSharedLocation(pendingIntent: PendingIntentRecord | null): SharedLocation | undefined {
+  const response = pendingIntent
+    ? getClarificationResponse(parseClarificationPlan(pendingIntent.clarificationPlan), 'location')
+    : null;
+
+  if (response?.source !== 'location' || typeof response.value !== 'object') {
+    return undefined;
+  }
+
+  const { latitude, longitude, name, address } = response.value;
+  return Number.isFinite(latitude) && Number.isFinite(longitude)
+    ? { latitude, longitude, name, address }
+    : undefined;
+}
+
 function collectClarificationAnswers(
   pendingIntent: PendingIntentRecord | null,
   promptClarifications?: IntentPromptContext['clarifications']
@@ -614,7 +1378,13 @@ function applyClarificationAnswers(
   }
 
   const locationAnswer = answers['location'];
-  if (locationAnswer) {
+  if (locationAnswer?.source === 'location') {
+    // A shared pin is always a physical place; its label is the place name or the coordinates
+    updated.location = {
+      type: 'physical',
+      value: coerceClarificationString(locationAnswer.label) ?? updated.location?.value ?? null,
+    };
+  } else if (locationAnswer) {
     const raw = coerceClarificationString(locationAnswer.value) ?? coerceClarificationString(locationAnswer.label);
     const normalized = raw?.toLowerCase();
     const locationType: 'physical' | 'virtual' | 'unknown' = normalized === 'virtual'
@@ -633,6 +1403,21 @@ function applyClarificationAnswers(
     };
   }
 
+  const slotAnswer = answers[SLOT_FIELD];
+  const slotValue = slotAnswer ? coerceClarificationString(slotAnswer.value) : null;
+  if (updated.action === 'SCHEDULE' && slotValue && isSlotValue(slotValue)) {
+    // A chosen slot turns the schedule request into a regular event creation
+    const attendeeNames = updated.attendees.map((attendee) => attendee.name).filter(Boolean);
+    updated.action = 'CREATE';
+    updated.datetime = { iso: slotValue, precision: 'exact' };
+    updated.durationMinutes = updated.durationMinutes ?? DEFAULT_EVENT_DURATION_MINUTES;
+    updated.title = updated.title ?? (attendeeNames.length ? `Meeting with ${attendeeNames.join(', ')}` : 'Meeting');
+    updated.availability = null;
+    updated.followUp = updated.followUp.filter(
+      (item) => item.field !== 'datetime' && item.field !== 'date' && item.field !== 'time'
+    );
+  }
+
   const durationAnswer = answers['duration'] ?? answers['durationMinutes'];
   if (durationAnswer) {
     const raw = coerceClarificationString(durationAnswer.value) ?? coerceClarificationString(durationAnswer.label);
@@ -683,7 +1468,9 @@ function parseDurationMinutes(raw: string): number | null {
 
 function mergeClarificationPlan(
   existingPlan: unknown,
-  followUps: IntentPipelineResult['snapshot']['followUp']
+  followUps: IntentPipelineResult['snapshot']['followUp'],
+  eventCandidates?: EventCandidate[],
+  calendarCandidates?: CalendarCandidate[]
 ): ClarificationPlan {
   const base: ClarificationPlan = {
     pendingFields: [],
@@ -707,6 +1494,22 @@ function mergeClarificationPlan(
     if (parsed.expiredAt) {
       (base as Record<string, unknown>).expiredAt = parsed.expiredAt;
     }
+
+    if (Array.isArray(parsed.eventCandidates)) {
+      base.eventCandidates = parsed.eventCandidates;
+    }
+
+    if (Array.isArray(parsed.calendarCandidates)) {
+      base.calendarCandidates = parsed.calendarCandidates;
+    }
+  }
+
+  if (eventCandidates) {
+    base.eventCandidates = eventCandidates;
+  }
+
+  if (calendarCandidates) {
+    base.calendarCandidates = calendarCandidates;
   }
 
   const newFields = new Set<string>(followUps.map((item: IntentFollowUpEntry) => item.field));
@@ -756,6 +1559,11 @@ async function dispatchClarificationPrompts(options: {
     return;
   }
 
+  // Slot options are shown as times, so they follow the user's 12h/24h preference
+  const timeFormat = nextField === SLOT_FIELD
+    ? (await getUserPreferences(db, pendingIntent.userId))?.timeFormat ?? '24h'
+    : '24h';
+
   const prompt = await withStageTiming(db, {
     jobId: voiceJobId,
     stage: 'clarification_dispatch',
@@ -775,9 +1583,16 @@ async function dispatchClarificationPrompts(options: {
       field: nextField,
       question: questionEntry.question,
       options: questionEntry.options ?? [],
+      eventCandidates: plan.eventCandidates,
+      calendarCandidates: plan.calendarCandidates,
+      timeFormat,
     }, messageLogContext)
   );
 
+  if (nextField === ATTENDEE_FIELD) {
+    prompt.attendeeName = findAskedAttendee(snapshot, questionEntry.question);
+  }
+
   plan.prompts.push(prompt);
 
   if (prompt.channel === 'buttons' || prompt.channel === 'list') {
@@ -795,6 +1610,21 @@ async function dispatchClarificationPrompts(options: {
   });
 }
 
+/**
+ * The attendee an email question is about: the one without an email the question names, or the
+ * first without one when it names nobody
+ */
+function findAskedAttendee(snapshot: IntentPipelineResult['snapshot'], question: string): string | null {
+  const missingEmail = (snapshot.attendees ?? [])
+    .map((attendee) => ({ name: attendee.name?.trim() ?? '', email: attendee.email }))
+    .filter((attendee) => attendee.name && !attendee.email && !attendee.name.includes('@'));
+  const normalizedQuestion = question.toLowerCase();
+
+  const named = missingEmail.find((attendee) => normalizedQuestion.includes(attendee.name.toLowerCase()));
+
+  return (named ?? missingEmail[0])?.name ?? null;
+}
+
 function findFollowUpByField(
   field: string,
   followUps: IntentPipelineResult['snapshot']['followUp']
@@ -810,6 +1640,9 @@ async function sendClarificationPrompt(
     field: string;
     question: string;
     options: string[];
+    eventCandidates?: EventCandidate[];
+    calendarCandidates?: CalendarCandidate[];
+    timeFormat: DisplayFormatOptions['timeFormat'];
   },
   logContext: { db: Database; whatsappNumberId: string; userId: string }
 ): Promise<ClarificationPrompt> {
@@ -829,12 +1662,14 @@ async function sendClarificationPrompt(
     };
   }
 
-  if (options.options.length <= 3) {
-    const enrichedOptions = options.options.map((value, index) => ({
-      id: buildInteractiveOptionId(options.pendingIntentId, options.field, value, index),
-      label: value,
-      value,
-    }));
+  const enrichedOptions = options.options.map((value, index) => ({
+    id: buildInteractiveOptionId(options.pendingIntentId, options.field, value, index),
+    value,
+    ...describeClarificationOption(options.field, value, options),
+  }));
+
+  // Matched events always go in a list so each row can show when the event is
+  if (options.options.length <= 3 && options.field !== EVENT_FIELD) {
 
     const response = await notificationService.sendClarificationPrompt(options.phone, {
       type: 'buttons',
@@ -852,12 +1687,6 @@ async function sendClarificationPrompt(
     };
   }
 
-  const enrichedOptions = options.options.map((value, index) => ({
-    id: buildInteractiveOptionId(options.pendingIntentId, options.field, value, index),
-    label: value,
-    value,
-  }));
-
   const response = await notificationService.sendClarificationPrompt(options.phone, {
     type: 'list',
     question: options.question,
@@ -874,6 +1703,34 @@ async function sendClarificationPrompt(
   };
 }
 
+function describeClarificationOption(
+  field: string,
+  value: string,
+  context: {
+    eventCandidates?: EventCandidate[];
+    calendarCandidates?: CalendarCandidate[];
+    timeFormat: DisplayFormatOptions['timeFormat'];
+  }
+): { label: string; description?: string } {
+  const { eventCandidates, calendarCandidates, timeFormat } = context;
+
+  if (field === SLOT_FIELD) {
+    return { label: formatSlotLabel(value, timeFormat) };
+  }
+
+  if (field === CALENDAR_FIELD) {
+    return { label: calendarCandidates?.find((entry) => entry.id === value)?.name ?? value };
+  }
+
+  const candidate = field === EVENT_FIELD
+    ? eventCandidates?.find((entry) => entry.key === value)
+    : undefined;
+
+  return candidate
+    ? { label: candidate.title, description: candidate.when }
+    : { label: value };
+}
+
 function buildInteractiveOptionId(
   pendingIntentId: string,
   field: string,
@@ -897,7 +1754,7 @@ function buildClarificationSummary(pendingIntent: PendingIntentRecord | null) {
 
   return Object.entries(plan.responses).map(([field, response]) => ({
     field,
-    value: response.label ?? response.value,
+    value: response.label ?? (typeof response.value === 'string' ? response.value : ''),
     source: response.source,
   }));
 }
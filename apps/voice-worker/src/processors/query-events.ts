@@ -0,0 +1,178 @@
+// Query calendar events processor - answers questions about the user's calendar
+
+import type { Job } from 'bullmq';
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  getUserPreferences,
+  getVoiceMessageJob,
+  updateVoiceMessageJobStatus,
+  updateVoiceMessageJobError,
+} from '@imaginecalendar/database/queries';
+import { logger } from '@imaginecalendar/logger';
+import {
+  calendarIntentSchema,
+  type CalendarIntent,
+  type IntentSnapshot,
+} from '@imaginecalendar/ai-services';
+import { CalendarService } from '../services/calendar-service';
+import { NotificationService } from '../services/notification';
+import { ErrorHandler } from '../utils/error-handler';
+import { PART_OF_DAY_HOURS } from '../utils/free-slots';
+import { settleBatchChild } from '../utils/intent-batch';
+import type { QueryEventsJobData } from '../config/queues';
+import { withStageTiming } from '../utils/timing';
+
+export async function processQueryEvents(
+  job: Job<QueryEventsJobData>,
+  db: Database
+): Promise<void> {
+  const { voiceJobId, userId } = job.data;
+
+  try {
+    logger.info({ voiceJobId, userId }, 'Starting calendar query');
+
+    const voiceJob = await getVoiceMessageJob(db, voiceJobId);
+
+    if (!voiceJob) {
+      throw new Error('Voice job not found');
+    }
+
+    const intent = extractCalendarIntent(voiceJob, 'QUERY');
+
+    if (!intent) {
+      throw new Error('No resolved QUERY intent found for this job');
+    }
+
+    await updateVoiceMessageJobStatus(db, voiceJobId, 'querying_events');
+
+    const calendarService = new CalendarService(db);
+
+    const queryResult = await withStageTiming(db, {
+      jobId: voiceJobId,
+      stage: 'event_query',
+      metadata: ({ result }) => ({
+        queryType: result?.query?.type,
+        eventCount: result?.events?.length,
+      }),
+      errorMetadata: (error) => ({
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    }, async () => {
+      const result = await calendarService.query(userId, intent);
+
+      if (!result.success || !result.query) {
+        throw new Error(result.message || 'Failed to query calendar events');
+      }
+
+      return result;
+    });
+
+    const summary = queryResult.query;
+    if (!summary) {
+      throw new Error('Calendar service did not return query details');
+    }
+
+    await updateVoiceMessageJobStatus(db, voiceJobId, 'completed', new Date());
+
+    const [timezone, preferences] = await Promise.all([
+      calendarService.getUserTimezone(userId),
+      getUserPreferences(db, userId),
+    ]);
+    const notificationService = new NotificationService(timezone);
+    await notificationService.sendQueryResult(
+      voiceJob.senderPhone,
+      queryResult.events ?? [],
+      summary,
+      {
+        dateFormat: preferences?.dateFormat ?? 'DD/MM/YYYY',
+        timeFormat: preferences?.timeFormat ?? '24h',
+      },
+      {
+        db,
+        whatsappNumberId: voiceJob.whatsappNumberId,
+        userId: voiceJob.userId,
+      }
+    );
+  } catch (error) {
+    const classifiedError = ErrorHandler.classify(error);
+    ErrorHandler.log(classifiedError, { voiceJobId, userId });
+
+    await updateVoiceMessageJobError(db, voiceJobId, {
+      errorMessage: classifiedError.message,
+      errorStage: 'querying_events',
+      retryCount: job.attemptsMade,
+    });
+
+    if (classifiedError.isRetryable) {
+      throw classifiedError.originalError;
+    }
+
+    const voiceJob = await getVoiceMessageJob(db, voiceJobId);
+    if (voiceJob?.senderPhone) {
+      const notificationService = new NotificationService();
+      await notificationService.sendError(
+        voiceJob.senderPhone,
+        ErrorHandler.getUserMessage(classifiedError),
+        {
+          db,
+          whatsappNumberId: voiceJob.whatsappNumberId,
+          userId: voiceJob.userId,
+        }
+      );
+    }
+  } finally {
+    // Answers are sent on their own, but a multi-request message may be waiting for this one to finish
+    await settleBatchChild(db, voiceJobId);
+  }
+}
+
+function extractCalendarIntent(
+  voiceJob: any,
+  expectedAction: 'QUERY'
+): CalendarIntent | null {
+  if (voiceJob.intentAnalysis?.action === expectedAction) {
+    return voiceJob.intentAnalysis as CalendarIntent;
+  }
+
+  if (!voiceJob.intentSnapshot) {
+    return null;
+  }
+
+  try {
+    const snapshot = voiceJob.intentSnapshot as IntentSnapshot;
+
+    if (snapshot.action !== expectedAction) {
+      return null;
+    }
+
+    const { iso } = snapshot.datetime ?? {};
+    const startDate = iso ? iso.slice(0, 10) : undefined;
+
+    // "Friday afternoon" becomes a time window on each day of the range
+    const hours = snapshot.query?.partOfDay ? PART_OF_DAY_HOURS[snapshot.query.partOfDay] : undefined;
+
+    const payload: Record<string, unknown> = {
+      action: snapshot.action,
+      title: snapshot.title ?? undefined,
+      startDate,
+      query: snapshot.query
+        ? {
+            type: snapshot.query.type,
+            startDate: snapshot.query.startDate ?? startDate,
+            endDate: snapshot.query.endDate ?? undefined,
+            startTime: hours?.start,
+            endTime: hours?.end,
+            attendee: snapshot.query.attendee ?? snapshot.attendees?.[0]?.name ?? undefined,
+            keyword: snapshot.query.keyword ?? undefined,
+          }
+        : undefined,
+      confidence: snapshot.confidence,
+      missingFields: [] as string[],
+    };
+
+    return calendarIntentSchema.parse(payload);
+  } catch (error) {
+    logger.error({ error, voiceJobId: voiceJob.id }, 'Failed to convert intent snapshot for query');
+    return null;
+  }
+}
@@ -0,0 +1,39 @@
+// Send daily digest processor - collects today's events across calendars and sends the agenda
+
+import type { Job } from 'bullmq';
+import type { Database } from '@imaginecalendar/database/client';
+import { logger } from '@imaginecalendar/logger';
+import type { SendDailyDigestJobData } from '../config/queues';
+import { CalendarService } from '../services/calendar-service';
+import { NotificationService } from '../services/notification';
+import { ErrorHandler } from '../utils/error-handler';
+
+export async function processSendDailyDigest(
+  job: Job<SendDailyDigestJobData>,
+  db: Database
+): Promise<void> {
+  const { userId, whatsappNumberId, senderPhone, date, timezone, dateFormat, timeFormat } = job.data;
+
+  try {
+    const calendarService = new CalendarService(db);
+    const events = await calendarService.getEventsForDay(userId, { date, timeZone: timezone });
+
+    const notificationService = new NotificationService(timezone);
+
+    await notificationService.sendDailyDigest(
+      senderPhone,
+      events,
+      { date, dateFormat, timeFormat },
+      { db, whatsappNumberId, userId }
+    );
+
+    logger.info({ userId, date, eventCount: events.length }, 'Daily digest delivered');
+  } catch (error) {
+    const classifiedError = ErrorHandler.classify(error);
+    ErrorHandler.log(classifiedError, { userId, date });
+
+    if (classifiedError.isRetryable) {
+      throw error;
+    }
+  }
+}
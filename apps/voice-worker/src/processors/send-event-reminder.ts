@@ -0,0 +1,97 @@
+// Send event reminder processor - delivers a single queued reminder over WhatsApp
+
+import type { Job } from 'bullmq';
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  getEventReminderById,
+  markEventReminderFailed,
+  markEventReminderSent,
+} from '@imaginecalendar/database/queries';
+import { logger } from '@imaginecalendar/logger';
+import type { SendEventReminderJobData } from '../config/queues';
+import { CalendarService } from '../services/calendar-service';
+import { NotificationService } from '../services/notification';
+import { ErrorHandler } from '../utils/error-handler';
+
+export async function processSendEventReminder(
+  job: Job<SendEventReminderJobData>,
+  db: Database
+): Promise<void> {
+  const { eventReminderId, userId, whatsappNumberId, senderPhone, reminderMinutes, timezone, event } =
+    job.data;
+
+  const reminder = await getEventReminderById(db, eventReminderId);
+
+  if (!reminder || reminder.status !== 'scheduled') {
+    logger.info(
+      { eventReminderId, status: reminder?.status },
+      'Skipping event reminder - not in scheduled state'
+    );
+    return;
+  }
+
+  const start = new Date(event.start);
+
+  if (start.getTime() < Date.now()) {
+    await markEventReminderFailed(db, eventReminderId, 'skipped', 'Event already started');
+    logger.info({ eventReminderId, eventId: event.id }, 'Skipping event reminder - event already started');
+    return;
+  }
+
+  try {
+    // The snapshot is from when the reminder was scheduled; the event may have moved or gone since
+    const current = await new CalendarService(db).getEventById(userId, {
+      eventId: event.id,
+      calendarConnectionId: reminder.calendarConnectionId,
+    });
+
+    if (!current) {
+      await markEventReminderFailed(db, eventReminderId, 'skipped', 'Event was deleted');
+      logger.info({ eventReminderId, eventId: event.id }, 'Skipping event reminder - event was deleted');
+      return;
+    }
+
+    if (current.start.getTime() !== reminder.eventStart.getTime()) {
+      await markEventReminderFailed(db, eventReminderId, 'skipped', 'Event was moved');
+      logger.info(
+        { eventReminderId, eventId: event.id, scheduledStart: reminder.eventStart, currentStart: current.start },
+        'Skipping event reminder - event was moved'
+      );
+      return;
+    }
+
+    const notificationService = new NotificationService(timezone);
+
+    const { messageId } = await notificationService.sendEventReminder(
+      senderPhone,
+      {
+        id: current.id,
+        title: current.title,
+        start: current.start,
+        end: current.end,
+        location: current.location,
+        provider: current.provider,
+        htmlLink: current.htmlLink ?? event.htmlLink,
+        webLink: current.webLink ?? event.webLink,
+      },
+      reminderMinutes,
+      { db, whatsappNumberId, userId }
+    );
+
+    await markEventReminderSent(db, eventReminderId, messageId);
+
+    logger.info({ eventReminderId, eventId: event.id, userId }, 'Event reminder delivered');
+  } catch (error) {
+    const classifiedError = ErrorHandler.classify(error);
+    ErrorHandler.log(classifiedError, { eventReminderId, eventId: event.id, userId });
+
+    const attempts = job.opts.attempts ?? 1;
+    const isFinalAttempt = job.attemptsMade + 1 >= attempts;
+
+    if (classifiedError.isRetryable && !isFinalAttempt) {
+      throw error;
+    }
+
+    await markEventReminderFailed(db, eventReminderId, 'failed', classifiedError.message);
+  }
+}
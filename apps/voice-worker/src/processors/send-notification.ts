@@ -2,21 +2,32 @@
 
 import type { Job } from 'bullmq';
 import type { Database } from '@imaginecalendar/database/client';
-import type { IntentSnapshot } from '@imaginecalendar/ai-services';
+import { DEFAULT_TIMEZONE, zonedTimeToUtc, type IntentSnapshot } from '@imaginecalendar/ai-services';
 import {
   getVoiceMessageJob,
   updateVoiceMessageJobStatus,
 } from '@imaginecalendar/database/queries';
 import { logger } from '@imaginecalendar/logger';
+import { CalendarService } from '../services/calendar-service';
 import { NotificationService } from '../services/notification';
 import type { SendNotificationJobData } from '../config/queues';
+import { confirmInBatch } from '../utils/intent-batch';
 import { withStageTiming } from '../utils/timing';
 
 export async function processSendNotification(
   job: Job<SendNotificationJobData>,
   db: Database
 ): Promise<void> {
-  const { voiceJobId, senderPhone, success, eventId, errorMessage } = job.data;
+  const {
+    voiceJobId,
+    senderPhone,
+    success,
+    eventId,
+    meetingUrl,
+    reminderMinutes,
+    operationId,
+    errorMessage,
+  } = job.data;
 
   try {
     logger.info({ voiceJobId, success, eventId }, 'Sending notification');
@@ -29,7 +40,10 @@ export async function processSendNotification(
       throw new Error('Job paused - will retry');
     }
 
-    const notificationService = new NotificationService();
+    const timezone = initialVoiceJob?.userId
+      ? await new CalendarService(db).getUserTimezone(initialVoiceJob.userId)
+      : DEFAULT_TIMEZONE;
+    const notificationService = new NotificationService(timezone);
 
     await withStageTiming(db, {
       jobId: voiceJobId,
@@ -64,18 +78,18 @@ export async function processSendNotification(
             duration: snapshot.durationMinutes,
             location: snapshot.location?.value,
             attendees: snapshot.attendees?.map(a => a.name).filter(Boolean),
+            recurrence: snapshot.recurrence ?? undefined,
+            isAllDay: snapshot.datetime?.precision === 'date' || undefined,
           };
         } else {
           throw new Error('Neither intentAnalysis nor intentSnapshot found');
         }
 
-        const startDateTime = intent.startTime
-          ? new Date(`${intent.startDate}T${intent.startTime}:00+02:00`)
-          : new Date(intent.startDate);
+        const startDateTime = zonedTimeToUtc(intent.startDate, intent.startTime, timezone);
 
         let endDateTime: Date;
         if (intent.endDate && intent.endTime) {
-          endDateTime = new Date(`${intent.endDate}T${intent.endTime}:00+02:00`);
+          endDateTime = zonedTimeToUtc(intent.endDate, intent.endTime, timezone);
         } else if (intent.duration) {
           endDateTime = new Date(startDateTime);
           endDateTime.setMinutes(endDateTime.getMinutes() + intent.duration);
@@ -92,8 +106,29 @@ export async function processSendNotification(
           start: startDateTime,
           end: endDateTime,
           provider: (latestVoiceJob.calendarProvider as 'google' | 'microsoft') || 'google',
+          meetingUrl,
+          reminderMinutes,
         };
 
+        const confirmedInBatch = await confirmInBatch(db, latestVoiceJob, {
+          action: 'CREATE',
+          eventId,
+          title: event.title,
+          start: event.start.toISOString(),
+          allDay: intent.isAllDay,
+          operationId,
+        });
+
+        if (confirmedInBatch) {
+          logger.info({ voiceJobId, eventId }, 'Confirmation held for multi-request message, job completed');
+
+          return {
+            success: true,
+            eventId,
+            channel: 'batch',
+          };
+        }
+
         await notificationService.sendSuccess(
           senderPhone,
           event,
@@ -103,7 +138,9 @@ export async function processSendNotification(
             db,
             whatsappNumberId: latestVoiceJob.whatsappNumberId,
             userId: latestVoiceJob.userId,
-          }
+          },
+          voiceJobId,
+          operationId
         );
 
         await updateVoiceMessageJobStatus(db, voiceJobId, 'completed', new Date());
@@ -10,10 +10,15 @@ import {
   updateVoiceMessageJobError,
   updateVoiceMessageJobPause,
   updateVoiceMessageJobSnapshot,
+  recordSttProviderAttempt,
 } from '@imaginecalendar/database/queries';
 import { logger } from '@imaginecalendar/logger';
 import { readFile } from 'node:fs/promises';
-import { TranscriptionService } from '@imaginecalendar/ai-services';
+import {
+  TranscriptionService,
+  getProviderCostPerMinute,
+  type TranscriptionAttempt,
+} from '@imaginecalendar/ai-services';
 import { FileManager } from '../utils/file-manager';
 import { ErrorHandler } from '../utils/error-handler';
 import type { QueueManager } from '../utils/queue-manager';
@@ -26,6 +31,7 @@ export async function processTranscribeAudio(
   queueManager: QueueManager
 ): Promise<void> {
   const { voiceJobId, audioFilePath, mimeType } = job.data;
+  const attempts: TranscriptionAttempt[] = [];
 
   try {
     logger.info({ voiceJobId, audioFilePath }, 'Starting audio transcription');
@@ -61,6 +67,7 @@ export async function processTranscribeAudio(
         language: 'en',
         enableFallback: true,
         enableTimestamps: false,
+        onAttempt: (attempt) => attempts.push(attempt),
       });
 
       await updateVoiceMessageJobTranscription(db, voiceJobId, {
@@ -75,6 +82,8 @@ export async function processTranscribeAudio(
       return result;
     });
 
+    await recordProviderAttempts(db, attempts, voiceJobId);
+
     logger.info(
       {
         voiceJobId,
@@ -132,6 +141,8 @@ export async function processTranscribeAudio(
     const classifiedError = ErrorHandler.classify(error);
     ErrorHandler.log(classifiedError, { voiceJobId, audioFilePath });
 
+    await recordProviderAttempts(db, attempts, voiceJobId);
+
     // Update database with error
     await updateVoiceMessageJobError(db, voiceJobId, {
       errorMessage: classifiedError.message,
@@ -161,3 +172,30 @@ export async function processTranscribeAudio(
     }
   }
 }
+
+/**
+ * Feed provider attempts into the STT stats. Stats are best-effort and never fail the job.
+ */
+async function recordProviderAttempts(
+  db: Database,
+  attempts: TranscriptionAttempt[],
+  voiceJobId: string
+): Promise<void> {
+  // Empty the list so a later failure in this job doesn't count the same attempts twice
+  for (const attempt of attempts.splice(0)) {
+    const audioMinutes = attempt.audioSeconds ? attempt.audioSeconds / 60 : 0;
+
+    try {
+      await recordSttProviderAttempt(db, {
+        providerName: attempt.provider,
+        success: attempt.success,
+        fallback: attempt.fallback,
+        durationMs: attempt.durationMs,
+        audioMinutes,
+        cost: audioMinutes * getProviderCostPerMinute(attempt.provider),
+      });
+    } catch (error) {
+      logger.warn({ error, voiceJobId, provider: attempt.provider }, 'Failed to record STT provider stats');
+    }
+  }
+}
@@ -0,0 +1,110 @@
+// Undo operation processor - reverts a calendar change after the user tapped "Undo" or replied "undo"
+
+import type { Job } from 'bullmq';
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  completeEventOperationUndo,
+  failEventOperationUndo,
+  getEventOperationById,
+  type EventOperationAction,
+  type EventOperationSnapshot,
+} from '@imaginecalendar/database/queries';
+import { logger } from '@imaginecalendar/logger';
+import { CalendarService } from '../services/calendar-service';
+import { NotificationService } from '../services/notification';
+import { ErrorHandler } from '../utils/error-handler';
+import type { UndoOperationJobData } from '../config/queues';
+import { withStageTiming } from '../utils/timing';
+
+export async function processUndoOperation(
+  job: Job<UndoOperationJobData>,
+  db: Database
+): Promise<void> {
+  const { operationId, userId, senderPhone } = job.data;
+
+  const operation = await getEventOperationById(db, operationId);
+
+  if (!operation) {
+    logger.warn({ operationId, userId }, 'Event operation to undo not found');
+    return;
+  }
+
+  // The webhook claims the operation before queueing, so anything else was already handled
+  if (operation.status !== 'undoing') {
+    logger.info({ operationId, status: operation.status }, 'Event operation not awaiting undo, skipping');
+    return;
+  }
+
+  const action = operation.action as EventOperationAction;
+  const previousState = operation.previousState as EventOperationSnapshot | null;
+  const logContext = {
+    db,
+    whatsappNumberId: operation.whatsappNumberId,
+    userId: operation.userId,
+  };
+
+  try {
+    logger.info({ operationId, voiceJobId: operation.voiceJobId, action }, 'Undoing calendar change');
+
+    const calendarService = new CalendarService(db);
+    const timezone = await calendarService.getUserTimezone(userId);
+
+    const { removedEvent, restoredEventId } = await withStageTiming(db, {
+      jobId: operation.voiceJobId,
+      stage: 'event_undo',
+      metadata: ({ result }) => ({
+        operationId,
+        action,
+        restoredEventId: result?.restoredEventId,
+      }),
+      errorMetadata: (error) => ({
+        operationId,
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    }, () => calendarService.revertOperation(userId, {
+      action,
+      calendarConnectionId: operation.calendarConnectionId,
+      eventId: operation.eventId,
+      previousState,
+    }));
+
+    await completeEventOperationUndo(db, operationId, { restoredEventId });
+
+    // After undoing a CREATE there is no earlier state, so describe the event that was removed
+    const shownEvent = previousState
+      ? {
+          id: restoredEventId ?? operation.eventId,
+          title: previousState.title,
+          start: new Date(previousState.start),
+          allDay: previousState.allDay,
+          attendees: previousState.attendees,
+        }
+      : {
+          id: operation.eventId,
+          title: removedEvent?.title ?? operation.eventTitle,
+          start: removedEvent?.start,
+          allDay: removedEvent?.allDay,
+        };
+
+    const notificationService = new NotificationService(timezone);
+    await notificationService.sendUndoSuccess(senderPhone, action, shownEvent, logContext);
+  } catch (error) {
+    const classifiedError = ErrorHandler.classify(error);
+    ErrorHandler.log(classifiedError, { operationId, voiceJobId: operation.voiceJobId, userId });
+
+    const attemptsLeft = (job.opts.attempts ?? 1) - job.attemptsMade - 1;
+
+    if (classifiedError.isRetryable && attemptsLeft > 0) {
+      throw classifiedError.originalError;
+    }
+
+    await failEventOperationUndo(db, operationId, classifiedError.message);
+
+    const notificationService = new NotificationService();
+    await notificationService.sendError(
+      senderPhone,
+      `Sorry, I couldn't undo that change. ${ErrorHandler.getUserMessage(classifiedError)}`,
+      logContext
+    );
+  }
+}
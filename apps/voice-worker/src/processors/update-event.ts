@@ -17,6 +17,8 @@ import { NotificationService } from '../services/notification';
 import { ErrorHandler } from '../utils/error-handler';
 import type { QueueManager } from '../utils/queue-manager';
 import type { UpdateEventJobData } from '../config/queues';
+import { recordUndoableOperation } from '../utils/event-operations';
+import { confirmInBatch, settleBatchChild } from '../utils/intent-batch';
 import { withStageTiming } from '../utils/timing';
 
 export async function processUpdateEvent(
@@ -24,7 +26,7 @@ export async function processUpdateEvent(
   db: Database,
   _queueManager: QueueManager
 ): Promise<void> {
-  const { voiceJobId, userId } = job.data;
+  const { voiceJobId, userId, targetEvent } = job.data;
 
   try {
     logger.info({ voiceJobId, userId }, 'Starting calendar event update');
@@ -43,6 +45,8 @@ export async function processUpdateEvent(
 
     await updateVoiceMessageJobStatus(db, voiceJobId, 'updating_event');
 
+    const calendarService = new CalendarService(db);
+
     const updateResult = await withStageTiming(db, {
       jobId: voiceJobId,
       stage: 'event_update',
@@ -54,8 +58,17 @@ export async function processUpdateEvent(
         error: error instanceof Error ? error.message : String(error),
       }),
     }, async () => {
-      const calendarService = new CalendarService(db);
-      const result = await calendarService.update(userId, intent);
+      const result = targetEvent
+        ? await calendarService.updateEventById(
+          userId,
+          {
+            eventId: targetEvent.eventId,
+            calendarConnectionId: targetEvent.calendarConnectionId,
+            start: new Date(targetEvent.start),
+          },
+          intent
+        )
+        : await calendarService.update(userId, intent);
 
       if (!result.success || !result.event) {
         throw new Error(result.message || 'Failed to update calendar event');
@@ -72,11 +85,28 @@ export async function processUpdateEvent(
     await updateVoiceMessageJobCalendarEvent(db, voiceJobId, {
       calendarEventId: updatedEvent.id,
       calendarProvider: updatedEvent.provider,
+      calendarConnectionId: updateResult.calendarConnectionId,
+    });
+
+    const operationId = await recordUndoableOperation(db, voiceJob, updateResult);
+
+    const confirmedInBatch = await confirmInBatch(db, voiceJob, {
+      action: 'UPDATE',
+      eventId: updatedEvent.id,
+      title: updatedEvent.title,
+      start: updatedEvent.start.toISOString(),
+      allDay: updatedEvent.allDay,
+      operationId,
     });
 
+    if (confirmedInBatch) {
+      return;
+    }
+
     await updateVoiceMessageJobStatus(db, voiceJobId, 'completed', new Date());
 
-    const notificationService = new NotificationService();
+    const timezone = await calendarService.getUserTimezone(userId);
+    const notificationService = new NotificationService(timezone);
     await notificationService.sendUpdateSuccess(
       voiceJob.senderPhone,
       updatedEvent,
@@ -85,7 +115,8 @@ export async function processUpdateEvent(
         db,
         whatsappNumberId: voiceJob.whatsappNumberId,
         userId: voiceJob.userId,
-      }
+      },
+      operationId
     );
   } catch (error) {
     const classifiedError = ErrorHandler.classify(error);
@@ -97,6 +128,8 @@ export async function processUpdateEvent(
       retryCount: job.attemptsMade,
     });
 
+    await settleBatchChild(db, voiceJobId);
+
     if (classifiedError.isRetryable) {
       throw classifiedError.originalError;
     }
@@ -155,7 +188,24 @@ function extractCalendarIntent(
       startTime,
       duration: snapshot.durationMinutes ?? undefined,
       location: snapshot.location?.value ?? undefined,
+      isVirtual: snapshot.location?.type === 'virtual' ? true : undefined,
       attendees: attendees.length ? attendees : undefined,
+      recurrence: snapshot.recurrence
+        ? {
+            frequency: snapshot.recurrence.frequency,
+            interval: snapshot.recurrence.interval ?? undefined,
+            byDay: snapshot.recurrence.byDay ?? undefined,
+            count: snapshot.recurrence.count ?? undefined,
+            until: snapshot.recurrence.until ?? undefined,
+          }
+        : undefined,
+      reminder: snapshot.reminder
+        ? {
+            minutesBefore: snapshot.reminder.minutesBefore ?? undefined,
+            daysBefore: snapshot.reminder.daysBefore ?? undefined,
+            time: snapshot.reminder.time ?? undefined,
+          }
+        : undefined,
       targetEventTitle: snapshot.conflict?.summary ?? snapshot.title ?? undefined,
       targetEventDate: startDate,
       targetEventTime: startTime,
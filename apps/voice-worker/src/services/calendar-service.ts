@@ -1,11 +1,70 @@
 // Calendar service - wraps calendar providers with user's stored connections and handles all calendar operations
 
 import type { Database } from '@imaginecalendar/database/client';
-import { getPrimaryCalendar, updateCalendarTokens } from '@imaginecalendar/database/queries';
+import {
+  applyContactSync,
+  getActiveCalendars,
+  getCalendarById,
+  getCalendarRoutingRules,
+  getContactAliases,
+  getContactDirectory,
+  getPersonalContacts,
+  getPrimaryCalendar,
+  getUserPreferences,
+  recordContactMeeting,
+  setContactMeetingStats,
+  updateCalendarTokens,
+  type EventOperationSnapshot,
+} from '@imaginecalendar/database/queries';
 import { createCalendarProvider } from '@imaginecalendar/calendar-integrations/factory';
-import type { Contact, CalendarProvider } from '@imaginecalendar/calendar-integrations/types';
-import type { ICalendarService, CalendarIntent } from '@imaginecalendar/ai-services';
+import type { Contact, CalendarProvider, RecurrenceRule, RecurrenceWeekday } from '@imaginecalendar/calendar-integrations/types';
+import type { ICalendarEvent } from '@imaginecalendar/calendar-integrations/icalendar';
+import { parseRRule, toRRule } from '@imaginecalendar/calendar-integrations/recurrence';
+import {
+  CalendarResolver,
+  DEFAULT_TIMEZONE,
+  EventMatcher,
+  formatDateToLocalIso,
+  isValidTimeZone,
+  zonedTimeToUtc,
+  type ICalendarService,
+  type ICalendarRoutingService,
+  type IConflictService,
+  type IEventSearchService,
+  type BusyEvent,
+  type CandidateEvent,
+  type EventMatch,
+  type EventSearchCriteria,
+  type CalendarIntent,
+  type CalendarRoutingContext,
+  type ContactAlias,
+  type DirectoryContact,
+} from '@imaginecalendar/ai-services';
 import { logger } from '@imaginecalendar/logger';
+import { findFreeSlots, findFreeWindows, type PartOfDay, type TimeSlot } from '../utils/free-slots';
+
+// Look a week ahead when a SCHEDULE request doesn't say when
+const DEFAULT_SLOT_SEARCH_DAYS = 7;
+
+// Look a month ahead for "when am I meeting John?" and never fetch more than that at once
+const DEFAULT_QUERY_SEARCH_DAYS = 30;
+const MAX_QUERY_RANGE_DAYS = 31;
+
+// Events fetched per calendar for a query; providers are paged up to this
+const MAX_QUERY_EVENTS = 1000;
+
+// Without a date, an UPDATE/DELETE may refer to anything from last week to next month
+const TARGET_EVENT_LOOKBACK_DAYS = 7;
+const TARGET_EVENT_LOOKAHEAD_DAYS = 30;
+
+// Contacts are re-synced from the provider at most this often
+const CONTACT_SYNC_INTERVAL_MS = 30 * 60 * 1000;
+
+// Meetings in this window decide which of several same-named contacts is meant
+const CONTACT_MEETING_LOOKBACK_DAYS = 90;
+
+// Events fetched per calendar to count meetings; providers are paged up to this, enough for the whole window
+const MAX_CONTACT_MEETING_EVENTS = 2500;
 
 export interface CalendarEvent {
   id: string;
@@ -13,10 +72,23 @@ export interface CalendarEvent {
   description?: string;
   start: Date;
   end: Date;
+  allDay?: boolean;
   location?: string;
+  attendees?: string[];
   provider: 'google' | 'microsoft';
   htmlLink?: string;
   webLink?: string;
+  meetingUrl?: string; // Join link of the Meet/Teams call on the event
+  reminderMinutes?: number; // Minutes before the start the user is reminded
+  recurrence?: RecurrenceRule; // Only set when the event was read on its own, for a series
+}
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+  calendarConnectionId: string;
+  calendarName: string;
+  provider: 'google' | 'microsoft';
 }
 
 export interface CalendarOperationResult {
@@ -24,12 +96,96 @@ export interface CalendarOperationResult {
   action: 'CREATE' | 'UPDATE' | 'DELETE' | 'QUERY';
   event?: CalendarEvent;
   events?: CalendarEvent[]; // For QUERY operations
+  query?: CalendarQuerySummary; // For QUERY operations
+  calendarConnectionId?: string; // Calendar the event was written to
+  previousEvent?: CalendarEvent; // The event before an UPDATE/DELETE, so the change can be undone
   message?: string;
 }
 
-export class CalendarService implements ICalendarService {
+export interface CalendarQuerySummary {
+  type: 'events' | 'free_time' | 'count';
+  startDate: string; // YYYY-MM-DD in the user's timezone
+  endDate: string; // YYYY-MM-DD in the user's timezone, inclusive
+  timeWindow: { start: string; end: string } | null; // HH:mm, when the question was about part of a day
+  attendee?: string;
+  keyword?: string;
+  freeTime: TimeSlot[]; // Only filled for free_time questions
+  truncated: boolean; // A calendar had more events in the range than were fetched
+}
+
+export class CalendarService implements ICalendarService, ICalendarRoutingService, IEventSearchService, IConflictService {
+  private timezoneCache = new Map<string, string>();
+
   constructor(private db: Database) {}
 
+  /**
+   * Resolve the user's timezone: saved preference first, then the primary calendar's own timezone
+   */
+  async getUserTimezone(userId: string): Promise<string> {
+    const cached = this.timezoneCache.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    let timezone: string = DEFAULT_TIMEZONE;
+
+    try {
+      const preferences = await getUserPreferences(this.db, userId);
+
+      if (isValidTimeZone(preferences?.timezone)) {
+        timezone = preferences.timezone;
+      } else {
+        const connection = await getPrimaryCalendar(this.db, userId);
+
+        if (connection?.isActive && connection.accessToken) {
+          const provider = createCalendarProvider(connection.provider);
+          const calendar = await this.withTokenRefresh(
+            connection.id,
+            connection.accessToken,
+            connection.refreshToken || null,
+            provider,
+            (token) => provider.getCalendarById(token, connection.calendarId || 'primary')
+          );
+
+          if (isValidTimeZone(calendar.timeZone)) {
+            timezone = calendar.timeZone;
+          }
+        }
+      }
+    } catch (error) {
+      logger.warn({ error, userId }, 'Failed to resolve user timezone, using default');
+    }
+
+    this.timezoneCache.set(userId, timezone);
+    return timezone;
+  }
+
+  /**
+   * Active calendars, keyword rules and default calendar used to route new events
+   */
+  async getCalendarRoutingContext(userId: string): Promise<CalendarRoutingContext> {
+    const [connections, rules, preferences] = await Promise.all([
+      getActiveCalendars(this.db, userId),
+      getCalendarRoutingRules(this.db, userId),
+      getUserPreferences(this.db, userId),
+    ]);
+
+    return {
+      calendars: connections.map((connection) => ({
+        id: connection.id,
+        name: connection.label || connection.calendarName || `${connection.provider} calendar`,
+        provider: connection.provider as 'google' | 'microsoft',
+        email: connection.email,
+        isPrimary: connection.isPrimary,
+      })),
+      rules: rules.map((rule) => ({
+        keyword: rule.keyword,
+        calendarId: rule.calendarConnectionId,
+      })),
+      defaultCalendarId: preferences?.defaultCalendarId ?? null,
+    };
+  }
+
   /**
    * Execute provider method with automatic token refresh on auth failure
    */
@@ -135,13 +291,35 @@ export class CalendarService implements ICalendarService {
     try {
       logger.info({ userId }, 'Creating calendar event');
 
-      // Get user's primary calendar connection
-      const calendarConnection = await getPrimaryCalendar(this.db, userId);
+      // Route the event to the named calendar, a keyword rule match, the default or the primary calendar
+      const selection = await new CalendarResolver(this).resolve(userId, intent);
+
+      if (!selection) {
+        throw new Error('No calendar connected. Please connect a calendar first.');
+      }
+
+      // The user is asked to pick a calendar before this runs, so don't guess if the name is still unresolved
+      if (selection.needsClarification) {
+        logger.warn(
+          { userId, requestedCalendar: intent.calendarName, availableCalendars: selection.availableCalendars?.length },
+          'Requested calendar not resolved'
+        );
+        throw new Error(`Calendar "${intent.calendarName}" not found. Please send the request again with one of your calendar names.`);
+      }
+
+      const calendarConnection = await getCalendarById(this.db, selection.calendarId);
 
       if (!calendarConnection) {
         throw new Error('No calendar connected. Please connect a calendar first.');
       }
 
+      logger.info({
+        userId,
+        connectionId: calendarConnection.id,
+        source: selection.source,
+        matchedKeyword: selection.matchedKeyword,
+      }, 'Target calendar selected');
+
       // Log token status for debugging
       logger.info({
         connectionId: calendarConnection.id,
@@ -165,21 +343,34 @@ export class CalendarService implements ICalendarService {
         throw new Error('Event start date is required');
       }
 
+      const timeZone = await this.getUserTimezone(userId);
+      const preferences = await getUserPreferences(this.db, userId).catch((error) => {
+        logger.warn({ error, userId }, 'Could not load event preferences');
+        return null;
+      });
+      const addMeetingLink = shouldAddMeetingLink(intent, preferences?.alwaysAddMeetingLink ?? false);
+
       // Parse dates
       const startDateTime = this.parseDateTime(
         intent.startDate,
         intent.startTime || undefined,
-        intent.isAllDay || false
+        intent.isAllDay || false,
+        timeZone
       );
 
       const endDateTime = this.parseEndDateTime(
         startDateTime,
+        timeZone,
         intent.endDate,
         intent.endTime,
         intent.duration,
         intent.isAllDay
       );
 
+      // A spoken reminder wins; otherwise the user's default lead time applies
+      const reminderMinutes = this.toReminderMinutes(intent.reminder, startDateTime, timeZone)
+        ?? preferences?.reminderMinutes;
+
       // Create event via provider with token refresh
       const provider = createCalendarProvider(calendarConnection.provider);
       const createdEvent = await this.withTokenRefresh(
@@ -196,6 +387,10 @@ export class CalendarService implements ICalendarService {
           allDay: intent.isAllDay ?? false,
           location: intent.location,
           attendees: intent.attendees,
+          timeZone,
+          recurrence: this.toRecurrenceRule(intent.recurrence, timeZone),
+          addMeetingLink,
+          reminderMinutes,
         })
       );
 
@@ -209,14 +404,23 @@ export class CalendarService implements ICalendarService {
         provider: calendarConnection.provider as 'google' | 'microsoft',
         htmlLink: createdEvent.htmlLink,
         webLink: createdEvent.webLink,
+        meetingUrl: createdEvent.meetingUrl,
+        reminderMinutes: createdEvent.reminderMinutes ?? reminderMinutes,
       };
 
-      logger.info({ userId, eventId: event.id }, 'Calendar event created');
+      logger.info({ userId, eventId: event.id, addMeetingLink, hasMeetingUrl: !!event.meetingUrl }, 'Calendar event created');
+
+      if (intent.attendees?.length) {
+        await recordContactMeeting(this.db, userId, intent.attendees, startDateTime).catch((error) => {
+          logger.warn({ error, userId }, 'Failed to record meeting for contact ranking');
+        });
+      }
 
       return {
         success: true,
         action: 'CREATE',
         event,
+        calendarConnectionId: calendarConnection.id,
         message: `Event "${event.title}" created successfully`,
       };
     } catch (error) {
@@ -225,6 +429,89 @@ export class CalendarService implements ICalendarService {
     }
   }
 
+  /**
+   * Create an event read from a forwarded calendar invite. It goes to the calendar the user's routing
+   * rules pick, like an event they described themselves.
+   */
+  async importEvent(userId: string, event: ICalendarEvent): Promise<CalendarOperationResult> {
+    const selection = await new CalendarResolver(this).resolve(userId, event);
+    const calendarConnection = selection ? await getCalendarById(this.db, selection.calendarId) : null;
+
+    if (!calendarConnection) {
+      throw new Error('No calendar connected. Please connect a calendar first.');
+    }
+
+    if (!calendarConnection.isActive) {
+      throw new Error('Calendar connection is inactive. Please reconnect your calendar.');
+    }
+
+    const preferences = await getUserPreferences(this.db, userId).catch((error) => {
+      logger.warn({ error, userId }, 'Could not load event preferences');
+      return null;
+    });
+
+    // The invite's organiser already invited the guests, so the copy lists them in its notes instead of
+    // inviting them again from the user's calendar
+    const ownEmail = calendarConnection.email.toLowerCase();
+    const attendees = event.attendees?.filter((email) => email !== ownEmail);
+    const guestList = attendees?.length ? `Guests: ${attendees.join(', ')}` : undefined;
+    const description = [event.description, guestList].filter(Boolean).join('\n\n') || undefined;
+    const reminderMinutes = event.reminderMinutes ?? preferences?.reminderMinutes;
+    const timeZone = event.timeZone ?? await this.getUserTimezone(userId);
+
+    const provider = createCalendarProvider(calendarConnection.provider);
+    const createdEvent = await this.withTokenRefresh(
+      calendarConnection.id,
+      calendarConnection.accessToken!,
+      calendarConnection.refreshToken || null,
+      provider,
+      (token) => provider.createEvent(token, {
+        calendarId: calendarConnection.calendarId || 'primary',
+        title: event.title,
+        description,
+        start: event.start,
+        end: event.end,
+        allDay: event.allDay ?? false,
+        location: event.location,
+        timeZone,
+        recurrence: event.recurrence,
+        reminderMinutes,
+      })
+    );
+
+    logger.info(
+      { userId, eventId: createdEvent.id, connectionId: calendarConnection.id, source: selection?.source },
+      'Imported calendar event created'
+    );
+
+    if (attendees?.length) {
+      await recordContactMeeting(this.db, userId, attendees, event.start).catch((error) => {
+        logger.warn({ error, userId }, 'Failed to record meeting for contact ranking');
+      });
+    }
+
+    return {
+      success: true,
+      action: 'CREATE',
+      event: {
+        id: createdEvent.id,
+        title: createdEvent.title,
+        description: createdEvent.description,
+        start: createdEvent.start,
+        end: createdEvent.end,
+        allDay: event.allDay,
+        location: createdEvent.location,
+        provider: calendarConnection.provider as 'google' | 'microsoft',
+        htmlLink: createdEvent.htmlLink,
+        webLink: createdEvent.webLink,
+        meetingUrl: createdEvent.meetingUrl,
+        reminderMinutes: createdEvent.reminderMinutes ?? reminderMinutes,
+      },
+      calendarConnectionId: calendarConnection.id,
+      message: `Event "${createdEvent.title}" imported successfully`,
+    };
+  }
+
   /**
    * Update existing calendar event
    */
@@ -232,70 +519,199 @@ export class CalendarService implements ICalendarService {
     try {
       logger.info({ userId }, 'Updating calendar event');
 
-      const calendarConnection = await getPrimaryCalendar(this.db, userId);
+      const timeZone = await this.getUserTimezone(userId);
 
-      if (!calendarConnection) {
-        throw new Error('No calendar connected');
-      }
+      // First, find the event to update
+      const { match, calendarConnection } = await this.findTargetEvent(userId, intent, timeZone, 'update');
 
-      // First, search for the event to update
-      const targetEvents = await this.findTargetEvent(
-        userId,
-        calendarConnection.provider as 'google' | 'microsoft',
-        calendarConnection.accessToken!,
-        calendarConnection.calendarId || 'primary',
-        intent
+      const { event, previousEvent } = await this.applyEventUpdate(
+        calendarConnection,
+        match.id,
+        match.start,
+        intent,
+        timeZone
       );
 
-      if (targetEvents.length === 0) {
-        throw new Error('Event not found. Please provide more details about which event to update.');
-      }
+      logger.info({ userId, eventId: event.id }, 'Calendar event updated');
+
+      return {
+        success: true,
+        action: 'UPDATE',
+        event,
+        calendarConnectionId: calendarConnection.id,
+        previousEvent,
+        message: `Event "${event.title}" updated successfully`,
+      };
+    } catch (error) {
+      logger.error({ error, userId }, 'Failed to update calendar event');
+      throw error;
+    }
+  }
 
-      if (targetEvents.length > 1) {
-        throw new Error('Multiple events found. Please be more specific about which event to update.');
+  /**
+   * Update an event we created earlier, addressed by id instead of searching for it
+   */
+  async updateEventById(
+    userId: string,
+    target: { eventId: string; calendarConnectionId?: string | null; start: Date },
+    intent: CalendarIntent
+  ): Promise<CalendarOperationResult> {
+    try {
+      logger.info({ userId, eventId: target.eventId }, 'Updating calendar event by id');
+
+      // Jobs from before the connection was recorded were always written to the primary calendar
+      const calendarConnection = target.calendarConnectionId
+        ? await getCalendarById(this.db, target.calendarConnectionId)
+        : await getPrimaryCalendar(this.db, userId);
+
+      if (!calendarConnection || !calendarConnection.isActive) {
+        throw new Error('The calendar this event was added to is no longer connected.');
       }
 
-      const targetEvent = targetEvents[0]!;
+      const timeZone = await this.getUserTimezone(userId);
+      const { event, previousEvent } = await this.applyEventUpdate(
+        calendarConnection,
+        target.eventId,
+        target.start,
+        intent,
+        timeZone
+      );
 
-      // Build update parameters
-      const provider = createCalendarProvider(calendarConnection.provider);
+      logger.info({ userId, eventId: event.id }, 'Calendar event updated by id');
 
-      const updates: any = {
-        calendarId: calendarConnection.calendarId || 'primary',
-        eventId: targetEvent.id,
+      return {
+        success: true,
+        action: 'UPDATE',
+        event,
+        calendarConnectionId: calendarConnection.id,
+        previousEvent,
+        message: `Event "${event.title}" updated successfully`,
       };
+    } catch (error) {
+      logger.error({ error, userId, eventId: target.eventId }, 'Failed to update calendar event by id');
+      throw error;
+    }
+  }
+
+  /**
+   * Set a shared location on an event we created: the place becomes its location and the coordinates
+   * with a maps link are added below whatever the description already says
+   */
+  async attachLocation(
+    userId: string,
+    target: { eventId: string; calendarConnectionId?: string | null },
+    location: { label: string; details: string }
+  ): Promise<CalendarOperationResult> {
+    try {
+      logger.info({ userId, eventId: target.eventId }, 'Attaching shared location to calendar event');
 
-      // Update fields that are provided
-      if (intent.title) updates.title = intent.title;
-      if (intent.description) updates.description = intent.description;
-      if (intent.location) updates.location = intent.location;
-      if (intent.attendees) updates.attendees = intent.attendees;
+      const calendarConnection = target.calendarConnectionId
+        ? await getCalendarById(this.db, target.calendarConnectionId)
+        : await getPrimaryCalendar(this.db, userId);
 
-      // Update dates if provided
-      if (intent.startDate) {
-        updates.start = this.parseDateTime(intent.startDate, intent.startTime, intent.isAllDay);
+      if (!calendarConnection || !calendarConnection.isActive) {
+        throw new Error('The calendar this event was added to is no longer connected.');
       }
 
-      if (intent.endDate || intent.endTime || intent.duration) {
-        const startDate = updates.start || targetEvent.start;
-        updates.end = this.parseEndDateTime(
-          startDate,
-          intent.endDate,
-          intent.endTime,
-          intent.duration,
-          intent.isAllDay
-        );
+      const currentEvent = await this.fetchEvent(calendarConnection, target.eventId);
+
+      if (!currentEvent) {
+        throw new Error('The event could not be found in your calendar any more.');
       }
 
-      const updatedEvent = await this.withTokenRefresh(
-        calendarConnection.id,
-        calendarConnection.accessToken!,
-        calendarConnection.refreshToken || null,
-        provider,
-        (token) => provider.updateEvent(token, updates)
+      const description = currentEvent.description?.includes(location.details)
+        ? currentEvent.description
+        : [currentEvent.description?.trim(), location.details].filter(Boolean).join('\n\n');
+
+      const timeZone = await this.getUserTimezone(userId);
+      const { event, previousEvent } = await this.applyEventUpdate(
+        calendarConnection,
+        target.eventId,
+        currentEvent.start,
+        {
+          action: 'UPDATE',
+          location: location.label,
+          description,
+          confidence: 1,
+          missingFields: [],
+        },
+        timeZone,
+        currentEvent
       );
 
-      const event: CalendarEvent = {
+      logger.info({ userId, eventId: event.id }, 'Shared location attached to calendar event');
+
+      return {
+        success: true,
+        action: 'UPDATE',
+        event,
+        calendarConnectionId: calendarConnection.id,
+        previousEvent,
+        message: `Location added to "${event.title}"`,
+      };
+    } catch (error) {
+      logger.error({ error, userId, eventId: target.eventId }, 'Failed to attach location to calendar event');
+      throw error;
+    }
+  }
+
+  private async applyEventUpdate(
+    calendarConnection: NonNullable<Awaited<ReturnType<typeof getCalendarById>>>,
+    eventId: string,
+    currentStart: Date,
+    intent: CalendarIntent,
+    timeZone: string,
+    currentEvent?: CalendarEvent
+  ): Promise<{ event: CalendarEvent; previousEvent?: CalendarEvent }> {
+    const provider = createCalendarProvider(calendarConnection.provider);
+    // Callers that already read the event pass it in rather than reading it twice
+    const previousEvent = currentEvent ?? await this.fetchEvent(calendarConnection, eventId);
+
+    const updates: any = {
+      calendarId: calendarConnection.calendarId || 'primary',
+      eventId,
+      timeZone,
+    };
+
+    // Update fields that are provided
+    if (intent.title) updates.title = intent.title;
+    if (intent.description) updates.description = intent.description;
+    if (intent.location) updates.location = intent.location;
+    if (intent.attendees) updates.attendees = intent.attendees;
+    if (intent.recurrence) updates.recurrence = this.toRecurrenceRule(intent.recurrence, timeZone);
+    if (intent.isVirtual && !hasMeetingUrl(intent.location)) updates.addMeetingLink = true;
+
+    // Update dates if provided
+    if (intent.startDate) {
+      updates.start = this.parseDateTime(intent.startDate, intent.startTime, intent.isAllDay, timeZone);
+    }
+
+    if (intent.reminder) {
+      updates.reminderMinutes = this.toReminderMinutes(intent.reminder, updates.start || currentStart, timeZone);
+    }
+
+    if (intent.endDate || intent.endTime || intent.duration) {
+      const startDate = updates.start || currentStart;
+      updates.end = this.parseEndDateTime(
+        startDate,
+        timeZone,
+        intent.endDate,
+        intent.endTime,
+        intent.duration,
+        intent.isAllDay
+      );
+    }
+
+    const updatedEvent = await this.withTokenRefresh(
+      calendarConnection.id,
+      calendarConnection.accessToken!,
+      calendarConnection.refreshToken || null,
+      provider,
+      (token) => provider.updateEvent(token, updates)
+    );
+
+    return {
+      event: {
         id: updatedEvent.id,
         title: updatedEvent.title,
         description: updatedEvent.description,
@@ -305,140 +721,471 @@ export class CalendarService implements ICalendarService {
         provider: calendarConnection.provider as 'google' | 'microsoft',
         htmlLink: updatedEvent.htmlLink,
         webLink: updatedEvent.webLink,
+        meetingUrl: updatedEvent.meetingUrl,
+        reminderMinutes: updatedEvent.reminderMinutes,
+      },
+      previousEvent,
+    };
+  }
+
+  /**
+   * Minutes before the start for a spoken reminder: "an hour before" is a lead time,
+   * "the day before at 6pm" is a local time on an earlier day. Reminders that would fire after the start are dropped.
+   */
+  private toReminderMinutes(
+    reminder: CalendarIntent['reminder'],
+    start: Date,
+    timeZone: string
+  ): number | undefined {
+    if (!reminder) {
+      return undefined;
+    }
+
+    let minutes: number | undefined;
+
+    if (reminder.daysBefore) {
+      if (reminder.time) {
+        const localDate = this.addDays(formatDateToLocalIso(start, timeZone).slice(0, 10), -reminder.daysBefore);
+        const remindAt = zonedTimeToUtc(localDate, reminder.time, timeZone);
+        minutes = Math.round((start.getTime() - remindAt.getTime()) / 60000);
+      } else {
+        minutes = reminder.daysBefore * 24 * 60;
+      }
+    } else if (reminder.minutesBefore !== undefined) {
+      minutes = reminder.minutesBefore;
+    }
+
+    return minutes !== undefined && minutes >= 0 ? minutes : undefined;
+  }
+
+  /**
+   * Delete calendar event
+   */
+  async delete(userId: string, intent: CalendarIntent): Promise<CalendarOperationResult> {
+    try {
+      logger.info({ userId }, 'Deleting calendar event');
+
+      const timeZone = await this.getUserTimezone(userId);
+
+      // Find the event to delete
+      const { match, calendarConnection } = await this.findTargetEvent(userId, intent, timeZone, 'delete');
+
+      const targetEvent: CalendarEvent = {
+        id: match.id,
+        title: match.title,
+        start: match.start,
+        end: match.end,
+        provider: calendarConnection.provider as 'google' | 'microsoft',
       };
 
-      logger.info({ userId, eventId: event.id }, 'Calendar event updated');
+      const previousEvent = await this.removeEvent(calendarConnection, targetEvent.id);
+
+      logger.info({ userId, eventId: targetEvent.id }, 'Calendar event deleted');
 
       return {
         success: true,
-        action: 'UPDATE',
-        event,
-        message: `Event "${event.title}" updated successfully`,
+        action: 'DELETE',
+        event: targetEvent,
+        calendarConnectionId: calendarConnection.id,
+        previousEvent,
+        message: `Event "${targetEvent.title}" deleted successfully`,
       };
     } catch (error) {
-      logger.error({ error, userId }, 'Failed to update calendar event');
+      logger.error({ error, userId }, 'Failed to delete calendar event');
       throw error;
     }
   }
 
   /**
-   * Delete calendar event
+   * Delete an event the user already picked, addressed by id instead of searching for it
    */
-  async delete(userId: string, intent: CalendarIntent): Promise<CalendarOperationResult> {
+  async deleteEventById(
+    userId: string,
+    target: { eventId: string; calendarConnectionId: string; title: string; start: Date; end: Date }
+  ): Promise<CalendarOperationResult> {
     try {
-      logger.info({ userId }, 'Deleting calendar event');
+      logger.info({ userId, eventId: target.eventId }, 'Deleting calendar event by id');
 
-      const calendarConnection = await getPrimaryCalendar(this.db, userId);
+      const calendarConnection = await getCalendarById(this.db, target.calendarConnectionId);
 
-      if (!calendarConnection) {
-        throw new Error('No calendar connected');
+      if (!calendarConnection || !calendarConnection.isActive) {
+        throw new Error('The calendar this event is in is no longer connected.');
       }
 
-      // Search for the event to delete
-      const targetEvents = await this.findTargetEvent(
-        userId,
-        calendarConnection.provider as 'google' | 'microsoft',
+      const previousEvent = await this.removeEvent(calendarConnection, target.eventId);
+
+      logger.info({ userId, eventId: target.eventId }, 'Calendar event deleted by id');
+
+      return {
+        success: true,
+        action: 'DELETE',
+        event: {
+          id: target.eventId,
+          title: target.title,
+          start: target.start,
+          end: target.end,
+          provider: calendarConnection.provider as 'google' | 'microsoft',
+        },
+        calendarConnectionId: calendarConnection.id,
+        previousEvent,
+        message: `Event "${target.title}" deleted successfully`,
+      };
+    } catch (error) {
+      logger.error({ error, userId, eventId: target.eventId }, 'Failed to delete calendar event by id');
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an event, returning its details as they were so the deletion can be undone
+   */
+  private async removeEvent(
+    calendarConnection: NonNullable<Awaited<ReturnType<typeof getCalendarById>>>,
+    eventId: string
+  ): Promise<CalendarEvent | undefined> {
+    const provider = createCalendarProvider(calendarConnection.provider);
+    const previousEvent = await this.fetchEvent(calendarConnection, eventId);
+
+    await this.withTokenRefresh(
+      calendarConnection.id,
+      calendarConnection.accessToken!,
+      calendarConnection.refreshToken || null,
+      provider,
+      (token) => provider.deleteEvent(token, {
+        calendarId: calendarConnection.calendarId || 'primary',
+        eventId,
+      })
+    );
+
+    return previousEvent;
+  }
+
+  /**
+   * Read an event as it is now, to check an older snapshot of it still holds.
+   * Returns null when the event was deleted; other failures are thrown.
+   */
+  async getEventById(
+    userId: string,
+    target: { eventId: string; calendarConnectionId?: string | null }
+  ): Promise<CalendarEvent | null> {
+    const calendarConnection = target.calendarConnectionId
+      ? await getCalendarById(this.db, target.calendarConnectionId)
+      : await getPrimaryCalendar(this.db, userId);
+
+    if (!calendarConnection || !calendarConnection.isActive) {
+      throw new Error('The calendar this event is in is no longer connected.');
+    }
+
+    const provider = createCalendarProvider(calendarConnection.provider);
+
+    try {
+      const event = await this.withTokenRefresh(
+        calendarConnection.id,
         calendarConnection.accessToken!,
-        calendarConnection.calendarId || 'primary',
-        intent
+        calendarConnection.refreshToken || null,
+        provider,
+        (token) => provider.getEvent(token, {
+          calendarId: calendarConnection.calendarId || 'primary',
+          eventId: target.eventId,
+        })
       );
 
-      if (targetEvents.length === 0) {
-        throw new Error('Event not found. Please provide more details about which event to delete.');
-      }
+      return {
+        id: event.id,
+        title: event.title,
+        description: event.description,
+        start: event.start,
+        end: event.end,
+        allDay: event.allDay,
+        location: event.location,
+        attendees: event.attendees?.filter(Boolean),
+        provider: calendarConnection.provider as 'google' | 'microsoft',
+        htmlLink: event.htmlLink,
+        webLink: event.webLink,
+        meetingUrl: event.meetingUrl,
+        reminderMinutes: event.reminderMinutes,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message.toLowerCase() : '';
 
-      if (targetEvents.length > 1) {
-        throw new Error('Multiple events found. Please be more specific about which event to delete.');
+      // Google answers 410 for events deleted outright
+      if (['not found', '404', '410', 'deleted'].some((hint) => message.includes(hint))) {
+        return null;
       }
 
-      const targetEvent = targetEvents[0]!;
+      throw error;
+    }
+  }
 
-      // Delete the event
-      const provider = createCalendarProvider(calendarConnection.provider);
-      await this.withTokenRefresh(
+  /**
+   * Read an event's full details; a failure only costs the ability to undo, so it never blocks the change itself
+   */
+  private async fetchEvent(
+    calendarConnection: NonNullable<Awaited<ReturnType<typeof getCalendarById>>>,
+    eventId: string
+  ): Promise<CalendarEvent | undefined> {
+    const provider = createCalendarProvider(calendarConnection.provider);
+
+    try {
+      const event = await this.withTokenRefresh(
         calendarConnection.id,
         calendarConnection.accessToken!,
         calendarConnection.refreshToken || null,
         provider,
-        (token) => provider.deleteEvent(token, {
+        (token) => provider.getEvent(token, {
           calendarId: calendarConnection.calendarId || 'primary',
-          eventId: targetEvent.id,
+          eventId,
         })
       );
 
-      logger.info({ userId, eventId: targetEvent.id }, 'Calendar event deleted');
-
       return {
-        success: true,
-        action: 'DELETE',
-        event: targetEvent,
-        message: `Event "${targetEvent.title}" deleted successfully`,
+        id: event.id,
+        title: event.title,
+        description: event.description,
+        start: event.start,
+        end: event.end,
+        allDay: event.allDay,
+        location: event.location,
+        attendees: event.attendees?.filter(Boolean),
+        provider: calendarConnection.provider as 'google' | 'microsoft',
+        htmlLink: event.htmlLink,
+        webLink: event.webLink,
+        meetingUrl: event.meetingUrl,
+        reminderMinutes: event.reminderMinutes,
+        recurrence: event.recurrence,
       };
     } catch (error) {
-      logger.error({ error, userId }, 'Failed to delete calendar event');
-      throw error;
+      logger.warn({ error, connectionId: calendarConnection.id, eventId }, 'Could not read event before changing it');
+      return undefined;
     }
   }
 
   /**
-   * Query/search calendar events
+   * Revert a change made from a voice note: remove an event we created, put an edited one back
+   * the way it was, or recreate a deleted one with the same details and attendees
    */
-  async query(userId: string, intent: CalendarIntent): Promise<CalendarOperationResult> {
-    try {
-      logger.info({ userId }, 'Querying calendar events');
+  async revertOperation(
+    userId: string,
+    operation: {
+      action: 'CREATE' | 'UPDATE' | 'DELETE';
+      calendarConnectionId: string | null;
+      eventId: string;
+      previousState: EventOperationSnapshot | null;
+    }
+  ): Promise<{ removedEvent?: CalendarEvent; restoredEventId?: string }> {
+    const calendarConnection = operation.calendarConnectionId
+      ? await getCalendarById(this.db, operation.calendarConnectionId)
+      : null;
 
-      const calendarConnection = await getPrimaryCalendar(this.db, userId);
+    if (!calendarConnection || !calendarConnection.isActive) {
+      throw new Error('The calendar this event is in is no longer connected.');
+    }
 
-      if (!calendarConnection) {
-        throw new Error('No calendar connected');
-      }
+    if (operation.action === 'CREATE') {
+      const removedEvent = await this.removeEvent(calendarConnection, operation.eventId);
+      logger.info({ userId, eventId: operation.eventId }, 'Created event removed by undo');
+      return { removedEvent };
+    }
 
-      const provider = createCalendarProvider(calendarConnection.provider);
+    const previous = operation.previousState;
 
-      // Build search parameters
-      const searchParams: any = {
-        calendarId: calendarConnection.calendarId || 'primary',
-        maxResults: 10,
-      };
+    if (!previous) {
+      throw new Error('The event details from before the change were not saved.');
+    }
 
-      // Add query text if available
-      if (intent.title || intent.targetEventTitle) {
-        searchParams.query = intent.title || intent.targetEventTitle;
-      }
+    const provider = createCalendarProvider(calendarConnection.provider);
+    const timeZone = await this.getUserTimezone(userId);
+    const recurrence = previous.recurrence ? parseRRule(previous.recurrence) ?? undefined : undefined;
+    const details = {
+      calendarId: calendarConnection.calendarId || 'primary',
+      title: previous.title,
+      start: new Date(previous.start),
+      end: new Date(previous.end),
+      allDay: previous.allDay ?? false,
+      // An explicit empty list removes attendees the change added
+      attendees: previous.attendees ?? [],
+      timeZone,
+      reminderMinutes: previous.reminderMinutes,
+    };
 
-      // Add time range if provided
-      if (intent.startDate || intent.targetEventDate) {
-        const searchDate = new Date(intent.startDate || intent.targetEventDate!);
-        searchParams.timeMin = new Date(searchDate.setHours(0, 0, 0, 0));
-        searchParams.timeMax = new Date(searchDate.setHours(23, 59, 59, 999));
+    if (operation.action === 'UPDATE') {
+      const current = await this.fetchEvent(calendarConnection, operation.eventId);
+
+      // Only touch the recurrence when it was recorded and has since changed; single occurrences
+      // of a series can't carry one of their own
+      let restoredRecurrence: RecurrenceRule | null | undefined;
+
+      if (previous.recurrence !== undefined) {
+        const currentRecurrence = current?.recurrence ? toRRule(current.recurrence, current.allDay) : null;
+
+        if (current && currentRecurrence !== previous.recurrence) {
+          restoredRecurrence = recurrence ?? null;
+        }
       }
 
-      const foundEvents = await this.withTokenRefresh(
+      // An event that had no reminder of its own goes back to the calendar's default one
+      const restoredReminder = previous.reminderMinutes === undefined && current?.reminderMinutes !== undefined
+        ? null
+        : previous.reminderMinutes;
+
+      // Empty strings clear a description or location the change added
+      await this.withTokenRefresh(
         calendarConnection.id,
         calendarConnection.accessToken!,
         calendarConnection.refreshToken || null,
         provider,
-        (token) => provider.searchEvents(token, searchParams)
+        (token) => provider.updateEvent(token, {
+          ...details,
+          eventId: operation.eventId,
+          description: previous.description ?? '',
+          location: previous.location ?? '',
+          recurrence: restoredRecurrence,
+          reminderMinutes: restoredReminder,
+        })
       );
 
-      const events: CalendarEvent[] = foundEvents.map(e => ({
-        id: e.id,
-        title: e.title,
-        description: e.description,
-        start: e.start,
-        end: e.end,
-        location: e.location,
-        provider: calendarConnection.provider as 'google' | 'microsoft',
-        htmlLink: e.htmlLink,
-        webLink: e.webLink,
-      }));
+      logger.info({ userId, eventId: operation.eventId }, 'Updated event restored by undo');
+      return {};
+    }
+
+    const recreated = await this.withTokenRefresh(
+      calendarConnection.id,
+      calendarConnection.accessToken!,
+      calendarConnection.refreshToken || null,
+      provider,
+      (token) => provider.createEvent(token, {
+        ...details,
+        description: previous.description,
+        location: previous.location,
+        recurrence,
+      })
+    );
+
+    logger.info({ userId, eventId: operation.eventId, restoredEventId: recreated.id }, 'Deleted event recreated by undo');
+    return { restoredEventId: recreated.id };
+  }
+
+  /**
+   * Answer a calendar question across every active calendar: the events in a range, how many
+   * there are, or when the user is free. Attendee and keyword filters are applied to the results.
+   */
+  async query(userId: string, intent: CalendarIntent): Promise<CalendarOperationResult> {
+    try {
+      const query = intent.query;
+      const type = query?.type ?? 'events';
+
+      logger.info({ userId, queryType: type }, 'Querying calendar events');
+
+      const connections = await getActiveCalendars(this.db, userId);
+
+      if (connections.length === 0) {
+        throw new Error('No calendar connected');
+      }
+
+      const [timeZone, preferences] = await Promise.all([
+        this.getUserTimezone(userId),
+        getUserPreferences(this.db, userId),
+      ]);
+
+      const now = new Date();
+      const today = formatDateToLocalIso(now, timeZone).slice(0, 10);
+      const isDateString = (value?: string | null): value is string =>
+        !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+      // Without query details fall back to the plain event fields an older intent carries
+      const keyword = (query ? query.keyword : intent.title || intent.targetEventTitle) || undefined;
+      const attendee = (query ? query.attendee : intent.attendees?.[0]) || undefined;
+
+      const requestedStart = query ? query.startDate : intent.startDate || intent.targetEventDate;
+      const startDate = isDateString(requestedStart) ? requestedStart : today;
+
+      let endDate = isDateString(query?.endDate) && query.endDate >= startDate ? query.endDate : startDate;
+
+      // "When am I meeting John?" names no day, so look ahead rather than only at today
+      if (!isDateString(requestedStart) && (attendee || keyword)) {
+        endDate = this.addDays(startDate, DEFAULT_QUERY_SEARCH_DAYS - 1);
+      }
+
+      if (endDate > this.addDays(startDate, MAX_QUERY_RANGE_DAYS - 1)) {
+        endDate = this.addDays(startDate, MAX_QUERY_RANGE_DAYS - 1);
+      }
 
-      logger.info({ userId, count: events.length }, 'Calendar events found');
+      const timeWindow = query?.startTime && query?.endTime && query.startTime < query.endTime
+        ? { start: query.startTime, end: query.endTime }
+        : null;
+
+      const { events: allEvents, truncated } = await this.searchEventsInRange(userId, {
+        startDate,
+        endDate,
+        timeZone,
+        limit: MAX_QUERY_EVENTS,
+      });
+
+      // Outside an explicit time window all-day events still count; inside one they don't block anything
+      const inWindow = allEvents.filter((event) => {
+        if (!timeWindow) {
+          return true;
+        }
+
+        if (event.allDay) {
+          return false;
+        }
+
+        const date = formatDateToLocalIso(event.start, timeZone).slice(0, 10);
+        return (
+          event.start < zonedTimeToUtc(date, timeWindow.end, timeZone) &&
+          event.end > zonedTimeToUtc(date, timeWindow.start, timeZone)
+        );
+      });
+
+      let events = inWindow;
+
+      if (keyword) {
+        const needle = keyword.toLowerCase();
+        events = events.filter((event) =>
+          [event.title, event.description, event.location]
+            .some((value) => value?.toLowerCase().includes(needle))
+        );
+      }
+
+      if (attendee) {
+        const matchesAttendee = await this.buildAttendeeMatcher(userId, attendee);
+        events = events.filter(matchesAttendee);
+      }
+
+      const freeTime = type === 'free_time'
+        ? findFreeWindows({
+            busy: inWindow.filter((event) => !event.allDay),
+            startDate,
+            endDate,
+            timeZone,
+            hours: timeWindow ?? {
+              start: preferences?.workingHoursStart ?? '09:00',
+              end: preferences?.workingHoursEnd ?? '17:00',
+            },
+            now,
+          })
+        : [];
+
+      logger.info(
+        { userId, queryType: type, startDate, endDate, count: events.length, freeWindows: freeTime.length, truncated },
+        'Calendar events found'
+      );
 
       return {
         success: true,
         action: 'QUERY',
         events,
+        query: {
+          type,
+          startDate,
+          endDate,
+          timeWindow,
+          attendee,
+          keyword,
+          freeTime,
+          truncated,
+        },
         message: `Found ${events.length} event${events.length !== 1 ? 's' : ''}`,
       };
     } catch (error) {
@@ -447,6 +1194,52 @@ export class CalendarService implements ICalendarService {
     }
   }
 
+  /**
+   * Attendees come back as email addresses, so match a spoken name against the user's contacts,
+   * the address itself and the event title ("Lunch with John")
+   */
+  private async buildAttendeeMatcher(
+    userId: string,
+    name: string
+  ): Promise<(event: CalendarEvent) => boolean> {
+    const needle = name.trim().toLowerCase();
+    const firstName = needle.split(/\s+/)[0] ?? needle;
+
+    let contactEmails = new Set<string>();
+    try {
+      const contacts = await this.getContacts(userId);
+      contactEmails = new Set(
+        contacts
+          .filter((contact) => contact.name.toLowerCase().includes(needle))
+          .map((contact) => contact.email.toLowerCase())
+      );
+    } catch (error) {
+      logger.warn({ error, userId }, 'Could not load contacts for attendee query');
+    }
+
+    const titlePattern = new RegExp(`\\b${firstName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`);
+
+    return (event) => {
+      const attendees = (event.attendees ?? []).map((email) => email.toLowerCase());
+
+      if (attendees.some((email) => contactEmails.has(email))) {
+        return true;
+      }
+
+      if (attendees.some((email) => email.split('@')[0]?.includes(firstName))) {
+        return true;
+      }
+
+      return titlePattern.test(event.title.toLowerCase());
+    };
+  }
+
+  private addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().slice(0, 10);
+  }
+
   async getRecentEvents(
     userId: string,
     options: { days?: number; limit?: number } = {}
@@ -502,82 +1295,489 @@ export class CalendarService implements ICalendarService {
   }
 
   /**
-   * Find target event for UPDATE/DELETE operations
+   * Fetch timed events starting within a window across all of the user's active calendar connections
    */
-  private async findTargetEvent(
-    _userId: string,
-    provider: 'google' | 'microsoft',
-    accessToken: string,
-    calendarId: string,
-    intent: CalendarIntent
-  ): Promise<CalendarEvent[]> {
-    const calendarProvider = createCalendarProvider(provider);
+  async getUpcomingEvents(
+    userId: string,
+    options: { from: Date; to: Date; limit?: number }
+  ): Promise<Array<CalendarEvent & { calendarConnectionId: string }>> {
+    const limit = options.limit ?? 25;
+    const connections = await getActiveCalendars(this.db, userId);
+    const upcoming: Array<CalendarEvent & { calendarConnectionId: string }> = [];
 
-    const searchParams: any = {
-      calendarId,
-      maxResults: 5,
-    };
+    for (const connection of connections) {
+      if (!connection.accessToken) {
+        continue;
+      }
+
+      try {
+        const provider = createCalendarProvider(connection.provider);
+
+        // Microsoft filters on end time as well, so widen the window and trim by start below
+        const timeMax = new Date(options.to.getTime() + 24 * 60 * 60 * 1000);
+
+        const events = await this.withTokenRefresh(
+          connection.id,
+          connection.accessToken,
+          connection.refreshToken || null,
+          provider,
+          (token) =>
+            provider.searchEvents(token, {
+              calendarId: connection.calendarId || 'primary',
+              timeMin: options.from,
+              timeMax,
+              maxResults: limit,
+            })
+        );
+
+        for (const event of events) {
+          if (event.allDay || !event.id) {
+            continue;
+          }
+
+          if (event.start < options.from || event.start > options.to) {
+            continue;
+          }
+
+          upcoming.push({
+            id: event.id,
+            title: event.title,
+            description: event.description,
+            start: event.start,
+            end: event.end,
+            location: event.location,
+            provider: connection.provider as 'google' | 'microsoft',
+            htmlLink: event.htmlLink,
+            webLink: event.webLink,
+            calendarConnectionId: connection.id,
+          });
+        }
+      } catch (error) {
+        logger.error(
+          { error, userId, connectionId: connection.id },
+          'Failed to fetch upcoming events for calendar connection'
+        );
+      }
+    }
+
+    return upcoming.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Every event on a local calendar day across all active calendar connections, including
+   * all-day events and events that started the day before
+   */
+  async getEventsForDay(
+    userId: string,
+    options: { date: string; timeZone: string; limit?: number }
+  ): Promise<Array<CalendarEvent & { calendarConnectionId: string }>> {
+    return this.getEventsInRange(userId, {
+      startDate: options.date,
+      endDate: options.date,
+      timeZone: options.timeZone,
+      limit: options.limit,
+    });
+  }
+
+  /**
+   * Every event overlapping a range of local calendar days (inclusive) across all active
+   * calendar connections, optionally narrowed by the provider's free-text search
+   */
+  async getEventsInRange(
+    userId: string,
+    options: { startDate: string; endDate: string; timeZone: string; search?: string; limit?: number }
+  ): Promise<Array<CalendarEvent & { calendarConnectionId: string }>> {
+    const { events } = await this.searchEventsInRange(userId, options);
+    return events;
+  }
+
+  /**
+   * getEventsInRange, also saying whether any calendar had more events than the limit
+   * (per connection) so an answer can admit it may be incomplete
+   */
+  private async searchEventsInRange(
+    userId: string,
+    options: { startDate: string; endDate: string; timeZone: string; search?: string; limit?: number }
+  ): Promise<{ events: Array<CalendarEvent & { calendarConnectionId: string }>; truncated: boolean }> {
+    const limit = options.limit ?? 50;
+    const dayStart = zonedTimeToUtc(options.startDate, '00:00', options.timeZone);
+    const nextDay = new Date(`${options.endDate}T00:00:00Z`);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    const dayEnd = zonedTimeToUtc(nextDay.toISOString().slice(0, 10), '00:00', options.timeZone);
+
+    const connections = await getActiveCalendars(this.db, userId);
+    const events: Array<CalendarEvent & { calendarConnectionId: string }> = [];
+    let truncated = false;
+
+    for (const connection of connections) {
+      if (!connection.accessToken) {
+        continue;
+      }
 
-    // Use targetEventTitle or regular title as search query
-    if (intent.targetEventTitle || intent.title) {
-      searchParams.query = intent.targetEventTitle || intent.title;
+      try {
+        const provider = createCalendarProvider(connection.provider);
+
+        // All-day events are stored at UTC midnight, so pad the window and filter by date below
+        const found = await this.withTokenRefresh(
+          connection.id,
+          connection.accessToken,
+          connection.refreshToken || null,
+          provider,
+          (token) =>
+            provider.searchEvents(token, {
+              calendarId: connection.calendarId || 'primary',
+              timeMin: new Date(dayStart.getTime() - 24 * 60 * 60 * 1000),
+              timeMax: new Date(dayEnd.getTime() + 24 * 60 * 60 * 1000),
+              query: options.search,
+              maxResults: limit,
+            })
+        );
+
+        if (found.length >= limit) {
+          truncated = true;
+        }
+
+        for (const event of found) {
+          if (!event.id) {
+            continue;
+          }
+
+          const inRange = event.allDay
+            ? event.start.toISOString().slice(0, 10) <= options.endDate &&
+              event.end.toISOString().slice(0, 10) > options.startDate
+            : event.start < dayEnd && event.end > dayStart;
+
+          if (!inRange) {
+            continue;
+          }
+
+          events.push({
+            id: event.id,
+            title: event.title,
+            description: event.description,
+            start: event.start,
+            end: event.end,
+            allDay: event.allDay ?? false,
+            location: event.location,
+            attendees: event.attendees,
+            provider: connection.provider as 'google' | 'microsoft',
+            htmlLink: event.htmlLink,
+            webLink: event.webLink,
+            calendarConnectionId: connection.id,
+          });
+        }
+      } catch (error) {
+        logger.error(
+          { error, userId, connectionId: connection.id },
+          'Failed to fetch events in range from calendar connection'
+        );
+      }
     }
 
-    // Add time range if target date provided
-    if (intent.targetEventDate || intent.startDate) {
-      const searchDate = new Date(intent.targetEventDate || intent.startDate!);
-      searchParams.timeMin = new Date(searchDate.setHours(0, 0, 0, 0));
-      searchParams.timeMax = new Date(searchDate.setHours(23, 59, 59, 999));
+    return { events: events.sort((a, b) => a.start.getTime() - b.start.getTime()), truncated };
+  }
+
+  /**
+   * Busy blocks across every active calendar connection, so a clash in any connected calendar
+   * is visible regardless of which calendar the new event goes into
+   */
+  async getFreeBusy(
+    userId: string,
+    options: { timeMin: Date; timeMax: Date }
+  ): Promise<BusyInterval[]> {
+    const connections = await getActiveCalendars(this.db, userId);
+    const busy: BusyInterval[] = [];
+
+    await Promise.all(
+      connections.map(async (connection) => {
+        if (!connection.accessToken) {
+          return;
+        }
+
+        try {
+          const provider = createCalendarProvider(connection.provider);
+          // Graph's getSchedule is keyed by mailbox rather than calendar ID
+          const calendarId =
+            connection.provider === 'microsoft' ? connection.email : connection.calendarId || 'primary';
+
+          const calendars = await this.withTokenRefresh(
+            connection.id,
+            connection.accessToken,
+            connection.refreshToken || null,
+            provider,
+            (token) =>
+              provider.getFreeBusy(token, {
+                calendarIds: [calendarId],
+                timeMin: options.timeMin,
+                timeMax: options.timeMax,
+              })
+          );
+
+          for (const calendar of calendars) {
+            if (calendar.error) {
+              logger.warn(
+                { userId, connectionId: connection.id, error: calendar.error },
+                'Free/busy unavailable for calendar'
+              );
+            }
+
+            for (const block of calendar.busy) {
+              busy.push({
+                start: block.start,
+                end: block.end,
+                calendarConnectionId: connection.id,
+                calendarName: connection.label || connection.calendarName || `${connection.provider} calendar`,
+                provider: connection.provider as 'google' | 'microsoft',
+              });
+            }
+          }
+        } catch (error) {
+          logger.error(
+            { error, userId, connectionId: connection.id },
+            'Failed to fetch free/busy for calendar connection'
+          );
+        }
+      })
+    );
+
+    return busy.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Suggest free slots for a SCHEDULE request, within working hours unless a part of day was asked for
+   */
+  async findFreeSlots(
+    userId: string,
+    options: {
+      startDate?: string | null;
+      endDate?: string | null;
+      durationMinutes: number;
+      partOfDay?: PartOfDay | null;
+      limit?: number;
+    }
+  ): Promise<TimeSlot[]> {
+    const [timeZone, preferences] = await Promise.all([
+      this.getUserTimezone(userId),
+      getUserPreferences(this.db, userId),
+    ]);
+
+    const now = new Date();
+    const today = formatDateToLocalIso(now, timeZone).slice(0, 10);
+    const isDateString = (value?: string | null): value is string =>
+      !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+    const startDate = isDateString(options.startDate) && options.startDate > today ? options.startDate : today;
+
+    let endDate: string;
+    if (isDateString(options.endDate) && options.endDate >= startDate) {
+      endDate = options.endDate;
+    } else {
+      const fallbackEnd = new Date(`${startDate}T00:00:00Z`);
+      fallbackEnd.setUTCDate(fallbackEnd.getUTCDate() + DEFAULT_SLOT_SEARCH_DAYS - 1);
+      endDate = fallbackEnd.toISOString().slice(0, 10);
     }
 
-    const foundEvents = await calendarProvider.searchEvents(accessToken, searchParams);
+    const busy = await this.getFreeBusy(userId, {
+      timeMin: zonedTimeToUtc(startDate, '00:00', timeZone),
+      timeMax: zonedTimeToUtc(endDate, '23:59', timeZone),
+    });
+
+    return findFreeSlots({
+      busy,
+      startDate,
+      endDate,
+      durationMinutes: options.durationMinutes,
+      timeZone,
+      workingHours: {
+        start: preferences?.workingHoursStart ?? '09:00',
+        end: preferences?.workingHoursEnd ?? '17:00',
+      },
+      partOfDay: options.partOfDay,
+      now,
+      limit: options.limit,
+    });
+  }
+
+  /**
+   * Events an UPDATE/DELETE could be referring to, from every active calendar: the days around a
+   * mentioned date, otherwise a title search from a week back to a month ahead
+   */
+  async findCandidateEvents(userId: string, criteria: EventSearchCriteria): Promise<CandidateEvent[]> {
+    let events: Array<CalendarEvent & { calendarConnectionId: string }>;
+
+    if (criteria.date) {
+      events = await this.getEventsInRange(userId, {
+        startDate: this.addDays(criteria.date, -1),
+        endDate: this.addDays(criteria.date, 1),
+        timeZone: criteria.timezone,
+        limit: 100,
+      });
+    } else {
+      const today = formatDateToLocalIso(new Date(), criteria.timezone).slice(0, 10);
+      const range = {
+        startDate: this.addDays(today, -TARGET_EVENT_LOOKBACK_DAYS),
+        endDate: this.addDays(today, TARGET_EVENT_LOOKAHEAD_DAYS),
+        timeZone: criteria.timezone,
+        limit: 100,
+      };
+
+      events = criteria.title
+        ? await this.getEventsInRange(userId, { ...range, search: criteria.title })
+        : [];
+
+      // Provider search is literal, so a misheard title finds nothing; score everything instead
+      if (events.length === 0) {
+        events = await this.getEventsInRange(userId, range);
+      }
+    }
 
-    return foundEvents.map(e => ({
-      id: e.id,
-      title: e.title,
-      description: e.description,
-      start: e.start,
-      end: e.end,
-      location: e.location,
-      provider: provider as 'google' | 'microsoft',
-      htmlLink: e.htmlLink,
-      webLink: e.webLink,
+    return events.map((event) => ({
+      id: event.id,
+      title: event.title,
+      start: event.start,
+      end: event.end,
+      calendarId: event.calendarConnectionId,
+      attendees: event.attendees,
     }));
   }
 
   /**
-   * Parse start date and time into Date object (GMT+2 / Africa/Johannesburg timezone)
+   * Timed and all-day events overlapping a window, across every active calendar, that actually
+   * block time. Events marked free and declined invitations are left out of the calendar's
+   * free/busy, so only events inside one of that calendar's busy blocks are kept.
+   */
+  async getEventsBetween(userId: string, timeMin: Date, timeMax: Date): Promise<BusyEvent[]> {
+    const timeZone = await this.getUserTimezone(userId);
+
+    const [events, busy] = await Promise.all([
+      this.getEventsInRange(userId, {
+        startDate: formatDateToLocalIso(timeMin, timeZone).slice(0, 10),
+        endDate: formatDateToLocalIso(timeMax, timeZone).slice(0, 10),
+        timeZone,
+        limit: 100,
+      }),
+      this.getFreeBusy(userId, { timeMin, timeMax }),
+    ]);
+
+    return events.filter((event) => {
+      if (event.start >= timeMax || event.end <= timeMin) {
+        return false;
+      }
+
+      // Busy blocks are cut off at the window, so compare the part of the event inside it
+      const start = Math.max(event.start.getTime(), timeMin.getTime());
+      const end = Math.min(event.end.getTime(), timeMax.getTime());
+
+      return busy.some(
+        (block) =>
+          block.calendarConnectionId === event.calendarConnectionId &&
+          block.start.getTime() <= start &&
+          block.end.getTime() >= end
+      );
+    });
+  }
+
+  /**
+   * Find the one event an UPDATE/DELETE refers to across every connected calendar.
+   * Throws instead of guessing when nothing matches or several events match equally well.
+   */
+  private async findTargetEvent(
+    userId: string,
+    intent: CalendarIntent,
+    timeZone: string,
+    operation: 'update' | 'delete'
+  ): Promise<{
+    match: EventMatch;
+    calendarConnection: NonNullable<Awaited<ReturnType<typeof getCalendarById>>>;
+  }> {
+    const result = await new EventMatcher(this).match(userId, intent, timeZone);
+
+    if (result.matches.length === 0) {
+      throw new Error(`Event not found. Please provide more details about which event to ${operation}.`);
+    }
+
+    if (result.needsClarification) {
+      throw new Error(`Multiple events found. Please be more specific about which event to ${operation}.`);
+    }
+
+    const match = result.matches[0]!;
+    const calendarConnection = await getCalendarById(this.db, match.calendarId);
+
+    if (!calendarConnection || !calendarConnection.isActive) {
+      throw new Error('The calendar this event is in is no longer connected.');
+    }
+
+    return { match, calendarConnection };
+  }
+
+  /**
+   * Parse a local start date and time in the user's timezone into a Date
    */
   private parseDateTime(
     dateString: string,
-    timeString?: string,
-    isAllDay?: boolean
+    timeString: string | undefined,
+    isAllDay: boolean | undefined,
+    timeZone: string
   ): Date {
-    // Parse the date string and create a Date object in GMT+2
-    const date = new Date(dateString);
+    const localDate = this.toLocalDate(dateString, timeZone);
 
     if (isAllDay || !timeString) {
-      // For all-day events, set to midnight GMT+2
-      // Create date string in GMT+2 format
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return new Date(`${year}-${month}-${day}T00:00:00+02:00`);
+      // All-day events start at local midnight
+      return zonedTimeToUtc(localDate, undefined, timeZone);
     }
 
     // Parse time string (HH:MM format)
     const timeParts = timeString.split(':');
-    const hours = parseInt(timeParts[0] || '0', 10);
-    const minutes = parseInt(timeParts[1] || '0', 10);
+    const hours = String(parseInt(timeParts[0] || '0', 10)).padStart(2, '0');
+    const minutes = String(parseInt(timeParts[1] || '0', 10)).padStart(2, '0');
+
+    return zonedTimeToUtc(localDate, `${hours}:${minutes}`, timeZone);
+  }
 
-    // Create date string in GMT+2 format
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const hourStr = String(hours).padStart(2, '0');
-    const minuteStr = String(minutes).padStart(2, '0');
+  /**
+   * Normalise a date string to YYYY-MM-DD as seen in the user's timezone
+   */
+  private toLocalDate(dateString: string, timeZone: string): string {
+    if (/^\d{4}-\d{2}-\d{2}/.test(dateString)) {
+      return dateString.slice(0, 10);
+    }
 
-    return new Date(`${year}-${month}-${day}T${hourStr}:${minuteStr}:00+02:00`);
+    return formatDateToLocalIso(new Date(dateString), timeZone).slice(0, 10);
+  }
+
+  /**
+   * Convert the intent's recurrence into the provider-neutral RRULE model
+   */
+  private toRecurrenceRule(
+    recurrence: CalendarIntent['recurrence'],
+    timeZone: string
+  ): RecurrenceRule | undefined {
+    if (!recurrence) {
+      return undefined;
+    }
+
+    const weekdays: RecurrenceWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+    const byDay = recurrence.byDay
+      ?.map((day) => day.trim().slice(0, 2).toUpperCase())
+      .filter((day): day is RecurrenceWeekday => weekdays.includes(day as RecurrenceWeekday));
+
+    // Series runs through the whole of the final day; an unparseable end date means no end
+    let until: Date | undefined;
+    try {
+      until = recurrence.until
+        ? this.parseDateTime(recurrence.until, '23:59', false, timeZone)
+        : undefined;
+    } catch {
+      until = undefined;
+    }
+
+    return {
+      frequency: recurrence.frequency,
+      interval: recurrence.interval && recurrence.interval > 0 ? recurrence.interval : undefined,
+      byDay: byDay?.length ? byDay : undefined,
+      count: recurrence.count && recurrence.count > 0 ? recurrence.count : undefined,
+      until: until && !Number.isNaN(until.getTime()) ? until : undefined,
+    };
   }
 
   /**
@@ -585,22 +1785,21 @@ export class CalendarService implements ICalendarService {
    */
   private parseEndDateTime(
     startDate: Date,
+    timeZone: string,
     endDateString?: string,
     endTimeString?: string,
     duration?: number,
     isAllDay?: boolean
   ): Date {
-    // If all-day event, end is next day at midnight
+    // If all-day event, end is next day at local midnight
     if (isAllDay) {
-      const end = new Date(startDate);
-      end.setDate(end.getDate() + 1);
-      end.setHours(0, 0, 0, 0);
-      return end;
+      const nextDay = new Date(startDate.getTime() + 36 * 60 * 60 * 1000);
+      return this.parseDateTime(formatDateToLocalIso(nextDay, timeZone), undefined, true, timeZone);
     }
 
     // If end date/time provided, use it
     if (endDateString) {
-      return this.parseDateTime(endDateString, endTimeString);
+      return this.parseDateTime(endDateString, endTimeString, false, timeZone);
     }
 
     // If duration provided, add to start time
@@ -616,44 +1815,59 @@ export class CalendarService implements ICalendarService {
     return end;
   }
 
-  async getContacts(userId: string): Promise<Array<{ name: string; email: string; source: 'google' | 'microsoft' }>> {
+  /**
+   * The user's contact directory, synced incrementally from every connected account.
+   * Served from the database; a stale connection is brought up to date first.
+   */
+  async getContacts(userId: string): Promise<DirectoryContact[]> {
     try {
-      // Get user's primary calendar connection
-      const connection = await getPrimaryCalendar(this.db, userId);
+      const [connections, personalContacts] = await Promise.all([
+        this.getContactSyncConnections(userId),
+        getPersonalContacts(this.db, userId),
+      ]);
 
-      if (!connection || !connection.isActive) {
+      if (connections.length === 0 && personalContacts.length === 0) {
         logger.warn({ userId }, 'No active calendar connection found');
         return [];
       }
 
-      if (!connection.accessToken) {
-        logger.warn({ userId, provider: connection.provider }, 'No access token found');
-        return [];
+      if (connections.length > 0) {
+        await this.syncContactDirectory(userId, connections);
       }
 
-      // Create provider instance
-      const provider = createCalendarProvider(connection.provider);
+      const sources = new Map(connections.map((connection) => [connection.id, connection.provider]));
+      const contacts = connections.length > 0 ? await getContactDirectory(this.db, userId) : [];
+
+      const directory: DirectoryContact[] = contacts
+        .filter((contact) => sources.has(contact.calendarConnectionId))
+        .map((contact) => ({
+          name: contact.name,
+          email: contact.email,
+          source: sources.get(contact.calendarConnectionId)!,
+          nicknames: contact.nicknames,
+          meetingCount: contact.meetingCount,
+          lastMetAt: contact.lastMetAt,
+        }));
 
-      // Fetch contacts from the provider with token refresh
-      const contacts = await this.withTokenRefresh(
-        connection.id,
-        connection.accessToken,
-        connection.refreshToken || null,
-        provider,
-        (token) => provider.getContacts(token)
-      );
+      const byEmail = new Map(directory.map((contact) => [contact.email.toLowerCase(), contact]));
 
-      // Filter only google/microsoft and map to include source
-      if (connection.provider === 'google' || connection.provider === 'microsoft') {
-        return contacts.map(contact => ({
-          ...contact,
-          source: connection.provider,
-        }));
+      for (const saved of personalContacts) {
+        const synced = byEmail.get(saved.email);
+
+        // A saved name for someone already synced becomes a nickname, so their meeting history still counts
+        if (synced) {
+          if (saved.name.toLowerCase() !== synced.name.toLowerCase()) {
+            synced.nicknames = [...(synced.nicknames ?? []), saved.name];
+          }
+          continue;
+        }
+
+        const contact: DirectoryContact = { name: saved.name, email: saved.email, source: 'personal' };
+        byEmail.set(saved.email, contact);
+        directory.push(contact);
       }
 
-      // For apple/caldav, return empty for now
-      logger.warn({ provider: connection.provider }, 'Contacts not supported for this provider');
-      return [];
+      return directory;
     } catch (error: any) {
       logger.error({
         error: error.message || String(error),
@@ -664,4 +1878,142 @@ export class CalendarService implements ICalendarService {
       return [];
     }
   }
+
+  async getContactAliases(userId: string): Promise<ContactAlias[]> {
+    try {
+      return await getContactAliases(this.db, userId);
+    } catch (error) {
+      logger.error({ error, userId }, 'Failed to fetch contact aliases');
+      return [];
+    }
+  }
+
+  /**
+   * One connection per account: calendars connected from the same account share a contact list
+   */
+  private async getContactSyncConnections(userId: string) {
+    const connections = await getActiveCalendars(this.db, userId);
+    const byAccount = new Map<string, (typeof connections)[number]>();
+
+    for (const connection of connections) {
+      if (!connection.accessToken) {
+        continue;
+      }
+
+      const key = `${connection.provider}:${connection.email.toLowerCase()}`;
+      const existing = byAccount.get(key);
+
+      if (!existing || (connection.isPrimary && !existing.isPrimary)) {
+        byAccount.set(key, connection);
+      }
+    }
+
+    return Array.from(byAccount.values());
+  }
+
+  private async syncContactDirectory(
+    userId: string,
+    connections: Awaited<ReturnType<CalendarService['getContactSyncConnections']>>
+  ): Promise<void> {
+    const now = Date.now();
+    const stale = connections.filter((connection) =>
+      !connection.contactsSyncedAt || now - connection.contactsSyncedAt.getTime() > CONTACT_SYNC_INTERVAL_MS
+    );
+
+    if (stale.length === 0) {
+      return;
+    }
+
+    // A failed sync keeps serving what was stored last time
+    await Promise.all(stale.map(async (connection) => {
+      try {
+        const provider = createCalendarProvider(connection.provider);
+        const changes = await this.withTokenRefresh(
+          connection.id,
+          connection.accessToken!,
+          connection.refreshToken || null,
+          provider,
+          (token) => provider.syncContacts(token, connection.contactsSyncToken)
+        );
+
+        await applyContactSync(this.db, {
+          userId,
+          calendarConnectionId: connection.id,
+          contacts: changes.contacts.map((contact) => ({
+            providerContactId: contact.id,
+            name: contact.name,
+            email: contact.email,
+            nicknames: contact.nicknames,
+          })),
+          deletedIds: changes.deletedIds,
+          fullSync: changes.fullSync,
+          syncToken: changes.nextSyncToken,
+        });
+
+        logger.info({
+          userId,
+          connectionId: connection.id,
+          provider: connection.provider,
+          upserted: changes.contacts.length,
+          deleted: changes.deletedIds.length,
+          fullSync: changes.fullSync,
+        }, 'Contact directory synced');
+      } catch (error) {
+        logger.warn({ error, userId, connectionId: connection.id }, 'Contact sync failed, using stored contacts');
+      }
+    }));
+
+    await this.refreshContactMeetingStats(userId).catch((error) => {
+      logger.warn({ error, userId }, 'Failed to refresh contact meeting stats');
+    });
+  }
+
+  /**
+   * Count recent meetings per attendee so frequently met people rank first
+   */
+  private async refreshContactMeetingStats(userId: string): Promise<void> {
+    const timeZone = await this.getUserTimezone(userId);
+    const today = formatDateToLocalIso(new Date(), timeZone).slice(0, 10);
+
+    const events = await this.getEventsInRange(userId, {
+      startDate: this.addDays(today, -CONTACT_MEETING_LOOKBACK_DAYS),
+      endDate: today,
+      timeZone,
+      limit: MAX_CONTACT_MEETING_EVENTS,
+    });
+
+    const stats = new Map<string, { email: string; meetingCount: number; lastMetAt: Date | null }>();
+
+    for (const event of events) {
+      for (const attendee of event.attendees ?? []) {
+        const email = attendee.toLowerCase();
+        if (!email) continue;
+
+        const stat = stats.get(email) ?? { email, meetingCount: 0, lastMetAt: null };
+        stat.meetingCount += 1;
+        if (!stat.lastMetAt || event.start > stat.lastMetAt) {
+          stat.lastMetAt = event.start;
+        }
+        stats.set(email, stat);
+      }
+    }
+
+    await setContactMeetingStats(this.db, userId, Array.from(stats.values()));
+  }
+}
+
+/**
+ * Video calls get a native Meet/Teams link, as does every timed event when the user always wants one.
+ * A link the user gave (e.g. their own Zoom room) is kept instead.
+ */
+function shouldAddMeetingLink(intent: CalendarIntent, alwaysAddMeetingLink: boolean): boolean {
+  if (intent.isAllDay || hasMeetingUrl(intent.location)) {
+    return false;
+  }
+
+  return Boolean(intent.isVirtual) || alwaysAddMeetingLink;
+}
+
+function hasMeetingUrl(location?: string): boolean {
+  return Boolean(location && /https?:\/\//i.test(location));
 }
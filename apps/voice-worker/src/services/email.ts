@@ -0,0 +1,62 @@
+// Transactional email through Resend, for notices that shouldn't depend on WhatsApp alone
+
+import axios from 'axios';
+import { logger } from '@imaginecalendar/logger';
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export class EmailService {
+  private apiKey = process.env.RESEND_API_KEY;
+  private from = process.env.RESEND_FROM_EMAIL;
+
+  isConfigured(): boolean {
+    return !!this.apiKey && !!this.from;
+  }
+
+  /**
+   * Send a plain-text email. Returns whether it was accepted; without Resend credentials nothing is sent.
+   */
+  async send(message: EmailMessage): Promise<boolean> {
+    if (!this.isConfigured()) {
+      logger.debug({ subject: message.subject }, 'Skipped email (Resend not configured)');
+      return false;
+    }
+
+    try {
+      await axios.post(
+        RESEND_API_URL,
+        {
+          from: this.from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: 10000,
+        }
+      );
+
+      logger.info({ subject: message.subject }, 'Email sent');
+      return true;
+    } catch (error) {
+      logger.error(
+        {
+          error: axios.isAxiosError(error) ? error.response?.data ?? error.message : error,
+          subject: message.subject,
+        },
+        'Failed to send email'
+      );
+      return false;
+    }
+  }
+}
@@ -4,18 +4,21 @@ import axios from 'axios';
 import { logger } from '@imaginecalendar/logger';
 import { getWhatsAppConfig, getWhatsAppApiUrl } from '@imaginecalendar/whatsapp';
 
-export interface AudioData {
+export interface MediaData {
   buffer: Buffer;
   mimeType: string;
-  duration?: number; // Duration in seconds if available
+  duration?: number; // Duration in seconds if available (audio only)
   size: number; // Size in bytes
 }
 
-export class AudioDownloader {
+// Downloads voice notes, images and documents sent over WhatsApp
+export class MediaDownloader {
   /**
-   * Download audio file from WhatsApp using media ID
+   * Download a media file from WhatsApp using media ID
+   *
+   * @param fallbackMimeType - Used when the CDN response has no content type
    */
-  async download(mediaId: string): Promise<AudioData> {
+  async download(mediaId: string, fallbackMimeType = 'application/octet-stream'): Promise<MediaData> {
     const startTime = Date.now();
 
     try {
@@ -24,28 +27,28 @@ export class AudioDownloader {
       const mediaUrl = await this.getMediaUrl(mediaId);
 
       // Step 2: Download the actual media file
-      logger.info({ mediaId, mediaUrl }, 'Downloading audio file');
-      const audioData = await this.downloadMedia(mediaUrl);
+      logger.info({ mediaId, mediaUrl }, 'Downloading media file');
+      const mediaData = await this.downloadMedia(mediaUrl, fallbackMimeType);
 
       const duration = Date.now() - startTime;
       logger.info(
         {
           mediaId,
-          size: audioData.size,
-          mimeType: audioData.mimeType,
+          size: mediaData.size,
+          mimeType: mediaData.mimeType,
           durationMs: duration,
         },
-        'Audio download completed'
+        'Media download completed'
       );
 
-      return audioData;
+      return mediaData;
     } catch (error) {
       logger.error(
         {
           error: error instanceof Error ? error.message : String(error),
           mediaId,
         },
-        'Audio download failed'
+        'Media download failed'
       );
       throw error;
     }
@@ -93,7 +96,7 @@ export class AudioDownloader {
   /**
    * Download media file from WhatsApp CDN
    */
-  private async downloadMedia(url: string): Promise<AudioData> {
+  private async downloadMedia(url: string, fallbackMimeType: string): Promise<MediaData> {
     const config = getWhatsAppConfig();
 
     try {
@@ -107,7 +110,7 @@ export class AudioDownloader {
       });
 
       const buffer = Buffer.from(response.data);
-      const mimeType = response.headers['content-type'] || 'audio/ogg';
+      const mimeType = response.headers['content-type'] || fallbackMimeType;
 
       return {
         buffer,
@@ -1,23 +1,114 @@
 // WhatsApp notification service for voice processing results
 
-import { WhatsAppService } from '@imaginecalendar/whatsapp';
+import { WhatsAppService, formatSavedContactsMessage, getWhatsAppConfig } from '@imaginecalendar/whatsapp';
 import type { WhatsAppMessageResponse } from '@imaginecalendar/whatsapp';
 import { logger } from '@imaginecalendar/logger';
-import type { CalendarIntent } from '@imaginecalendar/ai-services';
+import {
+  DEFAULT_TIMEZONE,
+  formatDateToLocalIso,
+  zonedTimeToUtc,
+  type CalendarIntent,
+} from '@imaginecalendar/ai-services';
 import type { Database } from '@imaginecalendar/database/client';
+import type { ICalendarEvent } from '@imaginecalendar/calendar-integrations/icalendar';
 import { logOutgoingWhatsAppMessage, isWithinFreeMessageWindow } from '@imaginecalendar/database/queries';
 import { metrics } from '../utils/metrics';
+import type { CalendarQuerySummary } from './calendar-service';
 
 export interface CalendarEvent {
   id: string;
   title: string;
   start: Date;
   end: Date;
+  allDay?: boolean;
+  location?: string;
   provider: 'google' | 'microsoft';
   htmlLink?: string;
   webLink?: string;
+  meetingUrl?: string;
+  reminderMinutes?: number;
 }
 
+// What an undo confirmation shows; the time is unknown when a created event couldn't be read before removing it
+export interface UndoneEvent {
+  id: string;
+  title: string;
+  start?: Date;
+  allDay?: boolean;
+  attendees?: string[];
+}
+
+// A change made for one request of a multi-request message, listed in the combined confirmation
+export interface BatchChange {
+  voiceJobId: string;
+  action: 'CREATE' | 'UPDATE' | 'DELETE';
+  title: string;
+  start: Date;
+  allDay?: boolean;
+  operationId?: string;
+}
+
+// An event created from a forwarded calendar invite
+export interface ImportedEvent {
+  title: string;
+  start: Date;
+  allDay?: boolean;
+  operationId?: string;
+}
+
+export interface DisplayFormatOptions {
+  dateFormat: 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+  timeFormat: '12h' | '24h';
+}
+
+export interface DailyDigestOptions extends DisplayFormatOptions {
+  date: string; // YYYY-MM-DD in the user's timezone
+}
+
+// Free time shorter than this between meetings isn't worth pointing out
+const DIGEST_MIN_GAP_MINUTES = 60;
+
+// Keep query answers readable on a phone screen
+const MAX_QUERY_EVENTS_LISTED = 10;
+
+const MAX_INTERACTIVE_BODY_LENGTH = 1024;
+
+// WhatsApp allows up to 3 reply buttons; beyond that confirmations use lists of up to 10 rows each
+const MAX_REPLY_BUTTONS = 3;
+const MAX_LIST_ROWS = 10;
+
+// Button id prefix the webhook recognises as "this event is wrong"
+export const FIX_EVENT_BUTTON_PREFIX = 'fix_';
+
+// Button id prefix the webhook recognises as "revert this change"
+export const UNDO_BUTTON_PREFIX = 'undo_';
+
+// Button id prefixes the webhook recognises as "add" or "skip" the events of a forwarded invite
+export const IMPORT_EVENTS_BUTTON_PREFIX = 'import_add_';
+export const SKIP_IMPORT_BUTTON_PREFIX = 'import_skip_';
+
+// Invites with more events than this are summarised, so the question fits an interactive message
+const MAX_IMPORT_EVENTS_LISTED = 4;
+
+const CORRECTION_FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  startDate: 'date',
+  startTime: 'time',
+  duration: 'duration',
+  endDate: 'end date',
+  endTime: 'end time',
+  isAllDay: 'all-day',
+  location: 'location',
+  attendees: 'attendees',
+  description: 'notes',
+};
+
+const BATCH_CHANGE_METRICS: Record<BatchChange['action'], string> = {
+  CREATE: 'event.created',
+  UPDATE: 'event.updated',
+  DELETE: 'event.deleted',
+};
+
 type MessageLogContext = {
   db: Database;
   whatsappNumberId: string;
@@ -27,13 +118,16 @@ type MessageLogContext = {
 export class NotificationService {
   private whatsapp: WhatsAppService;
 
-  constructor() {
+  /**
+   * @param timeZone - IANA timezone used for every date and time shown to the user
+   */
+  constructor(private timeZone: string = DEFAULT_TIMEZONE) {
     this.whatsapp = new WhatsAppService();
   }
 
   private async logOutgoingMessage(
     response: WhatsAppMessageResponse | undefined,
-    messageType: 'text' | 'interactive',
+    messageType: 'text' | 'interactive' | 'template',
     logContext?: MessageLogContext
   ) {
     if (!logContext) {
@@ -65,22 +159,77 @@ export class NotificationService {
   }
 
   /**
-   * Send success notification when calendar event is created
+   * Send a confirmation with reply buttons, or a list when there are more actions than buttons, continued in
+   * follow-up lists past ten rows; without actions, or when the message is too long for an interactive body,
+   * it goes out as text with the reply hints instead
+   */
+  private async sendConfirmation(
+    phone: string,
+    message: string,
+    actions: Array<{ id: string; title: string; hint: string }>,
+    logContext?: MessageLogContext
+  ): Promise<void> {
+    // Interactive bodies are capped at 1024 characters; long confirmations fall back to text
+    if (actions.length > 0 && message.length <= MAX_INTERACTIVE_BODY_LENGTH) {
+      if (actions.length <= MAX_REPLY_BUTTONS) {
+        const response = await this.whatsapp.sendReplyButtonMessage(phone, {
+          bodyText: message,
+          buttons: actions.map(({ id, title }) => ({ id, title: title.substring(0, 20) })),
+        });
+
+        await this.logOutgoingMessage(response, 'interactive', logContext);
+        return;
+      }
+
+      // Every item keeps its own row, so a large batch is split over several lists
+      for (let start = 0; start < actions.length; start += MAX_LIST_ROWS) {
+        const page = actions.slice(start, start + MAX_LIST_ROWS);
+        const response = await this.whatsapp.sendListMessage(phone, {
+          bodyText: start === 0
+            ? message
+            : `More options (${start + 1}-${start + page.length} of ${actions.length})`,
+          buttonText: 'Fix or undo',
+          options: page.map(({ id, title }) => ({ id, title: title.substring(0, 24) })),
+        });
+
+        await this.logOutgoingMessage(response, 'interactive', logContext);
+      }
+      return;
+    }
+
+    // Use plain text message for conversational response within 24-hour window
+    const hints = [...new Set(actions.map((action) => action.hint))].join(' ');
+    const response = await this.whatsapp.sendTextMessage(phone, hints ? `${message}\n\n${hints}` : message);
+
+    await this.logOutgoingMessage(response, 'text', logContext);
+  }
+
+  private undoAction(operationId?: string): Array<{ id: string; title: string; hint: string }> {
+    return operationId
+      ? [{ id: `${UNDO_BUTTON_PREFIX}${operationId}`, title: 'Undo', hint: 'Reply "undo" to reverse this.' }]
+      : [];
+  }
+
+  /**
+   * Send success notification when calendar event is created, with a "Fix it" button when the
+   * voice job is known so the user can correct a misheard detail, and "Undo" to remove it again
    */
   async sendSuccess(
     phone: string,
     event: CalendarEvent,
     intent: CalendarIntent,
     transcription: string,
-    logContext?: MessageLogContext
+    logContext?: MessageLogContext,
+    voiceJobId?: string,
+    operationId?: string
   ): Promise<void> {
     try {
       const message = this.formatSuccessMessage(event, intent, transcription);
+      const fixAction = voiceJobId
+        ? [{ id: `${FIX_EVENT_BUTTON_PREFIX}${voiceJobId}`, title: 'Fix it', hint: 'Reply "wrong" if anything needs fixing.' }]
+        : [];
 
-      // Use plain text message for conversational response within 24-hour window
-      const response = await this.whatsapp.sendTextMessage(phone, message);
-
-      await this.logOutgoingMessage(response, 'text', logContext);
+      await this.sendConfirmation(phone, message, [...fixAction, ...this.undoAction(operationId)], logContext);
 
       logger.info({ phone, eventId: event.id }, 'Success notification sent');
       metrics.increment('event.created');
@@ -90,6 +239,225 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Confirm every change from a message with several requests in one message, with "Fix" and
+   * "Undo" options for each item
+   */
+  async sendBatchSuccess(
+    phone: string,
+    changes: BatchChange[],
+    logContext?: MessageLogContext
+  ): Promise<void> {
+    try {
+      const message = this.formatBatchMessage(changes);
+      const actions = changes.flatMap((change, index) => [
+        ...(change.action === 'CREATE'
+          ? [{
+              id: `${FIX_EVENT_BUTTON_PREFIX}${change.voiceJobId}`,
+              title: `Fix ${index + 1}: ${change.title}`,
+              hint: 'Reply "wrong" to fix the latest event.',
+            }]
+          : []),
+        ...(change.operationId
+          ? [{
+              id: `${UNDO_BUTTON_PREFIX}${change.operationId}`,
+              title: `Undo ${index + 1}: ${change.title}`,
+              hint: 'Reply "undo" to reverse the latest change.',
+            }]
+          : []),
+      ]);
+
+      await this.sendConfirmation(phone, message, actions, logContext);
+
+      logger.info({ phone, changeCount: changes.length }, 'Batch success notification sent');
+      for (const change of changes) {
+        metrics.increment(BATCH_CHANGE_METRICS[change.action]);
+      }
+    } catch (error) {
+      logger.error({ error, phone, changeCount: changes.length }, 'Failed to send batch success notification');
+    }
+  }
+
+  /**
+   * Show the events of a forwarded calendar invite and ask whether to add them
+   */
+  async sendImportPreview(
+    phone: string,
+    voiceJobId: string,
+    events: ICalendarEvent[],
+    logContext?: MessageLogContext
+  ): Promise<void> {
+    try {
+      const message = this.formatImportPreview(events);
+
+      await this.sendConfirmation(phone, message, [
+        { id: `${IMPORT_EVENTS_BUTTON_PREFIX}${voiceJobId}`, title: 'Add to calendar', hint: '' },
+        { id: `${SKIP_IMPORT_BUTTON_PREFIX}${voiceJobId}`, title: 'Skip', hint: '' },
+      ], logContext);
+
+      logger.info({ phone, voiceJobId, eventCount: events.length }, 'Import preview sent');
+    } catch (error) {
+      logger.error({ error, phone, voiceJobId }, 'Failed to send import preview');
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm the events added from a forwarded calendar invite, with "Undo" for each
+   */
+  async sendImportSuccess(
+    phone: string,
+    events: ImportedEvent[],
+    failedCount: number,
+    logContext?: MessageLogContext
+  ): Promise<void> {
+    try {
+      const message = this.formatImportMessage(events, failedCount);
+      const actions = events.flatMap((event, index) => event.operationId
+        ? [{
+            id: `${UNDO_BUTTON_PREFIX}${event.operationId}`,
+            title: events.length === 1 ? 'Undo' : `Undo ${index + 1}: ${event.title}`,
+            hint: 'Reply "undo" to reverse the latest change.',
+          }]
+        : []);
+
+      await this.sendConfirmation(phone, message, actions, logContext);
+
+      logger.info({ phone, eventCount: events.length, failedCount }, 'Import success notification sent');
+      metrics.increment('event.imported', { count: events.length });
+    } catch (error) {
+      logger.error({ error, phone, eventCount: events.length }, 'Failed to send import success notification');
+    }
+  }
+
+  /**
+   * Confirm the people saved from a forwarded contact card
+   */
+  async sendContactsImported(
+    phone: string,
+    savedNames: string[],
+    skippedNames: string[],
+    logContext?: MessageLogContext
+  ): Promise<void> {
+    try {
+      const response = await this.whatsapp.sendTextMessage(phone, formatSavedContactsMessage(savedNames, skippedNames));
+
+      await this.logOutgoingMessage(response, 'text', logContext);
+      logger.info({ phone, savedCount: savedNames.length, skippedCount: skippedNames.length }, 'Contacts import notification sent');
+    } catch (error) {
+      logger.error({ error, phone }, 'Failed to send contacts import notification');
+    }
+  }
+
+  /**
+   * Confirm an event fixed after the user said it was wrong
+   */
+  async sendCorrectionSuccess(
+    phone: string,
+    event: CalendarEvent,
+    changedFields: string[],
+    logContext?: MessageLogContext
+  ): Promise<void> {
+    try {
+      const message = this.formatCorrectionMessage(event, changedFields);
+      const response = await this.whatsapp.sendTextMessage(phone, message);
+
+      await this.logOutgoingMessage(response, 'text', logContext);
+      logger.info({ phone, eventId: event.id, changedFields }, 'Correction notification sent');
+      metrics.increment('event.corrected');
+    } catch (error) {
+      logger.error({ error, phone, eventId: event.id }, 'Failed to send correction notification');
+    }
+  }
+
+  /**
+   * Confirm a location shared after the event was created, with "Undo" to take it off again
+   */
+  async sendLocationAttached(
+    phone: string,
+    event: CalendarEvent,
+    logContext?: MessageLogContext,
+    operationId?: string
+  ): Promise<void> {
+    try {
+      let message = `✅ Location added to "${event.title}"\n\n`;
+      message += `🕐 ${this.formatDate(event.start)} at ${this.formatTime(event.start)}`;
+
+      if (event.location) {
+        message += `\n📍 ${event.location}`;
+      }
+
+      const link = event.htmlLink || event.webLink;
+      if (link) {
+        message += `\n\n🔗 View event: ${link}`;
+      }
+
+      await this.sendConfirmation(phone, message, this.undoAction(operationId), logContext);
+      logger.info({ phone, eventId: event.id }, 'Location notification sent');
+      metrics.increment('event.location_attached');
+    } catch (error) {
+      logger.error({ error, phone, eventId: event.id }, 'Failed to send location notification');
+    }
+  }
+
+  /**
+   * Tell the user their plan handles one request per message, with an upgrade button
+   */
+  async sendMultiEventUnavailable(
+    phone: string,
+    skippedCount: number,
+    logContext?: MessageLogContext
+  ): Promise<void> {
+    try {
+      const others = skippedCount === 1 ? 'the other request' : `the other ${skippedCount} requests`;
+      const response = await this.whatsapp.sendCTAButtonMessage(phone, {
+        bodyText: `Your plan handles one request per message, so I'm only doing the first one. Send ${others} separately, or upgrade to send several at once.`,
+        buttonText: 'Upgrade',
+        buttonUrl: getWhatsAppConfig().upgradeButtonUrl,
+      });
+
+      await this.logOutgoingMessage(response, 'interactive', logContext);
+      logger.info({ phone, skippedCount }, 'Multi-request upgrade notice sent');
+    } catch (error) {
+      logger.error({ error, phone }, 'Failed to send multi-request upgrade notice');
+    }
+  }
+
+  /**
+   * Send a trial or payment notice with a button to the billing page. Returns whether it was delivered.
+   */
+  async sendBillingNotice(
+    phone: string,
+    notice: { message: string; buttonText: string },
+    logContext?: MessageLogContext
+  ): Promise<boolean> {
+    try {
+      const buttonUrl = getWhatsAppConfig().upgradeButtonUrl;
+
+      // Billing notices go out on a schedule, often outside the 24-hour window
+      const withinWindow = logContext
+        ? await isWithinFreeMessageWindow(logContext.db, logContext.whatsappNumberId)
+        : true;
+
+      // Template parameters can't contain newlines, so the link goes inline
+      const response = withinWindow
+        ? await this.whatsapp.sendCTAButtonMessage(phone, {
+            bodyText: notice.message,
+            buttonText: notice.buttonText,
+            buttonUrl,
+          })
+        : await this.whatsapp.sendMessage(phone, `${notice.message.replace(/\s*\n+\s*/g, ' ')} ${buttonUrl}`);
+
+      await this.logOutgoingMessage(response, withinWindow ? 'interactive' : 'template', logContext);
+      logger.info({ phone, withinWindow }, 'Billing notice sent');
+
+      return true;
+    } catch (error) {
+      logger.error({ error, phone }, 'Failed to send billing notice');
+      return false;
+    }
+  }
+
   /**
    * Send error notification when processing fails
    */
@@ -114,13 +482,13 @@ export class NotificationService {
     phone: string,
     event: CalendarEvent,
     intent: CalendarIntent,
-    logContext?: MessageLogContext
+    logContext?: MessageLogContext,
+    operationId?: string
   ): Promise<void> {
     try {
       const message = this.formatUpdateMessage(event, intent);
-      const response = await this.whatsapp.sendTextMessage(phone, message);
 
-      await this.logOutgoingMessage(response, 'text', logContext);
+      await this.sendConfirmation(phone, message, this.undoAction(operationId), logContext);
       logger.info({ phone, eventId: event.id }, 'Update notification sent');
       metrics.increment('event.updated');
     } catch (error) {
@@ -132,13 +500,13 @@ export class NotificationService {
     phone: string,
     event: CalendarEvent,
     intent: CalendarIntent,
-    logContext?: MessageLogContext
+    logContext?: MessageLogContext,
+    operationId?: string
   ): Promise<void> {
     try {
-      const message = this.formatDeleteMessage(event, intent);
-      const response = await this.whatsapp.sendTextMessage(phone, message);
+      const message = this.formatDeleteMessage(event, intent, Boolean(operationId));
 
-      await this.logOutgoingMessage(response, 'text', logContext);
+      await this.sendConfirmation(phone, message, this.undoAction(operationId), logContext);
       logger.info({ phone, eventId: event.id }, 'Delete notification sent');
       metrics.increment('event.deleted');
     } catch (error) {
@@ -146,6 +514,49 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Confirm a change was reverted after the user tapped "Undo" or replied "undo"
+   */
+  async sendUndoSuccess(
+    phone: string,
+    action: 'CREATE' | 'UPDATE' | 'DELETE',
+    event: UndoneEvent,
+    logContext?: MessageLogContext
+  ): Promise<void> {
+    try {
+      const message = this.formatUndoMessage(action, event);
+      const response = await this.whatsapp.sendTextMessage(phone, message);
+
+      await this.logOutgoingMessage(response, 'text', logContext);
+      logger.info({ phone, eventId: event.id, action }, 'Undo notification sent');
+      metrics.increment('event.undone', { action });
+    } catch (error) {
+      logger.error({ error, phone, eventId: event.id }, 'Failed to send undo notification');
+    }
+  }
+
+  /**
+   * Send the answer to a calendar question (events, counts or free time)
+   */
+  async sendQueryResult(
+    phone: string,
+    events: CalendarEvent[],
+    summary: CalendarQuerySummary,
+    format: DisplayFormatOptions,
+    logContext?: MessageLogContext
+  ): Promise<void> {
+    try {
+      const message = this.formatQueryLines(events, summary, format).join('\n');
+      const response = await this.whatsapp.sendTextMessage(phone, message);
+
+      await this.logOutgoingMessage(response, 'text', logContext);
+      logger.info({ phone, queryType: summary.type, eventCount: events.length }, 'Query result sent');
+      metrics.increment('event.queried', { type: summary.type });
+    } catch (error) {
+      logger.error({ error, phone, queryType: summary.type }, 'Failed to send query result');
+    }
+  }
+
   /**
    * Send event verification request with Yes/No buttons
    */
@@ -263,7 +674,7 @@ export class NotificationService {
     prompt: {
       type: 'text' | 'buttons' | 'list';
       question: string;
-      options?: Array<{ id: string; label: string; value: string }>;
+      options?: Array<{ id: string; label: string; value: string; description?: string }>;
     },
     logContext?: MessageLogContext
   ): Promise<{ messageId?: string | null }> {
@@ -303,6 +714,7 @@ export class NotificationService {
       const listOptions = (prompt.options ?? []).map((option) => ({
         id: option.id,
         title: option.label.substring(0, 24),
+        description: option.description,
       }));
 
       const response = await this.whatsapp.sendListMessage(phone, {
@@ -320,6 +732,76 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send an upcoming event reminder. Throws so the reminder job can record the failure.
+   */
+  async sendEventReminder(
+    phone: string,
+    event: CalendarEvent,
+    minutesBefore: number,
+    logContext?: MessageLogContext
+  ): Promise<{ messageId?: string | null }> {
+    try {
+      const lines = this.formatReminderLines(event);
+
+      // Reminders usually fire outside the 24-hour window, where only template messages are delivered
+      const withinWindow = logContext
+        ? await isWithinFreeMessageWindow(logContext.db, logContext.whatsappNumberId)
+        : true;
+
+      const response = withinWindow
+        ? await this.whatsapp.sendTextMessage(phone, lines.join('\n'))
+        : await this.whatsapp.sendMessage(phone, lines.join(' | '));
+
+      await this.logOutgoingMessage(response, withinWindow ? 'text' : 'template', logContext);
+
+      logger.info({ phone, eventId: event.id, minutesBefore, withinWindow }, 'Event reminder sent');
+      metrics.increment('event.reminder_sent', { channel: withinWindow ? 'text' : 'template' });
+
+      return { messageId: response.messages?.[0]?.id ?? null };
+    } catch (error) {
+      logger.error({ error, phone, eventId: event.id }, 'Failed to send event reminder');
+      throw error;
+    }
+  }
+
+  /**
+   * Send the daily agenda digest. Throws so the digest job can retry.
+   */
+  async sendDailyDigest(
+    phone: string,
+    events: CalendarEvent[],
+    options: DailyDigestOptions,
+    logContext?: MessageLogContext
+  ): Promise<{ messageId?: string | null }> {
+    try {
+      const lines = this.formatDigestLines(events, options);
+
+      // Digests go out at a fixed time, often outside the 24-hour window
+      const withinWindow = logContext
+        ? await isWithinFreeMessageWindow(logContext.db, logContext.whatsappNumberId)
+        : true;
+
+      // Template parameters can't contain newlines
+      const response = withinWindow
+        ? await this.whatsapp.sendTextMessage(phone, lines.join('\n'))
+        : await this.whatsapp.sendMessage(phone, lines.filter(Boolean).join(' | '));
+
+      await this.logOutgoingMessage(response, withinWindow ? 'text' : 'template', logContext);
+
+      logger.info(
+        { phone, date: options.date, eventCount: events.length, withinWindow },
+        'Daily digest sent'
+      );
+      metrics.increment('digest.sent', { channel: withinWindow ? 'text' : 'template' });
+
+      return { messageId: response.messages?.[0]?.id ?? null };
+    } catch (error) {
+      logger.error({ error, phone, date: options.date }, 'Failed to send daily digest');
+      throw error;
+    }
+  }
+
   async sendClarificationReminder(
     phone: string,
     pendingFields: string[]
@@ -349,7 +831,7 @@ export class NotificationService {
     let details = `📅 ${intent.title || 'Untitled Event'}`;
 
     if (intent.startDate) {
-      const startDate = new Date(intent.startDate);
+      const startDate = zonedTimeToUtc(intent.startDate, intent.startTime, this.timeZone);
       details += `\n🗓 ${this.formatDate(startDate)}`;
 
       if (intent.startTime) {
@@ -394,6 +876,10 @@ export class NotificationService {
     message += `📅 ${event.title}\n`;
     message += `🕐 ${formattedDate} at ${formattedTime}`;
 
+    if (intent.recurrence) {
+      message += `\n🔁 ${this.formatRecurrence(intent.recurrence)}`;
+    }
+
     if (intent.attendees && intent.attendees.length > 0) {
       message += `\n👥 Attendees: ${intent.attendees.join(', ')}`;
     }
@@ -402,6 +888,14 @@ export class NotificationService {
       message += `\n📍 ${intent.location}`;
     }
 
+    if (event.meetingUrl) {
+      message += `\n🎥 Join: ${event.meetingUrl}`;
+    }
+
+    if (event.reminderMinutes !== undefined) {
+      message += `\n⏰ ${this.formatEventReminder(event)}`;
+    }
+
     // Add calendar link if available
     const link = event.htmlLink || event.webLink;
     if (link) {
@@ -423,6 +917,14 @@ export class NotificationService {
       message += `\n📍 ${intent.location}`;
     }
 
+    if (event.meetingUrl) {
+      message += `\n🎥 Join: ${event.meetingUrl}`;
+    }
+
+    if (event.reminderMinutes !== undefined) {
+      message += `\n⏰ ${this.formatEventReminder(event)}`;
+    }
+
     const link = event.htmlLink || event.webLink;
     if (link) {
       message += `\n\n🔗 View event: ${link}`;
@@ -431,24 +933,369 @@ export class NotificationService {
     return message;
   }
 
-  private formatDeleteMessage(event: CalendarEvent, intent: CalendarIntent): string {
+  private formatBatchMessage(changes: BatchChange[]): string {
+    const labels = {
+      CREATE: '📅',
+      UPDATE: '✏️ Updated:',
+      DELETE: '🗑️ Deleted:',
+    };
+
+    const items = changes.map((change, index) => {
+      let item = `${index + 1}. ${labels[change.action]} ${change.title}`;
+
+      item += change.allDay
+        ? `\n    🗓 ${this.formatDate(change.start)}`
+        : `\n    🕐 ${this.formatDate(change.start)} at ${this.formatTime(change.start)}`;
+
+      return item;
+    });
+
+    return `✅ All done! Here's what I changed:\n\n${items.join('\n\n')}`;
+  }
+
+  private formatImportPreview(events: ICalendarEvent[]): string {
+    const items = events.slice(0, MAX_IMPORT_EVENTS_LISTED).map((event, index) => {
+      let item = `${index + 1}. ${event.title.substring(0, 60)}`;
+
+      item += event.allDay
+        ? `\n    🗓 ${this.formatDate(event.start)}`
+        : `\n    🕐 ${this.formatDate(event.start)} at ${this.formatTime(event.start)}`;
+
+      if (event.recurrence) {
+        item += `\n    🔁 ${this.formatRecurrence({
+          ...event.recurrence,
+          until: event.recurrence.until
+            ? formatDateToLocalIso(event.recurrence.until, this.timeZone).slice(0, 10)
+            : undefined,
+        })}`;
+      }
+
+      if (event.attendees?.length) {
+        const count = event.attendees.length;
+        item += `\n    👥 ${count} guest${count === 1 ? '' : 's'}`;
+      }
+
+      return item;
+    });
+
+    const hidden = events.length - items.length;
+    if (hidden > 0) {
+      items.push(`…and ${hidden} more`);
+    }
+
+    const heading = events.length === 1
+      ? '📨 This invite has 1 event:'
+      : `📨 This invite has ${events.length} events:`;
+    const hasGuests = events.some((event) => event.attendees?.length);
+
+    return `${heading}\n\n${items.join('\n\n')}\n\n${hasGuests ? "Guests won't be invited again; I'll list them in the event notes. " : ''}Add ${events.length === 1 ? 'it' : 'them'} to your calendar?`;
+  }
+
+  private formatImportMessage(events: ImportedEvent[], failedCount: number): string {
+    const items = events.map((event, index) => {
+      let item = `${index + 1}. 📅 ${event.title}`;
+
+      item += event.allDay
+        ? `\n    🗓 ${this.formatDate(event.start)}`
+        : `\n    🕐 ${this.formatDate(event.start)} at ${this.formatTime(event.start)}`;
+
+      return item;
+    });
+
+    let message = `✅ Added to your calendar:\n\n${items.join('\n\n')}`;
+
+    if (failedCount > 0) {
+      message += `\n\n⚠️ ${failedCount} event${failedCount === 1 ? '' : 's'} couldn't be added. Please add ${failedCount === 1 ? 'it' : 'them'} in your calendar app.`;
+    }
+
+    return message;
+  }
+
+  private formatCorrectionMessage(event: CalendarEvent, changedFields: string[]): string {
+    const formattedDate = this.formatDate(event.start);
+    const formattedTime = this.formatTime(event.start);
+    const changed = changedFields.map((field) => CORRECTION_FIELD_LABELS[field] ?? field);
+
+    let message = '✅ Fixed!\n\n';
+    message += `📅 ${event.title}\n`;
+    message += `🕐 ${formattedDate} at ${formattedTime}`;
+
+    if (event.location) {
+      message += `\n📍 ${event.location}`;
+    }
+
+    message += `\n\nChanged: ${changed.join(', ')}`;
+
+    const link = event.htmlLink || event.webLink;
+    if (link) {
+      message += `\n\n🔗 View event: ${link}`;
+    }
+
+    return message;
+  }
+
+  private formatDeleteMessage(event: CalendarEvent, intent: CalendarIntent, canUndo = false): string {
     let message = `🗑️ Event deleted.\n\n`;
     message += `📅 ${event.title}`;
 
     if (intent.startDate) {
-      const date = new Date(intent.startDate);
+      const date = zonedTimeToUtc(intent.startDate, intent.startTime, this.timeZone);
       message += `\n🗓 ${this.formatDate(date)}`;
 
       if (intent.startTime) {
-        const iso = `${intent.startDate}T${intent.startTime}:00+02:00`;
-        message += ` at ${this.formatTime(new Date(iso))}`;
+        message += ` at ${this.formatTime(date)}`;
       }
     }
 
-    message += `\n\nIf this was a mistake, let me know and I can help recreate it.`;
+    if (!canUndo) {
+      message += `\n\nIf this was a mistake, let me know and I can help recreate it.`;
+    }
+
+    return message;
+  }
+
+  private formatUndoMessage(
+    action: 'CREATE' | 'UPDATE' | 'DELETE',
+    event: UndoneEvent
+  ): string {
+    const headings = {
+      CREATE: '↩️ Undone. I removed this event:',
+      UPDATE: '↩️ Undone. The event is back to how it was:',
+      DELETE: '↩️ Undone. The event is back in your calendar:',
+    };
+
+    let message = `${headings[action]}\n\n`;
+    message += `📅 ${event.title}`;
+
+    if (event.start) {
+      message += event.allDay
+        ? `\n🗓 ${this.formatDate(event.start)}`
+        : `\n🕐 ${this.formatDate(event.start)} at ${this.formatTime(event.start)}`;
+    }
+
+    if (action === 'DELETE' && event.attendees?.length) {
+      const count = event.attendees.length;
+      message += `\n👥 ${count} attendee${count === 1 ? '' : 's'} invited again`;
+    }
+
     return message;
   }
 
+  private formatReminderLines(event: CalendarEvent): string[] {
+    const minutesUntilStart = Math.round((event.start.getTime() - Date.now()) / 60000);
+    const startsIn = minutesUntilStart > 0 ? `in ${this.formatDuration(minutesUntilStart)}` : 'now';
+
+    const lines = [
+      `⏰ Reminder: ${event.title} starts ${startsIn}`,
+      `🕐 ${this.formatTime(event.start)} - ${this.formatTime(event.end)}`,
+    ];
+
+    if (event.location) {
+      lines.push(`📍 ${event.location}`);
+    }
+
+    const link = event.htmlLink || event.webLink;
+    if (link) {
+      lines.push(`🔗 ${link}`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Agenda lines: all-day events first, then timed events with overlaps flagged and
+   * longer gaps between them called out as free time
+   */
+  private formatDigestLines(events: CalendarEvent[], options: DailyDigestOptions): string[] {
+    const lines = [`☀️ Your agenda for ${this.formatLocalDate(options.date, options.dateFormat)}`];
+
+    if (events.length === 0) {
+      lines.push('', 'Nothing on your calendar today 🎉');
+      return lines;
+    }
+
+    const allDay = events.filter((event) => event.allDay);
+    const timed = events
+      .filter((event) => !event.allDay)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    lines.push(`You have ${events.length} event${events.length !== 1 ? 's' : ''} today.`, '');
+
+    for (const event of allDay) {
+      lines.push(`🗓️ All day: ${event.title}`);
+    }
+
+    let busyUntil: Date | null = null;
+
+    for (const event of timed) {
+      if (busyUntil) {
+        const gapMinutes = Math.round((event.start.getTime() - busyUntil.getTime()) / 60000);
+
+        if (gapMinutes >= DIGEST_MIN_GAP_MINUTES) {
+          lines.push(
+            `🟢 Free ${this.formatClock(busyUntil, options.timeFormat)} - ${this.formatClock(event.start, options.timeFormat)} (${this.formatDuration(gapMinutes)})`
+          );
+        }
+      }
+
+      // Events carried over from yesterday show when they end rather than a misleading start time
+      const startsToday = formatDateToLocalIso(event.start, this.timeZone).slice(0, 10) >= options.date;
+      const end = this.formatClock(event.end, options.timeFormat);
+      const range = startsToday ? `${this.formatClock(event.start, options.timeFormat)} - ${end}` : `Until ${end}`;
+
+      let line = `• ${range} ${event.title}`;
+      if (event.location) {
+        line += ` 📍 ${event.location}`;
+      }
+      lines.push(line);
+
+      const clashes = timed.filter(
+        (other) => other !== event && other.start < event.end && other.end > event.start
+      );
+
+      if (clashes.length > 0) {
+        lines.push(`   ⚠️ Overlaps with ${clashes.map((other) => other.title).join(', ')}`);
+      }
+
+      if (!busyUntil || event.end > busyUntil) {
+        busyUntil = event.end;
+      }
+    }
+
+    return lines;
+  }
+
+  private formatQueryLines(
+    events: CalendarEvent[],
+    summary: CalendarQuerySummary,
+    format: DisplayFormatOptions
+  ): string[] {
+    const singleDay = summary.startDate === summary.endDate;
+    const range = singleDay
+      ? `on ${this.formatLocalDate(summary.startDate, format.dateFormat)}`
+      : `from ${this.formatLocalDate(summary.startDate, format.dateFormat)} to ${this.formatLocalDate(summary.endDate, format.dateFormat)}`;
+    const window = summary.timeWindow
+      ? ` between ${this.formatLocalClock(summary.startDate, summary.timeWindow.start, format.timeFormat)} and ${this.formatLocalClock(summary.startDate, summary.timeWindow.end, format.timeFormat)}`
+      : '';
+    const filters = `${summary.attendee ? ` with ${summary.attendee}` : ''}${summary.keyword ? ` matching "${summary.keyword}"` : ''}`;
+    const count = `${summary.truncated ? 'at least ' : ''}${events.length} event${events.length !== 1 ? 's' : ''}`;
+    const truncatedNote = '⚠️ Your calendar has more events in that period than I could check, so this may be incomplete.';
+
+    if (summary.type === 'count') {
+      const lines = [`📊 You have ${count}${filters} ${range}${window}.`];
+      if (summary.truncated) {
+        lines.push(truncatedNote);
+      }
+      return lines;
+    }
+
+    if (summary.type === 'free_time') {
+      if (events.length === 0) {
+        return [`✅ Yes, you're free ${range}${window}.`];
+      }
+
+      const lines = [`📅 You have ${count} ${range}${window}:`];
+      lines.push(...this.formatQueryEventLines(events, singleDay, format));
+      if (summary.truncated) {
+        lines.push('', truncatedNote);
+      }
+      lines.push('');
+
+      if (summary.freeTime.length === 0) {
+        lines.push('❌ No free time left in that period.');
+        return lines;
+      }
+
+      lines.push('🟢 Free time:');
+      for (const slot of summary.freeTime) {
+        const day = singleDay ? '' : `${this.formatLocalDate(formatDateToLocalIso(slot.start, this.timeZone).slice(0, 10), format.dateFormat)}: `;
+        lines.push(`• ${day}${this.formatClock(slot.start, format.timeFormat)} - ${this.formatClock(slot.end, format.timeFormat)}`);
+      }
+      return lines;
+    }
+
+    if (events.length === 0) {
+      return [`📭 Nothing on your calendar${filters} ${range}${window}.`];
+    }
+
+    const lines = [`📅 You have ${count}${filters} ${range}${window}:`, ...this.formatQueryEventLines(events, singleDay, format)];
+    if (summary.truncated) {
+      lines.push('', truncatedNote);
+    }
+    return lines;
+  }
+
+  /**
+   * Event lines grouped under a date heading per day when the answer covers several days
+   */
+  private formatQueryEventLines(events: CalendarEvent[], singleDay: boolean, format: DisplayFormatOptions): string[] {
+    const lines: string[] = [];
+    let currentDate: string | null = null;
+
+    for (const event of events.slice(0, MAX_QUERY_EVENTS_LISTED)) {
+      const date = event.allDay
+        ? event.start.toISOString().slice(0, 10)
+        : formatDateToLocalIso(event.start, this.timeZone).slice(0, 10);
+
+      if (!singleDay && date !== currentDate) {
+        lines.push('', `*${this.formatLocalDate(date, format.dateFormat)}*`);
+        currentDate = date;
+      }
+
+      let line = event.allDay
+        ? `• All day: ${event.title}`
+        : `• ${this.formatClock(event.start, format.timeFormat)} - ${this.formatClock(event.end, format.timeFormat)} ${event.title}`;
+      if (event.location) {
+        line += ` 📍 ${event.location}`;
+      }
+      lines.push(line);
+    }
+
+    if (events.length > MAX_QUERY_EVENTS_LISTED) {
+      lines.push(`…and ${events.length - MAX_QUERY_EVENTS_LISTED} more`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Format a local calendar date using the user's date format, e.g. "Monday, 19/10/2026"
+   */
+  private formatLocalDate(date: string, dateFormat: DisplayFormatOptions['dateFormat']): string {
+    const [year, month, day] = date.split('-');
+    const weekday = new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', {
+      weekday: 'long',
+      timeZone: 'UTC',
+    });
+
+    const formatted = {
+      'DD/MM/YYYY': `${day}/${month}/${year}`,
+      'MM/DD/YYYY': `${month}/${day}/${year}`,
+      'YYYY-MM-DD': date,
+    }[dateFormat];
+
+    return `${weekday}, ${formatted}`;
+  }
+
+  /**
+   * Format time in the user's timezone using their 12h/24h preference
+   */
+  private formatClock(date: Date, timeFormat: DisplayFormatOptions['timeFormat']): string {
+    return date.toLocaleTimeString('en-US', {
+      hour: timeFormat === '12h' ? 'numeric' : '2-digit',
+      minute: '2-digit',
+      hourCycle: timeFormat === '12h' ? 'h12' : 'h23',
+      timeZone: this.timeZone,
+    });
+  }
+
+  /**
+   * Format an HH:mm wall-clock time on a local date using the user's 12h/24h preference
+   */
+  private formatLocalClock(date: string, time: string, timeFormat: DisplayFormatOptions['timeFormat']): string {
+    return this.formatClock(zonedTimeToUtc(date, time, this.timeZone), timeFormat);
+  }
+
   /**
    * Format date in user-friendly format
    */
@@ -458,23 +1305,71 @@ export class NotificationService {
       year: 'numeric',
       month: 'long',
       day: 'numeric',
+      timeZone: this.timeZone,
     };
     return date.toLocaleDateString('en-US', options);
   }
 
   /**
-   * Format time in user-friendly format (GMT+2 / Africa/Johannesburg)
+   * Format time in user-friendly format in the user's timezone
    */
   private formatTime(date: Date): string {
     const options: Intl.DateTimeFormatOptions = {
       hour: 'numeric',
       minute: '2-digit',
       hour12: true,
-      timeZone: 'Africa/Johannesburg', // GMT+2
+      timeZone: this.timeZone,
     };
     return date.toLocaleTimeString('en-US', options);
   }
 
+  /**
+   * Format recurrence, e.g. "Repeats every 2 weeks on TU, TH until 2025-12-31"
+   */
+  private formatRecurrence(recurrence: NonNullable<CalendarIntent['recurrence']>): string {
+    const units = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' } as const;
+    const unit = units[recurrence.frequency];
+    const interval = recurrence.interval ?? 1;
+
+    let text = interval > 1 ? `Repeats every ${interval} ${unit}s` : `Repeats every ${unit}`;
+
+    if (recurrence.byDay?.length) {
+      text += ` on ${recurrence.byDay.join(', ')}`;
+    }
+
+    if (recurrence.count) {
+      text += ` (${recurrence.count} times)`;
+    } else if (recurrence.until) {
+      text += ` until ${recurrence.until}`;
+    }
+
+    return text;
+  }
+
+  /**
+   * "Reminder 1 hour before" for lead times, the date and time for a reminder set on an earlier day
+   */
+  private formatEventReminder(event: CalendarEvent): string {
+    const minutes = event.reminderMinutes ?? 0;
+
+    if (minutes === 0) {
+      return 'Reminder when it starts';
+    }
+
+    if (minutes % (24 * 60) === 0) {
+      const days = minutes / (24 * 60);
+      return `Reminder ${days} day${days !== 1 ? 's' : ''} before`;
+    }
+
+    const remindAt = new Date(event.start.getTime() - minutes * 60 * 1000);
+
+    if (this.formatDate(remindAt) === this.formatDate(event.start)) {
+      return `Reminder ${this.formatDuration(minutes)} before`;
+    }
+
+    return `Reminder ${this.formatDate(remindAt)} at ${this.formatTime(remindAt)}`;
+  }
+
   /**
    * Format duration in user-friendly format
    * Input is in minutes
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { getDunningStep } from './dunning';
+
+const pastDueSince = new Date('2025-03-01T10:00:00Z');
+
+function daysLater(days: number, hours = 0): Date {
+  return new Date(pastDueSince.getTime() + (days * 24 + hours) * 60 * 60 * 1000);
+}
+
+describe('getDunningStep', () => {
+  test('sends the first reminder on the day the renewal fails', () => {
+    expect(getDunningStep(pastDueSince, 0, daysLater(0, 1))).toEqual({
+      action: 'remind',
+      daysPastDue: 0,
+      reminderNumber: 1,
+      isFinal: false,
+      pausesAt: daysLater(7),
+    });
+  });
+
+  test('waits between reminder days', () => {
+    expect(getDunningStep(pastDueSince, 1, daysLater(2, 23)).action).toBe('none');
+  });
+
+  test('sends the second reminder on day three', () => {
+    const step = getDunningStep(pastDueSince, 1, daysLater(3));
+    expect(step).toMatchObject({ action: 'remind', reminderNumber: 2, isFinal: false });
+  });
+
+  test('marks the reminder on day six as the last one', () => {
+    const step = getDunningStep(pastDueSince, 2, daysLater(6));
+    expect(step).toMatchObject({ action: 'remind', reminderNumber: 3, isFinal: true });
+  });
+
+  test('catches up missed reminder days with a single reminder', () => {
+    const step = getDunningStep(pastDueSince, 0, daysLater(6, 5));
+    expect(step).toMatchObject({ action: 'remind', reminderNumber: 3, isFinal: true });
+  });
+
+  test('does nothing once every reminder has been sent', () => {
+    expect(getDunningStep(pastDueSince, 3, daysLater(6, 20)).action).toBe('none');
+  });
+
+  test('pauses the subscription after the grace period', () => {
+    expect(getDunningStep(pastDueSince, 3, daysLater(7))).toEqual({ action: 'pause', daysPastDue: 7 });
+    expect(getDunningStep(pastDueSince, 0, daysLater(12)).action).toBe('pause');
+  });
+});
@@ -0,0 +1,36 @@
+// Dunning steps - decides what a failed PayFast renewal is due for on a given day
+
+import { DUNNING_GRACE_PERIOD_DAYS, DUNNING_REMINDER_DAYS } from '../config/queues';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DunningStep =
+  | { action: 'pause'; daysPastDue: number }
+  | { action: 'remind'; daysPastDue: number; reminderNumber: number; isFinal: boolean; pausesAt: Date }
+  | { action: 'none'; daysPastDue: number };
+
+/**
+ * The next step for a subscription that has been past due since pastDueSince, given how many
+ * reminders it has already been sent. Missed reminder days are caught up with a single reminder.
+ */
+export function getDunningStep(pastDueSince: Date, remindersSent: number, now: Date): DunningStep {
+  const daysPastDue = Math.floor((now.getTime() - pastDueSince.getTime()) / DAY_MS);
+
+  if (daysPastDue >= DUNNING_GRACE_PERIOD_DAYS) {
+    return { action: 'pause', daysPastDue };
+  }
+
+  const reminderNumber = DUNNING_REMINDER_DAYS.filter((days) => daysPastDue >= days).length;
+
+  if (reminderNumber <= remindersSent) {
+    return { action: 'none', daysPastDue };
+  }
+
+  return {
+    action: 'remind',
+    daysPastDue,
+    reminderNumber,
+    isFinal: reminderNumber === DUNNING_REMINDER_DAYS.length,
+    pausesAt: new Date(pastDueSince.getTime() + DUNNING_GRACE_PERIOD_DAYS * DAY_MS),
+  };
+}
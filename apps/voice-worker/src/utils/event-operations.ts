@@ -0,0 +1,58 @@
+import type { Database } from '@imaginecalendar/database/client';
+import { recordEventOperation, type EventOperationSnapshot } from '@imaginecalendar/database/queries';
+import { toRRule } from '@imaginecalendar/calendar-integrations/recurrence';
+import { logger } from '@imaginecalendar/logger';
+import type { CalendarEvent, CalendarOperationResult } from '../services/calendar-service';
+
+function toEventSnapshot(event: CalendarEvent): EventOperationSnapshot {
+  return {
+    title: event.title,
+    description: event.description,
+    start: event.start.toISOString(),
+    end: event.end.toISOString(),
+    allDay: event.allDay,
+    location: event.location,
+    attendees: event.attendees ?? [],
+    reminderMinutes: event.reminderMinutes,
+    recurrence: event.recurrence ? toRRule(event.recurrence, event.allDay) : null,
+  };
+}
+
+/**
+ * Log a calendar change so the user can undo it from WhatsApp. Returns nothing when the change
+ * can't be undone (its previous state couldn't be read) or logging fails, which never fails the job.
+ */
+export async function recordUndoableOperation(
+  db: Database,
+  voiceJob: { id: string; userId: string; whatsappNumberId: string },
+  result: CalendarOperationResult
+): Promise<string | undefined> {
+  const { action, event, previousEvent, calendarConnectionId } = result;
+
+  if (action === 'QUERY' || !event || !calendarConnectionId) {
+    return undefined;
+  }
+
+  if (action !== 'CREATE' && !previousEvent) {
+    logger.info({ voiceJobId: voiceJob.id, action }, 'Previous event state unknown, change cannot be undone');
+    return undefined;
+  }
+
+  try {
+    const operation = await recordEventOperation(db, {
+      voiceJobId: voiceJob.id,
+      userId: voiceJob.userId,
+      whatsappNumberId: voiceJob.whatsappNumberId,
+      action,
+      calendarConnectionId,
+      eventId: event.id,
+      eventTitle: event.title,
+      previousState: previousEvent ? toEventSnapshot(previousEvent) : null,
+    });
+
+    return operation?.id;
+  } catch (error) {
+    logger.warn({ error, voiceJobId: voiceJob.id, action }, 'Failed to record event operation for undo');
+    return undefined;
+  }
+}
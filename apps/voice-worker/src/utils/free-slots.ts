@@ -0,0 +1,167 @@
+// Free slot finder - turns busy blocks into candidate meeting times
+
+import { zonedTimeToUtc } from '@imaginecalendar/ai-services';
+
+export type PartOfDay = 'morning' | 'afternoon' | 'evening';
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface FindFreeSlotsOptions {
+  busy: TimeSlot[];
+  startDate: string; // YYYY-MM-DD in the user's timezone
+  endDate: string; // YYYY-MM-DD in the user's timezone, inclusive
+  durationMinutes: number;
+  timeZone: string;
+  workingHours: { start: string; end: string }; // HH:mm
+  partOfDay?: PartOfDay | null;
+  now?: Date;
+  limit?: number;
+}
+
+// An explicit part of day overrides working hours ("in the evening" is usually after work)
+export const PART_OF_DAY_HOURS: Record<PartOfDay, { start: string; end: string }> = {
+  morning: { start: '08:00', end: '12:00' },
+  afternoon: { start: '12:00', end: '17:00' },
+  evening: { start: '17:00', end: '21:00' },
+};
+
+const SLOT_STEP_MINUTES = 30;
+const MIN_GAP_BETWEEN_SUGGESTIONS_MS = 2 * 60 * 60 * 1000;
+const MAX_SEARCH_DAYS = 31;
+
+/**
+ * Find the earliest free slots in the range, spread across different days where possible
+ */
+export function findFreeSlots(options: FindFreeSlotsOptions): TimeSlot[] {
+  const limit = options.limit ?? 3;
+  const now = options.now ?? new Date();
+  const durationMs = options.durationMinutes * 60 * 1000;
+  const stepMs = SLOT_STEP_MINUTES * 60 * 1000;
+  const hours = options.partOfDay ? PART_OF_DAY_HOURS[options.partOfDay] : options.workingHours;
+
+  const dates = listDates(options.startDate, options.endDate);
+  // Only skip weekends when the user didn't ask for a weekend specifically
+  const hasWeekday = dates.some((date) => !isWeekend(date));
+
+  const slotsByDay: TimeSlot[][] = [];
+
+  for (const date of dates) {
+    if (hasWeekday && isWeekend(date)) {
+      continue;
+    }
+
+    const dayStart = zonedTimeToUtc(date, hours.start, options.timeZone).getTime();
+    const dayEnd = zonedTimeToUtc(date, hours.end, options.timeZone).getTime();
+
+    // Stay on the step grid and never suggest a time that has already passed
+    let cursor = dayStart;
+    if (cursor < now.getTime()) {
+      cursor = dayStart + Math.ceil((now.getTime() - dayStart) / stepMs) * stepMs;
+    }
+
+    const daySlots: TimeSlot[] = [];
+
+    for (; cursor + durationMs <= dayEnd; cursor += stepMs) {
+      const start = new Date(cursor);
+      const end = new Date(cursor + durationMs);
+      const clashes = options.busy.some((block) => block.start < end && block.end > start);
+
+      if (!clashes) {
+        daySlots.push({ start, end });
+      }
+    }
+
+    if (daySlots.length > 0) {
+      slotsByDay.push(daySlots);
+    }
+  }
+
+  // First pass: earliest slot of each day. Later passes: fill up from days already used,
+  // keeping suggestions far enough apart to be real alternatives.
+  const suggestions: TimeSlot[] = [];
+
+  for (const daySlots of slotsByDay) {
+    if (suggestions.length >= limit) break;
+    suggestions.push(daySlots[0]!);
+  }
+
+  for (const daySlots of slotsByDay) {
+    for (const slot of daySlots) {
+      if (suggestions.length >= limit) break;
+
+      const tooClose = suggestions.some(
+        (chosen) => Math.abs(chosen.start.getTime() - slot.start.getTime()) < MIN_GAP_BETWEEN_SUGGESTIONS_MS
+      );
+
+      if (!tooClose) {
+        suggestions.push(slot);
+      }
+    }
+  }
+
+  return suggestions.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Free time between busy blocks within the given hours of each day, e.g. for "am I free Friday afternoon?"
+ */
+export function findFreeWindows(options: {
+  busy: TimeSlot[];
+  startDate: string; // YYYY-MM-DD in the user's timezone
+  endDate: string; // YYYY-MM-DD in the user's timezone, inclusive
+  timeZone: string;
+  hours: { start: string; end: string }; // HH:mm
+  now?: Date;
+}): TimeSlot[] {
+  const now = options.now ?? new Date();
+  const busy = [...options.busy].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const windows: TimeSlot[] = [];
+
+  for (const date of listDates(options.startDate, options.endDate)) {
+    const dayEnd = zonedTimeToUtc(date, options.hours.end, options.timeZone);
+    let cursor = zonedTimeToUtc(date, options.hours.start, options.timeZone);
+
+    // Time that has already passed today isn't free time anymore
+    if (cursor < now) {
+      cursor = now;
+    }
+
+    for (const block of busy) {
+      if (cursor >= dayEnd) break;
+      if (block.end <= cursor || block.start >= dayEnd) continue;
+
+      if (block.start > cursor) {
+        windows.push({ start: cursor, end: block.start });
+      }
+
+      cursor = block.end > cursor ? block.end : cursor;
+    }
+
+    if (cursor < dayEnd) {
+      windows.push({ start: cursor, end: dayEnd });
+    }
+  }
+
+  return windows;
+}
+
+function listDates(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const cursor = new Date(`${startDate}T00:00:00Z`);
+  const last = new Date(`${endDate}T00:00:00Z`);
+
+  while (cursor <= last && dates.length < MAX_SEARCH_DAYS) {
+    dates.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+function isWeekend(date: string): boolean {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday === 0 || weekday === 6;
+}
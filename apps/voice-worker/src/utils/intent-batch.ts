@@ -0,0 +1,115 @@
+import type { Database } from '@imaginecalendar/database/client';
+import {
+  getVoiceMessageJob,
+  settleVoiceMessageJobBatch,
+  type VoiceJobOutcome,
+} from '@imaginecalendar/database/queries';
+import { logger } from '@imaginecalendar/logger';
+import { CalendarService } from '../services/calendar-service';
+import { NotificationService } from '../services/notification';
+
+type BatchVoiceJob = {
+  id: string;
+  userId: string;
+  whatsappNumberId: string;
+  senderPhone: string;
+  parentJobId: string | null;
+};
+
+type BatchChildJob = Awaited<ReturnType<typeof settleVoiceMessageJobBatch>>['children'][number];
+
+/**
+ * Hold a child job's confirmation for the combined one of its multi-request message. Returns false
+ * when the job isn't part of one or the combined confirmation already went out, so the caller confirms
+ * the change on its own as usual.
+ */
+export async function confirmInBatch(
+  db: Database,
+  voiceJob: BatchVoiceJob,
+  outcome: VoiceJobOutcome
+): Promise<boolean> {
+  if (!voiceJob.parentJobId) {
+    return false;
+  }
+
+  try {
+    const batch = await settleVoiceMessageJobBatch(db, voiceJob.parentJobId, {
+      jobId: voiceJob.id,
+      outcome,
+    });
+
+    if (batch.state === 'closed') {
+      return false;
+    }
+
+    if (batch.state === 'complete') {
+      await sendBatchConfirmation(db, voiceJob, batch.children);
+    }
+
+    return true;
+  } catch (error) {
+    logger.warn(
+      { error, voiceJobId: voiceJob.id, parentJobId: voiceJob.parentJobId },
+      'Failed to settle multi-request message, confirming the change on its own'
+    );
+    return false;
+  }
+}
+
+/**
+ * Send the combined confirmation if this child job was the last one its siblings were waiting for,
+ * for jobs that stopped without a change to list (failed, asked a question or answered a query)
+ */
+export async function settleBatchChild(db: Database, voiceJobId: string): Promise<void> {
+  try {
+    const voiceJob = await getVoiceMessageJob(db, voiceJobId);
+
+    if (!voiceJob?.parentJobId) {
+      return;
+    }
+
+    const batch = await settleVoiceMessageJobBatch(db, voiceJob.parentJobId);
+
+    if (batch.state === 'complete') {
+      await sendBatchConfirmation(db, voiceJob, batch.children);
+    }
+  } catch (error) {
+    logger.warn({ error, voiceJobId }, 'Failed to settle multi-request message');
+  }
+}
+
+async function sendBatchConfirmation(
+  db: Database,
+  voiceJob: BatchVoiceJob,
+  children: BatchChildJob[]
+): Promise<void> {
+  const changes = children
+    .filter((child) => child.outcome)
+    .map((child) => {
+      const outcome = child.outcome as VoiceJobOutcome;
+
+      return {
+        voiceJobId: child.id,
+        action: outcome.action,
+        title: outcome.title,
+        start: new Date(outcome.start),
+        allDay: outcome.allDay,
+        operationId: outcome.operationId,
+      };
+    });
+
+  // Failures and questions were already sent for each request, so there may be nothing left to confirm
+  if (!changes.length) {
+    logger.info({ parentJobId: voiceJob.parentJobId }, 'No calendar changes to confirm for multi-request message');
+    return;
+  }
+
+  const timezone = await new CalendarService(db).getUserTimezone(voiceJob.userId);
+  const notificationService = new NotificationService(timezone);
+
+  await notificationService.sendBatchSuccess(voiceJob.senderPhone, changes, {
+    db,
+    whatsappNumberId: voiceJob.whatsappNumberId,
+    userId: voiceJob.userId,
+  });
+}
@@ -6,6 +6,9 @@ import { logger } from '@imaginecalendar/logger';
 import {
   QUEUE_NAMES,
   JOB_OPTIONS,
+  EVENT_REMINDER_POLL_INTERVAL_MS,
+  DAILY_DIGEST_POLL_INTERVAL_MS,
+  BILLING_POLL_INTERVAL_MS,
   type DownloadAudioJobData,
   type TranscribeAudioJobData,
   type AnalyzeIntentJobData,
@@ -13,8 +16,14 @@ import {
   type CreateEventJobData,
   type UpdateEventJobData,
   type DeleteEventJobData,
+  type QueryEventsJobData,
   type ClarificationWatchdogJobData,
   type SendNotificationJobData,
+  type EventReminderSchedulerJobData,
+  type SendEventReminderJobData,
+  type DailyDigestSchedulerJobData,
+  type SendDailyDigestJobData,
+  type BillingSchedulerJobData,
 } from '../config/queues';
 
 export class QueueManager {
@@ -39,6 +48,18 @@ export class QueueManager {
       if (queueName === QUEUE_NAMES.CLARIFICATION_WATCHDOG) {
         await this.ensureClarificationWatchdog(queue);
       }
+
+      if (queueName === QUEUE_NAMES.EVENT_REMINDER_SCHEDULER) {
+        await this.ensureEventReminderScheduler(queue);
+      }
+
+      if (queueName === QUEUE_NAMES.DAILY_DIGEST_SCHEDULER) {
+        await this.ensureDailyDigestScheduler(queue);
+      }
+
+      if (queueName === QUEUE_NAMES.BILLING_SCHEDULER) {
+        await this.ensureBillingScheduler(queue);
+      }
     }
   }
 
@@ -124,6 +145,14 @@ export class QueueManager {
     logger.info({ voiceJobId: data.voiceJobId }, 'Enqueued delete event job');
   }
 
+  async enqueueQueryEvents(data: QueryEventsJobData): Promise<void> {
+    const queue = this.getQueue(QUEUE_NAMES.QUERY_EVENTS);
+    await queue.add('query-events', data, {
+      jobId: `query-${data.voiceJobId}`,
+    });
+    logger.info({ voiceJobId: data.voiceJobId }, 'Enqueued query events job');
+  }
+
   /**
    * Schedule clarification watchdog job (runs every minute)
    */
@@ -144,6 +173,92 @@ export class QueueManager {
     }
   }
 
+  /**
+   * Schedule event reminder scheduler job (polls calendars every few minutes)
+   */
+  private async ensureEventReminderScheduler(queue: Queue): Promise<void> {
+    const existing = await queue.getRepeatableJobs();
+    const hasScheduler = existing.some((job) => job.name === 'event-reminder-scheduler');
+
+    if (!hasScheduler) {
+      await queue.add(
+        'event-reminder-scheduler',
+        { triggeredAt: new Date().toISOString() } satisfies EventReminderSchedulerJobData,
+        {
+          jobId: 'event-reminder-scheduler',
+          repeat: { every: EVENT_REMINDER_POLL_INTERVAL_MS },
+        }
+      );
+      logger.info({}, 'Scheduled event reminder scheduler job');
+    }
+  }
+
+  /**
+   * Enqueue send event reminder job, delayed until the reminder is due
+   */
+  async enqueueSendEventReminder(data: SendEventReminderJobData, delayMs: number): Promise<void> {
+    const queue = this.getQueue(QUEUE_NAMES.SEND_EVENT_REMINDER);
+    await queue.add('send-event-reminder', data, {
+      jobId: `reminder-${data.eventReminderId}`,
+      delay: Math.max(0, delayMs),
+    });
+    logger.info(
+      { eventReminderId: data.eventReminderId, eventId: data.event.id, delayMs },
+      'Enqueued send event reminder job'
+    );
+  }
+
+  /**
+   * Schedule daily digest scheduler job (checks for due digests every few minutes)
+   */
+  private async ensureDailyDigestScheduler(queue: Queue): Promise<void> {
+    const existing = await queue.getRepeatableJobs();
+    const hasScheduler = existing.some((job) => job.name === 'daily-digest-scheduler');
+
+    if (!hasScheduler) {
+      await queue.add(
+        'daily-digest-scheduler',
+        { triggeredAt: new Date().toISOString() } satisfies DailyDigestSchedulerJobData,
+        {
+          jobId: 'daily-digest-scheduler',
+          repeat: { every: DAILY_DIGEST_POLL_INTERVAL_MS },
+        }
+      );
+      logger.info({}, 'Scheduled daily digest scheduler job');
+    }
+  }
+
+  /**
+   * Schedule billing scheduler job (trial reminders, trial expiry and dunning, hourly)
+   */
+  private async ensureBillingScheduler(queue: Queue): Promise<void> {
+    const existing = await queue.getRepeatableJobs();
+    const hasScheduler = existing.some((job) => job.name === 'billing-scheduler');
+
+    if (!hasScheduler) {
+      await queue.add(
+        'billing-scheduler',
+        { triggeredAt: new Date().toISOString() } satisfies BillingSchedulerJobData,
+        {
+          jobId: 'billing-scheduler',
+          repeat: { every: BILLING_POLL_INTERVAL_MS },
+        }
+      );
+      logger.info({}, 'Scheduled billing scheduler job');
+    }
+  }
+
+  /**
+   * Enqueue send daily digest job (one per user per local day)
+   */
+  async enqueueSendDailyDigest(data: SendDailyDigestJobData): Promise<void> {
+    const queue = this.getQueue(QUEUE_NAMES.SEND_DAILY_DIGEST);
+    await queue.add('send-daily-digest', data, {
+      jobId: `digest-${data.userId}-${data.date}`,
+    });
+    logger.info({ userId: data.userId, date: data.date }, 'Enqueued send daily digest job');
+  }
+
   /**
    * Enqueue send notification job
    */
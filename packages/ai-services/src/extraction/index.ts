@@ -0,0 +1,88 @@
+// Reads event details from images and PDFs with a vision-capable model
+
+import { generateObject } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { z } from 'zod';
+import { logger } from '@imaginecalendar/logger';
+import type { MediaExtractionOptions, MediaExtractionResult } from './types';
+
+const DEFAULT_VISION_MODEL = 'gpt-4o-mini';
+
+const mediaExtractionSchema = z.object({
+  hasEventDetails: z.boolean(),
+  text: z.string(),
+});
+
+export class MediaExtractionService {
+  /**
+   * Extract event details from a flyer, invitation, screenshot or notice. The result is written as
+   * the message the user would have typed, so it can go through the normal intent pipeline.
+   */
+  async extract(media: Buffer, options: MediaExtractionOptions): Promise<MediaExtractionResult> {
+    const startTime = Date.now();
+    const modelId = process.env.VISION_MODEL || DEFAULT_VISION_MODEL;
+    const isImage = options.mimeType.startsWith('image/');
+
+    logger.info(
+      { model: modelId, mimeType: options.mimeType, size: media.length, hasCaption: Boolean(options.caption) },
+      'Starting media extraction'
+    );
+
+    const result = await generateObject({
+      model: openai(modelId),
+      schema: mediaExtractionSchema as any,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: mediaExtractionPrompt(isImage ? 'an image' : 'a document', options) },
+            isImage
+              ? { type: 'image', image: media, mediaType: options.mimeType }
+              : { type: 'file', data: media, mediaType: options.mimeType, filename: options.filename },
+          ],
+        },
+      ],
+    });
+
+    const extracted = mediaExtractionSchema.parse(result.object);
+    const text = extracted.text.trim();
+
+    logger.info(
+      {
+        model: modelId,
+        durationMs: Date.now() - startTime,
+        hasEventDetails: extracted.hasEventDetails,
+        textLength: text.length,
+      },
+      'Media extraction completed'
+    );
+
+    return {
+      hasEventDetails: extracted.hasEventDetails && text.length > 0,
+      text,
+      provider: `openai-${modelId}`,
+    };
+  }
+}
+
+function mediaExtractionPrompt(kind: string, options: MediaExtractionOptions): string {
+  const caption = options.caption?.trim();
+  const captionSection = caption
+    ? `\n### User Caption\n"""${caption}"""\n`
+    : '';
+  const filenameSection = options.filename ? `\n- File name: ${options.filename}` : '';
+
+  return `You are ImagineCalendar's WhatsApp assistant. The user sent you ${kind}, such as a flyer, invitation, screenshot or school notice, to add to their calendar.${filenameSection}
+${captionSection}
+### Instructions
+1. Find every event in it and write the calendar request the user would have typed to add them, e.g. "Add Thabo and Lerato's wedding on Saturday 14 March 2026 from 14:00 to 22:00 at St Mary's Church, 12 Main Road, Cape Town".
+2. Include the event name, date, start and end time, and venue or address when they are shown. Add an online meeting link if there is one.
+3. Copy dates and times as written. If the year or time is missing, leave it out; never guess.
+4. If there are several events, list each one in the same request, separated by "and".
+5. Start with what the caption asks for (e.g. "put it in my family calendar", "remind me a week before") and keep its wording; it takes precedence over the ${kind === 'an image' ? 'image' : 'document'}.
+6. If there is nothing to schedule, set "hasEventDetails" to false and "text" to an empty string.
+
+Return only the JSON object that matches the agreed schema.`;
+}
+
+export type { MediaExtractionOptions, MediaExtractionResult } from './types';
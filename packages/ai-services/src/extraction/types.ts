@@ -0,0 +1,13 @@
+// Media extraction types and interfaces
+
+export interface MediaExtractionOptions {
+  mimeType: string;           // e.g. 'image/jpeg' or 'application/pdf'
+  caption?: string;           // Text the user sent with the image or document
+  filename?: string;          // Original name of a forwarded document
+}
+
+export interface MediaExtractionResult {
+  hasEventDetails: boolean;   // False for photos and documents without anything to schedule
+  text: string;               // The details written as a message the user could have sent
+  provider: string;
+}
@@ -2,11 +2,35 @@
 
 // Transcription
 export { TranscriptionService } from './transcription';
-export type { TranscriptionOptions, TranscriptionResult, TranscriptSegment } from './transcription';
+export type { TranscriptionOptions, TranscriptionResult, TranscriptSegment, TranscriptionAttempt } from './transcription';
 export { getTranscriptionModel, getProviderCostPerMinute } from './transcription/providers';
 
+// Media Extraction
+export { MediaExtractionService } from './extraction';
+export type { MediaExtractionOptions, MediaExtractionResult } from './extraction';
+
 // Timezone Utilities
-export { formatDateToLocalIso, tryFormatDateToLocalIso } from './utils/timezone';
+export {
+  DEFAULT_TIMEZONE,
+  formatDateToLocalIso,
+  tryFormatDateToLocalIso,
+  formatDateToLocalLabel,
+  formatDateToLocalDisplay,
+  formatTimeZoneOffset,
+  getTimeZoneOffsetMinutes,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from './utils/timezone';
+
+// Name Matching
+export {
+  editDistance,
+  getNameVariants,
+  nameSimilarity,
+  normalizeName,
+  soundex,
+  soundsAlike,
+} from './utils/name-matching';
 
 // Intent Analysis
 export { IntentAnalysisService } from './intent';
@@ -23,14 +47,32 @@ export {
 } from './intent';
 
 // Resolution Pipeline
-export { ResolutionPipeline, ContactResolver } from './resolvers';
+export {
+  ResolutionPipeline,
+  ContactResolver,
+  CalendarResolver,
+  EventMatcher,
+  ConflictDetector,
+} from './resolvers';
 export type {
   ResolutionResult,
   ResolutionContext,
   ContactResolutionResult,
   ContactMatch,
+  DirectoryContact,
+  ContactAlias,
   EventMatchResult,
   EventMatch,
   ConflictInfo,
   ICalendarService,
+  ICalendarRoutingService,
+  IEventSearchService,
+  IConflictService,
+  CandidateEvent,
+  EventSearchCriteria,
+  BusyEvent,
+  CalendarSelectionResult,
+  CalendarRoutingContext,
+  CalendarRoutingOption,
+  CalendarRoutingRule,
 } from './resolvers';
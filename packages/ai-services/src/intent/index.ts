@@ -4,7 +4,7 @@
 import { generateObject } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { logger } from '@imaginecalendar/logger';
-import { calendarIntentPrompt, type IntentPromptContext } from './prompts';
+import { calendarCorrectionPrompt, calendarIntentPrompt, type IntentPromptContext } from './prompts';
 import { calendarIntentSchema } from './types';
 import type { CalendarIntent, IntentContext } from './types';
 
@@ -61,6 +61,53 @@ export class IntentAnalysisService {
       throw error;
     }
   }
+
+  /**
+   * Apply a user's correction ("no, it's at 3pm") to an intent that was already acted on
+   */
+  async correctCalendarIntent(
+    original: CalendarIntent,
+    correction: string,
+    context?: IntentContext
+  ): Promise<CalendarIntent> {
+    const startTime = Date.now();
+
+    try {
+      logger.info({ correctionLength: correction.length }, 'Applying calendar intent correction');
+
+      const prompt = calendarCorrectionPrompt(original, correction, {
+        timezone: context?.timezone,
+        currentTime: context?.currentDate,
+      });
+
+      const result = await generateObject({
+        model: this.model,
+        schema: calendarIntentSchema as any,
+        prompt,
+      });
+
+      const object = result.object as CalendarIntent;
+
+      logger.info(
+        {
+          durationMs: Date.now() - startTime,
+          confidence: object.confidence,
+        },
+        'Intent correction completed'
+      );
+
+      return object;
+    } catch (error) {
+      logger.error(
+        {
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - startTime,
+        },
+        'Intent correction failed'
+      );
+      throw error;
+    }
+  }
 }
 
 // Export types
@@ -3,9 +3,13 @@ import { openai } from '@ai-sdk/openai';
 import * as chrono from 'chrono-node';
 import { z } from 'zod';
 import { calendarIntentPrompt, type IntentPromptContext } from './prompts';
-import { formatDateToLocalIso, formatDateToLocalLabel } from '../utils/timezone';
-
-const DEFAULT_TIMEZONE = 'Africa/Johannesburg';
+import {
+  DEFAULT_TIMEZONE,
+  formatDateToLocalIso,
+  formatDateToLocalLabel,
+  getTimeZoneOffsetMinutes,
+  isValidTimeZone,
+} from '../utils/timezone';
 
 const intentFollowUpSchema = z.object({
   field: z.enum([
@@ -19,6 +23,9 @@ const intentFollowUpSchema = z.object({
     'confirmation',
     'conflict',
     'deleteConfirmation',
+    'slot',
+    'event',
+    'calendar',
   ]),
   reason: z.string(),
   question: z.string(),
@@ -26,7 +33,7 @@ const intentFollowUpSchema = z.object({
 });
 
 const intentSnapshotSchema = z.object({
-  action: z.enum(['CREATE', 'UPDATE', 'DELETE', 'QUERY']),
+  action: z.enum(['CREATE', 'UPDATE', 'DELETE', 'QUERY', 'SCHEDULE']),
   title: z.string().trim().nullable(),
   datetime: z
     .object({
@@ -57,6 +64,53 @@ const intentSnapshotSchema = z.object({
       existingEventId: z.string(),
     })
     .nullable(),
+  recurrence: z
+    .object({
+      frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']),
+      interval: z.number().int().positive().nullable(),
+      byDay: z.array(z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'])).nullable(),
+      count: z.number().int().positive().nullable(),
+      until: z.string().nullable(),
+    })
+    .nullable()
+    .default(null),
+  reminder: z
+    .object({
+      minutesBefore: z.number().int().nonnegative().nullable(),
+      daysBefore: z.number().int().positive().nullable(),
+      time: z.string().nullable(),
+    })
+    .nullable()
+    .default(null),
+  calendar: z.string().trim().nullable().default(null),
+  availability: z
+    .object({
+      startDate: z.string().nullable(),
+      endDate: z.string().nullable(),
+      partOfDay: z.enum(['morning', 'afternoon', 'evening']).nullable(),
+    })
+    .nullable()
+    .default(null),
+  query: z
+    .object({
+      type: z.enum(['events', 'free_time', 'count']),
+      startDate: z.string().nullable(),
+      endDate: z.string().nullable(),
+      partOfDay: z.enum(['morning', 'afternoon', 'evening']).nullable(),
+      attendee: z.string().trim().nullable(),
+      keyword: z.string().trim().nullable(),
+    })
+    .nullable()
+    .default(null),
+});
+
+// One entry per request in the message, e.g. "dentist Tuesday at 10, and lunch with Mike Thursday at 1"
+const intentPipelineResponseSchema = z.object({
+  intents: z.array(
+    intentSnapshotSchema.extend({
+      sourceText: z.string(),
+    })
+  ),
 });
 
 export type IntentSnapshot = z.infer<typeof intentSnapshotSchema>;
@@ -77,11 +131,17 @@ export interface NormalizedIntentSnapshot {
   followUp: IntentFollowUp[];
   confidence: number;
   conflict: IntentSnapshot['conflict'];
+  recurrence: IntentSnapshot['recurrence'];
+  reminder: IntentSnapshot['reminder'];
+  calendar: string | null;
+  availability: IntentSnapshot['availability'];
+  query: IntentSnapshot['query'];
 }
 
 export interface IntentPipelineResult {
   snapshot: IntentSnapshot;
   normalized: NormalizedIntentSnapshot;
+  sourceText: string; // The part of the message this intent came from, readable on its own
 }
 
 export interface IntentPipelineOptions {
@@ -96,24 +156,30 @@ export interface IntentPipelineOptions {
   }) => Promise<void> | void;
 }
 
+/**
+ * Extract every calendar request in the message, in the order they were mentioned
+ */
 export async function runIntentPipeline(
   options: IntentPipelineOptions
-): Promise<IntentPipelineResult> {
+): Promise<IntentPipelineResult[]> {
   const model = options.model ?? openai('gpt-4o-mini');
   const now = options.now ?? new Date();
+  const timezone = isValidTimeZone(options.promptContext?.timezone)
+    ? options.promptContext.timezone
+    : DEFAULT_TIMEZONE;
 
   // Pre-normalize timestamps to local time for context logging
   const normalizedContext: IntentPromptContext = {
-    timezone: DEFAULT_TIMEZONE,
     currentTime: now,
     ...options.promptContext,
+    timezone,
   };
 
   if (normalizedContext.recentEvents) {
     normalizedContext.recentEvents = normalizedContext.recentEvents.map((event) => ({
       ...event,
-      start: formatDateToLocalLabel(event.start, DEFAULT_TIMEZONE),
-      end: event.end ? formatDateToLocalLabel(event.end, DEFAULT_TIMEZONE) : null,
+      start: formatDateToLocalLabel(event.start, timezone),
+      end: event.end ? formatDateToLocalLabel(event.end, timezone) : null,
     }));
   }
 
@@ -123,8 +189,8 @@ export async function runIntentPipeline(
     type: 'context',
     payload: normalizedContext,
     metadata: {
-      timezone: DEFAULT_TIMEZONE,
-      capturedAt: formatDateToLocalIso(now, DEFAULT_TIMEZONE),
+      timezone,
+      capturedAt: formatDateToLocalIso(now, timezone),
     },
   });
 
@@ -139,7 +205,7 @@ export async function runIntentPipeline(
 
   const result = await generateObject({
     model,
-    schema: intentSnapshotSchema as any,
+    schema: intentPipelineResponseSchema as any,
     prompt,
   });
 
@@ -153,24 +219,42 @@ export async function runIntentPipeline(
     },
   });
 
-  const snapshot = intentSnapshotSchema.parse(result.object);
-  const normalized = normalizeIntentSnapshot(snapshot, now);
+  const { intents } = intentPipelineResponseSchema.parse(result.object);
 
-  return {
-    snapshot,
-    normalized,
-  };
+  if (!intents.length) {
+    throw new Error('Intent pipeline returned no intents');
+  }
+
+  return intents.map(({ sourceText, ...intent }) => {
+    const snapshot = intentSnapshotSchema.parse(intent);
+
+    return {
+      snapshot,
+      normalized: normalizeIntentSnapshot(snapshot, now, timezone),
+      sourceText: sourceText.trim() || options.text,
+    };
+  });
 }
 
 function normalizeIntentSnapshot(
   snapshot: IntentSnapshot,
-  referenceDate: Date
+  referenceDate: Date,
+  timezone: string
 ): NormalizedIntentSnapshot {
   const iso = snapshot.datetime?.iso ?? null;
+  // The model emits the user's local wall-clock time with a Z suffix, so drop it and let chrono
+  // interpret the timestamp in the user's timezone
   const parsedDate = iso
-    ? chrono.parseDate(iso, referenceDate, {
-        forwardDate: true,
-      })
+    ? chrono.parseDate(
+        iso.replace(/(\.\d+)?Z$/, ''),
+        {
+          instant: referenceDate,
+          timezone: getTimeZoneOffsetMinutes(referenceDate, timezone),
+        },
+        {
+          forwardDate: true,
+        }
+      )
     : null;
 
   return {
@@ -180,7 +264,7 @@ function normalizeIntentSnapshot(
       ? {
           iso,
           date: parsedDate ?? null,
-          timezone: DEFAULT_TIMEZONE,
+          timezone,
           precision: snapshot.datetime.precision,
         }
       : null,
@@ -190,6 +274,11 @@ function normalizeIntentSnapshot(
     followUp: snapshot.followUp ?? [],
     confidence: snapshot.confidence,
     conflict: snapshot.conflict ?? null,
+    recurrence: snapshot.recurrence ?? null,
+    reminder: snapshot.reminder ?? null,
+    calendar: snapshot.calendar || null,
+    availability: snapshot.availability ?? null,
+    query: snapshot.query ?? null,
   };
 }
 
@@ -1,4 +1,4 @@
-import { formatDateToLocalLabel } from '../utils/timezone';
+import { DEFAULT_TIMEZONE, formatDateToLocalLabel } from '../utils/timezone';
 
 export interface IntentPromptContext {
   timezone?: string;
@@ -25,7 +25,7 @@ export function calendarIntentPrompt(
   text: string,
   context?: IntentPromptContext
 ): string {
-  const timezone = context?.timezone ?? 'Africa/Johannesburg';
+  const timezone = context?.timezone ?? DEFAULT_TIMEZONE;
   const currentDate = context?.currentTime ?? new Date();
   const currentLabel = formatDateToLocalLabel(currentDate, timezone);
 
@@ -66,10 +66,11 @@ export function calendarIntentPrompt(
     ? `\n### Clarification Responses\n${clarificationSection}`
     : '';
 
-  return `You are ImagineCalendar's WhatsApp assistant. Analyse the user's message and output a structured intent strictly following the schema provided.
+  return `You are ImagineCalendar's WhatsApp assistant. Analyse the user's message and output one structured intent per calendar request, strictly following the schema provided.
 
 ### Current Context
 - Current local date/time: ${currentLabel}
+- User timezone: ${timezone}
 
 ${contactSection}
 ${eventsSection}
@@ -79,15 +80,53 @@ ${clarificationsBlock}
 """${text}"""
 
 ### Instructions
-1. Identify the user's desired calendar action (CREATE, UPDATE, DELETE, QUERY).
+1. Identify the user's desired calendar action (CREATE, UPDATE, DELETE, QUERY, SCHEDULE).
 2. Extract available details conservatively; never guess. If information is ambiguous, leave it null and add a follow-up entry only for the required fields. Use values from the Clarification Responses section above to fill in any fields that were previously answered.
 3. Normalise date/time information. If only a day or part of a day is mentioned, mark the precision accordingly. Treat provided timestamps as the actual scheduled time; do not apply any conversions. When generating datetime.iso, express the user's intended local time directly (e.g., if they say "tomorrow at 1pm", and tomorrow is Oct 23, use "2025-10-23T13:00:00.000Z").
 4. Attendees should reference the contact roster when possible (match by name). IMPORTANT: If the user says "myself", "me", "just me", "only me", "just myself", or similar self-referencing phrases, interpret this as NO attendees (return empty array []). Only include attendees who are OTHER PEOPLE with real names and email addresses from the contact roster. If an attendee is mentioned but not in the contact roster, add them to followUp to ask for clarification.
-5. Locations should specify whether they are physical, virtual, or unknown. URLs count as virtual locations.
+5. Locations should specify whether they are physical, virtual, or unknown. URLs count as virtual locations. Video or online calls ("video call with the team", "a Teams call", "on Meet") are virtual even without a link; leave the value null unless a link or platform was given.
 6. Confidence must reflect how certain the assistant is (0.0–1.0). Lower confidence should trigger follow-up questions.
 7. CRITICAL: For CREATE/UPDATE actions, the final intent MUST include a non-empty "title" and a precise "datetime.iso". Use the user's stated local time directly (no conversions). If either is missing or unclear, add a follow-up question explaining exactly what is required.
 8. All other fields (durationMinutes, attendees, location, description, etc.) are optional. Populate them when the user supplies the information, but do not request clarifications for them if they are absent. Populate the followUp array only for title/date/time gaps or when resolving conflicts explicitly mentioned by the user.
 9. When a field is unavailable, output JSON null (without quotes). If there is no scheduling conflict, set "conflict": null. Never emit the string "null" for missing values.
+10. Repeating events ("every Tuesday", "daily standup", "monthly on the 1st") go in "recurrence": frequency is DAILY/WEEKLY/MONTHLY/YEARLY, byDay uses two-letter weekday codes (MO, TU, WE, TH, FR, SA, SU), interval is the gap between occurrences (e.g. 2 for "every other week"), count is a number of occurrences and until is a YYYY-MM-DD end date. Only fill what the user stated; set datetime.iso to the first occurrence. If the event does not repeat, set "recurrence": null.
+11. If the user names the calendar the event belongs in ("put it in my work calendar", "add to my Outlook calendar"), set "calendar" to that name only (e.g. "work", "Outlook"). Words that merely describe the event ("work meeting") do not name a calendar. Otherwise set "calendar": null.
+12. Use SCHEDULE when the user asks you to find a free time rather than stating one ("find 30 minutes with Sarah next week in the afternoon"). Set durationMinutes if given, set "availability" to the search window (startDate and endDate as YYYY-MM-DD, partOfDay as morning/afternoon/evening or null) and leave datetime null. Do not ask for a time; suggestions are generated for the user. Keep the action as SCHEDULE even when a "slot" clarification response is present. For every other action set "availability": null.
+13. Use QUERY when the user asks about their calendar instead of changing it. Set "query.type" to "count" for how-many questions ("how many meetings do I have this week"), "free_time" for availability questions ("am I free Friday afternoon?") and "events" otherwise ("what's on tomorrow", "when am I meeting John"). Set query.startDate and query.endDate to the range asked about as YYYY-MM-DD (the same date for a single day; "this week" runs from today to Sunday; leave both null if no period is mentioned), query.partOfDay to morning/afternoon/evening or null, query.attendee to a person the events must include and query.keyword to a word the event titles must contain (e.g. "dentist"), otherwise null. Do not ask follow-up questions for a QUERY. For every other action set "query": null.
+14. If the user asks to be reminded ("remind me an hour before", "remind me the day before at 6pm"), set "reminder": minutesBefore for a lead time ("an hour before" is 60, "at the start" is 0), or daysBefore with time as HH:MM for a reminder on an earlier day ("the day before at 6pm" is daysBefore 1, time "18:00"; leave time null for "a day before"). Otherwise set "reminder": null; the user's default reminder is applied for them.
+15. If the message contains several separate requests ("dentist Tuesday at 10, and lunch with Mike Thursday at 1"), return one entry in "intents" per request, in the order they were mentioned. Details of a single event (its attendees, location, reminder or repeat) are not separate requests. Otherwise return exactly one entry.
+16. Set each entry's "sourceText" to the words of the message that entry came from, adding only what it needs to stand on its own, such as a date or person shared by several requests ("lunch and a call with Mike on Friday" gives "lunch with Mike on Friday" and "call with Mike on Friday").
+
+Return only the JSON object that matches the agreed schema.`;
+}
+
+export function calendarCorrectionPrompt(
+  original: Record<string, unknown>,
+  correction: string,
+  context?: IntentPromptContext
+): string {
+  const timezone = context?.timezone ?? DEFAULT_TIMEZONE;
+  const currentDate = context?.currentTime ?? new Date();
+  const currentLabel = formatDateToLocalLabel(currentDate, timezone);
+
+  return `You are ImagineCalendar's WhatsApp assistant. You created a calendar event from the user's message, and the user says it is wrong. Apply their correction and output the full corrected event strictly following the schema provided.
+
+### Current Context
+- Current local date/time: ${currentLabel}
+- User timezone: ${timezone}
+
+### Event As Created
+${JSON.stringify(original, null, 2)}
+
+### User Correction
+"""${correction}"""
+
+### Instructions
+1. Keep "action" as CREATE.
+2. Change only the fields the correction is about; copy every other field from the event as created.
+3. Dates are YYYY-MM-DD and times are HH:MM (24-hour) in the user's local time, resolved against the current date/time above ("tomorrow", "Friday").
+4. If the correction removes something ("no location", "just me"), leave that field out.
+5. Set "missingFields" to an empty array and "confidence" to how certain you are that you understood the correction.
 
 Return only the JSON object that matches the agreed schema.`;
 }
@@ -4,9 +4,9 @@
 import { z } from 'zod';
 
 // Action types based on client requirements
-export const intentActionEnum = z.enum(['CREATE', 'UPDATE', 'DELETE', 'QUERY']);
+export const intentActionEnum = z.enum(['CREATE', 'UPDATE', 'DELETE', 'QUERY', 'SCHEDULE']);
 export const calendarIntentSchema = z.object({
-  // Primary action: CREATE, UPDATE, DELETE, QUERY
+  // Primary action: CREATE, UPDATE, DELETE, QUERY, SCHEDULE (find a free slot)
   action: intentActionEnum.describe('The intended action'),
 
   // Event details (for CREATE)
@@ -22,8 +22,10 @@ export const calendarIntentSchema = z.object({
 
   // Additional details
   location: z.string().optional().describe('Event location (just the text, not resolved)'),
+  isVirtual: z.boolean().optional().describe('Whether it is a video or online call, e.g. "video call with the team"'),
   attendees: z.array(z.string()).optional().describe('Attendee NAMES only (not emails)'),
   isAllDay: z.boolean().optional().describe('Whether it is an all-day event'),
+  calendarName: z.string().optional().describe('Calendar the user asked for by name, e.g. "work"'),
 
   // For UPDATE/DELETE: identification of existing event
   targetEventTitle: z.string().optional().describe('Title of event to update/delete'),
@@ -39,6 +41,24 @@ export const calendarIntentSchema = z.object({
     byDay: z.array(z.string()).optional(),
   }).optional().describe('Recurrence pattern'),
 
+  // Reminder the user asked for, e.g. "an hour before" or "the day before at 6pm"
+  reminder: z.object({
+    minutesBefore: z.number().optional().describe('Minutes before the start, e.g. 60 for "an hour before"'),
+    daysBefore: z.number().optional().describe('Days before the event, e.g. 1 for "the day before"'),
+    time: z.string().optional().describe('Time on that day in HH:MM format, e.g. "18:00" for "the day before at 6pm"'),
+  }).optional().describe('When to remind the user'),
+
+  // For QUERY: what the user wants to know and which events to look at
+  query: z.object({
+    type: z.enum(['events', 'free_time', 'count']).describe('List events, check free time, or count events'),
+    startDate: z.string().optional().describe('First day of the range in YYYY-MM-DD format'),
+    endDate: z.string().optional().describe('Last day of the range in YYYY-MM-DD format (inclusive)'),
+    startTime: z.string().optional().describe('Start of the time window each day in HH:MM format'),
+    endTime: z.string().optional().describe('End of the time window each day in HH:MM format'),
+    attendee: z.string().optional().describe('Only events with this person'),
+    keyword: z.string().optional().describe('Only events whose title mentions this'),
+  }).optional().describe('Calendar query range and filters'),
+
   // Metadata
   confidence: z.number().min(0).max(1).describe('Confidence score 0-1'),
 
@@ -0,0 +1,189 @@
+// Calendar Resolver - Picks which connected calendar an event should go into
+// Order: calendar named in the message → keyword rule → user's default calendar → primary calendar
+
+import { logger } from '@imaginecalendar/logger';
+import type { CalendarIntent } from '../intent/types';
+import type {
+  CalendarRoutingContext,
+  CalendarRoutingOption,
+  CalendarRoutingRule,
+  CalendarSelectionResult,
+} from './types';
+
+export interface ICalendarRoutingService {
+  getCalendarRoutingContext(userId: string): Promise<CalendarRoutingContext>;
+}
+
+// Words people use for a provider rather than for a specific calendar
+const PROVIDER_ALIASES: Record<CalendarRoutingOption['provider'], string[]> = {
+  google: ['google', 'gmail'],
+  microsoft: ['microsoft', 'outlook', 'office', 'office 365', '365', 'teams', 'hotmail'],
+};
+
+export class CalendarResolver {
+  constructor(private calendarService: ICalendarRoutingService) {}
+
+  /**
+   * Returns null when the user has no active calendars to route to
+   */
+  async resolve(
+    userId: string,
+    intent: Pick<CalendarIntent, 'title' | 'description' | 'location' | 'calendarName'>
+  ): Promise<CalendarSelectionResult | null> {
+    const context = await this.calendarService.getCalendarRoutingContext(userId);
+
+    if (context.calendars.length === 0) {
+      return null;
+    }
+
+    const fallback = this.resolveWithoutName(intent, context);
+
+    if (!intent.calendarName) {
+      return fallback;
+    }
+
+    const matches = this.findCalendarMatches(intent.calendarName, context.calendars);
+
+    if (matches.length === 1 && matches[0]) {
+      logger.info(
+        { userId, calendarName: intent.calendarName, calendarId: matches[0].id },
+        'Calendar resolved from name in message'
+      );
+
+      return {
+        calendarId: matches[0].id,
+        calendarName: matches[0].name,
+        source: 'named',
+        needsClarification: false,
+      };
+    }
+
+    const candidates = matches.length > 1 ? matches : context.calendars;
+
+    logger.info(
+      { userId, calendarName: intent.calendarName, matchCount: matches.length },
+      'Named calendar could not be resolved to a single calendar'
+    );
+
+    return {
+      ...fallback,
+      needsClarification: true,
+      question: matches.length > 1
+        ? `You have ${matches.length} calendars matching "${intent.calendarName}". Which one?\n${candidates.map((c, i) => `${i + 1}. ${c.name}`).join('\n')}`
+        : `We couldn't find a calendar called "${intent.calendarName}". Which calendar should we use?\n${candidates.map((c, i) => `${i + 1}. ${c.name}`).join('\n')}`,
+      availableCalendars: candidates.map((c) => ({
+        id: c.id,
+        name: c.name,
+        isPrimary: c.isPrimary,
+      })),
+    };
+  }
+
+  private resolveWithoutName(
+    intent: Pick<CalendarIntent, 'title' | 'description' | 'location'>,
+    context: CalendarRoutingContext
+  ): CalendarSelectionResult {
+    const byId = new Map(context.calendars.map((c) => [c.id, c]));
+
+    const rule = this.findMatchingRule(intent, context.rules.filter((r) => byId.has(r.calendarId)));
+    const ruleCalendar = rule ? byId.get(rule.calendarId) : undefined;
+
+    if (rule && ruleCalendar) {
+      return {
+        calendarId: ruleCalendar.id,
+        calendarName: ruleCalendar.name,
+        source: 'rule',
+        matchedKeyword: rule.keyword,
+        needsClarification: false,
+      };
+    }
+
+    const defaultCalendar = context.defaultCalendarId ? byId.get(context.defaultCalendarId) : undefined;
+
+    if (defaultCalendar) {
+      return {
+        calendarId: defaultCalendar.id,
+        calendarName: defaultCalendar.name,
+        source: 'default',
+        needsClarification: false,
+      };
+    }
+
+    // Caller guarantees at least one calendar
+    const primary = context.calendars.find((c) => c.isPrimary) ?? context.calendars[0]!;
+
+    return {
+      calendarId: primary.id,
+      calendarName: primary.name,
+      source: 'primary',
+      needsClarification: false,
+    };
+  }
+
+  private findMatchingRule(
+    intent: Pick<CalendarIntent, 'title' | 'description' | 'location'>,
+    rules: CalendarRoutingRule[]
+  ): CalendarRoutingRule | undefined {
+    const text = [intent.title, intent.description, intent.location]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+
+    if (!text) {
+      return undefined;
+    }
+
+    // Longer keywords are more specific ("client lunch" beats "lunch")
+    return [...rules]
+      .sort((a, b) => b.keyword.length - a.keyword.length)
+      .find((rule) => {
+        const keyword = rule.keyword.trim().toLowerCase();
+        return keyword.length > 0 && new RegExp(`\\b${this.escapeRegExp(keyword)}\\b`).test(text);
+      });
+  }
+
+  private findCalendarMatches(
+    calendarName: string,
+    calendars: CalendarRoutingOption[]
+  ): CalendarRoutingOption[] {
+    // A calendar picked from a list is carried by id
+    const byId = calendars.filter((c) => c.id === calendarName);
+    if (byId.length > 0) return byId;
+
+    const hint = this.normalizeName(calendarName);
+
+    if (!hint) {
+      return [];
+    }
+
+    // Match strategies (in order of preference), returning the first tier that matches:
+
+    // 1. Exact match on calendar name or account email
+    const exact = calendars.filter(
+      (c) => this.normalizeName(c.name) === hint || c.email.toLowerCase() === hint
+    );
+    if (exact.length > 0) return exact;
+
+    // 2. Partial match on calendar name
+    const partial = calendars.filter((c) => {
+      const name = this.normalizeName(c.name);
+      return name.length > 0 && (name.includes(hint) || hint.includes(name));
+    });
+    if (partial.length > 0) return partial;
+
+    // 3. Provider name ("my Outlook calendar")
+    return calendars.filter((c) => PROVIDER_ALIASES[c.provider].includes(hint));
+  }
+
+  private normalizeName(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/\b(my|the|calendar|calender|cal)\b/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,101 @@
+// Conflict Detector - Checks a proposed time against events already in the user's calendars
+// When something overlaps, suggests the next gap later that day that fits the event
+
+import { logger } from '@imaginecalendar/logger';
+import { formatDateToLocalIso, zonedTimeToUtc } from '../utils/timezone';
+import type { ConflictInfo } from './types';
+
+export interface BusyEvent {
+  id: string;
+  title: string;
+  start: Date;
+  end: Date;
+  allDay?: boolean;
+}
+
+export interface IConflictService {
+  getEventsBetween(userId: string, timeMin: Date, timeMax: Date): Promise<BusyEvent[]>;
+}
+
+// Suggestions start on the quarter hour
+const SUGGESTION_STEP_MINUTES = 15;
+
+// Nothing is suggested that would run past this local time
+const LATEST_SUGGESTED_END = '20:00';
+
+export class ConflictDetector {
+  constructor(private eventService: IConflictService) {}
+
+  async detect(
+    userId: string,
+    proposal: { start: Date; end: Date; excludeEventId?: string },
+    timezone: string
+  ): Promise<ConflictInfo> {
+    const localDate = formatDateToLocalIso(proposal.start, timezone).slice(0, 10);
+    const latestEnd = zonedTimeToUtc(localDate, LATEST_SUGGESTED_END, timezone);
+    const windowEnd = new Date(Math.max(proposal.end.getTime(), latestEnd.getTime()));
+
+    // All-day events (holidays, out-of-office markers) don't block a time slot
+    const events = (await this.eventService.getEventsBetween(userId, proposal.start, windowEnd))
+      .filter((event) => !event.allDay && event.id !== proposal.excludeEventId)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    // Back-to-back events don't clash
+    const conflicts = events.filter((event) => event.start < proposal.end && event.end > proposal.start);
+
+    if (conflicts.length === 0) {
+      return { hasConflict: false, conflicts: [] };
+    }
+
+    const durationMs = proposal.end.getTime() - proposal.start.getTime();
+    const suggestedStart = this.findNextGap(events, proposal.start, durationMs, latestEnd);
+
+    logger.info(
+      {
+        userId,
+        conflictCount: conflicts.length,
+        suggestedStart,
+      },
+      'Calendar conflict detected'
+    );
+
+    return {
+      hasConflict: true,
+      conflicts: conflicts.map((event) => ({
+        eventId: event.id,
+        title: event.title,
+        start: event.start,
+        end: event.end,
+      })),
+      suggestion: suggestedStart
+        ? `Move to ${formatDateToLocalIso(suggestedStart, timezone).slice(11, 16)}?`
+        : undefined,
+      suggestedStart: suggestedStart ?? undefined,
+    };
+  }
+
+  /**
+   * Walk forward past every overlapping event until the duration fits, or give up at the end of the day
+   */
+  private findNextGap(
+    events: Array<{ start: Date; end: Date }>,
+    from: Date,
+    durationMs: number,
+    latestEnd: Date
+  ): Date | null {
+    let candidate = from.getTime();
+
+    for (const event of events) {
+      if (event.start.getTime() < candidate + durationMs && event.end.getTime() > candidate) {
+        candidate = roundUpToStep(event.end.getTime());
+      }
+    }
+
+    return candidate + durationMs <= latestEnd.getTime() ? new Date(candidate) : null;
+  }
+}
+
+function roundUpToStep(time: number): number {
+  const stepMs = SUGGESTION_STEP_MINUTES * 60 * 1000;
+  return Math.ceil(time / stepMs) * stepMs;
+}
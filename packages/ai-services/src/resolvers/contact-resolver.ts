@@ -1,11 +1,35 @@
 // Contact Resolver - Resolves attendee names to email addresses
-// Uses calendar provider's contact list (Google/Microsoft)
+// Uses the user's synced contact directory (Google/Microsoft) plus their own aliases
 
 import { logger } from '@imaginecalendar/logger';
-import type { ContactResolutionResult, ContactMatch } from './types';
+import {
+  getNameVariants,
+  nameSimilarity,
+  normalizeName,
+  soundsAlike,
+} from '../utils/name-matching';
+import type { ContactAlias, ContactResolutionResult, ContactMatch, DirectoryContact } from './types';
 
 export interface ICalendarService {
-  getContacts(userId: string): Promise<Array<{ name: string; email: string; source: 'google' | 'microsoft' }>>;
+  getContacts(userId: string): Promise<DirectoryContact[]>;
+  getContactAliases?(userId: string): Promise<ContactAlias[]>;
+}
+
+// Weakest match still offered to the user
+const MIN_MATCH_SCORE = 0.6;
+
+// Matches this close to the best one are treated as equally likely
+const SCORE_TIE_MARGIN = 0.05;
+
+// Pick the most-met person outright when they clearly dominate an otherwise tied match
+const FREQUENT_CONTACT_MIN_MEETINGS = 3;
+const FREQUENT_CONTACT_RATIO = 3;
+
+const MAX_AMBIGUOUS_OPTIONS = 5;
+
+interface ScoredContact {
+  contact: DirectoryContact;
+  score: number;
 }
 
 export class ContactResolver {
@@ -27,15 +51,14 @@ export class ContactResolver {
     }
 
     try {
-      // Fetch user's contacts from calendar provider
-      const contactsWithSource = await this.calendarService.getContacts(userId);
+      const [directory, aliases] = await Promise.all([
+        this.calendarService.getContacts(userId),
+        this.calendarService.getContactAliases
+          ? this.calendarService.getContactAliases(userId)
+          : Promise.resolve([]),
+      ]);
 
-      // Map to ContactMatch format
-      const contacts: ContactMatch[] = contactsWithSource.map(c => ({
-        name: c.name,
-        email: c.email,
-        source: c.source,
-      }));
+      const contacts = this.dedupeByEmail(directory);
 
       for (const name of names) {
         // Check if the provided value is already an email address
@@ -45,18 +68,36 @@ export class ContactResolver {
           continue;
         }
 
+        const alias = this.findAlias(name, aliases);
+        if (alias) {
+          result.resolved[name] = alias.email;
+          logger.info({ name, alias: alias.alias }, 'Resolved attendee from alias');
+          continue;
+        }
+
         const matches = this.findContactMatches(name, contacts);
+        const leader = this.pickFrequentContact(matches);
 
         if (matches.length === 0) {
           result.notFound.push(name);
           result.needsClarification = true;
         } else if (matches.length === 1 && matches[0]) {
           result.resolved[name] = matches[0].email;
+        } else if (leader) {
+          result.resolved[name] = leader.email;
+          logger.info(
+            { name, email: leader.email, meetingCount: leader.meetingCount, candidates: matches.length },
+            'Resolved ambiguous attendee by meeting frequency'
+          );
         } else {
+          const options: ContactMatch[] = matches
+            .slice(0, MAX_AMBIGUOUS_OPTIONS)
+            .map(({ name: contactName, email, source }) => ({ name: contactName, email, source }));
+
           result.ambiguous.push({
             name,
-            matches,
-            question: `We found ${matches.length} contacts for "${name}". Which one?\n${matches.map((m, i) => `${i + 1}. ${m.name} (${m.email})`).join('\n')}`,
+            matches: options,
+            question: `We found ${matches.length} contacts for "${name}". Which one?\n${options.map((m, i) => `${i + 1}. ${m.name} (${m.email})`).join('\n')}`,
           });
           result.needsClarification = true;
         }
@@ -66,6 +107,8 @@ export class ContactResolver {
         {
           userId,
           totalNames: names.length,
+          directorySize: contacts.length,
+          aliasCount: aliases.length,
           resolved: Object.keys(result.resolved).length,
           ambiguous: result.ambiguous.length,
           notFound: result.notFound.length,
@@ -89,41 +132,143 @@ export class ContactResolver {
     return emailRegex.test(email);
   }
 
-  private findContactMatches(name: string, contacts: ContactMatch[]): ContactMatch[] {
-    const nameLower = name.toLowerCase().trim();
+  /**
+   * Aliases match as typed, with or without a leading "my" ("my boss" / "boss")
+   */
+  private findAlias(name: string, aliases: ContactAlias[]): ContactAlias | undefined {
+    const spoken = this.stripPossessive(normalizeName(name));
 
-    return contacts.filter(contact => {
-      const fullName = contact.name.toLowerCase();
-      const [firstName, ...lastNames] = fullName.split(' ');
-      const lastName = lastNames.join(' ');
+    return aliases.find((alias) => this.stripPossessive(normalizeName(alias.alias)) === spoken);
+  }
 
-      // Match strategies (in order of preference):
+  private stripPossessive(value: string): string {
+    return value.replace(/^(my|our)\s+/, '');
+  }
 
-      // 1. Exact match on full name
-      if (fullName === nameLower) return true;
+  /**
+   * The same person can be in both Google and Microsoft; keep the entry with the most history
+   */
+  private dedupeByEmail(contacts: DirectoryContact[]): DirectoryContact[] {
+    const byEmail = new Map<string, DirectoryContact>();
 
-      // 2. Match first name exactly
-      if (firstName === nameLower) return true;
+    for (const contact of contacts) {
+      const key = contact.email.toLowerCase();
+      const existing = byEmail.get(key);
 
-      // 3. Match last name exactly
-      if (lastName === nameLower) return true;
+      if (!existing || (contact.meetingCount ?? 0) > (existing.meetingCount ?? 0)) {
+        byEmail.set(key, contact);
+      }
+    }
 
-      // 4. Match first name + last name initial (e.g., "John S" matches "John Smith")
-      if (nameLower.includes(' ')) {
-        const [inputFirst, ...inputRest] = nameLower.split(' ');
-        const inputLast = inputRest.join(' ');
+    return Array.from(byEmail.values());
+  }
 
-        if (firstName === inputFirst) {
-          if (lastName.startsWith(inputLast)) return true;
-        }
-      }
+  /**
+   * Contacts that best match the spoken name, strongest and most-met first.
+   * Only the top tier is returned so a weak fuzzy match never competes with an exact one.
+   */
+  private findContactMatches(name: string, contacts: DirectoryContact[]): DirectoryContact[] {
+    const query = normalizeName(name);
+    if (!query) {
+      return [];
+    }
 
-      // 5. Partial match (contains)
-      if (fullName.includes(nameLower) || (firstName && nameLower.includes(firstName))) {
-        return true;
+    const scored: ScoredContact[] = contacts
+      .map((contact) => ({ contact, score: this.scoreContact(query, contact) }))
+      .filter((entry) => entry.score >= MIN_MATCH_SCORE);
+
+    if (scored.length === 0) {
+      return [];
+    }
+
+    const bestScore = Math.max(...scored.map((entry) => entry.score));
+
+    return scored
+      .filter((entry) => entry.score >= bestScore - SCORE_TIE_MARGIN)
+      .sort((a, b) =>
+        b.score - a.score
+        || (b.contact.meetingCount ?? 0) - (a.contact.meetingCount ?? 0)
+        || this.toTime(b.contact.lastMetAt) - this.toTime(a.contact.lastMetAt)
+        || a.contact.name.localeCompare(b.contact.name)
+      )
+      .map((entry) => entry.contact);
+  }
+
+  /**
+   * How well a contact matches the spoken name, from 0 (no match) to 1 (exact)
+   */
+  private scoreContact(query: string, contact: DirectoryContact): number {
+    const fullName = normalizeName(contact.name);
+    const [firstName = '', ...rest] = fullName.split(' ');
+    const lastName = rest.join(' ');
+    const [queryFirst = '', ...queryRest] = query.split(' ');
+    const queryLast = queryRest.join(' ');
+
+    // 1. Exact match on full name
+    if (fullName === query) return 1;
+
+    // 2. One of the contact's own nicknames
+    const nicknames = (contact.nicknames ?? []).map(normalizeName);
+    if (nicknames.includes(query)) return 0.95;
+
+    // 3. First or last name exactly
+    if (!queryLast && (firstName === query || lastName === query)) return 0.9;
+
+    // 4. First name + last name or its start (e.g. "John S" matches "John Smith")
+    if (queryLast && firstName === queryFirst && lastName.startsWith(queryLast)) return 0.85;
+
+    // 5. Common short forms ("Bob" for "Robert"), optionally with the last name
+    const firstVariants = getNameVariants(firstName);
+    if (firstVariants.has(queryFirst) && (!queryLast || lastName.startsWith(queryLast))) {
+      return 0.8;
+    }
+
+    // 6. Sounds the same, for names the transcript spelled differently ("Shawn" for "Sean")
+    if (queryLast) {
+      if (soundsAlike(queryFirst, firstName) && lastName && soundsAlike(queryLast, lastName)) {
+        return 0.65 + 0.1 * nameSimilarity(query, fullName);
       }
+    } else if (soundsAlike(query, firstName) || (lastName && soundsAlike(query, lastName))) {
+      const closest = Math.max(nameSimilarity(query, firstName), nameSimilarity(query, lastName));
+      return 0.65 + 0.1 * closest;
+    }
+
+    // 7. Small typos in longer names
+    const similarity = Math.max(
+      nameSimilarity(query, fullName),
+      queryLast ? 0 : nameSimilarity(query, firstName)
+    );
+    if (query.length >= 5 && similarity >= 0.8) {
+      return 0.5 + 0.15 * similarity;
+    }
+
+    // 8. Partial match on the full name
+    if (query.length >= 3 && fullName.includes(query)) return 0.6;
+
+    return 0;
+  }
+
+  /**
+   * Among equally good matches, the person the user meets far more often than the rest
+   */
+  private pickFrequentContact(matches: DirectoryContact[]): DirectoryContact | null {
+    const [leader, runnerUp] = matches;
+
+    if (!leader || !runnerUp) {
+      return null;
+    }
+
+    const leaderCount = leader.meetingCount ?? 0;
+    const runnerUpCount = runnerUp.meetingCount ?? 0;
+
+    if (leaderCount >= FREQUENT_CONTACT_MIN_MEETINGS && leaderCount >= runnerUpCount * FREQUENT_CONTACT_RATIO) {
+      return leader;
+    }
+
+    return null;
+  }
 
-      return false;
-    });
+  private toTime(value: Date | string | null | undefined): number {
+    return value ? new Date(value).getTime() : 0;
   }
 }
@@ -0,0 +1,311 @@
+// Event Matcher - Finds the existing event an UPDATE/DELETE refers to
+// Candidates are scored on title similarity, closeness to the date/time mentioned and shared attendees
+
+import { logger } from '@imaginecalendar/logger';
+import type { CalendarIntent } from '../intent/types';
+import { formatDateToLocalDisplay, formatDateToLocalIso } from '../utils/timezone';
+import { nameSimilarity, normalizeName, soundsAlike } from '../utils/name-matching';
+import type { EventMatch, EventMatchResult } from './types';
+
+export interface CandidateEvent {
+  id: string;
+  title: string;
+  start: Date;
+  end: Date;
+  calendarId: string; // Calendar connection the event lives in
+  attendees?: string[]; // Attendee emails
+}
+
+export interface EventSearchCriteria {
+  title?: string;
+  date?: string; // YYYY-MM-DD in the user's timezone
+  timezone: string;
+}
+
+export interface IEventSearchService {
+  findCandidateEvents(userId: string, criteria: EventSearchCriteria): Promise<CandidateEvent[]>;
+}
+
+// How much each signal counts when it was mentioned; weights are rescaled over the signals present
+const TITLE_WEIGHT = 0.5;
+const TIME_WEIGHT = 0.35;
+const ATTENDEE_WEIGHT = 0.15;
+
+// With no date or time mentioned, nearness to today only breaks ties between similar titles
+const RECENCY_WEIGHT = 0.1;
+
+// Weakest match still offered to the user
+const MIN_MATCH_SCORE = 0.45;
+
+// A match is used without asking only when it is strong and clearly ahead of the next one
+const CONFIDENT_MATCH_SCORE = 0.75;
+const CONFIDENT_MATCH_LEAD = 0.15;
+
+// Beyond this many minutes from the mentioned time, the time no longer counts in favour
+const TIME_TOLERANCE_MINUTES = 180;
+
+const MAX_MATCH_OPTIONS = 5;
+
+// Filler words that say nothing about which event is meant
+const TITLE_STOP_WORDS = new Set(['a', 'an', 'the', 'my', 'our', 'with', 'and', 'for', 'to', 'of', 'at', 'on', 'in']);
+
+export class EventMatcher {
+  constructor(private eventService: IEventSearchService) {}
+
+  async match(
+    userId: string,
+    intent: Pick<
+      CalendarIntent,
+      'title' | 'targetEventTitle' | 'targetEventDate' | 'targetEventTime' | 'startDate' | 'startTime' | 'attendees'
+    >,
+    timezone: string
+  ): Promise<EventMatchResult> {
+    const title = intent.targetEventTitle || intent.title;
+    const date = toDateOnly(intent.targetEventDate || intent.startDate);
+    const time = intent.targetEventTime || intent.startTime;
+    const attendees = intent.attendees ?? [];
+
+    const candidates = await this.eventService.findCandidateEvents(userId, { title, date, timezone });
+    const now = new Date();
+
+    const scored = candidates
+      .map((candidate) => ({
+        candidate,
+        score: this.scoreCandidate(candidate, { title, date, time, attendees, timezone, now }),
+      }))
+      .filter((entry) => entry.score >= MIN_MATCH_SCORE)
+      .sort((a, b) => b.score - a.score || a.candidate.start.getTime() - b.candidate.start.getTime());
+
+    const matches: EventMatch[] = scored.slice(0, MAX_MATCH_OPTIONS).map(({ candidate, score }) => ({
+      id: candidate.id,
+      title: candidate.title,
+      start: candidate.start,
+      end: candidate.end,
+      calendarId: candidate.calendarId,
+      score: Math.round(score * 100) / 100,
+    }));
+
+    logger.info(
+      {
+        userId,
+        candidateCount: candidates.length,
+        matchCount: matches.length,
+        topScore: matches[0]?.score,
+      },
+      'Matched existing events'
+    );
+
+    const subject = title ? `"${title}"` : 'that event';
+
+    if (matches.length === 0) {
+      return {
+        matches,
+        needsClarification: true,
+        question: `We couldn't find ${subject} in your calendar. Which event did you mean?`,
+      };
+    }
+
+    const [best, runnerUp] = matches;
+    const isConfident = best!.score >= CONFIDENT_MATCH_SCORE
+      && (!runnerUp || best!.score - runnerUp.score >= CONFIDENT_MATCH_LEAD);
+
+    if (isConfident) {
+      return {
+        matches: [best!],
+        needsClarification: false,
+      };
+    }
+
+    if (matches.length === 1) {
+      return {
+        matches,
+        needsClarification: true,
+        question: `Did you mean "${best!.title}" (${formatDateToLocalDisplay(best!.start, timezone)})?`,
+      };
+    }
+
+    return {
+      matches,
+      needsClarification: true,
+      question: `You have ${matches.length} events that could be ${subject}. Which one?\n${matches
+        .map((m, i) => `${i + 1}. ${m.title} (${formatDateToLocalDisplay(m.start, timezone)})`)
+        .join('\n')}`,
+    };
+  }
+
+  private scoreCandidate(
+    candidate: CandidateEvent,
+    criteria: {
+      title?: string;
+      date?: string;
+      time?: string;
+      attendees: string[];
+      timezone: string;
+      now: Date;
+    }
+  ): number {
+    const signals: Array<{ weight: number; score: number }> = [];
+
+    if (criteria.title) {
+      signals.push({ weight: TITLE_WEIGHT, score: this.scoreTitle(criteria.title, candidate.title) });
+    }
+
+    if (criteria.date || criteria.time) {
+      signals.push({ weight: TIME_WEIGHT, score: this.scoreTime(candidate, criteria) });
+    } else {
+      signals.push({ weight: RECENCY_WEIGHT, score: this.scoreRecency(candidate, criteria.now) });
+    }
+
+    if (criteria.attendees.length > 0) {
+      signals.push({ weight: ATTENDEE_WEIGHT, score: this.scoreAttendees(criteria.attendees, candidate.attendees ?? []) });
+    }
+
+    const totalWeight = signals.reduce((sum, signal) => sum + signal.weight, 0);
+    return signals.reduce((sum, signal) => sum + signal.weight * signal.score, 0) / totalWeight;
+  }
+
+  /**
+   * Share of the spoken title's words found in the event title, allowing for prefixes
+   * ("standup" / "stand"), misspellings and words that sound alike
+   */
+  private scoreTitle(spoken: string, eventTitle: string): number {
+    const spokenNormalized = normalizeName(spoken);
+    const eventNormalized = normalizeName(eventTitle);
+
+    if (!spokenNormalized || !eventNormalized) {
+      return 0;
+    }
+
+    if (spokenNormalized === eventNormalized) {
+      return 1;
+    }
+
+    const spokenWords = toTitleWords(spokenNormalized);
+    const eventWords = toTitleWords(eventNormalized);
+
+    if (spokenWords.length === 0 || eventWords.length === 0) {
+      return 0;
+    }
+
+    let total = 0;
+
+    for (const word of spokenWords) {
+      let best = 0;
+
+      for (const candidate of eventWords) {
+        if (word === candidate) {
+          best = 1;
+          break;
+        }
+
+        if (word.length >= 3 && candidate.length >= 3 && (candidate.startsWith(word) || word.startsWith(candidate))) {
+          best = Math.max(best, 0.8);
+          continue;
+        }
+
+        const similarity = nameSimilarity(word, candidate);
+        if (similarity >= 0.75) {
+          best = Math.max(best, similarity * 0.9);
+        } else if (soundsAlike(word, candidate)) {
+          best = Math.max(best, 0.7);
+        }
+      }
+
+      total += best;
+    }
+
+    const score = total / spokenWords.length;
+
+    // "dentist" is clearly "Dentist appointment" even though half its words are missing,
+    // and "stand up" is "Standup" however the transcript split the words
+    if (eventNormalized.replace(/ /g, '').includes(spokenNormalized.replace(/ /g, ''))) {
+      return Math.max(score, 0.9);
+    }
+
+    return score;
+  }
+
+  /**
+   * Same local day scores highest and the score falls with each day away; a mentioned time narrows it further
+   */
+  private scoreTime(
+    candidate: CandidateEvent,
+    criteria: { date?: string; time?: string; timezone: string }
+  ): number {
+    const localStart = formatDateToLocalIso(candidate.start, criteria.timezone);
+    const candidateDate = localStart.slice(0, 10);
+    const candidateMinutes = toMinutes(localStart.slice(11, 16));
+    const targetMinutes = criteria.time ? toMinutes(criteria.time) : null;
+
+    const timeScore = targetMinutes !== null && candidateMinutes !== null
+      ? 1 - Math.min(Math.abs(candidateMinutes - targetMinutes) / TIME_TOLERANCE_MINUTES, 1)
+      : null;
+
+    if (!criteria.date) {
+      return timeScore ?? 0;
+    }
+
+    const daysApart = Math.abs(
+      Date.parse(`${candidateDate}T00:00:00Z`) - Date.parse(`${criteria.date}T00:00:00Z`)
+    ) / (24 * 60 * 60 * 1000);
+    const dateScore = 1 / (1 + daysApart);
+
+    return timeScore === null ? dateScore : dateScore * (0.6 + 0.4 * timeScore);
+  }
+
+  /**
+   * Prefer the next upcoming occurrence, then the most recent past one
+   */
+  private scoreRecency(candidate: CandidateEvent, now: Date): number {
+    const days = (candidate.start.getTime() - now.getTime()) / (24 * 60 * 60 * 1000);
+
+    return days >= 0
+      ? 1 / (1 + days / 7)
+      : 0.5 / (1 + Math.abs(days) / 7);
+  }
+
+  /**
+   * Share of the mentioned people on the event, by email or by name in the email address
+   */
+  private scoreAttendees(mentioned: string[], eventAttendees: string[]): number {
+    if (eventAttendees.length === 0) {
+      return 0;
+    }
+
+    const attendeeNames = eventAttendees.map((email) => ({
+      email: email.toLowerCase(),
+      words: normalizeName(email.split('@')[0] ?? '').split(' '),
+    }));
+
+    let found = 0;
+
+    for (const person of mentioned) {
+      const lowered = person.trim().toLowerCase();
+
+      if (lowered.includes('@')) {
+        if (attendeeNames.some((attendee) => attendee.email === lowered)) found++;
+        continue;
+      }
+
+      const firstName = normalizeName(person).split(' ')[0];
+      if (firstName && attendeeNames.some((attendee) => attendee.words.includes(firstName))) {
+        found++;
+      }
+    }
+
+    return found / mentioned.length;
+  }
+}
+
+function toTitleWords(normalized: string): string[] {
+  return normalized.split(' ').filter((word) => word && !TITLE_STOP_WORDS.has(word));
+}
+
+function toDateOnly(value?: string): string | undefined {
+  return value && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : undefined;
+}
+
+function toMinutes(time: string): number | null {
+  const match = time.match(/^(\d{1,2}):(\d{2})/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
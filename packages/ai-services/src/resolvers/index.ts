@@ -3,15 +3,25 @@
 
 import { logger } from '@imaginecalendar/logger';
 import type { CalendarIntent } from '../intent/types';
+import { zonedTimeToUtc } from '../utils/timezone';
 import { ContactResolver } from './contact-resolver';
+import type { CalendarResolver } from './calendar-resolver';
+import type { EventMatcher } from './event-matcher';
+import type { ConflictDetector } from './conflict-detector';
 import type {
   ContactResolutionResult,
   EventMatchResult,
   ConflictInfo,
   TimeResolutionResult,
   CalendarSelectionResult,
+  CalendarRoutingContext,
+  CalendarRoutingOption,
+  CalendarRoutingRule,
 } from './types';
 
+// Assumed length of a new event when none was mentioned, for conflict checks
+const DEFAULT_DURATION_MINUTES = 60;
+
 export interface ResolutionContext {
   userId: string;
   timezone: string;
@@ -26,6 +36,7 @@ export interface ResolutionResult {
   contactResolution?: ContactResolutionResult;
   eventMatch?: EventMatchResult;
   conflicts?: ConflictInfo;
+  calendarSelection?: CalendarSelectionResult;
 
   // What still needs clarification
   pendingClarifications: Array<{
@@ -40,8 +51,10 @@ export interface ResolutionResult {
 
 export class ResolutionPipeline {
   constructor(
-    private contactResolver?: ContactResolver
-    // More resolvers will be added here
+    private contactResolver?: ContactResolver,
+    private calendarResolver?: CalendarResolver,
+    private eventMatcher?: EventMatcher,
+    private conflictDetector?: ConflictDetector
   ) {}
 
   async resolve(
@@ -118,11 +131,59 @@ export class ResolutionPipeline {
       }
     }
 
-    // Step 3: For UPDATE/DELETE, we'd need to match the existing event
-    // TODO: Implement event matcher when we build it
+    // Step 3: Pick the target calendar for new events
+    if (intent.action === 'CREATE' && this.calendarResolver) {
+      const selection = await this.calendarResolver.resolve(context.userId, intent);
+
+      if (selection) {
+        result.calendarSelection = selection;
+
+        if (selection.needsClarification && selection.question) {
+          result.pendingClarifications.push({
+            type: 'calendar',
+            question: selection.question,
+            options: selection.availableCalendars?.map(c => c.name),
+          });
+        }
+      }
+    }
+
+    // Step 4: For UPDATE/DELETE, find the existing event being referred to
+    if ((intent.action === 'UPDATE' || intent.action === 'DELETE') && this.eventMatcher) {
+      result.eventMatch = await this.eventMatcher.match(context.userId, intent, context.timezone);
 
-    // Step 4: Check for conflicts (once we have all details)
-    // TODO: Implement conflict detector
+      if (result.eventMatch.needsClarification && result.eventMatch.question) {
+        result.pendingClarifications.push({
+          type: 'event_match',
+          question: result.eventMatch.question,
+          options: result.eventMatch.matches.map(m => m.title),
+        });
+      }
+    }
+
+    // Step 5: Check for conflicts once the new time is known
+    const newStartDate = intent.action === 'CREATE' || intent.action === 'UPDATE' ? intent.startDate : undefined;
+    if (newStartDate && intent.startTime && !intent.isAllDay && this.conflictDetector) {
+      const start = zonedTimeToUtc(newStartDate.slice(0, 10), intent.startTime, context.timezone);
+      const end = new Date(start.getTime() + (intent.duration ?? DEFAULT_DURATION_MINUTES) * 60 * 1000);
+      const movingEvent = result.eventMatch?.needsClarification ? undefined : result.eventMatch?.matches[0];
+
+      result.conflicts = await this.conflictDetector.detect(
+        context.userId,
+        // An event being moved can't clash with itself
+        { start, end, excludeEventId: movingEvent?.id },
+        context.timezone
+      );
+
+      if (result.conflicts.hasConflict) {
+        const titles = result.conflicts.conflicts.map(c => `"${c.title}"`).join(', ');
+        result.pendingClarifications.push({
+          type: 'conflict',
+          question: `You already have ${titles} at that time.${result.conflicts.suggestion ? ` ${result.conflicts.suggestion}` : ''}`,
+          options: ['Keep both', 'Move new event', 'Cancel'],
+        });
+      }
+    }
 
     // Determine if we're complete
     result.isComplete = result.pendingClarifications.length === 0;
@@ -148,12 +209,23 @@ export class ResolutionPipeline {
 // Export types and resolvers
 export { ContactResolver } from './contact-resolver';
 export type { ICalendarService } from './contact-resolver';
+export { CalendarResolver } from './calendar-resolver';
+export type { ICalendarRoutingService } from './calendar-resolver';
+export { EventMatcher } from './event-matcher';
+export type { CandidateEvent, EventSearchCriteria, IEventSearchService } from './event-matcher';
+export { ConflictDetector } from './conflict-detector';
+export type { BusyEvent, IConflictService } from './conflict-detector';
 export type {
   ContactResolutionResult,
   ContactMatch,
+  DirectoryContact,
+  ContactAlias,
   EventMatchResult,
   EventMatch,
   ConflictInfo,
   TimeResolutionResult,
   CalendarSelectionResult,
+  CalendarRoutingContext,
+  CalendarRoutingOption,
+  CalendarRoutingRule,
 } from './types';
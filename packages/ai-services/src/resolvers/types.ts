@@ -3,7 +3,21 @@
 export interface ContactMatch {
   name: string;
   email: string;
-  source: 'google' | 'microsoft';
+  source: 'google' | 'microsoft' | 'personal'; // personal: saved by the user rather than synced
+}
+
+// A contact from the user's synced directory
+export interface DirectoryContact extends ContactMatch {
+  nicknames?: string[];
+  meetingCount?: number; // Meetings with this person in the recent past
+  lastMetAt?: Date | string | null;
+}
+
+// User-defined name for a person, e.g. "my boss" -> jane@acme.com
+export interface ContactAlias {
+  alias: string;
+  email: string;
+  name?: string | null;
 }
 
 export interface ContactResolutionResult {
@@ -41,6 +55,7 @@ export interface ConflictInfo {
     end: Date;
   }>;
   suggestion?: string; // e.g., "Move to 3:30pm?"
+  suggestedStart?: Date; // Start of the suggested free slot
 }
 
 export interface TimeResolutionResult {
@@ -50,10 +65,32 @@ export interface TimeResolutionResult {
   suggestions?: string[]; // e.g., ["9am", "2pm", "5pm"]
 }
 
+export interface CalendarRoutingOption {
+  id: string;
+  name: string;
+  provider: 'google' | 'microsoft';
+  email: string;
+  isPrimary: boolean;
+}
+
+export interface CalendarRoutingRule {
+  keyword: string;
+  calendarId: string;
+}
+
+export interface CalendarRoutingContext {
+  calendars: CalendarRoutingOption[];
+  rules: CalendarRoutingRule[];
+  defaultCalendarId: string | null;
+}
+
 export interface CalendarSelectionResult {
   calendarId: string;
   calendarName: string;
+  source: 'named' | 'rule' | 'default' | 'primary';
+  matchedKeyword?: string;
   needsClarification: boolean;
+  question?: string;
   availableCalendars?: Array<{
     id: string;
     name: string;
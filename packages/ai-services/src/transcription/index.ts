@@ -29,6 +29,14 @@ export class TranscriptionService {
 
       const duration = Date.now() - startTime;
 
+      options.onAttempt?.({
+        provider: primaryProvider,
+        success: true,
+        fallback: false,
+        durationMs: duration,
+        audioSeconds: result.durationInSeconds,
+      });
+
       logger.info(
         {
           provider: primaryProvider,
@@ -51,6 +59,14 @@ export class TranscriptionService {
         provider: primaryProvider,
       };
     } catch (error) {
+      options.onAttempt?.({
+        provider: primaryProvider,
+        success: false,
+        fallback: false,
+        durationMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
       logger.error(
         {
           provider: primaryProvider,
@@ -84,6 +100,8 @@ export class TranscriptionService {
       'Attempting transcription with fallback provider'
     );
 
+    const startTime = Date.now();
+
     try {
       const model = getTranscriptionModel(fallbackProvider);
 
@@ -93,6 +111,14 @@ export class TranscriptionService {
         providerOptions: this.getProviderOptions(fallbackProvider, options),
       });
 
+      options.onAttempt?.({
+        provider: fallbackProvider,
+        success: true,
+        fallback: true,
+        durationMs: Date.now() - startTime,
+        audioSeconds: result.durationInSeconds,
+      });
+
       logger.info({ fallback: fallbackProvider }, 'Fallback transcription succeeded');
 
       return {
@@ -108,6 +134,14 @@ export class TranscriptionService {
         fallbackUsed: true,
       };
     } catch (error) {
+      options.onAttempt?.({
+        provider: fallbackProvider,
+        success: false,
+        fallback: true,
+        durationMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
       logger.error(
         { fallback: fallbackProvider, error },
         'Fallback transcription also failed'
@@ -165,4 +199,4 @@ export class TranscriptionService {
 }
 
 // Export types
-export type { TranscriptionOptions, TranscriptionResult, TranscriptSegment } from './types';
+export type { TranscriptionOptions, TranscriptionResult, TranscriptSegment, TranscriptionAttempt } from './types';
@@ -5,6 +5,16 @@ export interface TranscriptionOptions {
   language?: string;           // ISO 639-1 code ('en', 'es', etc.)
   enableTimestamps?: boolean;  // Get word-level timestamps
   enableFallback?: boolean;    // Use fallback on failure
+  onAttempt?: (attempt: TranscriptionAttempt) => void; // Called after every provider call, successful or not
+}
+
+export interface TranscriptionAttempt {
+  provider: string;
+  success: boolean;
+  fallback: boolean;           // Whether this was the fallback provider
+  durationMs: number;
+  audioSeconds?: number;       // Only known when the provider returned a result
+  error?: string;
 }
 
 export interface TranscriptionResult {
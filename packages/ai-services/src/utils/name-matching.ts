@@ -0,0 +1,201 @@
+/**
+ * Name matching helpers for resolving spoken names against a contact list.
+ * Transcripts often spell names the way they sound ("Shawn" for "Sean"),
+ * so exact comparison is backed by phonetic codes and edit distance.
+ */
+
+// Common given names and their short forms, in both directions
+const NAME_VARIANT_GROUPS: string[][] = [
+  ['robert', 'rob', 'robbie', 'bob', 'bobby'],
+  ['william', 'will', 'willy', 'bill', 'billy', 'liam'],
+  ['elizabeth', 'liz', 'lizzie', 'beth', 'betty', 'eliza'],
+  ['katherine', 'catherine', 'kathryn', 'kate', 'katie', 'kathy', 'cathy'],
+  ['michael', 'mike', 'mikey'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['richard', 'rich', 'rick', 'ricky', 'dick'],
+  ['thomas', 'tom', 'tommy'],
+  ['christopher', 'chris'],
+  ['christina', 'christine', 'chris', 'tina'],
+  ['jonathan', 'jon', 'jonny'],
+  ['john', 'jack', 'johnny'],
+  ['johannes', 'johan', 'hannes'],
+  ['joseph', 'joe', 'joey'],
+  ['daniel', 'dan', 'danny'],
+  ['matthew', 'matt'],
+  ['anthony', 'tony'],
+  ['andrew', 'andy', 'drew'],
+  ['alexander', 'alex', 'xander'],
+  ['alexandra', 'alex', 'lexi', 'sandra'],
+  ['nicholas', 'nick', 'nicky'],
+  ['benjamin', 'ben', 'benny'],
+  ['samuel', 'sam', 'sammy'],
+  ['samantha', 'sam', 'sammy'],
+  ['jennifer', 'jen', 'jenny'],
+  ['jessica', 'jess', 'jessie'],
+  ['margaret', 'maggie', 'meg', 'peggy'],
+  ['patricia', 'pat', 'patty', 'trish'],
+  ['patrick', 'pat', 'paddy'],
+  ['edward', 'ed', 'eddie', 'ted'],
+  ['theodore', 'theo', 'ted'],
+  ['charles', 'charlie', 'chuck'],
+  ['stephen', 'steven', 'steve'],
+  ['david', 'dave'],
+  ['susan', 'sue', 'suzy'],
+  ['deborah', 'debbie', 'deb'],
+  ['rebecca', 'becky', 'becca'],
+  ['victoria', 'vicky', 'tori'],
+  ['zachary', 'zach', 'zack'],
+  ['timothy', 'tim', 'timmy'],
+  ['gregory', 'greg'],
+  ['jeffrey', 'jeff'],
+  ['kenneth', 'ken', 'kenny'],
+  ['ronald', 'ron', 'ronnie'],
+  ['donald', 'don', 'donny'],
+  ['lawrence', 'larry'],
+  ['frederick', 'fred', 'freddie'],
+  ['abigail', 'abby'],
+  ['nathaniel', 'nathan', 'nate'],
+  ['jacob', 'jake'],
+  ['pieter', 'piet'],
+  ['hendrik', 'henk'],
+];
+
+const NAME_VARIANTS = new Map<string, Set<string>>();
+for (const group of NAME_VARIANT_GROUPS) {
+  for (const name of group) {
+    const variants = NAME_VARIANTS.get(name) ?? new Set<string>();
+    for (const other of group) {
+      if (other !== name) variants.add(other);
+    }
+    NAME_VARIANTS.set(name, variants);
+  }
+}
+
+// Soundex digit for each consonant; vowels and h/w/y are dropped
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
+/**
+ * Lower-case, strip accents and punctuation, and collapse whitespace
+ */
+export function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/'/g, '')
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Known short and long forms of a given name, e.g. "bob" -> robert, rob, robbie, bobby
+ */
+export function getNameVariants(name: string): Set<string> {
+  return NAME_VARIANTS.get(normalizeName(name)) ?? new Set<string>();
+}
+
+/**
+ * American Soundex code of a single word, e.g. "Sean" and "Shawn" both give S500
+ */
+export function soundex(word: string): string {
+  const letters = normalizeName(word).replace(/[^a-z]/g, '');
+  if (!letters) {
+    return '';
+  }
+
+  const first = letters[0]!;
+  let code = first.toUpperCase();
+  let previous = SOUNDEX_CODES[first] ?? '';
+
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter];
+
+    if (digit) {
+      if (digit !== previous) {
+        code += digit;
+      }
+      previous = digit;
+    } else if (letter !== 'h' && letter !== 'w') {
+      // Vowels separate repeated codes; h and w do not
+      previous = '';
+    }
+
+    if (code.length === 4) break;
+  }
+
+  return code.padEnd(4, '0');
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      currentRow[j] = Math.min(
+        previousRow[j]! + 1,
+        currentRow[j - 1]! + 1,
+        previousRow[j - 1]! + cost
+      );
+    }
+
+    previousRow = currentRow;
+  }
+
+  return previousRow[b.length]!;
+}
+
+/**
+ * Edit distance scaled to 0-1, where 1 means identical
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  const longest = Math.max(left.length, right.length);
+
+  if (longest === 0) {
+    return 0;
+  }
+
+  return 1 - editDistance(left, right) / longest;
+}
+
+/**
+ * Whether two single names are probably the same name heard differently.
+ * Soundex alone is too coarse ("Sam" and "Sean" share a code), so the spelling
+ * must also be reasonably close. The first letter may differ when it sounds the
+ * same, as in "Catherine" and "Kathryn".
+ */
+export function soundsAlike(a: string, b: string): boolean {
+  const left = soundex(a);
+  const right = soundex(b);
+
+  if (!left || !right || left.slice(1) !== right.slice(1)) {
+    return false;
+  }
+
+  const firstLeft = left[0]!.toLowerCase();
+  const firstRight = right[0]!.toLowerCase();
+  const sameSound = firstLeft === firstRight
+    || (SOUNDEX_CODES[firstLeft] !== undefined && SOUNDEX_CODES[firstLeft] === SOUNDEX_CODES[firstRight])
+    || ('aeiou'.includes(firstLeft) && 'aeiou'.includes(firstRight));
+
+  return sameSound && nameSimilarity(a, b) >= 0.55;
+}
@@ -3,6 +3,71 @@
  * without external dependencies using Intl.DateTimeFormat
  */
 
+export const DEFAULT_TIMEZONE = 'Africa/Johannesburg';
+
+/**
+ * Checks whether a string is an IANA timezone identifier the runtime understands
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the UTC offset of a timezone at the given instant, in minutes (e.g. 120 for GMT+2)
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const local = formatDateToLocalIso(date, timeZone);
+  const localAsUtc = Date.parse(local);
+  const utc = Math.floor(date.getTime() / 1000) * 1000;
+
+  return Math.round((localAsUtc - utc) / 60000);
+}
+
+/**
+ * Formats an offset in minutes as an ISO 8601 offset string (e.g. "+02:00")
+ */
+export function formatTimeZoneOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  const minutes = String(absolute % 60).padStart(2, '0');
+
+  return `${sign}${hours}:${minutes}`;
+}
+
+/**
+ * Converts a local wall-clock date and time in a timezone to the matching instant
+ *
+ * @param date - Local date in YYYY-MM-DD format
+ * @param time - Local time in HH:mm format (defaults to midnight)
+ * @param timeZone - IANA timezone identifier
+ */
+export function zonedTimeToUtc(date: string, time: string | undefined, timeZone: string): Date {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const [hours, minutes] = (time ?? '00:00').split(':').map(Number);
+
+  const wallClock = Date.UTC(year ?? Number.NaN, (month ?? Number.NaN) - 1, day ?? Number.NaN, hours ?? 0, minutes ?? 0);
+
+  if (Number.isNaN(wallClock)) {
+    throw new Error(`Invalid local date/time: ${date} ${time ?? ''}`.trim());
+  }
+
+  // Offsets can differ either side of a DST change, so re-check at the first guess
+  const firstGuess = wallClock - getTimeZoneOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  const offset = getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone);
+
+  return new Date(wallClock - offset * 60000);
+}
+
 /**
  * Formats a date to local ISO string in the specified timezone
  * Output format: YYYY-MM-DDTHH:mm:ss.000Z (local time with Z suffix)
@@ -34,7 +99,7 @@ export function formatDateToLocalIso(
     hour: '2-digit',
     minute: '2-digit',
     second: '2-digit',
-    hour12: false,
+    hourCycle: 'h23', // hour12: false renders midnight as "24" in some runtimes
   });
 
   const parts = formatter.formatToParts(dateObj);
@@ -110,3 +175,27 @@ export function formatDateToLocalLabel(
 
   return `${partsMap.year}-${partsMap.month}-${partsMap.day} ${partsMap.hour}:${partsMap.minute}`;
 }
+
+/**
+ * Short human-readable date and time in the given timezone, e.g. "Tue 21 Oct, 14:30"
+ */
+export function formatDateToLocalDisplay(
+  date: Date | string,
+  timeZone: string
+): string {
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+
+  if (Number.isNaN(dateObj.getTime())) {
+    throw new Error(`Invalid date: ${date}`);
+  }
+
+  return dateObj.toLocaleString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone,
+  });
+}
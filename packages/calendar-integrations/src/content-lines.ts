@@ -0,0 +1,103 @@
+// Shared reader for the RFC 5545 / RFC 6350 line format used by iCalendar and vCard files
+
+export interface ContentLine {
+  name: string; // Upper-cased, without any "item1." group prefix
+  params: Record<string, string>; // Upper-cased parameter names, unquoted values
+  value: string; // Raw value; text values still need unescapeText
+}
+
+/**
+ * Split a document into content lines, unfolding continuation lines first
+ */
+export function parseContentLines(content: string): ContentLine[] {
+  const unfolded = content
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n|\r/g, "\n")
+    .replace(/\n[ \t]/g, "");
+
+  const lines: ContentLine[] = [];
+
+  for (const rawLine of unfolded.split("\n")) {
+    const line = parseContentLine(rawLine);
+    if (line) {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Undo the backslash escaping of TEXT values
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+function parseContentLine(rawLine: string): ContentLine | null {
+  if (!rawLine.trim()) {
+    return null;
+  }
+
+  // The name and parameters end at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let separator = -1;
+
+  for (let index = 0; index < rawLine.length; index++) {
+    const char = rawLine[index];
+
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ":" && !inQuotes) {
+      separator = index;
+      break;
+    }
+  }
+
+  if (separator <= 0) {
+    return null;
+  }
+
+  const [rawName = "", ...rawParams] = splitOutsideQuotes(rawLine.slice(0, separator), ";");
+  const params: Record<string, string> = {};
+
+  for (const rawParam of rawParams) {
+    const equals = rawParam.indexOf("=");
+
+    // vCard 2.1 writes bare types such as "EMAIL;INTERNET:"
+    if (equals === -1) {
+      params.TYPE = params.TYPE ? `${params.TYPE},${rawParam}` : rawParam;
+      continue;
+    }
+
+    params[rawParam.slice(0, equals).toUpperCase()] = rawParam.slice(equals + 1).replace(/^"|"$/g, "");
+  }
+
+  return {
+    name: rawName.replace(/^[^.]*\./, "").toUpperCase(),
+    params,
+    value: rawLine.slice(separator + 1),
+  };
+}
+
+function splitOutsideQuotes(value: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (const char of value) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    }
+
+    if (char === delimiter && !inQuotes) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, test } from "bun:test";
+import { parseICalendar } from "./icalendar";
+
+function calendar(...lines: string[]): string {
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR"].join("\r\n");
+}
+
+function event(...lines: string[]): string[] {
+  return ["BEGIN:VEVENT", ...lines, "END:VEVENT"];
+}
+
+describe("parseICalendar", () => {
+  test("reads a forwarded invite", () => {
+    const [invite, ...rest] = parseICalendar(
+      calendar(
+        "METHOD:REQUEST",
+        ...event(
+          "UID:abc-123",
+          "SUMMARY:Quarterly review\\, Q1",
+          "DESCRIPTION:Agenda:\\nNumbers",
+          "  and plans",
+          "LOCATION:Boardroom",
+          "DTSTART;TZID=Africa/Johannesburg:20250310T090000",
+          "DTEND;TZID=Africa/Johannesburg:20250310T100000",
+          "RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=4",
+          'ATTENDEE;CN="Sipho, M";ROLE=REQ-PARTICIPANT:mailto:Sipho@Example.com',
+          "ATTENDEE;EMAIL=lerato@example.com:urn:uuid:1234",
+          "BEGIN:VALARM",
+          "ACTION:DISPLAY",
+          "TRIGGER:-PT15M",
+          "END:VALARM"
+        )
+      )
+    );
+
+    expect(rest).toHaveLength(0);
+    expect(invite).toEqual({
+      uid: "abc-123",
+      title: "Quarterly review, Q1",
+      description: "Agenda:\nNumbers and plans",
+      location: "Boardroom",
+      start: new Date("2025-03-10T07:00:00Z"),
+      end: new Date("2025-03-10T08:00:00Z"),
+      allDay: false,
+      timeZone: "Africa/Johannesburg",
+      recurrence: { frequency: "WEEKLY", byDay: ["MO"], count: 4 },
+      attendees: ["sipho@example.com", "lerato@example.com"],
+      reminderMinutes: 15,
+    });
+  });
+
+  test("reads all-day dates in the default timezone", () => {
+    const [holiday] = parseICalendar(
+      calendar(...event("UID:1", "SUMMARY:Holiday", "DTSTART;VALUE=DATE:20250321")),
+      { defaultTimeZone: "Africa/Johannesburg" }
+    );
+
+    expect(holiday?.allDay).toBe(true);
+    expect(holiday?.start).toEqual(new Date("2025-03-20T22:00:00Z"));
+    expect(holiday?.end).toEqual(new Date("2025-03-21T22:00:00Z"));
+    expect(holiday?.timeZone).toBe("Africa/Johannesburg");
+  });
+
+  test("falls back to the default timezone for zones that aren't IANA names", () => {
+    const [meeting] = parseICalendar(
+      calendar(
+        ...event(
+          "UID:1",
+          "DTSTART;TZID=South Africa Standard Time:20250310T090000",
+          "DTEND;TZID=South Africa Standard Time:20250310T093000"
+        )
+      ),
+      { defaultTimeZone: "Europe/London" }
+    );
+
+    expect(meeting?.start).toEqual(new Date("2025-03-10T09:00:00Z"));
+    expect(meeting?.timeZone).toBe("Europe/London");
+    expect(meeting?.title).toBe("Untitled event");
+  });
+
+  test("works out the end from DURATION", () => {
+    const [timed, allDay, instant] = parseICalendar(
+      calendar(
+        ...event("UID:1", "DTSTART:20250310T090000Z", "DURATION:PT1H30M"),
+        ...event("UID:2", "DTSTART;VALUE=DATE:20250310", "DURATION:P1W2D"),
+        ...event("UID:3", "DTSTART:20250310T090000Z", "DURATION:P")
+      )
+    );
+
+    expect(timed?.end).toEqual(new Date("2025-03-10T10:30:00Z"));
+    expect(allDay?.end).toEqual(new Date("2025-03-19T00:00:00Z"));
+    // An empty duration is ignored, leaving a timed event as an instant
+    expect(instant?.end).toEqual(new Date("2025-03-10T09:00:00Z"));
+  });
+
+  test("reads alarm triggers in days and ignores ones relative to the end", () => {
+    const [early, fromEnd] = parseICalendar(
+      calendar(
+        ...event("UID:1", "DTSTART:20250310T090000Z", "BEGIN:VALARM", "TRIGGER:-P1DT2H", "END:VALARM"),
+        ...event("UID:2", "DTSTART:20250310T090000Z", "BEGIN:VALARM", "TRIGGER;RELATED=END:-PT5M", "END:VALARM")
+      )
+    );
+
+    expect(early?.reminderMinutes).toBe(26 * 60);
+    expect(fromEnd?.reminderMinutes).toBeUndefined();
+  });
+
+  test("leaves out cancellations", () => {
+    expect(parseICalendar(calendar("METHOD:CANCEL", ...event("UID:1", "DTSTART:20250310T090000Z")))).toEqual([]);
+    expect(parseICalendar(calendar(...event("UID:1", "STATUS:CANCELLED", "DTSTART:20250310T090000Z")))).toEqual([]);
+  });
+
+  test("leaves out changed instances of a series in the same file", () => {
+    const withSeries = parseICalendar(
+      calendar(
+        ...event("UID:series", "DTSTART:20250310T090000Z", "RRULE:FREQ=DAILY"),
+        ...event("UID:series", "RECURRENCE-ID:20250311T090000Z", "DTSTART:20250311T100000Z")
+      )
+    );
+    const alone = parseICalendar(
+      calendar(...event("UID:series", "RECURRENCE-ID:20250311T090000Z", "DTSTART:20250311T100000Z"))
+    );
+
+    expect(withSeries).toHaveLength(1);
+    expect(withSeries[0]?.recurrence).toEqual({ frequency: "DAILY" });
+    expect(alone[0]?.start).toEqual(new Date("2025-03-11T10:00:00Z"));
+  });
+
+  test("skips events without a readable start", () => {
+    expect(parseICalendar(calendar(...event("UID:1", "SUMMARY:No start")))).toEqual([]);
+  });
+});
@@ -0,0 +1,251 @@
+import { isValidTimeZone, zonedTimeToUtc } from "@imaginecalendar/ai-services/timezone";
+import { type ContentLine, parseContentLines, unescapeText } from "./content-lines";
+import { parseRRule } from "./recurrence";
+import type { CreateEventParams } from "./types";
+
+// An event read from an invite, ready to create once a calendar is chosen
+export interface ICalendarEvent extends Omit<CreateEventParams, "calendarId"> {
+  uid?: string;
+}
+
+export interface ParseICalendarOptions {
+  // Used for floating times, all-day dates and TZIDs that aren't IANA names (e.g. Outlook's Windows zones)
+  defaultTimeZone?: string;
+}
+
+interface ICalendarDate {
+  date: Date;
+  allDay: boolean;
+  timeZone?: string;
+}
+
+const DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+const DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+const DURATION_PATTERN = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+/**
+ * Read the events of an iCalendar (.ics) document, such as a forwarded meeting invite.
+ * Cancelled events and changed instances of a series that is also in the file are left out.
+ */
+export function parseICalendar(content: string, options: ParseICalendarOptions = {}): ICalendarEvent[] {
+  const defaultTimeZone = isValidTimeZone(options.defaultTimeZone) ? options.defaultTimeZone : "UTC";
+  const lines = parseContentLines(content);
+
+  const method = lines.find((line) => line.name === "METHOD")?.value.trim().toUpperCase();
+  if (method === "CANCEL") {
+    return [];
+  }
+
+  const components = collectEvents(lines);
+  const seriesUids = new Set(
+    components
+      .filter((component) => !component.some((line) => line.name === "RECURRENCE-ID"))
+      .map((component) => component.find((line) => line.name === "UID")?.value.trim())
+      .filter(Boolean)
+  );
+
+  const events: ICalendarEvent[] = [];
+
+  for (const component of components) {
+    const property = (name: string) => component.find((line) => line.name === name);
+    const uid = property("UID")?.value.trim() || undefined;
+
+    if (property("STATUS")?.value.trim().toUpperCase() === "CANCELLED") {
+      continue;
+    }
+
+    // Providers apply the series' own exceptions when the whole series is imported
+    if (property("RECURRENCE-ID") && uid && seriesUids.has(uid)) {
+      continue;
+    }
+
+    const startLine = property("DTSTART");
+    const start = startLine ? parseDateValue(startLine, defaultTimeZone) : null;
+
+    if (!start) {
+      continue;
+    }
+
+    const endLine = property("DTEND") ?? property("DUE");
+    const durationMs = parseDuration(property("DURATION")?.value ?? "");
+    let end = endLine ? parseDateValue(endLine, defaultTimeZone)?.date : undefined;
+
+    if (!end || end < start.date) {
+      // All-day events last a day and timed ones are instants unless told otherwise (RFC 5545 3.6.1)
+      end = new Date(start.date.getTime() + (durationMs ?? (start.allDay ? 24 * 60 * 60 * 1000 : 0)));
+    }
+
+    const rrule = property("RRULE");
+    const recurrence = rrule ? parseRRule(rrule.value) ?? undefined : undefined;
+    const attendees = collectAttendees(component);
+    const reminderMinutes = findReminderMinutes(component);
+
+    events.push({
+      uid,
+      title: textValue(property("SUMMARY")) || "Untitled event",
+      description: textValue(property("DESCRIPTION")),
+      location: textValue(property("LOCATION")),
+      start: start.date,
+      end,
+      allDay: start.allDay,
+      timeZone: start.timeZone ?? defaultTimeZone,
+      ...(recurrence && { recurrence }),
+      ...(attendees.length && { attendees }),
+      ...(reminderMinutes !== undefined && { reminderMinutes }),
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Group the lines of every top-level VEVENT, keeping VALARM lines with their event
+ */
+function collectEvents(lines: ContentLine[]): ContentLine[][] {
+  const events: ContentLine[][] = [];
+  const stack: string[] = [];
+  let current: ContentLine[] | null = null;
+
+  for (const line of lines) {
+    if (line.name === "BEGIN") {
+      const component = line.value.trim().toUpperCase();
+      stack.push(component);
+
+      if (component === "VEVENT" && !current) {
+        current = [];
+      } else if (current) {
+        current.push(line);
+      }
+      continue;
+    }
+
+    if (line.name === "END") {
+      const component = stack.pop();
+
+      if (component === "VEVENT" && current && !stack.includes("VEVENT")) {
+        events.push(current);
+        current = null;
+      } else if (current) {
+        current.push(line);
+      }
+      continue;
+    }
+
+    // Alarm properties are prefixed (e.g. "VALARM:TRIGGER") so they can't be mistaken for the event's own
+    if (current && stack[stack.length - 1] === "VEVENT") {
+      current.push(line);
+    } else if (current) {
+      current.push({ ...line, name: `${stack[stack.length - 1]}:${line.name}` });
+    }
+  }
+
+  return events;
+}
+
+function collectAttendees(component: ContentLine[]): string[] {
+  const emails = new Set<string>();
+
+  for (const line of component) {
+    if (line.name !== "ATTENDEE") {
+      continue;
+    }
+
+    // The address is usually a mailto: URI, with EMAIL= used when it isn't
+    const address = line.value.trim().replace(/^mailto:/i, "") || line.params.EMAIL || "";
+    const email = address.includes("@") ? address : line.params.EMAIL;
+
+    if (email?.includes("@")) {
+      emails.add(email.trim().toLowerCase());
+    }
+  }
+
+  return [...emails];
+}
+
+/**
+ * Minutes before the start of the first display or audio alarm, when it is relative to the start
+ */
+function findReminderMinutes(component: ContentLine[]): number | undefined {
+  for (const line of component) {
+    if (line.name !== "VALARM:TRIGGER" || line.params.VALUE === "DATE-TIME" || line.params.RELATED === "END") {
+      continue;
+    }
+
+    const offsetMs = parseDuration(line.value.trim());
+
+    if (offsetMs !== null && offsetMs <= 0) {
+      return Math.round(-offsetMs / 60000);
+    }
+  }
+
+  return undefined;
+}
+
+function textValue(line: ContentLine | undefined): string | undefined {
+  const value = line ? unescapeText(line.value).trim() : "";
+  return value || undefined;
+}
+
+function parseDateValue(line: ContentLine, defaultTimeZone: string): ICalendarDate | null {
+  const value = line.value.trim();
+  const dateMatch = value.match(DATE_PATTERN);
+
+  if (dateMatch || line.params.VALUE === "DATE") {
+    const [, year, month, day] = dateMatch ?? value.match(/^(\d{4})(\d{2})(\d{2})/) ?? [];
+    if (!year || !month || !day) {
+      return null;
+    }
+
+    // All-day events start at midnight in the user's timezone, which is where providers read the date from
+    return {
+      date: zonedTimeToUtc(`${year}-${month}-${day}`, undefined, defaultTimeZone),
+      allDay: true,
+    };
+  }
+
+  const match = value.match(DATE_TIME_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second] = match;
+
+  if (match[7] === "Z") {
+    return { date: new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`), allDay: false };
+  }
+
+  // Outlook names zones like "South Africa Standard Time", which aren't IANA names
+  const tzid = line.params.TZID?.replace(/^\/[^/]*\/[^/]*\//, "");
+  const timeZone = isValidTimeZone(tzid) ? tzid : defaultTimeZone;
+
+  // Seconds never move the offset, so they are added after the conversion
+  const date = zonedTimeToUtc(`${year}-${month}-${day}`, `${hour}:${minute}`, timeZone);
+
+  return {
+    date: new Date(date.getTime() + Number(second) * 1000),
+    allDay: false,
+    timeZone,
+  };
+}
+
+/**
+ * Length of an RFC 5545 duration in milliseconds, negative for "-PT15M"
+ */
+function parseDuration(value: string): number | null {
+  const match = value.trim().toUpperCase().match(DURATION_PATTERN);
+
+  if (!match || value.trim().length <= 2) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const totalSeconds =
+    Number(weeks ?? 0) * 7 * 86400 +
+    Number(days ?? 0) * 86400 +
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Number(seconds ?? 0);
+
+  return (sign === "-" ? -1 : 1) * totalSeconds * 1000;
+}
+
@@ -1,5 +1,9 @@
 export * from "./types";
 export * from "./oauth";
+export * from "./recurrence";
+export * from "./timezone";
+export * from "./icalendar";
+export * from "./vcard";
 export * from "./providers/factory";
 export { GoogleCalendarProvider } from "./providers/google";
 export { MicrosoftCalendarProvider } from "./providers/microsoft";
\ No newline at end of file
@@ -25,6 +25,12 @@ export const MICROSOFT_OAUTH_CONFIG: OAuthConfig = {
   ],
 };
 
+// Only requested once the user chooses to save a contact to their account
+export const CONTACTS_WRITE_SCOPES = {
+  google: "https://www.googleapis.com/auth/contacts",
+  microsoft: "https://graph.microsoft.com/Contacts.ReadWrite",
+} as const;
+
 // OAuth endpoints
 export const OAUTH_ENDPOINTS = {
   google: {
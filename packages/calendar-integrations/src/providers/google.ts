@@ -1,16 +1,24 @@
-import { google } from "googleapis";
+import { randomUUID } from "node:crypto";
+import { type calendar_v3, type people_v1, google } from "googleapis";
 import type {
+  AuthUrlOptions,
   CalendarProvider,
   OAuthTokens,
   Calendar,
   ConnectionTestResult,
   UserInfo,
   Contact,
+  ContactSyncResult,
+  SyncedContact,
   CreateEventParams,
   UpdateEventParams,
   DeleteEventParams,
+  GetEventParams,
   SearchEventsParams,
-  CreatedEvent
+  CreatedEvent,
+  FreeBusyParams,
+  FreeBusyCalendar,
+  RecurrenceRule
 } from "../types";
 import {
   oauthTokensSchema,
@@ -19,7 +27,12 @@ import {
   googleCalendarDetailSchema,
   connectionTestResultSchema
 } from "../types";
-import { GOOGLE_OAUTH_CONFIG } from "../oauth";
+import { CONTACTS_WRITE_SCOPES, GOOGLE_OAUTH_CONFIG } from "../oauth";
+import { parseRRule, toRRule } from "../recurrence";
+import { toZonedDateString } from "../timezone";
+
+// Google rejects reminders more than four weeks ahead
+const MAX_REMINDER_MINUTES = 40320;
 
 export class GoogleCalendarProvider implements CalendarProvider {
   private oauth2Client: any;
@@ -32,11 +45,13 @@ export class GoogleCalendarProvider implements CalendarProvider {
     );
   }
 
-  getAuthUrl(redirectUri: string, state?: string): string {
+  getAuthUrl(redirectUri: string, state?: string, options?: AuthUrlOptions): string {
     return this.oauth2Client.generateAuthUrl({
       access_type: "offline",
       prompt: "consent", // Force refresh token
-      scope: GOOGLE_OAUTH_CONFIG.scopes,
+      scope: options?.contactsWrite
+        ? [...GOOGLE_OAUTH_CONFIG.scopes, CONTACTS_WRITE_SCOPES.google]
+        : GOOGLE_OAUTH_CONFIG.scopes,
       redirect_uri: redirectUri,
       state,
     });
@@ -258,11 +273,11 @@ export class GoogleCalendarProvider implements CalendarProvider {
       // Handle all-day vs timed events
       if (params.allDay) {
         event.start = {
-          date: params.start.toISOString().split('T')[0], // YYYY-MM-DD
+          date: toZonedDateString(params.start, params.timeZone), // YYYY-MM-DD
           timeZone: params.timeZone || 'UTC',
         };
         event.end = {
-          date: params.end.toISOString().split('T')[0],
+          date: toZonedDateString(params.end, params.timeZone),
           timeZone: params.timeZone || 'UTC',
         };
       } else {
@@ -276,10 +291,23 @@ export class GoogleCalendarProvider implements CalendarProvider {
         };
       }
 
+      if (params.recurrence) {
+        event.recurrence = [toRRule(params.recurrence, params.allDay)];
+      }
+
+      if (params.addMeetingLink) {
+        event.conferenceData = meetConferenceRequest();
+      }
+
+      if (params.reminderMinutes !== undefined) {
+        event.reminders = popupReminder(params.reminderMinutes);
+      }
+
       const response = await calendar.events.insert({
         calendarId: params.calendarId,
         requestBody: event,
         sendUpdates: 'all', // Send email notifications to attendees
+        conferenceDataVersion: params.addMeetingLink ? 1 : 0,
       });
 
       if (!response.data.id || !response.data.summary) {
@@ -295,6 +323,8 @@ export class GoogleCalendarProvider implements CalendarProvider {
         location: response.data.location || undefined,
         attendees: response.data.attendees?.map(a => a.email || '') || undefined,
         htmlLink: response.data.htmlLink || undefined,
+        meetingUrl: getMeetUrl(response.data),
+        reminderMinutes: getReminderMinutes(response.data),
       };
     } catch (error: any) {
       // Preserve error code/status for auth error detection
@@ -342,11 +372,11 @@ export class GoogleCalendarProvider implements CalendarProvider {
 
         if (params.allDay) {
           updates.start = {
-            date: startDate.toISOString().split('T')[0],
+            date: toZonedDateString(startDate, params.timeZone),
             timeZone: params.timeZone || existing.data.start?.timeZone || 'UTC',
           };
           updates.end = {
-            date: endDate.toISOString().split('T')[0],
+            date: toZonedDateString(endDate, params.timeZone),
             timeZone: params.timeZone || existing.data.end?.timeZone || 'UTC',
           };
         } else {
@@ -361,11 +391,27 @@ export class GoogleCalendarProvider implements CalendarProvider {
         }
       }
 
+      if (params.recurrence !== undefined) {
+        updates.recurrence = params.recurrence ? [toRRule(params.recurrence, params.allDay)] : [];
+      }
+
+      if (params.reminderMinutes !== undefined) {
+        updates.reminders = params.reminderMinutes === null
+          ? { useDefault: true, overrides: [] }
+          : popupReminder(params.reminderMinutes);
+      }
+
+      const addMeetingLink = params.addMeetingLink && !getMeetUrl(existing.data);
+      if (addMeetingLink) {
+        updates.conferenceData = meetConferenceRequest();
+      }
+
       const response = await calendar.events.patch({
         calendarId: params.calendarId,
         eventId: params.eventId,
         requestBody: updates,
         sendUpdates: 'all', // Notify attendees of changes
+        conferenceDataVersion: addMeetingLink ? 1 : 0,
       });
 
       if (!response.data.id || !response.data.summary) {
@@ -381,6 +427,8 @@ export class GoogleCalendarProvider implements CalendarProvider {
         location: response.data.location || undefined,
         attendees: response.data.attendees?.map(a => a.email || '') || undefined,
         htmlLink: response.data.htmlLink || undefined,
+        meetingUrl: getMeetUrl(response.data),
+        reminderMinutes: getReminderMinutes(response.data),
       };
     } catch (error: any) {
       throw new Error(`Failed to update Google Calendar event: ${error.message}`);
@@ -405,7 +453,7 @@ export class GoogleCalendarProvider implements CalendarProvider {
     }
   }
 
-  async searchEvents(accessToken: string, params: SearchEventsParams): Promise<CreatedEvent[]> {
+  async getEvent(accessToken: string, params: GetEventParams): Promise<CreatedEvent> {
     try {
       this.oauth2Client.setCredentials({
         access_token: accessToken,
@@ -413,24 +461,75 @@ export class GoogleCalendarProvider implements CalendarProvider {
 
       const calendar = google.calendar({ version: "v3", auth: this.oauth2Client });
 
-      const response = await calendar.events.list({
+      const response = await calendar.events.get({
         calendarId: params.calendarId,
-        q: params.query, // Free text search
-        timeMin: params.timeMin?.toISOString(),
-        timeMax: params.timeMax?.toISOString(),
-        maxResults: params.maxResults || 10,
-        singleEvents: true, // Expand recurring events
-        orderBy: 'startTime',
+        eventId: params.eventId,
       });
 
-      const events = response.data.items || [];
+      if (!response.data.id) {
+        throw new Error('Invalid response from Google Calendar API');
+      }
+
+      // Deleted events can still be read back, marked cancelled
+      if (response.data.status === 'cancelled') {
+        throw new Error(`Event ${params.eventId} not found`);
+      }
 
-      return events.map(event => ({
+      return {
+        id: response.data.id,
+        title: response.data.summary || 'Untitled Event',
+        description: response.data.description || undefined,
+        start: new Date(response.data.start?.dateTime || response.data.start?.date || ''),
+        end: new Date(response.data.end?.dateTime || response.data.end?.date || ''),
+        allDay: !response.data.start?.dateTime && !!response.data.start?.date,
+        location: response.data.location || undefined,
+        attendees: response.data.attendees?.map(a => a.email || '') || undefined,
+        htmlLink: response.data.htmlLink || undefined,
+        meetingUrl: getMeetUrl(response.data),
+        reminderMinutes: getReminderMinutes(response.data),
+        recurrence: getRecurrence(response.data),
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get Google Calendar event: ${error.message}`);
+    }
+  }
+
+  async searchEvents(accessToken: string, params: SearchEventsParams): Promise<CreatedEvent[]> {
+    try {
+      this.oauth2Client.setCredentials({
+        access_token: accessToken,
+      });
+
+      const calendar = google.calendar({ version: "v3", auth: this.oauth2Client });
+
+      const maxResults = params.maxResults || 10;
+      const events: calendar_v3.Schema$Event[] = [];
+      let pageToken: string | undefined;
+
+      // A page holds at most 250 events by default, so keep paging up to the requested limit
+      do {
+        const response = await calendar.events.list({
+          calendarId: params.calendarId,
+          q: params.query, // Free text search
+          timeMin: params.timeMin?.toISOString(),
+          timeMax: params.timeMax?.toISOString(),
+          maxResults: Math.min(maxResults - events.length, 250),
+          singleEvents: true, // Expand recurring events
+          orderBy: 'startTime',
+          pageToken,
+        });
+
+        events.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken && events.length < maxResults);
+
+      return events.slice(0, maxResults).map(event => ({
         id: event.id || '',
         title: event.summary || 'Untitled Event',
         description: event.description || undefined,
         start: new Date(event.start?.dateTime || event.start?.date || ''),
         end: new Date(event.end?.dateTime || event.end?.date || ''),
+        allDay: !event.start?.dateTime && !!event.start?.date,
         location: event.location || undefined,
         attendees: event.attendees?.map(a => a.email || '') || undefined,
         htmlLink: event.htmlLink || undefined,
@@ -440,36 +539,271 @@ export class GoogleCalendarProvider implements CalendarProvider {
     }
   }
 
-  async getContacts(accessToken: string): Promise<Contact[]> {
+  async getFreeBusy(accessToken: string, params: FreeBusyParams): Promise<FreeBusyCalendar[]> {
     try {
       this.oauth2Client.setCredentials({
         access_token: accessToken,
       });
 
-      const people = google.people({ version: "v1", auth: this.oauth2Client });
+      const calendar = google.calendar({ version: "v3", auth: this.oauth2Client });
 
-      // Fetch contacts with email addresses
-      const response = await people.people.connections.list({
-        resourceName: "people/me",
-        pageSize: 1000, // Max contacts to fetch
-        personFields: "names,emailAddresses",
+      const response = await calendar.freebusy.query({
+        requestBody: {
+          timeMin: params.timeMin.toISOString(),
+          timeMax: params.timeMax.toISOString(),
+          items: params.calendarIds.map((id) => ({ id })),
+        },
       });
 
-      const connections = response.data.connections || [];
-      const contacts: Contact[] = [];
+      const calendars = response.data.calendars || {};
+
+      return params.calendarIds.map((calendarId) => {
+        const entry = calendars[calendarId];
+        const errors = entry?.errors?.map((e) => e.reason).filter(Boolean);
+
+        return {
+          calendarId,
+          busy: (entry?.busy || [])
+            .filter((block) => block.start && block.end)
+            .map((block) => ({
+              start: new Date(block.start!),
+              end: new Date(block.end!),
+            })),
+          error: errors?.length ? errors.join(", ") : undefined,
+        };
+      });
+    } catch (error: any) {
+      throw new Error(`Failed to fetch Google Calendar free/busy: ${error.message}`);
+    }
+  }
+
+  async getContacts(accessToken: string): Promise<Contact[]> {
+    try {
+      const { contacts } = await this.syncContacts(accessToken, null);
+      return contacts.map(({ name, email }) => ({ name, email }));
+    } catch (error) {
+      throw new Error(`Failed to fetch Google contacts: ${error}`);
+    }
+  }
+
+  async syncContacts(accessToken: string, syncToken?: string | null): Promise<ContactSyncResult> {
+    this.oauth2Client.setCredentials({
+      access_token: accessToken,
+    });
+
+    const people = google.people({ version: "v1", auth: this.oauth2Client });
+    const result: ContactSyncResult = {
+      contacts: [],
+      deletedIds: [],
+      nextSyncToken: null,
+      fullSync: !syncToken,
+    };
 
-      for (const person of connections) {
-        const name = person.names?.[0]?.displayName;
-        const email = person.emailAddresses?.[0]?.value;
+    let pageToken: string | undefined;
 
-        if (name && email) {
-          contacts.push({ name, email });
+    try {
+      do {
+        const response = await people.people.connections.list({
+          resourceName: "people/me",
+          pageSize: 1000,
+          pageToken,
+          personFields: "names,nicknames,emailAddresses,metadata",
+          requestSyncToken: true,
+          syncToken: syncToken || undefined,
+        });
+
+        for (const person of response.data.connections || []) {
+          if (!person.resourceName) continue;
+
+          const name = person.names?.[0]?.displayName;
+          const email = person.emailAddresses?.[0]?.value;
+
+          // Deleted people, and people who no longer have an email, drop out of the directory
+          if (person.metadata?.deleted || !name || !email) {
+            result.deletedIds.push(person.resourceName);
+            continue;
+          }
+
+          const nicknames = (person.nicknames || [])
+            .map((nickname) => nickname.value)
+            .filter((value): value is string => Boolean(value));
+
+          result.contacts.push({ id: person.resourceName, name, email, nicknames });
         }
+
+        pageToken = response.data.nextPageToken || undefined;
+        result.nextSyncToken = response.data.nextSyncToken || result.nextSyncToken;
+      } while (pageToken);
+
+      return result;
+    } catch (error: any) {
+      const status = error.response?.status || error.code;
+      const reason = JSON.stringify(error.response?.data?.error || error.message || "");
+
+      // Sync tokens expire after about a week; start over with a full listing
+      if (syncToken && (status === 410 || reason.includes("EXPIRED_SYNC_TOKEN"))) {
+        return this.syncContacts(accessToken, null);
       }
 
-      return contacts;
-    } catch (error) {
-      throw new Error(`Failed to fetch Google contacts: ${error}`);
+      const apiError = new Error(`Failed to sync Google contacts: ${error.message}`);
+      (apiError as any).code = error.code;
+      (apiError as any).status = error.response?.status || error.status;
+      (apiError as any).statusCode = error.response?.status || error.status;
+      throw apiError;
+    }
+  }
+
+  async createContact(accessToken: string, contact: Contact): Promise<SyncedContact> {
+    this.oauth2Client.setCredentials({
+      access_token: accessToken,
+    });
+
+    const people = google.people({ version: "v1", auth: this.oauth2Client });
+
+    try {
+      const response = await people.people.createContact({
+        personFields: "names,emailAddresses",
+        requestBody: {
+          names: [{ unstructuredName: contact.name }],
+          emailAddresses: [{ value: contact.email }],
+        },
+      });
+
+      if (!response.data.resourceName) {
+        throw new Error("Contact was created without a resource name");
+      }
+
+      return {
+        id: response.data.resourceName,
+        name: contact.name,
+        email: contact.email,
+      };
+    } catch (error: any) {
+      const apiError = new Error(`Failed to create Google contact: ${error.message}`);
+      (apiError as any).code = error.code;
+      (apiError as any).status = error.response?.status || error.status;
+      (apiError as any).statusCode = error.response?.status || error.status;
+      throw apiError;
     }
   }
-}
\ No newline at end of file
+
+  async updateContact(accessToken: string, contactId: string, contact: Contact, previousEmail: string): Promise<SyncedContact> {
+    this.oauth2Client.setCredentials({
+      access_token: accessToken,
+    });
+
+    const people = google.people({ version: "v1", auth: this.oauth2Client });
+
+    try {
+      // Updates must carry the current etag, so read the person first
+      const current = await people.people.get({
+        resourceName: contactId,
+        personFields: "names,emailAddresses",
+      });
+
+      // The update replaces both lists, so carry over everything the user didn't change
+      await people.people.updateContact({
+        resourceName: contactId,
+        updatePersonFields: "names,emailAddresses",
+        requestBody: {
+          etag: current.data.etag,
+          names: mergePersonNames(current.data.names ?? [], contact.name),
+          emailAddresses: mergePersonEmails(current.data.emailAddresses ?? [], contact.email, previousEmail),
+        },
+      });
+
+      return {
+        id: contactId,
+        name: contact.name,
+        email: contact.email,
+      };
+    } catch (error: any) {
+      const apiError = new Error(`Failed to update Google contact: ${error.message}`);
+      (apiError as any).code = error.code;
+      (apiError as any).status = error.response?.status || error.status;
+      (apiError as any).statusCode = error.response?.status || error.status;
+      throw apiError;
+    }
+  }
+}
+
+/**
+ * Rename the person's primary name, keeping any other names and the structured parts when the name is unchanged
+ */
+function mergePersonNames(names: people_v1.Schema$Name[], name: string): people_v1.Schema$Name[] {
+  if (names.length === 0) {
+    return [{ unstructuredName: name }];
+  }
+
+  const primaryIndex = Math.max(names.findIndex((entry) => entry.metadata?.primary), 0);
+
+  return names.map((entry, index) =>
+    index === primaryIndex && entry.displayName !== name ? { unstructuredName: name } : entry
+  );
+}
+
+/**
+ * Swap the address we saved for the new one, leaving the person's other addresses alone
+ */
+function mergePersonEmails(
+  emails: people_v1.Schema$EmailAddress[],
+  email: string,
+  previousEmail: string
+): people_v1.Schema$EmailAddress[] {
+  if (emails.some((entry) => entry.value?.toLowerCase() === email.toLowerCase())) {
+    return emails;
+  }
+
+  const previousIndex = emails.findIndex((entry) => entry.value?.toLowerCase() === previousEmail.toLowerCase());
+
+  if (previousIndex === -1) {
+    return [...emails, { value: email }];
+  }
+
+  return emails.map((entry, index) => (index === previousIndex ? { ...entry, value: email } : entry));
+}
+
+/**
+ * Ask Google to create a Meet call with the event; requestId makes retries idempotent
+ */
+function meetConferenceRequest() {
+  return {
+    createRequest: {
+      requestId: randomUUID(),
+      conferenceSolutionKey: { type: 'hangoutsMeet' },
+    },
+  };
+}
+
+/**
+ * A single pop-up reminder in place of the calendar's defaults
+ */
+function popupReminder(minutes: number) {
+  return {
+    useDefault: false,
+    overrides: [{ method: 'popup', minutes: Math.min(Math.max(Math.round(minutes), 0), MAX_REMINDER_MINUTES) }],
+  };
+}
+
+function getReminderMinutes(event: {
+  reminders?: { useDefault?: boolean | null; overrides?: Array<{ minutes?: number | null }> | null } | null;
+}): number | undefined {
+  if (event.reminders?.useDefault) {
+    return undefined;
+  }
+
+  return event.reminders?.overrides?.[0]?.minutes ?? undefined;
+}
+
+function getMeetUrl(event: {
+  hangoutLink?: string | null;
+  conferenceData?: { entryPoints?: Array<{ entryPointType?: string | null; uri?: string | null }> | null } | null;
+}): string | undefined {
+  const videoEntry = event.conferenceData?.entryPoints?.find((entry) => entry.entryPointType === 'video');
+  return videoEntry?.uri || event.hangoutLink || undefined;
+}
+
+function getRecurrence(event: { recurrence?: string[] | null }): RecurrenceRule | undefined {
+  const rrule = event.recurrence?.find((line) => line.toUpperCase().startsWith('RRULE:'));
+  return rrule ? parseRRule(rrule) ?? undefined : undefined;
+}
@@ -1,17 +1,23 @@
 import { Client } from "@microsoft/microsoft-graph-client";
 import { ConfidentialClientApplication } from "@azure/msal-node";
 import type {
+  AuthUrlOptions,
   CalendarProvider,
   OAuthTokens,
   Calendar,
   ConnectionTestResult,
   UserInfo,
   Contact,
+  ContactSyncResult,
+  SyncedContact,
   CreateEventParams,
   UpdateEventParams,
   DeleteEventParams,
+  GetEventParams,
   SearchEventsParams,
-  CreatedEvent
+  CreatedEvent,
+  FreeBusyParams,
+  FreeBusyCalendar
 } from "../types";
 import {
   oauthTokensSchema,
@@ -20,7 +26,9 @@ import {
   microsoftCalendarSchema,
   connectionTestResultSchema
 } from "../types";
-import { MICROSOFT_OAUTH_CONFIG, OAUTH_ENDPOINTS } from "../oauth";
+import { CONTACTS_WRITE_SCOPES, MICROSOFT_OAUTH_CONFIG, OAUTH_ENDPOINTS } from "../oauth";
+import { fromGraphRecurrence, toGraphRecurrence } from "../recurrence";
+import { toZonedDateString } from "../timezone";
 
 export class MicrosoftCalendarProvider implements CalendarProvider {
   private msalConfig: any;
@@ -35,12 +43,16 @@ export class MicrosoftCalendarProvider implements CalendarProvider {
     };
   }
 
-  getAuthUrl(redirectUri: string, state?: string): string {
+  getAuthUrl(redirectUri: string, state?: string, options?: AuthUrlOptions): string {
+    const scopes = options?.contactsWrite
+      ? [...MICROSOFT_OAUTH_CONFIG.scopes, CONTACTS_WRITE_SCOPES.microsoft]
+      : MICROSOFT_OAUTH_CONFIG.scopes;
+
     const params = new URLSearchParams({
       client_id: MICROSOFT_OAUTH_CONFIG.clientId,
       response_type: "code",
       redirect_uri: redirectUri,
-      scope: MICROSOFT_OAUTH_CONFIG.scopes.join(" "),
+      scope: scopes.join(" "),
       response_mode: "query",
       ...(state && { state }),
     });
@@ -289,11 +301,11 @@ export class MicrosoftCalendarProvider implements CalendarProvider {
       if (params.allDay) {
         event.isAllDay = true;
         event.start = {
-          dateTime: params.start.toISOString().split('T')[0], // YYYY-MM-DD
+          dateTime: toZonedDateString(params.start, params.timeZone), // YYYY-MM-DD
           timeZone: params.timeZone || 'UTC',
         };
         event.end = {
-          dateTime: params.end.toISOString().split('T')[0],
+          dateTime: toZonedDateString(params.end, params.timeZone),
           timeZone: params.timeZone || 'UTC',
         };
       } else {
@@ -308,6 +320,20 @@ export class MicrosoftCalendarProvider implements CalendarProvider {
         };
       }
 
+      if (params.recurrence) {
+        event.recurrence = toGraphRecurrence(params.recurrence, params.start, params.timeZone || 'UTC');
+      }
+
+      // The calendar's default provider is used: Teams for work accounts, Teams/Skype for personal ones
+      if (params.addMeetingLink) {
+        event.isOnlineMeeting = true;
+      }
+
+      if (params.reminderMinutes !== undefined) {
+        event.isReminderOn = true;
+        event.reminderMinutesBeforeStart = Math.max(Math.round(params.reminderMinutes), 0);
+      }
+
       const response = await graphClient
         .api(`/me/calendars/${params.calendarId}/events`)
         .post(event);
@@ -325,6 +351,8 @@ export class MicrosoftCalendarProvider implements CalendarProvider {
         location: response.location?.displayName || undefined,
         attendees: response.attendees?.map((a: any) => a.emailAddress?.address || '') || undefined,
         webLink: response.webLink || undefined,
+        meetingUrl: response.onlineMeeting?.joinUrl || undefined,
+        reminderMinutes: response.isReminderOn ? response.reminderMinutesBeforeStart : undefined,
       };
     } catch (error: any) {
       throw new Error(`Failed to create Microsoft Calendar event: ${error.message}`);
@@ -379,11 +407,11 @@ export class MicrosoftCalendarProvider implements CalendarProvider {
         if (params.allDay) {
           updates.isAllDay = true;
           updates.start = {
-            dateTime: startDate.toISOString().split('T')[0],
+            dateTime: toZonedDateString(startDate, params.timeZone),
             timeZone: params.timeZone || existing.start?.timeZone || 'UTC',
           };
           updates.end = {
-            dateTime: endDate.toISOString().split('T')[0],
+            dateTime: toZonedDateString(endDate, params.timeZone),
             timeZone: params.timeZone || existing.end?.timeZone || 'UTC',
           };
         } else {
@@ -399,6 +427,28 @@ export class MicrosoftCalendarProvider implements CalendarProvider {
         }
       }
 
+      if (params.recurrence !== undefined) {
+        updates.recurrence = params.recurrence
+          ? toGraphRecurrence(
+              params.recurrence,
+              params.start || new Date(existing.start?.dateTime || ''),
+              params.timeZone || existing.start?.timeZone || 'UTC'
+            )
+          : null;
+      }
+
+      if (params.addMeetingLink && !existing.isOnlineMeeting) {
+        updates.isOnlineMeeting = true;
+      }
+
+      // Outlook has no per-calendar default to go back to, so null turns the reminder off
+      if (params.reminderMinutes === null) {
+        updates.isReminderOn = false;
+      } else if (params.reminderMinutes !== undefined) {
+        updates.isReminderOn = true;
+        updates.reminderMinutesBeforeStart = Math.max(Math.round(params.reminderMinutes), 0);
+      }
+
       const response = await graphClient
         .api(`/me/calendars/${params.calendarId}/events/${params.eventId}`)
         .patch(updates);
@@ -416,6 +466,8 @@ export class MicrosoftCalendarProvider implements CalendarProvider {
         location: response.location?.displayName || undefined,
         attendees: response.attendees?.map((a: any) => a.emailAddress?.address || '') || undefined,
         webLink: response.webLink || undefined,
+        meetingUrl: response.onlineMeeting?.joinUrl || undefined,
+        reminderMinutes: response.isReminderOn ? response.reminderMinutesBeforeStart : undefined,
       };
     } catch (error: any) {
       throw new Error(`Failed to update Microsoft Calendar event: ${error.message}`);
@@ -438,6 +490,41 @@ export class MicrosoftCalendarProvider implements CalendarProvider {
     }
   }
 
+  async getEvent(accessToken: string, params: GetEventParams): Promise<CreatedEvent> {
+    try {
+      const graphClient = Client.init({
+        authProvider: (done) => {
+          done(null, accessToken);
+        },
+      });
+
+      const response = await graphClient
+        .api(`/me/calendars/${params.calendarId}/events/${params.eventId}`)
+        .get();
+
+      if (!response.id) {
+        throw new Error('Invalid response from Microsoft Graph API');
+      }
+
+      return {
+        id: response.id,
+        title: response.subject || 'Untitled Event',
+        description: response.body?.content || undefined,
+        start: new Date(response.start?.dateTime || ''),
+        end: new Date(response.end?.dateTime || ''),
+        allDay: response.isAllDay ?? false,
+        location: response.location?.displayName || undefined,
+        attendees: response.attendees?.map((a: any) => a.emailAddress?.address || '') || undefined,
+        webLink: response.webLink || undefined,
+        meetingUrl: response.onlineMeeting?.joinUrl || undefined,
+        reminderMinutes: response.isReminderOn ? response.reminderMinutesBeforeStart : undefined,
+        recurrence: response.recurrence ? fromGraphRecurrence(response.recurrence) ?? undefined : undefined,
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get Microsoft Calendar event: ${error.message}`);
+    }
+  }
+
   async searchEvents(accessToken: string, params: SearchEventsParams): Promise<CreatedEvent[]> {
     try {
       const graphClient = Client.init({
@@ -448,7 +535,7 @@ export class MicrosoftCalendarProvider implements CalendarProvider {
 
       let request = graphClient
         .api(`/me/calendars/${params.calendarId}/events`)
-        .select("id,subject,body,start,end,location,attendees,webLink")
+        .select("id,subject,body,start,end,isAllDay,location,attendees,webLink")
         .orderby("start/dateTime");
 
       // Add search query if provided
@@ -467,20 +554,26 @@ export class MicrosoftCalendarProvider implements CalendarProvider {
         request = request.filter(filterParts.join(' and '));
       }
 
-      // Add limit
-      if (params.maxResults) {
-        request = request.top(params.maxResults);
-      }
+      // Same default as Google, so an unbounded search can't page through the whole calendar
+      const maxResults = params.maxResults || 10;
+      request = request.top(Math.min(maxResults, 250));
+
+      let response = await request.get();
+      const events: any[] = response.value || [];
 
-      const response = await request.get();
-      const events = response.value || [];
+      // Graph may split the results over several pages; follow them up to the limit
+      while (response["@odata.nextLink"] && events.length < maxResults) {
+        response = await graphClient.api(response["@odata.nextLink"]).get();
+        events.push(...(response.value || []));
+      }
 
-      return events.map((event: any) => ({
+      return events.slice(0, maxResults).map((event: any) => ({
         id: event.id || '',
         title: event.subject || 'Untitled Event',
         description: event.body?.content || undefined,
         start: new Date(event.start?.dateTime || ''),
         end: new Date(event.end?.dateTime || ''),
+        allDay: event.isAllDay ?? false,
         location: event.location?.displayName || undefined,
         attendees: event.attendees?.map((a: any) => a.emailAddress?.address || '') || undefined,
         webLink: event.webLink || undefined,
@@ -490,7 +583,7 @@ export class MicrosoftCalendarProvider implements CalendarProvider {
     }
   }
 
-  async getContacts(accessToken: string): Promise<Contact[]> {
+  async getFreeBusy(accessToken: string, params: FreeBusyParams): Promise<FreeBusyCalendar[]> {
     try {
       const graphClient = Client.init({
         authProvider: (done) => {
@@ -498,27 +591,203 @@ export class MicrosoftCalendarProvider implements CalendarProvider {
         },
       });
 
-      // Fetch contacts from Microsoft Graph
+      // getSchedule works on mailboxes, so calendarIds are SMTP addresses here.
+      // Times are requested and returned in UTC.
       const response = await graphClient
-        .api("/me/contacts")
-        .select("displayName,emailAddresses")
-        .top(1000) // Max contacts to fetch
-        .get();
+        .api("/me/calendar/getSchedule")
+        .post({
+          schedules: params.calendarIds,
+          startTime: { dateTime: params.timeMin.toISOString().slice(0, 19), timeZone: "UTC" },
+          endTime: { dateTime: params.timeMax.toISOString().slice(0, 19), timeZone: "UTC" },
+          availabilityViewInterval: 15,
+        });
+
+      const schedules: any[] = response.value || [];
+
+      return params.calendarIds.map((calendarId) => {
+        const schedule = schedules.find(
+          (item) => item.scheduleId?.toLowerCase() === calendarId.toLowerCase()
+        );
+
+        return {
+          calendarId,
+          busy: (schedule?.scheduleItems || [])
+            // Free and working-elsewhere slots don't block new events
+            .filter((item: any) => item.status === "busy" || item.status === "tentative" || item.status === "oof")
+            .map((item: any) => ({
+              start: new Date(`${item.start.dateTime.slice(0, 19)}Z`),
+              end: new Date(`${item.end.dateTime.slice(0, 19)}Z`),
+            })),
+          error: schedule ? schedule.error?.message : "Schedule not returned",
+        };
+      });
+    } catch (error: any) {
+      throw new Error(`Failed to fetch Microsoft Calendar free/busy: ${error.message}`);
+    }
+  }
 
-      const contacts: Contact[] = [];
+  async getContacts(accessToken: string): Promise<Contact[]> {
+    try {
+      const { contacts } = await this.syncContacts(accessToken, null);
+      return contacts.map(({ name, email }) => ({ name, email }));
+    } catch (error) {
+      throw new Error(`Failed to fetch Microsoft contacts: ${error}`);
+    }
+  }
 
-      for (const contact of response.value || []) {
-        const name = contact.displayName;
-        const email = contact.emailAddresses?.[0]?.address;
+  async syncContacts(accessToken: string, syncToken?: string | null): Promise<ContactSyncResult> {
+    const graphClient = Client.init({
+      authProvider: (done) => {
+        done(null, accessToken);
+      },
+    });
 
-        if (name && email) {
-          contacts.push({ name, email });
+    const result: ContactSyncResult = {
+      contacts: [],
+      deletedIds: [],
+      nextSyncToken: null,
+      fullSync: !syncToken,
+    };
+
+    try {
+      // The delta link from the last sync already points at the right folder
+      let url: string | null = syncToken || null;
+
+      if (!url) {
+        // Delta queries run per folder, so find the default contacts folder first
+        const probe = await graphClient
+          .api("/me/contacts")
+          .select("parentFolderId")
+          .top(1)
+          .get();
+
+        const folderId = probe.value?.[0]?.parentFolderId;
+        if (!folderId) {
+          return result;
         }
+
+        url = `/me/contactFolders/${folderId}/contacts/delta?$select=displayName,nickName,emailAddresses`;
       }
 
-      return contacts;
-    } catch (error) {
-      throw new Error(`Failed to fetch Microsoft contacts: ${error}`);
+      while (url) {
+        const response: any = await graphClient
+          .api(url)
+          .header("Prefer", "odata.maxpagesize=500")
+          .get();
+
+        for (const contact of response.value || []) {
+          if (!contact.id) continue;
+
+          const name = contact.displayName;
+          const email = contact.emailAddresses?.[0]?.address;
+
+          if (contact["@removed"] || !name || !email) {
+            result.deletedIds.push(contact.id);
+            continue;
+          }
+
+          const synced: SyncedContact = { id: contact.id, name, email };
+          if (contact.nickName) {
+            synced.nicknames = [contact.nickName];
+          }
+
+          result.contacts.push(synced);
+        }
+
+        url = response["@odata.nextLink"] || null;
+        result.nextSyncToken = response["@odata.deltaLink"] || result.nextSyncToken;
+      }
+
+      return result;
+    } catch (error: any) {
+      const status = error.statusCode || error.status;
+
+      // Graph drops delta state it no longer tracks; start over with a full listing
+      if (syncToken && (status === 410 || error.code === "SyncStateNotFound")) {
+        return this.syncContacts(accessToken, null);
+      }
+
+      const apiError = new Error(`Failed to sync Microsoft contacts: ${error.message}`);
+      (apiError as any).code = error.code;
+      (apiError as any).status = status;
+      (apiError as any).statusCode = status;
+      throw apiError;
+    }
+  }
+
+  async createContact(accessToken: string, contact: Contact): Promise<SyncedContact> {
+    const graphClient = Client.init({
+      authProvider: (done) => {
+        done(null, accessToken);
+      },
+    });
+
+    try {
+      const created = await graphClient
+        .api("/me/contacts")
+        .post({
+          displayName: contact.name,
+          emailAddresses: [{ address: contact.email, name: contact.name }],
+        });
+
+      return {
+        id: created.id,
+        name: contact.name,
+        email: contact.email,
+      };
+    } catch (error: any) {
+      const status = error.statusCode || error.status;
+      const apiError = new Error(`Failed to create Microsoft contact: ${error.message}`);
+      (apiError as any).code = error.code;
+      (apiError as any).status = status;
+      (apiError as any).statusCode = status;
+      throw apiError;
+    }
+  }
+
+  async updateContact(accessToken: string, contactId: string, contact: Contact, previousEmail: string): Promise<SyncedContact> {
+    const graphClient = Client.init({
+      authProvider: (done) => {
+        done(null, accessToken);
+      },
+    });
+
+    try {
+      const current = await graphClient
+        .api(`/me/contacts/${contactId}`)
+        .select("emailAddresses")
+        .get();
+
+      // Graph replaces the whole address list, so swap only the address we saved
+      const emailAddresses: Array<{ address?: string; name?: string }> = current.emailAddresses ?? [];
+      const hasEmail = emailAddresses.some((entry) => entry.address?.toLowerCase() === contact.email.toLowerCase());
+      const previousIndex = emailAddresses.findIndex((entry) => entry.address?.toLowerCase() === previousEmail.toLowerCase());
+
+      await graphClient
+        .api(`/me/contacts/${contactId}`)
+        .patch({
+          displayName: contact.name,
+          emailAddresses: hasEmail
+            ? emailAddresses
+            : previousIndex === -1
+              ? [...emailAddresses, { address: contact.email, name: contact.name }]
+              : emailAddresses.map((entry, index) =>
+                  index === previousIndex ? { address: contact.email, name: contact.name } : entry
+                ),
+        });
+
+      return {
+        id: contactId,
+        name: contact.name,
+        email: contact.email,
+      };
+    } catch (error: any) {
+      const status = error.statusCode || error.status;
+      const apiError = new Error(`Failed to update Microsoft contact: ${error.message}`);
+      (apiError as any).code = error.code;
+      (apiError as any).status = status;
+      (apiError as any).statusCode = status;
+      throw apiError;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { fromGraphRecurrence, parseRRule, toGraphRecurrence } from "./recurrence";
+
+describe("fromGraphRecurrence", () => {
+  test("reads a weekly pattern with a count", () => {
+    expect(
+      fromGraphRecurrence({
+        pattern: { type: "weekly", interval: 2, daysOfWeek: ["Friday", "monday"] },
+        range: { type: "numbered", numberOfOccurrences: 6 },
+      })
+    ).toEqual({ frequency: "WEEKLY", interval: 2, byDay: ["MO", "FR"], count: 6 });
+  });
+
+  test("ends the series at the end of its last day", () => {
+    expect(
+      fromGraphRecurrence({
+        pattern: { type: "absoluteMonthly", interval: 1 },
+        range: { type: "endDate", endDate: "2025-12-31" },
+      })
+    ).toEqual({ frequency: "MONTHLY", until: new Date("2025-12-31T23:59:59Z") });
+  });
+
+  test("leaves out days of the week for other frequencies", () => {
+    expect(
+      fromGraphRecurrence({
+        pattern: { type: "daily", interval: 1, daysOfWeek: ["monday"] },
+        range: { type: "noEnd" },
+      })
+    ).toEqual({ frequency: "DAILY" });
+  });
+
+  test("gives null for relative and missing patterns", () => {
+    expect(fromGraphRecurrence({ pattern: { type: "relativeMonthly", interval: 1 } })).toBeNull();
+    expect(fromGraphRecurrence({})).toBeNull();
+  });
+
+  test("reads back what toGraphRecurrence writes", () => {
+    const rule = { frequency: "WEEKLY" as const, byDay: ["TU" as const, "TH" as const], count: 10 };
+
+    const graph = toGraphRecurrence(rule, new Date("2025-03-11T07:00:00Z"), "Africa/Johannesburg");
+
+    expect(fromGraphRecurrence(graph)).toEqual(rule);
+  });
+});
+
+describe("parseRRule", () => {
+  test("drops ordinals from BYDAY and reads an all-day UNTIL as the end of that day", () => {
+    expect(parseRRule("RRULE:FREQ=monthly;BYDAY=1MO,-1FR;UNTIL=20251231")).toEqual({
+      frequency: "MONTHLY",
+      byDay: ["MO", "FR"],
+      until: new Date("2025-12-31T23:59:59Z"),
+    });
+  });
+
+  test("gives null for unsupported frequencies", () => {
+    expect(parseRRule("FREQ=HOURLY;INTERVAL=2")).toBeNull();
+  });
+});
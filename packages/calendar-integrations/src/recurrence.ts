@@ -0,0 +1,208 @@
+import type { RecurrenceRule, RecurrenceWeekday } from "./types";
+import { WEEKDAY_CODES, getZonedDateParts } from "./timezone";
+
+const GRAPH_DAYS_OF_WEEK: Record<RecurrenceWeekday, string> = {
+  MO: "monday",
+  TU: "tuesday",
+  WE: "wednesday",
+  TH: "thursday",
+  FR: "friday",
+  SA: "saturday",
+  SU: "sunday",
+};
+
+export interface GraphPatternedRecurrence {
+  pattern: {
+    type: "daily" | "weekly" | "absoluteMonthly" | "absoluteYearly";
+    interval: number;
+    daysOfWeek?: string[];
+    firstDayOfWeek?: string;
+    dayOfMonth?: number;
+    month?: number;
+  };
+  range: {
+    type: "noEnd" | "numbered" | "endDate";
+    startDate: string;
+    endDate?: string;
+    numberOfOccurrences?: number;
+    recurrenceTimeZone?: string;
+  };
+}
+
+/**
+ * Build an RFC 5545 RRULE line, e.g. "RRULE:FREQ=WEEKLY;BYDAY=TU;COUNT=10"
+ */
+export function toRRule(rule: RecurrenceRule, allDay = false): string {
+  const parts = [`FREQ=${rule.frequency}`];
+
+  if (rule.interval && rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  }
+
+  // COUNT and UNTIL are mutually exclusive in RFC 5545
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    const iso = rule.until.toISOString();
+    const until = allDay
+      ? iso.slice(0, 10).replace(/-/g, "")
+      : `${iso.slice(0, 19).replace(/[-:]/g, "")}Z`;
+    parts.push(`UNTIL=${until}`);
+  }
+
+  return `RRULE:${parts.join(";")}`;
+}
+
+/**
+ * Parse an RRULE line back into a recurrence rule. Unsupported parts are ignored.
+ */
+export function parseRRule(value: string): RecurrenceRule | null {
+  const body = value.trim().replace(/^RRULE:/i, "");
+  const fields = new Map<string, string>();
+
+  for (const part of body.split(";")) {
+    const [key, fieldValue] = part.split("=");
+    if (key && fieldValue) {
+      fields.set(key.toUpperCase(), fieldValue.toUpperCase());
+    }
+  }
+
+  const frequency = fields.get("FREQ");
+  if (frequency !== "DAILY" && frequency !== "WEEKLY" && frequency !== "MONTHLY" && frequency !== "YEARLY") {
+    return null;
+  }
+
+  const rule: RecurrenceRule = { frequency };
+
+  const interval = Number(fields.get("INTERVAL"));
+  if (Number.isInteger(interval) && interval > 0) {
+    rule.interval = interval;
+  }
+
+  const byDay = fields
+    .get("BYDAY")
+    ?.split(",")
+    // Drop ordinal prefixes such as "1MO" or "-1FR"
+    .map((day) => day.replace(/^[+-]?\d+/, ""))
+    .filter((day): day is RecurrenceWeekday => WEEKDAY_CODES.includes(day as RecurrenceWeekday));
+  if (byDay?.length) {
+    rule.byDay = byDay;
+  }
+
+  const count = Number(fields.get("COUNT"));
+  if (Number.isInteger(count) && count > 0) {
+    rule.count = count;
+  }
+
+  const until = fields.get("UNTIL");
+  if (until) {
+    const match = until.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+    if (match) {
+      const [, year, month, day, hour = "23", minute = "59", second = "59"] = match;
+      rule.until = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
+    }
+  }
+
+  return rule;
+}
+
+/**
+ * Map a recurrence rule onto Microsoft Graph's patternedRecurrence resource.
+ * Graph anchors the pattern to the first occurrence's local date, so the series start is required.
+ */
+export function toGraphRecurrence(
+  rule: RecurrenceRule,
+  start: Date,
+  timeZone = "UTC"
+): GraphPatternedRecurrence {
+  const local = getZonedDateParts(start, timeZone);
+  const interval = rule.interval ?? 1;
+
+  let pattern: GraphPatternedRecurrence["pattern"];
+
+  switch (rule.frequency) {
+    case "DAILY":
+      pattern = { type: "daily", interval };
+      break;
+    case "WEEKLY":
+      pattern = {
+        type: "weekly",
+        interval,
+        daysOfWeek: (rule.byDay?.length ? rule.byDay : [local.weekday]).map(
+          (day) => GRAPH_DAYS_OF_WEEK[day]
+        ),
+        firstDayOfWeek: "monday",
+      };
+      break;
+    case "MONTHLY":
+      pattern = { type: "absoluteMonthly", interval, dayOfMonth: local.day };
+      break;
+    case "YEARLY":
+      pattern = { type: "absoluteYearly", interval, dayOfMonth: local.day, month: local.month };
+      break;
+  }
+
+  const range: GraphPatternedRecurrence["range"] = {
+    type: "noEnd",
+    startDate: local.date,
+    recurrenceTimeZone: timeZone,
+  };
+
+  if (rule.count) {
+    range.type = "numbered";
+    range.numberOfOccurrences = rule.count;
+  } else if (rule.until) {
+    range.type = "endDate";
+    range.endDate = getZonedDateParts(rule.until, timeZone).date;
+  }
+
+  return { pattern, range };
+}
+
+/**
+ * Read a Graph patternedRecurrence back into a recurrence rule. Relative (e.g. "second Tuesday")
+ * patterns aren't supported and give null.
+ */
+export function fromGraphRecurrence(recurrence: {
+  pattern?: { type?: string; interval?: number; daysOfWeek?: string[] };
+  range?: { type?: string; endDate?: string; numberOfOccurrences?: number };
+}): RecurrenceRule | null {
+  const frequencies: Record<string, RecurrenceRule["frequency"]> = {
+    daily: "DAILY",
+    weekly: "WEEKLY",
+    absoluteMonthly: "MONTHLY",
+    absoluteYearly: "YEARLY",
+  };
+  const frequency = recurrence.pattern?.type ? frequencies[recurrence.pattern.type] : undefined;
+
+  if (!frequency) {
+    return null;
+  }
+
+  const rule: RecurrenceRule = { frequency };
+
+  if (recurrence.pattern?.interval && recurrence.pattern.interval > 1) {
+    rule.interval = recurrence.pattern.interval;
+  }
+
+  if (frequency === "WEEKLY") {
+    const byDay = (Object.keys(GRAPH_DAYS_OF_WEEK) as RecurrenceWeekday[]).filter((day) =>
+      recurrence.pattern?.daysOfWeek?.some((name) => name.toLowerCase() === GRAPH_DAYS_OF_WEEK[day])
+    );
+    if (byDay.length) {
+      rule.byDay = byDay;
+    }
+  }
+
+  if (recurrence.range?.type === "numbered" && recurrence.range.numberOfOccurrences) {
+    rule.count = recurrence.range.numberOfOccurrences;
+  } else if (recurrence.range?.type === "endDate" && recurrence.range.endDate) {
+    rule.until = new Date(`${recurrence.range.endDate}T23:59:59Z`);
+  }
+
+  return rule;
+}
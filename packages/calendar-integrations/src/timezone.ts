@@ -0,0 +1,38 @@
+import type { RecurrenceWeekday } from "./types";
+
+export const WEEKDAY_CODES: RecurrenceWeekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/**
+ * Calendar date parts of an instant as seen in a timezone
+ */
+export function getZonedDateParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short",
+  }).formatToParts(date);
+
+  const lookup = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+
+  const year = lookup("year");
+  const month = lookup("month");
+  const day = lookup("day");
+  const weekday = lookup("weekday").slice(0, 2).toUpperCase() as RecurrenceWeekday;
+
+  return {
+    date: `${year}-${month}-${day}`,
+    month: Number(month),
+    day: Number(day),
+    weekday: WEEKDAY_CODES.includes(weekday) ? weekday : WEEKDAY_CODES[date.getUTCDay()]!,
+  };
+}
+
+/**
+ * YYYY-MM-DD date of an instant in a timezone, as used for all-day events
+ */
+export function toZonedDateString(date: Date, timeZone = "UTC"): string {
+  return getZonedDateParts(date, timeZone).date;
+}
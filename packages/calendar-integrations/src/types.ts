@@ -30,6 +30,19 @@ export const calendarEventSchema = z.object({
   calendarId: z.string(),
 });
 
+// Recurrence modelled on the RFC 5545 RRULE subset both providers support
+export const recurrenceFrequencySchema = z.enum(["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]);
+
+export const recurrenceWeekdaySchema = z.enum(["MO", "TU", "WE", "TH", "FR", "SA", "SU"]);
+
+export const recurrenceRuleSchema = z.object({
+  frequency: recurrenceFrequencySchema,
+  interval: z.number().int().positive().optional(),
+  byDay: z.array(recurrenceWeekdaySchema).optional(),
+  count: z.number().int().positive().optional(),
+  until: z.date().optional(),
+});
+
 export const connectionTestResultSchema = z.object({
   success: z.boolean(),
   message: z.string().optional(),
@@ -86,6 +99,9 @@ export type OAuthTokens = z.infer<typeof oauthTokensSchema>;
 export type Calendar = z.infer<typeof calendarSchema>;
 export type CalendarEvent = z.infer<typeof calendarEventSchema>;
 export type ConnectionTestResult = z.infer<typeof connectionTestResultSchema>;
+export type RecurrenceFrequency = z.infer<typeof recurrenceFrequencySchema>;
+export type RecurrenceWeekday = z.infer<typeof recurrenceWeekdaySchema>;
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
 export type CalendarProviderType = z.infer<typeof calendarProviderTypeSchema>;
 export type OAuthConfig = z.infer<typeof oauthConfigSchema>;
 
@@ -101,6 +117,18 @@ export interface Contact {
   email: string;
 }
 
+export interface SyncedContact extends Contact {
+  id: string; // Provider's contact id
+  nicknames?: string[];
+}
+
+export interface ContactSyncResult {
+  contacts: SyncedContact[]; // Added or changed since the last sync
+  deletedIds: string[];
+  nextSyncToken: string | null; // Google sync token or Graph delta link
+  fullSync: boolean; // Every contact was listed, e.g. first sync or the token expired
+}
+
 // Event operation parameters
 export interface CreateEventParams {
   calendarId: string;
@@ -112,6 +140,9 @@ export interface CreateEventParams {
   location?: string;
   attendees?: string[]; // Array of email addresses
   timeZone?: string;
+  recurrence?: RecurrenceRule;
+  addMeetingLink?: boolean; // Attach a Google Meet / Teams call
+  reminderMinutes?: number; // Minutes before the start; the provider's default applies when unset
 }
 
 export interface UpdateEventParams {
@@ -125,6 +156,9 @@ export interface UpdateEventParams {
   location?: string;
   attendees?: string[];
   timeZone?: string;
+  recurrence?: RecurrenceRule | null; // null turns a series back into a single event
+  addMeetingLink?: boolean; // Attach a Google Meet / Teams call if the event has none yet
+  reminderMinutes?: number | null; // Minutes before the start; null drops the event's own reminder for the calendar's default
 }
 
 export interface DeleteEventParams {
@@ -132,6 +166,11 @@ export interface DeleteEventParams {
   eventId: string;
 }
 
+export interface GetEventParams {
+  calendarId: string;
+  eventId: string;
+}
+
 export interface SearchEventsParams {
   calendarId: string;
   query?: string; // Free text search
@@ -140,21 +179,46 @@ export interface SearchEventsParams {
   maxResults?: number;
 }
 
+export interface FreeBusyParams {
+  calendarIds: string[]; // Google calendar IDs, or mailbox addresses for Microsoft
+  timeMin: Date;
+  timeMax: Date;
+}
+
+export interface BusyBlock {
+  start: Date;
+  end: Date;
+}
+
+export interface FreeBusyCalendar {
+  calendarId: string;
+  busy: BusyBlock[];
+  error?: string; // Set when the provider couldn't read this calendar
+}
+
 export interface CreatedEvent {
   id: string;
   title: string;
   description?: string;
   start: Date;
   end: Date;
+  allDay?: boolean;
   location?: string;
   attendees?: string[];
   htmlLink?: string;
   webLink?: string;
+  meetingUrl?: string; // Join link of the attached Meet/Teams call
+  reminderMinutes?: number; // Minutes before the start, when the event has its own reminder
+  recurrence?: RecurrenceRule; // Only read back by getEvent, for a series rather than one occurrence
+}
+
+export interface AuthUrlOptions {
+  contactsWrite?: boolean; // Also ask to create and edit contacts, on top of reading them
 }
 
 export interface CalendarProvider {
   // OAuth methods
-  getAuthUrl(redirectUri: string, state?: string): string;
+  getAuthUrl(redirectUri: string, state?: string, options?: AuthUrlOptions): string;
   exchangeCodeForTokens(code: string, redirectUri: string): Promise<OAuthTokens>;
   refreshTokens(refreshToken: string): Promise<OAuthTokens>;
 
@@ -170,8 +234,13 @@ export interface CalendarProvider {
   createEvent(accessToken: string, params: CreateEventParams): Promise<CreatedEvent>;
   updateEvent(accessToken: string, params: UpdateEventParams): Promise<CreatedEvent>;
   deleteEvent(accessToken: string, params: DeleteEventParams): Promise<void>;
+  getEvent(accessToken: string, params: GetEventParams): Promise<CreatedEvent>;
   searchEvents(accessToken: string, params: SearchEventsParams): Promise<CreatedEvent[]>;
+  getFreeBusy(accessToken: string, params: FreeBusyParams): Promise<FreeBusyCalendar[]>;
 
   // Contact methods
   getContacts(accessToken: string): Promise<Contact[]>;
+  syncContacts(accessToken: string, syncToken?: string | null): Promise<ContactSyncResult>;
+  createContact(accessToken: string, contact: Contact): Promise<SyncedContact>;
+  updateContact(accessToken: string, contactId: string, contact: Contact, previousEmail: string): Promise<SyncedContact>;
 }
\ No newline at end of file
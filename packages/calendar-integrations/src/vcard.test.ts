@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { parseVCards } from "./vcard";
+
+function card(...lines: string[]): string {
+  return ["BEGIN:VCARD", ...lines, "END:VCARD"].join("\r\n");
+}
+
+describe("parseVCards", () => {
+  test("reads a vCard 3.0 contact with the preferred email first", () => {
+    const contacts = parseVCards(
+      card(
+        "VERSION:3.0",
+        "FN:Thandi Nkosi",
+        "N:Nkosi;Thandi;;;",
+        "ORG:Acme\\, Inc.;Sales",
+        "EMAIL;TYPE=INTERNET:thandi@home.example",
+        "item1.EMAIL;TYPE=INTERNET,PREF:Thandi@Acme.example",
+        "EMAIL:thandi@acme.example",
+        "TEL;TYPE=CELL:+27 82 555 0101"
+      )
+    );
+
+    expect(contacts).toEqual([
+      {
+        name: "Thandi Nkosi",
+        emails: ["thandi@acme.example", "thandi@home.example"],
+        phones: ["+27 82 555 0101"],
+        organization: "Acme, Inc.",
+      },
+    ]);
+  });
+
+  test("reads several cards and vCard 4.0 URIs", () => {
+    const contacts = parseVCards(
+      [
+        card("VERSION:4.0", "FN:Ana", "EMAIL:ana@one.example", "EMAIL;PREF=1:mailto:ana@two.example"),
+        card("VERSION:4.0", "FN:Ben", "TEL;VALUE=uri:tel:+27-21-555-0102"),
+      ].join("\r\n")
+    );
+
+    expect(contacts.map((contact) => contact.name)).toEqual(["Ana", "Ben"]);
+    expect(contacts[0]?.emails).toEqual(["ana@two.example", "ana@one.example"]);
+    expect(contacts[1]?.phones).toEqual(["+27-21-555-0102"]);
+  });
+
+  test("decodes quoted-printable vCard 2.1 names", () => {
+    const [contact] = parseVCards(
+      card("VERSION:2.1", "N;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:M=C3=BCller;J=C3=BCrgen;;;", "TEL;CELL:0825550103")
+    );
+
+    expect(contact?.name).toBe("Jürgen Müller");
+  });
+
+  test("falls back to the organisation, then the email address, for the name", () => {
+    const contacts = parseVCards(
+      [card("VERSION:3.0", "ORG:Plumbing Co", "TEL:0215550104"), card("VERSION:3.0", "EMAIL:info@example.com")].join(
+        "\r\n"
+      )
+    );
+
+    expect(contacts.map((contact) => contact.name)).toEqual(["Plumbing Co", "info@example.com"]);
+  });
+
+  test("skips cards with nothing to name the contact by", () => {
+    expect(parseVCards(card("VERSION:3.0", "TEL:0215550105", "EMAIL:not-an-address"))).toEqual([]);
+  });
+});
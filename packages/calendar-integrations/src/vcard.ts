@@ -0,0 +1,98 @@
+import { type ContentLine, parseContentLines, unescapeText } from "./content-lines";
+
+// A person read from a contact card
+export interface VCardContact {
+  name: string;
+  emails: string[]; // Lower-cased, preferred address first
+  phones: string[];
+  organization?: string;
+}
+
+/**
+ * Read every contact in a vCard (.vcf) document. Versions 2.1, 3.0 and 4.0 are accepted;
+ * cards with neither a name nor an email address are skipped.
+ */
+export function parseVCards(content: string): VCardContact[] {
+  const contacts: VCardContact[] = [];
+  let card: ContentLine[] | null = null;
+
+  for (const line of parseContentLines(content)) {
+    const value = line.value.trim().toUpperCase();
+
+    if (line.name === "BEGIN" && value === "VCARD") {
+      card = [];
+    } else if (line.name === "END" && value === "VCARD") {
+      const contact = card ? toContact(card) : null;
+      if (contact) {
+        contacts.push(contact);
+      }
+      card = null;
+    } else if (card) {
+      card.push(line);
+    }
+  }
+
+  return contacts;
+}
+
+function toContact(card: ContentLine[]): VCardContact | null {
+  const emails = card
+    .filter((line) => line.name === "EMAIL")
+    // PREF=1 (4.0) or TYPE=PREF (2.1/3.0) marks the address to use first
+    .sort((a, b) => Number(isPreferred(b)) - Number(isPreferred(a)))
+    .map((line) => decodeValue(line).replace(/^mailto:/i, "").trim().toLowerCase())
+    .filter((email, index, all) => email.includes("@") && all.indexOf(email) === index);
+
+  const phones = card
+    .filter((line) => line.name === "TEL")
+    .map((line) => decodeValue(line).replace(/^tel:/i, "").trim())
+    .filter(Boolean);
+
+  const organization = splitStructured(decodeValue(card.find((line) => line.name === "ORG")))[0] || undefined;
+  const name = formattedName(card) || organization || emails[0];
+
+  if (!name) {
+    return null;
+  }
+
+  return { name, emails, phones, ...(organization && { organization }) };
+}
+
+function formattedName(card: ContentLine[]): string {
+  const fullName = decodeValue(card.find((line) => line.name === "FN")).trim();
+  if (fullName) {
+    return fullName;
+  }
+
+  // N is "Family;Given;Additional;Prefix;Suffix"
+  const [family = "", given = "", additional = ""] = splitStructured(
+    decodeValue(card.find((line) => line.name === "N"))
+  );
+
+  return [given, additional, family].map((part) => part.trim()).filter(Boolean).join(" ");
+}
+
+function isPreferred(line: ContentLine): boolean {
+  return line.params.PREF === "1" || /(^|,)pref(,|$)/i.test(line.params.TYPE ?? "");
+}
+
+function splitStructured(value: string): string[] {
+  return value.split(/(?<!\\);/).map((part) => unescapeText(part));
+}
+
+function decodeValue(line: ContentLine | undefined): string {
+  if (!line) {
+    return "";
+  }
+
+  // Phones export vCard 2.1 names with non-ASCII characters quoted-printable
+  if (line.params.ENCODING?.toUpperCase() === "QUOTED-PRINTABLE") {
+    const bytes = line.value
+      .replace(/=\n/g, "")
+      .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(Number.parseInt(hex, 16)));
+
+    return Buffer.from(bytes, "latin1").toString("utf8");
+  }
+
+  return line.name === "N" || line.name === "ORG" ? line.value : unescapeText(line.value);
+}
@@ -0,0 +1,24 @@
+CREATE TABLE "event_reminders" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"whatsapp_number_id" uuid NOT NULL,
+	"calendar_connection_id" uuid,
+	"event_id" text NOT NULL,
+	"event_title" text,
+	"event_start" timestamp with time zone NOT NULL,
+	"reminder_minutes" integer NOT NULL,
+	"status" text DEFAULT 'scheduled' NOT NULL,
+	"whatsapp_message_id" text,
+	"error_message" text,
+	"remind_at" timestamp with time zone NOT NULL,
+	"sent_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "event_reminders" ADD CONSTRAINT "event_reminders_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_reminders" ADD CONSTRAINT "event_reminders_whatsapp_number_id_whatsapp_numbers_id_fk" FOREIGN KEY ("whatsapp_number_id") REFERENCES "public"."whatsapp_numbers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_reminders" ADD CONSTRAINT "event_reminders_calendar_connection_id_calendar_connections_id_fk" FOREIGN KEY ("calendar_connection_id") REFERENCES "public"."calendar_connections"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "event_reminders_user_id_idx" ON "event_reminders" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "event_reminders_status_idx" ON "event_reminders" USING btree ("status");--> statement-breakpoint
+CREATE UNIQUE INDEX "event_reminders_user_event_start_idx" ON "event_reminders" USING btree ("user_id","event_id","event_start");
\ No newline at end of file
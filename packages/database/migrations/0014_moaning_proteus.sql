@@ -0,0 +1,14 @@
+CREATE TABLE "calendar_routing_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"calendar_connection_id" uuid NOT NULL,
+	"keyword" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "calendar_connections" ADD COLUMN "label" text;--> statement-breakpoint
+ALTER TABLE "calendar_routing_rules" ADD CONSTRAINT "calendar_routing_rules_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "calendar_routing_rules" ADD CONSTRAINT "calendar_routing_rules_calendar_connection_id_calendar_connections_id_fk" FOREIGN KEY ("calendar_connection_id") REFERENCES "public"."calendar_connections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "calendar_routing_rules_user_id_idx" ON "calendar_routing_rules" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "calendar_routing_rules_user_keyword_idx" ON "calendar_routing_rules" USING btree ("user_id","keyword");
\ No newline at end of file
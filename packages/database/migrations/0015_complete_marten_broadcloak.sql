@@ -0,0 +1,2 @@
+ALTER TABLE "user_preferences" ADD COLUMN "working_hours_start" text DEFAULT '09:00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_preferences" ADD COLUMN "working_hours_end" text DEFAULT '17:00' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "user_preferences" ADD COLUMN "daily_digest_enabled" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_preferences" ADD COLUMN "daily_digest_time" text DEFAULT '07:00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_preferences" ADD COLUMN "daily_digest_last_sent_on" date;
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "stt_stats_provider_date_hour_idx" ON "stt_provider_stats" USING btree ("provider_name","date","hour");
\ No newline at end of file
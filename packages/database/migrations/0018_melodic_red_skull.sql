@@ -0,0 +1,2 @@
+ALTER TABLE "voice_message_jobs" ADD COLUMN "calendar_connection_id" uuid;--> statement-breakpoint
+ALTER TABLE "voice_message_jobs" ADD CONSTRAINT "voice_message_jobs_calendar_connection_id_calendar_connections_id_fk" FOREIGN KEY ("calendar_connection_id") REFERENCES "public"."calendar_connections"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,34 @@
+CREATE TABLE "contact_aliases" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"alias" text NOT NULL,
+	"email" text NOT NULL,
+	"name" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "contacts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"calendar_connection_id" uuid NOT NULL,
+	"provider_contact_id" text NOT NULL,
+	"name" text NOT NULL,
+	"email" text NOT NULL,
+	"nicknames" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"meeting_count" integer DEFAULT 0 NOT NULL,
+	"last_met_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "calendar_connections" ADD COLUMN "contacts_sync_token" text;--> statement-breakpoint
+ALTER TABLE "calendar_connections" ADD COLUMN "contacts_synced_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "contact_aliases" ADD CONSTRAINT "contact_aliases_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contacts" ADD CONSTRAINT "contacts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contacts" ADD CONSTRAINT "contacts_calendar_connection_id_calendar_connections_id_fk" FOREIGN KEY ("calendar_connection_id") REFERENCES "public"."calendar_connections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "contact_aliases_user_id_idx" ON "contact_aliases" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "contact_aliases_user_alias_idx" ON "contact_aliases" USING btree ("user_id","alias");--> statement-breakpoint
+CREATE INDEX "contacts_user_id_idx" ON "contacts" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "contacts_user_email_idx" ON "contacts" USING btree ("user_id","email");--> statement-breakpoint
+CREATE UNIQUE INDEX "contacts_connection_contact_idx" ON "contacts" USING btree ("calendar_connection_id","provider_contact_id");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "personal_contacts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"email" text NOT NULL,
+	"source" text DEFAULT 'manual' NOT NULL,
+	"calendar_connection_id" uuid,
+	"provider_contact_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "personal_contacts" ADD CONSTRAINT "personal_contacts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "personal_contacts" ADD CONSTRAINT "personal_contacts_calendar_connection_id_calendar_connections_id_fk" FOREIGN KEY ("calendar_connection_id") REFERENCES "public"."calendar_connections"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "personal_contacts_user_id_idx" ON "personal_contacts" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "personal_contacts_user_email_idx" ON "personal_contacts" USING btree ("user_id","email");
\ No newline at end of file
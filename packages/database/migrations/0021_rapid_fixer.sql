@@ -0,0 +1 @@
+ALTER TABLE "user_preferences" ADD COLUMN "always_add_meeting_link" boolean DEFAULT false NOT NULL;
\ No newline at end of file
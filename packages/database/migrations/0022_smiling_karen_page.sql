@@ -0,0 +1,23 @@
+CREATE TABLE "event_operations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"voice_job_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"whatsapp_number_id" uuid NOT NULL,
+	"action" text NOT NULL,
+	"calendar_connection_id" uuid,
+	"event_id" text NOT NULL,
+	"event_title" text NOT NULL,
+	"previous_state" jsonb,
+	"status" text DEFAULT 'applied' NOT NULL,
+	"restored_event_id" text,
+	"error_message" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"undone_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "event_operations" ADD CONSTRAINT "event_operations_voice_job_id_voice_message_jobs_id_fk" FOREIGN KEY ("voice_job_id") REFERENCES "public"."voice_message_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_operations" ADD CONSTRAINT "event_operations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_operations" ADD CONSTRAINT "event_operations_whatsapp_number_id_whatsapp_numbers_id_fk" FOREIGN KEY ("whatsapp_number_id") REFERENCES "public"."whatsapp_numbers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "event_operations" ADD CONSTRAINT "event_operations_calendar_connection_id_calendar_connections_id_fk" FOREIGN KEY ("calendar_connection_id") REFERENCES "public"."calendar_connections"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "event_operations_voice_job_id_idx" ON "event_operations" USING btree ("voice_job_id");--> statement-breakpoint
+CREATE INDEX "event_operations_whatsapp_number_created_at_idx" ON "event_operations" USING btree ("whatsapp_number_id","created_at");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "voice_message_jobs" ADD COLUMN "parent_job_id" uuid;--> statement-breakpoint
+ALTER TABLE "voice_message_jobs" ADD COLUMN "intent_index" integer;--> statement-breakpoint
+ALTER TABLE "voice_message_jobs" ADD COLUMN "outcome" jsonb;--> statement-breakpoint
+ALTER TABLE "voice_message_jobs" ADD CONSTRAINT "voice_message_jobs_parent_job_id_voice_message_jobs_id_fk" FOREIGN KEY ("parent_job_id") REFERENCES "public"."voice_message_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "voice_jobs_parent_job_id_idx" ON "voice_message_jobs" USING btree ("parent_job_id");
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TYPE "public"."refund_request_status" AS ENUM('requested', 'approved', 'processed', 'rejected');--> statement-breakpoint
+CREATE TABLE "refund_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"payment_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"amount" integer NOT NULL,
+	"reason" text NOT NULL,
+	"status" "refund_request_status" DEFAULT 'requested' NOT NULL,
+	"requested_by" text,
+	"reviewed_by" text,
+	"reviewed_at" timestamp with time zone,
+	"rejection_reason" text,
+	"payfast_refund_id" text,
+	"failure_reason" text,
+	"credit_note_number" text,
+	"processed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "refund_requests_credit_note_number_unique" UNIQUE("credit_note_number")
+);
+--> statement-breakpoint
+ALTER TABLE "refund_requests" ADD CONSTRAINT "refund_requests_payment_id_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refund_requests" ADD CONSTRAINT "refund_requests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refund_requests" ADD CONSTRAINT "refund_requests_requested_by_users_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refund_requests" ADD CONSTRAINT "refund_requests_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "refund_requests_payment_id_idx" ON "refund_requests" USING btree ("payment_id");--> statement-breakpoint
+CREATE INDEX "refund_requests_user_id_idx" ON "refund_requests" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "refund_requests_status_idx" ON "refund_requests" USING btree ("status");--> statement-breakpoint
+CREATE UNIQUE INDEX "refund_requests_credit_note_number_idx" ON "refund_requests" USING btree ("credit_note_number");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "usage_counters" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"period_start" timestamp with time zone NOT NULL,
+	"period_end" timestamp with time zone NOT NULL,
+	"voice_notes" integer DEFAULT 0 NOT NULL,
+	"audio_seconds" integer DEFAULT 0 NOT NULL,
+	"text_messages" integer DEFAULT 0 NOT NULL,
+	"limit_notified_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "plans" ADD COLUMN "entitlements" jsonb;--> statement-breakpoint
+ALTER TABLE "usage_counters" ADD CONSTRAINT "usage_counters_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "usage_counters_user_period_idx" ON "usage_counters" USING btree ("user_id","period_start");
\ No newline at end of file
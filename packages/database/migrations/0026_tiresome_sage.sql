@@ -0,0 +1,11 @@
+ALTER TYPE "public"."activity_action" ADD VALUE 'subscription.trial_reminder_sent' BEFORE 'payment.completed';--> statement-breakpoint
+ALTER TYPE "public"."activity_action" ADD VALUE 'subscription.expired' BEFORE 'payment.completed';--> statement-breakpoint
+ALTER TYPE "public"."activity_action" ADD VALUE 'subscription.past_due' BEFORE 'payment.completed';--> statement-breakpoint
+ALTER TYPE "public"."activity_action" ADD VALUE 'subscription.dunning_reminder_sent' BEFORE 'payment.completed';--> statement-breakpoint
+ALTER TYPE "public"."activity_action" ADD VALUE 'subscription.paused' BEFORE 'payment.completed';--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD COLUMN "trial_reminders_sent" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD COLUMN "past_due_since" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD COLUMN "dunning_reminders_sent" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX "subscriptions_trial_ends_at_idx" ON "subscriptions" USING btree ("trial_ends_at");--> statement-breakpoint
+-- Subscriptions already past due went past due when they were last updated, before dunning reminders started bumping updated_at
+UPDATE "subscriptions" SET "past_due_since" = "updated_at" WHERE "status" = 'past_due' AND "past_due_since" IS NULL;
\ No newline at end of file
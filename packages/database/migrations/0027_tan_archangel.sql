@@ -0,0 +1,2 @@
+ALTER TABLE "payments" ADD COLUMN "line_items" jsonb;--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD COLUMN "credit_balance_cents" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "user_preferences" ALTER COLUMN "timezone" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "user_preferences" ALTER COLUMN "timezone" DROP NOT NULL;
\ No newline at end of file
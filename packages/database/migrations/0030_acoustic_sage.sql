@@ -0,0 +1,14 @@
+ALTER TYPE "public"."refund_request_status" ADD VALUE 'payout_unrecorded' BEFORE 'processed';--> statement-breakpoint
+CREATE TABLE "credit_note_counters" (
+	"period" text PRIMARY KEY NOT NULL,
+	"last_number" integer NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "refund_requests" DROP CONSTRAINT "refund_requests_credit_note_number_unique";--> statement-breakpoint
+-- Carry on numbering from the credit notes already issued
+INSERT INTO "credit_note_counters" ("period", "last_number")
+SELECT substring("credit_note_number" from 4 for 6), max(substring("credit_note_number" from 11)::integer)
+FROM "refund_requests"
+WHERE "credit_note_number" ~ '^CN-[0-9]{6}-[0-9]+$'
+GROUP BY 1;
@@ -0,0 +1 @@
+ALTER TYPE "public"."refund_request_status" ADD VALUE 'payout_unknown' BEFORE 'payout_unrecorded';
\ No newline at end of file
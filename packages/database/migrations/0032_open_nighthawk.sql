@@ -0,0 +1 @@
+ALTER TABLE "usage_counters" ADD COLUMN "media_messages" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "event_operations" ADD COLUMN "undo_started_at" timestamp with time zone;
\ No newline at end of file
@@ -18,6 +18,13 @@ type SeedPlan = {
     recurring: boolean;
     frequency: number | null;
   };
+  entitlements: {
+    voiceNotesPerMonth: number | null;
+    audioMinutesPerMonth: number | null;
+    calendarConnections: number | null;
+    multiEvent: boolean;
+    reminders: boolean;
+  };
   features: string[];
 };
 
@@ -38,11 +45,18 @@ const PLAN_SEEDS: SeedPlan[] = [
       recurring: false,
       frequency: null,
     },
+    entitlements: {
+      voiceNotesPerMonth: 50,
+      audioMinutesPerMonth: 30,
+      calendarConnections: 1,
+      multiEvent: false,
+      reminders: true,
+    },
     features: [
       "WhatsApp integration",
       "Google Calendar sync",
       "Basic reminders",
-      "Up to 50 events per month",
+      "Up to 50 voice notes per month",
     ],
   },
   {
@@ -61,6 +75,13 @@ const PLAN_SEEDS: SeedPlan[] = [
       recurring: true,
       frequency: 3,
     },
+    entitlements: {
+      voiceNotesPerMonth: 500,
+      audioMinutesPerMonth: 300,
+      calendarConnections: 3,
+      multiEvent: true,
+      reminders: true,
+    },
     features: [
       "Everything in trial",
       "Microsoft Outlook sync",
@@ -84,6 +105,13 @@ const PLAN_SEEDS: SeedPlan[] = [
       recurring: true,
       frequency: 6,
     },
+    entitlements: {
+      voiceNotesPerMonth: 500,
+      audioMinutesPerMonth: 300,
+      calendarConnections: 5,
+      multiEvent: true,
+      reminders: true,
+    },
     features: [
       "Everything in monthly",
       "Advanced features",
@@ -113,6 +141,7 @@ async function seedPlans() {
           sortOrder: plan.sortOrder,
           metadata: plan.metadata ?? null,
           payfastConfig: plan.payfastConfig,
+          entitlements: plan.entitlements,
           createdAt: now,
           updatedAt: now,
         })
@@ -130,6 +159,7 @@ async function seedPlans() {
             sortOrder: plan.sortOrder,
             metadata: plan.metadata ?? null,
             payfastConfig: plan.payfastConfig,
+            entitlements: plan.entitlements,
             updatedAt: now,
           },
         });
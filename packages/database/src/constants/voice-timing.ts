@@ -1,14 +1,21 @@
 export const VOICE_STAGE_SEQUENCE: Record<string, number> = {
   webhook_received: 5,
   audio_download: 10,
+  media_download: 12,
   transcription: 20,
+  media_extraction: 22,
   intent_analysis: 25,
   intent_build_context: 30,
   intent_request: 40,
   clarification_dispatch: 50,
   clarification_response: 55,
   event_create: 60,
+  event_import: 62,
   event_update: 70,
+  location_attach: 72,
+  event_correction: 75,
+  event_undo: 77,
   event_delete: 80,
+  event_query: 85,
   notification_send: 90,
 };
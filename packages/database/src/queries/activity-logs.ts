@@ -0,0 +1,37 @@
+import type { Database } from "../client";
+import { activityLogs } from "../schema";
+import { withMutationLogging } from "../utils/query-logger";
+
+export type ActivityAction = typeof activityLogs.$inferInsert["action"];
+
+export type ActivityEntityType = NonNullable<typeof activityLogs.$inferInsert["entityType"]>;
+
+/**
+ * Record an action in the audit trail. Metadata is stored as JSON.
+ */
+export async function logActivity(db: Database, data: {
+  userId: string;
+  action: ActivityAction;
+  entityType?: ActivityEntityType;
+  entityId?: string;
+  metadata?: Record<string, unknown>;
+}) {
+  return withMutationLogging(
+    'logActivity',
+    { userId: data.userId, action: data.action, entityId: data.entityId },
+    async () => {
+      const [entry] = await db
+        .insert(activityLogs)
+        .values({
+          userId: data.userId,
+          action: data.action,
+          entityType: data.entityType,
+          entityId: data.entityId,
+          metadata: data.metadata ? JSON.stringify(data.metadata) : undefined,
+        })
+        .returning();
+
+      return entry;
+    }
+  );
+}
@@ -0,0 +1,72 @@
+import { and, asc, eq } from "drizzle-orm";
+import type { Database } from "../client";
+import { calendarRoutingRules } from "../schema";
+import { withMutationLogging, withQueryLogging } from "../utils/query-logger";
+
+type CalendarRoutingRuleRecord = typeof calendarRoutingRules.$inferSelect;
+
+export async function getCalendarRoutingRules(db: Database, userId: string) {
+  return withQueryLogging(
+    'getCalendarRoutingRules',
+    { userId },
+    () => db.query.calendarRoutingRules.findMany({
+      where: eq(calendarRoutingRules.userId, userId),
+      orderBy: [asc(calendarRoutingRules.keyword)],
+    })
+  );
+}
+
+/**
+ * Add a keyword rule, or point an existing rule for the same keyword at a different calendar.
+ * Keywords are stored lower-cased so matching is case-insensitive.
+ */
+export async function upsertCalendarRoutingRule(
+  db: Database,
+  data: {
+    userId: string;
+    calendarConnectionId: string;
+    keyword: string;
+  }
+) {
+  const keyword = data.keyword.trim().toLowerCase();
+
+  return withMutationLogging(
+    'upsertCalendarRoutingRule',
+    { userId: data.userId, calendarConnectionId: data.calendarConnectionId, keyword },
+    async () => {
+      const [rule] = await db
+        .insert(calendarRoutingRules)
+        .values({ ...data, keyword })
+        .onConflictDoUpdate({
+          target: [calendarRoutingRules.userId, calendarRoutingRules.keyword],
+          set: {
+            calendarConnectionId: data.calendarConnectionId,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+
+      return rule;
+    }
+  );
+}
+
+export async function deleteCalendarRoutingRule(db: Database, userId: string, id: string) {
+  return withMutationLogging(
+    'deleteCalendarRoutingRule',
+    { userId, ruleId: id },
+    async () => {
+      const [deleted] = await db
+        .delete(calendarRoutingRules)
+        .where(and(
+          eq(calendarRoutingRules.id, id),
+          eq(calendarRoutingRules.userId, userId)
+        ))
+        .returning();
+
+      return deleted;
+    }
+  );
+}
+
+export type { CalendarRoutingRuleRecord };
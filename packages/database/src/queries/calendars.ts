@@ -89,6 +89,7 @@ export async function updateCalendarConnection(
   data: {
     calendarId?: string;
     calendarName?: string;
+    label?: string | null;
     accessToken?: string;
     refreshToken?: string;
     expiresAt?: Date;
@@ -0,0 +1,419 @@
+import { and, asc, desc, eq, inArray, lt, sql } from "drizzle-orm";
+import type { Database } from "../client";
+import { calendarConnections, contactAliases, contacts, personalContacts } from "../schema";
+import { withMutationLogging, withQueryLogging } from "../utils/query-logger";
+
+type ContactRecord = typeof contacts.$inferSelect;
+type ContactAliasRecord = typeof contactAliases.$inferSelect;
+type PersonalContactRecord = typeof personalContacts.$inferSelect;
+
+// Keeps single inserts well under Postgres' bind parameter limit on a full sync
+const CONTACT_UPSERT_BATCH_SIZE = 500;
+
+export interface SyncedContactInput {
+  providerContactId: string;
+  name: string;
+  email: string;
+  nicknames?: string[];
+}
+
+/**
+ * The user's synced contacts across all connections, most-met first
+ */
+export async function getContactDirectory(db: Database, userId: string) {
+  return withQueryLogging(
+    'getContactDirectory',
+    { userId },
+    () => db.query.contacts.findMany({
+      where: eq(contacts.userId, userId),
+      orderBy: [desc(contacts.meetingCount), asc(contacts.name)],
+    })
+  );
+}
+
+/**
+ * Store one round of provider changes and the token to continue from next time.
+ * A full sync replaces everything held for the connection; an incremental one only
+ * touches the contacts that changed.
+ */
+export async function applyContactSync(
+  db: Database,
+  data: {
+    userId: string;
+    calendarConnectionId: string;
+    contacts: SyncedContactInput[];
+    deletedIds: string[];
+    fullSync: boolean;
+    syncToken: string | null;
+  }
+) {
+  return withMutationLogging(
+    'applyContactSync',
+    {
+      userId: data.userId,
+      calendarConnectionId: data.calendarConnectionId,
+      upserted: data.contacts.length,
+      deleted: data.deletedIds.length,
+      fullSync: data.fullSync,
+    },
+    () => db.transaction(async (tx) => {
+      const syncedAt = new Date();
+
+      for (let i = 0; i < data.contacts.length; i += CONTACT_UPSERT_BATCH_SIZE) {
+        const batch = data.contacts.slice(i, i + CONTACT_UPSERT_BATCH_SIZE);
+
+        await tx
+          .insert(contacts)
+          .values(batch.map((contact) => ({
+            userId: data.userId,
+            calendarConnectionId: data.calendarConnectionId,
+            providerContactId: contact.providerContactId,
+            name: contact.name,
+            email: contact.email.toLowerCase(),
+            nicknames: contact.nicknames ?? [],
+            updatedAt: syncedAt,
+          })))
+          .onConflictDoUpdate({
+            target: [contacts.calendarConnectionId, contacts.providerContactId],
+            set: {
+              name: sql`excluded.name`,
+              email: sql`excluded.email`,
+              nicknames: sql`excluded.nicknames`,
+              updatedAt: syncedAt,
+            },
+          });
+      }
+
+      if (data.fullSync) {
+        // Anything not seen in a full listing was removed at the provider
+        await tx
+          .delete(contacts)
+          .where(and(
+            eq(contacts.calendarConnectionId, data.calendarConnectionId),
+            lt(contacts.updatedAt, syncedAt)
+          ));
+      } else if (data.deletedIds.length > 0) {
+        await tx
+          .delete(contacts)
+          .where(and(
+            eq(contacts.calendarConnectionId, data.calendarConnectionId),
+            inArray(contacts.providerContactId, data.deletedIds)
+          ));
+      }
+
+      await tx
+        .update(calendarConnections)
+        .set({
+          contactsSyncToken: data.syncToken,
+          contactsSyncedAt: syncedAt,
+        })
+        .where(eq(calendarConnections.id, data.calendarConnectionId));
+    })
+  );
+}
+
+/**
+ * Replace the meeting counts for a user's contacts with a fresh tally from their calendar
+ */
+export async function setContactMeetingStats(
+  db: Database,
+  userId: string,
+  stats: Array<{ email: string; meetingCount: number; lastMetAt: Date | null }>
+) {
+  return withMutationLogging(
+    'setContactMeetingStats',
+    { userId, contactCount: stats.length },
+    () => db.transaction(async (tx) => {
+      await tx
+        .update(contacts)
+        .set({ meetingCount: 0, lastMetAt: null })
+        .where(eq(contacts.userId, userId));
+
+      for (const stat of stats) {
+        await tx
+          .update(contacts)
+          .set({
+            meetingCount: stat.meetingCount,
+            lastMetAt: stat.lastMetAt,
+          })
+          .where(and(
+            eq(contacts.userId, userId),
+            eq(contacts.email, stat.email.toLowerCase())
+          ));
+      }
+    })
+  );
+}
+
+/**
+ * Count a newly scheduled meeting so the next lookup already prefers these people
+ */
+export async function recordContactMeeting(
+  db: Database,
+  userId: string,
+  emails: string[],
+  metAt: Date
+) {
+  if (emails.length === 0) {
+    return;
+  }
+
+  return withMutationLogging(
+    'recordContactMeeting',
+    { userId, attendeeCount: emails.length },
+    () => db
+      .update(contacts)
+      .set({
+        meetingCount: sql`${contacts.meetingCount} + 1`,
+        lastMetAt: sql`greatest(${contacts.lastMetAt}, ${metAt.toISOString()}::timestamptz)`,
+      })
+      .where(and(
+        eq(contacts.userId, userId),
+        inArray(contacts.email, emails.map((email) => email.toLowerCase()))
+      ))
+  );
+}
+
+export async function getContactAliases(db: Database, userId: string) {
+  return withQueryLogging(
+    'getContactAliases',
+    { userId },
+    () => db.query.contactAliases.findMany({
+      where: eq(contactAliases.userId, userId),
+      orderBy: [asc(contactAliases.alias)],
+    })
+  );
+}
+
+/**
+ * Add an alias, or point an existing one at a different person.
+ * Aliases are stored lower-cased so matching is case-insensitive.
+ */
+export async function upsertContactAlias(
+  db: Database,
+  data: {
+    userId: string;
+    alias: string;
+    email: string;
+    name?: string | null;
+  }
+) {
+  const alias = data.alias.trim().toLowerCase();
+  const email = data.email.trim().toLowerCase();
+
+  return withMutationLogging(
+    'upsertContactAlias',
+    { userId: data.userId, alias },
+    async () => {
+      const [record] = await db
+        .insert(contactAliases)
+        .values({ userId: data.userId, alias, email, name: data.name ?? null })
+        .onConflictDoUpdate({
+          target: [contactAliases.userId, contactAliases.alias],
+          set: {
+            email,
+            name: data.name ?? null,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+
+      return record;
+    }
+  );
+}
+
+export async function deleteContactAlias(db: Database, userId: string, id: string) {
+  return withMutationLogging(
+    'deleteContactAlias',
+    { userId, aliasId: id },
+    async () => {
+      const [deleted] = await db
+        .delete(contactAliases)
+        .where(and(
+          eq(contactAliases.id, id),
+          eq(contactAliases.userId, userId)
+        ))
+        .returning();
+
+      return deleted;
+    }
+  );
+}
+
+/**
+ * Contacts the user added themselves, newest first, with the connection they were written back to
+ */
+export async function getPersonalContacts(db: Database, userId: string) {
+  return withQueryLogging(
+    'getPersonalContacts',
+    { userId },
+    () => db.query.personalContacts.findMany({
+      where: eq(personalContacts.userId, userId),
+      orderBy: [desc(personalContacts.createdAt)],
+      with: {
+        calendarConnection: {
+          columns: {
+            id: true,
+            provider: true,
+            email: true,
+          },
+        },
+      },
+    })
+  );
+}
+
+export async function getPersonalContactById(db: Database, userId: string, id: string) {
+  return withQueryLogging(
+    'getPersonalContactById',
+    { userId, contactId: id },
+    () => db.query.personalContacts.findFirst({
+      where: and(
+        eq(personalContacts.id, id),
+        eq(personalContacts.userId, userId)
+      ),
+    })
+  );
+}
+
+/**
+ * Save a person by email; saving the same email again only renames them
+ */
+export async function savePersonalContact(
+  db: Database,
+  data: {
+    userId: string;
+    name: string;
+    email: string;
+    source?: "manual" | "clarification" | "vcard";
+  }
+) {
+  const name = data.name.trim();
+  const email = data.email.trim().toLowerCase();
+
+  return withMutationLogging(
+    'savePersonalContact',
+    { userId: data.userId, source: data.source ?? "manual" },
+    async () => {
+      const [record] = await db
+        .insert(personalContacts)
+        .values({ userId: data.userId, name, email, source: data.source ?? "manual" })
+        .onConflictDoUpdate({
+          target: [personalContacts.userId, personalContacts.email],
+          set: {
+            name,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+
+      return record;
+    }
+  );
+}
+
+export async function updatePersonalContact(
+  db: Database,
+  userId: string,
+  id: string,
+  data: { name: string; email: string }
+) {
+  return withMutationLogging(
+    'updatePersonalContact',
+    { userId, contactId: id },
+    async () => {
+      const [updated] = await db
+        .update(personalContacts)
+        .set({
+          name: data.name.trim(),
+          email: data.email.trim().toLowerCase(),
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(personalContacts.id, id),
+          eq(personalContacts.userId, userId)
+        ))
+        .returning();
+
+      return updated;
+    }
+  );
+}
+
+/**
+ * Remember where a contact was written back to so later edits reach the same provider contact
+ */
+export async function setPersonalContactWriteBack(
+  db: Database,
+  userId: string,
+  id: string,
+  data: { calendarConnectionId: string; providerContactId: string }
+) {
+  return withMutationLogging(
+    'setPersonalContactWriteBack',
+    { userId, contactId: id, calendarConnectionId: data.calendarConnectionId },
+    async () => {
+      const [updated] = await db
+        .update(personalContacts)
+        .set({
+          calendarConnectionId: data.calendarConnectionId,
+          providerContactId: data.providerContactId,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(personalContacts.id, id),
+          eq(personalContacts.userId, userId)
+        ))
+        .returning();
+
+      return updated;
+    }
+  );
+}
+
+export async function deletePersonalContact(db: Database, userId: string, id: string) {
+  return withMutationLogging(
+    'deletePersonalContact',
+    { userId, contactId: id },
+    async () => {
+      const [deleted] = await db
+        .delete(personalContacts)
+        .where(and(
+          eq(personalContacts.id, id),
+          eq(personalContacts.userId, userId)
+        ))
+        .returning();
+
+      return deleted;
+    }
+  );
+}
+
+/**
+ * Whether an email is already in the user's synced or personal contacts
+ */
+export async function hasContactEmail(db: Database, userId: string, email: string) {
+  const normalized = email.trim().toLowerCase();
+
+  return withQueryLogging(
+    'hasContactEmail',
+    { userId },
+    async () => {
+      const [synced, personal] = await Promise.all([
+        db.query.contacts.findFirst({
+          columns: { id: true },
+          where: and(eq(contacts.userId, userId), eq(contacts.email, normalized)),
+        }),
+        db.query.personalContacts.findFirst({
+          columns: { id: true },
+          where: and(eq(personalContacts.userId, userId), eq(personalContacts.email, normalized)),
+        }),
+      ]);
+
+      return Boolean(synced || personal);
+    }
+  );
+}
+
+export type { ContactRecord, ContactAliasRecord, PersonalContactRecord };
@@ -0,0 +1,298 @@
+import { and, desc, eq, gt, isNull, lt, or, sql } from "drizzle-orm";
+import type { Database } from "../client";
+import { couponRedemptions, coupons, type couponDiscountTypeEnum, type couponDurationEnum } from "../schema";
+import { withMutationLogging, withQueryLogging } from "../utils/query-logger";
+
+export type CouponDiscountType = (typeof couponDiscountTypeEnum.enumValues)[number];
+export type CouponDuration = (typeof couponDurationEnum.enumValues)[number];
+export type CouponRecord = typeof coupons.$inferSelect;
+export type CouponRedemptionRecord = typeof couponRedemptions.$inferSelect;
+
+export interface CouponWritePayload {
+  description?: string | null;
+  maxRedemptions?: number | null;
+  expiresAt?: Date | null;
+  planIds?: string[] | null;
+  isActive?: boolean;
+}
+
+export interface CouponCreatePayload extends CouponWritePayload {
+  code: string;
+  discountType: CouponDiscountType;
+  percentOff?: number | null;
+  amountOffCents?: number | null;
+  duration: CouponDuration;
+  durationInCycles?: number | null;
+  createdBy?: string;
+}
+
+export type CouponValidation =
+  | { valid: true; coupon: CouponRecord }
+  | { valid: false; reason: "not_found" | "expired" | "exhausted" | "plan_not_eligible" | "already_redeemed"; message: string };
+
+export type CouponRedemption =
+  | { redeemed: true; redemption: CouponRedemptionRecord }
+  | { redeemed: false; reason: "exhausted" | "already_redeemed" };
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export async function getCoupons(db: Database) {
+  return withQueryLogging(
+    "getCoupons",
+    {},
+    () => db.query.coupons.findMany({
+      orderBy: [desc(coupons.createdAt)],
+    })
+  );
+}
+
+export async function getCouponById(db: Database, id: string) {
+  return withQueryLogging(
+    "getCouponById",
+    { couponId: id },
+    () => db.query.coupons.findFirst({
+      where: eq(coupons.id, id),
+    })
+  );
+}
+
+export async function getCouponByCode(db: Database, code: string) {
+  return withQueryLogging(
+    "getCouponByCode",
+    { code },
+    () => db.query.coupons.findFirst({
+      where: eq(coupons.code, normalizeCouponCode(code)),
+    })
+  );
+}
+
+export async function createCoupon(db: Database, input: CouponCreatePayload) {
+  return withMutationLogging(
+    "createCoupon",
+    { code: input.code },
+    async () => {
+      const [coupon] = await db
+        .insert(coupons)
+        .values({
+          ...input,
+          code: normalizeCouponCode(input.code),
+        })
+        .returning();
+
+      return coupon;
+    }
+  );
+}
+
+/**
+ * Update what can change after a coupon is shared. The discount itself is fixed once created.
+ */
+export async function updateCoupon(db: Database, id: string, input: CouponWritePayload) {
+  return withMutationLogging(
+    "updateCoupon",
+    { couponId: id },
+    async () => {
+      const [coupon] = await db
+        .update(coupons)
+        .set({
+          ...input,
+          updatedAt: new Date(),
+        })
+        .where(eq(coupons.id, id))
+        .returning();
+
+      if (!coupon) {
+        throw new Error("Coupon not found");
+      }
+
+      return coupon;
+    }
+  );
+}
+
+export async function setCouponActive(db: Database, id: string, isActive: boolean) {
+  return withMutationLogging(
+    "setCouponActive",
+    { couponId: id, isActive },
+    async () => {
+      const [coupon] = await db
+        .update(coupons)
+        .set({ isActive, updatedAt: new Date() })
+        .where(eq(coupons.id, id))
+        .returning();
+
+      if (!coupon) {
+        throw new Error("Coupon not found");
+      }
+
+      return coupon;
+    }
+  );
+}
+
+/**
+ * Check a code can be used at checkout for a plan: active, not expired, under its redemption limit,
+ * allowed on the plan, and not already used by this user.
+ */
+export async function validateCoupon(
+  db: Database,
+  input: { code: string; planId: string; userId: string }
+): Promise<CouponValidation> {
+  const coupon = await getCouponByCode(db, input.code);
+
+  if (!coupon || !coupon.isActive) {
+    return { valid: false, reason: "not_found", message: "That promo code isn't valid" };
+  }
+
+  if (coupon.expiresAt && coupon.expiresAt <= new Date()) {
+    return { valid: false, reason: "expired", message: "That promo code has expired" };
+  }
+
+  if (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) {
+    return { valid: false, reason: "exhausted", message: "That promo code has been fully redeemed" };
+  }
+
+  if (coupon.planIds && !coupon.planIds.includes(input.planId)) {
+    return { valid: false, reason: "plan_not_eligible", message: "That promo code can't be used on this plan" };
+  }
+
+  const redemption = await getCouponRedemption(db, coupon.id, input.userId);
+
+  if (redemption) {
+    return { valid: false, reason: "already_redeemed", message: "You've already used that promo code" };
+  }
+
+  return { valid: true, coupon };
+}
+
+export async function getCouponRedemption(db: Database, couponId: string, userId: string) {
+  return withQueryLogging(
+    "getCouponRedemption",
+    { couponId, userId },
+    () => db.query.couponRedemptions.findFirst({
+      where: and(eq(couponRedemptions.couponId, couponId), eq(couponRedemptions.userId, userId)),
+    })
+  );
+}
+
+/**
+ * A user's coupon redemptions on a plan, newest first
+ */
+export async function getUserCouponRedemptions(db: Database, userId: string, planId: string) {
+  return withQueryLogging(
+    "getUserCouponRedemptions",
+    { userId, planId },
+    () => db.query.couponRedemptions.findMany({
+      where: and(eq(couponRedemptions.userId, userId), eq(couponRedemptions.planId, planId)),
+      orderBy: [desc(couponRedemptions.createdAt)],
+    })
+  );
+}
+
+/**
+ * Record a user's first discounted payment with a coupon and count it against the coupon's limit.
+ * The limit is checked here, as the count goes up, so concurrent checkouts can't all take the last
+ * redemption. A checkout over the limit has already been charged at the discount, so it's recorded as
+ * ended, without counting, and later renewals are charged in full. Refused as well when the redemption
+ * exists already, e.g. for a repeated ITN.
+ */
+export async function redeemCoupon(db: Database, data: {
+  couponId: string;
+  userId: string;
+  subscriptionId?: string;
+  paymentId?: string;
+  planId: string;
+  payfastMPaymentId: string;
+  discountCents: number;
+  chargesRemaining: number | null;
+}): Promise<CouponRedemption> {
+  return withMutationLogging(
+    "redeemCoupon",
+    { couponId: data.couponId, userId: data.userId, paymentId: data.paymentId },
+    () => db.transaction(async (tx): Promise<CouponRedemption> => {
+      const [counted] = await tx
+        .update(coupons)
+        .set({
+          redemptionCount: sql`${coupons.redemptionCount} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(coupons.id, data.couponId),
+          or(isNull(coupons.maxRedemptions), lt(coupons.redemptionCount, coupons.maxRedemptions))
+        ))
+        .returning();
+
+      const chargesRemaining = counted ? data.chargesRemaining : 0;
+
+      const [redemption] = await tx
+        .insert(couponRedemptions)
+        .values({
+          ...data,
+          chargesRemaining,
+          status: chargesRemaining === 0 ? "ended" : "active",
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!redemption) {
+        // Counted when it was first redeemed
+        if (counted) {
+          await tx
+            .update(coupons)
+            .set({ redemptionCount: sql`${coupons.redemptionCount} - 1` })
+            .where(eq(coupons.id, data.couponId));
+        }
+
+        return { redeemed: false, reason: "already_redeemed" };
+      }
+
+      return counted
+        ? { redeemed: true, redemption }
+        : { redeemed: false, reason: "exhausted" };
+    })
+  );
+}
+
+/**
+ * Use up one discounted renewal. The redemption ends with its last charge.
+ */
+export async function consumeCouponCharge(db: Database, id: string) {
+  return withMutationLogging(
+    "consumeCouponCharge",
+    { couponRedemptionId: id },
+    async () => {
+      const [redemption] = await db
+        .update(couponRedemptions)
+        .set({
+          chargesRemaining: sql`${couponRedemptions.chargesRemaining} - 1`,
+          status: sql`case when ${couponRedemptions.chargesRemaining} <= 1 then 'ended'::coupon_redemption_status else ${couponRedemptions.status} end`,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(couponRedemptions.id, id),
+          eq(couponRedemptions.status, "active"),
+          gt(couponRedemptions.chargesRemaining, 0)
+        ))
+        .returning();
+
+      return redemption;
+    }
+  );
+}
+
+/**
+ * Stop discounting a user's renewals, e.g. when they move to another plan.
+ */
+export async function endCouponRedemptions(db: Database, userId: string) {
+  return withMutationLogging(
+    "endCouponRedemptions",
+    { userId },
+    async () => db
+      .update(couponRedemptions)
+      .set({ status: "ended", updatedAt: new Date() })
+      .where(and(eq(couponRedemptions.userId, userId), eq(couponRedemptions.status, "active")))
+      .returning()
+  );
+}
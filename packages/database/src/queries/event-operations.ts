@@ -0,0 +1,184 @@
+import { and, desc, eq, gte, isNull, lt, or } from "drizzle-orm";
+import type { Database } from "../client";
+import { eventOperations } from "../schema";
+import { withMutationLogging, withQueryLogging } from "../utils/query-logger";
+
+type EventOperationRecord = typeof eventOperations.$inferSelect;
+
+export type EventOperationAction = "CREATE" | "UPDATE" | "DELETE";
+
+// An event as it was before a change, as stored in event_operations.previous_state
+export interface EventOperationSnapshot {
+  title: string;
+  description?: string;
+  start: string; // ISO
+  end: string; // ISO
+  allDay?: boolean;
+  location?: string;
+  attendees: string[];
+  reminderMinutes?: number;
+  recurrence?: string | null; // RRULE line, null when not a series; missing on older snapshots
+}
+
+export async function recordEventOperation(
+  db: Database,
+  data: {
+    voiceJobId: string;
+    userId: string;
+    whatsappNumberId: string;
+    action: EventOperationAction;
+    calendarConnectionId: string | null;
+    eventId: string;
+    eventTitle: string;
+    previousState?: EventOperationSnapshot | null;
+  }
+) {
+  return withMutationLogging(
+    'recordEventOperation',
+    { voiceJobId: data.voiceJobId, action: data.action },
+    async () => {
+      const [operation] = await db
+        .insert(eventOperations)
+        .values({
+          voiceJobId: data.voiceJobId,
+          userId: data.userId,
+          whatsappNumberId: data.whatsappNumberId,
+          action: data.action,
+          calendarConnectionId: data.calendarConnectionId,
+          eventId: data.eventId,
+          eventTitle: data.eventTitle,
+          previousState: data.previousState ?? null,
+        })
+        .returning();
+
+      return operation;
+    }
+  );
+}
+
+export async function getEventOperationById(db: Database, id: string) {
+  return withQueryLogging(
+    'getEventOperationById',
+    { id },
+    () => db.query.eventOperations.findFirst({
+      where: eq(eventOperations.id, id),
+    })
+  );
+}
+
+/**
+ * Most recent change from this number that can still be undone, i.e. the one an "undo" reply refers to
+ */
+export async function getLatestUndoableOperation(
+  db: Database,
+  whatsappNumberId: string,
+  since: Date
+) {
+  return withQueryLogging(
+    'getLatestUndoableOperation',
+    { whatsappNumberId, since },
+    () => db.query.eventOperations.findFirst({
+      where: and(
+        eq(eventOperations.whatsappNumberId, whatsappNumberId),
+        eq(eventOperations.status, "applied"),
+        gte(eventOperations.createdAt, since)
+      ),
+      orderBy: [desc(eventOperations.createdAt)],
+    })
+  );
+}
+
+/**
+ * Take an operation for undoing; returns nothing when it was already undone or is being undone,
+ * so a double tap on "Undo" only reverts once
+ */
+export async function claimEventOperationUndo(db: Database, id: string) {
+  return withMutationLogging(
+    'claimEventOperationUndo',
+    { id },
+    async () => {
+      const [claimed] = await db
+        .update(eventOperations)
+        .set({ status: "undoing", undoStartedAt: new Date() })
+        .where(and(
+          eq(eventOperations.id, id),
+          eq(eventOperations.status, "applied")
+        ))
+        .returning();
+
+      return claimed;
+    }
+  );
+}
+
+export async function completeEventOperationUndo(
+  db: Database,
+  id: string,
+  data: { restoredEventId?: string | null } = {}
+) {
+  return withMutationLogging(
+    'completeEventOperationUndo',
+    { id },
+    async () => {
+      const [updated] = await db
+        .update(eventOperations)
+        .set({
+          status: "undone",
+          restoredEventId: data.restoredEventId ?? null,
+          errorMessage: null,
+          undoneAt: new Date(),
+        })
+        .where(eq(eventOperations.id, id))
+        .returning();
+
+      return updated;
+    }
+  );
+}
+
+export async function failEventOperationUndo(db: Database, id: string, errorMessage: string) {
+  return withMutationLogging(
+    'failEventOperationUndo',
+    { id },
+    async () => {
+      const [updated] = await db
+        .update(eventOperations)
+        .set({
+          status: "undo_failed",
+          errorMessage,
+        })
+        .where(eq(eventOperations.id, id))
+        .returning();
+
+      return updated;
+    }
+  );
+}
+
+/**
+ * Fail undos that were claimed before `startedBefore` and never finished, e.g. because the job was lost,
+ * so they don't stay "undoing" forever
+ */
+export async function expireStaleEventOperationUndos(db: Database, startedBefore: Date) {
+  return withMutationLogging(
+    'expireStaleEventOperationUndos',
+    { startedBefore },
+    () => db
+      .update(eventOperations)
+      .set({
+        status: "undo_failed",
+        errorMessage: "Undo timed out",
+      })
+      .where(and(
+        eq(eventOperations.status, "undoing"),
+        or(
+          lt(eventOperations.undoStartedAt, startedBefore),
+          // Claimed before the claim time was recorded
+          and(isNull(eventOperations.undoStartedAt), lt(eventOperations.createdAt, startedBefore))
+        )
+      ))
+      .returning()
+  );
+}
+
+export type { EventOperationRecord };
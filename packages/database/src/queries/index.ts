@@ -4,6 +4,7 @@ export * from "./users";
 export * from "./subscriptions";
 export * from "./payments";
 export * from "./calendars";
+export * from "./calendar-routing";
 export * from "./preferences";
 export * from "./invoices";
 export * from "./whatsapp-analytics";
@@ -12,4 +13,13 @@ export * from "./voice-messages";
 export * from "./conversation-states";
 export * from "./event-verification";
 export * from "./pending-intents";
-export * from "./plans";
\ No newline at end of file
+export * from "./plans";
+export * from "./reminders";
+export * from "./stt-stats";
+export * from "./intent-feedback";
+export * from "./contacts";
+export * from "./event-operations";
+export * from "./refunds";
+export * from "./usage";
+export * from "./activity-logs";
+export * from "./coupons";
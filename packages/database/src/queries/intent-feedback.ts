@@ -0,0 +1,293 @@
+import { and, count, desc, eq, gte, isNotNull, isNull, lte, sql } from "drizzle-orm";
+import type { Database } from "../client";
+import { intentFeedback, users, voiceMessageJobs } from "../schema";
+import { withMutationLogging, withQueryLogging } from "../utils/query-logger";
+
+// Corrected fields as stored in intent_feedback.corrected_intent
+export type IntentFieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * Most recent event created from this number, i.e. the one a "wrong" reply refers to
+ */
+export async function getLatestCreatedEventJob(
+  db: Database,
+  whatsappNumberId: string,
+  since: Date
+) {
+  return withQueryLogging(
+    'getLatestCreatedEventJob',
+    { whatsappNumberId, since },
+    () => db.query.voiceMessageJobs.findFirst({
+      where: and(
+        eq(voiceMessageJobs.whatsappNumberId, whatsappNumberId),
+        isNotNull(voiceMessageJobs.calendarEventId),
+        gte(voiceMessageJobs.createdAt, since),
+        sql`coalesce(${voiceMessageJobs.intentSnapshot}->>'action', ${voiceMessageJobs.intentAnalysis}->>'action') = 'CREATE'`
+      ),
+      orderBy: [desc(voiceMessageJobs.createdAt)],
+    })
+  );
+}
+
+/**
+ * Open a correction for a job, reusing one that is still waiting for the user's reply
+ */
+export async function startIntentFeedback(
+  db: Database,
+  data: {
+    voiceJobId: string;
+    transcribedText: string;
+    originalIntent: unknown;
+  }
+) {
+  return withMutationLogging(
+    'startIntentFeedback',
+    { voiceJobId: data.voiceJobId },
+    async () => {
+      const existing = await db.query.intentFeedback.findFirst({
+        where: and(
+          eq(intentFeedback.voiceJobId, data.voiceJobId),
+          eq(intentFeedback.wasCorrect, false),
+          isNull(intentFeedback.feedbackAt)
+        ),
+      });
+
+      if (existing) {
+        return existing;
+      }
+
+      const [feedback] = await db
+        .insert(intentFeedback)
+        .values({
+          voiceJobId: data.voiceJobId,
+          transcribedText: data.transcribedText,
+          originalIntent: data.originalIntent,
+          wasCorrect: false,
+        })
+        .returning();
+
+      return feedback;
+    }
+  );
+}
+
+export async function getIntentFeedbackById(db: Database, id: string) {
+  return withQueryLogging(
+    'getIntentFeedbackById',
+    { id },
+    () => db.query.intentFeedback.findFirst({
+      where: eq(intentFeedback.id, id),
+    })
+  );
+}
+
+/**
+ * The last correction applied to a job's event, which is what the event looks like now
+ */
+export async function getLatestIntentCorrection(db: Database, voiceJobId: string) {
+  return withQueryLogging(
+    'getLatestIntentCorrection',
+    { voiceJobId },
+    () => db.query.intentFeedback.findFirst({
+      where: and(
+        eq(intentFeedback.voiceJobId, voiceJobId),
+        isNotNull(intentFeedback.correctedIntent)
+      ),
+      orderBy: [desc(intentFeedback.createdAt)],
+    })
+  );
+}
+
+/**
+ * Correction on this number that is still waiting for the user to say what was wrong
+ */
+export async function getOpenIntentFeedbackByWhatsappNumber(
+  db: Database,
+  whatsappNumberId: string,
+  since: Date
+) {
+  return withQueryLogging(
+    'getOpenIntentFeedbackByWhatsappNumber',
+    { whatsappNumberId, since },
+    async () => {
+      const [row] = await db
+        .select({ feedback: intentFeedback })
+        .from(intentFeedback)
+        .innerJoin(voiceMessageJobs, eq(intentFeedback.voiceJobId, voiceMessageJobs.id))
+        .where(
+          and(
+            eq(voiceMessageJobs.whatsappNumberId, whatsappNumberId),
+            eq(intentFeedback.wasCorrect, false),
+            isNull(intentFeedback.feedbackAt),
+            gte(intentFeedback.createdAt, since)
+          )
+        )
+        .orderBy(desc(intentFeedback.createdAt))
+        .limit(1);
+
+      return row?.feedback ?? null;
+    }
+  );
+}
+
+/**
+ * Store what the user said was wrong; a null reply closes the correction without changes
+ */
+export async function recordIntentFeedbackReply(
+  db: Database,
+  id: string,
+  userFeedback: string | null
+) {
+  return withMutationLogging(
+    'recordIntentFeedbackReply',
+    { id, cancelled: userFeedback === null },
+    async () => {
+      const [updated] = await db
+        .update(intentFeedback)
+        .set({
+          userFeedback,
+          feedbackAt: new Date(),
+        })
+        .where(eq(intentFeedback.id, id))
+        .returning();
+
+      return updated;
+    }
+  );
+}
+
+export async function saveIntentFeedbackCorrection(
+  db: Database,
+  id: string,
+  correctedIntent: { intent: unknown; changes: IntentFieldChanges }
+) {
+  return withMutationLogging(
+    'saveIntentFeedbackCorrection',
+    { id, changedFields: Object.keys(correctedIntent.changes) },
+    async () => {
+      const [updated] = await db
+        .update(intentFeedback)
+        .set({ correctedIntent })
+        .where(eq(intentFeedback.id, id))
+        .returning();
+
+      return updated;
+    }
+  );
+}
+
+/**
+ * Misparsed transcripts for admin review, newest first
+ */
+export async function getIntentFeedbackList(
+  db: Database,
+  options: {
+    page?: number;
+    limit?: number;
+    status?: 'all' | 'corrected' | 'pending' | 'cancelled';
+  } = {}
+) {
+  return withQueryLogging(
+    'getIntentFeedbackList',
+    options,
+    async () => {
+      const { page = 1, limit = 25, status = 'all' } = options;
+      const offset = (page - 1) * limit;
+
+      const conditions = [eq(intentFeedback.wasCorrect, false)];
+      if (status === 'corrected') {
+        conditions.push(isNotNull(intentFeedback.correctedIntent));
+      } else if (status === 'pending') {
+        // Waiting for the user's reply, or replied without anything to change
+        conditions.push(
+          isNull(intentFeedback.correctedIntent),
+          sql`(${intentFeedback.feedbackAt} is null or ${intentFeedback.userFeedback} is not null)`
+        );
+      } else if (status === 'cancelled') {
+        // Closed by the user without saying what was wrong
+        conditions.push(isNotNull(intentFeedback.feedbackAt), isNull(intentFeedback.userFeedback));
+      }
+      const where = and(...conditions);
+
+      const items = await db
+        .select({
+          id: intentFeedback.id,
+          voiceJobId: intentFeedback.voiceJobId,
+          transcribedText: intentFeedback.transcribedText,
+          originalIntent: intentFeedback.originalIntent,
+          userFeedback: intentFeedback.userFeedback,
+          correctedIntent: intentFeedback.correctedIntent,
+          createdAt: intentFeedback.createdAt,
+          feedbackAt: intentFeedback.feedbackAt,
+          userId: users.id,
+          userEmail: users.email,
+        })
+        .from(intentFeedback)
+        .leftJoin(voiceMessageJobs, eq(intentFeedback.voiceJobId, voiceMessageJobs.id))
+        .leftJoin(users, eq(voiceMessageJobs.userId, users.id))
+        .where(where)
+        .orderBy(desc(intentFeedback.createdAt))
+        .limit(limit)
+        .offset(offset);
+
+      const totalCount = await db
+        .select({ count: count() })
+        .from(intentFeedback)
+        .where(where);
+
+      const totalRecords = Number(totalCount[0]?.count) || 0;
+      const totalPages = Math.ceil(totalRecords / limit);
+
+      return {
+        items,
+        pagination: {
+          page,
+          limit,
+          totalCount: totalRecords,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPreviousPage: page > 1,
+        },
+      };
+    }
+  );
+}
+
+/**
+ * Completed corrections, oldest first, for building an evaluation dataset
+ */
+export async function getIntentFeedbackExportData(
+  db: Database,
+  dateRange?: { from: Date; to: Date }
+) {
+  return withQueryLogging(
+    'getIntentFeedbackExportData',
+    { dateRange },
+    () => {
+      const conditions = [
+        eq(intentFeedback.wasCorrect, false),
+        isNotNull(intentFeedback.correctedIntent),
+      ];
+
+      if (dateRange) {
+        conditions.push(
+          gte(intentFeedback.createdAt, dateRange.from),
+          lte(intentFeedback.createdAt, dateRange.to)
+        );
+      }
+
+      return db
+        .select({
+          id: intentFeedback.id,
+          transcribedText: intentFeedback.transcribedText,
+          originalIntent: intentFeedback.originalIntent,
+          userFeedback: intentFeedback.userFeedback,
+          correctedIntent: intentFeedback.correctedIntent,
+          createdAt: intentFeedback.createdAt,
+        })
+        .from(intentFeedback)
+        .where(and(...conditions))
+        .orderBy(intentFeedback.createdAt);
+    }
+  );
+}
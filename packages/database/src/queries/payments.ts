@@ -1,6 +1,6 @@
 import { eq, and, desc, sql, like, between } from "drizzle-orm";
 import type { Database } from "../client";
-import { payments } from "../schema";
+import { payments, type PaymentLineItem } from "../schema";
 import { withQueryLogging, withMutationLogging } from "../utils/query-logger";
 
 export async function getUserPayments(db: Database, userId: string, limit = 50) {
@@ -65,6 +65,7 @@ export async function createPayment(db: Database, data: {
   payfastPaymentId?: string;
   payfastPaymentUuid?: string;
   payfastMPaymentId?: string;
+  lineItems?: PaymentLineItem[];
 }) {
   return withMutationLogging(
     'createPayment',
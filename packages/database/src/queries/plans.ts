@@ -11,8 +11,27 @@ export type PlanPayfastConfig = {
   frequency: number | null;
 };
 
-export type PlanRecord = Omit<typeof plans.$inferSelect, "payfastConfig"> & {
+// Limits are per usage month; null means unlimited
+export type PlanEntitlements = {
+  voiceNotesPerMonth: number | null;
+  audioMinutesPerMonth: number | null;
+  calendarConnections: number | null;
+  multiEvent: boolean;
+  reminders: boolean;
+};
+
+// Plans created before entitlements existed keep working as they did
+export const DEFAULT_PLAN_ENTITLEMENTS: PlanEntitlements = {
+  voiceNotesPerMonth: null,
+  audioMinutesPerMonth: null,
+  calendarConnections: null,
+  multiEvent: true,
+  reminders: true,
+};
+
+export type PlanRecord = Omit<typeof plans.$inferSelect, "payfastConfig" | "entitlements"> & {
   payfastConfig: PlanPayfastConfig;
+  entitlements: PlanEntitlements;
   features: PlanFeatureRecord[];
 };
 
@@ -34,6 +53,7 @@ export interface PlanWritePayload {
   sortOrder?: number;
   metadata?: Record<string, unknown> | null;
   payfastConfig: PlanPayfastConfig;
+  entitlements?: PlanEntitlements;
   features: PlanFeatureInput[];
 }
 
@@ -41,10 +61,12 @@ function toPlanRecord(
   plan: typeof plans.$inferSelect & { features: PlanFeatureRecord[] }
 ): PlanRecord {
   const config = plan.payfastConfig as PlanPayfastConfig | null;
+  const entitlements = plan.entitlements as Partial<PlanEntitlements> | null;
 
   return {
     ...plan,
     payfastConfig: config ?? { recurring: false, frequency: null },
+    entitlements: { ...DEFAULT_PLAN_ENTITLEMENTS, ...entitlements },
   };
 }
 
@@ -119,6 +141,7 @@ export async function createPlan(db: Database, input: PlanWritePayload & { id: s
           sortOrder,
           metadata: input.metadata ?? null,
           payfastConfig: input.payfastConfig,
+          entitlements: input.entitlements ?? null,
           createdAt: now,
           updatedAt: now,
         });
@@ -174,6 +197,10 @@ export async function updatePlan(db: Database, planId: string, input: PlanWriteP
           updateValues.sortOrder = input.sortOrder;
         }
 
+        if (input.entitlements) {
+          updateValues.entitlements = input.entitlements;
+        }
+
         if (input.status) {
           updateValues.status = input.status;
         }
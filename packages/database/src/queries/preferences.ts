@@ -100,6 +100,83 @@ export async function updateLocaleSettings(
   );
 }
 
+export async function updateWorkingHours(
+  db: Database,
+  userId: string,
+  workingHours: {
+    workingHoursStart: string;
+    workingHoursEnd: string;
+  }
+) {
+  return withMutationLogging(
+    'updateWorkingHours',
+    { userId, ...workingHours },
+    async () => {
+      const [updated] = await db
+        .update(userPreferences)
+        .set({
+          ...workingHours,
+          updatedAt: new Date(),
+        })
+        .where(eq(userPreferences.userId, userId))
+        .returning();
+        
+      return updated;
+    }
+  );
+}
+
+export async function updateDailyDigestSettings(
+  db: Database,
+  userId: string,
+  settings: {
+    dailyDigestEnabled: boolean;
+    dailyDigestTime: string;
+  }
+) {
+  return withMutationLogging(
+    'updateDailyDigestSettings',
+    { userId, ...settings },
+    async () => {
+      const [updated] = await db
+        .update(userPreferences)
+        .set({
+          ...settings,
+          updatedAt: new Date(),
+        })
+        .where(eq(userPreferences.userId, userId))
+        .returning();
+        
+      return updated;
+    }
+  );
+}
+
+export async function updateMeetingLinkSettings(
+  db: Database,
+  userId: string,
+  settings: {
+    alwaysAddMeetingLink: boolean;
+  }
+) {
+  return withMutationLogging(
+    'updateMeetingLinkSettings',
+    { userId, ...settings },
+    async () => {
+      const [updated] = await db
+        .update(userPreferences)
+        .set({
+          ...settings,
+          updatedAt: new Date(),
+        })
+        .where(eq(userPreferences.userId, userId))
+        .returning();
+        
+      return updated;
+    }
+  );
+}
+
 export async function setDefaultCalendar(db: Database, userId: string, calendarId: string | null) {
   return withMutationLogging(
     'setDefaultCalendar',
@@ -132,7 +209,12 @@ export async function resetPreferencesToDefault(db: Database, userId: string) {
           reminderNotifications: true,
           reminderMinutes: 10,
           defaultCalendarId: null,
-          timezone: "Africa/Johannesburg",
+          workingHoursStart: "09:00",
+          workingHoursEnd: "17:00",
+          dailyDigestEnabled: false,
+          dailyDigestTime: "07:00",
+          alwaysAddMeetingLink: false,
+          timezone: null,
           dateFormat: "DD/MM/YYYY",
           timeFormat: "24h",
           updatedAt: new Date(),
@@ -0,0 +1,394 @@
+import { and, desc, eq, inArray, isNotNull, or, sql } from "drizzle-orm";
+import type { Database } from "../client";
+import { creditNoteCounters, payments, refundRequests } from "../schema";
+import { withMutationLogging, withQueryLogging } from "../utils/query-logger";
+
+export type RefundRequestStatus =
+  | "requested"
+  | "approved"
+  | "payout_unknown"
+  | "payout_unrecorded"
+  | "processed"
+  | "rejected";
+
+// Refunds that still count against what can be refunded on a payment
+const OUTSTANDING_REFUND_STATUSES: RefundRequestStatus[] = [
+  "requested",
+  "approved",
+  "payout_unknown",
+  "payout_unrecorded",
+  "processed",
+];
+
+export async function createRefundRequest(db: Database, data: {
+  paymentId: string;
+  userId: string;
+  amount: number; // Cents, VAT-inclusive
+  reason: string;
+  requestedBy: string;
+}) {
+  return withMutationLogging(
+    'createRefundRequest',
+    { paymentId: data.paymentId, userId: data.userId, amount: data.amount },
+    async () => {
+      const [request] = await db
+        .insert(refundRequests)
+        .values(data)
+        .returning();
+
+      return request;
+    }
+  );
+}
+
+export async function getRefundRequestById(db: Database, id: string) {
+  return withQueryLogging(
+    'getRefundRequestById',
+    { refundRequestId: id },
+    () => db.query.refundRequests.findFirst({
+      where: eq(refundRequests.id, id),
+      with: {
+        payment: true,
+        user: true,
+      },
+    })
+  );
+}
+
+export async function getUserRefundRequests(db: Database, userId: string) {
+  return withQueryLogging(
+    'getUserRefundRequests',
+    { userId },
+    () => db.query.refundRequests.findMany({
+      where: eq(refundRequests.userId, userId),
+      orderBy: [desc(refundRequests.createdAt)],
+      with: {
+        payment: true,
+      },
+    })
+  );
+}
+
+/**
+ * Refund requests for the admin approval queue, newest first
+ */
+export async function getRefundRequests(db: Database, options: {
+  status?: RefundRequestStatus;
+  limit?: number;
+  offset?: number;
+} = {}) {
+  const { status, limit = 50, offset = 0 } = options;
+
+  return withQueryLogging(
+    'getRefundRequests',
+    { status, limit, offset },
+    async () => {
+      const where = status ? eq(refundRequests.status, status) : undefined;
+
+      const [requests, countResult] = await Promise.all([
+        db.query.refundRequests.findMany({
+          where,
+          orderBy: [desc(refundRequests.createdAt)],
+          limit,
+          offset,
+          with: {
+            payment: true,
+            user: true,
+          },
+        }),
+        db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(refundRequests)
+          .where(where),
+      ]);
+
+      return {
+        requests,
+        total: countResult[0]?.count ?? 0,
+      };
+    }
+  );
+}
+
+/**
+ * What can still be refunded on a payment: its total less every refund that is open or already paid out
+ */
+export async function getRefundableAmount(db: Database, paymentId: string) {
+  return withQueryLogging(
+    'getRefundableAmount',
+    { paymentId },
+    async () => {
+      const payment = await db.query.payments.findFirst({
+        where: eq(payments.id, paymentId),
+      });
+
+      if (!payment) {
+        return 0;
+      }
+
+      const [result] = await db
+        .select({ total: sql<number>`coalesce(sum(${refundRequests.amount}), 0)::int` })
+        .from(refundRequests)
+        .where(and(
+          eq(refundRequests.paymentId, paymentId),
+          inArray(refundRequests.status, OUTSTANDING_REFUND_STATUSES)
+        ));
+
+      return Math.max(payment.totalAmount - (result?.total ?? 0), 0);
+    }
+  );
+}
+
+/**
+ * Approve a request, or take back an approved one whose refund failed, so it can be sent to PayFast.
+ * Returns nothing when another reviewer got there first, so a refund is never sent twice.
+ */
+export async function claimRefundRequestForProcessing(db: Database, id: string, reviewedBy: string) {
+  return withMutationLogging(
+    'claimRefundRequestForProcessing',
+    { refundRequestId: id, reviewedBy },
+    async () => {
+      const [claimed] = await db
+        .update(refundRequests)
+        .set({
+          status: "approved",
+          reviewedBy,
+          reviewedAt: new Date(),
+          failureReason: null,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(refundRequests.id, id),
+          or(
+            eq(refundRequests.status, "requested"),
+            and(eq(refundRequests.status, "approved"), isNotNull(refundRequests.failureReason))
+          )
+        ))
+        .returning();
+
+      return claimed;
+    }
+  );
+}
+
+export async function rejectRefundRequest(
+  db: Database,
+  id: string,
+  data: { reviewedBy: string; rejectionReason: string }
+) {
+  return withMutationLogging(
+    'rejectRefundRequest',
+    { refundRequestId: id, reviewedBy: data.reviewedBy },
+    async () => {
+      const [rejected] = await db
+        .update(refundRequests)
+        .set({
+          status: "rejected",
+          reviewedBy: data.reviewedBy,
+          reviewedAt: new Date(),
+          rejectionReason: data.rejectionReason,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(refundRequests.id, id), eq(refundRequests.status, "requested")))
+        .returning();
+
+      return rejected;
+    }
+  );
+}
+
+/**
+ * Keep an approved request approved after PayFast declined it, with the reason, so it can be retried
+ */
+export async function failRefundRequest(db: Database, id: string, failureReason: string) {
+  return withMutationLogging(
+    'failRefundRequest',
+    { refundRequestId: id },
+    async () => {
+      const [failed] = await db
+        .update(refundRequests)
+        .set({
+          failureReason,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(refundRequests.id, id), eq(refundRequests.status, "approved")))
+        .returning();
+
+      return failed;
+    }
+  );
+}
+
+/**
+ * Hold a refund PayFast gave no answer for. It can't be retried until an admin has checked PayFast
+ * and either recorded it as paid out or released it with markRefundNotPaidOut.
+ */
+export async function markRefundPayoutUnknown(db: Database, id: string, failureReason: string) {
+  return withMutationLogging(
+    'markRefundPayoutUnknown',
+    { refundRequestId: id },
+    async () => {
+      const [unknown] = await db
+        .update(refundRequests)
+        .set({
+          status: "payout_unknown",
+          failureReason,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(refundRequests.id, id), eq(refundRequests.status, "approved")))
+        .returning();
+
+      return unknown;
+    }
+  );
+}
+
+/**
+ * Release a refund PayFast gave no answer for once an admin has confirmed it wasn't paid out,
+ * so it can be retried like a declined one
+ */
+export async function markRefundNotPaidOut(db: Database, id: string, failureReason: string) {
+  return withMutationLogging(
+    'markRefundNotPaidOut',
+    { refundRequestId: id },
+    async () => {
+      const [released] = await db
+        .update(refundRequests)
+        .set({
+          status: "approved",
+          failureReason,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(refundRequests.id, id), eq(refundRequests.status, "payout_unknown")))
+        .returning();
+
+      return released;
+    }
+  );
+}
+
+/**
+ * Keep hold of a refund PayFast paid out but that couldn't be recorded, so recording it can be
+ * retried without sending the refund again
+ */
+export async function markRefundPayoutUnrecorded(
+  db: Database,
+  id: string,
+  data: { payfastRefundId?: string; failureReason: string }
+) {
+  return withMutationLogging(
+    'markRefundPayoutUnrecorded',
+    { refundRequestId: id, payfastRefundId: data.payfastRefundId },
+    async () => {
+      const [unrecorded] = await db
+        .update(refundRequests)
+        .set({
+          status: "payout_unrecorded",
+          payfastRefundId: data.payfastRefundId,
+          failureReason: data.failureReason,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(refundRequests.id, id),
+          inArray(refundRequests.status, ["approved", "payout_unknown"])
+        ))
+        .returning();
+
+      return unrecorded;
+    }
+  );
+}
+
+/**
+ * Record a refund PayFast paid out: number its credit note and move the payment to
+ * refunded or partially_refunded by everything refunded on it so far
+ */
+export async function completeRefundRequest(
+  db: Database,
+  id: string,
+  data: { payfastRefundId?: string }
+) {
+  return withMutationLogging(
+    'completeRefundRequest',
+    { refundRequestId: id },
+    () => db.transaction(async (tx) => {
+      const now = new Date();
+      const year = now.getFullYear();
+      const month = String(now.getMonth() + 1).padStart(2, '0');
+
+      const [request] = await tx
+        .select({ id: refundRequests.id })
+        .from(refundRequests)
+        .where(and(
+          eq(refundRequests.id, id),
+          inArray(refundRequests.status, ["approved", "payout_unknown", "payout_unrecorded"])
+        ))
+        .for("update");
+
+      if (!request) {
+        return undefined;
+      }
+
+      // Numbered per month like invoices (INV-202410-0001). The month's counter row stays
+      // locked until this transaction ends, so concurrent refunds can't take the same number.
+      const [counter] = await tx
+        .insert(creditNoteCounters)
+        .values({ period: `${year}${month}`, lastNumber: 1 })
+        .onConflictDoUpdate({
+          target: creditNoteCounters.period,
+          set: {
+            lastNumber: sql`${creditNoteCounters.lastNumber} + 1`,
+            updatedAt: now,
+          },
+        })
+        .returning();
+
+      const creditNoteNumber = `CN-${year}${month}-${String(counter?.lastNumber ?? 1).padStart(4, '0')}`;
+
+      const [processed] = await tx
+        .update(refundRequests)
+        .set({
+          status: "processed",
+          // A retried recording already has the refund ID from PayFast
+          ...(data.payfastRefundId ? { payfastRefundId: data.payfastRefundId } : {}),
+          creditNoteNumber,
+          processedAt: now,
+          failureReason: null,
+          updatedAt: now,
+        })
+        .where(eq(refundRequests.id, id))
+        .returning();
+
+      if (!processed) {
+        return undefined;
+      }
+
+      const [refunded] = await tx
+        .select({ total: sql<number>`coalesce(sum(${refundRequests.amount}), 0)::int` })
+        .from(refundRequests)
+        .where(and(
+          eq(refundRequests.paymentId, processed.paymentId),
+          eq(refundRequests.status, "processed")
+        ));
+
+      const payment = await tx.query.payments.findFirst({
+        where: eq(payments.id, processed.paymentId),
+      });
+
+      const refundAmount = refunded?.total ?? processed.amount;
+
+      await tx
+        .update(payments)
+        .set({
+          status: payment && refundAmount >= payment.totalAmount ? "refunded" : "partially_refunded",
+          refundAmount,
+          refundReason: processed.reason,
+          refundedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(payments.id, processed.paymentId));
+
+      return processed;
+    })
+  );
+}
@@ -0,0 +1,263 @@
+import { and, eq, desc, isNull, lt, or } from "drizzle-orm";
+import type { Database } from "../client";
+import {
+  eventReminders,
+  userPreferences,
+  whatsappNumbers,
+} from "../schema";
+import {
+  withMutationLogging,
+  withQueryLogging,
+} from "../utils/query-logger";
+
+type EventReminderRecord = typeof eventReminders.$inferSelect;
+type EventReminderInsert = typeof eventReminders.$inferInsert;
+
+export type ReminderRecipient = {
+  userId: string;
+  reminderMinutes: number;
+  timezone: string | null; // Null until the user picks one
+  whatsappNumberId: string;
+  phoneNumber: string;
+};
+
+/**
+ * Users who have WhatsApp reminders switched on and a verified, active number to receive them.
+ * When a user has several numbers the primary one wins.
+ */
+export async function getReminderRecipients(db: Database): Promise<ReminderRecipient[]> {
+  return withQueryLogging(
+    "getReminderRecipients",
+    {},
+    async () => {
+      const rows = await db
+        .select({
+          userId: userPreferences.userId,
+          reminderMinutes: userPreferences.reminderMinutes,
+          timezone: userPreferences.timezone,
+          whatsappNumberId: whatsappNumbers.id,
+          phoneNumber: whatsappNumbers.phoneNumber,
+        })
+        .from(userPreferences)
+        .innerJoin(whatsappNumbers, eq(userPreferences.userId, whatsappNumbers.userId))
+        .where(
+          and(
+            eq(userPreferences.reminderNotifications, true),
+            eq(whatsappNumbers.isVerified, true),
+            eq(whatsappNumbers.isActive, true)
+          )
+        )
+        .orderBy(desc(whatsappNumbers.isPrimary));
+
+      const recipients = new Map<string, ReminderRecipient>();
+
+      for (const row of rows) {
+        if (!recipients.has(row.userId)) {
+          recipients.set(row.userId, row);
+        }
+      }
+
+      return Array.from(recipients.values());
+    }
+  );
+}
+
+export type DailyDigestRecipient = {
+  userId: string;
+  dailyDigestTime: string;
+  dailyDigestLastSentOn: string | null;
+  timezone: string | null; // Null until the user picks one
+  dateFormat: "DD/MM/YYYY" | "MM/DD/YYYY" | "YYYY-MM-DD";
+  timeFormat: "12h" | "24h";
+  whatsappNumberId: string;
+  phoneNumber: string;
+};
+
+/**
+ * Users who opted into the daily agenda digest and have a verified, active number to receive it.
+ * When a user has several numbers the primary one wins.
+ */
+export async function getDailyDigestRecipients(db: Database): Promise<DailyDigestRecipient[]> {
+  return withQueryLogging(
+    "getDailyDigestRecipients",
+    {},
+    async () => {
+      const rows = await db
+        .select({
+          userId: userPreferences.userId,
+          dailyDigestTime: userPreferences.dailyDigestTime,
+          dailyDigestLastSentOn: userPreferences.dailyDigestLastSentOn,
+          timezone: userPreferences.timezone,
+          dateFormat: userPreferences.dateFormat,
+          timeFormat: userPreferences.timeFormat,
+          whatsappNumberId: whatsappNumbers.id,
+          phoneNumber: whatsappNumbers.phoneNumber,
+        })
+        .from(userPreferences)
+        .innerJoin(whatsappNumbers, eq(userPreferences.userId, whatsappNumbers.userId))
+        .where(
+          and(
+            eq(userPreferences.dailyDigestEnabled, true),
+            eq(whatsappNumbers.isVerified, true),
+            eq(whatsappNumbers.isActive, true)
+          )
+        )
+        .orderBy(desc(whatsappNumbers.isPrimary));
+
+      const recipients = new Map<string, DailyDigestRecipient>();
+
+      for (const row of rows) {
+        if (!recipients.has(row.userId)) {
+          recipients.set(row.userId, row);
+        }
+      }
+
+      return Array.from(recipients.values());
+    }
+  );
+}
+
+/**
+ * Reserve today's digest for a user. Returns false when a digest for this local date (or a later
+ * one) was already claimed, which is what keeps overlapping polls from sending it twice.
+ */
+export async function claimDailyDigest(
+  db: Database,
+  userId: string,
+  localDate: string
+): Promise<boolean> {
+  return withMutationLogging(
+    "claimDailyDigest",
+    { userId, localDate },
+    async () => {
+      const updated = await db
+        .update(userPreferences)
+        .set({ dailyDigestLastSentOn: localDate })
+        .where(
+          and(
+            eq(userPreferences.userId, userId),
+            or(
+              isNull(userPreferences.dailyDigestLastSentOn),
+              lt(userPreferences.dailyDigestLastSentOn, localDate)
+            )
+          )
+        )
+        .returning({ id: userPreferences.id });
+
+      return updated.length > 0;
+    }
+  );
+}
+
+/**
+ * Give back a digest claim whose send couldn't be queued, so the next poll tries again. Only a claim
+ * still held for this date is released.
+ */
+export async function releaseDailyDigest(
+  db: Database,
+  userId: string,
+  localDate: string,
+  previousDate: string | null
+): Promise<void> {
+  await withMutationLogging(
+    "releaseDailyDigest",
+    { userId, localDate },
+    async () => {
+      await db
+        .update(userPreferences)
+        .set({ dailyDigestLastSentOn: previousDate })
+        .where(
+          and(
+            eq(userPreferences.userId, userId),
+            eq(userPreferences.dailyDigestLastSentOn, localDate)
+          )
+        );
+    }
+  );
+}
+
+/**
+ * Reserve a reminder for an event occurrence. Returns null when the event has already been
+ * claimed, which is what keeps an event from being reminded twice.
+ */
+export async function claimEventReminder(
+  db: Database,
+  data: EventReminderInsert
+): Promise<EventReminderRecord | null> {
+  return withMutationLogging(
+    "claimEventReminder",
+    { userId: data.userId, eventId: data.eventId },
+    async () => {
+      const [record]: EventReminderRecord[] = await db
+        .insert(eventReminders)
+        .values(data)
+        .onConflictDoNothing({
+          target: [eventReminders.userId, eventReminders.eventId, eventReminders.eventStart],
+        })
+        .returning();
+
+      return record ?? null;
+    }
+  );
+}
+
+export async function getEventReminderById(
+  db: Database,
+  id: string
+): Promise<EventReminderRecord | null> {
+  return withQueryLogging(
+    "getEventReminderById",
+    { eventReminderId: id },
+    async () => {
+      const record = await db.query.eventReminders.findFirst({
+        where: eq(eventReminders.id, id),
+      });
+
+      return record ?? null;
+    }
+  );
+}
+
+export async function markEventReminderSent(
+  db: Database,
+  id: string,
+  whatsappMessageId?: string | null
+) {
+  return withMutationLogging(
+    "markEventReminderSent",
+    { eventReminderId: id },
+    () =>
+      db
+        .update(eventReminders)
+        .set({
+          status: "sent",
+          whatsappMessageId: whatsappMessageId ?? null,
+          sentAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(eventReminders.id, id))
+  );
+}
+
+export async function markEventReminderFailed(
+  db: Database,
+  id: string,
+  status: "failed" | "skipped",
+  errorMessage: string
+) {
+  return withMutationLogging(
+    "markEventReminderFailed",
+    { eventReminderId: id, status },
+    () =>
+      db
+        .update(eventReminders)
+        .set({
+          status,
+          errorMessage,
+          updatedAt: new Date(),
+        })
+        .where(eq(eventReminders.id, id))
+  );
+}
+
+export type { EventReminderRecord, EventReminderInsert };
@@ -0,0 +1,165 @@
+import { and, asc, gte, isNotNull, lte, sql } from "drizzle-orm";
+import type { Database } from "../client";
+import { sttProviderStats } from "../schema";
+import { withMutationLogging, withQueryLogging } from "../utils/query-logger";
+
+// Stats are kept per provider per UTC hour; daily and period figures are rolled up when read
+
+export interface SttProviderAttempt {
+  providerName: string;
+  success: boolean;
+  fallback: boolean;
+  durationMs: number;
+  audioMinutes: number;
+  cost: number; // USD
+  recordedAt?: Date;
+}
+
+/**
+ * Add one transcription attempt to its provider's hourly bucket
+ */
+export async function recordSttProviderAttempt(db: Database, attempt: SttProviderAttempt) {
+  const recordedAt = attempt.recordedAt ?? new Date();
+  const date = recordedAt.toISOString().slice(0, 10);
+  const hour = recordedAt.getUTCHours();
+
+  return withMutationLogging(
+    'recordSttProviderAttempt',
+    { providerName: attempt.providerName, success: attempt.success, date, hour },
+    () =>
+      db
+        .insert(sttProviderStats)
+        .values({
+          providerName: attempt.providerName,
+          date,
+          hour,
+          totalRequests: 1,
+          successfulRequests: attempt.success ? 1 : 0,
+          failedRequests: attempt.success ? 0 : 1,
+          fallbackCount: attempt.fallback ? 1 : 0,
+          avgDurationMs: attempt.durationMs,
+          totalAudioMinutes: attempt.audioMinutes,
+          totalCost: attempt.cost.toFixed(4),
+        })
+        .onConflictDoUpdate({
+          target: [sttProviderStats.providerName, sttProviderStats.date, sttProviderStats.hour],
+          set: {
+            totalRequests: sql`${sttProviderStats.totalRequests} + 1`,
+            successfulRequests: sql`${sttProviderStats.successfulRequests} + ${attempt.success ? 1 : 0}`,
+            failedRequests: sql`${sttProviderStats.failedRequests} + ${attempt.success ? 0 : 1}`,
+            fallbackCount: sql`${sttProviderStats.fallbackCount} + ${attempt.fallback ? 1 : 0}`,
+            // Running mean over every request in the bucket
+            avgDurationMs: sql`(coalesce(${sttProviderStats.avgDurationMs}, 0) * ${sttProviderStats.totalRequests} + ${attempt.durationMs}) / (${sttProviderStats.totalRequests} + 1)`,
+            totalAudioMinutes: sql`${sttProviderStats.totalAudioMinutes} + ${attempt.audioMinutes}`,
+            totalCost: sql`${sttProviderStats.totalCost} + ${attempt.cost.toFixed(4)}`,
+            updatedAt: new Date(),
+          },
+        })
+  );
+}
+
+function periodFilter(dateRange: { from: Date; to: Date }) {
+  return and(
+    isNotNull(sttProviderStats.hour),
+    gte(sttProviderStats.date, dateRange.from.toISOString().slice(0, 10)),
+    lte(sttProviderStats.date, dateRange.to.toISOString().slice(0, 10))
+  );
+}
+
+const aggregateColumns = {
+  totalRequests: sql<string>`sum(${sttProviderStats.totalRequests})`,
+  successfulRequests: sql<string>`sum(${sttProviderStats.successfulRequests})`,
+  failedRequests: sql<string>`sum(${sttProviderStats.failedRequests})`,
+  fallbackCount: sql<string>`sum(${sttProviderStats.fallbackCount})`,
+  // Weight each bucket's mean by its request count
+  avgDurationMs: sql<string | null>`sum(coalesce(${sttProviderStats.avgDurationMs}, 0) * ${sttProviderStats.totalRequests}) / nullif(sum(${sttProviderStats.totalRequests}), 0)`,
+  totalAudioMinutes: sql<string>`sum(${sttProviderStats.totalAudioMinutes})`,
+  totalCost: sql<string>`sum(${sttProviderStats.totalCost})`,
+};
+
+function toProviderTotals(row: {
+  providerName: string;
+  totalRequests: string;
+  successfulRequests: string;
+  failedRequests: string;
+  fallbackCount: string;
+  avgDurationMs: string | null;
+  totalAudioMinutes: string;
+  totalCost: string;
+}) {
+  const totalRequests = Number(row.totalRequests) || 0;
+  const failedRequests = Number(row.failedRequests) || 0;
+  const totalAudioMinutes = Number(row.totalAudioMinutes) || 0;
+  const totalCost = Number(row.totalCost) || 0;
+
+  return {
+    providerName: row.providerName,
+    totalRequests,
+    successfulRequests: Number(row.successfulRequests) || 0,
+    failedRequests,
+    fallbackCount: Number(row.fallbackCount) || 0,
+    failureRate: totalRequests > 0 ? failedRequests / totalRequests : 0,
+    avgDurationMs: row.avgDurationMs !== null ? Math.round(Number(row.avgDurationMs)) : null,
+    totalAudioMinutes,
+    totalCost,
+    costPerMinute: totalAudioMinutes > 0 ? totalCost / totalAudioMinutes : 0,
+  };
+}
+
+/**
+ * Totals per provider for a period, for side-by-side comparison
+ */
+export async function getSttProviderComparison(
+  db: Database,
+  dateRange: { from: Date; to: Date }
+) {
+  return withQueryLogging(
+    'getSttProviderComparison',
+    { dateRange },
+    async () => {
+      const rows = await db
+        .select({
+          providerName: sttProviderStats.providerName,
+          ...aggregateColumns,
+        })
+        .from(sttProviderStats)
+        .where(periodFilter(dateRange))
+        .groupBy(sttProviderStats.providerName)
+        .orderBy(asc(sttProviderStats.providerName));
+
+      return rows.map(toProviderTotals);
+    }
+  );
+}
+
+/**
+ * Daily totals per provider for charting latency, failure rate and cost over time
+ */
+export async function getSttProviderTrends(
+  db: Database,
+  dateRange: { from: Date; to: Date }
+) {
+  return withQueryLogging(
+    'getSttProviderTrends',
+    { dateRange },
+    async () => {
+      const rows = await db
+        .select({
+          date: sttProviderStats.date,
+          providerName: sttProviderStats.providerName,
+          ...aggregateColumns,
+        })
+        .from(sttProviderStats)
+        .where(periodFilter(dateRange))
+        .groupBy(sttProviderStats.date, sttProviderStats.providerName)
+        .orderBy(asc(sttProviderStats.date), asc(sttProviderStats.providerName));
+
+      return rows.map((row) => ({
+        date: row.date,
+        ...toProviderTotals(row),
+      }));
+    }
+  );
+}
+
+export type SttProviderTotals = ReturnType<typeof toProviderTotals>;
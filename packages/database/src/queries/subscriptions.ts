@@ -1,6 +1,6 @@
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, desc, gt, isNull, lt, lte } from "drizzle-orm";
 import type { Database } from "../client";
-import { subscriptions } from "../schema";
+import { payments, subscriptions } from "../schema";
 import type { PlanId } from "../schema";
 import { withQueryLogging, withMutationLogging } from "../utils/query-logger";
 
@@ -67,6 +67,9 @@ export async function updateSubscription(
     cancelAtPeriodEnd?: boolean;
     payfastSubscriptionId?: string;
     payfastToken?: string;
+    pastDueSince?: Date | null;
+    dunningRemindersSent?: number;
+    creditBalanceCents?: number;
   }
 ) {
   return withMutationLogging(
@@ -129,20 +132,221 @@ export async function reactivateSubscription(db: Database, id: string) {
   );
 }
 
-export async function getExpiringTrials(db: Database) {
+/**
+ * Trials without a payment method that end between now and `until`, with their user
+ */
+export async function getExpiringTrials(db: Database, until: Date) {
   return withQueryLogging(
     'getExpiringTrials',
+    { until },
+    () => db.query.subscriptions.findMany({
+      where: and(
+        eq(subscriptions.status, "active"),
+        isNull(subscriptions.payfastToken),
+        isNull(subscriptions.deletedAt),
+        gt(subscriptions.trialEndsAt, new Date()),
+        lte(subscriptions.trialEndsAt, until)
+      ),
+      with: {
+        user: true,
+      },
+    })
+  );
+}
+
+/**
+ * Trials that ended without the user choosing a paid plan
+ */
+export async function getEndedTrials(db: Database) {
+  return withQueryLogging(
+    'getEndedTrials',
     {},
-    () => {
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      
-      return db.query.subscriptions.findMany({
-        where: and(
-          eq(subscriptions.plan, "trial"),
-          eq(subscriptions.status, "active")
-        ),
-      });
+    () => db.query.subscriptions.findMany({
+      where: and(
+        eq(subscriptions.status, "active"),
+        isNull(subscriptions.payfastToken),
+        isNull(subscriptions.deletedAt),
+        lte(subscriptions.trialEndsAt, new Date())
+      ),
+      with: {
+        user: true,
+      },
+    })
+  );
+}
+
+/**
+ * Subscriptions whose PayFast renewal failed and hasn't been paid since
+ */
+export async function getPastDueSubscriptions(db: Database) {
+  return withQueryLogging(
+    'getPastDueSubscriptions',
+    {},
+    () => db.query.subscriptions.findMany({
+      where: and(
+        eq(subscriptions.status, "past_due"),
+        isNull(subscriptions.deletedAt)
+      ),
+      with: {
+        user: true,
+      },
+    })
+  );
+}
+
+/**
+ * Reserve a trial-ending reminder. Returns nothing when this reminder (or a later one) already went out.
+ */
+export async function claimTrialReminder(db: Database, id: string, reminderNumber: number) {
+  return withMutationLogging(
+    'claimTrialReminder',
+    { subscriptionId: id, reminderNumber },
+    async () => {
+      const [claimed] = await db
+        .update(subscriptions)
+        .set({
+          trialRemindersSent: reminderNumber,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(subscriptions.id, id),
+          eq(subscriptions.status, "active"),
+          lt(subscriptions.trialRemindersSent, reminderNumber)
+        ))
+        .returning();
+
+      return claimed;
+    }
+  );
+}
+
+/**
+ * Reserve a failed-payment reminder. Returns nothing when this reminder (or a later one) already
+ * went out, or the subscription is no longer past due.
+ */
+export async function claimDunningReminder(db: Database, id: string, reminderNumber: number) {
+  return withMutationLogging(
+    'claimDunningReminder',
+    { subscriptionId: id, reminderNumber },
+    async () => {
+      const [claimed] = await db
+        .update(subscriptions)
+        .set({
+          dunningRemindersSent: reminderNumber,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(subscriptions.id, id),
+          eq(subscriptions.status, "past_due"),
+          lt(subscriptions.dunningRemindersSent, reminderNumber)
+        ))
+        .returning();
+
+      return claimed;
+    }
+  );
+}
+
+/**
+ * End a trial that ran out without a payment method. Returns nothing when the user paid in the meantime.
+ */
+export async function expireTrialSubscription(db: Database, id: string) {
+  return withMutationLogging(
+    'expireTrialSubscription',
+    { subscriptionId: id },
+    async () => {
+      const [expired] = await db
+        .update(subscriptions)
+        .set({
+          status: "expired",
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(subscriptions.id, id),
+          eq(subscriptions.status, "active"),
+          isNull(subscriptions.payfastToken),
+          lte(subscriptions.trialEndsAt, new Date())
+        ))
+        .returning();
+
+      return expired;
     }
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Pause a subscription still unpaid after the grace period. Returns nothing when it was paid in the meantime.
+ */
+export async function pauseSubscription(db: Database, id: string) {
+  return withMutationLogging(
+    'pauseSubscription',
+    { subscriptionId: id },
+    async () => {
+      const [paused] = await db
+        .update(subscriptions)
+        .set({
+          status: "paused",
+          updatedAt: new Date(),
+        })
+        .where(and(eq(subscriptions.id, id), eq(subscriptions.status, "past_due")))
+        .returning();
+
+      return paused;
+    }
+  );
+}
+
+/**
+ * Settle a plan change PayFast has charged for: complete its pending payment and move the subscription
+ * in one transaction. Keyed by the charge's m_payment_id, so a change whose recording failed can be
+ * reconciled by running it again. Returns nothing when the payment isn't pending any more.
+ */
+export async function completePlanChange(db: Database, data: {
+  mPaymentId: string;
+  payfastPaymentId?: string;
+  subscriptionId: string;
+  plan: PlanId;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  creditBalanceCents: number;
+}) {
+  const { mPaymentId, payfastPaymentId, subscriptionId, ...subscriptionData } = data;
+
+  return withMutationLogging(
+    'completePlanChange',
+    { subscriptionId, mPaymentId },
+    () => db.transaction(async (tx) => {
+      const now = new Date();
+
+      const [payment] = await tx
+        .update(payments)
+        .set({
+          status: "completed",
+          payfastPaymentId,
+          paidAt: now,
+          updatedAt: now,
+        })
+        .where(and(eq(payments.payfastMPaymentId, mPaymentId), eq(payments.status, "pending")))
+        .returning();
+
+      if (!payment) {
+        return undefined;
+      }
+
+      const [subscription] = await tx
+        .update(subscriptions)
+        .set({
+          ...subscriptionData,
+          updatedAt: now,
+        })
+        .where(eq(subscriptions.id, subscriptionId))
+        .returning();
+
+      if (!subscription) {
+        throw new Error("Subscription not found");
+      }
+
+      return { payment, subscription };
+    })
+  );
+}
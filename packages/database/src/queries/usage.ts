@@ -0,0 +1,260 @@
+import { and, eq, isNull, lt, or, sql } from "drizzle-orm";
+import type { Database } from "../client";
+import { subscriptions, usageCounters } from "../schema";
+import { withMutationLogging, withQueryLogging } from "../utils/query-logger";
+import { getPlanById, type PlanEntitlements } from "./plans";
+
+export type UsageKind = "voice_note" | "text_message" | "media_message";
+
+export type UsageLimitReason = "no_plan" | "paused" | "voice_notes" | "audio_minutes";
+
+export interface UsagePeriod {
+  start: Date;
+  end: Date;
+}
+
+// Users without a running plan can still manage their account, but nothing is processed for them
+const LAPSED_ENTITLEMENTS: PlanEntitlements = {
+  voiceNotesPerMonth: 0,
+  audioMinutesPerMonth: 0,
+  calendarConnections: 1,
+  multiEvent: false,
+  reminders: false,
+};
+
+// How often a user is told they have reached a limit while they keep sending messages
+const LIMIT_NOTIFICATION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+function addUtcMonths(anchor: Date, months: number): Date {
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth() + months;
+  // Clamp the day so a period anchored on the 31st ends on the last day of shorter months
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  return new Date(Date.UTC(
+    year,
+    month,
+    Math.min(anchor.getUTCDate(), lastDay),
+    anchor.getUTCHours(),
+    anchor.getUTCMinutes(),
+    anchor.getUTCSeconds()
+  ));
+}
+
+/**
+ * The usage month containing `now`, anchored to the day the subscription period started.
+ * Annual plans get twelve monthly allowances instead of one yearly one.
+ */
+export function getUsagePeriod(anchor: Date, now = new Date()): UsagePeriod {
+  const elapsedMonths =
+    (now.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + now.getUTCMonth() - anchor.getUTCMonth();
+
+  let start = addUtcMonths(anchor, elapsedMonths);
+
+  if (start > now) {
+    start = addUtcMonths(anchor, elapsedMonths - 1);
+  }
+
+  return {
+    start,
+    end: addUtcMonths(start, 1),
+  };
+}
+
+function isSubscriptionRunning(subscription: typeof subscriptions.$inferSelect, now: Date): boolean {
+  if (subscription.status !== "active" && subscription.status !== "past_due") {
+    return false;
+  }
+
+  if (subscription.trialEndsAt && subscription.trialEndsAt < now && !subscription.payfastToken) {
+    return false;
+  }
+
+  if (subscription.cancelAtPeriodEnd && subscription.currentPeriodEnd < now) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * The entitlements a user has right now, from their plan, and the usage period they are counted in
+ */
+export async function getUserEntitlements(db: Database, userId: string) {
+  return withQueryLogging(
+    'getUserEntitlements',
+    { userId },
+    async () => {
+      const now = new Date();
+      const subscription = await db.query.subscriptions.findFirst({
+        where: and(eq(subscriptions.userId, userId), isNull(subscriptions.deletedAt)),
+      });
+
+      const plan = subscription ? await getPlanById(db, subscription.plan) : null;
+      const hasPlan = !!subscription && !!plan && isSubscriptionRunning(subscription, now);
+
+      // Lapsed users are counted per calendar month
+      const anchor = hasPlan
+        ? subscription.currentPeriodStart
+        : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+      return {
+        subscription: subscription ?? null,
+        plan: hasPlan ? plan : null,
+        hasPlan,
+        entitlements: hasPlan ? plan.entitlements : LAPSED_ENTITLEMENTS,
+        period: getUsagePeriod(anchor, now),
+      };
+    }
+  );
+}
+
+export async function getUsageCounter(db: Database, userId: string, periodStart: Date) {
+  return withQueryLogging(
+    'getUsageCounter',
+    { userId, periodStart },
+    () => db.query.usageCounters.findFirst({
+      where: and(eq(usageCounters.userId, userId), eq(usageCounters.periodStart, periodStart)),
+    })
+  );
+}
+
+/**
+ * What a user has used this period against what their plan allows
+ */
+export async function getUserUsage(db: Database, userId: string) {
+  return withQueryLogging(
+    'getUserUsage',
+    { userId },
+    async () => {
+      const { subscription, plan, hasPlan, entitlements, period } = await getUserEntitlements(db, userId);
+      const counter = await getUsageCounter(db, userId, period.start);
+
+      return {
+        planId: plan?.id ?? null,
+        planName: plan?.name ?? null,
+        hasPlan,
+        isPaused: subscription?.status === "paused",
+        entitlements,
+        period,
+        usage: {
+          voiceNotes: counter?.voiceNotes ?? 0,
+          audioSeconds: counter?.audioSeconds ?? 0,
+          textMessages: counter?.textMessages ?? 0,
+          mediaMessages: counter?.mediaMessages ?? 0,
+        },
+      };
+    }
+  );
+}
+
+/**
+ * Whether a message of this kind may be processed, checked before it is queued
+ */
+export async function checkUsageQuota(db: Database, userId: string, kind: UsageKind) {
+  return withQueryLogging(
+    'checkUsageQuota',
+    { userId, kind },
+    async () => {
+      const { subscription, hasPlan, entitlements, period } = await getUserEntitlements(db, userId);
+
+      const deny = (reason: UsageLimitReason) => ({ allowed: false as const, reason, entitlements, period });
+
+      if (!hasPlan) {
+        return deny(subscription?.status === "paused" ? "paused" : "no_plan");
+      }
+
+      if (kind === "voice_note") {
+        const counter = await getUsageCounter(db, userId, period.start);
+        const { voiceNotesPerMonth, audioMinutesPerMonth } = entitlements;
+
+        if (voiceNotesPerMonth !== null && (counter?.voiceNotes ?? 0) >= voiceNotesPerMonth) {
+          return deny("voice_notes");
+        }
+
+        if (audioMinutesPerMonth !== null && (counter?.audioSeconds ?? 0) >= audioMinutesPerMonth * 60) {
+          return deny("audio_minutes");
+        }
+      }
+
+      return { allowed: true as const, entitlements, period };
+    }
+  );
+}
+
+/**
+ * Add to a user's usage for the period
+ */
+export async function recordUsage(db: Database, data: {
+  userId: string;
+  period: UsagePeriod;
+  voiceNotes?: number;
+  audioSeconds?: number;
+  textMessages?: number;
+  mediaMessages?: number;
+}) {
+  const voiceNotes = data.voiceNotes ?? 0;
+  const audioSeconds = Math.round(data.audioSeconds ?? 0);
+  const textMessages = data.textMessages ?? 0;
+  const mediaMessages = data.mediaMessages ?? 0;
+
+  return withMutationLogging(
+    'recordUsage',
+    { userId: data.userId, periodStart: data.period.start, voiceNotes, audioSeconds, textMessages, mediaMessages },
+    async () => {
+      const [counter] = await db
+        .insert(usageCounters)
+        .values({
+          userId: data.userId,
+          periodStart: data.period.start,
+          periodEnd: data.period.end,
+          voiceNotes,
+          audioSeconds,
+          textMessages,
+          mediaMessages,
+        })
+        .onConflictDoUpdate({
+          target: [usageCounters.userId, usageCounters.periodStart],
+          set: {
+            voiceNotes: sql`${usageCounters.voiceNotes} + ${voiceNotes}`,
+            audioSeconds: sql`${usageCounters.audioSeconds} + ${audioSeconds}`,
+            textMessages: sql`${usageCounters.textMessages} + ${textMessages}`,
+            mediaMessages: sql`${usageCounters.mediaMessages} + ${mediaMessages}`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+
+      return counter;
+    }
+  );
+}
+
+/**
+ * Claim the "limit reached" message for this period. Returns false when the user was told recently.
+ */
+export async function claimLimitNotification(db: Database, userId: string, period: UsagePeriod) {
+  return withMutationLogging(
+    'claimLimitNotification',
+    { userId, periodStart: period.start },
+    async () => {
+      await recordUsage(db, { userId, period });
+
+      const now = new Date();
+      const [claimed] = await db
+        .update(usageCounters)
+        .set({ limitNotifiedAt: now, updatedAt: now })
+        .where(and(
+          eq(usageCounters.userId, userId),
+          eq(usageCounters.periodStart, period.start),
+          or(
+            isNull(usageCounters.limitNotifiedAt),
+            lt(usageCounters.limitNotifiedAt, new Date(now.getTime() - LIMIT_NOTIFICATION_INTERVAL_MS))
+          )
+        ))
+        .returning({ id: usageCounters.id });
+
+      return !!claimed;
+    }
+  );
+}
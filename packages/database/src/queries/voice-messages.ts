@@ -5,6 +5,19 @@ import { withQueryLogging, withMutationLogging } from "../utils/query-logger";
 
 type JsonLike = Record<string, any> | Array<any> | null;
 
+// What a child job of a multi-request message changed, listed in the combined confirmation
+export interface VoiceJobOutcome {
+  action: 'CREATE' | 'UPDATE' | 'DELETE';
+  eventId: string;
+  title: string;
+  start: string; // ISO timestamp
+  allDay?: boolean;
+  operationId?: string; // Event operation the user can undo
+}
+
+// Child jobs in these states won't finish on their own soon, so the combined confirmation doesn't wait for them
+const SETTLED_CHILD_JOB_STATUSES = ['completed', 'failed', 'awaiting_clarification', 'clarification_timeout'];
+
 export async function recordVoiceJobTiming(
   db: Database,
   data: {
@@ -165,6 +178,36 @@ export async function updateVoiceMessageJobStatus(
   );
 }
 
+/**
+ * Move a job from one status to another only if it is still in the first one, so a double tap
+ * on a button acts once. Returns undefined when another request got there first.
+ */
+export async function transitionVoiceMessageJobStatus(
+  db: Database,
+  id: string,
+  from: string,
+  to: string,
+  completedAt?: Date
+) {
+  return withMutationLogging(
+    'transitionVoiceMessageJobStatus',
+    { voiceJobId: id, from, to },
+    async () => {
+      const [updated] = await db
+        .update(voiceMessageJobs)
+        .set({
+          status: to,
+          ...(completedAt && { completedAt }),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(voiceMessageJobs.id, id), eq(voiceMessageJobs.status, from)))
+        .returning();
+
+      return updated;
+    }
+  );
+}
+
 export async function updateVoiceMessageJobAudio(
   db: Database,
   id: string,
@@ -282,6 +325,7 @@ export async function updateVoiceMessageJobCalendarEvent(
   data: {
     calendarEventId: string;
     calendarProvider: string;
+    calendarConnectionId?: string;
   }
 ) {
   return withMutationLogging(
@@ -330,6 +374,117 @@ export async function updateVoiceMessageJobError(
   );
 }
 
+/**
+ * Split a message into one child job per request; the parent is marked "split" until every child has settled
+ */
+export async function createChildVoiceMessageJobs(
+  db: Database,
+  parentJobId: string,
+  requests: Array<{ transcribedText: string; intentJobId: string }>
+) {
+  return withMutationLogging(
+    'createChildVoiceMessageJobs',
+    { voiceJobId: parentJobId, count: requests.length },
+    () => db.transaction(async (tx) => {
+      const [parent] = await tx
+        .update(voiceMessageJobs)
+        .set({
+          status: 'split',
+          updatedAt: new Date(),
+        })
+        .where(eq(voiceMessageJobs.id, parentJobId))
+        .returning();
+
+      if (!parent) {
+        throw new Error(`Voice job ${parentJobId} not found`);
+      }
+
+      return tx
+        .insert(voiceMessageJobs)
+        .values(
+          requests.map((request, index) => ({
+            userId: parent.userId,
+            whatsappNumberId: parent.whatsappNumberId,
+            messageId: `${parent.messageId}:${index + 1}`,
+            mediaId: parent.mediaId,
+            senderPhone: parent.senderPhone,
+            mimeType: parent.mimeType,
+            status: 'transcribed',
+            transcribedText: request.transcribedText,
+            transcriptionLanguage: parent.transcriptionLanguage,
+            intentJobId: request.intentJobId,
+            parentJobId,
+            intentIndex: index,
+            isTestJob: parent.isTestJob,
+            startedAt: new Date(),
+          }))
+        )
+        .returning();
+    })
+  );
+}
+
+/**
+ * Record how a child job settled and, once all of its siblings have too, close the parent.
+ * "complete" means this call closed the parent and the caller should send the combined
+ * confirmation; "closed" means it was already sent, so the child confirms on its own.
+ */
+export async function settleVoiceMessageJobBatch(
+  db: Database,
+  parentJobId: string,
+  settled?: { jobId: string; outcome: VoiceJobOutcome }
+) {
+  return withMutationLogging(
+    'settleVoiceMessageJobBatch',
+    { voiceJobId: parentJobId, childJobId: settled?.jobId },
+    () => db.transaction(async (tx) => {
+      // Locking the parent makes siblings settling at the same time take turns, so exactly one closes it
+      const [parent] = await tx
+        .select({ status: voiceMessageJobs.status })
+        .from(voiceMessageJobs)
+        .where(eq(voiceMessageJobs.id, parentJobId))
+        .for('update');
+
+      if (settled) {
+        await tx
+          .update(voiceMessageJobs)
+          .set({
+            status: 'completed',
+            outcome: settled.outcome,
+            completedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(voiceMessageJobs.id, settled.jobId));
+      }
+
+      if (parent?.status !== 'split') {
+        return { state: 'closed' as const, children: [] };
+      }
+
+      const children = await tx
+        .select()
+        .from(voiceMessageJobs)
+        .where(eq(voiceMessageJobs.parentJobId, parentJobId))
+        .orderBy(asc(voiceMessageJobs.intentIndex));
+
+      if (children.some((child) => !SETTLED_CHILD_JOB_STATUSES.includes(child.status))) {
+        return { state: 'pending' as const, children };
+      }
+
+      await tx
+        .update(voiceMessageJobs)
+        .set({
+          status: 'completed',
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(voiceMessageJobs.id, parentJobId));
+
+      return { state: 'complete' as const, children };
+    })
+  );
+}
+
 export async function getUserVoiceMessageJobs(
   db: Database,
   userId: string,
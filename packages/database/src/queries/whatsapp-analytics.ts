@@ -371,7 +371,7 @@ export async function logOutgoingWhatsAppMessage(
     whatsappNumberId: string;
     userId: string;
     messageId?: string;
-    messageType: 'text' | 'voice' | 'image' | 'document' | 'interactive';
+    messageType: 'text' | 'voice' | 'image' | 'document' | 'interactive' | 'template';
     isFreeMessage?: boolean; // If true, cost = 0 (within 24-hour window)
   }
 ) {
@@ -449,7 +449,7 @@ export async function logIncomingWhatsAppMessage(
     whatsappNumberId: string;
     userId: string;
     messageId?: string;
-    messageType: 'text' | 'voice' | 'image' | 'document' | 'interactive';
+    messageType: 'text' | 'voice' | 'image' | 'document' | 'interactive' | 'contacts' | 'location';
   }
 ) {
   return withMutationLogging(
@@ -11,7 +11,8 @@ import {
   pgEnum,
   jsonb,
   real,
-  date
+  date,
+  type AnyPgColumn
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
@@ -43,6 +44,36 @@ export const paymentStatusEnum = pgEnum("payment_status", [
   "disputed"
 ]);
 
+// Refund requests move requested → approved → processed, or requested → rejected.
+// An approved refund the provider declined stays approved so it can be retried.
+// One sent to the provider without an answer is payout_unknown until an admin checks whether it was paid out.
+// One the provider paid out but we failed to record is payout_unrecorded, so only the recording is retried.
+export const refundRequestStatusEnum = pgEnum("refund_request_status", [
+  "requested",
+  "approved",
+  "payout_unknown",
+  "payout_unrecorded",
+  "processed",
+  "rejected"
+]);
+
+export const couponDiscountTypeEnum = pgEnum("coupon_discount_type", [
+  "percent",
+  "fixed"
+]);
+
+// How many charges a coupon discounts: the first, the first N, or all of them
+export const couponDurationEnum = pgEnum("coupon_duration", [
+  "once",
+  "repeating",
+  "forever"
+]);
+
+export const couponRedemptionStatusEnum = pgEnum("coupon_redemption_status", [
+  "active",
+  "ended"
+]);
+
 export const paymentMethodEnum = pgEnum("payment_method", [
   "card",
   "eft",
@@ -82,6 +113,11 @@ export const activityActionEnum = pgEnum("activity_action", [
   "subscription.downgraded",
   "subscription.cancelled",
   "subscription.renewed",
+  "subscription.trial_reminder_sent",
+  "subscription.expired",
+  "subscription.past_due",
+  "subscription.dunning_reminder_sent",
+  "subscription.paused",
   "payment.completed",
   "payment.failed",
   "payment.refunded",
@@ -116,6 +152,7 @@ export const plans = pgTable("plans", {
   sortOrder: integer("sort_order").default(0).notNull(),
   metadata: jsonb("metadata"),
   payfastConfig: jsonb("payfast_config").notNull(),
+  entitlements: jsonb("entitlements"), // Usage limits and features; missing keys fall back to the defaults in queries/plans
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
@@ -215,9 +252,21 @@ export const userPreferences = pgTable("user_preferences", {
   // WhatsApp settings
   reminderMinutes: integer("reminder_minutes").default(10).notNull(),
   defaultCalendarId: text("default_calendar_id"),
+
+  // Scheduling settings (HH:mm, user's local time)
+  workingHoursStart: text("working_hours_start").default("09:00").notNull(),
+  workingHoursEnd: text("working_hours_end").default("17:00").notNull(),
+
+  // Daily agenda digest (HH:mm, user's local time)
+  dailyDigestEnabled: boolean("daily_digest_enabled").default(false).notNull(),
+  dailyDigestTime: text("daily_digest_time").default("07:00").notNull(),
+  dailyDigestLastSentOn: date("daily_digest_last_sent_on"), // Local date of the last digest sent
+
+  // Add a Meet/Teams link to every new timed event, not just ones described as video calls
+  alwaysAddMeetingLink: boolean("always_add_meeting_link").default(false).notNull(),
   
   // Locale settings
-  timezone: text("timezone").default("Africa/Johannesburg").notNull(),
+  timezone: text("timezone"), // Null until the user picks one; the worker then uses their primary calendar's
   dateFormat: dateFormatEnum("date_format").default("DD/MM/YYYY").notNull(),
   timeFormat: timeFormatEnum("time_format").default("24h").notNull(),
   
@@ -255,6 +304,14 @@ export const subscriptions = pgTable("subscriptions", {
   // PayFast subscription ID
   payfastSubscriptionId: text("payfast_subscription_id"),
   payfastToken: text("payfast_token"),
+
+  // Billing automation: how many trial-ending and failed-payment reminders went out
+  trialRemindersSent: integer("trial_reminders_sent").default(0).notNull(),
+  pastDueSince: timestamp("past_due_since", { withTimezone: true }),
+  dunningRemindersSent: integer("dunning_reminders_sent").default(0).notNull(),
+
+  // Credit left from a plan change, taken off the next renewal (cents)
+  creditBalanceCents: integer("credit_balance_cents").default(0).notNull(),
   
   metadata: text("metadata"), // JSON string for additional data
 
@@ -267,6 +324,7 @@ export const subscriptions = pgTable("subscriptions", {
   payfastSubscriptionIdx: index("subscriptions_payfast_subscription_idx").on(table.payfastSubscriptionId),
   deletedAtIdx: index("subscriptions_deleted_at_idx").on(table.deletedAt),
   planIdx: index("subscriptions_plan_idx").on(table.plan),
+  trialEndsAtIdx: index("subscriptions_trial_ends_at_idx").on(table.trialEndsAt),
 }));
 
 export const subscriptionsRelations = relations(subscriptions, ({ one, many }) => ({
@@ -277,10 +335,44 @@ export const subscriptionsRelations = relations(subscriptions, ({ one, many }) =
   payments: many(payments),
 }));
 
+// ============================================
+// Usage
+// ============================================
+
+// What a user used in one usage period (a month, anchored to their subscription start)
+export const usageCounters = pgTable("usage_counters", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  periodStart: timestamp("period_start", { withTimezone: true }).notNull(),
+  periodEnd: timestamp("period_end", { withTimezone: true }).notNull(),
+  voiceNotes: integer("voice_notes").default(0).notNull(),
+  audioSeconds: integer("audio_seconds").default(0).notNull(),
+  textMessages: integer("text_messages").default(0).notNull(),
+  mediaMessages: integer("media_messages").default(0).notNull(), // Images and documents read for event details
+  limitNotifiedAt: timestamp("limit_notified_at", { withTimezone: true }), // Last "limit reached" message, so it isn't sent for every blocked note
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userPeriodIdx: uniqueIndex("usage_counters_user_period_idx").on(table.userId, table.periodStart),
+}));
+
+export const usageCountersRelations = relations(usageCounters, ({ one }) => ({
+  user: one(users, {
+    fields: [usageCounters.userId],
+    references: [users.id],
+  }),
+}));
+
 // ============================================
 // Payments & Invoices
 // ============================================
 
+// A line on an invoice, e.g. the new plan and the credit for unused time on the old one
+export interface PaymentLineItem {
+  description: string;
+  amount: number; // Cents, VAT-inclusive; negative for credits
+}
+
 export const payments = pgTable("payments", {
   id: uuid("id").defaultRandom().primaryKey(),
   userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
@@ -298,6 +390,7 @@ export const payments = pgTable("payments", {
   description: text("description").notNull(),
   billingPeriodStart: timestamp("billing_period_start", { withTimezone: true }),
   billingPeriodEnd: timestamp("billing_period_end", { withTimezone: true }),
+  lineItems: jsonb("line_items").$type<PaymentLineItem[]>(), // Missing for single-line invoices
   
   // Payment details
   paymentMethod: paymentMethodEnum("payment_method"),
@@ -333,7 +426,7 @@ export const payments = pgTable("payments", {
   deletedAtIdx: index("payments_deleted_at_idx").on(table.deletedAt),
 }));
 
-export const paymentsRelations = relations(payments, ({ one }) => ({
+export const paymentsRelations = relations(payments, ({ one, many }) => ({
   user: one(users, {
     fields: [payments.userId],
     references: [users.id],
@@ -342,6 +435,130 @@ export const paymentsRelations = relations(payments, ({ one }) => ({
     fields: [payments.subscriptionId],
     references: [subscriptions.id],
   }),
+  refundRequests: many(refundRequests),
+}));
+
+export const refundRequests = pgTable("refund_requests", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  paymentId: uuid("payment_id").notNull().references(() => payments.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+
+  amount: integer("amount").notNull(), // Amount to refund in cents, VAT-inclusive
+  reason: text("reason").notNull(),
+  status: refundRequestStatusEnum("status").default("requested").notNull(),
+
+  // Who asked and who decided; an admin refunding directly is both
+  requestedBy: text("requested_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedBy: text("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
+  rejectionReason: text("rejection_reason"),
+
+  // Provider outcome
+  payfastRefundId: text("payfast_refund_id"),
+  failureReason: text("failure_reason"), // Last error from PayFast while approved, or from recording the payout
+
+  // Credit note, numbered like invoices: CN-202410-0001
+  creditNoteNumber: text("credit_note_number"),
+  processedAt: timestamp("processed_at", { withTimezone: true }),
+
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  paymentIdIdx: index("refund_requests_payment_id_idx").on(table.paymentId),
+  userIdIdx: index("refund_requests_user_id_idx").on(table.userId),
+  statusIdx: index("refund_requests_status_idx").on(table.status),
+  creditNoteNumberIdx: uniqueIndex("refund_requests_credit_note_number_idx").on(table.creditNoteNumber),
+}));
+
+// Last credit note number issued per month (YYYYMM); the row is locked while a number is taken
+export const creditNoteCounters = pgTable("credit_note_counters", {
+  period: text("period").primaryKey(),
+  lastNumber: integer("last_number").notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const refundRequestsRelations = relations(refundRequests, ({ one }) => ({
+  payment: one(payments, {
+    fields: [refundRequests.paymentId],
+    references: [payments.id],
+  }),
+  user: one(users, {
+    fields: [refundRequests.userId],
+    references: [users.id],
+  }),
+}));
+
+// ============================================
+// Coupons
+// ============================================
+
+export const coupons = pgTable("coupons", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  code: text("code").notNull().unique(), // Stored uppercase
+  description: text("description"),
+
+  discountType: couponDiscountTypeEnum("discount_type").notNull(),
+  percentOff: integer("percent_off"), // 1-100, for percent discounts
+  amountOffCents: integer("amount_off_cents"), // VAT-inclusive, for fixed discounts
+  duration: couponDurationEnum("duration").notNull(),
+  durationInCycles: integer("duration_in_cycles"), // Charges discounted, for repeating coupons
+
+  maxRedemptions: integer("max_redemptions"), // Null for no limit
+  redemptionCount: integer("redemption_count").default(0).notNull(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }), // Last moment it can be used at checkout
+  planIds: jsonb("plan_ids").$type<string[]>(), // Plans it applies to; null for all of them
+  isActive: boolean("is_active").default(true).notNull(),
+
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  codeIdx: uniqueIndex("coupons_code_idx").on(table.code),
+  isActiveIdx: index("coupons_is_active_idx").on(table.isActive),
+}));
+
+// A user's use of a coupon. Renewals stay discounted while it is active and has charges left.
+export const couponRedemptions = pgTable("coupon_redemptions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  couponId: uuid("coupon_id").notNull().references(() => coupons.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  subscriptionId: uuid("subscription_id").references(() => subscriptions.id, { onDelete: "set null" }),
+  paymentId: uuid("payment_id").references(() => payments.id, { onDelete: "set null" }), // The first discounted payment
+  planId: text("plan_id").notNull(),
+  payfastMPaymentId: text("payfast_m_payment_id"), // Checkout that redeemed it, to spot repeated ITNs
+
+  discountCents: integer("discount_cents").notNull(), // Off each discounted charge
+  chargesRemaining: integer("charges_remaining"), // Discounted renewals left; null for forever
+  status: couponRedemptionStatusEnum("status").default("active").notNull(),
+
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  couponUserIdx: uniqueIndex("coupon_redemptions_coupon_user_idx").on(table.couponId, table.userId),
+  userIdIdx: index("coupon_redemptions_user_id_idx").on(table.userId),
+}));
+
+export const couponsRelations = relations(coupons, ({ many }) => ({
+  redemptions: many(couponRedemptions),
+}));
+
+export const couponRedemptionsRelations = relations(couponRedemptions, ({ one }) => ({
+  coupon: one(coupons, {
+    fields: [couponRedemptions.couponId],
+    references: [coupons.id],
+  }),
+  user: one(users, {
+    fields: [couponRedemptions.userId],
+    references: [users.id],
+  }),
+  subscription: one(subscriptions, {
+    fields: [couponRedemptions.subscriptionId],
+    references: [subscriptions.id],
+  }),
+  payment: one(payments, {
+    fields: [couponRedemptions.paymentId],
+    references: [payments.id],
+  }),
 }));
 
 // ============================================
@@ -356,6 +573,7 @@ export const calendarConnections = pgTable("calendar_connections", {
   email: text("email").notNull(),
   calendarId: text("calendar_id"), // Provider's calendar ID
   calendarName: text("calendar_name"), // Display name
+  label: text("label"), // User's own name for routing, e.g. "Work"
   
   // OAuth tokens (encrypted in production)
   accessToken: text("access_token"),
@@ -368,6 +586,10 @@ export const calendarConnections = pgTable("calendar_connections", {
   lastSyncAt: timestamp("last_sync_at", { withTimezone: true }),
   lastSyncError: text("last_sync_error"),
   syncFailureCount: integer("sync_failure_count").default(0).notNull(),
+
+  // Contact directory sync (Google People sync token / Graph delta link)
+  contactsSyncToken: text("contacts_sync_token"),
+  contactsSyncedAt: timestamp("contacts_synced_at", { withTimezone: true }),
   
   // Provider-specific data
   providerAccountId: text("provider_account_id"),
@@ -382,11 +604,135 @@ export const calendarConnections = pgTable("calendar_connections", {
   isActiveIdx: index("calendar_connections_is_active_idx").on(table.isActive),
 }));
 
-export const calendarConnectionsRelations = relations(calendarConnections, ({ one }) => ({
+export const calendarConnectionsRelations = relations(calendarConnections, ({ one, many }) => ({
   user: one(users, {
     fields: [calendarConnections.userId],
     references: [users.id],
   }),
+  routingRules: many(calendarRoutingRules),
+  contacts: many(contacts),
+}));
+
+// ============================================
+// Calendar Routing Rules
+// ============================================
+
+export const calendarRoutingRules = pgTable("calendar_routing_rules", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  calendarConnectionId: uuid("calendar_connection_id").notNull().references(() => calendarConnections.id, { onDelete: "cascade" }),
+
+  // Keyword or category matched against the event title, description and location
+  keyword: text("keyword").notNull(),
+
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index("calendar_routing_rules_user_id_idx").on(table.userId),
+  userKeywordIdx: uniqueIndex("calendar_routing_rules_user_keyword_idx").on(table.userId, table.keyword),
+}));
+
+export const calendarRoutingRulesRelations = relations(calendarRoutingRules, ({ one }) => ({
+  user: one(users, {
+    fields: [calendarRoutingRules.userId],
+    references: [users.id],
+  }),
+  calendarConnection: one(calendarConnections, {
+    fields: [calendarRoutingRules.calendarConnectionId],
+    references: [calendarConnections.id],
+  }),
+}));
+
+// ============================================
+// Contacts
+// ============================================
+
+export const contacts = pgTable("contacts", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  calendarConnectionId: uuid("calendar_connection_id").notNull().references(() => calendarConnections.id, { onDelete: "cascade" }),
+
+  // Provider's own contact id, used to apply incremental changes
+  providerContactId: text("provider_contact_id").notNull(),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  nicknames: jsonb("nicknames").$type<string[]>().default([]).notNull(),
+
+  // How often the user met this person recently, used to rank matches
+  meetingCount: integer("meeting_count").default(0).notNull(),
+  lastMetAt: timestamp("last_met_at", { withTimezone: true }),
+
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index("contacts_user_id_idx").on(table.userId),
+  userEmailIdx: index("contacts_user_email_idx").on(table.userId, table.email),
+  connectionContactIdx: uniqueIndex("contacts_connection_contact_idx").on(table.calendarConnectionId, table.providerContactId),
+}));
+
+export const contactsRelations = relations(contacts, ({ one }) => ({
+  user: one(users, {
+    fields: [contacts.userId],
+    references: [users.id],
+  }),
+  calendarConnection: one(calendarConnections, {
+    fields: [contacts.calendarConnectionId],
+    references: [calendarConnections.id],
+  }),
+}));
+
+// User-defined names for people, e.g. "my boss" -> jane@acme.com
+export const contactAliases = pgTable("contact_aliases", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+
+  alias: text("alias").notNull(), // Stored lower-cased
+  email: text("email").notNull(),
+  name: text("name"), // Display name shown in confirmations
+
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index("contact_aliases_user_id_idx").on(table.userId),
+  userAliasIdx: uniqueIndex("contact_aliases_user_alias_idx").on(table.userId, table.alias),
+}));
+
+export const contactAliasesRelations = relations(contactAliases, ({ one }) => ({
+  user: one(users, {
+    fields: [contactAliases.userId],
+    references: [users.id],
+  }),
+}));
+
+// People the user added themselves, e.g. an email given when a name couldn't be resolved
+export const personalContacts = pgTable("personal_contacts", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+
+  name: text("name").notNull(),
+  email: text("email").notNull(), // Stored lower-cased
+  source: text("source").default("manual").notNull(), // manual | clarification | vcard
+
+  // Set once the contact was also saved to Google Contacts / Outlook People
+  calendarConnectionId: uuid("calendar_connection_id").references(() => calendarConnections.id, { onDelete: "set null" }),
+  providerContactId: text("provider_contact_id"),
+
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index("personal_contacts_user_id_idx").on(table.userId),
+  userEmailIdx: uniqueIndex("personal_contacts_user_email_idx").on(table.userId, table.email),
+}));
+
+export const personalContactsRelations = relations(personalContacts, ({ one }) => ({
+  user: one(users, {
+    fields: [personalContacts.userId],
+    references: [users.id],
+  }),
+  calendarConnection: one(calendarConnections, {
+    fields: [personalContacts.calendarConnectionId],
+    references: [calendarConnections.id],
+  }),
 }));
 
 // ============================================
@@ -450,7 +796,7 @@ export const whatsappMessageLogs = pgTable("whatsapp_message_logs", {
   // Message details
   messageId: text("message_id"), // WhatsApp message ID if available
   direction: text("direction").notNull(), // 'outgoing' | 'incoming'
-  messageType: text("message_type").default("text").notNull(), // 'text' | 'voice' | 'image' | 'document'
+  messageType: text("message_type").default("text").notNull(), // 'text' | 'voice' | 'image' | 'document' | 'contacts' | 'location' | 'interactive' | 'template'
 
   // Cost information (only for outgoing messages)
   costCents: integer("cost_cents").default(0).notNull(), // Cost in cents
@@ -531,7 +877,8 @@ export const voiceMessageJobs = pgTable("voice_message_jobs", {
 
   // Processing status
   status: text("status").notNull().default("pending"),
-  // Status: pending, downloading, transcribing, analyzing, creating_event, completed, failed
+  // Status: pending, downloading, transcribing, analyzing, creating_event, completed, failed, split,
+  // awaiting_import, importing (calendar invites waiting for the user's go-ahead)
 
   // Provider tracking
   sttProvider: text("stt_provider"), // 'openai-whisper', 'elevenlabs', etc.
@@ -553,10 +900,16 @@ export const voiceMessageJobs = pgTable("voice_message_jobs", {
   intentAnalysis: jsonb("intent_analysis"), // Full CalendarIntent object
   calendarEventId: text("calendar_event_id"),
   calendarProvider: text("calendar_provider"), // 'google' or 'microsoft'
+  calendarConnectionId: uuid("calendar_connection_id").references(() => calendarConnections.id, { onDelete: "set null" }), // Calendar the event was written to
   intentJobId: uuid("intent_job_id"),
   intentSnapshot: jsonb("intent_snapshot"),
   clarificationStatus: text("clarification_status"),
 
+  // Multi-request messages are split into one child job per request
+  parentJobId: uuid("parent_job_id").references((): AnyPgColumn => voiceMessageJobs.id, { onDelete: "cascade" }),
+  intentIndex: integer("intent_index"), // Position of the request within the parent's message
+  outcome: jsonb("outcome"), // What a child job changed, listed in the parent's combined confirmation
+
   // Error tracking
   errorMessage: text("error_message"),
   errorStage: text("error_stage"),
@@ -581,6 +934,7 @@ export const voiceMessageJobs = pgTable("voice_message_jobs", {
   whatsappNumberIdIdx: index("voice_jobs_whatsapp_number_id_idx").on(table.whatsappNumberId),
   messageIdIdx: uniqueIndex("voice_jobs_message_id_idx").on(table.messageId),
   isTestJobIdx: index("voice_jobs_is_test_job_idx").on(table.isTestJob),
+  parentJobIdIdx: index("voice_jobs_parent_job_id_idx").on(table.parentJobId),
 }));
 
 export const voiceJobTimings = pgTable("voice_job_timings", {
@@ -638,6 +992,12 @@ export const voiceMessageJobsRelations = relations(voiceMessageJobs, ({ one, man
     fields: [voiceMessageJobs.whatsappNumberId],
     references: [whatsappNumbers.id],
   }),
+  parentJob: one(voiceMessageJobs, {
+    fields: [voiceMessageJobs.parentJobId],
+    references: [voiceMessageJobs.id],
+    relationName: "voiceJobChildren",
+  }),
+  childJobs: many(voiceMessageJobs, { relationName: "voiceJobChildren" }),
   timings: many(voiceJobTimings),
   intentPayloads: many(intentPipelinePayloads),
 }));
@@ -745,6 +1105,7 @@ export const sttProviderStats = pgTable("stt_provider_stats", {
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
   providerDateIdx: index("stt_stats_provider_date_idx").on(table.providerName, table.date),
+  providerDateHourIdx: uniqueIndex("stt_stats_provider_date_hour_idx").on(table.providerName, table.date, table.hour),
 }));
 
 // Intent Feedback for Continuous Improvement
@@ -774,6 +1135,49 @@ export const intentFeedbackRelations = relations(intentFeedback, ({ one }) => ({
   }),
 }));
 
+// Calendar changes made from voice notes, kept so the last one can be undone from WhatsApp
+export const eventOperations = pgTable("event_operations", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  voiceJobId: uuid("voice_job_id").notNull().references(() => voiceMessageJobs.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  whatsappNumberId: uuid("whatsapp_number_id").notNull().references(() => whatsappNumbers.id, { onDelete: "cascade" }),
+
+  action: text("action").notNull(), // CREATE, UPDATE, DELETE
+  calendarConnectionId: uuid("calendar_connection_id").references(() => calendarConnections.id, { onDelete: "set null" }),
+  eventId: text("event_id").notNull(),
+  eventTitle: text("event_title").notNull(), // Title after the change, for confirmations
+
+  // The event as it was before an UPDATE/DELETE (title, times, location, attendees, ...)
+  previousState: jsonb("previous_state"),
+
+  status: text("status").notNull().default("applied"),
+  // Status: applied, undoing, undone, undo_failed
+  restoredEventId: text("restored_event_id"), // New id of an event recreated by undoing a DELETE
+  errorMessage: text("error_message"),
+
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  undoStartedAt: timestamp("undo_started_at", { withTimezone: true }), // When the undo was claimed, so a lost one can time out
+  undoneAt: timestamp("undone_at", { withTimezone: true }),
+}, (table) => ({
+  voiceJobIdIdx: index("event_operations_voice_job_id_idx").on(table.voiceJobId),
+  whatsappNumberCreatedAtIdx: index("event_operations_whatsapp_number_created_at_idx").on(table.whatsappNumberId, table.createdAt),
+}));
+
+export const eventOperationsRelations = relations(eventOperations, ({ one }) => ({
+  voiceJob: one(voiceMessageJobs, {
+    fields: [eventOperations.voiceJobId],
+    references: [voiceMessageJobs.id],
+  }),
+  user: one(users, {
+    fields: [eventOperations.userId],
+    references: [users.id],
+  }),
+  calendarConnection: one(calendarConnections, {
+    fields: [eventOperations.calendarConnectionId],
+    references: [calendarConnections.id],
+  }),
+}));
+
 // Conversation State for Multi-Turn Interactions
 export const conversationStates = pgTable("conversation_states", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -879,4 +1283,51 @@ export const eventVerificationStatesRelations = relations(eventVerificationState
     fields: [eventVerificationStates.voiceJobId],
     references: [voiceMessageJobs.id],
   }),
-}));
\ No newline at end of file
+}));
+// ============================================
+// Event Reminders
+// ============================================
+
+export const eventReminders = pgTable("event_reminders", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  whatsappNumberId: uuid("whatsapp_number_id").notNull().references(() => whatsappNumbers.id, { onDelete: "cascade" }),
+  calendarConnectionId: uuid("calendar_connection_id").references(() => calendarConnections.id, { onDelete: "set null" }),
+
+  // Provider event being reminded about
+  eventId: text("event_id").notNull(),
+  eventTitle: text("event_title"),
+  eventStart: timestamp("event_start", { withTimezone: true }).notNull(),
+
+  // Reminder details
+  reminderMinutes: integer("reminder_minutes").notNull(),
+  status: text("status").notNull().default("scheduled"),
+  // Status: scheduled, sent, failed, skipped
+  whatsappMessageId: text("whatsapp_message_id"),
+  errorMessage: text("error_message"),
+
+  // Timestamps
+  remindAt: timestamp("remind_at", { withTimezone: true }).notNull(),
+  sentAt: timestamp("sent_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index("event_reminders_user_id_idx").on(table.userId),
+  statusIdx: index("event_reminders_status_idx").on(table.status),
+  userEventStartIdx: uniqueIndex("event_reminders_user_event_start_idx").on(table.userId, table.eventId, table.eventStart),
+}));
+
+export const eventRemindersRelations = relations(eventReminders, ({ one }) => ({
+  user: one(users, {
+    fields: [eventReminders.userId],
+    references: [users.id],
+  }),
+  whatsappNumber: one(whatsappNumbers, {
+    fields: [eventReminders.whatsappNumberId],
+    references: [whatsappNumbers.id],
+  }),
+  calendarConnection: one(calendarConnections, {
+    fields: [eventReminders.calendarConnectionId],
+    references: [calendarConnections.id],
+  }),
+}));
@@ -1,3 +1,5 @@
 // PayFast integration
 export * from './payfast/config';
-export * from './payfast/service';
\ No newline at end of file
+export * from './payfast/service';
+export * from './plans/proration';
+export * from './plans/coupons';
\ No newline at end of file
@@ -9,6 +9,7 @@ export interface PayFastConfig {
   billingReturnUrl: string;
   billingCancelUrl: string;
   notifyUrl: string;
+  refundStub: boolean; // Approve refunds locally instead of calling PayFast (development and tests)
 }
 
 // PayFast IP whitelist for ITN validation
@@ -79,6 +80,7 @@ export const getPayFastConfig = (): PayFastConfig => {
     billingReturnUrl: process.env.PAYFAST_BILLING_RETURN_URL!,
     billingCancelUrl: process.env.PAYFAST_BILLING_CANCEL_URL!,
     notifyUrl: process.env.PAYFAST_NOTIFY_URL!,
+    refundStub: process.env.PAYFAST_REFUND_STUB === 'true',
   };
 };
 
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import { PayFastService } from './service';
+
+const refund = { amountCents: 9900, reason: 'Charged twice' };
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('PayFastService.refundPayment', () => {
+  let fetchSpy: ReturnType<typeof spyOn<typeof globalThis, 'fetch'>>;
+
+  beforeEach(() => {
+    process.env.PAYFAST_SANDBOX_MERCHANT_ID = '10000100';
+    process.env.PAYFAST_SANDBOX_PASSPHRASE = 'test-passphrase';
+    process.env.PAYFAST_REFUND_STUB = 'false';
+    spyOn(console, 'log').mockImplementation(() => {});
+    spyOn(console, 'error').mockImplementation(() => {});
+    fetchSpy = spyOn(globalThis, 'fetch');
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test('returns the refund id PayFast gives back', async () => {
+    fetchSpy.mockResolvedValue(jsonResponse({ status: 'success', data: { response: { refund_id: 123 } } }));
+
+    const result = await new PayFastService().refundPayment('pf_1', refund);
+
+    expect(result).toEqual({ success: true, refundId: '123' });
+    expect(fetchSpy.mock.calls[0]?.[0]).toBe('https://api.payfast.co.za/refunds/pf_1?testing=true');
+  });
+
+  test('reports a rejected refund as failed, not unknown', async () => {
+    fetchSpy.mockResolvedValue(jsonResponse({ status: 'failed', data: { message: 'Amount exceeds payment' } }, 400));
+
+    const result = await new PayFastService().refundPayment('pf_1', refund);
+
+    expect(result).toEqual({ success: false, error: 'Amount exceeds payment', outcomeUnknown: false });
+  });
+
+  test('leaves the outcome unknown when PayFast has a server error', async () => {
+    fetchSpy.mockResolvedValue(new Response('Bad gateway', { status: 502 }));
+
+    const result = await new PayFastService().refundPayment('pf_1', refund);
+
+    expect(result).toEqual({ success: false, error: 'Bad gateway', outcomeUnknown: true });
+  });
+
+  test('leaves the outcome unknown when the request never gets an answer', async () => {
+    fetchSpy.mockRejectedValue(new Error('The operation timed out'));
+
+    const result = await new PayFastService().refundPayment('pf_1', refund);
+
+    expect(result).toEqual({ success: false, error: 'The operation timed out', outcomeUnknown: true });
+  });
+
+  test('approves refunds locally when stubbed', async () => {
+    process.env.PAYFAST_REFUND_STUB = 'true';
+
+    const result = await new PayFastService().refundPayment('pf_1', refund);
+
+    expect(result.success).toBe(true);
+    expect(result.refundId).toStartWith('stub_refund_pf_1_');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
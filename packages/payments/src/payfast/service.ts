@@ -1,5 +1,6 @@
 import crypto from 'crypto';
 import { getPayFastConfig, getPayFastIPWhitelist } from './config';
+import { calculateCouponDiscount, getCouponRenewalCharges, type CouponDiscount } from '../plans/coupons';
 
 export interface PaymentPlanDetails {
   id: string;
@@ -19,6 +20,7 @@ export interface PaymentRequestOptions {
   userName: string;
   userPhone?: string;
   isBillingFlow?: boolean; // Determines which return/cancel URLs to use
+  coupon?: CouponDiscount; // Already validated for this user and plan
 }
 
 export interface PaymentFormData {
@@ -26,6 +28,31 @@ export interface PaymentFormData {
   fields: Record<string, any>;
 }
 
+export interface RefundOptions {
+  amountCents: number; // Less than the payment total for a partial refund
+  reason: string;
+  notifyBuyer?: boolean;
+}
+
+export interface RefundResult {
+  success: boolean;
+  refundId?: string;
+  error?: string;
+  outcomeUnknown?: boolean; // No answer from PayFast, so the refund may still have been paid out
+}
+
+export interface AdhocChargeOptions {
+  amountCents: number;
+  itemName: string;
+  mPaymentId: string; // Our reference for the charge
+}
+
+export interface AdhocChargeResult {
+  success: boolean;
+  pfPaymentId?: string;
+  error?: string;
+}
+
 export class PayFastService {
   private config = getPayFastConfig();
 
@@ -67,7 +94,11 @@ export class PayFastService {
 
   async createPaymentRequest(options: PaymentRequestOptions): Promise<PaymentFormData> {
     const plan = options.plan;
-    const amount = plan.amountCents / 100;
+    const discountCents = options.coupon ? calculateCouponDiscount(plan.amountCents, options.coupon) : 0;
+    const amount = (plan.amountCents - discountCents) / 100;
+    // Renewals stay discounted only while the coupon lasts beyond the first payment
+    const renewalDiscounted = !!options.coupon && getCouponRenewalCharges(options.coupon) !== 0;
+    const recurringAmount = renewalDiscounted ? amount : plan.amountCents / 100;
     
     const data: Record<string, any> = {
       merchant_id: this.config.merchantId,
@@ -91,11 +122,15 @@ export class PayFastService {
       custom_str2: plan.id,
     };
 
+    if (options.coupon && discountCents > 0) {
+      data.custom_str3 = options.coupon.code;
+    }
+
     // Add subscription fields for recurring payments
     if (plan.payfastConfig.recurring) {
       data.subscription_type = '1'; // Recurring subscription
       data.billing_date = new Date().toISOString().split('T')[0];
-      data.recurring_amount = amount.toFixed(2);
+      data.recurring_amount = recurringAmount.toFixed(2);
       if (plan.payfastConfig.frequency != null) {
         data.frequency = String(plan.payfastConfig.frequency); // 3 for monthly, 6 for annual
       }
@@ -531,6 +566,123 @@ export class PayFastService {
     }
   }
 
+  /**
+   * Refund all or part of a completed payment through PayFast's refund API. With PAYFAST_REFUND_STUB=true
+   * the refund is approved locally without calling PayFast.
+   */
+  async refundPayment(pfPaymentId: string, options: RefundOptions): Promise<RefundResult> {
+    if (this.config.refundStub) {
+      console.log('PayFast Refund stubbed:', { pfPaymentId, amountCents: options.amountCents });
+      return { success: true, refundId: `stub_refund_${pfPaymentId}_${Date.now()}` };
+    }
+
+    try {
+      const body = {
+        amount: options.amountCents,
+        reason: options.reason,
+        notify_buyer: options.notifyBuyer === false ? 0 : 1,
+      };
+      const headers = this.generateApiHeaders(body);
+      const apiUrl = `${this.config.apiBaseUrl}/refunds/${pfPaymentId}?testing=true`;
+
+      console.log('PayFast Refund Request:', {
+        url: apiUrl,
+        method: 'POST',
+        amountCents: options.amountCents,
+      });
+
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body)
+      });
+
+      const contentType = response.headers.get('content-type');
+      const result: any = contentType?.includes('application/json') ? await response.json() : await response.text();
+
+      if (!response.ok || (typeof result === 'object' && result.status !== 'success')) {
+        console.error('PayFast Refund API error:', {
+          status: response.status,
+          statusText: response.statusText,
+          body: result
+        });
+
+        const message = typeof result === 'object' ? result.data?.message ?? result.message : result;
+        return {
+          success: false,
+          error: message || `PayFast returned ${response.status}`,
+          // A server or gateway error doesn't tell us whether the refund went through
+          outcomeUnknown: response.status >= 500,
+        };
+      }
+
+      console.log('PayFast Refund Result:', result);
+
+      const refundId = typeof result === 'object' ? result.data?.response?.refund_id ?? result.data?.refund_id : undefined;
+      return { success: true, refundId: refundId ? String(refundId) : undefined };
+    } catch (error) {
+      console.error('Error refunding PayFast payment:', error);
+      // The request may have reached PayFast before the connection dropped or timed out
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Could not reach PayFast',
+        outcomeUnknown: true,
+      };
+    }
+  }
+
+  /**
+   * Charge a once-off amount to the card on a subscription token, e.g. the difference on a plan upgrade.
+   * No ITN is requested because the caller records the payment from the response.
+   */
+  async chargeAdhoc(token: string, options: AdhocChargeOptions): Promise<AdhocChargeResult> {
+    try {
+      const body = {
+        amount: options.amountCents,
+        item_name: options.itemName,
+        m_payment_id: options.mPaymentId,
+        itn: false,
+      };
+      const headers = this.generateApiHeaders(body);
+      const apiUrl = `${this.config.apiBaseUrl}/subscriptions/${token}/adhoc?testing=true`;
+
+      console.log('PayFast Adhoc Charge Request:', {
+        url: apiUrl,
+        method: 'POST',
+        amountCents: options.amountCents,
+        mPaymentId: options.mPaymentId,
+      });
+
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body)
+      });
+
+      const contentType = response.headers.get('content-type');
+      const result: any = contentType?.includes('application/json') ? await response.json() : await response.text();
+
+      if (!response.ok || typeof result !== 'object' || result.status !== 'success' || result.data?.response === false) {
+        console.error('PayFast Adhoc Charge API error:', {
+          status: response.status,
+          statusText: response.statusText,
+          body: result
+        });
+
+        const message = typeof result === 'object' ? result.data?.message ?? result.message : result;
+        return { success: false, error: message || `PayFast returned ${response.status}` };
+      }
+
+      console.log('PayFast Adhoc Charge Result:', result);
+
+      const pfPaymentId = result.data?.pf_payment_id ?? result.data?.response?.pf_payment_id;
+      return { success: true, pfPaymentId: pfPaymentId ? String(pfPaymentId) : undefined };
+    } catch (error) {
+      console.error('Error charging PayFast subscription token:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Could not reach PayFast' };
+    }
+  }
+
   async getSubscription(token: string): Promise<any> {
     try {
       const headers = this.generateApiHeaders();
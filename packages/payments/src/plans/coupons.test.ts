@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+import { calculateCouponDiscount, describeCoupon, getCouponRenewalCharges, type CouponDiscount } from './coupons';
+
+const percentCoupon: CouponDiscount = {
+  code: 'SAVE20',
+  discountType: 'percent',
+  percentOff: 20,
+  amountOffCents: null,
+  duration: 'once',
+  durationInCycles: null,
+};
+
+const fixedCoupon: CouponDiscount = {
+  code: 'R50OFF',
+  discountType: 'fixed',
+  percentOff: null,
+  amountOffCents: 5000,
+  duration: 'forever',
+  durationInCycles: null,
+};
+
+describe('calculateCouponDiscount', () => {
+  test('takes a percentage off, rounded to the cent', () => {
+    expect(calculateCouponDiscount(9999, percentCoupon)).toBe(2000);
+  });
+
+  test('takes a fixed amount off', () => {
+    expect(calculateCouponDiscount(19900, fixedCoupon)).toBe(5000);
+  });
+
+  test('never brings the charge below the minimum PayFast accepts', () => {
+    expect(calculateCouponDiscount(5200, fixedCoupon)).toBe(4700);
+    expect(calculateCouponDiscount(9900, { ...percentCoupon, percentOff: 100 })).toBe(9400);
+  });
+
+  test('gives no discount on charges already at the minimum', () => {
+    expect(calculateCouponDiscount(400, fixedCoupon)).toBe(0);
+  });
+});
+
+describe('getCouponRenewalCharges', () => {
+  test('discounts no renewals for once-off coupons', () => {
+    expect(getCouponRenewalCharges(percentCoupon)).toBe(0);
+  });
+
+  test('counts the first charge against repeating coupons', () => {
+    expect(getCouponRenewalCharges({ ...percentCoupon, duration: 'repeating', durationInCycles: 3 })).toBe(2);
+    expect(getCouponRenewalCharges({ ...percentCoupon, duration: 'repeating', durationInCycles: null })).toBe(0);
+  });
+
+  test('has no limit for forever coupons', () => {
+    expect(getCouponRenewalCharges(fixedCoupon)).toBeNull();
+  });
+});
+
+describe('describeCoupon', () => {
+  test('describes each duration', () => {
+    expect(describeCoupon(percentCoupon)).toBe('20% off your first payment');
+    expect(describeCoupon({ ...percentCoupon, duration: 'repeating', durationInCycles: 3 })).toBe('20% off for 3 payments');
+    expect(describeCoupon(fixedCoupon)).toBe('R50.00 off every payment');
+  });
+});
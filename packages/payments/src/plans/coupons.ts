@@ -0,0 +1,56 @@
+// Coupon discounts at checkout and on renewals. Amounts are VAT-inclusive cents.
+
+// PayFast won't take a payment under R5, so a discount never brings a charge below this
+export const MIN_CHARGE_CENTS = 500;
+
+export interface CouponDiscount {
+  code: string;
+  discountType: 'percent' | 'fixed';
+  percentOff: number | null;
+  amountOffCents: number | null;
+  duration: 'once' | 'repeating' | 'forever';
+  durationInCycles: number | null; // Charges discounted, for repeating coupons
+}
+
+/**
+ * How much a coupon takes off a charge
+ */
+export function calculateCouponDiscount(amountCents: number, coupon: CouponDiscount): number {
+  const discount = coupon.discountType === 'percent'
+    ? Math.round((amountCents * (coupon.percentOff ?? 0)) / 100)
+    : coupon.amountOffCents ?? 0;
+
+  return Math.max(0, Math.min(discount, amountCents - MIN_CHARGE_CENTS));
+}
+
+/**
+ * Discounted charges after the first one: null while the coupon lasts forever
+ */
+export function getCouponRenewalCharges(coupon: CouponDiscount): number | null {
+  switch (coupon.duration) {
+    case 'forever':
+      return null;
+    case 'repeating':
+      return Math.max(0, (coupon.durationInCycles ?? 1) - 1);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * A short description of the discount, e.g. "20% off for 3 payments"
+ */
+export function describeCoupon(coupon: CouponDiscount): string {
+  const amount = coupon.discountType === 'percent'
+    ? `${coupon.percentOff ?? 0}% off`
+    : `R${((coupon.amountOffCents ?? 0) / 100).toFixed(2)} off`;
+
+  switch (coupon.duration) {
+    case 'forever':
+      return `${amount} every payment`;
+    case 'repeating':
+      return `${amount} for ${coupon.durationInCycles ?? 1} payments`;
+    default:
+      return `${amount} your first payment`;
+  }
+}
@@ -0,0 +1,152 @@
+// Proration for plan changes in the middle of a billing period. Amounts are VAT-inclusive cents.
+
+export interface ProrationPlan {
+  id: string;
+  name: string;
+  amountCents: number;
+  frequency: number; // PayFast billing frequency
+}
+
+export interface ProrationLineItem {
+  description: string;
+  amount: number; // Cents, VAT-inclusive; negative for credits
+}
+
+export interface ProrationOptions {
+  currentPlan: ProrationPlan;
+  newPlan: ProrationPlan;
+  periodStart: Date;
+  periodEnd: Date;
+  creditBalanceCents?: number; // Credit still owed from an earlier change
+  now?: Date;
+}
+
+export interface ProrationPreview {
+  currentPlanId: string;
+  newPlanId: string;
+  // Changing how often the user is billed starts a new period today; otherwise the period stays
+  resetsBillingCycle: boolean;
+  periodStart: Date;
+  periodEnd: Date;
+  unusedCreditCents: number;
+  newPlanChargeCents: number;
+  creditAppliedCents: number;
+  amountDueCents: number; // Charged now
+  creditCarriedCents: number; // Left over for later renewals
+  coveredPeriods: number; // Whole renewals the leftover credit pays for
+  nextBillingDate: Date;
+  nextChargeCents: number; // The next renewal, less any leftover credit
+  lineItems: ProrationLineItem[];
+}
+
+/**
+ * The end of `count` billing periods starting at `start`, by PayFast frequency
+ */
+export function addBillingPeriods(start: Date, frequency: number, count = 1): Date {
+  const end = new Date(start);
+
+  switch (frequency) {
+    case 1:
+      end.setDate(end.getDate() + count);
+      break;
+    case 2:
+      end.setDate(end.getDate() + 7 * count);
+      break;
+    case 4:
+      end.setMonth(end.getMonth() + 3 * count);
+      break;
+    case 5:
+      end.setMonth(end.getMonth() + 6 * count);
+      break;
+    case 6:
+      end.setFullYear(end.getFullYear() + count);
+      break;
+    default:
+      end.setMonth(end.getMonth() + count);
+  }
+
+  return end;
+}
+
+function formatPeriod(start: Date, end: Date): string {
+  const options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric' };
+  return `${start.toLocaleDateString('en-ZA', options)} - ${end.toLocaleDateString('en-ZA', options)}`;
+}
+
+/**
+ * Work out what switching plans now costs: credit for the unused part of the current period, the charge for
+ * the new plan, and what is due today or carried to later renewals
+ */
+export function calculateProration(options: ProrationOptions): ProrationPreview {
+  const { currentPlan, newPlan, periodStart, periodEnd } = options;
+  const now = options.now ?? new Date();
+  const creditBalance = Math.max(0, options.creditBalanceCents ?? 0);
+
+  const periodMs = periodEnd.getTime() - periodStart.getTime();
+  const remaining = periodMs > 0
+    ? Math.min(1, Math.max(0, (periodEnd.getTime() - now.getTime()) / periodMs))
+    : 0;
+
+  const resetsBillingCycle = currentPlan.frequency !== newPlan.frequency;
+  const newPeriodStart = resetsBillingCycle ? now : periodStart;
+  const newPeriodEnd = resetsBillingCycle ? addBillingPeriods(now, newPlan.frequency) : periodEnd;
+
+  const unusedCreditCents = Math.round(currentPlan.amountCents * remaining);
+  const newPlanChargeCents = resetsBillingCycle
+    ? newPlan.amountCents
+    : Math.round(newPlan.amountCents * remaining);
+
+  const beforeBalance = newPlanChargeCents - unusedCreditCents;
+  const creditAppliedCents = beforeBalance > 0 ? Math.min(creditBalance, beforeBalance) : 0;
+  const net = beforeBalance - creditAppliedCents;
+
+  const amountDueCents = Math.max(0, net);
+  // Credit from this change plus whatever wasn't needed from the balance
+  const creditCarriedCents = Math.max(0, -net) + (creditBalance - creditAppliedCents);
+
+  // Leftover credit pays for whole renewals first; the rest comes off the next charge
+  const coveredPeriods = newPlan.amountCents > 0 ? Math.floor(creditCarriedCents / newPlan.amountCents) : 0;
+  const nextBillingDate = addBillingPeriods(newPeriodEnd, newPlan.frequency, coveredPeriods);
+  const nextChargeCents = newPlan.amountCents - (creditCarriedCents - coveredPeriods * newPlan.amountCents);
+
+  const lineItems: ProrationLineItem[] = [
+    {
+      description: resetsBillingCycle
+        ? `${newPlan.name} (${formatPeriod(newPeriodStart, newPeriodEnd)})`
+        : `Remaining time on ${newPlan.name} (${formatPeriod(now, newPeriodEnd)})`,
+      amount: newPlanChargeCents,
+    },
+  ];
+
+  if (unusedCreditCents > 0) {
+    lineItems.push({
+      description: `Unused time on ${currentPlan.name} (${formatPeriod(now, periodEnd)})`,
+      amount: -unusedCreditCents,
+    });
+  }
+
+  if (creditAppliedCents > 0) {
+    lineItems.push({ description: 'Credit from an earlier plan change', amount: -creditAppliedCents });
+  }
+
+  if (net < 0) {
+    lineItems.push({ description: 'Credit carried to your next renewal', amount: -net });
+  }
+
+  return {
+    currentPlanId: currentPlan.id,
+    newPlanId: newPlan.id,
+    resetsBillingCycle,
+    periodStart: newPeriodStart,
+    periodEnd: newPeriodEnd,
+    unusedCreditCents,
+    newPlanChargeCents,
+    creditAppliedCents,
+    amountDueCents,
+    creditCarriedCents,
+    coveredPeriods,
+    nextBillingDate,
+    nextChargeCents,
+    lineItems,
+  };
+}
@@ -4,6 +4,8 @@ export * from './service/whatsapp';
 
 // Webhook utilities
 export * from './utils/webhook';
+export * from './utils/location';
+export * from './utils/contacts';
 
 // Webhook schemas
 export * from './schemas/webhook';
\ No newline at end of file
@@ -25,6 +25,14 @@ export const whatsappMessageDocumentSchema = z.object({
   caption: z.string().optional(), // Document caption
 });
 
+export const whatsappMessageLocationSchema = z.object({
+  latitude: z.number(), // Latitude of the shared pin
+  longitude: z.number(), // Longitude of the shared pin
+  name: z.string().optional(), // Place name, when a place was picked rather than a pin dropped
+  address: z.string().optional(), // Street address of the place
+  url: z.string().optional(), // Website of the place
+});
+
 export const whatsappInteractiveListReplySchema = z.object({
   id: z.string(), // The ID of the selected list item
   title: z.string(), // The title of the selected list item
@@ -59,6 +67,7 @@ export const whatsappMessageSchema = z.object({
   voice: whatsappMessageAudioSchema.optional(),
   image: whatsappMessageImageSchema.optional(),
   document: whatsappMessageDocumentSchema.optional(),
+  location: whatsappMessageLocationSchema.optional(),
   interactive: whatsappInteractiveSchema.optional(),
 });
 
@@ -127,5 +136,6 @@ export const whatsappParsedMessageSchema = z.object({
 export type WhatsAppWebhookPayload = z.infer<typeof whatsappWebhookSchema>;
 export type WhatsAppMessage = z.infer<typeof whatsappMessageSchema>;
 export type WhatsAppContact = z.infer<typeof whatsappContactSchema>;
+export type WhatsAppLocation = z.infer<typeof whatsappMessageLocationSchema>;
 export type WhatsAppValue = z.infer<typeof whatsappValueSchema>;
 export type WhatsAppParsedMessage = z.infer<typeof whatsappParsedMessageSchema>;
\ No newline at end of file
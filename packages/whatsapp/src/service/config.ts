@@ -12,6 +12,8 @@ export const WhatsAppConfig = z.object({
   welcomeButtonText: z.string().default('Link Calendars'),
   welcomeButtonUrl: z.string().default('https://dashboard.crackon.ai/settings/calendars'),
   welcomeFooterText: z.string().default('Start managing your schedule effortlessly!'),
+  // Where "limit reached" messages send users to upgrade
+  upgradeButtonUrl: z.string().default('https://dashboard.crackon.ai/billing'),
 });
 
 export type WhatsAppConfigType = z.infer<typeof WhatsAppConfig>;
@@ -29,6 +31,7 @@ export const getWhatsAppConfig = (): WhatsAppConfigType => {
       welcomeButtonText: process.env.WHATSAPP_WELCOME_BUTTON_TEXT || 'Link Calendars',
       welcomeButtonUrl: process.env.WHATSAPP_WELCOME_BUTTON_URL || 'https://dashboard.crackon.ai/settings/calendars',
       welcomeFooterText: process.env.WHATSAPP_WELCOME_FOOTER_TEXT || 'Start managing your schedule effortlessly!',
+      upgradeButtonUrl: process.env.WHATSAPP_UPGRADE_BUTTON_URL || 'https://dashboard.crackon.ai/billing',
     });
   } catch (error) {
     logger.error({ error }, 'WhatsApp configuration error');
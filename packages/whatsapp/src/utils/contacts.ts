@@ -0,0 +1,20 @@
+/**
+ * Reply to contacts the user shared or forwarded as a card: who was saved, and who couldn't be
+ * because they have no email address. Empty when nobody could be read.
+ */
+export function formatSavedContactsMessage(savedNames: string[], skippedNames: string[]): string {
+  const lines: string[] = [];
+
+  if (savedNames.length) {
+    lines.push(`👤 Saved ${savedNames.join(', ')} to your contacts. You can now invite them by name.`);
+  }
+
+  if (skippedNames.length) {
+    const single = skippedNames.length === 1;
+    lines.push(
+      `${skippedNames.join(', ')} ${single ? "doesn't" : "don't"} have an email address, so I can't invite ${single ? 'them' : 'those people'} to events yet.`
+    );
+  }
+
+  return lines.join('\n\n');
+}
@@ -0,0 +1,29 @@
+import type { WhatsAppLocation } from '../schemas/webhook';
+
+type SharedLocation = Pick<WhatsAppLocation, 'latitude' | 'longitude' | 'name' | 'address'>;
+
+/**
+ * Text to use as an event's location: the place name and address when a place was picked,
+ * otherwise the coordinates of the dropped pin
+ */
+export function formatLocationLabel(location: SharedLocation): string {
+  const parts = [location.name, location.address]
+    .map((part) => part?.trim())
+    .filter((part): part is string => Boolean(part));
+
+  return parts.length ? [...new Set(parts)].join(', ') : formatCoordinates(location);
+}
+
+/**
+ * Coordinates and a maps link for an event's description, so the exact spot can be opened on any phone
+ */
+export function formatLocationDetails(location: SharedLocation): string {
+  const coordinates = formatCoordinates(location);
+  const mapsLink = `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(coordinates)}`;
+
+  return `📍 ${coordinates}\n${mapsLink}`;
+}
+
+function formatCoordinates(location: SharedLocation): string {
+  return `${location.latitude.toFixed(6)},${location.longitude.toFixed(6)}`;
+}